@@ -27,6 +27,7 @@ import AnscombeQuartet from './components/AnscombeQuartet';
 import PowerAnalysisGame from './components/PowerAnalysisGame';
 import ProbabilityScannerGame from './components/ProbabilityScannerGame';
 import PredictionPainterGame from './components/PredictionPainterGame';
+import ResamplingAnalysis from './components/ResamplingAnalysis';
 
 //================================================
 // Curriculum Data Structure
@@ -37,7 +38,7 @@ interface ModuleDef {
     title: string;
     description: string;
     manipulation: string;
-    component: 'z-test' | 'regression' | 'correlation' | 'confidence' | 'game' | 'god-mode' | 'summation' | 'rank-line' | 'balance-beam' | 'dart-board' | 'coin-flipper' | 'signal-noise' | 'effect-magnifier' | 'prediction-laser' | 'box-plot' | 'mode-viz' | 'galton-board' | 'p-hacking' | 'anscombe' | 'power-game' | 'prob-scanner-game' | 'painter-game' | 'placeholder';
+    component: 'z-test' | 'regression' | 'correlation' | 'confidence' | 'game' | 'god-mode' | 'summation' | 'rank-line' | 'balance-beam' | 'dart-board' | 'coin-flipper' | 'signal-noise' | 'effect-magnifier' | 'prediction-laser' | 'box-plot' | 'mode-viz' | 'galton-board' | 'p-hacking' | 'anscombe' | 'power-game' | 'prob-scanner-game' | 'painter-game' | 'resampling' | 'placeholder';
 }
 
 interface AssessmentDef {
@@ -273,6 +274,25 @@ const CURRICULUM: AssessmentDef[] = [
                 component: 'painter-game'
             }
         ]
+    },
+    {
+        id: 'assessment-11',
+        title: 'Resampling',
+        subTitle: 'Inference by Simulation',
+        modules: [
+            {
+                id: 'bootstrap-lab', title: 'The Bootstrap Lab',
+                description: 'Bootstrap Confidence Intervals (Percentile, BCa, Studentized).',
+                manipulation: 'Resample a skewed sample until the bootstrap distribution appears, then run repeated studies to see which interval really captures the truth 95% of the time.',
+                component: 'resampling'
+            },
+            {
+                id: 'permutation-shuffler', title: 'The Label Shuffler',
+                description: 'Permutation Tests.',
+                manipulation: 'Shuffle the group labels to build the "no effect" world and find where the real difference falls.',
+                component: 'resampling'
+            }
+        ]
     }
 ];
 
@@ -608,6 +628,8 @@ const App: React.FC = () => {
                 return <ZTestAnalysis {...commonProps} />;
             case 'confidence':
                 return <ConfidenceIntervalAnalysis {...commonProps} />;
+            case 'resampling':
+                return <ResamplingAnalysis {...commonProps} />;
             case 'placeholder':
                 return (
                     <div className="flex flex-col items-center justify-center min-h-[80vh] text-center max-w-3xl mx-auto px-4">
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { DistributionParams } from '../types';
-import { calculateAnova } from '../services/statisticsService';
+import { DistributionParams, AnovaResult, PostHocComparison } from '../types';
+import { calculateAnova, generateSampleData } from '../services/statisticsService';
 import { getChatResponse } from '../services/geminiService';
 import DistributionChart from './DistributionChart';
 import UnifiedGenAIChat, { Message } from './UnifiedGenAIChat';
@@ -9,7 +9,7 @@ interface AnovaAnalysisProps {
     onBack: () => void;
 }
 
-const Slider: React.FC<{ label: string, value: number, min: number, max: number, step: number, onChange: (e: React.ChangeEvent<HTMLInputElement>) => void }> = ({ label, value, min, max, step, onChange }) => (
+const Slider: React.FC<{ label: string, value: number, min: number, max: number, step: number, onChange: (e: React.ChangeEvent<HTMLInputElement>) => void, onCommit: () => void }> = ({ label, value, min, max, step, onChange, onCommit }) => (
     <div>
         <label className="flex justify-between text-sm text-slate-400">
             <span>{label}</span>
@@ -22,6 +22,9 @@ const Slider: React.FC<{ label: string, value: number, min: number, max: number,
             step={step}
             value={value}
             onChange={onChange}
+            onPointerUp={onCommit}
+            onKeyUp={onCommit}
+            onBlur={onCommit}
             className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer"
         />
     </div>
@@ -32,24 +35,62 @@ const GroupControls: React.FC<{
     colorClass: string;
     params: DistributionParams;
     setParams: React.Dispatch<React.SetStateAction<DistributionParams>>;
-}> = ({ title, colorClass, params, setParams }) => (
+    onCommit: () => void;
+}> = ({ title, colorClass, params, setParams, onCommit }) => (
     <div>
         <h3 className={`text-lg font-semibold ${colorClass} mb-3 border-b ${colorClass.replace('text-', 'border-')}/20 pb-2`}>{title}</h3>
         <div className="space-y-4 mt-3">
-            <Slider label="Mean" value={params.mean} min={10} max={90} step={0.5} onChange={(e) => setParams(p => ({ ...p, mean: +e.target.value }))} />
-            <Slider label="Standard Deviation" value={params.stdDev} min={2} max={20} step={0.5} onChange={(e) => setParams(p => ({ ...p, stdDev: +e.target.value }))} />
-            <Slider label="Sample Size (n)" value={params.size} min={5} max={200} step={1} onChange={(e) => setParams(p => ({ ...p, size: +e.target.value }))} />
+            <Slider label="Mean" value={params.mean} min={10} max={90} step={0.5} onChange={(e) => setParams(p => ({ ...p, mean: +e.target.value }))} onCommit={onCommit} />
+            <Slider label="Standard Deviation" value={params.stdDev} min={2} max={20} step={0.5} onChange={(e) => setParams(p => ({ ...p, stdDev: +e.target.value }))} onCommit={onCommit} />
+            <Slider label="Sample Size (n)" value={params.size} min={5} max={200} step={1} onChange={(e) => setParams(p => ({ ...p, size: +e.target.value }))} onCommit={onCommit} />
         </div>
     </div>
 );
 
 
+const GROUP_NAMES = ['Cyan', 'Pink', 'Lime'];
+
+const drawGroup = (params: DistributionParams) => ({ params, sample: generateSampleData(params.mean, params.stdDev, params.size) });
+
+const formatPValue = (p: number) => !Number.isFinite(p) ? '—' : p < 0.001 && p !== 0 ? p.toExponential(2) : p.toFixed(4);
+
+const PostHocTable: React.FC<{ comparisons: PostHocComparison[] }> = ({ comparisons }) => (
+    <table className="w-full text-sm font-mono">
+        <thead>
+            <tr className="text-slate-400 text-xs">
+                <th className="text-left font-normal pb-1">Pair</th>
+                <th className="text-right font-normal pb-1">Diff</th>
+                <th className="text-right font-normal pb-1">95% CI</th>
+                <th className="text-right font-normal pb-1">p</th>
+            </tr>
+        </thead>
+        <tbody>
+            {comparisons.map(c => (
+                <tr key={`${c.groupA}-${c.groupB}`} className={c.significant ? 'text-cyan-300' : 'text-slate-400'}>
+                    <td className="py-1">{GROUP_NAMES[c.groupA]} - {GROUP_NAMES[c.groupB]}</td>
+                    <td className="text-right">{c.meanDifference.toFixed(2)}</td>
+                    <td className="text-right">{Number.isFinite(c.lowerBound) ? `[${c.lowerBound.toFixed(2)}, ${c.upperBound.toFixed(2)}]` : '—'}</td>
+                    <td className="text-right">{formatPValue(c.pValue)}</td>
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
+
 const AnovaAnalysis: React.FC<AnovaAnalysisProps> = ({ onBack }) => {
     const [group1, setGroup1] = useState<DistributionParams>({ mean: 40, stdDev: 8, size: 50 });
     const [group2, setGroup2] = useState<DistributionParams>({ mean: 50, stdDev: 8, size: 50 });
     const [group3, setGroup3] = useState<DistributionParams>({ mean: 60, stdDev: 8, size: 50 });
 
-    const [anovaResult, setAnovaResult] = useState({ fStatistic: 0, pValue: 1 });
+    const [postHocMethod, setPostHocMethod] = useState<'tukey' | 'gamesHowell'>('tukey');
+
+    // A group's raw sample is redrawn when one of its sliders is released, leaving the other groups' samples alone
+    const [drawnGroups, setDrawnGroups] = useState(() => [group1, group2, group3].map(drawGroup));
+    const commitGroup = (index: number, params: DistributionParams) => {
+        if (drawnGroups[index].params !== params) setDrawnGroups(prev => prev.map((g, i) => (i === index ? drawGroup(params) : g)));
+    };
+    const samples = useMemo(() => drawnGroups.map(g => g.sample), [drawnGroups]);
+    const [anovaResult, setAnovaResult] = useState<AnovaResult | null>(null);
 
     // Chat state
     const [chatHistory, setChatHistory] = useState<Message[]>([
@@ -64,11 +105,11 @@ const AnovaAnalysis: React.FC<AnovaAnalysisProps> = ({ onBack }) => {
     ], [group1, group2, group3]);
 
     useEffect(() => {
-        const result = calculateAnova([group1, group2, group3]);
-        setAnovaResult(result);
-    }, [group1, group2, group3]);
+        setAnovaResult(calculateAnova(samples));
+    }, [samples]);
 
     const handleSendMessage = useCallback(async (msg: string) => {
+        if (!anovaResult) return;
         setIsChatLoading(true);
         setChatHistory(prev => [...prev, { text: msg, role: 'user' }]);
 
@@ -79,8 +120,11 @@ const AnovaAnalysis: React.FC<AnovaAnalysisProps> = ({ onBack }) => {
             Group 3 (Lime): Mean=${group3.mean}, SD=${group3.stdDev}, N=${group3.size}
             
             Current Results:
-            F-Statistic: ${anovaResult.fStatistic.toFixed(3)}
+            F(${anovaResult.dfBetween}, ${anovaResult.dfWithin}) = ${anovaResult.fStatistic.toFixed(3)}
             P-Value: ${anovaResult.pValue.toFixed(5)}
+            Eta squared: ${anovaResult.etaSquared.toFixed(3)}, Omega squared: ${anovaResult.omegaSquared.toFixed(3)}
+            Tukey HSD: ${anovaResult.tukey.map(c => `${GROUP_NAMES[c.groupA]}-${GROUP_NAMES[c.groupB]} diff=${c.meanDifference.toFixed(2)} p=${Number.isFinite(c.pValue) ? c.pValue.toFixed(4) : 'n/a'}`).join('; ')}
+            Games-Howell: ${anovaResult.gamesHowell.map(c => `${GROUP_NAMES[c.groupA]}-${GROUP_NAMES[c.groupB]} diff=${c.meanDifference.toFixed(2)} p=${Number.isFinite(c.pValue) ? c.pValue.toFixed(4) : 'n/a'}`).join('; ')}
             
             User Question: ${msg}
             
@@ -113,25 +157,69 @@ const AnovaAnalysis: React.FC<AnovaAnalysisProps> = ({ onBack }) => {
                 </div>
                 <div className="lg:col-span-2 flex flex-col space-y-8">
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-6">
-                        <GroupControls title="Group 1 (Cyan)" colorClass="text-cyan-400" params={group1} setParams={setGroup1} />
-                        <GroupControls title="Group 2 (Pink)" colorClass="text-pink-500" params={group2} setParams={setGroup2} />
-                        <GroupControls title="Group 3 (Lime)" colorClass="text-lime-400" params={group3} setParams={setGroup3} />
+                        <GroupControls title="Group 1 (Cyan)" colorClass="text-cyan-400" params={group1} setParams={setGroup1} onCommit={() => commitGroup(0, group1)} />
+                        <GroupControls title="Group 2 (Pink)" colorClass="text-pink-500" params={group2} setParams={setGroup2} onCommit={() => commitGroup(1, group2)} />
+                        <GroupControls title="Group 3 (Lime)" colorClass="text-lime-400" params={group3} setParams={setGroup3} onCommit={() => commitGroup(2, group3)} />
                     </div>
+                    {anovaResult && (
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
                         <h3 className="text-lg font-semibold text-cyan-400 mb-3">Test Results</h3>
+                        <table className="w-full text-sm font-mono mb-4">
+                            <thead>
+                                <tr className="text-slate-400 text-xs">
+                                    <th className="text-left font-normal pb-1">Source</th>
+                                    <th className="text-right font-normal pb-1">SS</th>
+                                    <th className="text-right font-normal pb-1">df</th>
+                                    <th className="text-right font-normal pb-1">MS</th>
+                                    <th className="text-right font-normal pb-1">F</th>
+                                    <th className="text-right font-normal pb-1">p</th>
+                                </tr>
+                            </thead>
+                            <tbody className="text-slate-300">
+                                {anovaResult.table.map(row => (
+                                    <tr key={row.source}>
+                                        <td className="py-1">{row.source}</td>
+                                        <td className="text-right">{row.ss.toFixed(1)}</td>
+                                        <td className="text-right">{row.df}</td>
+                                        <td className="text-right">{row.ms !== undefined ? row.ms.toFixed(1) : ''}</td>
+                                        <td className="text-right">{row.fStatistic !== undefined ? row.fStatistic.toFixed(3) : ''}</td>
+                                        <td className="text-right">{row.pValue !== undefined ? formatPValue(row.pValue) : ''}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
                         <div className="flex justify-between items-center mb-2">
-                            <span className="text-slate-300">F-Statistic:</span>
+                            <span className="text-slate-300">η² (eta squared):</span>
                             <span className="text-xl font-mono bg-slate-900 px-3 py-1 rounded">
-                                {anovaResult.fStatistic.toFixed(3)}
+                                {anovaResult.etaSquared.toFixed(3)}
                             </span>
                         </div>
                         <div className="flex justify-between items-center">
-                            <span className="text-slate-300">p-value:</span>
+                            <span className="text-slate-300">ω² (omega squared):</span>
                             <span className="text-xl font-mono bg-slate-900 px-3 py-1 rounded">
-                                {anovaResult.pValue < 0.001 && anovaResult.pValue !== 0 ? anovaResult.pValue.toExponential(2) : anovaResult.pValue.toFixed(4)}
+                                {anovaResult.omegaSquared.toFixed(3)}
                             </span>
                         </div>
                     </div>
+                    )}
+
+                    {anovaResult && (
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
+                        <div className="flex justify-between items-center mb-3">
+                            <h3 className="text-lg font-semibold text-cyan-400">Post-hoc Comparisons</h3>
+                            <div className="flex bg-slate-900 rounded p-1 text-xs">
+                                <button onClick={() => setPostHocMethod('tukey')} className={`px-2 py-1 rounded ${postHocMethod === 'tukey' ? 'bg-cyan-600 text-white' : 'text-slate-400'}`}>Tukey HSD</button>
+                                <button onClick={() => setPostHocMethod('gamesHowell')} className={`px-2 py-1 rounded ${postHocMethod === 'gamesHowell' ? 'bg-cyan-600 text-white' : 'text-slate-400'}`}>Games-Howell</button>
+                            </div>
+                        </div>
+                        <PostHocTable comparisons={postHocMethod === 'tukey' ? anovaResult.tukey : anovaResult.gamesHowell} />
+                        <p className="text-xs text-slate-500 mt-3">
+                            {postHocMethod === 'tukey'
+                                ? 'Tukey HSD pools the within-group variance and assumes equal spreads.'
+                                : 'Games-Howell uses each pair\'s own variances, so it stays valid when spreads differ.'}
+                        </p>
+                    </div>
+                    )}
 
                     <div className="h-[500px]">
                         <UnifiedGenAIChat
@@ -1,13 +1,17 @@
 
-import React, { useState, useRef, useEffect, useMemo } from 'react';
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import * as d3 from 'd3';
 import { getChatResponse } from '../services/geminiService';
+import { independentTTest, pairedTTest, mannWhitneyUTest, wilcoxonSignedRankTest } from '../services/statisticsService';
 import UnifiedGenAIChat from './UnifiedGenAIChat';
+import RankTestComparisonPlot from './RankTestComparisonPlot';
 
 interface BoxPlotBuilderProps {
     onBack: () => void;
 }
 
+const formatPValue = (p: number) => (p < 0.001 ? '<.001' : p.toFixed(3));
+
 const BoxPlotBuilder: React.FC<BoxPlotBuilderProps> = ({ onBack }) => {
     // Initial Data: a simple spread
     const [data, setData] = useState<number[]>([10, 25, 40, 45, 50, 55, 60, 75, 90]);
@@ -17,6 +21,10 @@ const BoxPlotBuilder: React.FC<BoxPlotBuilderProps> = ({ onBack }) => {
     ]);
     const [isChatLoading, setIsChatLoading] = useState(false);
 
+    // Second group for the t-test vs rank test comparison; Group A is the box plot data
+    const [groupB, setGroupB] = useState<number[]>([45, 58, 62, 66, 70, 74, 78, 85, 95]);
+    const [paired, setPaired] = useState(false);
+
     const svgRef = useRef<SVGSVGElement | null>(null);
 
     // Statistics
@@ -34,6 +42,20 @@ const BoxPlotBuilder: React.FC<BoxPlotBuilderProps> = ({ onBack }) => {
         return { min, q1, median, q3, max, iqr };
     }, [data]);
 
+    const groups = useMemo(() => [data, groupB] as [number[], number[]], [data, groupB]);
+    const handleMovePoint = useCallback((group: number, index: number, value: number) => {
+        const update = (prev: number[]) => prev.map((v, i) => (i === index ? value : v));
+        if (group === 0) setData(update);
+        else setGroupB(update);
+    }, []);
+
+    // B compared with A, so positive statistics mean Group B is higher
+    const comparison = useMemo(() => paired
+        ? { t: pairedTTest(groupB, data), rank: wilcoxonSignedRankTest(groupB, data), tName: 'Paired t-test', rankName: 'Wilcoxon signed-rank' }
+        : { t: independentTTest(groupB, data), rank: mannWhitneyUTest(groupB, data), tName: "Welch's t-test", rankName: 'Mann-Whitney U' },
+    [data, groupB, paired]);
+    const testsDisagree = (comparison.t.pValue < 0.05) !== (comparison.rank.pValue < 0.05);
+
     useEffect(() => {
         if (!svgRef.current) return;
         const svg = d3.select(svgRef.current);
@@ -203,7 +225,11 @@ const BoxPlotBuilder: React.FC<BoxPlotBuilderProps> = ({ onBack }) => {
             Current Box Plot Stats:
             Min: ${stats.min}, Q1: ${stats.q1}, Median: ${stats.median}, Q3: ${stats.q3}, Max: ${stats.max}, IQR: ${stats.iqr}
             Data Points: [${data.map(d => d.toFixed(0)).join(', ')}]
-            User Context: Learning about Box Plots, Quartiles, and Interquartile Range.
+            Group B (comparison group): [${groupB.map(d => d.toFixed(0)).join(', ')}]${paired ? ' (paired with Group A, same order)' : ''}
+            ${comparison.tName} (B - A): t(${comparison.t.df.toFixed(1)}) = ${comparison.t.t.toFixed(2)}, p = ${formatPValue(comparison.t.pValue)}, mean difference ${comparison.t.estimate.toFixed(1)}, Hedges' g = ${comparison.t.hedgesG.toFixed(2)}
+            ${comparison.rankName} (${comparison.rank.method} p): ${comparison.rank.statisticName} = ${comparison.rank.statistic.toFixed(1)}, p = ${formatPValue(comparison.rank.pValue)}, ${comparison.rank.effectSizeName} = ${comparison.rank.effectSize.toFixed(2)}
+            The two tests ${testsDisagree ? 'DISAGREE' : 'agree'} at alpha = .05.
+            User Context: Learning about Box Plots, Quartiles, and Interquartile Range, and how outliers affect means (t-test) but not ranks.
         `;
 
         try {
@@ -255,6 +281,56 @@ const BoxPlotBuilder: React.FC<BoxPlotBuilderProps> = ({ onBack }) => {
                     </div>
                 </div>
             </main>
+
+            <section className="mt-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
+                <div className="lg:col-span-2 bg-slate-900 rounded-xl border-4 border-slate-800 shadow-2xl p-4">
+                    <RankTestComparisonPlot groups={groups} onMovePoint={handleMovePoint} paired={paired} />
+                </div>
+                <div className="lg:col-span-1 bg-slate-800 p-6 rounded-lg shadow-lg space-y-4">
+                    <div>
+                        <h3 className="text-lg font-semibold text-indigo-400">Means vs Ranks</h3>
+                        <p className="text-sm text-slate-400 mt-1">Drag one point far from the rest and watch the t-test react while the rank test barely moves.</p>
+                    </div>
+                    <div className="flex bg-slate-700 rounded-lg p-1">
+                        <button onClick={() => setPaired(false)} className={`flex-1 px-3 py-1 rounded-md text-sm transition-colors ${!paired ? 'bg-indigo-600 text-white' : 'text-slate-300 hover:text-white'}`}>Independent</button>
+                        <button onClick={() => setPaired(true)} className={`flex-1 px-3 py-1 rounded-md text-sm transition-colors ${paired ? 'bg-indigo-600 text-white' : 'text-slate-300 hover:text-white'}`}>Paired</button>
+                    </div>
+                    <table className="w-full text-sm font-mono">
+                        <thead>
+                            <tr className="text-slate-400 text-xs border-b border-slate-700">
+                                <th className="text-left font-normal pb-1">Test</th>
+                                <th className="text-right font-normal pb-1">Statistic</th>
+                                <th className="text-right font-normal pb-1">p</th>
+                                <th className="text-right font-normal pb-1">Effect</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            <tr className="border-b border-slate-700/50">
+                                <td className="py-2 text-slate-300 font-sans">{comparison.tName}</td>
+                                <td className="text-right">t({comparison.t.df.toFixed(1)}) = {comparison.t.t.toFixed(2)}</td>
+                                <td className={`text-right ${comparison.t.pValue < 0.05 ? 'text-green-400 font-bold' : 'text-slate-300'}`}>{formatPValue(comparison.t.pValue)}</td>
+                                <td className="text-right" title="Hedges' g">g = {comparison.t.hedgesG.toFixed(2)}</td>
+                            </tr>
+                            <tr>
+                                <td className="py-2 text-slate-300 font-sans">{comparison.rankName}</td>
+                                <td className="text-right">{comparison.rank.statisticName} = {comparison.rank.statistic.toFixed(1)}</td>
+                                <td className={`text-right ${comparison.rank.pValue < 0.05 ? 'text-green-400 font-bold' : 'text-slate-300'}`}>{formatPValue(comparison.rank.pValue)}</td>
+                                <td className="text-right" title={comparison.rank.effectSizeName}>r = {comparison.rank.effectSize.toFixed(2)}</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                    <p className="text-xs text-slate-500">
+                        Rank test p-value: {comparison.rank.method === 'exact' ? 'exact' : `normal approximation${comparison.rank.ties ? ' with tie correction' : ''} (z = ${comparison.rank.z?.toFixed(2)})`}.
+                        Effect sizes: Hedges' g for the means, rank-biserial r for the ranks.
+                    </p>
+                    <div className={`p-3 rounded text-sm ${testsDisagree ? 'bg-rose-500/20 text-rose-300 border border-rose-500/40' : 'bg-slate-900 text-slate-400'}`}>
+                        {testsDisagree
+                            ? `The tests disagree at α = .05: only the ${comparison.t.pValue < 0.05 ? 't-test' : 'rank test'} finds a difference.`
+                            : `Both tests ${comparison.t.pValue < 0.05 ? 'find' : 'do not find'} a difference at α = .05.`}
+                    </div>
+                    <button onClick={() => setGroupB(d => d.map(() => Math.random() * 60 + 35))} className="w-full bg-slate-700 hover:bg-slate-600 p-2 rounded text-white">Randomize Group B</button>
+                </div>
+            </section>
         </div>
     );
 };
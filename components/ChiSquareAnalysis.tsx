@@ -9,6 +9,9 @@ interface ChiSquareAnalysisProps {
     onBack: () => void;
 }
 
+const CATEGORY_LABELS = ['Category A', 'Category B', 'Category C', 'Category D'];
+const MAX_DIMENSION = 4;
+
 const ChiSquareAnalysis: React.FC<ChiSquareAnalysisProps> = ({ onBack }) => {
     const [observedData, setObservedData] = useState<ContingencyTableData>([
         [30, 10], // Row 1
@@ -30,6 +33,12 @@ const ChiSquareAnalysis: React.FC<ChiSquareAnalysisProps> = ({ onBack }) => {
         setObservedData(newData);
     };
 
+    const resizeTable = (rows: number, cols: number) => {
+        setObservedData(Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => observedData[i]?.[j] ?? 5)));
+    };
+
+    const formatPValue = (p: number | null | undefined) => (p === null || p === undefined ? '—' : p < 0.001 ? '< .001' : p.toFixed(4));
+
     useEffect(() => {
         const result = calculateChiSquareTest(observedData);
         setChiResult(result);
@@ -42,16 +51,22 @@ const ChiSquareAnalysis: React.FC<ChiSquareAnalysisProps> = ({ onBack }) => {
         const context = `
             We are performing a Chi-Square Test of Independence.
             Observed Data:
-            Group 1: A=${observedData[0][0]}, B=${observedData[0][1]}
-            Group 2: A=${observedData[1][0]}, B=${observedData[1][1]}
+            ${observedData.map((row, i) => `Group ${i + 1}: ${row.map((v, j) => `${CATEGORY_LABELS[j]}=${v}`).join(', ')}`).join('\n            ')}
             
             Test Results:
-            Chi-Square Statistic: ${chiResult?.chi2.toFixed(3)}
+            Chi-Square Statistic: ${chiResult?.chi2.toFixed(3)} (df = ${chiResult?.degreesOfFreedom})
             P-Value: ${chiResult?.pValue.toFixed(5)}
+            Yates-corrected P-Value: ${chiResult?.yates ? chiResult.yates.pValue.toFixed(5) : 'n/a (not a 2x2 table)'}
+            Likelihood-ratio G²: ${chiResult?.likelihoodRatio.g2.toFixed(3)} (p = ${chiResult?.likelihoodRatio.pValue.toFixed(5)})
+            Fisher's Exact P-Value: ${chiResult?.fisherPValue?.toFixed(5) ?? 'too many tables to enumerate'}
+            Cramér's V: ${chiResult?.cramersV.estimate.toFixed(3)} [95% CI ${chiResult?.cramersV.lower.toFixed(3)}, ${chiResult?.cramersV.upper.toFixed(3)}]
+            Adjusted Residuals: ${chiResult?.adjustedResiduals.map(row => row.map(r => r.toFixed(2)).join(' ')).join(' | ')}
+            Warning: ${chiResult?.warning ?? 'none'}
             
             User Question: ${msg}
             
-            Explain whether there is a significant association between the groups and the categories based on the p-value.
+            Explain whether there is a significant association between the groups and the categories based on the p-value,
+            how strong it is (Cramér's V), and which cells drive it (adjusted residuals beyond ±1.96).
         `;
 
         try {
@@ -78,27 +93,33 @@ const ChiSquareAnalysis: React.FC<ChiSquareAnalysisProps> = ({ onBack }) => {
                 <div className="lg:col-span-3 bg-slate-800 rounded-lg shadow-2xl p-6 flex flex-col space-y-6">
                     <h3 className="text-lg font-semibold text-amber-400 text-center">Contingency Table</h3>
                     <div className="flex-grow">
-                        {chiResult && <ContingencyTableVisualizer observed={observedData} expected={chiResult.expected} />}
+                        {chiResult && <ContingencyTableVisualizer observed={observedData} expected={chiResult.expected} adjustedResiduals={chiResult.adjustedResiduals} />}
                     </div>
                 </div>
                 <div className="lg:col-span-2 flex flex-col space-y-8">
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
-                        <h3 className="text-lg font-semibold text-amber-400 mb-3">Observed Frequencies</h3>
+                        <div className="flex justify-between items-center mb-3">
+                            <h3 className="text-lg font-semibold text-amber-400">Observed Frequencies</h3>
+                            <div className="flex gap-2 text-xs">
+                                <button onClick={() => resizeTable(observedData.length + 1, observedData[0].length)} disabled={observedData.length >= MAX_DIMENSION} className="bg-slate-700 hover:bg-slate-600 disabled:opacity-40 px-2 py-1 rounded">+ Row</button>
+                                <button onClick={() => resizeTable(observedData.length - 1, observedData[0].length)} disabled={observedData.length <= 2} className="bg-slate-700 hover:bg-slate-600 disabled:opacity-40 px-2 py-1 rounded">− Row</button>
+                                <button onClick={() => resizeTable(observedData.length, observedData[0].length + 1)} disabled={observedData[0].length >= MAX_DIMENSION} className="bg-slate-700 hover:bg-slate-600 disabled:opacity-40 px-2 py-1 rounded">+ Col</button>
+                                <button onClick={() => resizeTable(observedData.length, observedData[0].length - 1)} disabled={observedData[0].length <= 2} className="bg-slate-700 hover:bg-slate-600 disabled:opacity-40 px-2 py-1 rounded">− Col</button>
+                            </div>
+                        </div>
                         <table className="w-full text-center">
                             <thead>
-                                <tr><th></th><th className="font-normal text-slate-400">Category A</th><th className="font-normal text-slate-400">Category B</th></tr>
+                                <tr><th></th>{observedData[0].map((_, j) => <th key={j} className="font-normal text-slate-400 text-sm">{CATEGORY_LABELS[j]}</th>)}</tr>
                             </thead>
                             <tbody>
-                                <tr>
-                                    <td className="font-normal text-slate-400 text-left">Group 1</td>
-                                    <td><input type="number" value={observedData[0][0]} onChange={e => handleTableChange(0, 0, e.target.value)} className="w-20 bg-slate-900 text-center p-2 rounded" /></td>
-                                    <td><input type="number" value={observedData[0][1]} onChange={e => handleTableChange(0, 1, e.target.value)} className="w-20 bg-slate-900 text-center p-2 rounded" /></td>
-                                </tr>
-                                <tr>
-                                    <td className="font-normal text-slate-400 text-left">Group 2</td>
-                                    <td><input type="number" value={observedData[1][0]} onChange={e => handleTableChange(1, 0, e.target.value)} className="w-20 bg-slate-900 text-center p-2 rounded" /></td>
-                                    <td><input type="number" value={observedData[1][1]} onChange={e => handleTableChange(1, 1, e.target.value)} className="w-20 bg-slate-900 text-center p-2 rounded" /></td>
-                                </tr>
+                                {observedData.map((row, i) => (
+                                    <tr key={i}>
+                                        <td className="font-normal text-slate-400 text-left">Group {i + 1}</td>
+                                        {row.map((value, j) => (
+                                            <td key={j}><input type="number" value={value} onChange={e => handleTableChange(i, j, e.target.value)} className="w-16 bg-slate-900 text-center p-2 rounded" /></td>
+                                        ))}
+                                    </tr>
+                                ))}
                             </tbody>
                         </table>
                     </div>
@@ -112,6 +133,34 @@ const ChiSquareAnalysis: React.FC<ChiSquareAnalysisProps> = ({ onBack }) => {
                             <span className="text-slate-300">p-value:</span>
                             <span className="text-xl font-mono bg-slate-900 px-3 py-1 rounded">{chiResult?.pValue.toFixed(4)}</span>
                         </div>
+                        {chiResult && (
+                            <table className="w-full font-mono text-sm mt-4">
+                                <thead>
+                                    <tr className="text-slate-500 border-b border-slate-700"><th className="text-left font-normal py-1">Test</th><th className="text-right font-normal">Statistic</th><th className="text-right font-normal">p</th></tr>
+                                </thead>
+                                <tbody className="text-slate-300">
+                                    <tr><td className="py-1">Pearson χ²({chiResult.degreesOfFreedom})</td><td className="text-right">{chiResult.chi2.toFixed(3)}</td><td className="text-right">{formatPValue(chiResult.pValue)}</td></tr>
+                                    {chiResult.yates && <tr><td className="py-1">Yates-corrected χ²</td><td className="text-right">{chiResult.yates.chi2.toFixed(3)}</td><td className="text-right">{formatPValue(chiResult.yates.pValue)}</td></tr>}
+                                    <tr><td className="py-1">Likelihood ratio G²</td><td className="text-right">{chiResult.likelihoodRatio.g2.toFixed(3)}</td><td className="text-right">{formatPValue(chiResult.likelihoodRatio.pValue)}</td></tr>
+                                    <tr><td className="py-1">Fisher&apos;s exact</td><td className="text-right">—</td><td className="text-right">{chiResult.fisherPValue === null ? 'too large' : formatPValue(chiResult.fisherPValue)}</td></tr>
+                                </tbody>
+                            </table>
+                        )}
+                        {chiResult && (
+                            <div className="grid grid-cols-2 gap-y-1 font-mono text-sm mt-4 border-t border-slate-700 pt-3">
+                                <span className="text-slate-400">Cramér&apos;s V</span>
+                                <span className="text-right text-slate-200">{chiResult.cramersV.estimate.toFixed(3)} [{chiResult.cramersV.lower.toFixed(2)}, {chiResult.cramersV.upper.toFixed(2)}]</span>
+                                {chiResult.phi && <>
+                                    <span className="text-slate-400">Phi (φ)</span>
+                                    <span className="text-right text-slate-200">{chiResult.phi.estimate.toFixed(3)} [{chiResult.phi.lower.toFixed(2)}, {chiResult.phi.upper.toFixed(2)}]</span>
+                                </>}
+                            </div>
+                        )}
+                        {chiResult?.warning && (
+                            <div className="mt-4 bg-amber-500/10 border border-amber-500/40 text-amber-200 text-xs p-3 rounded">
+                                ⚠ {chiResult.warning}
+                            </div>
+                        )}
                     </div>
 
                     <div className="h-[500px]">
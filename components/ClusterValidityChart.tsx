@@ -0,0 +1,86 @@
+import React, { useRef, useEffect } from 'react';
+import * as d3 from 'd3';
+import { ClusterValidityResult, ClusterValidityRow } from '../types';
+
+interface ClusterValidityChartProps {
+    validity: ClusterValidityResult;
+    selectedK: number;
+    onSelectK: (k: number) => void;
+}
+
+const PANELS: { title: string, value: (r: ClusterValidityRow) => number | null, best: (v: ClusterValidityResult) => number, color: string }[] = [
+    { title: 'Elbow (inertia)', value: r => r.inertia, best: v => v.elbowK, color: 'rgb(232 121 249)' },
+    { title: 'Average silhouette', value: r => r.silhouette, best: v => v.silhouetteK, color: 'rgb(34 211 238)' },
+    { title: 'Gap statistic', value: r => r.gap, best: v => v.gapK, color: 'rgb(163 230 53)' }
+];
+
+const ClusterValidityChart: React.FC<ClusterValidityChartProps> = ({ validity, selectedK, onSelectK }) => {
+    const svgRef = useRef<SVGSVGElement | null>(null);
+
+    useEffect(() => {
+        if (!svgRef.current || validity.rows.length === 0) return;
+
+        const svg = d3.select(svgRef.current);
+        const width = 600;
+        const height = 220;
+        const panelWidth = width / PANELS.length;
+        const margin = { top: 30, right: 12, bottom: 35, left: 45 };
+
+        svg.attr('width', '100%')
+           .attr('height', '100%')
+           .attr('viewBox', `0 0 ${width} ${height}`)
+           .attr('preserveAspectRatio', 'xMidYMid meet');
+
+        svg.selectAll('*').remove();
+        svg.append('rect').attr('width', width).attr('height', height).attr('fill', 'rgb(30 41 59)');
+
+        const ks = validity.rows.map(r => r.k);
+
+        PANELS.forEach((panel, p) => {
+            const g = svg.append('g').attr('transform', `translate(${p * panelWidth},0)`);
+            const rows = validity.rows.filter(r => panel.value(r) !== null);
+            const x = d3.scalePoint<number>().domain(ks).range([margin.left, panelWidth - margin.right]).padding(0.3);
+            const low = p === 2 ? d3.min(rows, r => r.gap - r.gapSE) ?? 0 : d3.min(rows, r => panel.value(r)!) ?? 0;
+            const high = p === 2 ? d3.max(rows, r => r.gap + r.gapSE) ?? 1 : d3.max(rows, r => panel.value(r)!) ?? 1;
+            const y = d3.scaleLinear().domain([Math.min(0, low), high]).nice().range([height - margin.bottom, margin.top]);
+
+            g.append('g').attr('transform', `translate(0,${height - margin.bottom})`).call(d3.axisBottom(x)).attr('color', 'rgb(100 116 139)');
+            g.append('g').attr('transform', `translate(${margin.left},0)`).call(d3.axisLeft(y).ticks(4, p === 0 ? '~s' : '.2f')).attr('color', 'rgb(100 116 139)');
+            g.append('text').attr('x', (margin.left + panelWidth - margin.right) / 2).attr('y', 16).attr('text-anchor', 'middle')
+                .text(panel.title).style('fill', 'rgb(203 213 225)').style('font-size', '12px');
+            g.append('text').attr('x', (margin.left + panelWidth - margin.right) / 2).attr('y', height - 4).attr('text-anchor', 'middle')
+                .text('k').style('fill', 'rgb(148 163 184)').style('font-size', '11px');
+
+            // Selected k
+            g.append('line').attr('x1', x(selectedK) ?? 0).attr('x2', x(selectedK) ?? 0).attr('y1', margin.top).attr('y2', height - margin.bottom)
+                .attr('stroke', 'rgb(100 116 139)').attr('stroke-dasharray', '3,3');
+
+            if (p === 2) {
+                // Gap error bars: Gap(k) ± s(k)
+                g.append('g').selectAll('line').data(rows).join('line')
+                    .attr('x1', r => x(r.k) as number).attr('x2', r => x(r.k) as number)
+                    .attr('y1', r => y(r.gap - r.gapSE)).attr('y2', r => y(r.gap + r.gapSE))
+                    .attr('stroke', panel.color).attr('stroke-width', 1).attr('opacity', 0.6);
+            }
+
+            const line = d3.line<ClusterValidityRow>().x(r => x(r.k) as number).y(r => y(panel.value(r)!));
+            g.append('path').datum(rows).attr('d', line).attr('fill', 'none').attr('stroke', panel.color).attr('stroke-width', 2);
+
+            const recommended = panel.best(validity);
+            g.append('g').selectAll('circle').data(rows).join('circle')
+                .attr('cx', r => x(r.k) as number)
+                .attr('cy', r => y(panel.value(r)!))
+                .attr('r', r => (r.k === recommended ? 7 : 4))
+                .attr('fill', r => (r.k === recommended ? 'white' : panel.color))
+                .attr('stroke', panel.color)
+                .attr('stroke-width', 2)
+                .style('cursor', 'pointer')
+                .on('click', (_, r) => onSelectK(r.k));
+        });
+
+    }, [validity, selectedK, onSelectK]);
+
+    return <svg ref={svgRef}></svg>;
+};
+
+export default ClusterValidityChart;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { getChatResponse } from '../services/geminiService';
 import UnifiedGenAIChat from './UnifiedGenAIChat';
+import { binomialCDF } from '../services/distributionService';
 
 interface CoinFlipperProps {
     onBack: () => void;
@@ -54,20 +55,13 @@ const CoinFlipper: React.FC<CoinFlipperProps> = ({ onBack }) => {
         setPValue(null);
     };
 
-    // Simple two-tailed binomial p-value approximation for fairness (p=0.5)
-    // Calculating probability of observing outcome strictly more extreme
+    // Exact two-tailed binomial p-value for a fair coin (p=0.5)
+    // Probability of observing an outcome at least as extreme, in either direction
     const calculatePValue = (k: number, n: number) => {
         if (n === 0) return;
 
-        // Z-score approximation for speed (good enough for visualization > 10 flips)
-        // Mean = n * 0.5, SD = sqrt(n * 0.5 * 0.5)
-        const mean = n * 0.5;
-        const sd = Math.sqrt(n * 0.25);
-        const z = (k - mean) / sd;
-
-        // P-value from Z (two-tailed)
-        // Using a simple approx function from existing services would be ideal, but implementing inline for independence
-        const p = 2 * (1 - normalCDF(Math.abs(z)));
+        const extreme = Math.min(k, n - k);
+        const p = Math.min(1, 2 * binomialCDF(extreme, n, 0.5));
         setPValue(p);
 
         if (p < 0.05) {
@@ -77,14 +71,6 @@ const CoinFlipper: React.FC<CoinFlipperProps> = ({ onBack }) => {
         }
     };
 
-    function normalCDF(x: number) {
-        var t = 1 / (1 + .2316419 * Math.abs(x));
-        var d = .3989423 * Math.exp(-x * x / 2);
-        var prob = d * t * (.3193815 + t * (-.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
-        if (x > 0) prob = 1 - prob;
-        return prob;
-    }
-
     const addBotMessage = (text: string) => {
         setChatHistory(prev => [...prev, { text, role: 'model' }]);
     };
@@ -5,45 +5,59 @@ import { ContingencyTableData } from '../types';
 interface ContingencyTableVisualizerProps {
     observed: ContingencyTableData;
     expected: ContingencyTableData;
+    adjustedResiduals?: number[][]; // colour by these when given (they are on a z scale), else by Pearson residuals
 }
 
-const ContingencyTableVisualizer: React.FC<ContingencyTableVisualizerProps> = ({ observed, expected }) => {
+const CRITICAL_Z = 1.96;
+
+const ContingencyTableVisualizer: React.FC<ContingencyTableVisualizerProps> = ({ observed, expected, adjustedResiduals }) => {
     if (observed.length === 0 || expected.length === 0) return null;
-    
-    const residuals = observed.map((row, i) =>
+
+    const residuals = adjustedResiduals ?? observed.map((row, i) =>
         row.map((obs, j) => {
             const exp = expected[i][j];
             return exp > 0 ? (obs - exp) / Math.sqrt(exp) : 0; // Pearson residual
         })
     );
 
-    const maxAbsResidual = d3.max(residuals.flat(), d => Math.abs(d)) || 1;
+    // Fixed z scale for adjusted residuals so colour intensity means the same thing in every table
+    const maxAbsResidual = adjustedResiduals ? 3 : d3.max(residuals.flat(), d => Math.abs(d)) || 1;
 
     const colorScale = d3.scaleDiverging<string>()
         .domain([-maxAbsResidual, 0, maxAbsResidual])
-        .interpolator(d3.interpolateRdBu);
+        .interpolator(d3.interpolateRdBu)
+        .clamp(true);
 
 
     return (
-        <div className="grid grid-cols-2 gap-4 h-full">
-            {observed.map((row, i) => 
-                row.map((_cell, j) => {
-                    const obs = observed[i][j];
-                    const exp = expected[i][j];
-                    const residual = residuals[i][j];
-                    const bgColor = colorScale(residual);
-
-                    return (
-                        <div key={`${i}-${j}`}
-                             className="rounded-lg p-4 flex flex-col justify-center items-center transition-colors duration-300"
-                             style={{ backgroundColor: bgColor }}
-                        >
-                            <div className="text-sm font-semibold text-white/70">Observed</div>
-                            <div className="text-4xl font-bold text-white mb-2">{obs}</div>
-                             <div className="text-xs text-white/70">Expected: {exp.toFixed(1)}</div>
-                        </div>
-                    );
-                })
+        <div className="flex flex-col h-full">
+            <div className="grid gap-4 flex-grow" style={{ gridTemplateColumns: `repeat(${observed[0].length}, minmax(0, 1fr))` }}>
+                {observed.map((row, i) =>
+                    row.map((_cell, j) => {
+                        const obs = observed[i][j];
+                        const exp = expected[i][j];
+                        const residual = residuals[i][j];
+                        const bgColor = colorScale(residual);
+                        const drivesSignificance = adjustedResiduals !== undefined && Math.abs(residual) > CRITICAL_Z;
+
+                        return (
+                            <div key={`${i}-${j}`}
+                                 className={`rounded-lg p-4 flex flex-col justify-center items-center transition-colors duration-300 ${drivesSignificance ? 'ring-4 ring-amber-400' : ''}`}
+                                 style={{ backgroundColor: bgColor }}
+                            >
+                                <div className="text-sm font-semibold text-white/70">Observed</div>
+                                <div className="text-4xl font-bold text-white mb-2">{obs}</div>
+                                <div className="text-xs text-white/70">Expected: {exp.toFixed(1)}</div>
+                                {adjustedResiduals && <div className="text-xs font-mono text-white/90 mt-1">adj. residual {residual >= 0 ? '+' : ''}{residual.toFixed(2)}</div>}
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+            {adjustedResiduals && (
+                <p className="text-xs text-slate-400 mt-4 text-center">
+                    Blue: more than expected. Red: fewer. Outlined cells have |adjusted residual| &gt; {CRITICAL_Z}, so they drive the association.
+                </p>
             )}
         </div>
     );
@@ -1,88 +1,189 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import * as d3 from 'd3';
-import { FeatureContribution } from '../types';
+import { PredictionResult, GlobalShapSummary } from '../types';
+
+type ExplanationView = 'waterfall' | 'importance' | 'dependence';
 
 interface ContributionBarsProps {
-    title: string;
-    contributions: FeatureContribution[];
-    color: string;
+    prediction: PredictionResult;
+    globalSummary: GlobalShapSummary | null;
+    formatFeature: (feature: string) => string;
 }
 
-const ContributionBars: React.FC<ContributionBarsProps> = ({ title, contributions, color }) => {
+const POSITIVE_COLOR = 'rgb(34 197 94)';
+const NEGATIVE_COLOR = 'rgb(239 68 68)';
+
+const ContributionBars: React.FC<ContributionBarsProps> = ({ prediction, globalSummary, formatFeature }) => {
     const svgRef = useRef<SVGSVGElement | null>(null);
-    const containerRef = useRef<HTMLDivElement | null>(null);
+    const [view, setView] = useState<ExplanationView>('waterfall');
+    const [dependenceFeature, setDependenceFeature] = useState<string>(prediction.contributions[0]?.feature ?? '');
 
     useEffect(() => {
-        if (!svgRef.current || !containerRef.current || contributions.length === 0) {
-            if (svgRef.current) d3.select(svgRef.current).selectAll('*').remove();
-            return;
+        if (!prediction.contributions.some(c => c.feature === dependenceFeature)) {
+            setDependenceFeature(prediction.contributions[0]?.feature ?? '');
         }
+    }, [prediction, dependenceFeature]);
 
-        const data = contributions.map(c => ({...c, value: Math.abs(c.value)}));
-        const { height } = containerRef.current.getBoundingClientRect();
-        const width = 200;
-        const margin = { top: 0, right: 30, bottom: 0, left: 120 };
-        const chartHeight = Math.max(150, data.length * 30); // Dynamic height
-        
-        const svg = d3.select(svgRef.current).attr('viewBox', `0 0 ${width} ${chartHeight}`);
+    useEffect(() => {
+        if (!svgRef.current) return;
+        const svg = d3.select(svgRef.current);
         svg.selectAll('*').remove();
-        
-        const y = d3.scaleBand()
-            .domain(data.map(d => d.feature))
-            .range([margin.top, chartHeight - margin.bottom])
-            .padding(0.2);
-
-        const xMax = d3.max(data, d => d.value) || 10;
-        const x = d3.scaleLinear()
-            .domain([0, xMax])
-            .range([0, width - margin.left - margin.right]);
-
-        const g = svg.append('g').attr('transform', `translate(${margin.left}, 0)`);
-
-        g.selectAll('rect')
-            .data(data)
-            .join('rect')
-            .attr('y', d => y(d.feature)!)
-            .attr('height', y.bandwidth())
-            .attr('fill', color)
-            .transition().duration(500)
-            .attr('width', d => x(d.value));
-
-        // Labels
-        g.selectAll('text.value')
-            .data(data)
-            .join('text')
-            .attr('class', 'value')
-            .attr('x', d => x(d.value) + 4)
-            .attr('y', d => y(d.feature)! + y.bandwidth() / 2)
-            .attr('dy', '0.35em')
-            .style('fill', 'white')
-            .style('font-size', '10px')
-            .text(d => d.value.toFixed(1));
-
-        // Y-axis
-        svg.append('g')
-            .attr('transform', `translate(${margin.left}, 0)`)
-            .call(d3.axisLeft(y).tickSize(0))
-            .call(s => s.select('.domain').remove())
-            .selectAll('text')
-            .style('fill', 'rgb(203 213 225)')
-            .style('font-size', '11px');
-
-    }, [contributions, color]);
+
+        const width = 500;
+        const margin = { top: 20, right: 50, bottom: 40, left: 170 };
+
+        if (view === 'waterfall') {
+            // Cumulative path from the background's expected log-odds to this student's log-odds
+            const sorted = [...prediction.contributions].sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+            let running = prediction.baseLogOdds;
+            const steps = sorted.map(c => {
+                const start = running;
+                running += c.value;
+                return { ...c, start, end: running };
+            });
+            const height = margin.top + margin.bottom + (steps.length + 1) * 32;
+            svg.attr('viewBox', `0 0 ${width} ${height}`);
+
+            const extent = d3.extent([prediction.baseLogOdds, ...steps.map(s => s.end)]) as [number, number];
+            const pad = Math.max(0.2, (extent[1] - extent[0]) * 0.1);
+            const x = d3.scaleLinear().domain([extent[0] - pad, extent[1] + pad]).range([margin.left, width - margin.right]);
+            const labels = [...steps.map(s => s.feature), '__output'];
+            const y = d3.scaleBand().domain(labels).range([margin.top, height - margin.bottom]).padding(0.25);
+
+            svg.append('line').attr('x1', x(prediction.baseLogOdds)).attr('x2', x(prediction.baseLogOdds))
+                .attr('y1', margin.top).attr('y2', height - margin.bottom)
+                .attr('stroke', 'rgb(100 116 139)').attr('stroke-dasharray', '3,3');
+
+            svg.append('g').selectAll('rect').data(steps).join('rect')
+                .attr('x', d => x(Math.min(d.start, d.end)))
+                .attr('y', d => y(d.feature)!)
+                .attr('height', y.bandwidth())
+                .attr('fill', d => (d.value >= 0 ? POSITIVE_COLOR : NEGATIVE_COLOR))
+                .attr('width', 0)
+                .transition().duration(500)
+                .attr('width', d => Math.max(1, Math.abs(x(d.end) - x(d.start))));
+
+            svg.append('g').selectAll('text').data(steps).join('text')
+                .attr('x', d => x(Math.max(d.start, d.end)) + 4)
+                .attr('y', d => y(d.feature)! + y.bandwidth() / 2)
+                .attr('dy', '0.35em')
+                .style('fill', 'white').style('font-size', '10px')
+                .text(d => `${d.value >= 0 ? '+' : ''}${d.value.toFixed(2)}`);
+
+            svg.append('rect')
+                .attr('x', x(Math.min(prediction.baseLogOdds, prediction.logOdds)))
+                .attr('y', y('__output')!)
+                .attr('height', y.bandwidth())
+                .attr('width', Math.max(1, Math.abs(x(prediction.logOdds) - x(prediction.baseLogOdds))))
+                .attr('fill', 'rgb(96 165 250)');
+
+            svg.append('g').attr('transform', `translate(${margin.left - 6}, 0)`).selectAll('text').data(labels).join('text')
+                .attr('y', d => y(d)! + y.bandwidth() / 2)
+                .attr('dy', '0.35em')
+                .attr('text-anchor', 'end')
+                .style('fill', 'rgb(203 213 225)').style('font-size', '11px')
+                .text(d => {
+                    if (d === '__output') return 'Prediction';
+                    const step = steps.find(s => s.feature === d)!;
+                    return `${formatFeature(d)} = ${step.featureValue?.toFixed(0) ?? ''}`;
+                });
+
+            svg.append('g').attr('transform', `translate(0,${height - margin.bottom})`).call(d3.axisBottom(x).ticks(5)).attr('color', 'rgb(100 116 139)');
+            svg.append('text').attr('text-anchor', 'middle').attr('x', (margin.left + width - margin.right) / 2).attr('y', height - 5)
+                .text('Log-odds of success (dashed line = average student)').style('fill', 'rgb(148 163 184)').style('font-size', '11px');
+            return;
+        }
+
+        if (!globalSummary) return;
+
+        if (view === 'importance') {
+            const data = globalSummary.importance;
+            const height = margin.top + margin.bottom + data.length * 32;
+            svg.attr('viewBox', `0 0 ${width} ${height}`);
+            const x = d3.scaleLinear().domain([0, d3.max(data, d => d.value) || 1]).range([margin.left, width - margin.right]);
+            const y = d3.scaleBand().domain(data.map(d => d.feature)).range([margin.top, height - margin.bottom]).padding(0.25);
+
+            svg.append('g').selectAll('rect').data(data).join('rect')
+                .attr('x', margin.left)
+                .attr('y', d => y(d.feature)!)
+                .attr('height', y.bandwidth())
+                .attr('fill', 'rgb(96 165 250)')
+                .attr('width', 0)
+                .transition().duration(500)
+                .attr('width', d => x(d.value) - margin.left);
+
+            svg.append('g').selectAll('text').data(data).join('text')
+                .attr('x', d => x(d.value) + 4)
+                .attr('y', d => y(d.feature)! + y.bandwidth() / 2)
+                .attr('dy', '0.35em')
+                .style('fill', 'white').style('font-size', '10px')
+                .text(d => d.value.toFixed(2));
+
+            svg.append('g').attr('transform', `translate(${margin.left}, 0)`)
+                .call(d3.axisLeft(y).tickSize(0).tickFormat(d => formatFeature(d)))
+                .call(s => s.select('.domain').remove())
+                .selectAll('text').style('fill', 'rgb(203 213 225)').style('font-size', '11px');
+
+            svg.append('g').attr('transform', `translate(0,${height - margin.bottom})`).call(d3.axisBottom(x).ticks(5)).attr('color', 'rgb(100 116 139)');
+            svg.append('text').attr('text-anchor', 'middle').attr('x', (margin.left + width - margin.right) / 2).attr('y', height - 5)
+                .text('Mean |SHAP value| (log-odds)').style('fill', 'rgb(148 163 184)').style('font-size', '11px');
+            return;
+        }
+
+        // Dependence plot: how a feature's value maps to its SHAP contribution across students
+        const points = globalSummary.dependence[dependenceFeature] ?? [];
+        const height = 320;
+        const plotMargin = { top: 20, right: 20, bottom: 40, left: 50 };
+        svg.attr('viewBox', `0 0 ${width} ${height}`);
+        const x = d3.scaleLinear().domain(d3.extent(points, d => d.featureValue) as [number, number]).nice().range([plotMargin.left, width - plotMargin.right]);
+        const yExtent = d3.extent(points, d => d.shap) as [number, number];
+        const y = d3.scaleLinear().domain([Math.min(yExtent[0], 0), Math.max(yExtent[1], 0)]).nice().range([height - plotMargin.bottom, plotMargin.top]);
+
+        svg.append('line').attr('x1', plotMargin.left).attr('x2', width - plotMargin.right).attr('y1', y(0)).attr('y2', y(0))
+            .attr('stroke', 'rgb(100 116 139)').attr('stroke-dasharray', '3,3');
+
+        svg.append('g').selectAll('circle').data(points).join('circle')
+            .attr('cx', d => x(d.featureValue))
+            .attr('cy', d => y(d.shap))
+            .attr('r', 3)
+            .attr('fill', d => (d.shap >= 0 ? POSITIVE_COLOR : NEGATIVE_COLOR))
+            .attr('opacity', 0.6);
+
+        const current = prediction.contributions.find(c => c.feature === dependenceFeature);
+        if (current && current.featureValue !== undefined) {
+            svg.append('circle').attr('cx', x(current.featureValue)).attr('cy', y(current.value)).attr('r', 7)
+                .attr('fill', 'none').attr('stroke', 'white').attr('stroke-width', 2);
+        }
+
+        svg.append('g').attr('transform', `translate(0,${height - plotMargin.bottom})`).call(d3.axisBottom(x).ticks(6)).attr('color', 'rgb(100 116 139)');
+        svg.append('g').attr('transform', `translate(${plotMargin.left},0)`).call(d3.axisLeft(y).ticks(5)).attr('color', 'rgb(100 116 139)');
+        svg.append('text').attr('text-anchor', 'middle').attr('x', width / 2).attr('y', height - 5)
+            .text(formatFeature(dependenceFeature)).style('fill', 'rgb(148 163 184)').style('font-size', '11px');
+        svg.append('text').attr('text-anchor', 'middle').attr('transform', 'rotate(-90)').attr('y', 14).attr('x', -height / 2)
+            .text('SHAP value (log-odds)').style('fill', 'rgb(148 163 184)').style('font-size', '11px');
+
+    }, [view, prediction, globalSummary, dependenceFeature, formatFeature]);
+
+    const tabClass = (tab: ExplanationView) =>
+        `px-3 py-1 rounded text-sm ${view === tab ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`;
 
     return (
-        <div className="flex flex-col items-center">
-            <h4 className="text-md font-semibold text-slate-300 mb-2">{title}</h4>
-            {contributions.length === 0 ? (
-                 <p className="text-slate-500 text-sm h-[150px] flex items-center">No factors in this category.</p>
-            ) : (
-                <div ref={containerRef} className="w-full">
-                    <svg ref={svgRef}></svg>
-                </div>
+        <div className="flex flex-col items-center w-full">
+            <div className="flex gap-2 mb-3">
+                <button className={tabClass('waterfall')} onClick={() => setView('waterfall')}>This Student</button>
+                <button className={tabClass('importance')} onClick={() => setView('importance')} disabled={!globalSummary}>Feature Importance</button>
+                <button className={tabClass('dependence')} onClick={() => setView('dependence')} disabled={!globalSummary}>Dependence</button>
+            </div>
+            {view === 'dependence' && (
+                <select value={dependenceFeature} onChange={e => setDependenceFeature(e.target.value)} className="mb-2 bg-slate-900 text-slate-200 text-sm rounded p-1">
+                    {prediction.contributions.map(c => <option key={c.feature} value={c.feature}>{formatFeature(c.feature)}</option>)}
+                </select>
             )}
+            <div className="w-full">
+                <svg ref={svgRef} width="100%"></svg>
+            </div>
         </div>
     );
 };
 
-export default ContributionBars;
\ No newline at end of file
+export default ContributionBars;
@@ -1,13 +1,19 @@
 import React, { useRef, useEffect } from 'react';
 import * as d3 from 'd3';
-import { DecisionTreePoint, DecisionTreeNode } from '../types';
+import { DecisionTreePoint, DecisionTreeNode, RandomForestModel } from '../types';
+import { predictRandomForest } from '../services/statisticsService';
+
+export const CLASS_COLORS = ['rgb(34 211 238)', 'rgb(236 72 153)', 'rgb(251 191 36)', 'rgb(163 230 53)'];
 
 interface DecisionBoundaryPlotProps {
     data: DecisionTreePoint[];
-    tree: DecisionTreeNode;
+    tree?: DecisionTreeNode;
+    forest?: RandomForestModel; // drawn as a vote surface instead of the tree's rectangles
 }
 
-const DecisionBoundaryPlot: React.FC<DecisionBoundaryPlotProps> = ({ data, tree }) => {
+const GRID = 70;
+
+const DecisionBoundaryPlot: React.FC<DecisionBoundaryPlotProps> = ({ data, tree, forest }) => {
     const svgRef = useRef<SVGSVGElement | null>(null);
 
     useEffect(() => {
@@ -22,47 +28,59 @@ const DecisionBoundaryPlot: React.FC<DecisionBoundaryPlotProps> = ({ data, tree
 
         const x = d3.scaleLinear().domain([0, 100]).range([margin.left, width - margin.right]);
         const y = d3.scaleLinear().domain([0, 100]).range([height - margin.bottom, margin.top]);
+        const colorOf = (label: number) => CLASS_COLORS[label % CLASS_COLORS.length];
 
         svg.selectAll('*').remove();
 
         svg.append('rect').attr('width', width).attr('height', height).attr('fill', 'rgb(30 41 59)');
 
         const boundaryGroup = svg.append('g');
-        
+
         // Recursive function to draw boundaries
         const drawBoundaries = (node: DecisionTreeNode, bounds: {xMin: number, xMax: number, yMin: number, yMax: number}) => {
-            if (node.value !== undefined) {
+            if (!node.left || !node.right) {
                 boundaryGroup.append('rect')
                     .attr('x', x(bounds.xMin))
                     .attr('y', y(bounds.yMax))
                     .attr('width', x(bounds.xMax) - x(bounds.xMin))
                     .attr('height', y(bounds.yMin) - y(bounds.yMax))
-                    .attr('fill', node.value === 0 ? 'rgb(34 211 238)' : 'rgb(236 72 153)')
+                    .attr('fill', colorOf(node.value ?? 0))
                     .attr('opacity', 0.2);
                 return;
             }
 
-            if (node.left) {
-                const newBounds = {...bounds};
-                if (node.splitFeatureIndex === 0) {
-                    newBounds.xMax = node.splitThreshold!;
-                } else {
-                    newBounds.yMax = node.splitThreshold!;
-                }
-                drawBoundaries(node.left, newBounds);
-            }
-            if (node.right) {
-                 const newBounds = {...bounds};
-                if (node.splitFeatureIndex === 0) {
-                    newBounds.xMin = node.splitThreshold!;
-                } else {
-                    newBounds.yMin = node.splitThreshold!;
-                }
-                drawBoundaries(node.right, newBounds);
+            const leftBounds = {...bounds};
+            const rightBounds = {...bounds};
+            if (node.splitFeatureIndex === 0) {
+                leftBounds.xMax = node.splitThreshold!;
+                rightBounds.xMin = node.splitThreshold!;
+            } else {
+                leftBounds.yMax = node.splitThreshold!;
+                rightBounds.yMin = node.splitThreshold!;
             }
+            drawBoundaries(node.left, leftBounds);
+            drawBoundaries(node.right, rightBounds);
         };
 
-        drawBoundaries(tree, {xMin: 0, xMax: 100, yMin: 0, yMax: 100});
+        if (forest) {
+            // Majority vote per grid cell, more opaque where the trees agree
+            const step = 100 / GRID;
+            const cells = d3.range(GRID).flatMap(i => d3.range(GRID).map(j => {
+                const { label, probabilities } = predictRandomForest(forest, [(i + 0.5) * step, (j + 0.5) * step]);
+                const chance = 1 / forest.numClasses;
+                const agreement = (probabilities[label] - chance) / (1 - chance || 1);
+                return { i, j, label, agreement };
+            }));
+            boundaryGroup.selectAll('rect').data(cells).join('rect')
+                .attr('x', d => x(d.i * step))
+                .attr('y', d => y((d.j + 1) * step))
+                .attr('width', x(step) - x(0) + 0.5)
+                .attr('height', y(0) - y(step) + 0.5)
+                .attr('fill', d => colorOf(d.label))
+                .attr('opacity', d => 0.05 + 0.3 * d.agreement);
+        } else if (tree) {
+            drawBoundaries(tree, {xMin: 0, xMax: 100, yMin: 0, yMax: 100});
+        }
 
         svg.append('g').attr('transform', `translate(0,${height - margin.bottom})`).call(d3.axisBottom(x)).attr('color', 'rgb(100 116 139)');
         svg.append('g').attr('transform', `translate(${margin.left},0)`).call(d3.axisLeft(y)).attr('color', 'rgb(100 116 139)');
@@ -75,12 +93,12 @@ const DecisionBoundaryPlot: React.FC<DecisionBoundaryPlotProps> = ({ data, tree
             .attr('cx', d => x(d.features[0]))
             .attr('cy', d => y(d.features[1]))
             .attr('r', 3)
-            .attr('fill', d => d.label === 0 ? 'rgb(34 211 238)' : 'rgb(236 72 153)')
+            .attr('fill', d => colorOf(d.label))
             .attr('stroke', 'rgb(15 23 42)');
 
-    }, [data, tree]);
+    }, [data, tree, forest]);
 
     return <svg ref={svgRef}></svg>;
 };
 
-export default DecisionBoundaryPlot;
\ No newline at end of file
+export default DecisionBoundaryPlot;
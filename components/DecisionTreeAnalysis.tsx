@@ -1,9 +1,10 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { DecisionTreePoint, DecisionTreeNode } from '../types';
-import { calculateDecisionTree } from '../services/statisticsService';
+import React, { useState, useCallback, useMemo } from 'react';
+import { DecisionTreePoint, DecisionTreeNode, SplitCriterion } from '../types';
+import { calculateDecisionTree, crossValidatePruning, pruneDecisionTree, countTreeLeaves, trainRandomForest } from '../services/statisticsService';
 import { getChatResponse } from '../services/geminiService';
 import DecisionTreeVisualizer from './DecisionTreeVisualizer';
 import DecisionBoundaryPlot from './DecisionBoundaryPlot';
+import PruningPathChart from './PruningPathChart';
 import UnifiedGenAIChat, { Message } from './UnifiedGenAIChat';
 
 interface DecisionTreeAnalysisProps {
@@ -46,7 +47,25 @@ const generateMoonData = (n_samples: number, noise: number = 0.2): DecisionTreeP
         data.push({ id: i + n_samples_out, features: [x, y], label: 1 });
     }
 
-    // Scale and shift data to be in a viewable range (e.g., 0-100)
+    return scaleToView(data);
+};
+
+// Three interleaved spiral arms, one class each
+const generateSpiralData = (n_samples: number, noise: number = 0.2): DecisionTreePoint[] => {
+    const data: DecisionTreePoint[] = [];
+    for (let i = 0; i < n_samples; i++) {
+        const label = i % 3;
+        const t = 0.25 + Math.random() * 0.75;
+        const angle = label * 2 * Math.PI / 3 + t * 1.6 * Math.PI;
+        const x = t * Math.cos(angle) + (Math.random() - 0.5) * noise;
+        const y = t * Math.sin(angle) + (Math.random() - 0.5) * noise;
+        data.push({ id: i, features: [x, y], label });
+    }
+    return scaleToView(data);
+};
+
+// Scale and shift data to be in a viewable range (e.g., 0-100)
+const scaleToView = (data: DecisionTreePoint[]): DecisionTreePoint[] => {
     const allX = data.map(d => d.features[0]);
     const allY = data.map(d => d.features[1]);
     const minX = Math.min(...allX), maxX = Math.max(...allX);
@@ -61,11 +80,23 @@ const generateMoonData = (n_samples: number, noise: number = 0.2): DecisionTreeP
     }));
 };
 
+type DatasetName = 'moons' | 'spirals';
+type AlphaChoice = 'none' | 'best' | 'oneSE' | number;
+
+const SAMPLE_SIZE = 200;
+
+const generateData = (dataset: DatasetName, noise: number) => (dataset === 'moons' ? generateMoonData(SAMPLE_SIZE, noise) : generateSpiralData(SAMPLE_SIZE, noise));
+
 const DecisionTreeAnalysis: React.FC<DecisionTreeAnalysisProps> = ({ onBack }) => {
-    const [maxDepth, setMaxDepth] = useState(4);
-    const [minSamplesSplit, setMinSamplesSplit] = useState(5);
-    const [data, setData] = useState<DecisionTreePoint[]>(() => generateMoonData(150));
-    const [tree, setTree] = useState<DecisionTreeNode | null>(null);
+    const [maxDepth, setMaxDepth] = useState(8);
+    const [minSamplesSplit, setMinSamplesSplit] = useState(2);
+    const [criterion, setCriterion] = useState<SplitCriterion>('gini');
+    const [dataset, setDataset] = useState<DatasetName>('moons');
+    const [noise, setNoise] = useState(0.3);
+    const [data, setData] = useState<DecisionTreePoint[]>(() => generateData('moons', 0.3));
+    const [alphaChoice, setAlphaChoice] = useState<AlphaChoice>('none');
+    const [numTrees, setNumTrees] = useState(100);
+    const [maxFeatures, setMaxFeatures] = useState(1);
 
     // Chat state
     const [chatHistory, setChatHistory] = useState<Message[]>([
@@ -73,25 +104,41 @@ const DecisionTreeAnalysis: React.FC<DecisionTreeAnalysisProps> = ({ onBack }) =
     ]);
     const [isChatLoading, setIsChatLoading] = useState(false);
 
-    const regenerateData = useCallback(() => setData(generateMoonData(150)), []);
+    const regenerateData = useCallback((nextDataset: DatasetName = dataset, nextNoise: number = noise) => {
+        setData(generateData(nextDataset, nextNoise));
+        setAlphaChoice('none');
+    }, [dataset, noise]);
+
+    const fullTree = useMemo(() => calculateDecisionTree(data, maxDepth, minSamplesSplit, { criterion }), [data, maxDepth, minSamplesSplit, criterion]);
+    const pruning = useMemo(() => crossValidatePruning(data, maxDepth, minSamplesSplit, { criterion }), [data, maxDepth, minSamplesSplit, criterion]);
+    const alpha = alphaChoice === 'none' ? 0 : alphaChoice === 'best' ? pruning.bestAlpha : alphaChoice === 'oneSE' ? pruning.oneSEAlpha : alphaChoice;
+    const tree = useMemo(() => pruneDecisionTree(fullTree, alpha), [fullTree, alpha]);
+    const selectedPathPoint = pruning.path.reduce((best, p) => (p.alpha <= alpha + 1e-12 ? p : best), pruning.path[0]);
+
+    // Forest trees are grown deep; bagging and random feature choice do the regularising
+    const forest = useMemo(
+        () => trainRandomForest(data, { numTrees, maxFeatures, criterion, featureNames: ['X', 'Y'] }),
+        [data, numTrees, maxFeatures, criterion]
+    );
 
-    useEffect(() => {
-        const newTree = calculateDecisionTree(data, maxDepth, minSamplesSplit);
-        setTree(newTree);
-    }, [data, maxDepth, minSamplesSplit]);
+    const handleSelectAlpha = useCallback((value: number) => setAlphaChoice(value), []);
 
     const handleSendMessage = useCallback(async (msg: string) => {
         setIsChatLoading(true);
         setChatHistory(prev => [...prev, { text: msg, role: 'user' }]);
 
         const context = `
-            We are analyzing a Decision Tree Classifier.
-            Hyperparameters: Max Depth=${maxDepth}, Min Samples Split=${minSamplesSplit}.
-            Tree Nodes: ${tree ? 'Generated' : 'Pending'}.
-            
+            We are analyzing a Decision Tree Classifier on the ${dataset === 'moons' ? 'two moons (2 classes)' : 'three spirals (3 classes)'} dataset, noise ${noise}.
+            Hyperparameters: Criterion=${criterion}, Max Depth=${maxDepth}, Min Samples Split=${minSamplesSplit}.
+            Unpruned tree: ${countTreeLeaves(fullTree)} leaves. Cost-complexity alpha=${alpha.toFixed(4)} gives ${countTreeLeaves(tree)} leaves,
+            training error ${(selectedPathPoint.trainError * 100).toFixed(1)}%, ${pruning.folds}-fold CV error ${(selectedPathPoint.cvError * 100).toFixed(1)}% ± ${(selectedPathPoint.cvSE * 100).toFixed(1)}%.
+            Alpha with minimum CV error: ${pruning.bestAlpha.toFixed(4)}; one-SE rule alpha: ${pruning.oneSEAlpha.toFixed(4)}.
+            Random forest: ${numTrees} trees, ${maxFeatures} feature(s) tried per split, out-of-bag error ${forest.oobError === null ? 'n/a' : (forest.oobError * 100).toFixed(1) + '%'}.
+            Feature importances: ${forest.featureImportances.map(f => `${f.feature}: impurity ${f.impurityDecrease.toFixed(2)}, permutation ${f.permutation.toFixed(3)}`).join('; ')}.
+
             User Question: ${msg}
-            
-            Explain how decision trees define boundaries to classify the data points (moons dataset).
+
+            Explain how decision trees define boundaries, why pruning and forests reduce overfitting, and why the forest's boundary is smoother than a single tree's.
         `;
 
         try {
@@ -102,45 +149,123 @@ const DecisionTreeAnalysis: React.FC<DecisionTreeAnalysisProps> = ({ onBack }) =
         } finally {
             setIsChatLoading(false);
         }
-    }, [maxDepth, minSamplesSplit, tree]);
+    }, [dataset, noise, criterion, maxDepth, minSamplesSplit, fullTree, tree, alpha, selectedPathPoint, pruning, numTrees, maxFeatures, forest]);
 
     const handleNodeClick = useCallback((node: DecisionTreeNode) => {
-        if (!node.splitFeatureIndex === undefined || node.splitThreshold === undefined) return;
-        const msg = `What does the split at Feature ${node.splitFeatureIndex} <= ${node.splitThreshold.toFixed(2)} mean?`;
+        if (node.splitFeatureIndex === undefined || node.splitThreshold === undefined) return;
+        const msg = `What does the split at ${node.splitFeatureIndex === 0 ? 'X' : 'Y'} <= ${node.splitThreshold.toFixed(2)} mean?`;
         handleSendMessage(msg);
     }, [handleSendMessage]);
 
+    const alphaButton = (choice: AlphaChoice, label: string) => (
+        <button
+            onClick={() => setAlphaChoice(choice)}
+            className={`flex-1 text-sm py-2 rounded ${alphaChoice === choice ? 'bg-rose-600 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-200'}`}
+        >
+            {label}
+        </button>
+    );
+
     return (
         <div className="w-full max-w-7xl mx-auto">
             <header className="mb-8">
                 <button onClick={onBack} className="text-rose-400 hover:text-rose-300 mb-4 inline-block">&larr; Back to Portal</button>
                 <div className="text-center">
                     <h1 className="text-4xl font-bold text-rose-400">Decision Tree Classifier</h1>
-                    <p className="text-slate-400 mt-2">Visualize how a tree learns to classify data by making splits.</p>
+                    <p className="text-slate-400 mt-2">Visualize how a tree learns to classify data by making splits, how pruning tames it, and how a forest smooths it.</p>
                 </div>
             </header>
 
             <main className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                 <div className="flex flex-col space-y-8">
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
-                        <h3 className="text-lg font-semibold text-rose-400 mb-3 border-b border-rose-400/20 pb-2">Hyperparameters</h3>
+                        <h3 className="text-lg font-semibold text-rose-400 mb-3 border-b border-rose-400/20 pb-2">Data &amp; Hyperparameters</h3>
                         <div className="space-y-4 mt-3">
-                            <Slider label="Max Depth" value={maxDepth} min={1} max={10} step={1} onChange={(e) => setMaxDepth(+e.target.value)} />
+                            <div className="grid grid-cols-2 gap-2">
+                                <select
+                                    value={dataset}
+                                    onChange={(e) => { const next = e.target.value as DatasetName; setDataset(next); regenerateData(next, noise); }}
+                                    className="bg-slate-700 text-slate-200 p-2 rounded"
+                                >
+                                    <option value="moons">Two moons (2 classes)</option>
+                                    <option value="spirals">Three spirals (3 classes)</option>
+                                </select>
+                                <select value={criterion} onChange={(e) => setCriterion(e.target.value as SplitCriterion)} className="bg-slate-700 text-slate-200 p-2 rounded">
+                                    <option value="gini">Gini impurity</option>
+                                    <option value="entropy">Entropy (information gain)</option>
+                                </select>
+                            </div>
+                            <Slider label="Noise" value={noise} min={0.05} max={0.6} step={0.05} onChange={(e) => { setNoise(+e.target.value); regenerateData(dataset, +e.target.value); }} />
+                            <Slider label="Max Depth" value={maxDepth} min={1} max={12} step={1} onChange={(e) => setMaxDepth(+e.target.value)} />
                             <Slider label="Min Samples for Split" value={minSamplesSplit} min={2} max={20} step={1} onChange={(e) => setMinSamplesSplit(+e.target.value)} />
                         </div>
-                        <button onClick={regenerateData} className="w-full mt-6 bg-rose-600 hover:bg-rose-700 text-white font-bold py-2 px-4 rounded-lg">
+                        <button onClick={() => regenerateData()} className="w-full mt-6 bg-rose-600 hover:bg-rose-700 text-white font-bold py-2 px-4 rounded-lg">
                             Regenerate Data
                         </button>
                     </div>
-                    <div className="bg-slate-800 rounded-lg shadow-2xl p-4 flex-grow">
-                        <h3 className="text-lg font-semibold text-rose-400 text-center mb-2">Decision Boundary</h3>
-                        {tree && <DecisionBoundaryPlot data={data} tree={tree} />}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
+                            <h3 className="text-lg font-semibold text-rose-400 text-center mb-2">Single Tree ({countTreeLeaves(tree)} leaves)</h3>
+                            <DecisionBoundaryPlot data={data} tree={tree} />
+                            <p className="text-xs text-slate-400 text-center mt-1">
+                                CV error {(selectedPathPoint.cvError * 100).toFixed(1)}% ± {(selectedPathPoint.cvSE * 100).toFixed(1)}%
+                            </p>
+                        </div>
+                        <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
+                            <h3 className="text-lg font-semibold text-rose-400 text-center mb-2">Random Forest ({numTrees} trees)</h3>
+                            <DecisionBoundaryPlot data={data} forest={forest} />
+                            <p className="text-xs text-slate-400 text-center mt-1">
+                                Out-of-bag error {forest.oobError === null ? '—' : `${(forest.oobError * 100).toFixed(1)}%`}; shading shows how strongly the trees agree
+                            </p>
+                        </div>
+                    </div>
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
+                        <h3 className="text-lg font-semibold text-rose-400 mb-3 border-b border-rose-400/20 pb-2">Random Forest</h3>
+                        <div className="space-y-4">
+                            <Slider label="Number of Trees" value={numTrees} min={10} max={300} step={10} onChange={(e) => setNumTrees(+e.target.value)} />
+                            <Slider label="Features Tried per Split" value={maxFeatures} min={1} max={2} step={1} onChange={(e) => setMaxFeatures(+e.target.value)} />
+                        </div>
+                        <table className="w-full text-sm font-mono mt-4">
+                            <thead>
+                                <tr className="text-slate-400 text-xs">
+                                    <th className="text-left font-normal pb-1">Feature</th>
+                                    <th className="text-right font-normal pb-1">Impurity decrease</th>
+                                    <th className="text-right font-normal pb-1">OOB permutation</th>
+                                </tr>
+                            </thead>
+                            <tbody className="text-slate-300">
+                                {forest.featureImportances.map(f => (
+                                    <tr key={f.feature}>
+                                        <td className="py-1">{f.feature}</td>
+                                        <td className="text-right">{(f.impurityDecrease * 100).toFixed(1)}%</td>
+                                        <td className="text-right">{(f.permutation * 100).toFixed(1)} pts</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <p className="text-xs text-slate-500 mt-2">
+                            Permutation importance is the drop in out-of-bag accuracy when a feature's values are shuffled.
+                            {maxFeatures === 2 && ' With both features tried at every split, the forest is plain bagging.'}
+                        </p>
                     </div>
                 </div>
                 <div className="flex flex-col space-y-8">
+                    <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
+                        <h3 className="text-lg font-semibold text-rose-400 text-center mb-2">Cost-Complexity Pruning</h3>
+                        <PruningPathChart pruning={pruning} selectedAlpha={selectedPathPoint.alpha} onSelectAlpha={handleSelectAlpha} />
+                        <div className="flex gap-2 mt-3">
+                            {alphaButton('none', 'Unpruned')}
+                            {alphaButton('best', 'Min CV Error')}
+                            {alphaButton('oneSE', '1-SE Rule')}
+                        </div>
+                        <p className="text-sm text-slate-400 mt-2">
+                            α = <span className="font-mono text-slate-200">{alpha.toFixed(4)}</span>: {countTreeLeaves(tree)} of {countTreeLeaves(fullTree)} leaves kept,
+                            training error {(selectedPathPoint.trainError * 100).toFixed(1)}%. Each leaf must cut the training error by at least α to stay. Click a point to prune there.
+                        </p>
+                    </div>
                     <div className="bg-slate-800 rounded-lg shadow-2xl p-4 flex-grow min-h-[400px]">
                         <h3 className="text-lg font-semibold text-rose-400 text-center mb-2">Tree Structure</h3>
-                        {tree && <DecisionTreeVisualizer root={tree} onNodeClick={handleNodeClick} />}
+                        <DecisionTreeVisualizer root={tree} onNodeClick={handleNodeClick} criterion={criterion} />
                     </div>
 
                     <div className="h-[500px]">
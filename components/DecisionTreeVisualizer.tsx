@@ -1,13 +1,15 @@
 import React, { useRef, useEffect, useMemo } from 'react';
 import * as d3 from 'd3';
-import { DecisionTreeNode } from '../types';
+import { DecisionTreeNode, SplitCriterion } from '../types';
+import { CLASS_COLORS } from './DecisionBoundaryPlot';
 
 interface DecisionTreeVisualizerProps {
     root: DecisionTreeNode;
     onNodeClick: (node: DecisionTreeNode) => void;
+    criterion?: SplitCriterion;
 }
 
-const DecisionTreeVisualizer: React.FC<DecisionTreeVisualizerProps> = ({ root, onNodeClick }) => {
+const DecisionTreeVisualizer: React.FC<DecisionTreeVisualizerProps> = ({ root, onNodeClick, criterion = 'gini' }) => {
     const svgRef = useRef<SVGSVGElement | null>(null);
     const containerRef = useRef<HTMLDivElement | null>(null);
 
@@ -48,7 +50,7 @@ const DecisionTreeVisualizer: React.FC<DecisionTreeVisualizerProps> = ({ root, o
 
         nodes.append('circle')
             .attr('r', 20)
-            .attr('fill', d => d.data.value !== undefined ? (d.data.value === 0 ? 'rgb(34 211 238)' : 'rgb(236 72 153)') : 'rgb(51 65 85)')
+            .attr('fill', d => !d.data.left ? CLASS_COLORS[(d.data.value ?? 0) % CLASS_COLORS.length] : 'rgb(51 65 85)')
             .attr('stroke', d => d.data.splitFeatureIndex !== undefined ? 'rgb(251 113 133)' : 'rgb(100 116 139)')
             .attr('stroke-width', 2)
             .style('cursor', d => d.data.splitFeatureIndex !== undefined ? 'pointer' : 'default')
@@ -65,18 +67,18 @@ const DecisionTreeVisualizer: React.FC<DecisionTreeVisualizerProps> = ({ root, o
             .selectAll('tspan')
             .data(d => {
                 const data = d.data;
-                if (data.value !== undefined) {
-                    return [`Class: ${data.value}`];
+                if (!data.left) {
+                    return [`Class: ${data.value}`, `n=${data.samples}`];
                 }
                 const feature = data.splitFeatureIndex === 0 ? 'X' : 'Y';
-                return [`${feature} < ${data.splitThreshold?.toFixed(1)}`, `gini=${data.gini?.toFixed(2)}`, `n=${data.samples}`];
+                return [`${feature} ≤ ${data.splitThreshold?.toFixed(1)}`, `${criterion === 'gini' ? 'gini' : 'H'}=${data.impurity?.toFixed(2)}`, `n=${data.samples}`];
             })
             .join('tspan')
             .attr('x', 0)
             .attr('y', (_, i, arr) => `${(i - (arr.length - 1) / 2) * 1.1}em`)
             .text(d => d);
 
-    }, [root, hierarchy, onNodeClick]);
+    }, [root, hierarchy, onNodeClick, criterion]);
 
     return (
         <div ref={containerRef} className="w-full h-full">
@@ -1,5 +1,6 @@
 import React, { useRef, useEffect } from 'react';
 import * as d3 from 'd3';
+import { normalPDF } from '../services/distributionService';
 
 interface Distribution {
     mean: number;
@@ -7,11 +8,23 @@ interface Distribution {
     color: string;
 }
 
+interface Marker {
+    value: number;
+    color: string;
+    label?: string;
+}
+
 interface DistributionChartProps {
     distributions: Distribution[];
+    histogram?: { values: number[], bins?: number, color?: string }; // drawn as a density so curves overlay it
+    markers?: Marker[]; // vertical reference lines, e.g. interval bounds or an observed statistic
+    domain?: [number, number];
 }
 
-const DistributionChart: React.FC<DistributionChartProps> = ({ distributions }) => {
+const NO_MARKERS: Marker[] = [];
+const DEFAULT_DOMAIN: [number, number] = [0, 100];
+
+const DistributionChart: React.FC<DistributionChartProps> = ({ distributions, histogram, markers = NO_MARKERS, domain = DEFAULT_DOMAIN }) => {
     const svgRef = useRef<SVGSVGElement | null>(null);
     const width = 500;
     const height = 300;
@@ -19,12 +32,11 @@ const DistributionChart: React.FC<DistributionChartProps> = ({ distributions })
 
     const pdf = (x: number, mean: number, stdDev: number) => {
         if (stdDev <= 0) return 0;
-        const exponent = -0.5 * Math.pow((x - mean) / stdDev, 2);
-        return (1 / (stdDev * Math.sqrt(2 * Math.PI))) * Math.exp(exponent);
+        return normalPDF(x, mean, stdDev);
     };
 
     useEffect(() => {
-        if (!svgRef.current || distributions.length === 0) return;
+        if (!svgRef.current || (distributions.length === 0 && !histogram)) return;
 
         const svg = d3.select(svgRef.current);
         svg.selectAll('*').remove();
@@ -32,10 +44,15 @@ const DistributionChart: React.FC<DistributionChartProps> = ({ distributions })
         svg.attr('viewBox', `0 0 ${width} ${height}`);
         
         const x = d3.scaleLinear()
-            .domain([0, 100])
+            .domain(domain)
             .range([margin.left, width - margin.right]);
 
-        const yMax = d3.max(distributions, d => pdf(d.mean, d.mean, d.stdDev)) || 0.1;
+        const bins = histogram && histogram.values.length > 0
+            ? d3.bin().domain(domain).thresholds(x.ticks(histogram.bins ?? 40))(histogram.values.filter(v => v >= domain[0] && v <= domain[1]))
+            : [];
+        const densityOf = (bin: d3.Bin<number, number>) => (bin.x1! > bin.x0! ? bin.length / (histogram!.values.length * (bin.x1! - bin.x0!)) : 0);
+
+        const yMax = Math.max(d3.max(distributions, d => pdf(d.mean, d.mean, d.stdDev)) || 0, d3.max(bins, densityOf) || 0) || 0.1;
         
         const y = d3.scaleLinear()
             .domain([0, yMax * 1.1])
@@ -61,10 +78,20 @@ const DistributionChart: React.FC<DistributionChartProps> = ({ distributions })
             .x(d => x(d[0]))
             .y(d => y(d[1]));
 
+        svg.append('g').selectAll('rect').data(bins).join('rect')
+            .attr('x', b => x(b.x0!) + 0.5)
+            .attr('width', b => Math.max(0, x(b.x1!) - x(b.x0!) - 1))
+            .attr('y', b => y(densityOf(b)))
+            .attr('height', b => y(0) - y(densityOf(b)))
+            .attr('fill', histogram?.color ?? 'rgb(129 140 248)')
+            .attr('opacity', 0.7);
+
         distributions.forEach(dist => {
             const curveData: [number, number][] = [];
-            for (let i = 0; i <= 100; i += 0.5) {
-                curveData.push([i, pdf(i, dist.mean, dist.stdDev)]);
+            const step = (domain[1] - domain[0]) / 200;
+            for (let i = 0; i <= 200; i++) {
+                const value = domain[0] + i * step;
+                curveData.push([value, pdf(value, dist.mean, dist.stdDev)]);
             }
 
             svg.append('path')
@@ -75,7 +102,19 @@ const DistributionChart: React.FC<DistributionChartProps> = ({ distributions })
                 .attr('d', line);
         });
 
-    }, [distributions]);
+        markers.filter(m => m.value >= domain[0] && m.value <= domain[1]).forEach(marker => {
+            svg.append('line')
+                .attr('x1', x(marker.value)).attr('x2', x(marker.value))
+                .attr('y1', margin.top).attr('y2', height - margin.bottom)
+                .attr('stroke', marker.color).attr('stroke-width', 2).attr('stroke-dasharray', '5,3');
+            if (marker.label) {
+                svg.append('text')
+                    .attr('x', x(marker.value)).attr('y', margin.top - 6).attr('text-anchor', 'middle')
+                    .text(marker.label).attr('fill', marker.color).style('font-size', '10px');
+            }
+        });
+
+    }, [distributions, histogram, markers, domain]);
 
     return <svg ref={svgRef}></svg>;
 };
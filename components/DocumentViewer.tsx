@@ -11,9 +11,10 @@ const highlightKeywords = (content: string, keywords: string[]): React.ReactNode
     if (keywords.length === 0) return content;
     const regex = new RegExp(`\\b(${keywords.join('|')})\\b`, 'gi');
     const parts = content.split(regex);
+    const keywordSet = new Set(keywords);
 
     return parts.map((part, i) =>
-        regex.test(part) ? (
+        keywordSet.has(part.toLowerCase()) ? (
             <span key={i} className="bg-orange-500/30 font-semibold rounded px-1">
                 {part}
             </span>
@@ -1,8 +1,9 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { SurveyItem, FactorAnalysisResult } from '../types';
-import { SURVEY_ITEMS, generateFactorData, calculateFactorAnalysis } from '../services/statisticsService';
+import { SurveyItem, FactorAnalysisResult, FactorExtraction, FactorRotation } from '../types';
+import { SURVEY_ITEMS, generateFactorData, calculateFactorAnalysis, parseNumericTable } from '../services/statisticsService';
 import { getChatResponse } from '../services/geminiService';
 import FactorLoadingPlot from './FactorLoadingPlot';
+import ScreePlot from './ScreePlot';
 import CorrelationHeatmap from './CorrelationHeatmap';
 import UnifiedGenAIChat, { Message } from './UnifiedGenAIChat';
 
@@ -10,14 +11,24 @@ interface FactorAnalysisProps {
     onBack: () => void;
 }
 
+const SAMPLE_SIZE = 200;
+
+const formatPValue = (p: number) => (p < 0.001 ? '<.001' : p.toFixed(3));
+
 const FactorAnalysis: React.FC<FactorAnalysisProps> = ({ onBack }) => {
-    const [allSurveyItems] = useState<SurveyItem[]>(SURVEY_ITEMS);
-    const [rawData] = useState(() => generateFactorData(allSurveyItems, 200));
+    const [allSurveyItems, setAllSurveyItems] = useState<SurveyItem[]>(SURVEY_ITEMS);
+    const [rawData, setRawData] = useState(() => generateFactorData(SURVEY_ITEMS, SAMPLE_SIZE));
 
-    const [selectedItemIds, setSelectedItemIds] = useState<string[]>(() => allSurveyItems.map(i => i.id));
+    const [selectedItemIds, setSelectedItemIds] = useState<string[]>(() => SURVEY_ITEMS.map(i => i.id));
     const [numFactors, setNumFactors] = useState(2);
+    const [extraction, setExtraction] = useState<FactorExtraction>('pa');
+    const [rotation, setRotation] = useState<FactorRotation>('varimax');
     const [analysisResult, setAnalysisResult] = useState<FactorAnalysisResult | null>(null);
 
+    // Uploaded data
+    const [uploadText, setUploadText] = useState('');
+    const [uploadMessage, setUploadMessage] = useState<string | null>(null);
+
     // Chat state
     const [chatHistory, setChatHistory] = useState<Message[]>([
         { text: "Hello! I'm Dr. Gem. I can help you interpret these factor loadings and identify the underlying constructs. Try changing the number of factors!", role: 'model' }
@@ -30,10 +41,36 @@ const FactorAnalysis: React.FC<FactorAnalysisProps> = ({ onBack }) => {
         );
     };
 
+    const handleLoadData = () => {
+        const table = parseNumericTable(uploadText);
+        if (table.columns.length < 3 || table.rows.length <= table.columns.length) {
+            setUploadMessage('Paste a header row plus more rows than columns, with at least 3 numeric item columns.');
+            return;
+        }
+        setAllSurveyItems(table.columns.map(col => ({ id: col, text: col })));
+        setSelectedItemIds(table.columns);
+        setRawData(table.rows);
+        setUploadMessage(`Loaded ${table.rows.length} responses on ${table.columns.length} items${table.skippedRows > 0 ? ` (${table.skippedRows} incomplete rows dropped)` : ''}.`);
+    };
+
+    const handleUseSampleData = () => {
+        setAllSurveyItems(SURVEY_ITEMS);
+        setSelectedItemIds(SURVEY_ITEMS.map(i => i.id));
+        setRawData(generateFactorData(SURVEY_ITEMS, SAMPLE_SIZE));
+        setUploadMessage(null);
+    };
+
+    // A k-factor model needs at least k + 1 items
+    const maxFactors = Math.max(1, Math.min(5, selectedItemIds.length - 1));
+    const effectiveFactors = Math.min(numFactors, maxFactors);
+
     useEffect(() => {
-        const result = calculateFactorAnalysis(rawData, selectedItemIds, numFactors);
-        setAnalysisResult(result);
-    }, [rawData, selectedItemIds, numFactors]);
+        if (selectedItemIds.length < 3) {
+            setAnalysisResult(null);
+            return;
+        }
+        setAnalysisResult(calculateFactorAnalysis(rawData, selectedItemIds, effectiveFactors, extraction, rotation));
+    }, [rawData, selectedItemIds, effectiveFactors, extraction, rotation]);
 
     const totalVarianceExplained = useMemo(() => {
         if (!analysisResult) return 0;
@@ -45,10 +82,15 @@ const FactorAnalysis: React.FC<FactorAnalysisProps> = ({ onBack }) => {
         setChatHistory(prev => [...prev, { text: msg, role: 'user' }]);
 
         const context = `
-            We are performing Factor Analysis.
-            Number of Factors: ${numFactors}
+            We are performing Exploratory Factor Analysis.
+            Extraction: ${extraction === 'ml' ? 'Maximum likelihood' : 'Principal axis'}, Rotation: ${rotation}
+            Number of Factors: ${effectiveFactors} (parallel analysis suggests ${analysisResult?.suggestedFactors ?? 'N/A'})
             Total Variance Explained: ${totalVarianceExplained.toFixed(1)}%
             Selected Items: ${selectedItemIds.join(', ')}
+            Loadings: ${analysisResult?.loadings.map(l => `${l.item}: ${Object.entries(l).filter(([key]) => key !== 'item').map(([key, v]) => `${key}=${(v as number).toFixed(2)}`).join(', ')}`).join('; ') ?? 'N/A'}
+            Communalities: ${analysisResult?.communalities.map((h, i) => `${analysisResult.itemLabels[i]}=${h.toFixed(2)}`).join(', ') ?? 'N/A'}
+            Factor Correlations: ${analysisResult?.factorCorrelations ? analysisResult.factorCorrelations.map(row => row.map(v => v.toFixed(2)).join(' ')).join(' | ') : 'None (orthogonal)'}
+            KMO: ${analysisResult?.kmo.overall.toFixed(3) ?? 'N/A'}, Bartlett's test: χ²=${analysisResult?.bartlett.chiSquare.toFixed(2) ?? 'N/A'}, p=${analysisResult ? formatPValue(analysisResult.bartlett.pValue) : 'N/A'}
             
             User Question: ${msg}
             
@@ -63,7 +105,7 @@ const FactorAnalysis: React.FC<FactorAnalysisProps> = ({ onBack }) => {
         } finally {
             setIsChatLoading(false);
         }
-    }, [numFactors, totalVarianceExplained, selectedItemIds]);
+    }, [effectiveFactors, extraction, rotation, totalVarianceExplained, selectedItemIds, analysisResult]);
 
     return (
         <div className="w-full max-w-7xl mx-auto">
@@ -81,10 +123,31 @@ const FactorAnalysis: React.FC<FactorAnalysisProps> = ({ onBack }) => {
                         <h3 className="text-lg font-semibold text-violet-400 mb-3 border-b border-violet-400/20 pb-2">Controls</h3>
                         <label className="flex justify-between text-sm text-slate-400 mt-4">
                             <span>Number of Factors</span>
-                            <span className="font-mono">{numFactors}</span>
+                            <span className="font-mono">{effectiveFactors}</span>
                         </label>
-                        <input type="range" min={2} max={3} step={1} value={numFactors} onChange={e => setNumFactors(+e.target.value)} className="w-full h-2 bg-slate-700 rounded-lg" />
+                        <input type="range" min={1} max={maxFactors} step={1} value={effectiveFactors} onChange={e => setNumFactors(+e.target.value)} className="w-full h-2 bg-slate-700 rounded-lg" />
                         <p className="text-xs text-slate-500 mt-1">Total Variance Explained: {totalVarianceExplained.toFixed(1)}%</p>
+                        <label className="block text-sm text-slate-400 mt-4 mb-1">Extraction</label>
+                        <select value={extraction} onChange={e => setExtraction(e.target.value as FactorExtraction)} className="w-full bg-slate-900 text-slate-200 text-sm rounded p-2">
+                            <option value="pa">Principal Axis Factoring</option>
+                            <option value="ml">Maximum Likelihood</option>
+                        </select>
+                        <label className="block text-sm text-slate-400 mt-4 mb-1">Rotation</label>
+                        <select value={rotation} onChange={e => setRotation(e.target.value as FactorRotation)} className="w-full bg-slate-900 text-slate-200 text-sm rounded p-2">
+                            <option value="none">None</option>
+                            <option value="varimax">Varimax (orthogonal)</option>
+                            <option value="promax">Promax (oblique)</option>
+                            <option value="oblimin">Oblimin (oblique)</option>
+                        </select>
+                    </div>
+                    <div>
+                        <h3 className="text-lg font-semibold text-violet-400 mb-3 border-b border-violet-400/20 pb-2">Your Data</h3>
+                        <textarea value={uploadText} onChange={e => setUploadText(e.target.value)} rows={4} placeholder={'item1,item2,item3\n4,5,3\n2,1,2'} className="w-full bg-slate-900 text-slate-200 text-xs font-mono rounded p-2" />
+                        <div className="flex gap-2 mt-2">
+                            <button onClick={handleLoadData} className="flex-1 text-sm bg-violet-600 hover:bg-violet-500 text-white py-2 rounded">Load Data</button>
+                            <button onClick={handleUseSampleData} className="flex-1 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 py-2 rounded">Sample Survey</button>
+                        </div>
+                        <p className="text-xs text-slate-500 mt-1">{uploadMessage ?? 'Paste CSV or tab-separated item responses with a header row.'}</p>
                     </div>
                     <div>
                         <h3 className="text-lg font-semibold text-violet-400 mb-3 border-b border-violet-400/20 pb-2">Survey Items</h3>
@@ -92,7 +155,7 @@ const FactorAnalysis: React.FC<FactorAnalysisProps> = ({ onBack }) => {
                             {allSurveyItems.map(item => (
                                 <label key={item.id} className="flex items-center space-x-3 p-2 bg-slate-900 rounded-md cursor-pointer hover:bg-slate-700">
                                     <input type="checkbox" checked={selectedItemIds.includes(item.id)} onChange={() => handleItemToggle(item.id)} className="form-checkbox h-5 w-5 bg-slate-700 border-slate-600 text-violet-500 focus:ring-violet-500" />
-                                    <span className="text-slate-300 text-sm">{item.text} ({item.id.toUpperCase()})</span>
+                                    <span className="text-slate-300 text-sm">{item.text === item.id ? item.id : `${item.text} (${item.id.toUpperCase()})`}</span>
                                 </label>
                             ))}
                         </div>
@@ -110,9 +173,84 @@ const FactorAnalysis: React.FC<FactorAnalysisProps> = ({ onBack }) => {
                     </div>
                 </aside>
                 <section className="lg:col-span-2 flex flex-col space-y-8">
+                    {!analysisResult && (
+                        <div className="bg-slate-800 rounded-lg shadow-2xl p-4 text-center text-slate-400">Select at least 3 items to run the factor analysis.</div>
+                    )}
+                    {analysisResult && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="bg-slate-800 rounded-lg shadow-2xl p-4 text-sm space-y-2">
+                                <h3 className="text-lg font-semibold text-slate-300 mb-2">Sampling Adequacy</h3>
+                                <div className="flex justify-between"><span className="text-slate-400">KMO</span><span className={`font-mono ${analysisResult.kmo.overall >= 0.6 ? 'text-green-400' : 'text-red-400'}`}>{analysisResult.kmo.overall.toFixed(3)}</span></div>
+                                <div className="flex justify-between"><span className="text-slate-400">Bartlett χ² (df = {analysisResult.bartlett.df})</span><span className="font-mono text-slate-300">{analysisResult.bartlett.chiSquare.toFixed(2)}, p {formatPValue(analysisResult.bartlett.pValue)}</span></div>
+                                <p className="text-xs text-slate-500">KMO above .60 and a significant Bartlett test mean the items share enough variance to factor.</p>
+                            </div>
+                            <div className="bg-slate-800 rounded-lg shadow-2xl p-4 text-sm space-y-2">
+                                <h3 className="text-lg font-semibold text-slate-300 mb-2">Number of Factors</h3>
+                                <div className="flex justify-between"><span className="text-slate-400">Parallel analysis suggests</span><span className="font-mono text-violet-300">{analysisResult.suggestedFactors}</span></div>
+                                {analysisResult.modelFit ? (
+                                    <div className="flex justify-between"><span className="text-slate-400">Model χ² (df = {analysisResult.modelFit.df})</span><span className="font-mono text-slate-300">{analysisResult.modelFit.pValue !== null ? `${analysisResult.modelFit.chiSquare.toFixed(2)}, p ${formatPValue(analysisResult.modelFit.pValue)}` : 'p not applicable (df ≤ 0)'}</span></div>
+                                ) : (
+                                    <p className="text-xs text-slate-500">Switch to maximum likelihood extraction for a χ² test of model fit.</p>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                    {analysisResult && (
+                        <div className="bg-slate-800 rounded-lg shadow-2xl p-4 overflow-x-auto">
+                            <h3 className="text-lg font-semibold text-center text-slate-300 mb-2">{analysisResult.factorCorrelations ? 'Pattern Loadings' : 'Factor Loadings'}</h3>
+                            <table className="w-full text-sm font-mono">
+                                <thead>
+                                    <tr className="text-slate-400 text-xs">
+                                        <th className="text-left font-normal pb-1">Item</th>
+                                        {analysisResult.explainedVariance.map((_, f) => <th key={f} className="text-right font-normal pb-1">F{f + 1}</th>)}
+                                        <th className="text-right font-normal pb-1">h²</th>
+                                        <th className="text-right font-normal pb-1">KMO</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="text-slate-300">
+                                    {analysisResult.loadings.map((l, i) => (
+                                        <tr key={l.item as string}>
+                                            <td className="py-1">{(l.item as string).toUpperCase()}</td>
+                                            {analysisResult.explainedVariance.map((_, f) => {
+                                                const v = l[`factor${f + 1}`] as number;
+                                                return <td key={f} className={`text-right ${Math.abs(v) >= 0.4 ? 'text-violet-300 font-bold' : 'text-slate-500'}`}>{v.toFixed(2)}</td>;
+                                            })}
+                                            <td className="text-right">{analysisResult.communalities[i].toFixed(2)}</td>
+                                            <td className="text-right">{analysisResult.kmo.perItem[i].toFixed(2)}</td>
+                                        </tr>
+                                    ))}
+                                    <tr className="text-slate-400 border-t border-slate-700">
+                                        <td className="py-1">% Var</td>
+                                        {analysisResult.explainedVariance.map((v, f) => <td key={f} className="text-right">{(v * 100).toFixed(1)}</td>)}
+                                        <td colSpan={2}></td>
+                                    </tr>
+                                </tbody>
+                            </table>
+                            {analysisResult.factorCorrelations && (
+                                <div className="mt-4">
+                                    <h4 className="text-sm font-semibold text-slate-300 mb-1">Factor Correlations</h4>
+                                    <table className="text-sm font-mono text-slate-300">
+                                        <tbody>
+                                            {analysisResult.factorCorrelations.map((row, i) => (
+                                                <tr key={i}>
+                                                    <td className="pr-3 text-slate-400">F{i + 1}</td>
+                                                    {row.map((v, j) => <td key={j} className="px-2 text-right">{j <= i ? v.toFixed(2) : ''}</td>)}
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
+                        <h3 className="text-lg font-semibold text-center text-slate-300 mb-2">Scree Plot &amp; Parallel Analysis</h3>
+                        {analysisResult && <ScreePlot eigenvalues={analysisResult.eigenvalues} parallelEigenvalues={analysisResult.parallelEigenvalues} numFactors={effectiveFactors} />}
+                    </div>
                     <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
                         <h3 className="text-lg font-semibold text-center text-slate-300 mb-2">Factor Loadings Plot</h3>
-                        {analysisResult && analysisResult.loadings.length > 0 && <FactorLoadingPlot loadings={analysisResult.loadings} explainedVariance={analysisResult.explainedVariance} factors={['factor1', 'factor2']} />}
+                        {analysisResult && effectiveFactors >= 2 && <FactorLoadingPlot loadings={analysisResult.loadings} explainedVariance={analysisResult.explainedVariance} factors={['factor1', 'factor2']} />}
+                        {analysisResult && effectiveFactors < 2 && <p className="text-center text-sm text-slate-400">Extract at least two factors to plot loadings.</p>}
                     </div>
                     <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
                         <h3 className="text-lg font-semibold text-center text-slate-300 mb-2">Item Correlation Heatmap</h3>
@@ -5,7 +5,7 @@ import { FactorLoading } from '../types';
 interface FactorLoadingPlotProps {
     loadings: FactorLoading[];
     explainedVariance: number[];
-    factors: ['factor1' | 'factor2' | 'factor3', 'factor1' | 'factor2' | 'factor3'];
+    factors: [string, string]; // loading keys for the x and y axes, e.g. ['factor1', 'factor2']
 }
 
 const FactorLoadingPlot: React.FC<FactorLoadingPlotProps> = ({ loadings, explainedVariance, factors }) => {
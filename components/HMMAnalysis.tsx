@@ -1,19 +1,24 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { HMMSequenceItem } from '../types';
-import { generateHMMSequence } from '../services/statisticsService';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { HMMSequenceItem, HMMParams, BaumWelchResult, StudentAction } from '../types';
+import { createWeatherHMM, generateHMMSequence, hmmForwardBackward, hmmViterbi, fitBaumWelch, alignHMMStates, generateSequenceData, parseActionSequences } from '../services/statisticsService';
 import { getChatResponse } from '../services/geminiService';
-import HMMSequenceVisualizer from './HMMSequenceVisualizer';
+import HMMSequenceVisualizer, { STATE_COLORS } from './HMMSequenceVisualizer';
 import UnifiedGenAIChat, { Message } from './UnifiedGenAIChat';
 
 interface HMMAnalysisProps {
     onBack: () => void;
 }
 
-const Slider: React.FC<{ label: string, value: number, min: number, max: number, step: number, onChange: (e: React.ChangeEvent<HTMLInputElement>) => void }> = ({ label, value, min, max, step, onChange }) => (
+type HMMMode = 'weather' | 'logs';
+
+const STUDENT_ACTIONS: StudentAction[] = ['V', 'Q', 'A', 'F', 'P', 'E'];
+const TRAINING_SEQUENCES = 40;
+
+const Slider: React.FC<{ label: string, value: number, min: number, max: number, step: number, onChange: (e: React.ChangeEvent<HTMLInputElement>) => void, format?: (v: number) => string }> = ({ label, value, min, max, step, onChange, format }) => (
     <div>
         <label className="flex justify-between text-sm text-slate-400">
             <span>{label}</span>
-            <span className="font-mono">{value.toFixed(2)}</span>
+            <span className="font-mono">{format ? format(value) : value.toFixed(2)}</span>
         </label>
         <input
             type="range"
@@ -27,40 +32,178 @@ const Slider: React.FC<{ label: string, value: number, min: number, max: number,
     </div>
 );
 
+// Probability matrix with cell shading proportional to the value
+const MatrixTable: React.FC<{ title: string, rows: string[], columns: string[], values: number[][], reference?: number[][] }> = ({ title, rows, columns, values, reference }) => (
+    <div>
+        <h4 className="text-sm font-semibold text-slate-300 mb-1">{title}</h4>
+        <table className="w-full text-xs font-mono text-right">
+            <thead>
+                <tr className="text-slate-400">
+                    <th className="text-left font-normal"></th>
+                    {columns.map(c => <th key={c} className="font-normal px-1">{c}</th>)}
+                </tr>
+            </thead>
+            <tbody>
+                {values.map((row, i) => (
+                    <tr key={rows[i]}>
+                        <td className="text-left pr-2" style={{ color: STATE_COLORS[i % STATE_COLORS.length] }}>{rows[i]}</td>
+                        {row.map((v, j) => (
+                            <td key={j} className="px-1 py-0.5 text-slate-100" style={{ backgroundColor: `rgba(249, 115, 22, ${(v * 0.7).toFixed(2)})` }}>
+                                {v.toFixed(2)}
+                                {reference && <span className="block text-[10px] text-slate-400">({reference[i][j].toFixed(2)})</span>}
+                            </td>
+                        ))}
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+const sampleLogText = () => generateSequenceData(TRAINING_SEQUENCES).map(s => s.actions.join(' ')).join('\n');
+
 const HMMAnalysis: React.FC<HMMAnalysisProps> = ({ onBack }) => {
+    const [mode, setMode] = useState<HMMMode>('weather');
+
+    // Weather simulation
     const [transitionProbs, setTransitionProbs] = useState({ sunnyToSunny: 0.9, rainyToRainy: 0.6 });
+    const [sequenceLength, setSequenceLength] = useState(20);
     const [sequence, setSequence] = useState<HMMSequenceItem[]>([]);
+    const [learnedModel, setLearnedModel] = useState<BaumWelchResult | null>(null);
+    const [decodeWith, setDecodeWith] = useState<'true' | 'learned'>('true');
+
+    // Student action logs
+    const [numStates, setNumStates] = useState(2);
+    const [logText, setLogText] = useState<string>(sampleLogText);
+    const [logSequences, setLogSequences] = useState<StudentAction[][]>([]);
+    const [logFits, setLogFits] = useState<BaumWelchResult[]>([]);
+    const [selectedLearner, setSelectedLearner] = useState(0);
+    const [uploadMessage, setUploadMessage] = useState<string | null>(null);
 
     // Chat state
     const [chatHistory, setChatHistory] = useState<Message[]>([
-        { text: "Hello! I'm Dr. Gem. I can help you understand how hidden states (like weather) cause the observations you see (like activities). Adjust the probabilities to see what happens!", role: 'model' }
+        { text: "Hello! I'm Dr. Gem. I can help you understand how hidden states (like weather) cause the observations you see (like activities). Try decoding the hidden path, then let Baum-Welch learn the model from data!", role: 'model' }
     ]);
     const [isChatLoading, setIsChatLoading] = useState(false);
 
-    const generateNewSequence = useCallback(() => {
-        const newSequence = generateHMMSequence(transitionProbs, 15);
-        setSequence(newSequence);
-    }, [transitionProbs]);
+    const trueModel = useMemo(() => createWeatherHMM(transitionProbs.sunnyToSunny, transitionProbs.rainyToRainy), [transitionProbs]);
+
+    const generateNewSequence = useCallback((model: HMMParams = trueModel) => {
+        setSequence(generateHMMSequence(model, sequenceLength));
+    }, [trueModel, sequenceLength]);
 
     // Generate initial sequence
     useEffect(() => {
         generateNewSequence();
     }, []);
 
+    // A learned model describes the old transition settings, so drop it when they change
+    useEffect(() => {
+        setLearnedModel(null);
+        setDecodeWith('true');
+    }, [trueModel]);
+
+    const learnWeatherModel = useCallback(() => {
+        const training = Array.from({ length: TRAINING_SEQUENCES }, () => generateHMMSequence(trueModel, sequenceLength));
+        const observations = training.map(seq => seq.map(item => trueModel.symbols.indexOf(item.observation)));
+        const truth = training.flatMap(seq => seq.map(item => trueModel.states.indexOf(item.state)));
+        const fit = fitBaumWelch(observations, ['State 1', 'State 2'], trueModel.symbols, { restarts: 3 });
+
+        // Name the learned states after the true states they line up with most often
+        const decoded = observations.flatMap(obs => hmmViterbi(fit.params, obs).path);
+        const { mapping } = alignHMMStates(decoded, truth, 2);
+        const order = trueModel.states.map((_, trueIndex) => mapping.indexOf(trueIndex));
+        setLearnedModel({
+            ...fit,
+            params: {
+                ...fit.params,
+                states: trueModel.states,
+                initial: order.map(i => fit.params.initial[i]),
+                transition: order.map(i => order.map(j => fit.params.transition[i][j])),
+                emission: order.map(i => fit.params.emission[i])
+            }
+        });
+        setDecodeWith('learned');
+    }, [trueModel, sequenceLength]);
+
+    const weatherDecoding = useMemo(() => {
+        if (sequence.length === 0) return null;
+        const model = decodeWith === 'learned' && learnedModel ? learnedModel.params : trueModel;
+        const observations = sequence.map(item => model.symbols.indexOf(item.observation));
+        const { path } = hmmViterbi(model, observations);
+        const { posteriors, logLikelihood } = hmmForwardBackward(model, observations);
+        const decodedStates = path.map(i => model.states[i]);
+        const matches = decodedStates.filter((s, t) => s === sequence[t].state).length;
+        // Posterior decoding picks the individually most likely state at each step
+        const posteriorMatches = posteriors.filter((row, t) => model.states[row.indexOf(Math.max(...row))] === sequence[t].state).length;
+        return { decodedStates, posteriors, logLikelihood, accuracy: matches / sequence.length, posteriorAccuracy: posteriorMatches / sequence.length };
+    }, [sequence, decodeWith, learnedModel, trueModel]);
+
+    const fitActionLogs = useCallback(() => {
+        const { sequences, skippedTokens } = parseActionSequences(logText);
+        if (sequences.length === 0) {
+            setUploadMessage('No action sequences found. Use one learner per line with the codes V, Q, A, F, P, E.');
+            return;
+        }
+        const encoded = sequences.map(seq => seq.map(a => STUDENT_ACTIONS.indexOf(a)));
+        // Fit 1-4 states so the BIC column can guide the choice of model size
+        const fits = [1, 2, 3, 4].map(k =>
+            fitBaumWelch(encoded, Array.from({ length: k }, (_, i) => `State ${i + 1}`), STUDENT_ACTIONS, { restarts: 3 }));
+        setLogSequences(sequences);
+        setLogFits(fits);
+        setSelectedLearner(0);
+        setUploadMessage(`Fitted ${sequences.length} learners (${encoded.reduce((a, s) => a + s.length, 0)} actions)${skippedTokens > 0 ? `; skipped ${skippedTokens} unknown tokens` : ''}.`);
+    }, [logText]);
+
+    useEffect(() => {
+        fitActionLogs();
+    }, []);
+
+    const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => setLogText(String(reader.result ?? ''));
+        reader.readAsText(file);
+        e.target.value = '';
+    };
+
+    const logFit = logFits[numStates - 1] ?? null;
+    const learnerDecoding = useMemo(() => {
+        const seq = logSequences[selectedLearner];
+        if (!logFit || !seq) return null;
+        const observations = seq.map(a => STUDENT_ACTIONS.indexOf(a));
+        return {
+            decodedStates: hmmViterbi(logFit.params, observations).path.map(i => logFit.params.states[i]),
+            posteriors: hmmForwardBackward(logFit.params, observations).posteriors
+        };
+    }, [logFit, logSequences, selectedLearner]);
+
     const handleSendMessage = useCallback(async (msg: string) => {
         setIsChatLoading(true);
         setChatHistory(prev => [...prev, { text: msg, role: 'user' }]);
 
+        const weatherContext = `
+            Weather simulation with true transition probabilities P(Sunny|Sunny) = ${transitionProbs.sunnyToSunny}, P(Rainy|Rainy) = ${transitionProbs.rainyToRainy}.
+            Sequence length: ${sequence.length}. Decoding with the ${decodeWith} model.
+            Viterbi accuracy vs the true hidden path: ${weatherDecoding ? (weatherDecoding.accuracy * 100).toFixed(0) : 'n/a'}%; posterior decoding accuracy: ${weatherDecoding ? (weatherDecoding.posteriorAccuracy * 100).toFixed(0) : 'n/a'}%.
+            ${learnedModel ? `Baum-Welch learned transitions ${JSON.stringify(learnedModel.params.transition.map(r => r.map(v => +v.toFixed(2))))} and emissions ${JSON.stringify(learnedModel.params.emission.map(r => r.map(v => +v.toFixed(2))))} in ${learnedModel.iterations} iterations.` : 'No model has been learned yet.'}
+        `;
+        const logsContext = logFit ? `
+            ${numStates}-state HMM fitted to ${logSequences.length} student action logs (V=Video, Q=Quiz, A=Assignment, F=Forum, P=Pass, E=Fail/Error).
+            Emission probabilities (rows = states, columns = ${STUDENT_ACTIONS.join(', ')}): ${JSON.stringify(logFit.params.emission.map(r => r.map(v => +v.toFixed(2))))}
+            Transition probabilities: ${JSON.stringify(logFit.params.transition.map(r => r.map(v => +v.toFixed(2))))}
+            BIC for 1-4 states: ${logFits.map(f => f.bic.toFixed(1)).join(', ')}
+        ` : 'No student log model fitted.';
+
         const context = `
             We are analyzing a Hidden Markov Model (HMM).
-            Transition Probabilities:
-            P(Sunny|Sunny) = ${transitionProbs.sunnyToSunny}
-            P(Rainy|Rainy) = ${transitionProbs.rainyToRainy}
-            sequence length: ${sequence.length}
-            
+            Current view: ${mode === 'weather' ? 'weather simulation' : 'student action logs'}.
+            ${mode === 'weather' ? weatherContext : logsContext}
+
             User Question: ${msg}
-            
-            Explain how the transition probabilities affect the stability of the weather states and the resulting observations.
+
+            Explain how forward-backward, Viterbi decoding and Baum-Welch learning relate to what the student is seeing. Keep it concise and educational.
         `;
 
         try {
@@ -71,7 +214,10 @@ const HMMAnalysis: React.FC<HMMAnalysisProps> = ({ onBack }) => {
         } finally {
             setIsChatLoading(false);
         }
-    }, [transitionProbs, sequence]);
+    }, [mode, transitionProbs, sequence, decodeWith, weatherDecoding, learnedModel, logFit, logFits, numStates, logSequences]);
+
+    const tabClass = (tab: HMMMode) =>
+        `px-4 py-2 rounded-lg text-sm font-semibold ${mode === tab ? 'bg-orange-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`;
 
     return (
         <div className="w-full max-w-6xl mx-auto">
@@ -79,46 +225,209 @@ const HMMAnalysis: React.FC<HMMAnalysisProps> = ({ onBack }) => {
                 <button onClick={onBack} className="text-orange-400 hover:text-orange-300 mb-4 inline-block">&larr; Back to Portal</button>
                 <div className="text-center">
                     <h1 className="text-4xl font-bold text-orange-400">Hidden Markov Model (HMM)</h1>
-                    <p className="text-slate-400 mt-2">Adjust weather probabilities to see how they influence daily activities.</p>
+                    <p className="text-slate-400 mt-2">Decode hidden states with Viterbi, inspect forward-backward posteriors, and learn models with Baum-Welch.</p>
+                </div>
+                <div className="flex justify-center gap-2 mt-4">
+                    <button className={tabClass('weather')} onClick={() => setMode('weather')}>Weather Simulation</button>
+                    <button className={tabClass('logs')} onClick={() => setMode('logs')}>Student Action Logs</button>
                 </div>
             </header>
 
             <main className="grid grid-cols-1 lg:grid-cols-5 gap-8">
-                <div className="lg:col-span-3 bg-slate-800 rounded-lg shadow-2xl flex items-center justify-center p-4 min-h-[250px]">
-                    <HMMSequenceVisualizer sequence={sequence} />
+                <div className="lg:col-span-3 space-y-6">
+                    {mode === 'weather' ? (
+                        <>
+                            <div className="bg-slate-800 rounded-lg shadow-2xl p-4 min-h-[250px]">
+                                <div className="flex justify-between items-center text-xs text-slate-400 px-4">
+                                    <span>Top: true state · Middle: observation · Bottom: Viterbi state · Bar: posterior</span>
+                                    <span className="flex gap-2">
+                                        {trueModel.states.map((s, i) => <span key={s} style={{ color: STATE_COLORS[i] }}>■ {s}</span>)}
+                                    </span>
+                                </div>
+                                {weatherDecoding && (
+                                    <HMMSequenceVisualizer
+                                        observations={sequence.map(item => item.observation)}
+                                        states={trueModel.states}
+                                        trueStates={sequence.map(item => item.state)}
+                                        decodedStates={weatherDecoding.decodedStates}
+                                        posteriors={weatherDecoding.posteriors}
+                                    />
+                                )}
+                                {weatherDecoding && (
+                                    <div className="grid grid-cols-3 gap-4 text-center mt-2">
+                                        <div>
+                                            <div className="text-xs text-slate-400">Viterbi accuracy</div>
+                                            <div className="text-2xl font-mono text-orange-300">{(weatherDecoding.accuracy * 100).toFixed(0)}%</div>
+                                        </div>
+                                        <div>
+                                            <div className="text-xs text-slate-400">Posterior decoding accuracy</div>
+                                            <div className="text-2xl font-mono text-orange-300">{(weatherDecoding.posteriorAccuracy * 100).toFixed(0)}%</div>
+                                        </div>
+                                        <div>
+                                            <div className="text-xs text-slate-400">Log-likelihood</div>
+                                            <div className="text-2xl font-mono text-orange-300">{weatherDecoding.logLikelihood.toFixed(1)}</div>
+                                        </div>
+                                    </div>
+                                )}
+                                <p className="text-xs text-slate-500 text-center mt-2">Red borders mark steps where the decoded state differs from the true one.</p>
+                            </div>
+
+                            {learnedModel && (
+                                <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
+                                    <h3 className="text-lg font-semibold text-orange-400 mb-1">Baum-Welch Estimates</h3>
+                                    <p className="text-xs text-slate-400 mb-3">
+                                        Learned from {TRAINING_SEQUENCES} simulated sequences in {learnedModel.iterations} iterations
+                                        ({learnedModel.converged ? 'converged' : 'iteration limit reached'}); true values in parentheses.
+                                    </p>
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                        <MatrixTable title="Transition P(to | from)" rows={trueModel.states} columns={trueModel.states} values={learnedModel.params.transition} reference={trueModel.transition} />
+                                        <MatrixTable title="Emission P(activity | state)" rows={trueModel.states} columns={trueModel.symbols} values={learnedModel.params.emission} reference={trueModel.emission} />
+                                    </div>
+                                    <p className="text-xs text-slate-400 mt-3 font-mono">
+                                        Log-likelihood: {learnedModel.logLikelihoods[0].toFixed(1)} → {learnedModel.logLikelihood.toFixed(1)}
+                                    </p>
+                                </div>
+                            )}
+                        </>
+                    ) : (
+                        <>
+                            <div className="bg-slate-800 rounded-lg shadow-2xl p-4 min-h-[200px]">
+                                <div className="flex justify-between items-center px-4">
+                                    <span className="text-xs text-slate-400">Top: action · Bottom: Viterbi state · Bar: posterior</span>
+                                    <select value={selectedLearner} onChange={e => setSelectedLearner(+e.target.value)} className="bg-slate-900 text-slate-200 text-sm rounded p-1">
+                                        {logSequences.map((seq, i) => <option key={i} value={i}>Learner {i + 1} ({seq.length} actions)</option>)}
+                                    </select>
+                                </div>
+                                {logFit && learnerDecoding && (
+                                    <HMMSequenceVisualizer
+                                        observations={logSequences[selectedLearner]}
+                                        states={logFit.params.states}
+                                        decodedStates={learnerDecoding.decodedStates}
+                                        posteriors={learnerDecoding.posteriors}
+                                    />
+                                )}
+                            </div>
+
+                            {logFit && (
+                                <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-4">
+                                    <h3 className="text-lg font-semibold text-orange-400">{numStates}-State Model</h3>
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                        <MatrixTable title="Emission P(action | state)" rows={logFit.params.states} columns={STUDENT_ACTIONS} values={logFit.params.emission} />
+                                        <MatrixTable title="Transition P(to | from)" rows={logFit.params.states} columns={logFit.params.states} values={logFit.params.transition} />
+                                    </div>
+                                    <div>
+                                        <h4 className="text-sm font-semibold text-slate-300 mb-1">Model Comparison</h4>
+                                        <table className="w-full text-xs font-mono text-right">
+                                            <thead>
+                                                <tr className="text-slate-400">
+                                                    <th className="text-left font-normal">States</th>
+                                                    <th className="font-normal">Log-lik.</th>
+                                                    <th className="font-normal">BIC</th>
+                                                    <th className="font-normal">Iterations</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {logFits.map((fit, i) => {
+                                                    const bestBic = Math.min(...logFits.map(f => f.bic));
+                                                    return (
+                                                        <tr key={i} className={i + 1 === numStates ? 'text-orange-300' : 'text-slate-200'}>
+                                                            <td className="text-left">{i + 1}{fit.bic === bestBic ? ' ★' : ''}</td>
+                                                            <td>{fit.logLikelihood.toFixed(1)}</td>
+                                                            <td>{fit.bic.toFixed(1)}</td>
+                                                            <td>{fit.iterations}{fit.converged ? '' : '+'}</td>
+                                                        </tr>
+                                                    );
+                                                })}
+                                            </tbody>
+                                        </table>
+                                        <p className="text-xs text-slate-500 mt-1">★ lowest BIC. Hidden states have no fixed meaning: interpret them through their emission profiles.</p>
+                                    </div>
+                                </div>
+                            )}
+                        </>
+                    )}
                 </div>
+
                 <div className="lg:col-span-2 flex flex-col space-y-8">
-                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-6">
-                        <div>
-                            <h3 className="text-lg font-semibold text-orange-400 mb-3 border-b border-orange-400/20 pb-2">Transition Probabilities</h3>
-                            <p className="text-xs text-slate-400 mb-3">How likely is the weather to stay the same from one day to the next?</p>
-                            <div className="space-y-4 mt-3">
-                                <Slider
-                                    label="P(Sunny ☀️ → Sunny ☀️)"
-                                    value={transitionProbs.sunnyToSunny}
-                                    min={0.05} max={0.99} step={0.01}
-                                    onChange={(e) => {
-                                        const newVal = +e.target.value;
-                                        setTransitionProbs(p => ({ ...p, sunnyToSunny: newVal }));
-                                        generateNewSequence();
-                                    }}
-                                />
-                                <Slider
-                                    label="P(Rainy 🌧️ → Rainy 🌧️)"
-                                    value={transitionProbs.rainyToRainy}
-                                    min={0.05} max={0.99} step={0.01}
-                                    onChange={(e) => {
-                                        const newVal = +e.target.value;
-                                        setTransitionProbs(p => ({ ...p, rainyToRainy: newVal }));
-                                        generateNewSequence();
-                                    }}
-                                />
+                    {mode === 'weather' ? (
+                        <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-6">
+                            <div>
+                                <h3 className="text-lg font-semibold text-orange-400 mb-3 border-b border-orange-400/20 pb-2">True Transition Probabilities</h3>
+                                <p className="text-xs text-slate-400 mb-3">How likely is the weather to stay the same from one day to the next?</p>
+                                <div className="space-y-4 mt-3">
+                                    <Slider
+                                        label="P(Sunny ☀️ → Sunny ☀️)"
+                                        value={transitionProbs.sunnyToSunny}
+                                        min={0.05} max={0.99} step={0.01}
+                                        onChange={(e) => {
+                                            const newVal = +e.target.value;
+                                            setTransitionProbs(p => ({ ...p, sunnyToSunny: newVal }));
+                                            generateNewSequence(createWeatherHMM(newVal, transitionProbs.rainyToRainy));
+                                        }}
+                                    />
+                                    <Slider
+                                        label="P(Rainy 🌧️ → Rainy 🌧️)"
+                                        value={transitionProbs.rainyToRainy}
+                                        min={0.05} max={0.99} step={0.01}
+                                        onChange={(e) => {
+                                            const newVal = +e.target.value;
+                                            setTransitionProbs(p => ({ ...p, rainyToRainy: newVal }));
+                                            generateNewSequence(createWeatherHMM(transitionProbs.sunnyToSunny, newVal));
+                                        }}
+                                    />
+                                    <Slider
+                                        label="Sequence length (days)"
+                                        value={sequenceLength}
+                                        min={5} max={40} step={1}
+                                        format={v => v.toFixed(0)}
+                                        onChange={(e) => setSequenceLength(+e.target.value)}
+                                    />
+                                </div>
+                            </div>
+                            <button onClick={() => generateNewSequence()} className="w-full bg-orange-600 hover:bg-orange-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200">
+                                Generate New Sequence
+                            </button>
+                            <div className="space-y-3">
+                                <button onClick={learnWeatherModel} className="w-full bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200">
+                                    Learn Model with Baum-Welch
+                                </button>
+                                <div className="flex gap-2 text-sm">
+                                    <span className="text-slate-400 self-center">Decode with:</span>
+                                    <button onClick={() => setDecodeWith('true')} className={`px-3 py-1 rounded ${decodeWith === 'true' ? 'bg-orange-600 text-white' : 'bg-slate-700 text-slate-300'}`}>True model</button>
+                                    <button onClick={() => setDecodeWith('learned')} disabled={!learnedModel} className={`px-3 py-1 rounded disabled:opacity-40 ${decodeWith === 'learned' ? 'bg-orange-600 text-white' : 'bg-slate-700 text-slate-300'}`}>Learned model</button>
+                                </div>
                             </div>
                         </div>
-                        <button onClick={generateNewSequence} className="w-full bg-orange-600 hover:bg-orange-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200">
-                            Generate New Sequence
-                        </button>
-                    </div>
+                    ) : (
+                        <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-4">
+                            <h3 className="text-lg font-semibold text-orange-400 border-b border-orange-400/20 pb-2">Action Logs</h3>
+                            <Slider
+                                label="Hidden states"
+                                value={numStates}
+                                min={1} max={4} step={1}
+                                format={v => v.toFixed(0)}
+                                onChange={(e) => setNumStates(+e.target.value)}
+                            />
+                            <textarea
+                                value={logText}
+                                onChange={e => setLogText(e.target.value)}
+                                rows={8}
+                                className="w-full bg-slate-900 text-slate-200 font-mono text-xs rounded p-2"
+                                placeholder="One learner per line, e.g. V Q P A E"
+                            />
+                            <div className="flex gap-2">
+                                <button onClick={fitActionLogs} className="flex-1 bg-orange-600 hover:bg-orange-700 text-white font-bold py-2 px-4 rounded-lg">Fit HMM</button>
+                                <button onClick={() => setLogText(sampleLogText())} className="bg-slate-700 hover:bg-slate-600 text-white py-2 px-4 rounded-lg">Sample</button>
+                                <label className="bg-slate-700 hover:bg-slate-600 text-white py-2 px-4 rounded-lg cursor-pointer">
+                                    Upload
+                                    <input type="file" accept=".txt,.csv" onChange={handleFileUpload} className="hidden" />
+                                </label>
+                            </div>
+                            <p className="text-xs text-slate-400">
+                                {uploadMessage ?? 'Codes: V=Video, Q=Quiz, A=Assignment, F=Forum, P=Pass, E=Fail/Error.'}
+                            </p>
+                        </div>
+                    )}
 
                     <div className="h-[500px]">
                         <UnifiedGenAIChat
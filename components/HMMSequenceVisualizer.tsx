@@ -1,31 +1,70 @@
 import React from 'react';
-import { HMMSequenceItem } from '../types';
+import { HiddenState, Observation } from '../types';
 
-const stateToEmoji: Record<HMMSequenceItem['state'], string> = {
+const stateToEmoji: Record<string, string> = {
     Sunny: '☀️',
     Rainy: '🌧️',
 };
 
-const observationToEmoji: Record<HMMSequenceItem['observation'], string> = {
+const observationToEmoji: Record<string, string> = {
     Walk: '🚶',
     Read: '📖',
     Clean: '🧹',
+    V: '▶️',
+    Q: '❓',
+    A: '📝',
+    F: '💬',
+    P: '✅',
+    E: '❌',
 };
 
-const HMMSequenceVisualizer: React.FC<{ sequence: HMMSequenceItem[] }> = ({ sequence }) => {
+export const STATE_COLORS = ['#fbbf24', '#60a5fa', '#a78bfa', '#34d399', '#f472b6', '#fb923c'];
+
+interface HMMSequenceVisualizerProps {
+    observations: Observation[];
+    states: HiddenState[];
+    trueStates?: HiddenState[];
+    decodedStates?: HiddenState[];
+    posteriors?: number[][]; // [t][state index], aligned with `states`
+}
+
+const StateBadge: React.FC<{ state: HiddenState, states: HiddenState[] }> = ({ state, states }) => (
+    stateToEmoji[state]
+        ? <span className="text-2xl">{stateToEmoji[state]}</span>
+        : <span className="text-xs font-bold px-1 rounded" style={{ color: STATE_COLORS[states.indexOf(state) % STATE_COLORS.length] }}>{state}</span>
+);
+
+const HMMSequenceVisualizer: React.FC<HMMSequenceVisualizerProps> = ({ observations, states, trueStates, decodedStates, posteriors }) => {
     return (
         <div className="flex flex-wrap justify-center gap-2 p-4">
-            {sequence.map((item, index) => (
-                <div
-                    key={index}
-                    className="flex flex-col items-center bg-slate-900 rounded-lg p-3 w-16 h-24 animate-fade-in"
-                    style={{ animationDelay: `${index * 50}ms` }}
-                    aria-label={`Day ${index + 1}: State is ${item.state}, Observation is ${item.observation}`}
-                >
-                    <div className="text-3xl" title={`Hidden State: ${item.state}`}>{stateToEmoji[item.state]}</div>
-                    <div className="text-3xl mt-2" title={`Observation: ${item.observation}`}>{observationToEmoji[item.observation]}</div>
-                </div>
-            ))}
+            {observations.map((observation, index) => {
+                const mismatch = trueStates && decodedStates && trueStates[index] !== decodedStates[index];
+                return (
+                    <div
+                        key={index}
+                        className={`flex flex-col items-center bg-slate-900 rounded-lg p-2 w-16 animate-fade-in border ${mismatch ? 'border-red-500' : 'border-transparent'}`}
+                        style={{ animationDelay: `${index * 30}ms` }}
+                        aria-label={`Step ${index + 1}: Observation is ${observation}${trueStates ? `, true state is ${trueStates[index]}` : ''}${decodedStates ? `, decoded state is ${decodedStates[index]}` : ''}`}
+                    >
+                        {trueStates && (
+                            <div className="h-8 flex items-center" title={`Hidden State: ${trueStates[index]}`}><StateBadge state={trueStates[index]} states={states} /></div>
+                        )}
+                        <div className="text-2xl h-9 flex items-center" title={`Observation: ${observation}`}>
+                            {observationToEmoji[observation] ?? <span className="text-sm font-mono text-slate-200">{observation}</span>}
+                        </div>
+                        {decodedStates && (
+                            <div className="h-8 flex items-center opacity-90" title={`Viterbi State: ${decodedStates[index]}`}><StateBadge state={decodedStates[index]} states={states} /></div>
+                        )}
+                        {posteriors && (
+                            <div className="flex w-full h-2 mt-1 rounded overflow-hidden" title={states.map((s, i) => `P(${s}) = ${posteriors[index][i].toFixed(2)}`).join('\n')}>
+                                {posteriors[index].map((p, i) => (
+                                    <div key={i} style={{ width: `${p * 100}%`, backgroundColor: STATE_COLORS[i % STATE_COLORS.length] }} />
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
             <style>{`
                 @keyframes fade-in {
                     from { opacity: 0; transform: scale(0.9); }
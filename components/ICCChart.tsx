@@ -1,13 +1,18 @@
 import React, { useRef, useEffect } from 'react';
 import * as d3 from 'd3';
 import { IRTParams } from '../types';
-import { calculateIrtProbability } from '../services/statisticsService';
+import { calculateIrtProbability, calculateItemInformation } from '../services/statisticsService';
+
+export type ICCView = 'icc' | 'information';
 
 interface ICCChartProps {
-    params: IRTParams;
+    params: IRTParams; // hand-set item from the sliders
+    items?: { name: string, params: IRTParams }[]; // estimated items
+    selectedItem?: string | null;
+    view?: ICCView;
 }
 
-const ICCChart: React.FC<ICCChartProps> = ({ params }) => {
+const ICCChart: React.FC<ICCChartProps> = ({ params, items = [], selectedItem = null, view = 'icc' }) => {
     const svgRef = useRef<SVGSVGElement | null>(null);
 
     useEffect(() => {
@@ -19,14 +24,22 @@ const ICCChart: React.FC<ICCChartProps> = ({ params }) => {
         const margin = { top: 20, right: 20, bottom: 50, left: 50 };
 
         svg.selectAll('*').remove();
-        svg.attr('width', width).attr('height', height);
+        svg.attr('viewBox', `0 0 ${width} ${height}`);
+
+        const abilities = d3.range(-4, 4.001, 0.05);
+        const evaluate = view === 'icc' ? calculateIrtProbability : calculateItemInformation;
+        const curves = items.map(item => ({ ...item, points: abilities.map(ability => ({ ability, value: evaluate(ability, item.params) })) }));
+        const testInformation = abilities.map((ability, i) => ({ ability, value: curves.reduce((sum, c) => sum + c.points[i].value, 0) }));
+        const explorer = abilities.map(ability => ({ ability, value: evaluate(ability, params) }));
 
         const x = d3.scaleLinear()
-            .domain([-3, 3])
+            .domain([-4, 4])
             .range([margin.left, width - margin.right]);
 
+        const yMax = view === 'icc' ? 1 : Math.max(d3.max(explorer, d => d.value) ?? 1, curves.length > 0 ? d3.max(testInformation, d => d.value) ?? 1 : 0);
         const y = d3.scaleLinear()
-            .domain([0, 1])
+            .domain([0, yMax])
+            .nice()
             .range([height - margin.bottom, margin.top]);
 
         // Background and Grid
@@ -39,7 +52,7 @@ const ICCChart: React.FC<ICCChartProps> = ({ params }) => {
             .attr('transform', `translate(0,${height - margin.bottom})`)
             .call(d3.axisBottom(x).ticks(10).tickSize(-height + margin.top + margin.bottom).tickFormat(() => ''))
             .selectAll('line').attr('stroke', 'rgba(100, 116, 139, 0.2)');
-            
+
         svg.append('g').attr('class', 'grid')
             .attr('transform', `translate(${margin.left},0)`)
             .call(d3.axisLeft(y).ticks(10).tickSize(-width + margin.left + margin.right).tickFormat(() => ''))
@@ -53,9 +66,9 @@ const ICCChart: React.FC<ICCChartProps> = ({ params }) => {
 
         svg.append('g')
             .attr('transform', `translate(${margin.left},0)`)
-            .call(d3.axisLeft(y).tickFormat(d3.format('.0%')))
+            .call(view === 'icc' ? d3.axisLeft(y).tickFormat(d3.format('.0%')) : d3.axisLeft(y))
             .attr('color', 'rgb(100 116 139)');
-            
+
         // Axis Labels
         svg.append('text')
             .attr('text-anchor', 'middle')
@@ -63,54 +76,80 @@ const ICCChart: React.FC<ICCChartProps> = ({ params }) => {
             .attr('y', height - 10)
             .style('fill', 'rgb(156 163 175)')
             .text('Student Ability (θ)');
-            
+
         svg.append('text')
             .attr('text-anchor', 'middle')
             .attr('transform', 'rotate(-90)')
             .attr('y', 15)
             .attr('x', -height / 2)
             .style('fill', 'rgb(156 163 175)')
-            .text('Probability of Correct Answer');
-
-        // Difficulty line
-        svg.append('line')
-            .attr('x1', x(params.difficulty))
-            .attr('x2', x(params.difficulty))
-            .attr('y1', y(0))
-            .attr('y2', y(0.5))
-            .attr('stroke', 'white')
-            .attr('stroke-width', 1.5)
-            .attr('stroke-dasharray', '4,4');
-        
-        svg.append('line')
-            .attr('x1', x(-3))
-            .attr('x2', x(params.difficulty))
-            .attr('y1', y(0.5))
-            .attr('y2', y(0.5))
-            .attr('stroke', 'white')
-            .attr('stroke-width', 1.5)
-            .attr('stroke-dasharray', '4,4');
-
-        // ICC Curve
-        const curveData = d3.range(-3, 3, 0.05).map(ability => ({
-            ability,
-            prob: calculateIrtProbability(ability, params)
-        }));
-
-        const lineGenerator = d3.line<{ ability: number, prob: number }>()
+            .text(view === 'icc' ? 'Probability of Correct Answer' : 'Information');
+
+        const lineGenerator = d3.line<{ ability: number, value: number }>()
             .x(d => x(d.ability))
-            .y(d => y(d.prob));
+            .y(d => y(d.value));
 
+        // Estimated items, with the selected one drawn last and on top
+        const ordered = [...curves].sort((a, b) => Number(a.name === selectedItem) - Number(b.name === selectedItem));
+        svg.append('g').selectAll('path').data(ordered).join('path')
+            .attr('fill', 'none')
+            .attr('stroke', d => (d.name === selectedItem ? 'rgb(250 204 21)' : 'rgb(148 163 184)'))
+            .attr('stroke-width', d => (d.name === selectedItem ? 3 : 1.2))
+            .attr('opacity', d => (selectedItem === null || d.name === selectedItem ? 0.9 : 0.35))
+            .attr('d', d => lineGenerator(d.points));
+
+        if (view === 'information' && curves.length > 0) {
+            svg.append('path')
+                .datum(testInformation)
+                .attr('fill', 'none')
+                .attr('stroke', 'rgb(96 165 250)')
+                .attr('stroke-width', 3)
+                .attr('d', lineGenerator);
+            const peak = testInformation.reduce((best, d) => (d.value > best.value ? d : best), testInformation[0]);
+            svg.append('text')
+                .attr('x', x(peak.ability))
+                .attr('y', y(peak.value) - 8)
+                .attr('text-anchor', 'middle')
+                .style('fill', 'rgb(96 165 250)')
+                .style('font-size', '12px')
+                .text(`Test information (SE ≈ ${(1 / Math.sqrt(peak.value)).toFixed(2)} at θ = ${peak.ability.toFixed(1)})`);
+        }
+
+        if (view === 'icc') {
+            // Difficulty guide for the hand-set item: the ability where P is halfway between c and 1
+            const guessing = params.guessing ?? 0;
+            const midpoint = guessing + (1 - guessing) / 2;
+            svg.append('line')
+                .attr('x1', x(params.difficulty))
+                .attr('x2', x(params.difficulty))
+                .attr('y1', y(0))
+                .attr('y2', y(midpoint))
+                .attr('stroke', 'white')
+                .attr('stroke-width', 1.5)
+                .attr('stroke-dasharray', '4,4');
+
+            svg.append('line')
+                .attr('x1', x(-4))
+                .attr('x2', x(params.difficulty))
+                .attr('y1', y(midpoint))
+                .attr('y2', y(midpoint))
+                .attr('stroke', 'white')
+                .attr('stroke-width', 1.5)
+                .attr('stroke-dasharray', '4,4');
+        }
+
+        // Hand-set curve
         svg.append('path')
-            .datum(curveData)
+            .datum(explorer)
             .attr('fill', 'none')
             .attr('stroke', 'rgb(163 230 53)')
             .attr('stroke-width', 3)
+            .attr('stroke-dasharray', items.length > 0 ? '8,4' : null)
             .attr('d', lineGenerator);
 
-    }, [params]);
+    }, [params, items, selectedItem, view]);
 
     return <svg ref={svgRef}></svg>;
 };
 
-export default ICCChart;
\ No newline at end of file
+export default ICCChart;
@@ -1,7 +1,9 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { IRTParams } from '../types';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { IRTParams, IRTModelType, IRTEstimationResult } from '../types';
+import { estimateIrtModel, generateIrtResponses, parseNumericTable } from '../services/statisticsService';
+import { chiSquareCDF } from '../services/distributionService';
 import { getChatResponse } from '../services/geminiService';
-import ICCChart from './ICCChart';
+import ICCChart, { ICCView } from './ICCChart';
 import UnifiedGenAIChat, { Message } from './UnifiedGenAIChat';
 
 interface IRTAnalysisProps {
@@ -33,35 +35,124 @@ const Slider: React.FC<{
     </div>
 );
 
+const MODEL_LABELS: Record<IRTModelType, string> = { rasch: 'Rasch (1PL)', '2pl': '2PL', '3pl': '3PL' };
+const MODELS: IRTModelType[] = ['rasch', '2pl', '3pl'];
+const LOW_DISCRIMINATION = 0.65;
+
+const formatPValue = (p: number) => (p < 0.001 ? '<.001' : p.toFixed(3));
+
+interface ResponseData {
+    itemNames: string[];
+    responses: number[][];
+}
+
+const toCsv = (data: ResponseData) => [data.itemNames.join(','), ...data.responses.map(row => row.join(','))].join('\n');
+
 const IRTAnalysis: React.FC<IRTAnalysisProps> = ({ onBack }) => {
     const [irtParams, setIrtParams] = useState<IRTParams>({
         discrimination: 1.0,
         difficulty: 0.0,
+        guessing: 0.0,
     });
+    const [data, setData] = useState<ResponseData>(() => generateIrtResponses(500));
+    const [fits, setFits] = useState<Record<IRTModelType, IRTEstimationResult> | null>(null);
+    const [model, setModel] = useState<IRTModelType>('2pl');
+    const [selectedItem, setSelectedItem] = useState<string | null>(null);
+    const [view, setView] = useState<ICCView>('icc');
+    const [dataText, setDataText] = useState('');
+    const [uploadMessage, setUploadMessage] = useState<string | null>(null);
 
     // Chat state
     const [chatHistory, setChatHistory] = useState<Message[]>([
-        { text: "Hello! I'm Dr. Gem. I can explain how item difficulty and discrimination affect student performance. Try moving the sliders to see the curve change!", role: 'model' }
+        { text: "Hello! I'm Dr. Gem. I can explain how item difficulty and discrimination affect student performance, and which of your quiz items discriminate well. Try moving the sliders or uploading a quiz export!", role: 'model' }
     ]);
     const [isChatLoading, setIsChatLoading] = useState(false);
 
+    const fitAll = useCallback((next: ResponseData) => {
+        setFits({
+            rasch: estimateIrtModel(next.responses, next.itemNames, 'rasch'),
+            '2pl': estimateIrtModel(next.responses, next.itemNames, '2pl'),
+            '3pl': estimateIrtModel(next.responses, next.itemNames, '3pl')
+        });
+        setSelectedItem(null);
+    }, []);
+
+    useEffect(() => {
+        fitAll(data);
+    }, []);
+
+    const loadData = (next: ResponseData) => {
+        setData(next);
+        fitAll(next);
+    };
+
+    const handleLoadText = () => {
+        const table = parseNumericTable(dataText);
+        // Keep only 0/1 columns so an exported student ID or total column is ignored
+        const itemNames = table.columns.filter(col => table.rows.every(row => row[col] === 0 || row[col] === 1));
+        const ignored = table.columns.filter(col => !itemNames.includes(col));
+        if (itemNames.length < 3 || table.rows.length < 20) {
+            setUploadMessage('Need at least 3 items scored 0/1 and 20 students (one row per student, header row with item names).');
+            return;
+        }
+        const constant = itemNames.filter(col => new Set(table.rows.map(row => row[col])).size < 2);
+        if (constant.length > 0) {
+            setUploadMessage(`Every student got the same score on ${constant.join(', ')}; remove those items before estimating.`);
+            return;
+        }
+        loadData({ itemNames, responses: table.rows.map(row => itemNames.map(col => row[col])) });
+        setUploadMessage(`Loaded ${table.rows.length} students × ${itemNames.length} items${ignored.length > 0 ? `; ignored ${ignored.join(', ')}` : ''}${table.skippedRows > 0 ? `; skipped ${table.skippedRows} incomplete rows` : ''}.`);
+    };
+
+    const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => setDataText(String(reader.result ?? ''));
+        reader.readAsText(file);
+        e.target.value = '';
+    };
+
     const handleParamChange = (param: keyof IRTParams, value: number) => {
         setIrtParams(prev => ({ ...prev, [param]: value }));
     };
 
+    const result = fits?.[model] ?? null;
+    const chartItems = useMemo(() => result?.items.map(item => ({ name: item.item, params: item.params })) ?? [], [result]);
+
+    // Likelihood-ratio tests for nested models (the 3PL prior on c makes the last one approximate)
+    const lrTests = useMemo(() => {
+        if (!fits) return [];
+        const J = data.itemNames.length;
+        const test = (label: string, simple: IRTEstimationResult, complex: IRTEstimationResult, df: number) => {
+            const chiSquare = Math.max(0, 2 * (complex.logLikelihood - simple.logLikelihood));
+            return { label, chiSquare, df, p: 1 - chiSquareCDF(chiSquare, df) };
+        };
+        return [test('Rasch vs 2PL', fits.rasch, fits['2pl'], J - 1), test('2PL vs 3PL', fits['2pl'], fits['3pl'], J)];
+    }, [fits, data]);
+
     const handleSendMessage = useCallback(async (msg: string) => {
         setIsChatLoading(true);
         setChatHistory(prev => [...prev, { text: msg, role: 'user' }]);
 
+        const itemSummary = result?.items.map(item =>
+            `${item.item}: p=${item.proportionCorrect.toFixed(2)}, a=${item.params.discrimination.toFixed(2)}, b=${item.params.difficulty.toFixed(2)}${model === '3pl' ? `, c=${(item.params.guessing ?? 0).toFixed(2)}` : ''}, infit=${item.infit.toFixed(2)}, S-X2 p=${formatPValue(item.fitPValue)}`).join('\n') ?? 'No model estimated.';
         const context = `
             We are analyzing Item Response Theory (IRT).
-            Item Parameters:
+            Hand-set Item Parameters:
             Discrimination (a) = ${irtParams.discrimination.toFixed(2)}
             Difficulty (b) = ${irtParams.difficulty.toFixed(2)}
-            
+            Guessing (c) = ${(irtParams.guessing ?? 0).toFixed(2)}
+
+            Estimated ${MODEL_LABELS[model]} model by marginal maximum likelihood on ${data.responses.length} students × ${data.itemNames.length} items:
+            ${itemSummary}
+            Marginal reliability of EAP scores: ${result ? result.reliability.toFixed(2) : 'n/a'}
+            Model comparison (AIC): ${fits ? MODELS.map(m => `${MODEL_LABELS[m]}=${fits[m].aic.toFixed(1)}`).join(', ') : 'n/a'}
+            ${selectedItem ? `Selected item: ${selectedItem}` : ''}
+
             User Question: ${msg}
-            
-            Explain how these parameters shape the Item Characteristic Curve (ICC) and what that means for testing students.
+
+            Explain how these parameters shape the Item Characteristic Curve (ICC), which items discriminate well or misfit, and what that means for testing students.
         `;
 
         try {
@@ -72,7 +163,10 @@ const IRTAnalysis: React.FC<IRTAnalysisProps> = ({ onBack }) => {
         } finally {
             setIsChatLoading(false);
         }
-    }, [irtParams]);
+    }, [irtParams, result, model, data, fits, selectedItem]);
+
+    const tabClass = (active: boolean) =>
+        `px-3 py-1 rounded text-sm ${active ? 'bg-lime-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`;
 
     return (
         <div className="w-full max-w-6xl mx-auto">
@@ -80,17 +174,147 @@ const IRTAnalysis: React.FC<IRTAnalysisProps> = ({ onBack }) => {
                 <button onClick={onBack} className="text-lime-400 hover:text-lime-300 mb-4 inline-block">&larr; Back to Portal</button>
                 <div className="text-center">
                     <h1 className="text-4xl font-bold text-lime-400">Item Response Theory (IRT)</h1>
-                    <p className="text-slate-400 mt-2">Visualize how item characteristics influence the probability of a correct answer.</p>
+                    <p className="text-slate-400 mt-2">Estimate item and ability parameters from a response matrix, and see which items discriminate well.</p>
                 </div>
             </header>
 
             <main className="grid grid-cols-1 lg:grid-cols-5 gap-8">
-                <div className="lg:col-span-3 bg-slate-800 rounded-lg shadow-2xl flex items-center justify-center p-4">
-                    <ICCChart params={irtParams} />
+                <div className="lg:col-span-3 space-y-6">
+                    <div className="bg-slate-800 rounded-lg shadow-2xl flex flex-col items-center p-4">
+                        <div className="flex flex-wrap justify-center gap-2 mb-3">
+                            {MODELS.map(m => <button key={m} className={tabClass(model === m)} onClick={() => setModel(m)}>{MODEL_LABELS[m]}</button>)}
+                            <span className="w-4" />
+                            <button className={tabClass(view === 'icc')} onClick={() => setView('icc')}>ICC</button>
+                            <button className={tabClass(view === 'information')} onClick={() => setView('information')}>Information</button>
+                        </div>
+                        <ICCChart params={irtParams} items={chartItems} selectedItem={selectedItem} view={view} />
+                        <p className="text-xs text-slate-500 mt-2">Grey: estimated items (click a row to highlight) · Dashed green: hand-set item from the sliders</p>
+                    </div>
+
+                    {result && (
+                        <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-6">
+                            <div>
+                                <h3 className="text-lg font-semibold text-lime-400 mb-1">{MODEL_LABELS[model]} Item Estimates</h3>
+                                <p className="text-xs text-slate-400 mb-3">
+                                    Marginal ML (EM, {result.iterations} iterations{result.converged ? '' : ', not converged'}). Amber: a &lt; {LOW_DISCRIMINATION}; red: S-X² p &lt; .01.
+                                </p>
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-xs font-mono text-right">
+                                        <thead>
+                                            <tr className="text-slate-400">
+                                                <th className="text-left font-normal">Item</th>
+                                                <th className="font-normal">p</th>
+                                                <th className="font-normal">a (SE)</th>
+                                                <th className="font-normal">b (SE)</th>
+                                                {model === '3pl' && <th className="font-normal">c (SE)</th>}
+                                                <th className="font-normal">Infit</th>
+                                                <th className="font-normal">Outfit</th>
+                                                <th className="font-normal">S-X² (df)</th>
+                                                <th className="font-normal">p</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {result.items.map(item => {
+                                                const weak = item.params.discrimination < LOW_DISCRIMINATION;
+                                                const misfit = item.fitPValue < 0.01;
+                                                return (
+                                                    <tr
+                                                        key={item.item}
+                                                        onClick={() => setSelectedItem(s => (s === item.item ? null : item.item))}
+                                                        className={`cursor-pointer border-t border-slate-700 ${item.item === selectedItem ? 'bg-slate-700' : 'hover:bg-slate-700/50'} ${misfit ? 'text-red-400' : weak ? 'text-amber-400' : 'text-slate-200'}`}
+                                                    >
+                                                        <td className="text-left py-1">{item.item}</td>
+                                                        <td>{item.proportionCorrect.toFixed(2)}</td>
+                                                        <td>{item.params.discrimination.toFixed(2)}{item.se.discrimination !== null ? ` (${item.se.discrimination.toFixed(2)})` : ''}</td>
+                                                        <td>{item.params.difficulty.toFixed(2)}{item.se.difficulty !== null ? ` (${item.se.difficulty.toFixed(2)})` : ''}</td>
+                                                        {model === '3pl' && <td>{(item.params.guessing ?? 0).toFixed(2)}{item.se.guessing !== null ? ` (${item.se.guessing.toFixed(2)})` : ''}</td>}
+                                                        <td>{item.infit.toFixed(2)}</td>
+                                                        <td>{item.outfit.toFixed(2)}</td>
+                                                        <td>{item.fitChiSquare.toFixed(1)} ({item.fitDf})</td>
+                                                        <td>{formatPValue(item.fitPValue)}</td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+                                {model === 'rasch' && <p className="text-xs text-slate-500 mt-2">The Rasch model shares one discrimination across items, so it has no per-item SE.</p>}
+                            </div>
+
+                            {fits && (
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                    <div>
+                                        <h4 className="text-sm font-semibold text-slate-300 mb-1">Model Comparison</h4>
+                                        <table className="w-full text-xs font-mono text-right">
+                                            <thead>
+                                                <tr className="text-slate-400">
+                                                    <th className="text-left font-normal">Model</th>
+                                                    <th className="font-normal">Log-lik.</th>
+                                                    <th className="font-normal">k</th>
+                                                    <th className="font-normal">AIC</th>
+                                                    <th className="font-normal">BIC</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {MODELS.map(m => (
+                                                    <tr key={m} className={m === model ? 'text-lime-300' : 'text-slate-200'}>
+                                                        <td className="text-left">{MODEL_LABELS[m]}</td>
+                                                        <td>{fits[m].logLikelihood.toFixed(1)}</td>
+                                                        <td>{fits[m].numParameters}</td>
+                                                        <td>{fits[m].aic.toFixed(1)}</td>
+                                                        <td>{fits[m].bic.toFixed(1)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                        <div className="mt-2 space-y-1 text-xs font-mono text-slate-300">
+                                            {lrTests.map(t => (
+                                                <p key={t.label}>{t.label}: χ²({t.df}) = {t.chiSquare.toFixed(1)}, p = {formatPValue(t.p)}</p>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <h4 className="text-sm font-semibold text-slate-300 mb-1">Ability Estimates (EAP)</h4>
+                                        <div className="text-xs font-mono text-slate-300 space-y-1">
+                                            <p>Students: {result.persons.length}</p>
+                                            <p>θ range: {Math.min(...result.persons.map(p => p.theta)).toFixed(2)} to {Math.max(...result.persons.map(p => p.theta)).toFixed(2)}</p>
+                                            <p>Mean posterior SD: {(result.persons.reduce((sum, p) => sum + p.se, 0) / result.persons.length).toFixed(2)}</p>
+                                            <p>Marginal reliability: <span className="text-lime-300">{result.reliability.toFixed(2)}</span></p>
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    )}
                 </div>
                 <div className="lg:col-span-2 flex flex-col space-y-8">
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-4">
+                        <h3 className="text-lg font-semibold text-lime-400 border-b border-lime-400/20 pb-2">Response Matrix</h3>
+                        <textarea
+                            value={dataText}
+                            onChange={e => setDataText(e.target.value)}
+                            rows={6}
+                            className="w-full bg-slate-900 text-slate-200 font-mono text-xs rounded p-2"
+                            placeholder={'Q1,Q2,Q3,...\n1,0,1,...'}
+                        />
+                        <div className="flex gap-2">
+                            <button onClick={handleLoadText} className="flex-1 bg-lime-600 hover:bg-lime-700 text-white font-bold py-2 px-4 rounded-lg">Load &amp; Estimate</button>
+                            <button onClick={() => setDataText(toCsv(data))} className="bg-slate-700 hover:bg-slate-600 text-white py-2 px-4 rounded-lg">Sample</button>
+                            <label className="bg-slate-700 hover:bg-slate-600 text-white py-2 px-4 rounded-lg cursor-pointer">
+                                Upload
+                                <input type="file" accept=".csv,.tsv,.txt" onChange={handleFileUpload} className="hidden" />
+                            </label>
+                        </div>
+                        <button onClick={() => { loadData(generateIrtResponses(500)); setUploadMessage(null); }} className="w-full bg-slate-700 hover:bg-slate-600 text-white py-2 px-4 rounded-lg">
+                            Simulate New Class
+                        </button>
+                        <p className="text-xs text-slate-400">
+                            {uploadMessage ?? `${data.responses.length} students × ${data.itemNames.length} items, one 0/1 column per item.`}
+                        </p>
+                    </div>
+
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-6">
-                        <h3 className="text-lg font-semibold text-lime-400 mb-3 border-b border-lime-400/20 pb-2">Item Parameters</h3>
+                        <h3 className="text-lg font-semibold text-lime-400 mb-3 border-b border-lime-400/20 pb-2">Explore an Item</h3>
                         <Slider
                             label="Discrimination (a)"
                             value={irtParams.discrimination}
@@ -107,6 +331,14 @@ const IRTAnalysis: React.FC<IRTAnalysisProps> = ({ onBack }) => {
                             step={0.1}
                             onChange={(e) => handleParamChange('difficulty', +e.target.value)}
                         />
+                        <Slider
+                            label="Guessing (c)"
+                            value={irtParams.guessing ?? 0}
+                            min={0}
+                            max={0.5}
+                            step={0.01}
+                            onChange={(e) => handleParamChange('guessing', +e.target.value)}
+                        />
                     </div>
 
                     <div className="h-[500px]">
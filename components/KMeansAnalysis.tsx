@@ -1,55 +1,116 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { KMeansPoint, Centroid } from '../types';
-import { assignToClusters, updateCentroids, calculateKMeansInertia } from '../services/statisticsService';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { KMeansPoint, Centroid, NumericTable, ClusteringMethod, KMeansInitialization, ClusteringResult, ClusterValidityResult } from '../types';
+import {
+    assignToClusters, updateCentroids, calculateKMeansInertia, kMeansPlusPlusSeeds, runClustering, calculateSilhouette,
+    evaluateClusterCounts, generateClusterData, parseNumericTable
+} from '../services/statisticsService';
 import { getChatResponse } from '../services/geminiService';
 import { logEvent } from '../services/loggingService';
 import KMeansPlot from './KMeansPlot';
+import ClusterValidityChart from './ClusterValidityChart';
 import UnifiedGenAIChat, { Message } from './UnifiedGenAIChat';
 
 interface KMeansAnalysisProps {
     onBack: () => void;
 }
 
-const generateInitialData = (count: number): KMeansPoint[] => {
-    const data: KMeansPoint[] = [];
-    const centers = [[30, 30], [70, 70], [30, 70]];
-    for (let i = 0; i < count; i++) {
-        const center = centers[i % centers.length];
-        const x = center[0] + (Math.random() - 0.5) * 30;
-        const y = center[1] + (Math.random() - 0.5) * 30;
-        data.push({ id: i, x, y, clusterId: null });
-    }
-    return data;
+const SAMPLE_SIZE = 150;
+const MAX_K = 8;
+
+// z-scores per column, so variables on large scales do not dominate the distances
+const standardizeColumns = (matrix: number[][]): number[][] => {
+    if (matrix.length === 0) return matrix;
+    const dims = matrix[0].length;
+    const means = Array.from({ length: dims }, (_, d) => matrix.reduce((sum, r) => sum + r[d], 0) / matrix.length);
+    const sds = Array.from({ length: dims }, (_, d) => Math.sqrt(matrix.reduce((sum, r) => sum + (r[d] - means[d]) ** 2, 0) / Math.max(matrix.length - 1, 1)) || 1);
+    return matrix.map(r => r.map((v, d) => (v - means[d]) / sds[d]));
 };
 
 const KMeansAnalysis: React.FC<KMeansAnalysisProps> = ({ onBack }) => {
     const [k, setK] = useState(3);
-    const [points, setPoints] = useState<KMeansPoint[]>(() => generateInitialData(100));
+    const [table, setTable] = useState<NumericTable>(() => generateClusterData(SAMPLE_SIZE));
+    const [selectedColumns, setSelectedColumns] = useState<string[]>(() => table.columns);
+    const [xColumn, setXColumn] = useState(table.columns[0]);
+    const [yColumn, setYColumn] = useState(table.columns[1]);
+    const [standardize, setStandardize] = useState(true);
+    const [method, setMethod] = useState<ClusteringMethod>('kmeans');
+    const [initialization, setInitialization] = useState<KMeansInitialization>('kmeans++');
+    const [restarts, setRestarts] = useState(10);
+    const [points, setPoints] = useState<KMeansPoint[]>([]);
     const [centroids, setCentroids] = useState<Centroid[]>([]);
     const [isAnimating, setIsAnimating] = useState(false);
+    const [fullRun, setFullRun] = useState<ClusteringResult | null>(null);
+    const [validity, setValidity] = useState<ClusterValidityResult | null>(null);
+    const [isEvaluating, setIsEvaluating] = useState(false);
+
+    // Uploaded data
+    const [uploadText, setUploadText] = useState('');
+    const [uploadMessage, setUploadMessage] = useState<string | null>(null);
 
     // Chat state
     const [chatHistory, setChatHistory] = useState<Message[]>([
-        { text: "Hello! I'm Dr. Gem. Set your initial centroids by clicking on the plot, then let the algorithm assist you in clustering the data!", role: 'model' }
+        { text: "Hello! I'm Dr. Gem. Place initial centroids by clicking on the plot (or let k-means++ seed them), step through the algorithm, then compare restarts and validity curves to choose K!", role: 'model' }
     ]);
     const [isChatLoading, setIsChatLoading] = useState(false);
 
     const animationRef = useRef<number | null>(null);
 
+    const matrix = useMemo(() => {
+        const raw = table.rows.map(r => selectedColumns.map(c => r[c]));
+        return standardize ? standardizeColumns(raw) : raw;
+    }, [table, selectedColumns, standardize]);
+
+    const basePoints = useMemo<KMeansPoint[]>(
+        () => table.rows.map((r, id) => ({ id, x: r[xColumn], y: r[yColumn], clusterId: null })),
+        [table, xColumn, yColumn]
+    );
+
     const resetSimulation = useCallback(() => {
         setIsAnimating(false);
         if (animationRef.current !== null) cancelAnimationFrame(animationRef.current);
-        setPoints(p => p.map(point => ({ ...point, clusterId: null })));
+        setPoints(basePoints);
         setCentroids([]);
+        setFullRun(null);
         logEvent('button_click', 'KMeansAnalysis', { action: 'reset_centroids' });
-    }, []);
+    }, [basePoints]);
 
     const regenerateData = () => {
-        setPoints(generateInitialData(100));
-        resetSimulation();
+        const next = generateClusterData(SAMPLE_SIZE);
+        setTable(next);
+        setSelectedColumns(next.columns);
+        setXColumn(next.columns[0]);
+        setYColumn(next.columns[1]);
+        setUploadMessage(null);
         logEvent('button_click', 'KMeansAnalysis', { action: 'regenerate_data' });
     };
 
+    const handleLoadData = () => {
+        const parsed = parseNumericTable(uploadText);
+        if (parsed.columns.length < 2 || parsed.rows.length < MAX_K + 2) {
+            setUploadMessage(`Paste a header row and at least ${MAX_K + 2} rows with two or more numeric columns.`);
+            return;
+        }
+        setTable(parsed);
+        setSelectedColumns(parsed.columns);
+        setXColumn(parsed.columns[0]);
+        setYColumn(parsed.columns[1]);
+        setUploadMessage(`Loaded ${parsed.rows.length} rows on ${parsed.columns.length} variables${parsed.skippedRows > 0 ? ` (${parsed.skippedRows} incomplete rows dropped)` : ''}.`);
+        logEvent('button_click', 'KMeansAnalysis', { action: 'load_data', rows: parsed.rows.length, columns: parsed.columns.length });
+    };
+
+    const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => setUploadText(String(reader.result ?? ''));
+        reader.readAsText(file);
+    };
+
+    const toggleColumn = (column: string) => {
+        setSelectedColumns(prev => (prev.includes(column) ? (prev.length > 1 ? prev.filter(c => c !== column) : prev) : [...prev, column]));
+    };
+
+    // Step-through on the two plotted variables
     const runStep = useCallback(() => {
         logEvent('button_click', 'KMeansAnalysis', { action: 'step' });
         const assignedPoints = assignToClusters(points, centroids);
@@ -66,7 +127,7 @@ const KMeansAnalysis: React.FC<KMeansAnalysisProps> = ({ onBack }) => {
         let converged = true;
         if (oldCentroids.length === newCentroids.length) {
             for (let i = 0; i < newCentroids.length; i++) {
-                if (Math.abs(newCentroids[i].x - oldCentroids[i].x) > 0.1 || Math.abs(newCentroids[i].y - oldCentroids[i].y) > 0.1) {
+                if (Math.abs(newCentroids[i].x - oldCentroids[i].x) > 1e-6 || Math.abs(newCentroids[i].y - oldCentroids[i].y) > 1e-6) {
                     converged = false;
                     break;
                 }
@@ -95,9 +156,61 @@ const KMeansAnalysis: React.FC<KMeansAnalysisProps> = ({ onBack }) => {
     const handleSetCentroid = (newCentroids: Centroid[]) => {
         const newCentroid = newCentroids[newCentroids.length - 1];
         logEvent('centroid_set', 'KMeansPlot', { count: newCentroids.length, x: newCentroid.x, y: newCentroid.y });
+        setFullRun(null);
         setCentroids(newCentroids);
     };
 
+    // Seeds for the step-through, chosen on the plotted variables only
+    const handleSeed = (seeding: KMeansInitialization) => {
+        logEvent('button_click', 'KMeansAnalysis', { action: 'seed', seeding });
+        const plotted = basePoints.map(p => [p.x, p.y]);
+        const chosen = new Set<number>();
+        if (seeding === 'random') {
+            while (chosen.size < Math.min(k, basePoints.length)) chosen.add(Math.floor(Math.random() * basePoints.length));
+        }
+        const indices = seeding === 'kmeans++' ? kMeansPlusPlusSeeds(plotted, k) : [...chosen];
+        setIsAnimating(false);
+        setFullRun(null);
+        setPoints(basePoints);
+        setCentroids(indices.map((index, id) => ({ id, x: basePoints[index].x, y: basePoints[index].y })));
+    };
+
+    // Full run on every selected variable, best of several restarts
+    const handleFullRun = () => {
+        logEvent('button_click', 'KMeansAnalysis', { action: 'full_run', method, initialization, restarts });
+        setIsAnimating(false);
+        const result = runClustering(matrix, k, { method, initialization, restarts });
+        const clustered = basePoints.map((p, i) => ({ ...p, clusterId: result.assignments[i] }));
+        // Shown on the plotted variables: cluster means for k-means, the medoid rows for k-medoids
+        const shown = result.medoidIndices
+            ? result.medoidIndices.map((index, id) => ({ id, x: basePoints[index].x, y: basePoints[index].y }))
+            : Array.from({ length: result.k }, (_, id) => {
+                const members = clustered.filter(p => p.clusterId === id);
+                return {
+                    id,
+                    x: members.reduce((sum, p) => sum + p.x, 0) / Math.max(members.length, 1),
+                    y: members.reduce((sum, p) => sum + p.y, 0) / Math.max(members.length, 1)
+                };
+            });
+        setPoints(clustered);
+        setCentroids(shown);
+        setFullRun(result);
+    };
+
+    const fullRunSilhouette = useMemo(
+        () => (fullRun && fullRun.k > 1 ? calculateSilhouette(matrix, fullRun.assignments).average : null),
+        [fullRun, matrix]
+    );
+    const restartSummary = useMemo(() => {
+        if (!fullRun) return null;
+        const best = Math.min(...fullRun.restartObjectives);
+        return {
+            best,
+            worst: Math.max(...fullRun.restartObjectives),
+            hits: fullRun.restartObjectives.filter(o => o <= best * (1 + 1e-6)).length
+        };
+    }, [fullRun]);
+
     useEffect(() => {
         if (isAnimating) {
             animationRef.current = requestAnimationFrame(animate);
@@ -111,21 +224,40 @@ const KMeansAnalysis: React.FC<KMeansAnalysisProps> = ({ onBack }) => {
         resetSimulation();
     }, [k, resetSimulation]);
 
+    useEffect(() => {
+        setFullRun(null);
+    }, [matrix, method, initialization, restarts]);
+
+    // Validity curves can take a few seconds for k-medoids, so they are computed after the next paint
+    useEffect(() => {
+        setIsEvaluating(true);
+        const timer = setTimeout(() => {
+            setValidity(evaluateClusterCounts(matrix, MAX_K, { method, initialization, restarts: Math.min(restarts, 5) }));
+            setIsEvaluating(false);
+        }, 50);
+        return () => clearTimeout(timer);
+    }, [matrix, method, initialization, restarts]);
+
     const handleSendMessage = useCallback(async (msg: string) => {
         setIsChatLoading(true);
         setChatHistory(prev => [...prev, { text: msg, role: 'user' }]);
 
         const inertia = calculateKMeansInertia(points, centroids);
         const context = `
-            We are analyzing K-Means Clustering.
+            We are analyzing ${method === 'kmeans' ? 'K-Means' : 'K-Medoids (PAM)'} Clustering.
             Number of Clusters (K): ${k}
-            Current Inertia (sum of squared distances): ${inertia.toFixed(2)}
+            Variables clustered: ${selectedColumns.join(', ')}${standardize ? ' (standardized)' : ' (raw scale)'}; plotted: ${xColumn} vs ${yColumn}
+            Seeding: ${initialization === 'kmeans++' ? 'k-means++' : 'random'}, ${restarts} restarts
+            Step-through inertia on the plotted variables: ${inertia.toFixed(2)}
             Simulation Status: ${isAnimating ? 'Running' : 'Stopped'}
             Centroids defined: ${centroids.length}
-            
+            ${fullRun && restartSummary ? `Full run: best objective ${restartSummary.best.toFixed(2)} reached by ${restartSummary.hits} of ${fullRun.restartObjectives.length} restarts (worst ${restartSummary.worst.toFixed(2)}); cluster sizes ${fullRun.clusterSizes.join(', ')}; average silhouette ${fullRunSilhouette?.toFixed(3) ?? 'n/a'}${fullRun.sampleSize !== null ? `; CLARA samples of ${fullRun.sampleSize} rows` : ''}` : 'Full run: not run yet'}
+            ${validity ? `Validity by K: ${validity.rows.map(r => `K=${r.k}: inertia=${r.inertia.toFixed(1)}, silhouette=${r.silhouette?.toFixed(3) ?? 'n/a'}, gap=${r.gap.toFixed(3)} (s=${r.gapSE.toFixed(3)})`).join('; ')}
+            Suggested K: elbow ${validity.elbowK}, silhouette ${validity.silhouetteK}, gap statistic ${validity.gapK}` : ''}
+
             User Question: ${msg}
-            
-            Explain the clustering process and what the inertia metric tells us.
+
+            Explain the clustering process, how seeding and restarts affect the result, and how the elbow, silhouette and gap statistic help choose K.
         `;
 
         try {
@@ -136,7 +268,9 @@ const KMeansAnalysis: React.FC<KMeansAnalysisProps> = ({ onBack }) => {
         } finally {
             setIsChatLoading(false);
         }
-    }, [k, points, centroids, isAnimating]);
+    }, [k, points, centroids, isAnimating, method, initialization, restarts, selectedColumns, standardize, xColumn, yColumn, fullRun, restartSummary, fullRunSilhouette, validity]);
+
+    const handleSelectK = useCallback((newK: number) => handleKChange(newK), []);
 
     return (
         <div className="w-full max-w-6xl mx-auto">
@@ -144,19 +278,47 @@ const KMeansAnalysis: React.FC<KMeansAnalysisProps> = ({ onBack }) => {
                 <button onClick={onBack} className="text-fuchsia-400 hover:text-fuchsia-300 mb-4 inline-block">&larr; Back to Portal</button>
                 <div className="text-center">
                     <h1 className="text-4xl font-bold text-fuchsia-400">K-Means Clustering</h1>
-                    <p className="text-slate-400 mt-2">Watch how data points are grouped into clusters.</p>
+                    <p className="text-slate-400 mt-2">Watch how data points are grouped into clusters, and how seeding and the choice of K change the result.</p>
                 </div>
             </header>
 
             <main className="grid grid-cols-1 lg:grid-cols-5 gap-8">
-                <div className="lg:col-span-3 bg-slate-800 rounded-lg shadow-2xl p-4">
-                    <KMeansPlot
-                        points={points}
-                        centroids={centroids}
-                        k={k}
-                        onCentroidsChange={handleSetCentroid}
-                        isSettingInitial={centroids.length < k}
-                    />
+                <div className="lg:col-span-3 space-y-8">
+                    <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
+                        <KMeansPlot
+                            points={points}
+                            centroids={centroids}
+                            k={k}
+                            onCentroidsChange={handleSetCentroid}
+                            isSettingInitial={centroids.length < k && fullRun === null}
+                            xLabel={xColumn}
+                            yLabel={yColumn}
+                        />
+                        {fullRun && restartSummary && (
+                            <div className="mt-3 text-sm text-slate-300 space-y-1">
+                                <p>
+                                    Best {method === 'kmeans' ? 'within-cluster sum of squares' : 'sum of distances to medoids'}:{' '}
+                                    <span className="font-mono text-fuchsia-300">{restartSummary.best.toFixed(2)}</span>, reached by {restartSummary.hits} of {fullRun.restartObjectives.length} restarts
+                                    {restartSummary.worst > restartSummary.best * (1 + 1e-6) && <> (worst restart: <span className="font-mono">{restartSummary.worst.toFixed(2)}</span>)</>}.
+                                </p>
+                                <p className="text-slate-400">
+                                    Cluster sizes {fullRun.clusterSizes.join(' / ')}; average silhouette {fullRunSilhouette === null ? '—' : fullRunSilhouette.toFixed(3)};
+                                    {' '}{fullRun.iterations} iterations{fullRun.converged ? '' : ' (stopped before converging)'}. Clustered on {selectedColumns.length} variable{selectedColumns.length > 1 ? 's' : ''}; the plot shows two of them.
+                                    {fullRun.sampleSize !== null && ` With ${matrix.length} rows, each restart ran PAM on a random sample of ${fullRun.sampleSize} rows (CLARA) and then assigned every row to its nearest medoid.`}
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                    <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
+                        <h3 className="text-lg font-semibold text-center text-slate-300 mb-2">Choosing K</h3>
+                        {validity && <ClusterValidityChart validity={validity} selectedK={k} onSelectK={handleSelectK} />}
+                        <p className="text-sm text-slate-400 mt-2">
+                            {isEvaluating
+                                ? 'Computing validity curves...'
+                                : validity && <>Elbow suggests <span className="text-fuchsia-300 font-semibold">K = {validity.elbowK}</span>, silhouette <span className="text-cyan-300 font-semibold">K = {validity.silhouetteK}</span>, gap statistic <span className="text-lime-300 font-semibold">K = {validity.gapK}</span>. Click a point to try that K.
+                                    {validity.sampleSize !== null && ` The curves use a random subsample of ${validity.sampleSize} of the ${matrix.length} rows to keep k-medoids fast.`}</>}
+                        </p>
+                    </div>
                 </div>
                 <div className="lg:col-span-2 flex flex-col space-y-8">
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-4">
@@ -166,16 +328,82 @@ const KMeansAnalysis: React.FC<KMeansAnalysisProps> = ({ onBack }) => {
                                 <span>Number of Clusters (K)</span>
                                 <span className="font-mono">{k}</span>
                             </label>
-                            <input type="range" min={2} max={6} step={1} value={k} onChange={(e) => handleKChange(+e.target.value)} className="w-full h-2 bg-slate-700 rounded-lg" />
+                            <input type="range" min={2} max={MAX_K} step={1} value={k} onChange={(e) => handleKChange(+e.target.value)} className="w-full h-2 bg-slate-700 rounded-lg" />
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className="block text-sm text-slate-400 mb-1">Method</label>
+                                <select value={method} onChange={(e) => setMethod(e.target.value as ClusteringMethod)} className="w-full bg-slate-700 text-slate-200 p-2 rounded">
+                                    <option value="kmeans">k-means</option>
+                                    <option value="kmedoids">k-medoids (PAM)</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm text-slate-400 mb-1">Seeding</label>
+                                <select value={initialization} onChange={(e) => setInitialization(e.target.value as KMeansInitialization)} className="w-full bg-slate-700 text-slate-200 p-2 rounded">
+                                    <option value="kmeans++">k-means++</option>
+                                    <option value="random">Random points</option>
+                                </select>
+                            </div>
+                        </div>
+                        <div>
+                            <label className="flex justify-between text-sm text-slate-400">
+                                <span>Restarts</span>
+                                <span className="font-mono">{restarts}</span>
+                            </label>
+                            <input type="range" min={1} max={30} step={1} value={restarts} onChange={(e) => setRestarts(+e.target.value)} className="w-full h-2 bg-slate-700 rounded-lg" />
+                        </div>
+                        <button onClick={handleFullRun} className="w-full bg-fuchsia-700 hover:bg-fuchsia-600 p-2 rounded">Run to Convergence ({restarts} restart{restarts > 1 ? 's' : ''})</button>
+
+                        <h4 className="text-sm font-semibold text-slate-300 pt-2 border-t border-slate-700">Step Through (plotted variables)</h4>
+                        <div className="flex space-x-2">
+                            <button onClick={() => handleSeed('random')} className="flex-1 bg-slate-700 hover:bg-slate-600 p-2 rounded text-sm">Random Seeds</button>
+                            <button onClick={() => handleSeed('kmeans++')} className="flex-1 bg-slate-700 hover:bg-slate-600 p-2 rounded text-sm">k-means++ Seeds</button>
                         </div>
                         <div className="flex space-x-2">
-                            <button onClick={handlePlayPause} disabled={centroids.length < k} className="flex-1 bg-fuchsia-600 hover:bg-fuchsia-700 disabled:bg-slate-600 p-2 rounded">{isAnimating ? 'Pause' : 'Play'}</button>
-                            <button onClick={runStep} disabled={isAnimating || centroids.length < k} className="flex-1 bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 p-2 rounded">Step</button>
+                            <button onClick={handlePlayPause} disabled={centroids.length < k || fullRun !== null} className="flex-1 bg-fuchsia-600 hover:bg-fuchsia-700 disabled:bg-slate-600 p-2 rounded">{isAnimating ? 'Pause' : 'Play'}</button>
+                            <button onClick={runStep} disabled={isAnimating || centroids.length < k || fullRun !== null} className="flex-1 bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 p-2 rounded">Step</button>
                         </div>
                         <div className="flex space-x-2">
                             <button onClick={regenerateData} className="flex-1 bg-slate-700 hover:bg-slate-600 p-2 rounded">Regenerate Data</button>
                             <button onClick={resetSimulation} className="flex-1 bg-slate-700 hover:bg-slate-600 p-2 rounded">Reset Centroids</button>
                         </div>
+                        <p className="text-xs text-slate-500">
+                            {centroids.length < k && fullRun === null ? `Click the plot to place ${k - centroids.length} more centroid${k - centroids.length > 1 ? 's' : ''}, or use a seeding button.` : `Step-through inertia: ${calculateKMeansInertia(points, centroids).toFixed(1)}`}
+                        </p>
+                    </div>
+
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-3">
+                        <h3 className="text-lg font-semibold text-fuchsia-400 mb-2">Variables</h3>
+                        <div className="flex flex-wrap gap-2">
+                            {table.columns.map(column => (
+                                <label key={column} className="flex items-center gap-1 text-sm text-slate-300">
+                                    <input type="checkbox" checked={selectedColumns.includes(column)} onChange={() => toggleColumn(column)} />
+                                    {column}
+                                </label>
+                            ))}
+                        </div>
+                        <label className="flex items-center gap-2 text-sm text-slate-300">
+                            <input type="checkbox" checked={standardize} onChange={(e) => setStandardize(e.target.checked)} />
+                            Standardize variables (z-scores)
+                        </label>
+                        <div className="grid grid-cols-2 gap-2">
+                            <select value={xColumn} onChange={(e) => setXColumn(e.target.value)} className="bg-slate-700 text-slate-200 p-2 rounded text-sm">
+                                {table.columns.map(c => <option key={c} value={c}>x: {c}</option>)}
+                            </select>
+                            <select value={yColumn} onChange={(e) => setYColumn(e.target.value)} className="bg-slate-700 text-slate-200 p-2 rounded text-sm">
+                                {table.columns.map(c => <option key={c} value={c}>y: {c}</option>)}
+                            </select>
+                        </div>
+                        <textarea value={uploadText} onChange={e => setUploadText(e.target.value)} rows={4} placeholder={'math,reading,engagement\n45,52,3.1\n71,64,4.0'} className="w-full bg-slate-900 text-slate-200 text-xs font-mono rounded p-2" />
+                        <div className="flex gap-2">
+                            <button onClick={handleLoadData} className="flex-1 text-sm bg-fuchsia-600 hover:bg-fuchsia-500 text-white py-2 rounded">Load Data</button>
+                            <label className="flex-1 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 py-2 rounded text-center cursor-pointer">
+                                Upload
+                                <input type="file" accept=".csv,.tsv,.txt" onChange={handleFileUpload} className="hidden" />
+                            </label>
+                        </div>
+                        <p className="text-xs text-slate-500">{uploadMessage ?? 'Paste CSV or tab-separated numeric variables with a header row.'}</p>
                     </div>
 
                     <div className="h-[500px]">
@@ -195,4 +423,3 @@ const KMeansAnalysis: React.FC<KMeansAnalysisProps> = ({ onBack }) => {
 };
 
 export default KMeansAnalysis;
-
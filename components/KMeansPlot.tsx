@@ -9,11 +9,13 @@ interface KMeansPlotProps {
     k: number;
     onCentroidsChange: (centroids: Centroid[]) => void;
     isSettingInitial: boolean;
+    xLabel?: string;
+    yLabel?: string;
 }
 
 const COLORS = ["rgb(236 72 153)", "rgb(163 230 53)", "rgb(251 146 60)", "rgb(168 85 247)", "rgb(250 204 21)", "rgb(20 184 166)"];
 
-const KMeansPlot: React.FC<KMeansPlotProps> = ({ points, centroids, k, onCentroidsChange, isSettingInitial }) => {
+const KMeansPlot: React.FC<KMeansPlotProps> = ({ points, centroids, k, onCentroidsChange, isSettingInitial, xLabel, yLabel }) => {
     const svgRef = useRef<SVGSVGElement | null>(null);
 
     useEffect(() => {
@@ -21,12 +23,19 @@ const KMeansPlot: React.FC<KMeansPlotProps> = ({ points, centroids, k, onCentroi
 
         const svg = d3.select(svgRef.current);
         const width = 500, height = 500;
-        const margin = { top: 20, right: 20, bottom: 30, left: 40 };
+        const margin = { top: 20, right: 20, bottom: 45, left: 55 };
 
-        svg.attr('width', width).attr('height', height);
+        svg.attr('width', '100%')
+           .attr('height', '100%')
+           .attr('viewBox', `0 0 ${width} ${height}`)
+           .attr('preserveAspectRatio', 'xMidYMid meet');
 
-        const x = d3.scaleLinear().domain([0, 100]).range([margin.left, width - margin.right]);
-        const y = d3.scaleLinear().domain([0, 100]).range([height - margin.bottom, margin.top]);
+        const xExtent = d3.extent(points, d => d.x) as [number, number];
+        const yExtent = d3.extent(points, d => d.y) as [number, number];
+        const x = d3.scaleLinear().domain(points.length > 0 ? xExtent : [0, 100]).nice().range([margin.left, width - margin.right]);
+        const y = d3.scaleLinear().domain(points.length > 0 ? yExtent : [0, 100]).nice().range([height - margin.bottom, margin.top]);
+        const [xMin, xMax] = x.domain();
+        const [yMin, yMax] = y.domain();
 
         svg.selectAll('*').remove();
 
@@ -41,7 +50,7 @@ const KMeansPlot: React.FC<KMeansPlotProps> = ({ points, centroids, k, onCentroi
                 const [px, py] = d3.pointer(event);
                 const newX = x.invert(px);
                 const newY = y.invert(py);
-                if (newX >= 0 && newX <= 100 && newY >= 0 && newY <= 100) {
+                if (newX >= xMin && newX <= xMax && newY >= yMin && newY <= yMax) {
                     onCentroidsChange([...centroids, { id: centroids.length, x: newX, y: newY }]);
                 }
             });
@@ -51,7 +60,16 @@ const KMeansPlot: React.FC<KMeansPlotProps> = ({ points, centroids, k, onCentroi
 
         svg.append('g').attr('transform', `translate(0,${height - margin.bottom})`).call(d3.axisBottom(x)).attr('color', 'rgb(100 116 139)');
         svg.append('g').attr('transform', `translate(${margin.left},0)`).call(d3.axisLeft(y)).attr('color', 'rgb(100 116 139)');
-        
+
+        if (xLabel) {
+            svg.append('text').attr('text-anchor', 'middle').attr('x', width / 2).attr('y', height - 8)
+                .text(xLabel).style('fill', 'rgb(156 163 175)').style('font-size', '12px');
+        }
+        if (yLabel) {
+            svg.append('text').attr('text-anchor', 'middle').attr('transform', 'rotate(-90)').attr('y', 15).attr('x', -height / 2)
+                .text(yLabel).style('fill', 'rgb(156 163 175)').style('font-size', '12px');
+        }
+
         const chartArea = svg.append('g');
 
         // Points
@@ -63,7 +81,7 @@ const KMeansPlot: React.FC<KMeansPlotProps> = ({ points, centroids, k, onCentroi
             .attr('cy', d => y(d.y))
             .attr('r', 4)
             .transition().duration(500)
-            .attr('fill', d => d.clusterId !== null ? d3.color(COLORS[d.clusterId])?.copy({opacity: 0.7}) + '' : 'rgb(100 116 139)');
+            .attr('fill', d => d.clusterId !== null ? d3.color(COLORS[d.clusterId % COLORS.length])?.copy({opacity: 0.7}) + '' : 'rgb(100 116 139)');
 
         // Centroids
         chartArea.selectAll('path.centroid')
@@ -73,14 +91,15 @@ const KMeansPlot: React.FC<KMeansPlotProps> = ({ points, centroids, k, onCentroi
                     .attr('class', 'centroid')
                     .attr('d', d3.symbol(d3.symbolCross, 200))
                     .attr('transform', d => `translate(${x(d.x)}, ${y(d.y)})`)
-                    .attr('fill', (_, i) => COLORS[i])
+                    .attr('fill', (_, i) => COLORS[i % COLORS.length])
                     .attr('stroke', 'white')
                     .attr('stroke-width', 1.5),
                 update => update.transition().duration(500)
                     .attr('transform', d => `translate(${x(d.x)}, ${y(d.y)})`)
+                    .attr('fill', (_, i) => COLORS[i % COLORS.length])
             );
         
-    }, [points, centroids, k, isSettingInitial, onCentroidsChange]);
+    }, [points, centroids, k, isSettingInitial, onCentroidsChange, xLabel, yLabel]);
 
     return <svg ref={svgRef}></svg>;
 };
@@ -1,19 +1,19 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { BKTParams } from '../types';
-import { updateMastery } from '../services/statisticsService';
+import { BKTParams, BKTFitMethod, KTResponse, KTSkill, KnowledgeTracingComparison } from '../types';
+import { predictBKT, generateKnowledgeTracingData, parseKnowledgeTracingResponses, compareKnowledgeTracingModels, KT_SKILLS } from '../services/statisticsService';
 import { getChatResponse } from '../services/geminiService';
-import MasteryBarChart from './MasteryBarChart';
+import MasteryBarChart, { SkillMastery } from './MasteryBarChart';
 import UnifiedGenAIChat, { Message } from './UnifiedGenAIChat';
 
 interface KnowledgeTracingAnalysisProps {
     onBack: () => void;
 }
 
-const Slider: React.FC<{ label: string, value: number, min: number, max: number, step: number, onChange: (e: React.ChangeEvent<HTMLInputElement>) => void }> = ({ label, value, min, max, step, onChange }) => (
+const Slider: React.FC<{ label: string, value: number, min: number, max: number, step: number, onChange: (e: React.ChangeEvent<HTMLInputElement>) => void, format?: (v: number) => string }> = ({ label, value, min, max, step, onChange, format }) => (
     <div>
         <label className="flex justify-between text-sm text-slate-400">
             <span>{label}</span>
-            <span className="font-mono">{value.toFixed(2)}</span>
+            <span className="font-mono">{format ? format(value) : value.toFixed(2)}</span>
         </label>
         <input
             type="range"
@@ -27,46 +27,131 @@ const Slider: React.FC<{ label: string, value: number, min: number, max: number,
     </div>
 );
 
-const INITIAL_MASTERY = 0.25;
+const PARAM_LABELS: { key: keyof BKTParams, label: string }[] = [
+    { key: 'prior', label: 'p(L0)' },
+    { key: 'learn', label: 'p(T)' },
+    { key: 'guess', label: 'p(G)' },
+    { key: 'slip', label: 'p(S)' }
+];
+
+const toCsv = (responses: KTResponse[]) => ['student,skill,correct', ...responses.map(r => `${r.studentId},${r.skill},${r.correct}`)].join('\n');
 
 const KnowledgeTracingAnalysis: React.FC<KnowledgeTracingAnalysisProps> = ({ onBack }) => {
-    const [masteryHistory, setMasteryHistory] = useState<number[]>([INITIAL_MASTERY]);
-    const [bktParams, setBktParams] = useState<BKTParams>({ learn: 0.1, guess: 0.2, slip: 0.1 });
+    const [bktParams, setBktParams] = useState<BKTParams>({ prior: 0.25, learn: 0.1, guess: 0.2, slip: 0.1 });
+    const [numStudents, setNumStudents] = useState(150);
+    const [trueSkills, setTrueSkills] = useState<KTSkill[] | null>(KT_SKILLS);
+    const [responses, setResponses] = useState<KTResponse[]>(() => generateKnowledgeTracingData(150));
+    const [dataText, setDataText] = useState('');
+    const [uploadMessage, setUploadMessage] = useState<string | null>(null);
+    const [fitMethod, setFitMethod] = useState<BKTFitMethod>('em');
+    const [comparison, setComparison] = useState<KnowledgeTracingComparison | null>(null);
+
+    // Interactive learner: one answer history per skill
+    const skills = useMemo(() => [...new Set(responses.map(r => r.skill))], [responses]);
+    const [selectedSkill, setSelectedSkill] = useState<string>(KT_SKILLS[0].name);
+    const [answers, setAnswers] = useState<Record<string, number[]>>({});
     const [lastAnswer, setLastAnswer] = useState<'correct' | 'incorrect' | null>(null);
 
     // Chat state
     const [chatHistory, setChatHistory] = useState<Message[]>([
-        { text: "Hello! I'm Dr. Gem. I can explain how this Bayesian Knowledge Tracing model estimates student learning. Try submitting some answers!", role: 'model' }
+        { text: "Hello! I'm Dr. Gem. I can explain how Bayesian Knowledge Tracing estimates student learning, and how fitted parameters compare with hand-tuned ones. Try submitting some answers!", role: 'model' }
     ]);
     const [isChatLoading, setIsChatLoading] = useState(false);
 
-    const currentMastery = useMemo(() => masteryHistory[masteryHistory.length - 1], [masteryHistory]);
+    const fitModels = useCallback((data: KTResponse[] = responses, method: BKTFitMethod = fitMethod) => {
+        if (data.length === 0) return;
+        setComparison(compareKnowledgeTracingModels(data, bktParams, method));
+    }, [responses, fitMethod, bktParams]);
+
+    useEffect(() => {
+        fitModels();
+    }, []);
+
+    useEffect(() => {
+        if (!skills.includes(selectedSkill) && skills.length > 0) setSelectedSkill(skills[0]);
+    }, [skills, selectedSkill]);
+
+    const loadResponses = (data: KTResponse[], simulated: KTSkill[] | null) => {
+        setResponses(data);
+        setTrueSkills(simulated);
+        setAnswers({});
+        setLastAnswer(null);
+        fitModels(data);
+    };
+
+    const handleSimulate = () => {
+        loadResponses(generateKnowledgeTracingData(numStudents), KT_SKILLS);
+        setUploadMessage(null);
+    };
+
+    const handleLoadText = () => {
+        const { responses: parsed, skippedRows } = parseKnowledgeTracingResponses(dataText);
+        if (parsed.length === 0) {
+            setUploadMessage('No valid rows found. Expected columns: student, skill, correct (0/1).');
+            return;
+        }
+        const students = new Set(parsed.map(r => r.studentId)).size;
+        if (students < 4) {
+            setUploadMessage('At least 4 students are needed to hold some out for evaluation.');
+            return;
+        }
+        loadResponses(parsed, null);
+        setUploadMessage(`Loaded ${parsed.length} responses from ${students} students${skippedRows > 0 ? ` (${skippedRows} rows skipped)` : ''}.`);
+    };
+
+    const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => setDataText(String(reader.result ?? ''));
+        reader.readAsText(file);
+        e.target.value = '';
+    };
+
+    const fittedParams = useCallback((skill: string) => comparison?.fits.find(f => f.skill === skill)?.params ?? null, [comparison]);
+
+    const masteryBySkill: SkillMastery[] = useMemo(() => skills.map(skill => {
+        const history = answers[skill] ?? [];
+        const fitted = fittedParams(skill);
+        const last = (params: BKTParams) => {
+            const { mastery } = predictBKT(history, params);
+            return mastery.length > 0 ? mastery[mastery.length - 1] : params.prior;
+        };
+        return { skill, handTuned: last(bktParams), fitted: fitted ? last(fitted) : null };
+    }), [skills, answers, bktParams, fittedParams]);
 
     const handleAnswer = useCallback((isCorrect: boolean) => {
-        const newMastery = updateMastery(currentMastery, isCorrect, bktParams);
-        setMasteryHistory(prev => [...prev, newMastery]);
+        setAnswers(prev => ({ ...prev, [selectedSkill]: [...(prev[selectedSkill] ?? []), isCorrect ? 1 : 0] }));
         setLastAnswer(isCorrect ? 'correct' : 'incorrect');
-    }, [currentMastery, bktParams]);
+    }, [selectedSkill]);
 
     const resetSimulation = () => {
-        setMasteryHistory([INITIAL_MASTERY]);
+        setAnswers({});
         setLastAnswer(null);
     };
 
+    const bestAuc = comparison && comparison.metrics.length > 0 ? Math.max(...comparison.metrics.map(m => m.auc)) : null;
+    const selectedMastery = masteryBySkill.find(m => m.skill === selectedSkill);
+
     const handleSendMessage = useCallback(async (msg: string) => {
         setIsChatLoading(true);
         setChatHistory(prev => [...prev, { text: msg, role: 'user' }]);
 
+        const formatParams = (p: BKTParams) => PARAM_LABELS.map(({ key, label }) => `${label}=${p[key].toFixed(2)}`).join(', ');
         const context = `
-            We are simulating Bayesian Knowledge Tracing (BKT).
-            Current Mastery Probability: ${(currentMastery * 100).toFixed(1)}%
-            Parameters: Learn=${bktParams.learn}, Guess=${bktParams.guess}, Slip=${bktParams.slip}
+            We are simulating Bayesian Knowledge Tracing (BKT) across several skills.
+            Hand-tuned parameters (used for every skill): ${formatParams(bktParams)}
+            Selected skill: ${selectedSkill}; answers so far: ${(answers[selectedSkill] ?? []).join('') || 'none'}
+            Current mastery for ${selectedSkill}: hand-tuned ${selectedMastery ? (selectedMastery.handTuned * 100).toFixed(1) : 'n/a'}%, fitted ${selectedMastery?.fitted != null ? (selectedMastery.fitted * 100).toFixed(1) + '%' : 'n/a'}
             Last Student Action: ${lastAnswer ? lastAnswer.toUpperCase() : 'None'}
-            History Length: ${masteryHistory.length} attempts
-            
+            Data: ${responses.length} responses (${trueSkills ? 'simulated' : 'uploaded'}).
+            ${comparison ? `Fitted (${fitMethod === 'em' ? 'EM' : 'grid search'}) parameters per skill: ${comparison.fits.map(f => `${f.skill}: ${formatParams(f.params)}`).join('; ')}` : ''}
+            ${trueSkills ? `True generating parameters: ${trueSkills.map(s => `${s.name}: ${formatParams(s.params)}`).join('; ')}` : ''}
+            ${comparison ? `Held-out performance (${comparison.testStudents} students): ${comparison.metrics.map(m => `${m.model} AUC=${m.auc.toFixed(3)}, RMSE=${m.rmse.toFixed(3)}`).join('; ')}` : ''}
+
             User Question: ${msg}
-            
-            Explain how the mastery probability is updated based on the parameters and student performance.
+
+            Explain how the mastery probability is updated, what the fitted parameters say about each skill, and why the models differ in predictive accuracy.
         `;
 
         try {
@@ -77,7 +162,7 @@ const KnowledgeTracingAnalysis: React.FC<KnowledgeTracingAnalysisProps> = ({ onB
         } finally {
             setIsChatLoading(false);
         }
-    }, [currentMastery, bktParams, lastAnswer, masteryHistory]);
+    }, [bktParams, selectedSkill, answers, selectedMastery, lastAnswer, responses, trueSkills, comparison, fitMethod]);
 
     return (
         <div className="w-full max-w-6xl mx-auto">
@@ -85,26 +170,147 @@ const KnowledgeTracingAnalysis: React.FC<KnowledgeTracingAnalysisProps> = ({ onB
                 <button onClick={onBack} className="text-rose-400 hover:text-rose-300 mb-4 inline-block">&larr; Back to Portal</button>
                 <div className="text-center">
                     <h1 className="text-4xl font-bold text-rose-400">Knowledge Tracing</h1>
-                    <p className="text-slate-400 mt-2">Model a student's knowledge mastery using a Bayesian Knowledge Tracing (BKT) model.</p>
+                    <p className="text-slate-400 mt-2">Fit Bayesian Knowledge Tracing (BKT) to response logs and compare it with hand-tuned BKT and Performance Factors Analysis.</p>
                 </div>
             </header>
 
             <main className="grid grid-cols-1 lg:grid-cols-5 gap-8">
-                <div className="lg:col-span-3 bg-slate-800 rounded-lg shadow-2xl flex flex-col justify-center p-6 space-y-6">
-                    <h3 className="text-lg font-semibold text-rose-400 text-center">Student's Knowledge Mastery</h3>
-                    <MasteryBarChart mastery={currentMastery} />
-                    <div className="grid grid-cols-2 gap-4 pt-4">
-                        <button onClick={() => handleAnswer(true)} className="bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-200 text-lg">
-                            Correct Answer ✅
-                        </button>
-                        <button onClick={() => handleAnswer(false)} className="bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-200 text-lg">
-                            Incorrect Answer ❌
-                        </button>
+                <div className="lg:col-span-3 space-y-6">
+                    <div className="bg-slate-800 rounded-lg shadow-2xl flex flex-col justify-center p-6 space-y-4">
+                        <h3 className="text-lg font-semibold text-rose-400 text-center">Student's Knowledge Mastery</h3>
+                        <div className="flex flex-wrap justify-center gap-2">
+                            {skills.map(skill => (
+                                <button
+                                    key={skill}
+                                    onClick={() => setSelectedSkill(skill)}
+                                    className={`px-3 py-1 rounded text-sm ${skill === selectedSkill ? 'bg-rose-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                                >
+                                    {skill}
+                                </button>
+                            ))}
+                        </div>
+                        <MasteryBarChart skills={masteryBySkill} selectedSkill={selectedSkill} />
+                        <div className="grid grid-cols-2 gap-4 pt-2">
+                            <button onClick={() => handleAnswer(true)} className="bg-green-600 hover:bg-green-700 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-200 text-lg">
+                                Correct Answer ✅
+                            </button>
+                            <button onClick={() => handleAnswer(false)} className="bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-4 rounded-lg transition-colors duration-200 text-lg">
+                                Incorrect Answer ❌
+                            </button>
+                        </div>
+                        <p className="text-center text-sm text-slate-400 min-h-[1.5rem]">
+                            {selectedSkill}: {(answers[selectedSkill] ?? []).map(a => (a === 1 ? '✅' : '❌')).join(' ') || 'no answers yet'}
+                        </p>
                     </div>
+
+                    {comparison && (
+                        <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-6">
+                            <div>
+                                <h3 className="text-lg font-semibold text-rose-400 mb-1">Parameters by Skill</h3>
+                                <p className="text-xs text-slate-400 mb-3">
+                                    Fitted by {fitMethod === 'em' ? 'expectation-maximization' : 'grid search'} on {comparison.trainStudents} training students.
+                                    {comparison.untrainedSkills.length > 0 && ` No training responses for ${comparison.untrainedSkills.join(', ')}; fitted BKT uses the hand-tuned parameters there.`}
+                                </p>
+                                <table className="w-full text-sm font-mono text-right">
+                                    <thead>
+                                        <tr className="text-slate-400 text-xs">
+                                            <th className="text-left font-normal">Skill</th>
+                                            <th className="text-left font-normal">Source</th>
+                                            {PARAM_LABELS.map(p => <th key={p.key} className="font-normal">{p.label}</th>)}
+                                            <th className="font-normal">Log-lik.</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {comparison.fits.map(fit => {
+                                            const truth = trueSkills?.find(s => s.name === fit.skill);
+                                            return (
+                                                <React.Fragment key={fit.skill}>
+                                                    <tr className="border-t border-slate-700 text-cyan-300">
+                                                        <td className="text-left text-slate-200">{fit.skill}</td>
+                                                        <td className="text-left text-xs">Fitted</td>
+                                                        {PARAM_LABELS.map(p => <td key={p.key}>{fit.params[p.key].toFixed(2)}</td>)}
+                                                        <td>{fit.logLikelihood.toFixed(1)}</td>
+                                                    </tr>
+                                                    {truth && (
+                                                        <tr className="text-slate-400">
+                                                            <td></td>
+                                                            <td className="text-left text-xs">True</td>
+                                                            {PARAM_LABELS.map(p => <td key={p.key}>{truth.params[p.key].toFixed(2)}</td>)}
+                                                            <td></td>
+                                                        </tr>
+                                                    )}
+                                                </React.Fragment>
+                                            );
+                                        })}
+                                        <tr className="border-t border-slate-700 text-rose-300">
+                                            <td className="text-left text-slate-200">All</td>
+                                            <td className="text-left text-xs">Hand-tuned</td>
+                                            {PARAM_LABELS.map(p => <td key={p.key}>{bktParams[p.key].toFixed(2)}</td>)}
+                                            <td></td>
+                                        </tr>
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            <div>
+                                <h3 className="text-lg font-semibold text-rose-400 mb-1">Predictive Accuracy</h3>
+                                <p className="text-xs text-slate-400 mb-3">
+                                    Next-response predictions for {comparison.testStudents} held-out students, each made before the response is seen.
+                                </p>
+                                <table className="w-full text-sm font-mono text-right">
+                                    <thead>
+                                        <tr className="text-slate-400 text-xs">
+                                            <th className="text-left font-normal">Model</th>
+                                            <th className="font-normal">AUC</th>
+                                            <th className="font-normal">RMSE</th>
+                                            <th className="font-normal">Accuracy</th>
+                                            <th className="font-normal">Log loss</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {comparison.metrics.map(m => (
+                                            <tr key={m.model} className={m.auc === bestAuc ? 'text-green-400' : 'text-slate-200'}>
+                                                <td className="text-left">{m.model}</td>
+                                                <td>{m.auc.toFixed(3)}</td>
+                                                <td>{m.rmse.toFixed(3)}</td>
+                                                <td>{(m.accuracy * 100).toFixed(1)}%</td>
+                                                <td>{m.logLoss.toFixed(3)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            <div>
+                                <h4 className="text-sm font-semibold text-slate-300 mb-1">PFA Coefficients (log-odds)</h4>
+                                <table className="w-full text-xs font-mono text-right">
+                                    <thead>
+                                        <tr className="text-slate-400">
+                                            <th className="text-left font-normal">Skill</th>
+                                            <th className="font-normal">Easiness β</th>
+                                            <th className="font-normal">Per success γ</th>
+                                            <th className="font-normal">Per failure ρ</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {comparison.pfa.map(c => (
+                                            <tr key={c.skill} className="text-slate-200">
+                                                <td className="text-left">{c.skill}</td>
+                                                <td>{c.easiness.toFixed(2)}</td>
+                                                <td>{c.successWeight.toFixed(2)}</td>
+                                                <td>{c.failureWeight.toFixed(2)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
                 </div>
                 <div className="lg:col-span-2 flex flex-col space-y-8">
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-6">
-                        <h3 className="text-lg font-semibold text-rose-400 mb-3 border-b border-rose-400/20 pb-2">BKT Model Parameters</h3>
+                        <h3 className="text-lg font-semibold text-rose-400 mb-3 border-b border-rose-400/20 pb-2">Hand-tuned BKT Parameters</h3>
+                        <Slider label="Initial Mastery p(L0)" value={bktParams.prior} min={0} max={1} step={0.01} onChange={(e) => setBktParams(p => ({ ...p, prior: +e.target.value }))} />
                         <Slider label="Learn Rate" value={bktParams.learn} min={0} max={1} step={0.01} onChange={(e) => setBktParams(p => ({ ...p, learn: +e.target.value }))} />
                         <Slider label="Guess Rate" value={bktParams.guess} min={0} max={1} step={0.01} onChange={(e) => setBktParams(p => ({ ...p, guess: +e.target.value }))} />
                         <Slider label="Slip Rate" value={bktParams.slip} min={0} max={1} step={0.01} onChange={(e) => setBktParams(p => ({ ...p, slip: +e.target.value }))} />
@@ -113,6 +319,40 @@ const KnowledgeTracingAnalysis: React.FC<KnowledgeTracingAnalysisProps> = ({ onB
                         </button>
                     </div>
 
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-4">
+                        <h3 className="text-lg font-semibold text-rose-400 border-b border-rose-400/20 pb-2">Response Data</h3>
+                        <Slider label="Simulated students" value={numStudents} min={30} max={400} step={10} format={v => v.toFixed(0)} onChange={(e) => setNumStudents(+e.target.value)} />
+                        <div className="flex items-center gap-2 text-sm">
+                            <span className="text-slate-400">Fit with:</span>
+                            <select value={fitMethod} onChange={e => setFitMethod(e.target.value as BKTFitMethod)} className="bg-slate-900 text-slate-200 rounded p-1">
+                                <option value="em">EM (Baum-Welch)</option>
+                                <option value="grid">Grid search</option>
+                            </select>
+                        </div>
+                        <div className="flex gap-2">
+                            <button onClick={handleSimulate} className="flex-1 bg-rose-600 hover:bg-rose-700 text-white font-bold py-2 px-4 rounded-lg">Simulate &amp; Fit</button>
+                            <button onClick={() => fitModels()} className="flex-1 bg-slate-700 hover:bg-slate-600 text-white font-bold py-2 px-4 rounded-lg">Refit</button>
+                        </div>
+                        <textarea
+                            value={dataText}
+                            onChange={e => setDataText(e.target.value)}
+                            rows={5}
+                            className="w-full bg-slate-900 text-slate-200 font-mono text-xs rounded p-2"
+                            placeholder={'student,skill,correct\nS1,Fractions,0\nS1,Fractions,1'}
+                        />
+                        <div className="flex gap-2">
+                            <button onClick={handleLoadText} className="flex-1 bg-slate-700 hover:bg-slate-600 text-white py-2 px-4 rounded-lg">Load &amp; Fit</button>
+                            <button onClick={() => setDataText(toCsv(responses))} className="bg-slate-700 hover:bg-slate-600 text-white py-2 px-4 rounded-lg">Sample</button>
+                            <label className="bg-slate-700 hover:bg-slate-600 text-white py-2 px-4 rounded-lg cursor-pointer">
+                                Upload
+                                <input type="file" accept=".csv,.txt,.tsv" onChange={handleFileUpload} className="hidden" />
+                            </label>
+                        </div>
+                        <p className="text-xs text-slate-400">
+                            {uploadMessage ?? `${responses.length} responses in time order; one row per attempt.`}
+                        </p>
+                    </div>
+
                     <div className="h-[500px]">
                         <UnifiedGenAIChat
                             moduleTitle="Knowledge Tracing"
@@ -130,4 +370,3 @@ const KnowledgeTracingAnalysis: React.FC<KnowledgeTracingAnalysisProps> = ({ onB
 };
 
 export default KnowledgeTracingAnalysis;
-
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { LPAPoint, Profile } from '../types';
-import { initializeLPA, expectationStep, maximizationStep } from '../services/statisticsService';
+import { LPAPoint, Profile, LPACovarianceStructure, LPAFitResult, LPABootstrapTest } from '../types';
+import { initializeLPA, expectationStep, maximizationStep, calculateMixtureLogLikelihood, generateLPAData, fitLPA, bootstrapLRTReplicate, summarizeBootstrapLRT } from '../services/statisticsService';
 import { getChatResponse } from '../services/geminiService';
 import LPAScatterPlot from './LPAScatterPlot';
 import UnifiedGenAIChat, { Message } from './UnifiedGenAIChat';
@@ -9,23 +9,32 @@ interface LPAAnalysisProps {
     onBack: () => void;
 }
 
-const generateInitialData = (count: number): LPAPoint[] => {
-    const data: LPAPoint[] = [];
-    const centers = [[30, 65], [70, 35], [50, 50]];
-    for (let i = 0; i < count; i++) {
-        const center = centers[i % centers.length];
-        const x = center[0] + (Math.random() - 0.5) * 40;
-        const y = center[1] + (Math.random() - 0.5) * 40;
-        data.push({ id: i, x, y, profileId: null, responsibilities: [] });
-    }
-    return data;
-};
+const STRUCTURES: { value: LPACovarianceStructure, label: string }[] = [
+    { value: 'EEI', label: 'Equal variances, no covariances' },
+    { value: 'VVI', label: 'Varying variances, no covariances' },
+    { value: 'EEE', label: 'Equal variances and covariances' },
+    { value: 'VVV', label: 'Varying variances and covariances' }
+];
+
+const MAX_K = 6;
+const BOOTSTRAP_REPLICATES = 39;
+
+const formatPValue = (p: number) => (p < 0.001 ? '< .001' : p.toFixed(3));
 
 const LPAAnalysis: React.FC<LPAAnalysisProps> = ({ onBack }) => {
     const [k, setK] = useState(3);
-    const [points, setPoints] = useState<LPAPoint[]>(() => generateInitialData(150));
+    const [structure, setStructure] = useState<LPACovarianceStructure>('VVV');
+    const [starts, setStarts] = useState(10);
+    const [startsDraft, setStartsDraft] = useState(10); // follows the slider; starts only changes on release
+    const [data, setData] = useState<LPAPoint[]>(() => generateLPAData(150));
+    const [points, setPoints] = useState<LPAPoint[]>(data);
     const [profiles, setProfiles] = useState<Profile[]>([]);
+    const [trace, setTrace] = useState<number[]>([]);
     const [isAnimating, setIsAnimating] = useState(false);
+    const [bootstrapTests, setBootstrapTests] = useState<LPABootstrapTest[]>([]);
+    const [isBootstrapping, setIsBootstrapping] = useState(false);
+    const [bootstrapProgress, setBootstrapProgress] = useState({ k: 2, replicate: 0 });
+    const [fits, setFits] = useState<LPAFitResult[]>([]);
 
     // Chat state
     const [chatHistory, setChatHistory] = useState<Message[]>([
@@ -38,59 +47,119 @@ const LPAAnalysis: React.FC<LPAAnalysisProps> = ({ onBack }) => {
     const resetSimulation = useCallback(() => {
         setIsAnimating(false);
         if (animationRef.current !== null) cancelAnimationFrame(animationRef.current);
-        setPoints(p => p.map(point => ({ ...point, profileId: null, responsibilities: [] })));
+        setPoints(data);
         setProfiles([]);
-    }, []);
+        setTrace([]);
+    }, [data]);
 
     const regenerateData = () => {
-        setPoints(generateInitialData(150));
-        resetSimulation();
+        setData(generateLPAData(150));
     };
 
-    const runStep = useCallback(() => {
-        let currentProfiles = profiles;
-        if (currentProfiles.length === 0) {
-            currentProfiles = initializeLPA(points, k);
-        }
+    const bootstrapRunRef = useRef(0);
+
+    // Leaving the module abandons a bootstrap still in progress
+    useEffect(() => () => {
+        bootstrapRunRef.current += 1;
+    }, []);
+
+    // Best of several random starts for every K, under the chosen covariance structure. Each K is fitted in
+    // its own timeout after the next paint, so the page stays responsive and the table fills in as they finish.
+    useEffect(() => {
+        bootstrapRunRef.current += 1; // abandons any bootstrap started for the previous fits
+        setBootstrapTests([]);
+        setIsBootstrapping(false);
+        setFits([]);
+        let cancelled = false;
+        let timer: ReturnType<typeof setTimeout>;
+        const fitNext = (target: number) => {
+            timer = setTimeout(() => {
+                if (cancelled) return;
+                const fit = fitLPA(data, target, structure, { starts });
+                setFits(prev => [...prev, fit]);
+                if (target < MAX_K) fitNext(target + 1);
+            }, target === 1 ? 50 : 0);
+        };
+        fitNext(1);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [data, structure, starts]);
 
-        const pointsWithResponsibilities = expectationStep(points, currentProfiles);
-        const newProfiles = maximizationStep(pointsWithResponsibilities, k);
+    const isFitting = fits.length < MAX_K;
+    const bestBic = fits.length > 0 ? fits.reduce((best, f) => (f.bic < best.bic ? f : best), fits[0]) : null;
+    const bestAic = fits.length > 0 ? fits.reduce((best, f) => (f.aic < best.aic ? f : best), fits[0]) : null;
+    const currentFit: LPAFitResult | undefined = fits[k - 1];
+
+    // One replicate per timeout: each refits two mixtures, so a whole test at once would block the page for seconds
+    const runBootstrap = () => {
+        setBootstrapTests([]);
+        setIsBootstrapping(true);
+        const run = ++bootstrapRunRef.current;
+        const next = (target: number, simulated: number[]) => {
+            if (run !== bootstrapRunRef.current) return;
+            if (target > MAX_K) {
+                setIsBootstrapping(false);
+                return;
+            }
+            setBootstrapProgress({ k: target, replicate: simulated.length });
+            setTimeout(() => {
+                if (run !== bootstrapRunRef.current) return;
+                const reduced = fits[target - 2];
+                const full = fits[target - 1];
+                const updated = [...simulated, bootstrapLRTReplicate(data.length, reduced, full)];
+                if (updated.length < BOOTSTRAP_REPLICATES) {
+                    next(target, updated);
+                    return;
+                }
+                const test = summarizeBootstrapLRT(reduced, full, updated);
+                setBootstrapTests(prev => [...prev, test]);
+                next(target + 1, []);
+            }, 0);
+        };
+        next(2, []);
+    };
+
+    const commitStarts = () => {
+        if (startsDraft !== starts) setStarts(startsDraft);
+    };
+
+    // Animated EM from a single random start; stops when the log-likelihood stops improving
+    const runStep = useCallback(() => {
+        const currentProfiles = profiles.length === k ? profiles : initializeLPA(data, k);
+        const pointsWithResponsibilities = expectationStep(data, currentProfiles);
+        const newProfiles = maximizationStep(pointsWithResponsibilities, k, structure);
+        const logLikelihood = calculateMixtureLogLikelihood(data, newProfiles);
 
         setPoints(pointsWithResponsibilities);
         setProfiles(newProfiles);
-        return newProfiles;
-    }, [points, profiles, k]);
+        setTrace(prev => [...prev, logLikelihood]);
+        return logLikelihood;
+    }, [data, profiles, k, structure]);
 
     const animate = useCallback(() => {
-        const newProfiles = runStep();
-        const oldProfiles = profiles;
-
-        let converged = true;
-        if (oldProfiles.length === newProfiles.length) {
-            for (let i = 0; i < newProfiles.length; i++) {
-                const dx = newProfiles[i].mean[0] - oldProfiles[i].mean[0];
-                const dy = newProfiles[i].mean[1] - oldProfiles[i].mean[1];
-                if (dx * dx + dy * dy > 0.01) {
-                    converged = false;
-                    break;
-                }
-            }
-        } else {
-            converged = false;
-        }
-
-        if (converged) {
+        const previous = trace[trace.length - 1];
+        const logLikelihood = runStep();
+        if ((previous !== undefined && Math.abs(logLikelihood - previous) < 1e-8 * Math.abs(logLikelihood)) || trace.length >= 500) {
             setIsAnimating(false);
-        } else {
-            animationRef.current = requestAnimationFrame(animate);
         }
-    }, [runStep, profiles]);
+    }, [runStep, trace]);
 
     const startAnimation = () => {
         setProfiles([]); // Reset profiles to re-initialize
+        setTrace([]);
         setIsAnimating(true);
     };
 
+    const showBestFit = (fit: LPAFitResult) => {
+        setIsAnimating(false);
+        setK(fit.k);
+        setPoints(fit.points);
+        setProfiles(fit.profiles);
+        setTrace(fit.logLikelihoodTrace);
+    };
+
     useEffect(() => {
         if (isAnimating) {
             animationRef.current = requestAnimationFrame(animate);
@@ -102,7 +171,7 @@ const LPAAnalysis: React.FC<LPAAnalysisProps> = ({ onBack }) => {
 
     useEffect(() => {
         resetSimulation();
-    }, [k, resetSimulation]);
+    }, [structure, resetSimulation]);
 
     const handleSendMessage = useCallback(async (msg: string) => {
         setIsChatLoading(true);
@@ -110,13 +179,19 @@ const LPAAnalysis: React.FC<LPAAnalysisProps> = ({ onBack }) => {
 
         const context = `
             We are performing Latent Profile Analysis (LPA).
+            Covariance structure: ${STRUCTURES.find(s => s.value === structure)?.label} (${structure})
             Number of Profiles (K): ${k}
-            Current Profiles Detected: ${profiles.length}
-            Simulation Status: ${isAnimating ? 'Running' : 'Stopped'}
-            
+            EM status: ${isAnimating ? 'Running' : 'Stopped'} after ${trace.length} iterations${trace.length > 0 ? `, log-likelihood ${trace[trace.length - 1].toFixed(2)}` : ''}
+            ${currentFit ? `Best of ${starts} random starts for K = ${k}: log-likelihood ${currentFit.logLikelihood.toFixed(2)}, reached by ${currentFit.replicatedStarts} starts` : `Still fitting K = ${fits.length + 1} of ${MAX_K}`}
+
+            Fit indices by K:
+            ${fits.map(f => `K=${f.k}: LL=${f.logLikelihood.toFixed(1)}, parameters=${f.numParameters}, AIC=${f.aic.toFixed(1)}, BIC=${f.bic.toFixed(1)}, entropy=${f.entropy === null ? 'n/a' : f.entropy.toFixed(2)}, smallest profile=${(f.smallestProfileShare * 100).toFixed(0)}%`).join('\n            ')}
+            Bootstrap LRT (K-1 vs K): ${bootstrapTests.length > 0 ? bootstrapTests.map(t => `K=${t.k}: p=${formatPValue(t.pValue)}`).join(', ') : 'not run'}
+            Lowest BIC: K = ${bestBic?.k ?? 'n/a'}; lowest AIC: K = ${bestAic?.k ?? 'n/a'}
+
             User Question: ${msg}
-            
-            Explain how LPA identifies these hidden groups based on the data distribution.
+
+            Explain how LPA identifies these hidden groups and how to weigh BIC, AIC, entropy and the bootstrap LRT when choosing the number of profiles.
         `;
 
         try {
@@ -127,7 +202,7 @@ const LPAAnalysis: React.FC<LPAAnalysisProps> = ({ onBack }) => {
         } finally {
             setIsChatLoading(false);
         }
-    }, [k, profiles, isAnimating]);
+    }, [k, structure, starts, trace, isAnimating, currentFit, fits, bootstrapTests, bestBic, bestAic]);
 
     return (
         <div className="w-full max-w-6xl mx-auto">
@@ -142,6 +217,64 @@ const LPAAnalysis: React.FC<LPAAnalysisProps> = ({ onBack }) => {
             <main className="grid grid-cols-1 lg:grid-cols-5 gap-8">
                 <div className="lg:col-span-3 bg-slate-800 rounded-lg shadow-2xl p-4">
                     <LPAScatterPlot points={points} profiles={profiles} />
+                    <div className="mt-6">
+                        <div className="flex items-center justify-between mb-2">
+                            <h3 className="text-lg font-semibold text-emerald-400">Choosing the Number of Profiles</h3>
+                            <button onClick={runBootstrap} disabled={isBootstrapping || isFitting} className="bg-slate-700 hover:bg-slate-600 disabled:bg-slate-600 text-sm px-3 py-1 rounded">
+                                {isBootstrapping ? `Bootstrapping K = ${bootstrapProgress.k} (${bootstrapProgress.replicate}/${BOOTSTRAP_REPLICATES})...` : 'Run Bootstrap LRT'}
+                            </button>
+                        </div>
+                        <table className="w-full text-sm font-mono text-slate-300">
+                            <thead>
+                                <tr className="text-slate-400 border-b border-slate-700">
+                                    <th className="text-left py-1">K</th>
+                                    <th className="text-right">LL</th>
+                                    <th className="text-right">Params</th>
+                                    <th className="text-right">AIC</th>
+                                    <th className="text-right">BIC</th>
+                                    <th className="text-right">Entropy</th>
+                                    <th className="text-right">Smallest</th>
+                                    <th className="text-right">BLRT p</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {fits.map(f => {
+                                    const test = bootstrapTests.find(t => t.k === f.k);
+                                    return (
+                                        <tr
+                                            key={f.k}
+                                            onClick={() => showBestFit(f)}
+                                            className={`cursor-pointer border-b border-slate-700/50 hover:bg-slate-700/50 ${f.k === k ? 'bg-emerald-900/30' : ''}`}
+                                        >
+                                            <td className="py-1">{f.k}</td>
+                                            <td className="text-right">{f.logLikelihood.toFixed(1)}</td>
+                                            <td className="text-right">{f.numParameters}</td>
+                                            <td className={`text-right ${f === bestAic ? 'text-emerald-400 font-bold' : ''}`}>{f.aic.toFixed(1)}</td>
+                                            <td className={`text-right ${f === bestBic ? 'text-emerald-400 font-bold' : ''}`}>{f.bic.toFixed(1)}</td>
+                                            <td className={`text-right ${f.entropy !== null && f.entropy < 0.8 ? 'text-amber-400' : ''}`}>{f.entropy === null ? '—' : f.entropy.toFixed(2)}</td>
+                                            <td className={`text-right ${f.smallestProfileShare < 0.05 ? 'text-amber-400' : ''}`}>{(f.smallestProfileShare * 100).toFixed(0)}%</td>
+                                            <td className="text-right">{test ? formatPValue(test.pValue) : '—'}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                        {isFitting && <p className="text-sm text-slate-400 mt-2">Fitting K = {fits.length + 1} of {MAX_K} ({starts} starts each)...</p>}
+                        <p className="text-sm text-slate-400 mt-3">
+                            {bestBic && bestAic && !isFitting && <>
+                                BIC is lowest at <span className="text-emerald-400 font-semibold">K = {bestBic.k}</span>
+                                {bestAic.k !== bestBic.k && <> (AIC, which penalises parameters less, prefers K = {bestAic.k})</>}.
+                            </>}
+                            {bootstrapTests.length > 0 && (() => {
+                                const firstNonSignificant = bootstrapTests.find(t => t.pValue >= 0.05);
+                                return firstNonSignificant
+                                    ? <> The bootstrap LRT supports K = {firstNonSignificant.k - 1}: adding another profile gives p = {formatPValue(firstNonSignificant.pValue)}.</>
+                                    : <> Every bootstrap LRT run so far favours the larger model.</>;
+                            })()}
+                            {' '}Entropy above 0.8 means profiles are cleanly separated; profiles under 5% of the sample are often spurious.
+                            Click a row to see that solution.
+                        </p>
+                    </div>
                 </div>
                 <div className="lg:col-span-2 flex flex-col space-y-8">
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-4">
@@ -151,16 +284,43 @@ const LPAAnalysis: React.FC<LPAAnalysisProps> = ({ onBack }) => {
                                 <span>Number of Profiles (K)</span>
                                 <span className="font-mono">{k}</span>
                             </label>
-                            <input type="range" min={2} max={5} step={1} value={k} onChange={(e) => setK(+e.target.value)} className="w-full h-2 bg-slate-700 rounded-lg" />
+                            <input type="range" min={1} max={MAX_K} step={1} value={k} onChange={(e) => { setK(+e.target.value); resetSimulation(); }} className="w-full h-2 bg-slate-700 rounded-lg" />
+                        </div>
+                        <div>
+                            <label className="block text-sm text-slate-400 mb-1">Covariance Structure</label>
+                            <select value={structure} onChange={(e) => setStructure(e.target.value as LPACovarianceStructure)} className="w-full bg-slate-700 text-slate-200 p-2 rounded">
+                                {STRUCTURES.map(s => <option key={s.value} value={s.value}>{s.label} ({s.value})</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="flex justify-between text-sm text-slate-400">
+                                <span>Random Starts</span>
+                                <span className="font-mono">{startsDraft}</span>
+                            </label>
+                            <input type="range" min={1} max={20} step={1} value={startsDraft} onChange={(e) => setStartsDraft(+e.target.value)} onPointerUp={commitStarts} onKeyUp={commitStarts} onBlur={commitStarts} className="w-full h-2 bg-slate-700 rounded-lg" />
                         </div>
                         <div className="flex space-x-2">
-                            <button onClick={startAnimation} disabled={isAnimating} className="flex-1 bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-600 p-2 rounded">Run Analysis</button>
+                            <button onClick={startAnimation} disabled={isAnimating} className="flex-1 bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-600 p-2 rounded">Animate One Start</button>
                             <button onClick={() => setIsAnimating(false)} disabled={!isAnimating} className="flex-1 bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 p-2 rounded">Pause</button>
                         </div>
                         <div className="flex space-x-2">
                             <button onClick={regenerateData} className="flex-1 bg-slate-700 hover:bg-slate-600 p-2 rounded">Regenerate Data</button>
                             <button onClick={resetSimulation} className="flex-1 bg-slate-700 hover:bg-slate-600 p-2 rounded">Reset</button>
                         </div>
+                        <button onClick={() => currentFit && showBestFit(currentFit)} disabled={!currentFit} className="w-full bg-emerald-800 hover:bg-emerald-700 disabled:bg-slate-700 p-2 rounded">Show Best of {starts} Starts</button>
+                        <div className="text-sm text-slate-400 space-y-1">
+                            <p>
+                                EM iteration <span className="font-mono text-slate-200">{trace.length}</span>
+                                {trace.length > 0 && <>, log-likelihood <span className="font-mono text-slate-200">{trace[trace.length - 1].toFixed(2)}</span></>}
+                            </p>
+                            {currentFit && (
+                                <p>
+                                    Best of {starts} starts for K = {k}: <span className="font-mono text-slate-200">{currentFit.logLikelihood.toFixed(2)}</span>,
+                                    replicated by {currentFit.replicatedStarts} of {starts}
+                                    {currentFit.replicatedStarts < 2 && starts > 1 && <span className="text-amber-400"> (not replicated: add starts)</span>}
+                                </p>
+                            )}
+                        </div>
                     </div>
 
                     <div className="h-[500px]">
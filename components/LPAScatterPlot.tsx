@@ -9,39 +9,27 @@ interface LPAScatterPlotProps {
 
 const COLORS = ["rgb(236 72 153)", "rgb(163 230 53)", "rgb(251 146 60)", "rgb(168 85 247)", "rgb(250 204 21)", "rgb(20 184 166)"];
 
-const getEllipseParams = (profile: Profile) => {
+// Outline of the ~2 SD contour, traced in data space so it stays correct when the axes use different scales
+const getEllipsePoints = (profile: Profile): [number, number][] => {
     const { mean, covariance } = profile;
     const [a, b] = covariance[0];
     const c = covariance[1][1];
-    
+
     const trace = a + c;
     const det = a * c - b * b;
-    
-    // Ensure the argument to sqrt is non-negative
-    const discriminant = trace * trace / 4 - det;
-    if (discriminant < 0) return null;
-
+    const discriminant = Math.max(trace * trace / 4 - det, 0);
     const lambda1 = trace / 2 + Math.sqrt(discriminant);
-    const lambda2 = trace / 2 - Math.sqrt(discriminant);
-
-    // Scaling factor for ellipse, corresponds to ~2 std devs
-    const scale = 2; 
+    const lambda2 = Math.max(trace / 2 - Math.sqrt(discriminant), 0);
+    const angle = b !== 0 ? Math.atan2(lambda1 - a, b) : (a >= c ? 0 : Math.PI / 2);
 
+    const scale = 2;
     const rx = scale * Math.sqrt(lambda1);
     const ry = scale * Math.sqrt(lambda2);
 
-    let angle = 0;
-    if (b !== 0) {
-        angle = Math.atan2(lambda1 - a, b) * (180 / Math.PI);
-    }
-    
-    return {
-        cx: mean[0],
-        cy: mean[1],
-        rx: rx,
-        ry: ry,
-        angle: angle,
-    };
+    return d3.range(0, 2 * Math.PI + 0.001, Math.PI / 36).map(t => [
+        mean[0] + rx * Math.cos(t) * Math.cos(angle) - ry * Math.sin(t) * Math.sin(angle),
+        mean[1] + rx * Math.cos(t) * Math.sin(angle) + ry * Math.sin(t) * Math.cos(angle)
+    ]);
 };
 
 
@@ -55,10 +43,15 @@ const LPAScatterPlot: React.FC<LPAScatterPlotProps> = ({ points, profiles }) =>
         const width = 500, height = 500;
         const margin = { top: 20, right: 20, bottom: 30, left: 40 };
 
-        svg.attr('width', width).attr('height', height);
+        svg.attr('width', '100%')
+           .attr('height', '100%')
+           .attr('viewBox', `0 0 ${width} ${height}`)
+           .attr('preserveAspectRatio', 'xMidYMid meet');
 
-        const x = d3.scaleLinear().domain([0, 100]).range([margin.left, width - margin.right]);
-        const y = d3.scaleLinear().domain([0, 100]).range([height - margin.bottom, margin.top]);
+        const xExtent = d3.extent(points, d => d.x) as [number, number];
+        const yExtent = d3.extent(points, d => d.y) as [number, number];
+        const x = d3.scaleLinear().domain(points.length > 0 ? xExtent : [0, 100]).nice().range([margin.left, width - margin.right]);
+        const y = d3.scaleLinear().domain(points.length > 0 ? yExtent : [0, 100]).nice().range([height - margin.bottom, margin.top]);
 
         svg.selectAll('*').remove();
 
@@ -69,29 +62,27 @@ const LPAScatterPlot: React.FC<LPAScatterPlotProps> = ({ points, profiles }) =>
         
         const chartArea = svg.append('g');
 
+        svg.append('defs').append('clipPath')
+            .attr('id', 'lpa-clip')
+            .append('rect')
+            .attr('x', margin.left)
+            .attr('y', margin.top)
+            .attr('width', width - margin.left - margin.right)
+            .attr('height', height - margin.top - margin.bottom);
+        chartArea.attr('clip-path', 'url(#lpa-clip)');
+
+        const outline = d3.line<[number, number]>().x(d => x(d[0])).y(d => y(d[1]));
+
         // Ellipses
-        chartArea.selectAll('ellipse')
+        chartArea.selectAll('path.profile')
             .data(profiles)
-            .join('ellipse')
-            .attr('fill', d => COLORS[d.id])
+            .join('path')
+            .attr('class', 'profile')
+            .attr('fill', d => COLORS[d.id % COLORS.length])
             .attr('fill-opacity', 0.2)
-            .attr('stroke', d => COLORS[d.id])
+            .attr('stroke', d => COLORS[d.id % COLORS.length])
             .attr('stroke-width', 1.5)
-            .transition().duration(500)
-            .attr('transform', d => {
-                const params = getEllipseParams(d);
-                if (!params) return '';
-                return `translate(${x(params.cx)}, ${y(params.cy)}) rotate(${params.angle})`;
-            })
-            .attr('rx', d => {
-                const params = getEllipseParams(d);
-                return params ? params.rx * (width - margin.left - margin.right) / 100 : 0;
-            })
-            .attr('ry', d => {
-                const params = getEllipseParams(d);
-                return params ? params.ry * (height - margin.top - margin.bottom) / 100 : 0;
-            });
-
+            .attr('d', d => outline(getEllipsePoints(d)));
 
         // Points
         chartArea.selectAll('circle.point')
@@ -102,7 +93,7 @@ const LPAScatterPlot: React.FC<LPAScatterPlotProps> = ({ points, profiles }) =>
             .attr('cy', d => y(d.y))
             .attr('r', 4)
             .transition().duration(500)
-            .attr('fill', d => d.profileId !== null ? d3.color(COLORS[d.profileId])?.copy({opacity: 0.9}) + '' : 'rgb(100 116 139)');
+            .attr('fill', d => d.profileId !== null ? d3.color(COLORS[d.profileId % COLORS.length])?.copy({opacity: 0.9}) + '' : 'rgb(100 116 139)');
         
     }, [points, profiles]);
 
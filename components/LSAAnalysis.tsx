@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { StudentSequence, StudentAction } from '../types';
-import { generateSequenceData, calculateLagSequentialAnalysis } from '../services/statisticsService';
+import { StudentSequence, StudentAction, LagAnalysisResult, TransitionMatrix } from '../types';
+import { generateSequenceData, calculateLagProfile } from '../services/statisticsService';
 import { getChatResponse } from '../services/geminiService';
 import TransitionGraph from './TransitionGraph';
 import UnifiedGenAIChat, { Message } from './UnifiedGenAIChat';
@@ -20,10 +20,55 @@ const Slider: React.FC<{ label: string, value: number, min: number, max: number,
 );
 
 const ALL_ACTIONS: StudentAction[] = ['V', 'Q', 'A', 'F', 'P', 'E'];
+const MAX_LAG = 5;
+
+type MatrixStatistic = 'zScores' | 'yulesQ' | 'transitionProbabilities' | 'observed';
+
+const STATISTIC_LABELS: Record<MatrixStatistic, string> = {
+    zScores: 'Adjusted residual (z)',
+    yulesQ: "Yule's Q",
+    transitionProbabilities: 'Transition probability',
+    observed: 'Observed count'
+};
+
+const formatPValue = (p: number) => (p < 0.001 ? '< .001' : p.toFixed(3));
+
+const TransitionTable: React.FC<{ result: LagAnalysisResult; statistic: MatrixStatistic; significance: TransitionMatrix; alpha: number; selected: [StudentAction, StudentAction]; onSelect: (cell: [StudentAction, StudentAction]) => void }> = ({ result, statistic, significance, alpha, selected, onSelect }) => (
+    <table className="w-full text-xs font-mono text-center">
+        <thead>
+            <tr className="text-slate-400">
+                <th className="py-1 text-left">from \ to</th>
+                {result.actions.map(to => <th key={to}>{to}</th>)}
+            </tr>
+        </thead>
+        <tbody>
+            {result.actions.map(from => (
+                <tr key={from} className="border-t border-slate-700">
+                    <td className="py-1 text-left text-slate-400">{from}</td>
+                    {result.actions.map(to => {
+                        const value = result[statistic][from][to];
+                        const isSignificant = significance[from][to] < alpha;
+                        const isSelected = selected[0] === from && selected[1] === to;
+                        return (
+                            <td key={to} onClick={() => onSelect([from, to])}
+                                className={`cursor-pointer ${isSignificant ? (result.zScores[from][to] > 0 ? 'text-blue-300 font-bold' : 'text-red-300 font-bold') : 'text-slate-400'} ${isSelected ? 'bg-slate-600' : 'hover:bg-slate-700'}`}>
+                                {statistic === 'observed' ? value : value.toFixed(2)}
+                            </td>
+                        );
+                    })}
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
 
 const LSAAnalysis: React.FC<LSAAnalysisProps> = ({ onBack }) => {
     const [sequences, setSequences] = useState<StudentSequence[]>(() => generateSequenceData(100));
     const [lag, setLag] = useState(1);
+    const [alpha, setAlpha] = useState(0.05);
+    const [holmCorrection, setHolmCorrection] = useState(false);
+    const [statistic, setStatistic] = useState<MatrixStatistic>('zScores');
+    const [selectedTransition, setSelectedTransition] = useState<[StudentAction, StudentAction]>(['Q', 'P']);
 
     // Chat state
     const [chatHistory, setChatHistory] = useState<Message[]>([
@@ -33,13 +78,26 @@ const LSAAnalysis: React.FC<LSAAnalysisProps> = ({ onBack }) => {
 
     const regenerateData = useCallback(() => setSequences(generateSequenceData(100)), []);
 
-    const { resultA, resultB } = useMemo(() => {
-        const sequencesA = sequences.filter(s => s.group === 'Group A');
-        const sequencesB = sequences.filter(s => s.group === 'Group B');
-        const resultA = calculateLagSequentialAnalysis(sequencesA, lag);
-        const resultB = calculateLagSequentialAnalysis(sequencesB, lag);
-        return { resultA, resultB };
-    }, [sequences, lag]);
+    // Every lag up to MAX_LAG, so the profile of one transition across lags is available too
+    const { profileA, profileB } = useMemo(() => ({
+        profileA: calculateLagProfile(sequences.filter(s => s.group === 'Group A'), MAX_LAG),
+        profileB: calculateLagProfile(sequences.filter(s => s.group === 'Group B'), MAX_LAG)
+    }), [sequences]);
+
+    const resultA = profileA[lag - 1];
+    const resultB = profileB[lag - 1];
+    const significanceOf = (result: LagAnalysisResult) => (holmCorrection ? result.adjustedPValues : result.pValues);
+
+    const significantTransitions = (result: LagAnalysisResult) => {
+        const pValues = significanceOf(result);
+        return result.actions
+            .flatMap(from => result.actions.map(to => ({ from, to, z: result.zScores[from][to], q: result.yulesQ[from][to] })))
+            .filter(({ from, to }) => pValues[from][to] < alpha)
+            .sort((a, b) => Math.abs(b.z) - Math.abs(a.z));
+    };
+    const significantA = significantTransitions(resultA);
+    const significantB = significantTransitions(resultB);
+    const [selectedFrom, selectedTo] = selectedTransition;
 
     const handleSendMessage = useCallback(async (msg: string) => {
         setIsChatLoading(true);
@@ -50,9 +108,13 @@ const LSAAnalysis: React.FC<LSAAnalysisProps> = ({ onBack }) => {
             Current Lag: ${lag}
             Comparing Group A (High-Achievers) vs Group B (Low-Achievers).
             Available Actions: Video(V), Quiz(Q), Answer(A), Forum(F), Pass(P), Error(E).
-            
+            Edges are drawn only when the Allison-Liker adjusted residual is significant at ${alpha}${holmCorrection ? ' after Holm correction across all cells' : ''}.
+            Group A: chi-square(${resultA.chiSquare.df}) = ${resultA.chiSquare.statistic.toFixed(1)}, p ${formatPValue(resultA.chiSquare.pValue)}; significant: ${significantA.map(t => `${t.from}→${t.to} (z ${t.z.toFixed(1)}, Q ${t.q.toFixed(2)})`).join(', ') || 'none'}
+            Group B: chi-square(${resultB.chiSquare.df}) = ${resultB.chiSquare.statistic.toFixed(1)}, p ${formatPValue(resultB.chiSquare.pValue)}; significant: ${significantB.map(t => `${t.from}→${t.to} (z ${t.z.toFixed(1)}, Q ${t.q.toFixed(2)})`).join(', ') || 'none'}
+            Lag profile of ${selectedFrom}→${selectedTo} (z at lags 1-${MAX_LAG}): A ${profileA.map(r => r.zScores[selectedFrom]?.[selectedTo]?.toFixed(1) ?? 'n/a').join(', ')}; B ${profileB.map(r => r.zScores[selectedFrom]?.[selectedTo]?.toFixed(1) ?? 'n/a').join(', ')}
+
             User Question: ${msg}
-            
+
             Explain the significant transitions found in the graphs and what they imply about learning strategies.
         `;
 
@@ -64,7 +126,7 @@ const LSAAnalysis: React.FC<LSAAnalysisProps> = ({ onBack }) => {
         } finally {
             setIsChatLoading(false);
         }
-    }, [lag]);
+    }, [lag, alpha, holmCorrection, resultA, resultB, significantA, significantB, selectedFrom, selectedTo, profileA, profileB]);
 
     return (
         <div className="w-full max-w-7xl mx-auto">
@@ -76,14 +138,85 @@ const LSAAnalysis: React.FC<LSAAnalysisProps> = ({ onBack }) => {
                 </div>
             </header>
             <main className="grid grid-cols-1 lg:grid-cols-5 gap-8">
-                <div className="lg:col-span-3 grid grid-cols-1 md:grid-cols-2 gap-4 bg-slate-800 rounded-lg shadow-2xl p-4">
-                    <TransitionGraph title="Group A (High-Achievers)" result={resultA} actions={ALL_ACTIONS} />
-                    <TransitionGraph title="Group B (Low-Achievers)" result={resultB} actions={ALL_ACTIONS} />
+                <div className="lg:col-span-3 space-y-6">
+                    <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 min-h-[400px]">
+                            <TransitionGraph title="Group A (High-Achievers)" result={resultA} actions={ALL_ACTIONS} alpha={alpha} holmCorrection={holmCorrection} />
+                            <TransitionGraph title="Group B (Low-Achievers)" result={resultB} actions={ALL_ACTIONS} alpha={alpha} holmCorrection={holmCorrection} />
+                        </div>
+                        <p className="text-xs text-slate-400 text-center mt-2">
+                            Only significant transitions are drawn: <span className="text-blue-400">blue</span> happen more often than chance, <span className="text-red-400">red</span> less often. Hover an edge for z, Yule's Q and the transition probability.
+                        </p>
+                    </div>
+
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="text-lg font-semibold text-blue-400">Transition Matrices (lag {lag})</h3>
+                            <select value={statistic} onChange={e => setStatistic(e.target.value as MatrixStatistic)} className="bg-slate-700 text-slate-200 text-sm p-1 rounded">
+                                {(Object.keys(STATISTIC_LABELS) as MatrixStatistic[]).map(s => <option key={s} value={s}>{STATISTIC_LABELS[s]}</option>)}
+                            </select>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            {[{ label: 'Group A', result: resultA }, { label: 'Group B', result: resultB }].map(({ label, result }) => (
+                                <div key={label}>
+                                    <h4 className="text-sm font-semibold text-slate-300 mb-1">{label}</h4>
+                                    <p className="text-xs font-mono text-slate-400 mb-2">
+                                        χ²({result.chiSquare.df}) = {result.chiSquare.statistic.toFixed(1)}, p {formatPValue(result.chiSquare.pValue)}, N = {result.totalTransitions}
+                                    </p>
+                                    <TransitionTable result={result} statistic={statistic} significance={significanceOf(result)} alpha={alpha} selected={selectedTransition} onSelect={setSelectedTransition} />
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-xs text-slate-400 mt-3">Bold cells are significant. Click a cell to follow that transition across lags.</p>
+                    </div>
+
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
+                        <h3 className="text-lg font-semibold text-blue-400 mb-4">Lag Profile: {selectedFrom} → {selectedTo}</h3>
+                        <table className="w-full text-sm font-mono">
+                            <thead>
+                                <tr className="text-slate-400 text-left">
+                                    <th className="py-1">Lag</th>
+                                    <th>z (A)</th>
+                                    <th>Q (A)</th>
+                                    <th>z (B)</th>
+                                    <th>Q (B)</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {profileA.map((rA, i) => {
+                                    const rB = profileB[i];
+                                    const cell = (r: LagAnalysisResult, stat: 'zScores' | 'yulesQ') => r[stat][selectedFrom]?.[selectedTo];
+                                    const isSignificant = (r: LagAnalysisResult) => (significanceOf(r)[selectedFrom]?.[selectedTo] ?? 1) < alpha;
+                                    return (
+                                        <tr key={i} onClick={() => setLag(i + 1)} className={`cursor-pointer border-t border-slate-700 hover:bg-slate-700/50 ${i + 1 === lag ? 'text-amber-300' : 'text-slate-300'}`}>
+                                            <td className="py-1">{i + 1}</td>
+                                            <td className={isSignificant(rA) ? 'font-bold' : ''}>{cell(rA, 'zScores')?.toFixed(2) ?? '–'}</td>
+                                            <td>{cell(rA, 'yulesQ')?.toFixed(2) ?? '–'}</td>
+                                            <td className={isSignificant(rB) ? 'font-bold' : ''}>{cell(rB, 'zScores')?.toFixed(2) ?? '–'}</td>
+                                            <td>{cell(rB, 'yulesQ')?.toFixed(2) ?? '–'}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
                 </div>
                 <div className="lg:col-span-2 flex flex-col space-y-8">
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-4">
                         <h3 className="text-lg font-semibold text-blue-400 mb-2">Analysis Controls</h3>
-                        <Slider label="Lag" value={lag} min={1} max={3} step={1} onChange={e => setLag(+e.target.value)} />
+                        <Slider label="Lag" value={lag} min={1} max={MAX_LAG} step={1} onChange={e => setLag(+e.target.value)} />
+                        <div>
+                            <label className="text-sm text-slate-400">Significance level</label>
+                            <div className="flex mt-1 space-x-2">
+                                {[0.05, 0.01, 0.001].map(a => (
+                                    <button key={a} onClick={() => setAlpha(a)} className={`flex-1 py-1 rounded text-sm font-mono ${alpha === a ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>{a}</button>
+                                ))}
+                            </div>
+                        </div>
+                        <label className="flex items-center space-x-2 text-sm text-slate-400">
+                            <input type="checkbox" checked={holmCorrection} onChange={e => setHolmCorrection(e.target.checked)} />
+                            <span>Holm correction across all {ALL_ACTIONS.length * ALL_ACTIONS.length} cells</span>
+                        </label>
                         <button onClick={regenerateData} className="w-full mt-4 bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg">Regenerate Data</button>
                     </div>
 
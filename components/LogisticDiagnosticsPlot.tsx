@@ -0,0 +1,77 @@
+import React, { useRef, useEffect } from 'react';
+import * as d3 from 'd3';
+import { RocPoint, CalibrationResult } from '../types';
+
+interface LogisticDiagnosticsPlotProps {
+    roc: { points: RocPoint[], auc: number };
+    calibration: CalibrationResult;
+    operatingPoint: { fpr: number, tpr: number }; // at the current threshold
+}
+
+const LogisticDiagnosticsPlot: React.FC<LogisticDiagnosticsPlotProps> = ({ roc, calibration, operatingPoint }) => {
+    const svgRef = useRef<SVGSVGElement | null>(null);
+
+    useEffect(() => {
+        if (!svgRef.current) return;
+
+        const svg = d3.select(svgRef.current);
+        const width = 600;
+        const height = 300;
+        const panelWidth = width / 2;
+        const margin = { top: 30, right: 15, bottom: 40, left: 45 };
+
+        svg.attr('width', '100%')
+           .attr('height', '100%')
+           .attr('viewBox', `0 0 ${width} ${height}`)
+           .attr('preserveAspectRatio', 'xMidYMid meet');
+
+        svg.selectAll('*').remove();
+        svg.append('rect').attr('width', width).attr('height', height).attr('fill', 'rgb(30 41 59)');
+
+        const panel = (index: number, title: string, xLabel: string, yLabel: string) => {
+            const g = svg.append('g').attr('transform', `translate(${index * panelWidth},0)`);
+            const x = d3.scaleLinear().domain([0, 1]).range([margin.left, panelWidth - margin.right]);
+            const y = d3.scaleLinear().domain([0, 1]).range([height - margin.bottom, margin.top]);
+            g.append('g').attr('transform', `translate(0,${height - margin.bottom})`).call(d3.axisBottom(x).ticks(5)).attr('color', 'rgb(100 116 139)');
+            g.append('g').attr('transform', `translate(${margin.left},0)`).call(d3.axisLeft(y).ticks(5)).attr('color', 'rgb(100 116 139)');
+            g.append('text').attr('x', (margin.left + panelWidth - margin.right) / 2).attr('y', 18).attr('text-anchor', 'middle')
+                .text(title).style('fill', 'rgb(203 213 225)').style('font-size', '12px');
+            g.append('text').attr('x', (margin.left + panelWidth - margin.right) / 2).attr('y', height - 6).attr('text-anchor', 'middle')
+                .text(xLabel).style('fill', 'rgb(148 163 184)').style('font-size', '11px');
+            g.append('text').attr('transform', 'rotate(-90)').attr('x', -height / 2).attr('y', 12).attr('text-anchor', 'middle')
+                .text(yLabel).style('fill', 'rgb(148 163 184)').style('font-size', '11px');
+            // Chance / perfect calibration diagonal
+            g.append('line').attr('x1', x(0)).attr('y1', y(0)).attr('x2', x(1)).attr('y2', y(1))
+                .attr('stroke', 'rgb(100 116 139)').attr('stroke-dasharray', '3,3');
+            return { g, x, y };
+        };
+
+        // ROC curve
+        const rocPanel = panel(0, `ROC curve (AUC = ${roc.auc.toFixed(3)})`, 'False positive rate (1 − specificity)', 'True positive rate (sensitivity)');
+        const rocLine = d3.line<RocPoint>().x(p => rocPanel.x(p.fpr)).y(p => rocPanel.y(p.tpr));
+        rocPanel.g.append('path').datum(roc.points).attr('d', rocLine)
+            .attr('fill', 'none').attr('stroke', 'rgb(56 189 248)').attr('stroke-width', 2);
+        rocPanel.g.append('circle').attr('cx', rocPanel.x(operatingPoint.fpr)).attr('cy', rocPanel.y(operatingPoint.tpr)).attr('r', 6)
+            .attr('fill', 'white').attr('stroke', 'rgb(56 189 248)').attr('stroke-width', 2);
+
+        // Calibration by risk group
+        const hl = calibration.hosmerLemeshow;
+        const calPanel = panel(1, `Calibration (H-L χ²(${hl.df}) = ${hl.chiSquare.toFixed(2)}, p = ${hl.p < 0.001 ? '<.001' : hl.p.toFixed(3)})`, 'Mean predicted probability', 'Observed proportion');
+        calPanel.g.append('g').selectAll('line').data(calibration.bins).join('line')
+            .attr('x1', b => calPanel.x(b.meanPredicted)).attr('x2', b => calPanel.x(b.meanPredicted))
+            .attr('y1', b => calPanel.y(b.lower)).attr('y2', b => calPanel.y(b.upper))
+            .attr('stroke', 'rgb(251 191 36)').attr('opacity', 0.6);
+        calPanel.g.append('path').datum(calibration.bins)
+            .attr('d', d3.line<typeof calibration.bins[number]>().x(b => calPanel.x(b.meanPredicted)).y(b => calPanel.y(b.observedRate)))
+            .attr('fill', 'none').attr('stroke', 'rgb(251 191 36)').attr('stroke-width', 2);
+        calPanel.g.append('g').selectAll('circle').data(calibration.bins).join('circle')
+            .attr('cx', b => calPanel.x(b.meanPredicted)).attr('cy', b => calPanel.y(b.observedRate))
+            .attr('r', b => 2 + Math.sqrt(b.count))
+            .attr('fill', 'rgb(251 191 36)').attr('opacity', 0.8);
+
+    }, [roc, calibration, operatingPoint]);
+
+    return <svg ref={svgRef}></svg>;
+};
+
+export default LogisticDiagnosticsPlot;
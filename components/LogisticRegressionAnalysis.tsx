@@ -1,51 +1,150 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { LogisticPoint, LogisticCurveParams } from '../types';
-import { calculateLogisticRegression, predictLogisticProbability } from '../services/statisticsService';
+import React, { useState, useCallback, useMemo } from 'react';
+import { LogisticPoint, LogisticCurveParams, NumericTable } from '../types';
+import {
+    fitLogisticRegression, predictLogisticProbability, calculateConfusionMatrix, calculateRocCurve, calculateCalibrationCurve,
+    parseNumericTable
+} from '../services/statisticsService';
+import { normalRandom } from '../services/distributionService';
 import { getChatResponse } from '../services/geminiService';
 import LogisticRegressionPlot from './LogisticRegressionPlot';
+import LogisticDiagnosticsPlot from './LogisticDiagnosticsPlot';
 import UnifiedGenAIChat, { Message } from './UnifiedGenAIChat';
 
 interface LogisticRegressionAnalysisProps {
     onBack: () => void;
 }
 
+const SAMPLE_X_LABEL = 'Study Hours';
+
+// Pass/fail driven by study hours, prior GPA and attendance
 const generateInitialData = (count: number): LogisticPoint[] => {
     return Array.from({ length: count }, (_, i) => {
-        const outcome = Math.random() > 0.5 ? 1 : 0;
-        const x = (outcome === 1 ? 60 : 40) + (Math.random() - 0.5) * 40;
+        const x = Math.random() * 40;
+        const priorGPA = Math.max(0, Math.min(4, normalRandom(3, 0.5)));
+        const attendance = 50 + Math.random() * 50;
+        const logit = -9 + 0.15 * x + 1.5 * priorGPA + 0.03 * attendance;
         return {
             id: i,
-            x: Math.max(0, Math.min(100, x)),
-            outcome,
+            x,
+            outcome: Math.random() < 1 / (1 + Math.exp(-logit)) ? 1 : 0,
+            covariates: { priorGPA, attendance }
         };
     });
 };
 
+const formatPValue = (p: number) => (p < 0.001 ? '<.001' : p.toFixed(3));
+const formatNumber = (v: number) => (Math.abs(v) >= 1e4 || (Math.abs(v) < 1e-3 && v !== 0) ? v.toExponential(2) : v.toFixed(3));
+
 const LogisticRegressionAnalysis: React.FC<LogisticRegressionAnalysisProps> = ({ onBack }) => {
-    const [points, setPoints] = useState<LogisticPoint[]>(() => generateInitialData(40));
-    const [curveParams, setCurveParams] = useState<LogisticCurveParams>({ beta0: 0, beta1: 0 });
+    const [points, setPoints] = useState<LogisticPoint[]>(() => generateInitialData(80));
+    const [xLabel, setXLabel] = useState(SAMPLE_X_LABEL);
+    const [xDomain, setXDomain] = useState<[number, number]>([0, 40]);
+    const [includedCovariates, setIncludedCovariates] = useState<string[]>(['priorGPA', 'attendance']);
+    const [threshold, setThreshold] = useState(0.5);
     const [selectedPoint, setSelectedPoint] = useState<LogisticPoint | null>(null);
 
+    // Uploaded data
+    const [uploadText, setUploadText] = useState('');
+    const [uploadMessage, setUploadMessage] = useState<string | null>(null);
+    const [table, setTable] = useState<NumericTable | null>(null);
+    const [outcomeColumn, setOutcomeColumn] = useState('');
+
     // Chat state
     const [chatHistory, setChatHistory] = useState<Message[]>([
         { text: "Hello! I'm Dr. Gem. I can explain how we predict binary outcomes (like Pass/Fail). Click on a point to see its predicted probability!", role: 'model' }
     ]);
     const [isChatLoading, setIsChatLoading] = useState(false);
 
+    const covariateNames = useMemo(() => Object.keys(points[0]?.covariates ?? {}), [points]);
+    const activeCovariates = useMemo(() => covariateNames.filter(c => includedCovariates.includes(c)), [covariateNames, includedCovariates]);
+    const outcomes = useMemo(() => points.map(p => p.outcome), [points]);
+    const canFit = points.length > activeCovariates.length + 2 && outcomes.some(o => o === 1) && outcomes.some(o => o === 0);
+
+    const fit = useMemo(() => {
+        if (!canFit) return null;
+        const X = points.map(p => [p.x, ...activeCovariates.map(c => p.covariates?.[c] ?? 0)]);
+        return fitLogisticRegression(X, outcomes, [xLabel, ...activeCovariates]);
+    }, [points, outcomes, activeCovariates, xLabel, canFit]);
+
+    const covariateMeans = useMemo(
+        () => Object.fromEntries(covariateNames.map(c => [c, points.reduce((sum, p) => sum + (p.covariates?.[c] ?? 0), 0) / Math.max(points.length, 1)])),
+        [points, covariateNames]
+    );
+
+    // The plotted curve holds the other predictors at their means
+    const curveParams = useMemo<LogisticCurveParams>(() => {
+        if (!fit) return { beta0: 0, beta1: 0 };
+        const shift = activeCovariates.reduce((sum, c, j) => sum + fit.coefficients[j + 2].estimate * covariateMeans[c], 0);
+        return { beta0: fit.coefficients[0].estimate + shift, beta1: fit.coefficients[1].estimate };
+    }, [fit, activeCovariates, covariateMeans]);
+
+    const confusion = useMemo(() => (fit ? calculateConfusionMatrix(fit.fitted, outcomes, threshold) : null), [fit, outcomes, threshold]);
+    const roc = useMemo(() => (fit ? calculateRocCurve(fit.fitted, outcomes) : null), [fit, outcomes]);
+    const calibration = useMemo(() => (fit ? calculateCalibrationCurve(fit.fitted, outcomes) : null), [fit, outcomes]);
+    const operatingPoint = useMemo(() => (confusion ? { fpr: 1 - confusion.specificity, tpr: confusion.sensitivity } : { fpr: 0, tpr: 0 }), [confusion]);
+
     const updatePoint = useCallback((id: number, newX: number, newOutcome: 0 | 1) => {
         setPoints(prev => prev.map(p => p.id === id ? { ...p, x: newX, outcome: newOutcome } : p));
     }, []);
 
+    // New points get the other predictors at their current means
     const addPoint = useCallback((x: number, outcome: 0 | 1) => {
-        setPoints(prev => [...prev, { id: Date.now(), x, outcome }]);
-    }, []);
+        setPoints(prev => [...prev, { id: Date.now(), x, outcome, covariates: prev[0]?.covariates ? { ...covariateMeans } : undefined }]);
+    }, [covariateMeans]);
+
+    const resetData = () => {
+        setPoints(generateInitialData(80));
+        setXLabel(SAMPLE_X_LABEL);
+        setXDomain([0, 40]);
+        setIncludedCovariates(['priorGPA', 'attendance']);
+        setTable(null);
+        setUploadMessage(null);
+        setSelectedPoint(null);
+    };
+
+    const buildPoints = (source: NumericTable, outcome: string, predictor: string): LogisticPoint[] => {
+        const base = Date.now(); // fresh ids so the plot re-binds its drag handlers
+        return source.rows.map((row, i) => ({
+            id: base + i,
+            x: row[predictor],
+            outcome: row[outcome] === 1 ? 1 : 0,
+            covariates: Object.fromEntries(source.columns.filter(c => c !== outcome && c !== predictor).map(c => [c, row[c]]))
+        }));
+    };
 
-    const resetData = () => setPoints(generateInitialData(40));
+    const applyColumns = (source: NumericTable, outcome: string, predictor: string) => {
+        const values = source.rows.map(r => r[predictor]);
+        const [min, max] = [Math.min(...values), Math.max(...values)];
+        const pad = (max - min) * 0.05 || 1;
+        setPoints(buildPoints(source, outcome, predictor));
+        setOutcomeColumn(outcome);
+        setXLabel(predictor);
+        setXDomain([min - pad, max + pad]);
+        setIncludedCovariates(source.columns.filter(c => c !== outcome && c !== predictor));
+        setSelectedPoint(null);
+    };
 
-    useEffect(() => {
-        const params = calculateLogisticRegression(points);
-        setCurveParams(params);
-    }, [points]);
+    const handleLoadData = () => {
+        const parsed = parseNumericTable(uploadText);
+        const binary = parsed.columns.filter(c => parsed.rows.every(r => r[c] === 0 || r[c] === 1));
+        if (binary.length === 0 || parsed.columns.length < 2 || parsed.rows.length < 10) {
+            setUploadMessage('Need a header row, at least 10 rows, one 0/1 outcome column and at least one numeric predictor.');
+            return;
+        }
+        const outcome = binary[0];
+        const predictor = parsed.columns.find(c => c !== outcome)!;
+        setTable(parsed);
+        applyColumns(parsed, outcome, predictor);
+        setUploadMessage(`Loaded ${parsed.rows.length} rows; outcome "${outcome}"${parsed.skippedRows > 0 ? ` (${parsed.skippedRows} incomplete rows dropped)` : ''}.`);
+    };
+
+    const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => setUploadText(String(reader.result ?? ''));
+        reader.readAsText(file);
+    };
 
     const handlePointSelect = useCallback((point: LogisticPoint | null) => {
         setSelectedPoint(point);
@@ -53,28 +152,34 @@ const LogisticRegressionAnalysis: React.FC<LogisticRegressionAnalysisProps> = ({
 
     const decisionBoundary = useMemo(() => {
         if (curveParams.beta1 === 0) return null;
-        return -curveParams.beta0 / curveParams.beta1;
-    }, [curveParams]);
+        return (Math.log(threshold / (1 - threshold)) - curveParams.beta0) / curveParams.beta1;
+    }, [curveParams, threshold]);
 
     const handleSendMessage = useCallback(async (msg: string) => {
         setIsChatLoading(true);
         setChatHistory(prev => [...prev, { text: msg, role: 'user' }]);
 
         let selectedPointInfo = '';
-        if (selectedPoint) {
-            const prob = predictLogisticProbability(selectedPoint.x, curveParams);
-            selectedPointInfo = `Selected Point: x=${selectedPoint.x.toFixed(1)}, Outcome=${selectedPoint.outcome}, Predicted Prob=${prob.toFixed(3)}.`;
+        if (selectedPoint && fit) {
+            const index = points.findIndex(p => p.id === selectedPoint.id);
+            const prob = index >= 0 ? fit.fitted[index] : predictLogisticProbability(selectedPoint.x, curveParams);
+            selectedPointInfo = `Selected Point: ${xLabel}=${selectedPoint.x.toFixed(1)}, Outcome=${selectedPoint.outcome}, Predicted Prob=${prob.toFixed(3)}.`;
         }
 
         const context = `
-            We are analyzing Logistic Regression.
-            Decision Boundary (x value where prob=0.5): ${decisionBoundary !== null ? decisionBoundary.toFixed(2) : 'N/A'}
-            Curve Parameters: Beta0=${curveParams.beta0.toFixed(3)}, Beta1=${curveParams.beta1.toFixed(3)}
+            We are analyzing Logistic Regression fitted by maximum likelihood (IRLS), n = ${points.length}.
+            ${fit ? `Coefficients (B, SE, Wald z, p, odds ratio [95% CI]):
+            ${fit.coefficients.map(c => `${c.term}: ${c.estimate.toFixed(4)}, ${c.se.toFixed(4)}, ${c.z.toFixed(2)}, ${formatPValue(c.p)}, OR ${formatNumber(c.oddsRatio)} [${formatNumber(c.orLower)}, ${formatNumber(c.orUpper)}]`).join('\n            ')}
+            Null deviance ${fit.nullDeviance.toFixed(2)} on ${fit.n - 1} df; residual deviance ${fit.deviance.toFixed(2)} on ${fit.n - fit.coefficients.length} df; AIC ${fit.aic.toFixed(2)}
+            Likelihood ratio chi-square(${fit.lrDf}) = ${fit.lrChiSquare.toFixed(2)}, p ${formatPValue(fit.lrPValue)}; McFadden R² = ${fit.mcFaddenR2.toFixed(3)}${fit.separation ? '\n            WARNING: (quasi-)complete separation; estimates are unreliable.' : ''}` : 'Model cannot be fitted: both outcomes are needed.'}
+            ${confusion ? `Threshold ${threshold.toFixed(2)}: TP=${confusion.truePositive}, FP=${confusion.falsePositive}, TN=${confusion.trueNegative}, FN=${confusion.falseNegative}; accuracy ${(confusion.accuracy * 100).toFixed(1)}%, sensitivity ${(confusion.sensitivity * 100).toFixed(1)}%, specificity ${(confusion.specificity * 100).toFixed(1)}%` : ''}
+            ${roc ? `AUC = ${roc.auc.toFixed(3)}` : ''}${calibration ? `; Hosmer-Lemeshow chi-square(${calibration.hosmerLemeshow.df}) = ${calibration.hosmerLemeshow.chiSquare.toFixed(2)}, p ${formatPValue(calibration.hosmerLemeshow.p)}` : ''}
+            Decision boundary on ${xLabel} (others at their means): ${decisionBoundary !== null && isFinite(decisionBoundary) ? decisionBoundary.toFixed(2) : 'N/A'}
             ${selectedPointInfo}
-            
+
             User Question: ${msg}
-            
-            Explain the relationship between the study hours (x) and the probability of passing.
+
+            Explain the relationship between ${xLabel} and the probability of the outcome, and how to read the odds ratios, fit statistics, ROC and calibration.
         `;
 
         try {
@@ -85,7 +190,7 @@ const LogisticRegressionAnalysis: React.FC<LogisticRegressionAnalysisProps> = ({
         } finally {
             setIsChatLoading(false);
         }
-    }, [curveParams, decisionBoundary, selectedPoint]);
+    }, [fit, confusion, roc, calibration, threshold, decisionBoundary, selectedPoint, points, curveParams, xLabel]);
 
     return (
         <div className="w-full max-w-6xl mx-auto">
@@ -93,39 +198,169 @@ const LogisticRegressionAnalysis: React.FC<LogisticRegressionAnalysisProps> = ({
                 <button onClick={onBack} className="text-sky-400 hover:text-sky-300 mb-4 inline-block">&larr; Back to Portal</button>
                 <div className="text-center">
                     <h1 className="text-4xl font-bold text-sky-400">Logistic Regression</h1>
-                    <p className="text-slate-400 mt-2">Predict a binary outcome (Pass/Fail) based on a variable (Study Hours).</p>
+                    <p className="text-slate-400 mt-2">Predict a binary outcome (Pass/Fail) from study hours and other predictors, with maximum-likelihood estimates.</p>
                 </div>
             </header>
 
             <main className="grid grid-cols-1 lg:grid-cols-5 gap-8">
-                <div className="lg:col-span-3 bg-slate-800 rounded-lg shadow-2xl p-4">
-                    <LogisticRegressionPlot
-                        data={points}
-                        curveParams={curveParams}
-                        onUpdatePoint={updatePoint}
-                        onAddPoint={addPoint}
-                        onSelectPoint={handlePointSelect}
-                        selectedPointId={selectedPoint?.id}
-                    />
+                <div className="lg:col-span-3 space-y-8">
+                    <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
+                        <LogisticRegressionPlot
+                            data={points}
+                            curveParams={curveParams}
+                            onUpdatePoint={updatePoint}
+                            onAddPoint={addPoint}
+                            onSelectPoint={handlePointSelect}
+                            selectedPointId={selectedPoint?.id}
+                            xDomain={xDomain}
+                            threshold={threshold}
+                            xLabel={activeCovariates.length > 0 ? `${xLabel} (other predictors at their means)` : xLabel}
+                        />
+                    </div>
+                    {fit && (
+                        <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
+                            <h3 className="text-lg font-semibold text-sky-400 mb-2">Coefficients</h3>
+                            <table className="w-full text-sm font-mono text-slate-300">
+                                <thead>
+                                    <tr className="text-slate-400 text-xs border-b border-slate-700">
+                                        <th className="text-left font-normal pb-1">Term</th>
+                                        <th className="text-right font-normal pb-1">B</th>
+                                        <th className="text-right font-normal pb-1">SE</th>
+                                        <th className="text-right font-normal pb-1">z</th>
+                                        <th className="text-right font-normal pb-1">p</th>
+                                        <th className="text-right font-normal pb-1">Odds ratio [95% CI]</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {fit.coefficients.map(c => (
+                                        <tr key={c.term} className="border-b border-slate-700/50">
+                                            <td className="py-1">{c.term}</td>
+                                            <td className="text-right">{c.estimate.toFixed(4)}</td>
+                                            <td className="text-right">{c.se.toFixed(4)}</td>
+                                            <td className="text-right">{c.z.toFixed(2)}</td>
+                                            <td className={`text-right ${c.p < 0.05 ? 'text-sky-300 font-bold' : ''}`}>{formatPValue(c.p)}</td>
+                                            <td className="text-right">{formatNumber(c.oddsRatio)} [{formatNumber(c.orLower)}, {formatNumber(c.orUpper)}]</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm text-slate-400 mt-3">
+                                <span>Null deviance: <span className="font-mono text-slate-200">{fit.nullDeviance.toFixed(2)}</span> on {fit.n - 1} df</span>
+                                <span>Residual deviance: <span className="font-mono text-slate-200">{fit.deviance.toFixed(2)}</span> on {fit.n - fit.coefficients.length} df</span>
+                                <span>LR χ²({fit.lrDf}) = <span className="font-mono text-slate-200">{fit.lrChiSquare.toFixed(2)}</span>, p {formatPValue(fit.lrPValue)}</span>
+                                <span>McFadden R²: <span className="font-mono text-slate-200">{fit.mcFaddenR2.toFixed(3)}</span></span>
+                                <span>AIC: <span className="font-mono text-slate-200">{fit.aic.toFixed(2)}</span></span>
+                                <span>Fisher scoring iterations: {fit.iterations}{fit.converged ? '' : ' (not converged)'}</span>
+                            </div>
+                            {fit.separation && (
+                                <p className="text-sm text-amber-400 mt-2">Fitted probabilities of 0 or 1 occurred: the outcome is (quasi-)perfectly separated, so estimates and SEs are not trustworthy.</p>
+                            )}
+                            <p className="text-xs text-slate-500 mt-2">Odds-ratio intervals are Wald intervals, exp(B ± 1.96·SE).</p>
+                        </div>
+                    )}
+                    {roc && calibration && (
+                        <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
+                            <LogisticDiagnosticsPlot roc={roc} calibration={calibration} operatingPoint={operatingPoint} />
+                        </div>
+                    )}
                 </div>
                 <div className="lg:col-span-2 flex flex-col space-y-8">
-                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-4">
                         <h3 className="text-lg font-semibold text-sky-400 mb-3">Model Info</h3>
-                        <p className="text-sm text-slate-400 mb-4">Click to add points. Drag points up or down to change their group.</p>
+                        <p className="text-sm text-slate-400">Click to add points. Drag points up or down to change their group.</p>
+                        {covariateNames.length > 0 && (
+                            <div>
+                                <span className="block text-sm text-slate-400 mb-1">Predictors besides {xLabel}</span>
+                                <div className="flex flex-wrap gap-3">
+                                    {covariateNames.map(c => (
+                                        <label key={c} className="flex items-center gap-1 text-sm text-slate-300">
+                                            <input
+                                                type="checkbox"
+                                                checked={includedCovariates.includes(c)}
+                                                onChange={() => setIncludedCovariates(prev => (prev.includes(c) ? prev.filter(v => v !== c) : [...prev, c]))}
+                                            />
+                                            {c}
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        <div>
+                            <label className="flex justify-between text-sm text-slate-400">
+                                <span>Classification Threshold</span>
+                                <span className="font-mono">{threshold.toFixed(2)}</span>
+                            </label>
+                            <input type="range" min={0.05} max={0.95} step={0.01} value={threshold} onChange={(e) => setThreshold(+e.target.value)} className="w-full h-2 bg-slate-700 rounded-lg" />
+                        </div>
                         <div className="flex justify-between items-center">
                             <span className="text-slate-300">Decision Boundary:</span>
                             <span className="text-xl font-mono bg-slate-900 px-3 py-1 rounded">
                                 {decisionBoundary === null || !isFinite(decisionBoundary) ? 'N/A' : decisionBoundary.toFixed(2)}
                             </span>
                         </div>
+                        {confusion && (
+                            <div>
+                                <table className="w-full text-sm font-mono text-slate-300 text-center">
+                                    <thead>
+                                        <tr className="text-slate-400 text-xs">
+                                            <th></th>
+                                            <th className="font-normal pb-1">Predicted 1</th>
+                                            <th className="font-normal pb-1">Predicted 0</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        <tr>
+                                            <td className="text-left text-slate-400 text-xs">Actual 1</td>
+                                            <td className="bg-sky-900/40 py-1">{confusion.truePositive}</td>
+                                            <td className="bg-slate-900/60 py-1">{confusion.falseNegative}</td>
+                                        </tr>
+                                        <tr>
+                                            <td className="text-left text-slate-400 text-xs">Actual 0</td>
+                                            <td className="bg-slate-900/60 py-1">{confusion.falsePositive}</td>
+                                            <td className="bg-sky-900/40 py-1">{confusion.trueNegative}</td>
+                                        </tr>
+                                    </tbody>
+                                </table>
+                                <div className="grid grid-cols-2 gap-1 text-sm text-slate-400 mt-2">
+                                    <span>Accuracy: <span className="font-mono text-slate-200">{(confusion.accuracy * 100).toFixed(1)}%</span></span>
+                                    <span>Precision: <span className="font-mono text-slate-200">{(confusion.precision * 100).toFixed(1)}%</span></span>
+                                    <span>Sensitivity: <span className="font-mono text-slate-200">{(confusion.sensitivity * 100).toFixed(1)}%</span></span>
+                                    <span>Specificity: <span className="font-mono text-slate-200">{(confusion.specificity * 100).toFixed(1)}%</span></span>
+                                </div>
+                            </div>
+                        )}
+                        {!fit && <p className="text-sm text-amber-400">Both outcomes (0 and 1) are needed to fit the model.</p>}
                         <button
                             onClick={resetData}
-                            className="mt-6 w-full bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200"
+                            className="w-full bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200"
                         >
                             Reset Data
                         </button>
                     </div>
 
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-3">
+                        <h3 className="text-lg font-semibold text-sky-400">Your Data</h3>
+                        <textarea value={uploadText} onChange={e => setUploadText(e.target.value)} rows={4} placeholder={'passed,hours,gpa\n1,22,3.4\n0,8,2.9'} className="w-full bg-slate-900 text-slate-200 text-xs font-mono rounded p-2" />
+                        <div className="flex gap-2">
+                            <button onClick={handleLoadData} className="flex-1 text-sm bg-sky-600 hover:bg-sky-500 text-white py-2 rounded">Load Data</button>
+                            <label className="flex-1 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 py-2 rounded text-center cursor-pointer">
+                                Upload
+                                <input type="file" accept=".csv,.tsv,.txt" onChange={handleFileUpload} className="hidden" />
+                            </label>
+                        </div>
+                        {table && (
+                            <div className="grid grid-cols-2 gap-2">
+                                <select value={outcomeColumn} onChange={(e) => applyColumns(table, e.target.value, table.columns.find(c => c !== e.target.value && c === xLabel) ?? table.columns.find(c => c !== e.target.value)!)} className="bg-slate-700 text-slate-200 p-2 rounded text-sm">
+                                    {table.columns.filter(c => table.rows.every(r => r[c] === 0 || r[c] === 1)).map(c => <option key={c} value={c}>Outcome: {c}</option>)}
+                                </select>
+                                <select value={xLabel} onChange={(e) => applyColumns(table, outcomeColumn, e.target.value)} className="bg-slate-700 text-slate-200 p-2 rounded text-sm">
+                                    {table.columns.filter(c => c !== outcomeColumn).map(c => <option key={c} value={c}>Plot: {c}</option>)}
+                                </select>
+                            </div>
+                        )}
+                        <p className="text-xs text-slate-500">{uploadMessage ?? 'Paste CSV or tab-separated data with a header row and a 0/1 outcome column.'}</p>
+                    </div>
+
                     <div className="h-[500px]">
                         <UnifiedGenAIChat
                             moduleTitle="Logistic Regression"
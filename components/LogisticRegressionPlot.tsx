@@ -12,18 +12,24 @@ interface LogisticRegressionPlotProps {
     onAddPoint: (x: number, outcome: 0 | 1) => void;
     onSelectPoint: (point: LogisticPoint | null) => void;
     selectedPointId?: number | null;
+    xDomain?: [number, number];
+    threshold?: number; // classification cut-off; the boundary is drawn where the curve crosses it
+    xLabel?: string;
 }
 
-const LogisticRegressionPlot: React.FC<LogisticRegressionPlotProps> = ({ data, curveParams, onUpdatePoint, onAddPoint, onSelectPoint, selectedPointId }) => {
+const LogisticRegressionPlot: React.FC<LogisticRegressionPlotProps> = ({ data, curveParams, onUpdatePoint, onAddPoint, onSelectPoint, selectedPointId, xDomain = [0, 100], threshold = 0.5, xLabel }) => {
     const svgRef = useRef<SVGSVGElement | null>(null);
     const width = 500, height = 500;
-    const margin = { top: 20, right: 20, bottom: 30, left: 40 };
+    const margin = { top: 20, right: 20, bottom: 45, left: 45 };
 
     useEffect(() => {
         if (!svgRef.current) return;
 
         const svg = d3.select(svgRef.current);
-        svg.attr('width', width).attr('height', height);
+        svg.attr('width', '100%')
+           .attr('height', '100%')
+           .attr('viewBox', `0 0 ${width} ${height}`)
+           .attr('preserveAspectRatio', 'xMidYMid meet');
 
         // Initialize layers
         if (svg.select('.bg-layer').empty()) {
@@ -36,6 +42,9 @@ const LogisticRegressionPlot: React.FC<LogisticRegressionPlotProps> = ({ data, c
             svg.append('g').attr('class', 'grid-y');
             svg.append('g').attr('class', 'x-axis');
             svg.append('g').attr('class', 'y-axis');
+            svg.append('text').attr('class', 'x-label')
+                .attr('text-anchor', 'middle').attr('x', width / 2).attr('y', height - 8)
+                .style('fill', 'rgb(156 163 175)').style('font-size', '12px');
             
             const chartArea = svg.append('g').attr('class', 'chart-area');
             svg.append('defs').append('clipPath').attr('id', 'lr-clip')
@@ -43,12 +52,14 @@ const LogisticRegressionPlot: React.FC<LogisticRegressionPlotProps> = ({ data, c
                 .attr('x', margin.left).attr('y', margin.top);
             
             chartArea.attr('clip-path', 'url(#lr-clip)');
+            chartArea.append('line').attr('class', 'threshold-line');
             chartArea.append('line').attr('class', 'boundary-line');
             chartArea.append('path').attr('class', 'logistic-curve');
             chartArea.append('g').attr('class', 'points-layer');
         }
 
-        const x = d3.scaleLinear().domain([0, 100]).range([margin.left, width - margin.right]);
+        const [xMin, xMax] = xDomain;
+        const x = d3.scaleLinear().domain(xDomain).range([margin.left, width - margin.right]);
         const y = d3.scaleLinear().domain([-0.1, 1.1]).range([height - margin.bottom, margin.top]);
 
         // Update Background Click
@@ -56,7 +67,7 @@ const LogisticRegressionPlot: React.FC<LogisticRegressionPlotProps> = ({ data, c
             const [px, py] = d3.pointer(event);
             const newX = x.invert(px);
             const newY = y.invert(py);
-            if (newX >= 0 && newX <= 100) {
+            if (newX >= xMin && newX <= xMax) {
                 const newOutcome = newY > 0.5 ? 1 : 0;
                 onAddPoint(newX, newOutcome);
             }
@@ -67,11 +78,18 @@ const LogisticRegressionPlot: React.FC<LogisticRegressionPlotProps> = ({ data, c
         svg.select<SVGGElement>('.y-axis').attr('transform', `translate(${margin.left},0)`).call(d3.axisLeft(y).ticks(5).tickFormat(d3.format('.0%'))).attr('color', 'rgb(100 116 139)');
         svg.select<SVGGElement>('.grid-y').attr('transform', `translate(${margin.left},0)`).call(d3.axisLeft(y).ticks(10).tickSize(-width + margin.left + margin.right).tickFormat(() => '')).selectAll('line').attr('stroke', 'rgba(100, 116, 139, 0.2)');
 
+        svg.select('.x-label').text(xLabel ?? '');
+
         const chartArea = svg.select('.chart-area');
 
-        // Decision boundary (p=0.5)
-        const boundaryX = curveParams.beta1 !== 0 ? -curveParams.beta0 / curveParams.beta1 : null;
-        if (boundaryX && boundaryX > 0 && boundaryX < 100) {
+        chartArea.select('.threshold-line')
+            .attr('x1', x(xMin)).attr('x2', x(xMax))
+            .attr('y1', y(threshold)).attr('y2', y(threshold))
+            .attr('stroke', 'rgb(148 163 184)').attr('stroke-width', 1).attr('stroke-dasharray', '2,4');
+
+        // Decision boundary: the x where the predicted probability equals the threshold
+        const boundaryX = curveParams.beta1 !== 0 ? (Math.log(threshold / (1 - threshold)) - curveParams.beta0) / curveParams.beta1 : null;
+        if (boundaryX !== null && boundaryX > xMin && boundaryX < xMax) {
             chartArea.select('.boundary-line')
                 .attr('x1', x(boundaryX)).attr('y1', y(0))
                 .attr('x2', x(boundaryX)).attr('y2', y(1))
@@ -84,7 +102,7 @@ const LogisticRegressionPlot: React.FC<LogisticRegressionPlotProps> = ({ data, c
         // Logistic Curve
         const line = d3.line<number>().x(d => x(d)).y(d => y(predictLogisticProbability(d, curveParams)));
         chartArea.select('.logistic-curve')
-            .datum(d3.range(0, 100, 0.5))
+            .datum(d3.range(xMin, xMax, (xMax - xMin) / 200))
             .attr('fill', 'none').attr('stroke', 'rgb(56 189 248)').attr('stroke-width', 2.5)
             .attr('d', line);
 
@@ -96,7 +114,7 @@ const LogisticRegressionPlot: React.FC<LogisticRegressionPlotProps> = ({ data, c
             })
             .on('start', function() { d3.select(this).raise().attr('r', 8); })
             .on('drag', function (event, d) {
-                const newX = Math.max(0, Math.min(100, x.invert(event.x)));
+                const newX = Math.max(xMin, Math.min(xMax, x.invert(event.x)));
                 const newOutcome = y.invert(event.y) > 0.5 ? 1 : 0;
                 d3.select(this).attr('cx', x(newX)).attr('cy', y(newOutcome));
                 onUpdatePoint(d.id, newX, newOutcome);
@@ -108,6 +126,8 @@ const LogisticRegressionPlot: React.FC<LogisticRegressionPlotProps> = ({ data, c
             .data(data, (d: any) => d.id)
             .join(
                 enter => enter.append('circle')
+                    .attr('cx', d => x(d.x))
+                    .attr('cy', d => y(d.outcome))
                     .attr('r', 6)
                     .attr('fill', d => d.outcome === 1 ? 'rgb(34 211 238)' : 'rgb(236 72 153)')
                     .attr('stroke', 'rgb(15 23 42)')
@@ -128,7 +148,7 @@ const LogisticRegressionPlot: React.FC<LogisticRegressionPlotProps> = ({ data, c
                 onSelectPoint(d);
             });
 
-    }, [data, curveParams, onUpdatePoint, onAddPoint, onSelectPoint, selectedPointId]);
+    }, [data, curveParams, onUpdatePoint, onAddPoint, onSelectPoint, selectedPointId, xDomain, threshold, xLabel]);
 
     return <svg ref={svgRef}></svg>;
 };
@@ -0,0 +1,66 @@
+import React, { useRef, useEffect } from 'react';
+import * as d3 from 'd3';
+import { CovariateBalance } from '../types';
+
+interface LovePlotProps {
+    balance: CovariateBalance[];
+    labels: Record<string, string>;
+    threshold?: number; // |SMD| below this counts as balanced
+}
+
+const LovePlot: React.FC<LovePlotProps> = ({ balance, labels, threshold = 0.1 }) => {
+    const svgRef = useRef<SVGSVGElement | null>(null);
+
+    useEffect(() => {
+        if (!svgRef.current || balance.length === 0) return;
+
+        const svg = d3.select(svgRef.current);
+        const width = 500;
+        const margin = { top: 30, right: 20, bottom: 40, left: 140 };
+        const height = margin.top + margin.bottom + balance.length * 34;
+
+        svg.selectAll('*').remove();
+        svg.attr('viewBox', `0 0 ${width} ${height}`);
+
+        const allValues = balance.flatMap(b => [Math.abs(b.smdBefore), Math.abs(b.smdAfter ?? 0)]);
+        const x = d3.scaleLinear().domain([0, Math.max(0.3, d3.max(allValues) ?? 0) * 1.1]).range([margin.left, width - margin.right]);
+        const y = d3.scaleBand().domain(balance.map(b => b.covariate)).range([margin.top, height - margin.bottom]).padding(0.4);
+
+        svg.append('rect').attr('x', x(0)).attr('width', x(threshold) - x(0))
+            .attr('y', margin.top).attr('height', height - margin.top - margin.bottom)
+            .attr('fill', 'rgb(34 197 94)').attr('opacity', 0.08);
+        svg.append('line').attr('x1', x(threshold)).attr('x2', x(threshold)).attr('y1', margin.top).attr('y2', height - margin.bottom)
+            .attr('stroke', 'rgb(34 197 94)').attr('stroke-dasharray', '4,3');
+
+        const rows = svg.append('g').selectAll('g').data(balance).join('g')
+            .attr('transform', d => `translate(0, ${y(d.covariate)! + y.bandwidth() / 2})`);
+
+        rows.append('line').attr('x1', margin.left).attr('x2', width - margin.right).attr('stroke', 'rgb(51 65 85)');
+        rows.filter(d => d.smdAfter !== null).append('line')
+            .attr('x1', d => x(Math.abs(d.smdBefore))).attr('x2', d => x(Math.abs(d.smdAfter as number)))
+            .attr('stroke', 'rgb(148 163 184)');
+        rows.append('circle').attr('cx', d => x(Math.abs(d.smdBefore))).attr('r', 5)
+            .attr('fill', 'none').attr('stroke', 'rgb(248 113 113)').attr('stroke-width', 2);
+        rows.filter(d => d.smdAfter !== null).append('circle').attr('cx', d => x(Math.abs(d.smdAfter as number))).attr('r', 5)
+            .attr('fill', 'rgb(34 197 94)');
+
+        svg.append('g').attr('transform', `translate(${margin.left}, 0)`)
+            .call(d3.axisLeft(y).tickSize(0).tickFormat(d => labels[d] ?? d))
+            .call(s => s.select('.domain').remove())
+            .selectAll('text').style('fill', 'rgb(203 213 225)').style('font-size', '11px');
+        svg.append('g').attr('transform', `translate(0,${height - margin.bottom})`).call(d3.axisBottom(x).ticks(5)).attr('color', 'rgb(100 116 139)');
+        svg.append('text').attr('text-anchor', 'middle').attr('x', (margin.left + width - margin.right) / 2).attr('y', height - 5)
+            .text('|Standardized Mean Difference|').style('fill', 'rgb(156 163 175)').style('font-size', '12px');
+
+        const legend = svg.append('g').attr('transform', `translate(${margin.left}, 12)`);
+        legend.append('circle').attr('r', 5).attr('fill', 'none').attr('stroke', 'rgb(248 113 113)').attr('stroke-width', 2);
+        legend.append('text').attr('x', 10).attr('dy', '0.35em').text('Before matching').style('fill', 'rgb(203 213 225)').style('font-size', '11px');
+        legend.append('circle').attr('cx', 130).attr('r', 5).attr('fill', 'rgb(34 197 94)');
+        legend.append('text').attr('x', 140).attr('dy', '0.35em').text('After matching').style('fill', 'rgb(203 213 225)').style('font-size', '11px');
+
+    }, [balance, labels, threshold]);
+
+    return <svg ref={svgRef}></svg>;
+};
+
+export default LovePlot;
@@ -1,77 +1,111 @@
 import React, { useRef, useEffect } from 'react';
 import * as d3 from 'd3';
 
+export interface SkillMastery {
+    skill: string;
+    handTuned: number;
+    fitted: number | null; // null until a model has been fitted
+}
+
 interface MasteryBarChartProps {
-    mastery: number;
+    skills: SkillMastery[];
+    selectedSkill?: string;
 }
 
-const MasteryBarChart: React.FC<MasteryBarChartProps> = ({ mastery }) => {
+const HAND_TUNED_COLOR = 'rgb(225 29 72)'; // Rose-600
+const FITTED_COLOR = 'rgb(34 211 238)'; // Cyan-400
+
+const MasteryBarChart: React.FC<MasteryBarChartProps> = ({ skills, selectedSkill }) => {
     const svgRef = useRef<SVGSVGElement | null>(null);
     const width = 500;
-    const height = 80;
-    const margin = { top: 10, right: 20, bottom: 10, left: 20 };
+    const margin = { top: 24, right: 20, bottom: 10, left: 90 };
 
     useEffect(() => {
         if (!svgRef.current) return;
 
+        const rowHeight = 56;
+        const height = margin.top + margin.bottom + skills.length * rowHeight;
         const svg = d3.select(svgRef.current);
-        svg.selectAll('*').remove();
         svg.attr('viewBox', `0 0 ${width} ${height}`);
 
         const chartWidth = width - margin.left - margin.right;
-        const chartHeight = height - margin.top - margin.bottom;
+        const x = d3.scaleLinear().domain([0, 1]).range([0, chartWidth]);
+        const bars = skills.flatMap(s => [
+            { key: `${s.skill}-hand`, skill: s.skill, row: 0, value: s.handTuned, color: HAND_TUNED_COLOR },
+            ...(s.fitted === null ? [] : [{ key: `${s.skill}-fitted`, skill: s.skill, row: 1, value: s.fitted, color: FITTED_COLOR }])
+        ]);
+        const barHeight = 20;
+        const barY = (d: { skill: string, row: number }) => skills.findIndex(s => s.skill === d.skill) * rowHeight + d.row * (barHeight + 4);
+
+        let g = svg.select<SVGGElement>('g.chart');
+        if (g.empty()) {
+            g = svg.append('g').attr('class', 'chart');
+            const legend = svg.append('g').attr('class', 'legend').attr('transform', `translate(${margin.left}, 12)`);
+            [{ label: 'Hand-tuned BKT', color: HAND_TUNED_COLOR }, { label: 'Fitted BKT', color: FITTED_COLOR }].forEach((item, i) => {
+                legend.append('rect').attr('x', i * 140).attr('y', -6).attr('width', 12).attr('height', 12).attr('rx', 2).attr('fill', item.color);
+                legend.append('text').attr('x', i * 140 + 18).attr('dy', '0.35em').text(item.label).style('fill', 'rgb(203 213 225)').style('font-size', '11px');
+            });
+        }
+        g.attr('transform', `translate(${margin.left}, ${margin.top})`);
 
-        const g = svg.append('g').attr('transform', `translate(${margin.left}, ${margin.top})`);
-        
-        // Background bar
-        g.append('rect')
+        // Background tracks
+        g.selectAll<SVGRectElement, typeof bars[number]>('.track').data(bars, d => d.key).join('rect')
+            .attr('class', 'track')
+            .attr('y', barY)
             .attr('width', chartWidth)
-            .attr('height', chartHeight)
+            .attr('height', barHeight)
             .attr('fill', 'rgb(51 65 85)')
-            .attr('rx', 8);
+            .attr('rx', 6);
 
-        // Mastery bar
-        const bar = g.selectAll('.mastery-bar')
-            .data([mastery])
-            .join('rect')
-            .attr('class', 'mastery-bar')
-            .attr('height', chartHeight)
-            .attr('fill', 'rgb(225 29 72)') // Rose-600
-            .attr('rx', 8);
-            
-        bar.transition()
+        // Mastery bars
+        g.selectAll<SVGRectElement, typeof bars[number]>('.mastery-bar').data(bars, d => d.key).join(
+            enter => enter.append('rect').attr('class', 'mastery-bar').attr('width', 0)
+        )
+            .attr('y', barY)
+            .attr('height', barHeight)
+            .attr('fill', d => d.color)
+            .attr('rx', 6)
+            .transition()
             .duration(750)
             .ease(d3.easeCubicOut)
-            .attr('width', d => d * chartWidth);
-        
-        // Text label
-        const label = g.selectAll('.mastery-label')
-            .data([mastery])
-            .join('text')
+            .attr('width', d => x(d.value));
+
+        // Text labels
+        g.selectAll<SVGTextElement, typeof bars[number]>('.mastery-label').data(bars, d => d.key).join('text')
             .attr('class', 'mastery-label')
-            .attr('y', chartHeight / 2)
+            .attr('y', d => barY(d) + barHeight / 2)
             .attr('dy', '0.35em')
             .attr('fill', 'white')
-            .style('font-size', '16px')
-            .style('font-weight', 'bold');
-            
-        label.transition()
+            .style('font-size', '12px')
+            .style('font-weight', 'bold')
+            .transition()
             .duration(750)
             .ease(d3.easeCubicOut)
-            .attr('x', d => Math.max(15, d * chartWidth - 10)) // Position inside or at start
-            .attr('text-anchor', d => d > 0.15 ? 'end' : 'start')
+            .attr('x', d => Math.max(6, x(d.value) - 6))
+            .attr('text-anchor', d => d.value > 0.15 ? 'end' : 'start')
             .tween('text', function(d) {
-                // FIX: Cast `this` to SVGTextElement to safely access `textContent` for the interpolation.
                 const element = this as SVGTextElement;
-                const i = d3.interpolate(parseFloat(element.textContent?.replace('%', '') || '0') / 100, d);
+                const i = d3.interpolate(parseFloat(element.textContent?.replace('%', '') || '0') / 100, d.value);
                 return (t) => {
                     d3.select(element).text(`${(i(t) * 100).toFixed(1)}%`);
                 };
             });
 
-    }, [mastery]);
+        // Skill names
+        g.selectAll<SVGTextElement, typeof skills[number]>('.skill-label').data(skills, d => d.skill).join('text')
+            .attr('class', 'skill-label')
+            .attr('x', -8)
+            .attr('y', (_, i) => i * rowHeight + barHeight / 2)
+            .attr('dy', '0.35em')
+            .attr('text-anchor', 'end')
+            .style('font-size', '12px')
+            .style('font-weight', d => (d.skill === selectedSkill ? 'bold' : 'normal'))
+            .attr('fill', d => (d.skill === selectedSkill ? 'white' : 'rgb(148 163 184)'))
+            .text(d => d.skill);
+
+    }, [skills, selectedSkill]);
 
     return <svg ref={svgRef}></svg>;
 };
 
-export default MasteryBarChart;
\ No newline at end of file
+export default MasteryBarChart;
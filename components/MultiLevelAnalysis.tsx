@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { GroupPoint, RegressionLine } from '../types';
-import { generateMultiLevelData, calculateLinearRegression } from '../services/statisticsService';
+import { GroupPoint, RandomEffectsStructure } from '../types';
+import { generateMultiLevelData, calculateLinearRegression, fitLinearMixedModel } from '../services/statisticsService';
 import { getChatResponse } from '../services/geminiService';
 import MultiLevelScatterPlot from './MultiLevelScatterPlot';
 import UnifiedGenAIChat, { Message } from './UnifiedGenAIChat';
@@ -10,11 +10,11 @@ interface MultiLevelAnalysisProps {
 }
 
 // Reusable Slider component
-const Slider: React.FC<{ label: string, value: number, min: number, max: number, step: number, onChange: (e: React.ChangeEvent<HTMLInputElement>) => void, unit?: string }> = ({ label, value, min, max, step, onChange, unit }) => (
+const Slider: React.FC<{ label: string, value: number, min: number, max: number, step: number, onChange: (e: React.ChangeEvent<HTMLInputElement>) => void, unit?: string, decimals?: number }> = ({ label, value, min, max, step, onChange, unit, decimals = 2 }) => (
     <div>
         <label className="flex justify-between text-sm text-slate-400">
             <span>{label}</span>
-            <span className="font-mono">{value.toFixed(2)}{unit}</span>
+            <span className="font-mono">{value.toFixed(decimals)}{unit}</span>
         </label>
         <input
             type="range" min={min} max={max} step={step} value={value}
@@ -24,62 +24,69 @@ const Slider: React.FC<{ label: string, value: number, min: number, max: number,
     </div>
 );
 
-const NUM_GROUPS = 4;
-const POINTS_PER_GROUP = 25;
-const GROUP_COLORS = ['rgb(34 211 238)', 'rgb(236 72 153)', 'rgb(163 230 53)', 'rgb(251 146 60)']; // Cyan, Pink, Lime, Orange
+const GROUP_COLORS = [
+    'rgb(34 211 238)', 'rgb(236 72 153)', 'rgb(163 230 53)', 'rgb(251 146 60)', 'rgb(167 139 250)', 'rgb(250 204 21)',
+    'rgb(52 211 153)', 'rgb(248 113 113)', 'rgb(96 165 250)', 'rgb(232 121 249)', 'rgb(190 242 100)', 'rgb(253 186 116)'
+]; // Cyan, Pink, Lime, Orange, Violet, Yellow, Emerald, Red, Blue, Fuchsia, Light lime, Peach
+
+const formatPValue = (p: number) => (p < 0.001 ? '<.001' : p.toFixed(3));
 
 const MultiLevelAnalysis: React.FC<MultiLevelAnalysisProps> = ({ onBack }) => {
     const [fixedIntercept, setFixedIntercept] = useState(20);
     const [fixedSlope, setFixedSlope] = useState(0.6);
     const [interceptVariance, setInterceptVariance] = useState(100); // How much group intercepts vary
-    const [slopeVariance, setSlopeVariance] = useState(0.2); // How much group slopes vary
+    const [slopeVariance, setSlopeVariance] = useState(0.04); // How much group slopes vary
+    const [residualSD, setResidualSD] = useState(8);
+    const [numGroups, setNumGroups] = useState(6);
+    const [pointsPerGroup, setPointsPerGroup] = useState(15);
+    const [unequalSizes, setUnequalSizes] = useState(true);
+    const [structure, setStructure] = useState<RandomEffectsStructure>('interceptSlope');
+    const [showOls, setShowOls] = useState(true);
 
     const [data, setData] = useState<GroupPoint[]>([]);
-    const [overallLine, setOverallLine] = useState<RegressionLine>({ slope: 0, intercept: 0 });
-    const [groupLines, setGroupLines] = useState<(RegressionLine & { groupId: number })[]>([]);
 
     // Chat state
     const [chatHistory, setChatHistory] = useState<Message[]>([
-        { text: "Hello! I'm Dr. Gem. I can help you understand Multi-level Modeling. Adjust the variances to see how group-level effects differ from the overall trend!", role: 'model' }
+        { text: "Hello! I'm Dr. Gem. I can help you understand Multi-level Modeling. Watch how small groups are pulled toward the overall line, and ask me why!", role: 'model' }
     ]);
     const [isChatLoading, setIsChatLoading] = useState(false);
 
     const regenerateData = useCallback(() => {
-        const newData = generateMultiLevelData(
-            NUM_GROUPS, POINTS_PER_GROUP,
+        setData(generateMultiLevelData(
+            numGroups, pointsPerGroup,
             fixedIntercept, fixedSlope,
-            interceptVariance, slopeVariance
-        );
-        setData(newData);
-
-        // Calculate regression lines
-        setOverallLine(calculateLinearRegression(newData));
-        const newGroupLines = Array.from({ length: NUM_GROUPS }, (_, i) => {
-            const groupData = newData.filter(p => p.groupId === i);
-            const line = calculateLinearRegression(groupData);
-            return { ...line, groupId: i };
-        });
-        setGroupLines(newGroupLines);
-    }, [fixedIntercept, fixedSlope, interceptVariance, slopeVariance]);
+            interceptVariance, slopeVariance,
+            residualSD, unequalSizes
+        ));
+    }, [numGroups, pointsPerGroup, fixedIntercept, fixedSlope, interceptVariance, slopeVariance, residualSD, unequalSizes]);
 
     // Initial data generation and parameter change handler
     useEffect(() => {
         regenerateData();
-    }, [fixedIntercept, fixedSlope, interceptVariance, slopeVariance, regenerateData]);
+    }, [regenerateData]);
+
+    const model = useMemo(() => (data.length > 0 ? fitLinearMixedModel(data, structure) : null), [data, structure]);
+    const pooledLine = useMemo(() => calculateLinearRegression(data), [data]);
 
     const handleSendMessage = useCallback(async (msg: string) => {
         setIsChatLoading(true);
         setChatHistory(prev => [...prev, { text: msg, role: 'user' }]);
 
+        const modelSummary = model ? `
+            REML fit (${structure === 'interceptSlope' ? 'random intercepts and slopes' : 'random intercepts'}), ${model.nGroups} groups, ${model.nObservations} students:
+            ${model.fixedEffects.map(f => `${f.term}: ${f.estimate.toFixed(3)} (SE ${f.se.toFixed(3)}, t(${f.df}) = ${f.t.toFixed(2)}, p ${formatPValue(f.p)})`).join('\n            ')}
+            Intercept variance: ${model.variance.intercept.toFixed(2)}; slope variance: ${model.variance.slope?.toFixed(4) ?? 'not modeled'}; residual variance: ${model.variance.residual.toFixed(2)}; ICC: ${model.icc.toFixed(3)}
+            Complete-pooling OLS slope: ${pooledLine.slope.toFixed(3)}
+            Groups (n, shrinkage toward fixed line): ${model.groups.map(g => `G${g.groupId + 1} n=${g.n} ${(g.shrinkage * 100).toFixed(0)}%`).join(', ')}
+        ` : '';
         const context = `
-            We are analyzing Multi-level Modeling.
-            Fixed Slope (Overall): ${fixedSlope}
-            Intercept Variance: ${interceptVariance}
-            Slope Variance: ${slopeVariance}
-            
+            We are analyzing Multi-level Modeling with a linear mixed model.
+            True generating values: intercept ${fixedIntercept}, slope ${fixedSlope}, intercept variance ${interceptVariance}, slope variance ${slopeVariance}, residual SD ${residualSD}.
+            ${modelSummary}
+
             User Question: ${msg}
-            
-            Explain how the group-level variations affect the interpretation of the overall trend.
+
+            Explain how the group-level variations affect the interpretation of the overall trend, and why BLUPs shrink small groups more than large ones.
         `;
 
         try {
@@ -90,7 +97,10 @@ const MultiLevelAnalysis: React.FC<MultiLevelAnalysisProps> = ({ onBack }) => {
         } finally {
             setIsChatLoading(false);
         }
-    }, [fixedSlope, interceptVariance, slopeVariance]);
+    }, [fixedIntercept, fixedSlope, interceptVariance, slopeVariance, residualSD, model, structure, pooledLine]);
+
+    const toggleClass = (active: boolean) =>
+        `px-3 py-1 rounded text-sm ${active ? 'bg-teal-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`;
 
     return (
         <div className="w-full max-w-6xl mx-auto">
@@ -98,23 +108,136 @@ const MultiLevelAnalysis: React.FC<MultiLevelAnalysisProps> = ({ onBack }) => {
                 <button onClick={onBack} className="text-teal-400 hover:text-teal-300 mb-4 inline-block">&larr; Back to Portal</button>
                 <div className="text-center">
                     <h1 className="text-4xl font-bold text-teal-400">Multi-level Modeling</h1>
-                    <p className="text-slate-400 mt-2">Explore how overall trends and group-specific variations interact.</p>
+                    <p className="text-slate-400 mt-2">Fit a linear mixed model by REML and watch partial pooling pull small groups toward the overall trend.</p>
                 </div>
             </header>
 
             <main className="grid grid-cols-1 lg:grid-cols-5 gap-8">
-                <div className="lg:col-span-3 bg-slate-800 rounded-lg shadow-2xl p-4">
-                    <MultiLevelScatterPlot data={data} overallLine={overallLine} groupLines={groupLines} groupColors={GROUP_COLORS} />
+                <div className="lg:col-span-3 space-y-6">
+                    <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
+                        <div className="flex flex-wrap justify-center gap-2 mb-3">
+                            <button className={toggleClass(structure === 'intercept')} onClick={() => setStructure('intercept')}>Random intercepts</button>
+                            <button className={toggleClass(structure === 'interceptSlope')} onClick={() => setStructure('interceptSlope')}>Random intercepts + slopes</button>
+                            <button className={toggleClass(showOls)} onClick={() => setShowOls(s => !s)}>Show no-pooling lines</button>
+                        </div>
+                        {model && (
+                            <MultiLevelScatterPlot data={data} fixedLine={model.fixedLine} pooledLine={pooledLine} groups={model.groups} groupColors={GROUP_COLORS} showOls={showOls} />
+                        )}
+                    </div>
+
+                    {model && (
+                        <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-6">
+                            <div>
+                                <h3 className="text-lg font-semibold text-teal-400 mb-1">Fixed Effects</h3>
+                                <p className="text-xs text-slate-400 mb-2">
+                                    REML, {model.nObservations} students in {model.nGroups} groups{model.converged ? '' : ' (optimizer did not fully converge)'}; between-within degrees of freedom.
+                                </p>
+                                <table className="w-full text-sm font-mono text-right">
+                                    <thead>
+                                        <tr className="text-slate-400 text-xs">
+                                            <th className="text-left font-normal">Term</th>
+                                            <th className="font-normal">Estimate</th>
+                                            <th className="font-normal">SE</th>
+                                            <th className="font-normal">df</th>
+                                            <th className="font-normal">t</th>
+                                            <th className="font-normal">p</th>
+                                            <th className="font-normal">95% CI</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {model.fixedEffects.map(f => (
+                                            <tr key={f.term} className="text-slate-200">
+                                                <td className="text-left">{f.term}</td>
+                                                <td>{f.estimate.toFixed(3)}</td>
+                                                <td>{f.se.toFixed(3)}</td>
+                                                <td>{f.df}</td>
+                                                <td>{f.t.toFixed(2)}</td>
+                                                <td>{formatPValue(f.p)}</td>
+                                                <td>[{f.ciLower.toFixed(2)}, {f.ciUpper.toFixed(2)}]</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                <div>
+                                    <h4 className="text-sm font-semibold text-slate-300 mb-1">Variance Components</h4>
+                                    <table className="w-full text-xs font-mono text-right">
+                                        <thead>
+                                            <tr className="text-slate-400">
+                                                <th className="text-left font-normal">Component</th>
+                                                <th className="font-normal">Variance</th>
+                                                <th className="font-normal">SD</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="text-slate-200">
+                                            <tr><td className="text-left">Group intercept</td><td>{model.variance.intercept.toFixed(2)}</td><td>{Math.sqrt(model.variance.intercept).toFixed(2)}</td></tr>
+                                            {model.variance.slope !== null && (
+                                                <tr><td className="text-left">Group slope</td><td>{model.variance.slope.toFixed(4)}</td><td>{Math.sqrt(model.variance.slope).toFixed(3)}</td></tr>
+                                            )}
+                                            <tr><td className="text-left">Residual</td><td>{model.variance.residual.toFixed(2)}</td><td>{Math.sqrt(model.variance.residual).toFixed(2)}</td></tr>
+                                        </tbody>
+                                    </table>
+                                    <div className="text-xs font-mono text-slate-300 mt-2 space-y-1">
+                                        {model.variance.correlation !== null && <p>Intercept-slope correlation: {model.variance.correlation.toFixed(2)}</p>}
+                                        <p>ICC{model.structure === 'interceptSlope' ? ' (at x = 0)' : ''}: <span className="text-teal-300">{model.icc.toFixed(3)}</span></p>
+                                        <p>REML log-lik: {model.restrictedLogLikelihood.toFixed(2)} · AIC: {model.aic.toFixed(1)}</p>
+                                    </div>
+                                </div>
+                                <div>
+                                    <h4 className="text-sm font-semibold text-slate-300 mb-1">Shrinkage by Group</h4>
+                                    <table className="w-full text-xs font-mono text-right">
+                                        <thead>
+                                            <tr className="text-slate-400">
+                                                <th className="text-left font-normal">Group</th>
+                                                <th className="font-normal">n</th>
+                                                <th className="font-normal">OLS slope</th>
+                                                <th className="font-normal">BLUP slope</th>
+                                                <th className="font-normal w-24">Pooling</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {model.groups.map(g => (
+                                                <tr key={g.groupId} className="text-slate-200">
+                                                    <td className="text-left" style={{ color: GROUP_COLORS[g.groupId % GROUP_COLORS.length] }}>G{g.groupId + 1}</td>
+                                                    <td>{g.n}</td>
+                                                    <td>{g.ols.slope.toFixed(3)}</td>
+                                                    <td>{g.blup.slope.toFixed(3)}</td>
+                                                    <td>
+                                                        <div className="flex items-center gap-1 justify-end">
+                                                            <div className="h-2 bg-slate-700 rounded w-12 overflow-hidden">
+                                                                <div className="h-2 bg-teal-400" style={{ width: `${Math.min(100, Math.max(0, g.shrinkage * 100))}%` }} />
+                                                            </div>
+                                                            <span>{(g.shrinkage * 100).toFixed(0)}%</span>
+                                                        </div>
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                    <p className="text-xs text-slate-500 mt-1">Pooling: share of the gap between a group's own line and the fixed line that is removed, at the group's mean x.</p>
+                                </div>
+                            </div>
+                        </div>
+                    )}
                 </div>
                 <div className="lg:col-span-2 flex flex-col space-y-8">
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-6">
                         <div>
-                            <h3 className="text-lg font-semibold text-teal-400 mb-3 border-b border-teal-400/20 pb-2">Model Parameters</h3>
+                            <h3 className="text-lg font-semibold text-teal-400 mb-3 border-b border-teal-400/20 pb-2">True Model Parameters</h3>
                             <div className="space-y-4 mt-3">
                                 <Slider label="Overall Intercept" value={fixedIntercept} min={-50} max={50} step={1} onChange={(e) => setFixedIntercept(+e.target.value)} />
                                 <Slider label="Overall Slope" value={fixedSlope} min={-1.5} max={1.5} step={0.05} onChange={(e) => setFixedSlope(+e.target.value)} />
                                 <Slider label="Group Intercept Variance" value={interceptVariance} min={0} max={400} step={5} onChange={(e) => setInterceptVariance(+e.target.value)} />
-                                <Slider label="Group Slope Variance" value={slopeVariance} min={0} max={1} step={0.01} onChange={(e) => setSlopeVariance(+e.target.value)} />
+                                <Slider label="Group Slope Variance" value={slopeVariance} min={0} max={0.2} step={0.005} decimals={3} onChange={(e) => setSlopeVariance(+e.target.value)} />
+                                <Slider label="Residual SD" value={residualSD} min={1} max={25} step={1} decimals={0} onChange={(e) => setResidualSD(+e.target.value)} />
+                                <Slider label="Number of Groups" value={numGroups} min={3} max={12} step={1} decimals={0} onChange={(e) => setNumGroups(+e.target.value)} />
+                                <Slider label="Average Group Size" value={pointsPerGroup} min={4} max={50} step={1} decimals={0} onChange={(e) => setPointsPerGroup(+e.target.value)} />
+                                <label className="flex items-center gap-2 text-sm text-slate-300">
+                                    <input type="checkbox" checked={unequalSizes} onChange={e => setUnequalSizes(e.target.checked)} />
+                                    Unequal group sizes
+                                </label>
                             </div>
                         </div>
                         <button onClick={regenerateData} className="w-full bg-teal-600 hover:bg-teal-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200">
@@ -1,15 +1,17 @@
 import React, { useRef, useEffect } from 'react';
 import * as d3 from 'd3';
-import { GroupPoint, RegressionLine } from '../types';
+import { GroupPoint, RegressionLine, GroupEffectEstimate } from '../types';
 
 interface MultiLevelScatterPlotProps {
     data: GroupPoint[];
-    overallLine: RegressionLine;
-    groupLines: (RegressionLine & { groupId: number })[];
+    fixedLine: RegressionLine;
+    pooledLine: RegressionLine; // complete pooling: one OLS line ignoring groups
+    groups: GroupEffectEstimate[];
     groupColors: string[];
+    showOls: boolean;
 }
 
-const MultiLevelScatterPlot: React.FC<MultiLevelScatterPlotProps> = ({ data, overallLine, groupLines, groupColors }) => {
+const MultiLevelScatterPlot: React.FC<MultiLevelScatterPlotProps> = ({ data, fixedLine, pooledLine, groups, groupColors, showOls }) => {
     const svgRef = useRef<SVGSVGElement | null>(null);
 
     useEffect(() => {
@@ -26,7 +28,9 @@ const MultiLevelScatterPlot: React.FC<MultiLevelScatterPlotProps> = ({ data, ove
            .attr('preserveAspectRatio', 'xMidYMid meet');
 
         const x = d3.scaleLinear().domain([0, 100]).range([margin.left, width - margin.right]);
-        const y = d3.scaleLinear().domain([0, 100]).range([height - margin.bottom, margin.top]);
+        const yExtent = d3.extent(data, d => d.y) as [number, number];
+        const y = d3.scaleLinear().domain(data.length > 0 ? yExtent : [0, 100]).nice().range([height - margin.bottom, margin.top]);
+        const colorOf = (groupId: number) => groupColors[groupId % groupColors.length];
 
         svg.selectAll('*').remove();
 
@@ -34,7 +38,7 @@ const MultiLevelScatterPlot: React.FC<MultiLevelScatterPlotProps> = ({ data, ove
 
         svg.append('g').attr('transform', `translate(0,${height - margin.bottom})`).call(d3.axisBottom(x)).attr('color', 'rgb(100 116 139)');
         svg.append('g').attr('transform', `translate(${margin.left},0)`).call(d3.axisLeft(y)).attr('color', 'rgb(100 116 139)');
-        
+
         svg.append('defs').append('clipPath')
             .attr('id', 'clip')
             .append('rect')
@@ -43,7 +47,7 @@ const MultiLevelScatterPlot: React.FC<MultiLevelScatterPlotProps> = ({ data, ove
             .attr('x', margin.left)
             .attr('y', margin.top);
 
-        const renderLine = (line: RegressionLine, color: string, strokeWidth: number, strokeDasharray?: string) => {
+        const renderLine = (line: RegressionLine, color: string, strokeWidth: number, strokeDasharray?: string, opacity = 1) => {
             const x1 = 0, y1 = line.slope * x1 + line.intercept;
             const x2 = 100, y2 = line.slope * x2 + line.intercept;
             svg.append('line')
@@ -51,17 +55,10 @@ const MultiLevelScatterPlot: React.FC<MultiLevelScatterPlotProps> = ({ data, ove
                 .attr('x2', x(x2)).attr('y2', y(y2))
                 .attr('stroke', color)
                 .attr('stroke-width', strokeWidth)
-                .attr('stroke-dasharray', strokeDasharray)
+                .attr('stroke-dasharray', strokeDasharray ?? null)
+                .attr('opacity', opacity)
                 .attr('clip-path', 'url(#clip)');
         };
-        
-        // Render group lines first
-        groupLines.forEach(line => {
-            renderLine(line, groupColors[line.groupId], 1.5);
-        });
-
-        // Render overall line on top
-        renderLine(overallLine, 'white', 3, '5,5');
 
         // Render points
         svg.append('g')
@@ -71,13 +68,50 @@ const MultiLevelScatterPlot: React.FC<MultiLevelScatterPlotProps> = ({ data, ove
             .join('circle')
             .attr('cx', d => x(d.x))
             .attr('cy', d => y(d.y))
-            .attr('r', 4)
-            .attr('fill', d => groupColors[d.groupId])
-            .attr('opacity', 0.8);
+            .attr('r', 3.5)
+            .attr('fill', d => colorOf(d.groupId))
+            .attr('opacity', 0.55);
+
+        // No pooling: each group's own OLS line, with an arrow at the group's mean x showing the pull toward the fixed line
+        if (showOls) {
+            groups.forEach(g => renderLine(g.ols, colorOf(g.groupId), 1.2, '3,3', 0.7));
+            const arrows = svg.append('g').attr('clip-path', 'url(#clip)');
+            groups.forEach(g => {
+                const points = data.filter(d => d.groupId === g.groupId);
+                const meanX = d3.mean(points, d => d.x) ?? 50;
+                const from = g.ols.intercept + g.ols.slope * meanX;
+                const to = g.blup.intercept + g.blup.slope * meanX;
+                arrows.append('line')
+                    .attr('x1', x(meanX)).attr('x2', x(meanX))
+                    .attr('y1', y(from)).attr('y2', y(to))
+                    .attr('stroke', colorOf(g.groupId)).attr('stroke-width', 2);
+                arrows.append('circle').attr('cx', x(meanX)).attr('cy', y(to)).attr('r', 3).attr('fill', colorOf(g.groupId));
+            });
+        }
+
+        // Partial pooling: BLUP lines
+        groups.forEach(g => renderLine(g.blup, colorOf(g.groupId), 2.2));
+
+        // Complete pooling and the mixed-model fixed line on top
+        renderLine(pooledLine, 'rgb(148 163 184)', 1.5, '1,4');
+        renderLine(fixedLine, 'white', 3, '5,5');
+
+        const legend = svg.append('g').attr('transform', `translate(${margin.left + 10}, ${margin.top + 8})`);
+        [
+            { label: 'Fixed effect (mixed model)', dash: '5,5', color: 'white', width: 3 },
+            { label: 'Group BLUP (partial pooling)', dash: '', color: 'rgb(203 213 225)', width: 2.2 },
+            ...(showOls ? [{ label: 'Group OLS (no pooling)', dash: '3,3', color: 'rgb(203 213 225)', width: 1.2 }] : []),
+            { label: 'Single OLS (complete pooling)', dash: '1,4', color: 'rgb(148 163 184)', width: 1.5 }
+        ].forEach((item, i) => {
+            legend.append('line').attr('x1', 0).attr('x2', 24).attr('y1', i * 16).attr('y2', i * 16)
+                .attr('stroke', item.color).attr('stroke-width', item.width).attr('stroke-dasharray', item.dash || null);
+            legend.append('text').attr('x', 30).attr('y', i * 16 + 4).text(item.label)
+                .style('fill', 'rgb(203 213 225)').style('font-size', '10px');
+        });
 
-    }, [data, overallLine, groupLines, groupColors]);
+    }, [data, fixedLine, pooledLine, groups, groupColors, showOls]);
 
     return <svg ref={svgRef}></svg>;
 };
 
-export default MultiLevelScatterPlot;
\ No newline at end of file
+export default MultiLevelScatterPlot;
@@ -1,8 +1,9 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { PSMDataPoint } from '../types';
-import { generatePSMData, performMatching } from '../services/statisticsService';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { PSMDataPoint, PSMMatchingOptions, TreatmentEffectEstimate } from '../types';
+import { generatePSMData, estimatePropensityScores, performMatching, calculateCovariateBalance, estimateTreatmentEffect, PSM_COVARIATES } from '../services/statisticsService';
 import { getChatResponse } from '../services/geminiService';
 import PSMComparisonPlot from './PSMComparisonPlot';
+import LovePlot from './LovePlot';
 import UnifiedGenAIChat, { Message } from './UnifiedGenAIChat';
 
 interface PSMAnalysisProps {
@@ -27,10 +28,25 @@ const Slider: React.FC<{ label: string, value: number, min: number, max: number,
     </div>
 );
 
+const SAMPLE_SIZE = 300;
+const TRUE_EFFECT = 5;
+
+const VARIABLE_LABELS: Record<string, string> = {
+    propensityScore: 'Propensity Score',
+    logit: 'Propensity Logit',
+    priorScore: 'Prior Score',
+    motivation: 'Motivation',
+    parentEducation: 'Parent Education (yrs)',
+    attendance: 'Attendance (%)'
+};
+
 const PSMAnalysis: React.FC<PSMAnalysisProps> = ({ onBack }) => {
     const [selectionBias, setSelectionBias] = useState(15);
     const [data, setData] = useState<PSMDataPoint[]>([]);
     const [isMatched, setIsMatched] = useState(false);
+    const [matchingOptions, setMatchingOptions] = useState<PSMMatchingOptions>({ method: 'greedy', ratio: 1, replacement: false, caliper: 0.2 });
+    const [plotVariable, setPlotVariable] = useState('propensityScore');
+    const [effect, setEffect] = useState<TreatmentEffectEstimate | null>(null);
 
     // Chat state
     const [chatHistory, setChatHistory] = useState<Message[]>([
@@ -39,9 +55,10 @@ const PSMAnalysis: React.FC<PSMAnalysisProps> = ({ onBack }) => {
     const [isChatLoading, setIsChatLoading] = useState(false);
 
     const regenerateData = useCallback(() => {
-        const newData = generatePSMData(150, selectionBias);
+        const newData = estimatePropensityScores(generatePSMData(SAMPLE_SIZE, selectionBias, TRUE_EFFECT), PSM_COVARIATES);
         setData(newData);
         setIsMatched(false);
+        setEffect(null);
     }, [selectionBias]);
 
     useEffect(() => {
@@ -49,25 +66,39 @@ const PSMAnalysis: React.FC<PSMAnalysisProps> = ({ onBack }) => {
     }, [regenerateData]);
 
     const handleMatch = () => {
-        const matchedData = performMatching(data);
+        const matchedData = performMatching(data, matchingOptions);
         setData(matchedData);
         setIsMatched(true);
+        setEffect(estimateTreatmentEffect(matchedData));
     };
 
     const handleReset = () => {
         setIsMatched(false);
-        setData(prevData => prevData.map(p => ({ ...p, isMatched: false, matchedWithId: null })));
+        setEffect(null);
+        setData(prevData => prevData.map(p => ({ ...p, isMatched: false, matchedWithIds: [], matchWeight: 0 })));
     };
 
+    const updateOptions = (changes: Partial<PSMMatchingOptions>) => {
+        setMatchingOptions(prev => ({ ...prev, ...changes }));
+        handleReset();
+    };
+
+    const balance = useMemo(() => (data.length > 0 ? calculateCovariateBalance(data, PSM_COVARIATES) : []), [data]);
+    const treatedCount = useMemo(() => data.filter(d => d.group === 'Treatment').length, [data]);
+
     const handleSendMessage = useCallback(async (msg: string) => {
         setIsChatLoading(true);
         setChatHistory(prev => [...prev, { text: msg, role: 'user' }]);
 
         const context = `
-            We are simulating Propensity Score Matching (PSM).
-            Selection Bias Level: ${selectionBias} (higher means Treatment group has higher natural propensity scores).
+            We are simulating Propensity Score Matching (PSM) for a tutoring program. The true effect of tutoring is +${TRUE_EFFECT} points.
+            Propensity scores come from a logistic regression on: ${PSM_COVARIATES.map(c => VARIABLE_LABELS[c]).join(', ')}.
+            Selection Bias Level: ${selectionBias} (higher means students who enrol differ more on these covariates).
+            Matching: ${matchingOptions.method}, ${matchingOptions.ratio}:1, ${matchingOptions.replacement ? 'with' : 'without'} replacement, caliper ${matchingOptions.caliper === null ? 'none' : `${matchingOptions.caliper} SD of the logit`}.
             Status: ${isMatched ? 'Matched' : 'Unmatched raw data'}.
-            Total Participants: ${data.length}.
+            Total Participants: ${data.length} (${treatedCount} treated).
+            Standardized mean differences (before -> after): ${balance.map(b => `${VARIABLE_LABELS[b.covariate]} ${b.smdBefore.toFixed(2)} -> ${b.smdAfter === null ? 'n/a' : b.smdAfter.toFixed(2)}`).join('; ')}
+            ${effect ? `ATT: ${effect.att.toFixed(2)} (95% bootstrap CI ${effect.ciLower.toFixed(2)} to ${effect.ciUpper.toFixed(2)}); naive difference ${effect.naiveDifference.toFixed(2)}; ${effect.unmatchedTreated} treated students could not be matched.` : ''}
             
             User Question: ${msg}
             
@@ -82,7 +113,7 @@ const PSMAnalysis: React.FC<PSMAnalysisProps> = ({ onBack }) => {
         } finally {
             setIsChatLoading(false);
         }
-    }, [isMatched, selectionBias, data]);
+    }, [isMatched, selectionBias, data, matchingOptions, balance, effect, treatedCount]);
 
     return (
         <div className="w-full max-w-6xl mx-auto">
@@ -95,8 +126,40 @@ const PSMAnalysis: React.FC<PSMAnalysisProps> = ({ onBack }) => {
             </header>
 
             <main className="grid grid-cols-1 lg:grid-cols-5 gap-8">
-                <div className="lg:col-span-3 bg-slate-800 rounded-lg shadow-2xl p-4 min-h-[500px]">
-                    <PSMComparisonPlot data={data} isMatched={isMatched} />
+                <div className="lg:col-span-3 flex flex-col space-y-8">
+                    <div className="bg-slate-800 rounded-lg shadow-2xl p-4 min-h-[500px]">
+                        <div className="flex justify-end mb-2">
+                            <select value={plotVariable} onChange={e => setPlotVariable(e.target.value)} className="bg-slate-900 text-slate-200 text-sm rounded p-1">
+                                {['propensityScore', ...PSM_COVARIATES].map(v => <option key={v} value={v}>{VARIABLE_LABELS[v]}</option>)}
+                            </select>
+                        </div>
+                        <PSMComparisonPlot data={data} isMatched={isMatched} variable={plotVariable} label={VARIABLE_LABELS[plotVariable]} />
+                    </div>
+                    <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
+                        <h3 className="text-lg font-semibold text-green-400 mb-2 text-center">Covariate Balance (Love Plot)</h3>
+                        <LovePlot balance={balance} labels={VARIABLE_LABELS} />
+                        <table className="w-full text-sm font-mono mt-4">
+                            <thead>
+                                <tr className="text-slate-400 text-xs">
+                                    <th className="text-left font-normal pb-1">Covariate</th>
+                                    <th className="text-right font-normal pb-1">SMD before</th>
+                                    <th className="text-right font-normal pb-1">SMD after</th>
+                                    <th className="text-right font-normal pb-1">Var. ratio after</th>
+                                </tr>
+                            </thead>
+                            <tbody className="text-slate-300">
+                                {balance.map(b => (
+                                    <tr key={b.covariate}>
+                                        <td className="py-1">{VARIABLE_LABELS[b.covariate]}</td>
+                                        <td className={`text-right ${Math.abs(b.smdBefore) > 0.1 ? 'text-red-400' : ''}`}>{b.smdBefore.toFixed(3)}</td>
+                                        <td className={`text-right ${b.smdAfter !== null && Math.abs(b.smdAfter) <= 0.1 ? 'text-green-400' : ''}`}>{b.smdAfter === null ? '-' : b.smdAfter.toFixed(3)}</td>
+                                        <td className="text-right">{b.varianceRatioAfter === null ? '-' : b.varianceRatioAfter.toFixed(2)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <p className="text-xs text-slate-500 mt-2">|SMD| below 0.1 (shaded) is conventionally treated as balanced.</p>
+                    </div>
                 </div>
                 <div className="lg:col-span-2 flex flex-col space-y-8">
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
@@ -106,8 +169,34 @@ const PSMAnalysis: React.FC<PSMAnalysisProps> = ({ onBack }) => {
                             value={selectionBias}
                             min={0} max={40} step={1}
                             onChange={(e) => setSelectionBias(+e.target.value)}
-                            format={(v) => `+${v.toFixed(0)} score advantage`}
+                            format={(v) => `${v.toFixed(0)} / 40`}
                         />
+                        <div className="grid grid-cols-2 gap-3 mt-4">
+                            <label className="text-sm text-slate-400">Method
+                                <select value={matchingOptions.method} onChange={e => updateOptions({ method: e.target.value as PSMMatchingOptions['method'] })} className="w-full mt-1 bg-slate-900 text-slate-200 rounded p-1">
+                                    <option value="greedy">Greedy nearest neighbour</option>
+                                    <option value="optimal">Optimal (min. total distance)</option>
+                                </select>
+                            </label>
+                            <label className="text-sm text-slate-400">Ratio
+                                <select value={matchingOptions.ratio} onChange={e => updateOptions({ ratio: +e.target.value })} className="w-full mt-1 bg-slate-900 text-slate-200 rounded p-1">
+                                    {[1, 2, 3].map(k => <option key={k} value={k}>{k}:1</option>)}
+                                </select>
+                            </label>
+                        </div>
+                        <label className="flex items-center gap-2 text-sm text-slate-400 mt-3">
+                            <input type="checkbox" checked={matchingOptions.replacement} onChange={e => updateOptions({ replacement: e.target.checked })} />
+                            Match with replacement
+                        </label>
+                        <div className="mt-3">
+                            <Slider
+                                label="Caliper (SD of logit)"
+                                value={matchingOptions.caliper ?? 1.05}
+                                min={0.05} max={1.05} step={0.05}
+                                onChange={(e) => updateOptions({ caliper: +e.target.value > 1 ? null : +e.target.value })}
+                                format={(v) => (v > 1 ? 'None' : v.toFixed(2))}
+                            />
+                        </div>
                         <div className="grid grid-cols-2 gap-3 mt-4">
                             <button onClick={handleMatch} disabled={isMatched} className="bg-green-600 hover:bg-green-700 disabled:bg-slate-600 p-2 rounded">Perform Matching</button>
                             <button onClick={handleReset} disabled={!isMatched} className="bg-slate-700 hover:bg-slate-600 disabled:bg-slate-800 p-2 rounded">Reset Matches</button>
@@ -115,6 +204,22 @@ const PSMAnalysis: React.FC<PSMAnalysisProps> = ({ onBack }) => {
                         <button onClick={regenerateData} className="w-full mt-3 bg-slate-700 hover:bg-slate-600 p-2 rounded">Regenerate Data</button>
                     </div>
 
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg text-sm space-y-2">
+                        <h3 className="text-lg font-semibold text-green-400 mb-3">Treatment Effect</h3>
+                        <div className="flex justify-between"><span className="text-slate-400">True effect</span><span className="font-mono text-slate-300">+{TRUE_EFFECT.toFixed(2)}</span></div>
+                        {effect ? (
+                            <>
+                                <div className="flex justify-between"><span className="text-slate-400">Naive difference</span><span className="font-mono text-red-400">{effect.naiveDifference.toFixed(2)}</span></div>
+                                <div className="flex justify-between"><span className="text-slate-400">ATT (matched)</span><span className="font-mono text-green-400">{effect.att.toFixed(2)}</span></div>
+                                <div className="flex justify-between"><span className="text-slate-400">95% bootstrap CI</span><span className="font-mono text-slate-300">[{effect.ciLower.toFixed(2)}, {effect.ciUpper.toFixed(2)}]</span></div>
+                                <div className="flex justify-between"><span className="text-slate-400">Matched treated / controls</span><span className="font-mono text-slate-300">{effect.matchedTreated} / {effect.matchedControls}</span></div>
+                                {effect.unmatchedTreated > 0 && <p className="text-xs text-amber-300">{effect.unmatchedTreated} treated students had no control within the caliper and were dropped.</p>}
+                            </>
+                        ) : (
+                            <p className="text-xs text-slate-500">Perform matching to estimate the average treatment effect on the treated.</p>
+                        )}
+                    </div>
+
                     <div className="h-[500px]">
                         <UnifiedGenAIChat
                             moduleTitle="Propensity Score Matching"
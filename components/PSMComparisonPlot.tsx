@@ -5,9 +5,13 @@ import { PSMDataPoint } from '../types';
 interface PSMComparisonPlotProps {
     data: PSMDataPoint[];
     isMatched: boolean;
+    variable: string; // 'propensityScore' or a covariate name
+    label: string;
 }
 
-const PSMComparisonPlot: React.FC<PSMComparisonPlotProps> = ({ data, isMatched }) => {
+const valueOf = (d: PSMDataPoint, variable: string) => (variable === 'propensityScore' ? d.propensityScore : d.covariates[variable]);
+
+const PSMComparisonPlot: React.FC<PSMComparisonPlotProps> = ({ data, isMatched, variable, label }) => {
     const svgRef = useRef<SVGSVGElement | null>(null);
 
     const { treatmentData, controlData } = useMemo(() => {
@@ -30,19 +34,22 @@ const PSMComparisonPlot: React.FC<PSMComparisonPlotProps> = ({ data, isMatched }
         svg.attr('viewBox', `0 0 ${width} ${height}`);
 
         const x = d3.scaleLinear()
-            .domain([0, 100])
+            .domain(d3.extent(data, d => valueOf(d, variable)) as [number, number])
+            .nice()
             .range([margin.left, width - margin.right]);
 
         // --- Create beeswarm layouts ---
         const createSwarm = (groupData: PSMDataPoint[], yOffset: number) => {
-            const simulation = d3.forceSimulation(groupData as d3.SimulationNodeDatum[])
-                .force('x', d3.forceX((d: any) => x(d.priorScore)).strength(1))
+            // Layout on copies so the simulation's x/y never leak into the shared data
+            const nodes = groupData.map(d => ({ ...d }));
+            const simulation = d3.forceSimulation(nodes as d3.SimulationNodeDatum[])
+                .force('x', d3.forceX((d: any) => x(valueOf(d, variable))).strength(1))
                 .force('y', d3.forceY(yOffset))
                 .force('collide', d3.forceCollide(4))
                 .stop();
             
             for (let i = 0; i < 120; ++i) simulation.tick();
-            return groupData;
+            return nodes;
         };
         
         const treatmentLayout = createSwarm(treatmentData, margin.top + plotHeight / 2);
@@ -62,15 +69,15 @@ const PSMComparisonPlot: React.FC<PSMComparisonPlotProps> = ({ data, isMatched }
 
         svg.append('text').attr('x', 10).attr('y', 20).text('Treatment Group').attr('fill', 'rgb(236 72 153)');
         svg.append('text').attr('x', 10).attr('y', height - 10).text('Control Group').attr('fill', 'rgb(34 211 238)');
-        svg.append('text').attr('x', width/2).attr('y', height-margin.bottom+35).text('Prior Score').attr('fill', 'rgb(156 163 175)').attr('text-anchor', 'middle');
+        svg.append('text').attr('x', width/2).attr('y', height-margin.bottom+35).text(label).attr('fill', 'rgb(156 163 175)').attr('text-anchor', 'middle');
 
         // --- Matching Lines ---
+        const layoutById = new Map(allLayoutData.map(d => [d.id, d]));
         const matches = data.filter(d => d.isMatched && d.group === 'Treatment');
-        const matchData = matches.map(treat => {
-            const control = allLayoutData.find(d => d.id === treat.matchedWithId);
-            const treatment = allLayoutData.find(d => d.id === treat.id);
-            return { treatment, control };
-        }).filter(p => p.treatment && p.control);
+        const matchData = matches.flatMap(treat => treat.matchedWithIds.map(controlId => ({
+            treatment: layoutById.get(treat.id),
+            control: layoutById.get(controlId)
+        }))).filter(p => p.treatment && p.control);
         
         const lines = svg.append('g').selectAll('line')
             .data(matchData)
@@ -100,7 +107,7 @@ const PSMComparisonPlot: React.FC<PSMComparisonPlotProps> = ({ data, isMatched }
             .duration(1000)
             .attr('opacity', d => isMatched ? (d.isMatched ? 1 : 0.2) : 1);
             
-    }, [data, isMatched, treatmentData, controlData]);
+    }, [data, isMatched, treatmentData, controlData, variable, label]);
 
     return <svg ref={svgRef}></svg>;
 };
@@ -1,13 +1,15 @@
 import React, { useRef, useEffect, useMemo } from 'react';
 import * as d3 from 'd3';
-import { SEMModel, SEMVariable, SEMPath } from '../types';
+import { SEMModel, SEMVariable, SEMPath, SEMParameterEstimate, ModificationIndex } from '../types';
 
 interface PathDiagramProps {
     model: SEMModel;
     onPathToggle: (pathId: string) => void;
+    estimates?: SEMParameterEstimate[];
+    modificationIndices?: ModificationIndex[];
 }
 
-const PathDiagram: React.FC<PathDiagramProps> = ({ model, onPathToggle }) => {
+const PathDiagram: React.FC<PathDiagramProps> = ({ model, onPathToggle, estimates = [], modificationIndices = [] }) => {
     const svgRef = useRef<SVGSVGElement | null>(null);
 
     const { nodes, links } = useMemo(() => {
@@ -88,6 +90,38 @@ const PathDiagram: React.FC<PathDiagramProps> = ({ model, onPathToggle }) => {
             });
 
 
+        // --- PATH LABELS ---
+        // Standardized estimates on fitted paths, modification indices on candidate paths
+        const labelFor = (d: SEMPath): string => {
+            if (d.specified) {
+                const est = estimates.find(e => e.pathId === d.id);
+                return est ? est.standardized.toFixed(2) : '';
+            }
+            const mi = modificationIndices.find(m => m.pathId === d.id);
+            return mi ? `MI ${mi.mi.toFixed(1)}` : '';
+        };
+
+        linkGroup.selectAll('text')
+            .data(links.filter(d => labelFor(d) !== ''))
+            .join('text')
+            .attr('x', d => {
+                const source = findNode(d.from);
+                const target = findNode(d.to);
+                const offset = d.type === 'covariance' ? -30 : 0;
+                return ((source?.x || 0) + (target?.x || 0)) / 2 + offset;
+            })
+            .attr('y', d => {
+                const source = findNode(d.from);
+                const target = findNode(d.to);
+                return ((source?.y || 0) + (target?.y || 0)) / 2 - 6;
+            })
+            .attr('text-anchor', 'middle')
+            .style('fill', d => d.specified ? 'rgb(253 186 116)' : 'rgb(148 163 184)')
+            .style('font-size', '11px')
+            .style('font-family', 'monospace')
+            .style('pointer-events', 'none')
+            .text(d => labelFor(d));
+
         // --- NODES ---
         const node = nodeGroup.selectAll('g')
             .data(nodes)
@@ -122,7 +156,7 @@ const PathDiagram: React.FC<PathDiagramProps> = ({ model, onPathToggle }) => {
             .style('font-size', '14px')
             .text(d => d.label);
 
-    }, [nodes, links, onPathToggle]);
+    }, [nodes, links, onPathToggle, estimates, modificationIndices]);
 
     return <svg ref={svgRef}></svg>;
 };
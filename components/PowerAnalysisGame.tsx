@@ -2,6 +2,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import UnifiedGenAIChat from './UnifiedGenAIChat';
 import { getChatResponse } from '../services/geminiService';
+import { studentTQuantile, noncentralTCDF } from '../services/distributionService';
 
 interface PowerAnalysisGameProps {
     onBack: () => void;
@@ -21,62 +22,18 @@ const PowerAnalysisGame: React.FC<PowerAnalysisGameProps> = ({ onBack }) => {
     ]);
     const [isChatLoading, setIsChatLoading] = useState<boolean>(false);
 
-    // --- Statistical Utils (Local) ---
-    const normalCDF = (x: number): number => {
-        var t = 1 / (1 + .2316419 * Math.abs(x));
-        var d = .3989423 * Math.exp(-x * x / 2);
-        var prob = d * t * (.3193815 + t * (-.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
-        if (x > 0) prob = 1 - prob;
-        return prob;
-    };
-
-    const invNorm = (p: number): number => {
-        // Simple approx for key values or Beasley-Springer-Moro if needed. 
-        // For game sliders, a lookup or simple approx is fine. 
-        // Let's use a simplified inverse since we control the inputs.
-        // Or actually, let's just use the known critical values for standard Alphas if we snap, 
-        // but for a slider we need continuous.
-        // Copying the robust one from service for smoothness:
-        if (p >= 1) return 5;
-        if (p <= 0) return -5;
-        const a1 = -3.969683028665376e+01, a2 = 2.209460984245205e+02, a3 = -2.759285104469687e+02;
-        const a4 = 1.383577518672690e+02, a5 = -3.066479806614716e+01, a6 = 2.506628277459239e+00;
-        const b1 = -5.447609879822406e+01, b2 = 1.615858368580409e+02, b3 = -1.556989798598866e+02;
-        const b4 = 6.680131188771972e+01, b5 = -1.328068155288572e+01;
-        const c1 = -7.784894002430293e-03, c2 = -3.223964580411365e-01, c3 = -2.400758277161838e+00;
-        const c4 = -2.549732539343734e+00, c5 = 4.374664141464968e+00, c6 = 2.938163982698783e+00;
-        const d1 = 7.784695709041462e-03, d2 = 3.224671290700398e-01, d3 = 2.445134137142996e+00;
-        const d4 = 3.754408661907416e+00;
-        const p_low = 0.02425, p_high = 1 - p_low;
-        let q, r;
-        if (p < p_low) {
-            q = Math.sqrt(-2 * Math.log(p));
-            return (((((c1 * q + c2) * q + c3) * q + c4) * q + c5) * q + c6) /
-                ((((d1 * q + d2) * q + d3) * q + d4) * q + 1);
-        } else if (p <= p_high) {
-            q = p - 0.5;
-            r = q * q;
-            return (((((a1 * r + a2) * r + a3) * r + a4) * r + a5) * r + a6) * q /
-                (((((b1 * r + b2) * r + b3) * r + b4) * r + b5) * r + 1);
-        } else {
-            q = Math.sqrt(-2 * Math.log(1 - p));
-            return -(((((c1 * q + c2) * q + c3) * q + c4) * q + c5) * q + c6) /
-                ((((d1 * q + d2) * q + d3) * q + d4) * q + 1);
-        }
-    };
-
     // Calculate Power effect
     useEffect(() => {
-        // Two-tailed Z-test Power Calculation
+        // Two-tailed one-sample t-test Power Calculation
         // Power = 1 - beta
         // beta = P(accept H0 | H1 is true)
-        // Critical Z (right tail) = invNorm(1 - alpha/2)
-        // Z_beta = Critical Z - (d * sqrt(n))
-        // Power = P(Z > Z_beta) = 1 - CDF(Z_beta) = CDF(-Z_beta) = CDF(d*sqrt(n) - Z_crit)
+        // Under H1 the t-statistic follows a noncentral t with df = n - 1 and ncp = d * sqrt(n)
+        // Power = P(T > t_crit) + P(T < -t_crit)
 
-        const zCrit = invNorm(1 - alpha / 2);
-        const zMeasure = effectSize * Math.sqrt(sampleSize);
-        const calcPower = normalCDF(zMeasure - zCrit);
+        const df = sampleSize - 1;
+        const tCrit = studentTQuantile(1 - alpha / 2, df);
+        const ncp = effectSize * Math.sqrt(sampleSize);
+        const calcPower = noncentralTCDF(tCrit, df, ncp, false) + noncentralTCDF(-tCrit, df, ncp);
 
         setPower(calcPower);
         setIsOverloaded(alpha > 0.10); // Warning threshold
@@ -0,0 +1,102 @@
+import React, { useRef, useEffect } from 'react';
+import * as d3 from 'd3';
+import { PruningResult, PruningPathPoint } from '../types';
+
+interface PruningPathChartProps {
+    pruning: PruningResult;
+    selectedAlpha: number;
+    onSelectAlpha: (alpha: number) => void;
+}
+
+const PruningPathChart: React.FC<PruningPathChartProps> = ({ pruning, selectedAlpha, onSelectAlpha }) => {
+    const svgRef = useRef<SVGSVGElement | null>(null);
+
+    useEffect(() => {
+        if (!svgRef.current || pruning.path.length === 0) return;
+
+        const svg = d3.select(svgRef.current);
+        const width = 500;
+        const height = 260;
+        const margin = { top: 20, right: 20, bottom: 45, left: 50 };
+
+        svg.attr('width', '100%')
+           .attr('height', '100%')
+           .attr('viewBox', `0 0 ${width} ${height}`)
+           .attr('preserveAspectRatio', 'xMidYMid meet');
+
+        svg.selectAll('*').remove();
+
+        // One position per subtree on the path, largest tree (alpha = 0) on the left
+        const path = pruning.path;
+        const x = d3.scalePoint<number>().domain(path.map((_, i) => i)).range([margin.left, width - margin.right]).padding(0.4);
+        const yMax = d3.max(path, p => Math.max(p.cvError + p.cvSE, p.trainError)) ?? 1;
+        const y = d3.scaleLinear().domain([0, yMax]).nice().range([height - margin.bottom, margin.top]);
+
+        svg.append('rect').attr('width', width).attr('height', height).attr('fill', 'rgb(30 41 59)');
+
+        svg.append('g').attr('transform', `translate(0,${height - margin.bottom})`)
+            .call(d3.axisBottom(x).tickFormat(i => String(path[i as number].leaves)))
+            .attr('color', 'rgb(100 116 139)');
+        svg.append('g').attr('transform', `translate(${margin.left},0)`).call(d3.axisLeft(y).ticks(5).tickFormat(d3.format('.0%'))).attr('color', 'rgb(100 116 139)');
+
+        svg.append('text').attr('text-anchor', 'middle').attr('x', width / 2).attr('y', height - 8)
+            .text('Leaves in pruned tree (α increases to the right)').style('fill', 'white').style('font-size', '12px');
+        svg.append('text').attr('text-anchor', 'middle').attr('transform', 'rotate(-90)').attr('y', 14).attr('x', -height / 2)
+            .text('Misclassification').style('fill', 'white').style('font-size', '12px');
+
+        const indexOf = (alpha: number) => path.findIndex(p => p.alpha === alpha);
+        const best = path[indexOf(pruning.bestAlpha)];
+
+        // One-SE band above the minimum cross-validated error
+        if (best) {
+            svg.append('line').attr('x1', margin.left).attr('x2', width - margin.right)
+                .attr('y1', y(best.cvError + best.cvSE)).attr('y2', y(best.cvError + best.cvSE))
+                .attr('stroke', 'rgb(100 116 139)').attr('stroke-dasharray', '2,2');
+        }
+
+        const selected = indexOf(selectedAlpha);
+        if (selected >= 0) {
+            svg.append('line').attr('x1', x(selected)!).attr('x2', x(selected)!).attr('y1', margin.top).attr('y2', height - margin.bottom)
+                .attr('stroke', 'rgb(251 113 133)').attr('stroke-width', 1.5).attr('stroke-dasharray', '4,3');
+        }
+
+        const line = (value: (p: PruningPathPoint) => number) => d3.line<PruningPathPoint>().x((_, i) => x(i)!).y(p => y(value(p)));
+
+        svg.append('path').datum(path).attr('d', line(p => p.trainError)).attr('fill', 'none')
+            .attr('stroke', 'rgb(148 163 184)').attr('stroke-width', 2).attr('stroke-dasharray', '6,4');
+
+        svg.append('g').selectAll('line').data(path).join('line')
+            .attr('x1', (_, i) => x(i)!).attr('x2', (_, i) => x(i)!)
+            .attr('y1', p => y(Math.max(0, p.cvError - p.cvSE))).attr('y2', p => y(p.cvError + p.cvSE))
+            .attr('stroke', 'rgb(251 113 133)').attr('opacity', 0.6);
+
+        svg.append('path').datum(path).attr('d', line(p => p.cvError)).attr('fill', 'none')
+            .attr('stroke', 'rgb(251 113 133)').attr('stroke-width', 2);
+
+        svg.append('g').selectAll('circle').data(path).join('circle')
+            .attr('cx', (_, i) => x(i)!)
+            .attr('cy', p => y(p.cvError))
+            .attr('r', p => (p.alpha === pruning.bestAlpha || p.alpha === pruning.oneSEAlpha ? 6 : 4))
+            .attr('fill', p => (p.alpha === pruning.oneSEAlpha ? 'white' : 'rgb(251 113 133)'))
+            .attr('stroke', 'rgb(251 113 133)')
+            .attr('stroke-width', 2)
+            .style('cursor', 'pointer')
+            .on('click', (_, p) => onSelectAlpha(p.alpha));
+
+        const legend = svg.append('g').attr('transform', `translate(${width - margin.right - 170}, ${margin.top})`);
+        [
+            { label: `${pruning.folds}-fold CV error ± SE`, color: 'rgb(251 113 133)', dash: '' },
+            { label: 'Training error', color: 'rgb(148 163 184)', dash: '6,4' }
+        ].forEach((item, i) => {
+            legend.append('line').attr('x1', 0).attr('x2', 20).attr('y1', i * 18).attr('y2', i * 18)
+                .attr('stroke', item.color).attr('stroke-width', 2).attr('stroke-dasharray', item.dash);
+            legend.append('text').attr('x', 26).attr('y', i * 18 + 4).text(item.label)
+                .style('fill', 'rgb(203 213 225)').style('font-size', '11px');
+        });
+
+    }, [pruning, selectedAlpha, onSelectAlpha]);
+
+    return <svg ref={svgRef}></svg>;
+};
+
+export default PruningPathChart;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { getChatResponse } from '../services/geminiService';
 import UnifiedGenAIChat from './UnifiedGenAIChat';
+import { normalRandom } from '../services/distributionService';
 
 interface RankLineProps {
     onBack: () => void;
@@ -10,12 +11,8 @@ interface RankLineProps {
 const generateScores = () => {
     const scores = [];
     for (let i = 0; i < 100; i++) {
-        // Box-Muller transform for simple normal distribution approximation
-        const u = 1 - Math.random();
-        const v = Math.random();
-        const z = Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
         // Mean 75, SD 15, clamped 0-100
-        let score = 75 + z * 15;
+        let score = normalRandom(75, 15);
         score = Math.max(0, Math.min(100, score));
         scores.push(score);
     }
@@ -0,0 +1,92 @@
+import React, { useRef, useEffect } from 'react';
+import * as d3 from 'd3';
+
+interface RankTestComparisonPlotProps {
+    groups: [number[], number[]];
+    onMovePoint: (group: number, index: number, value: number) => void;
+    paired: boolean;
+}
+
+const GROUP_COLORS = ['#38bdf8', '#f472b6']; // Sky-400, Pink-400
+const GROUP_LABELS = ['Group A', 'Group B'];
+
+// Two draggable strip plots: dashed lines mark the means (what the t-test compares), solid lines the medians.
+// Points carry what the rank test sees: ranks in the pooled sample, or signed ranks of the B - A differences when paired
+const RankTestComparisonPlot: React.FC<RankTestComparisonPlotProps> = ({ groups, onMovePoint, paired }) => {
+    const svgRef = useRef<SVGSVGElement | null>(null);
+
+    useEffect(() => {
+        if (!svgRef.current) return;
+        const svg = d3.select(svgRef.current);
+        const width = 600;
+        const height = 360;
+        const margin = { top: 30, right: 40, bottom: 20, left: 50 };
+
+        svg.attr('viewBox', `0 0 ${width} ${height}`);
+        svg.selectAll('*').remove();
+
+        const y = d3.scaleLinear().domain([0, 100]).range([height - margin.bottom, margin.top]);
+        const columns = [margin.left + 150, margin.left + 370];
+        const jitter = (index: number) => (index % 2 === 0 ? -14 : 14);
+
+        svg.append('g')
+            .attr('transform', `translate(${margin.left}, 0)`)
+            .call(d3.axisLeft(y))
+            .attr('color', 'rgb(148 163 184)');
+
+        const midrank = (sorted: number[], value: number) => (sorted.indexOf(value) + sorted.lastIndexOf(value)) / 2 + 1;
+        const formatRank = (rank: number) => (Number.isInteger(rank) ? String(rank) : rank.toFixed(1));
+        const pooled = [...groups[0], ...groups[1]].sort((a, b) => a - b);
+        const differences = groups[1].map((v, i) => v - (groups[0][i] ?? v));
+        const absoluteDifferences = differences.filter(d => d !== 0).map(Math.abs).sort((a, b) => a - b);
+        const labelFor = (g: number, index: number, value: number) => {
+            if (!paired) return formatRank(midrank(pooled, value));
+            if (g === 0 || differences[index] === 0) return '';
+            const rank = formatRank(midrank(absoluteDifferences, Math.abs(differences[index])));
+            return differences[index] > 0 ? `+${rank}` : `−${rank}`;
+        };
+
+        if (paired) {
+            const n = Math.min(groups[0].length, groups[1].length);
+            svg.append('g').selectAll('line').data(d3.range(n)).join('line')
+                .attr('x1', i => columns[0] + jitter(i)).attr('x2', i => columns[1] + jitter(i))
+                .attr('y1', i => y(groups[0][i])).attr('y2', i => y(groups[1][i]))
+                .attr('stroke', i => (groups[1][i] > groups[0][i] ? 'rgba(74, 222, 128, 0.35)' : 'rgba(248, 113, 113, 0.35)'))
+                .attr('stroke-width', 1.5);
+        }
+
+        groups.forEach((values, g) => {
+            const cx = columns[g];
+            const group = svg.append('g');
+            group.append('text').attr('x', cx).attr('y', margin.top - 12).attr('text-anchor', 'middle')
+                .text(GROUP_LABELS[g]).attr('fill', GROUP_COLORS[g]).style('font-size', '13px');
+
+            const mean = d3.mean(values) ?? 0;
+            const median = d3.median(values) ?? 0;
+            group.append('line').attr('x1', cx - 60).attr('x2', cx + 60).attr('y1', y(mean)).attr('y2', y(mean))
+                .attr('stroke', 'white').attr('stroke-width', 2).attr('stroke-dasharray', '6,4');
+            group.append('text').attr('x', cx + 64).attr('y', y(mean)).attr('dy', '0.35em')
+                .text(`mean ${mean.toFixed(1)}`).attr('fill', 'white').style('font-size', '10px');
+            group.append('line').attr('x1', cx - 60).attr('x2', cx + 60).attr('y1', y(median)).attr('y2', y(median))
+                .attr('stroke', '#facc15').attr('stroke-width', 2);
+            group.append('text').attr('x', cx - 64).attr('y', y(median)).attr('dy', '0.35em').attr('text-anchor', 'end')
+                .text(`median ${median.toFixed(1)}`).attr('fill', '#facc15').style('font-size', '10px');
+
+            const indexed = values.map((value, index) => ({ value, index }));
+            const points = group.selectAll('g.point').data(indexed).join('g').attr('class', 'point')
+                .attr('transform', d => `translate(${cx + jitter(d.index)}, ${y(d.value)})`)
+                .style('cursor', 'ns-resize')
+                .call(d3.drag<SVGGElement, { value: number, index: number }>()
+                    .on('drag', (event, d) => onMovePoint(g, d.index, Math.max(0, Math.min(100, y.invert(event.y))))) as any);
+            points.append('circle').attr('r', 9).attr('fill', GROUP_COLORS[g]).attr('stroke', '#0f172a').attr('stroke-width', 2);
+            points.append('text').attr('text-anchor', 'middle').attr('dy', '0.35em')
+                .text(d => labelFor(g, d.index, d.value))
+                .attr('fill', '#0f172a').style('font-size', '9px').style('font-weight', 'bold').style('pointer-events', 'none');
+        });
+
+    }, [groups, onMovePoint, paired]);
+
+    return <svg ref={svgRef} className="w-full h-full min-h-[360px]"></svg>;
+};
+
+export default RankTestComparisonPlot;
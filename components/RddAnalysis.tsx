@@ -1,6 +1,6 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { RddPoint, RddResult } from '../types';
-import { generateRddData, calculateRddEffect } from '../services/statisticsService';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { RddPoint, RddResult, RddKernel } from '../types';
+import { generateRddData, calculateRddEffect, calculateIKBandwidth, calculateRddBandwidthSensitivity, mcCraryDensityTest } from '../services/statisticsService';
 import { getChatResponse } from '../services/geminiService';
 import RddPlot from './RddPlot';
 import UnifiedGenAIChat, { Message } from './UnifiedGenAIChat';
@@ -29,12 +29,22 @@ const Slider: React.FC<{ label: string, value: number, min: number, max: number,
 
 const TRUE_EFFECT = 20;
 const INITIAL_CUTOFF = 50;
+const SENSITIVITY_BANDWIDTHS = Array.from({ length: 39 }, (_, i) => 5 + i * 2.5);
+const KERNEL_LABELS: Record<RddKernel, string> = { triangular: 'Triangular', epanechnikov: 'Epanechnikov', uniform: 'Uniform' };
+
+const formatPValue = (p: number) => (!Number.isFinite(p) ? '—' : p < 0.001 ? '< .001' : p.toFixed(3));
+const formatNumber = (v: number, digits: number = 2) => (Number.isFinite(v) ? v.toFixed(digits) : '—');
 
 const RddAnalysis: React.FC<RddAnalysisProps> = ({ onBack }) => {
     const [cutoff, setCutoff] = useState(INITIAL_CUTOFF);
     const [bandwidth, setBandwidth] = useState(15);
     const [data, setData] = useState<RddPoint[]>([]);
     const [rddResult, setRddResult] = useState<RddResult | null>(null);
+    const [kernel, setKernel] = useState<RddKernel>('triangular');
+    const [order, setOrder] = useState<1 | 2>(1);
+    const [compliance, setCompliance] = useState(100);
+    const [manipulation, setManipulation] = useState(0);
+    const [fuzzy, setFuzzy] = useState(false);
 
     // Chat state
     const [chatHistory, setChatHistory] = useState<Message[]>([
@@ -44,18 +54,22 @@ const RddAnalysis: React.FC<RddAnalysisProps> = ({ onBack }) => {
 
     const regenerateData = useCallback(() => {
         // We generate data based on the initial cutoff to have a consistent "true" model
-        const newData = generateRddData(INITIAL_CUTOFF, TRUE_EFFECT, 200);
+        const newData = generateRddData(INITIAL_CUTOFF, TRUE_EFFECT, 400, compliance / 100, manipulation / 100);
         setData(newData);
-    }, []);
+    }, [compliance, manipulation]);
 
     useEffect(() => {
         regenerateData();
     }, [regenerateData]);
 
     useEffect(() => {
-        const result = calculateRddEffect(data, cutoff, bandwidth);
+        const result = calculateRddEffect(data, cutoff, bandwidth, { kernel, order, fuzzy });
         setRddResult(result);
-    }, [data, cutoff, bandwidth]);
+    }, [data, cutoff, bandwidth, kernel, order, fuzzy]);
+
+    const optimalBandwidth = useMemo(() => (data.length > 0 ? calculateIKBandwidth(data, cutoff, kernel) : NaN), [data, cutoff, kernel]);
+    const sensitivity = useMemo(() => calculateRddBandwidthSensitivity(data, cutoff, SENSITIVITY_BANDWIDTHS, { kernel, order, fuzzy }), [data, cutoff, kernel, order, fuzzy]);
+    const densityTest = useMemo(() => (data.length > 0 ? mcCraryDensityTest(data.map(d => d.x), cutoff) : null), [data, cutoff]);
 
     const handleSendMessage = useCallback(async (msg: string) => {
         setIsChatLoading(true);
@@ -65,12 +79,19 @@ const RddAnalysis: React.FC<RddAnalysisProps> = ({ onBack }) => {
             We are analyzing Regression Discontinuity Design (RDD).
             Current Cutoff Score: ${cutoff}
             Bandwidth: ${bandwidth}
-            Estimated Local Average Treatment Effect (LATE): ${rddResult?.effect.toFixed(2) || 'N/A'}
+            Kernel: ${KERNEL_LABELS[kernel]}, local ${order === 1 ? 'linear' : 'quadratic'} fit${fuzzy ? ', fuzzy design' : ''}
+            Estimated Local Average Treatment Effect (LATE): ${rddResult ? `${formatNumber(rddResult.effect)} (SE ${formatNumber(rddResult.se)}, 95% CI ${formatNumber(rddResult.ciLower)} to ${formatNumber(rddResult.ciUpper)})` : 'N/A'}
+            ${rddResult?.fuzzy ? `First stage (jump in share treated): ${formatNumber(rddResult.fuzzy.firstStage, 3)}; outcome jump: ${formatNumber(rddResult.fuzzy.reducedForm)}` : ''}
             True Effect Size: ${TRUE_EFFECT}
+            Compliance with assignment: ${compliance}%
+            Imbens-Kalyanaraman optimal bandwidth: ${formatNumber(optimalBandwidth, 1)}
+            Effect range across bandwidths 5-100: ${formatNumber(Math.min(...sensitivity.map(s => s.effect).filter(Number.isFinite)))} to ${formatNumber(Math.max(...sensitivity.map(s => s.effect).filter(Number.isFinite)))}
+            McCrary density test: log difference ${formatNumber(densityTest?.theta ?? NaN, 3)}, z = ${formatNumber(densityTest?.z ?? NaN)}, p = ${formatPValue(densityTest?.pValue ?? NaN)}
             
             User Question: ${msg}
             
-            Explain how the 'jump' at the cutoff allows for causal inference despite non-random assignment.
+            Explain how the 'jump' at the cutoff allows for causal inference despite non-random assignment,
+            why the bandwidth trades bias against variance, and what a significant density test says about score manipulation.
         `;
 
         try {
@@ -81,7 +102,7 @@ const RddAnalysis: React.FC<RddAnalysisProps> = ({ onBack }) => {
         } finally {
             setIsChatLoading(false);
         }
-    }, [cutoff, bandwidth, rddResult]);
+    }, [cutoff, bandwidth, rddResult, kernel, order, fuzzy, compliance, optimalBandwidth, sensitivity, densityTest]);
 
     return (
         <div className="w-full max-w-6xl mx-auto">
@@ -95,14 +116,42 @@ const RddAnalysis: React.FC<RddAnalysisProps> = ({ onBack }) => {
 
             <main className="grid grid-cols-1 lg:grid-cols-5 gap-8">
                 <div className="lg:col-span-3 bg-slate-800 rounded-lg shadow-2xl p-4">
-                    {rddResult && <RddPlot data={data} result={rddResult} cutoff={cutoff} bandwidth={bandwidth} />}
+                    {rddResult && <RddPlot data={data} result={rddResult} cutoff={cutoff} bandwidth={bandwidth} sensitivity={sensitivity} optimalBandwidth={Number.isFinite(optimalBandwidth) ? optimalBandwidth : undefined} />}
                 </div>
                 <div className="lg:col-span-2 flex flex-col space-y-8">
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
                         <h3 className="text-lg font-semibold text-amber-400 mb-3">Analysis Controls</h3>
                         <div className="space-y-4">
                             <Slider label="Cutoff Score" value={cutoff} min={20} max={80} step={1} onChange={e => setCutoff(+e.target.value)} />
-                            <Slider label="Bandwidth" value={bandwidth} min={5} max={50} step={1} onChange={e => setBandwidth(+e.target.value)} />
+                            <Slider label="Bandwidth" value={bandwidth} min={5} max={100} step={1} onChange={e => setBandwidth(+e.target.value)} />
+                            <button
+                                onClick={() => setBandwidth(Math.min(100, Math.max(5, Math.round(optimalBandwidth))))}
+                                disabled={!Number.isFinite(optimalBandwidth)}
+                                className="w-full bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-sm py-1 rounded"
+                            >
+                                Use IK Optimal Bandwidth ({formatNumber(optimalBandwidth, 1)})
+                            </button>
+                            <div className="grid grid-cols-2 gap-3 text-sm">
+                                <label className="text-slate-400">Kernel
+                                    <select value={kernel} onChange={e => setKernel(e.target.value as RddKernel)} className="w-full mt-1 bg-slate-900 text-slate-200 rounded p-1">
+                                        {(Object.keys(KERNEL_LABELS) as RddKernel[]).map(k => <option key={k} value={k}>{KERNEL_LABELS[k]}</option>)}
+                                    </select>
+                                </label>
+                                <label className="text-slate-400">Local fit
+                                    <select value={order} onChange={e => setOrder(+e.target.value as 1 | 2)} className="w-full mt-1 bg-slate-900 text-slate-200 rounded p-1">
+                                        <option value={1}>Linear</option>
+                                        <option value={2}>Quadratic</option>
+                                    </select>
+                                </label>
+                            </div>
+                        </div>
+                        <div className="space-y-4 mt-6 pt-4 border-t border-slate-700">
+                            <Slider label="Compliance with Assignment (%)" value={compliance} min={50} max={100} step={5} onChange={e => setCompliance(+e.target.value)} />
+                            <Slider label="Score Manipulation (%)" value={manipulation} min={0} max={50} step={5} onChange={e => setManipulation(+e.target.value)} />
+                            <label className="flex items-center gap-2 text-sm text-slate-300">
+                                <input type="checkbox" checked={fuzzy} onChange={e => setFuzzy(e.target.checked)} />
+                                Fuzzy RDD (divide by the jump in take-up)
+                            </label>
                         </div>
                         <button onClick={regenerateData} className="w-full mt-6 bg-amber-600 hover:bg-amber-700 text-white font-bold py-2 px-4 rounded-lg">
                             Regenerate Data
@@ -113,10 +162,38 @@ const RddAnalysis: React.FC<RddAnalysisProps> = ({ onBack }) => {
                         <div className="flex justify-between items-center">
                             <span className="text-slate-300">"Jump" at Cutoff:</span>
                             <span className="text-2xl font-mono bg-slate-900 px-3 py-1 rounded">
-                                {rddResult?.effect.toFixed(2) || 'N/A'}
+                                {rddResult && Number.isFinite(rddResult.effect) ? rddResult.effect.toFixed(2) : 'N/A'}
                             </span>
                         </div>
+                        {rddResult && (
+                            <div className="grid grid-cols-2 gap-y-1 font-mono text-sm mt-4">
+                                <span className="text-slate-400">Robust SE</span><span className="text-right text-slate-200">{formatNumber(rddResult.se)}</span>
+                                <span className="text-slate-400">95% CI</span><span className="text-right text-slate-200">[{formatNumber(rddResult.ciLower)}, {formatNumber(rddResult.ciUpper)}]</span>
+                                <span className="text-slate-400">p-value</span><span className="text-right text-slate-200">{formatPValue(rddResult.pValue)}</span>
+                                <span className="text-slate-400">n below / above</span><span className="text-right text-slate-200">{rddResult.nTreatment} / {rddResult.nControl}</span>
+                                {rddResult.fuzzy && <>
+                                    <span className="text-slate-400">Take-up jump</span><span className="text-right text-slate-200">{formatNumber(rddResult.fuzzy.firstStage, 3)}</span>
+                                    <span className="text-slate-400">Outcome jump</span><span className="text-right text-slate-200">{formatNumber(rddResult.fuzzy.reducedForm)}</span>
+                                </>}
+                            </div>
+                        )}
                     </div>
+                    {densityTest && (
+                        <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
+                            <h3 className="text-lg font-semibold text-amber-400 mb-3">McCrary Density Test</h3>
+                            <div className="grid grid-cols-2 gap-y-1 font-mono text-sm">
+                                <span className="text-slate-400">Density below / above</span><span className="text-right text-slate-200">{formatNumber(densityTest.densityBelow, 4)} / {formatNumber(densityTest.densityAbove, 4)}</span>
+                                <span className="text-slate-400">Log difference (θ)</span><span className="text-right text-slate-200">{formatNumber(densityTest.theta, 3)}</span>
+                                <span className="text-slate-400">z</span><span className="text-right text-slate-200">{formatNumber(densityTest.z)}</span>
+                                <span className="text-slate-400">p-value</span><span className="text-right text-slate-200">{formatPValue(densityTest.pValue)}</span>
+                            </div>
+                            <p className={`text-xs mt-3 ${densityTest.pValue < 0.05 ? 'text-rose-300' : 'text-slate-400'}`}>
+                                {densityTest.pValue < 0.05
+                                    ? 'Scores bunch on one side of the cutoff: students may be sorting themselves into treatment, so the jump is not a clean causal effect.'
+                                    : 'No evidence that scores bunch at the cutoff.'}
+                            </p>
+                        </div>
+                    )}
 
                     <div className="h-[500px]">
                         <UnifiedGenAIChat
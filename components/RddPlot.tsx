@@ -1,15 +1,20 @@
 import React, { useRef, useEffect } from 'react';
 import * as d3 from 'd3';
-import { RddPoint, RddResult, RegressionLine } from '../types';
+import { RddPoint, RddResult, RddSensitivityPoint } from '../types';
 
 interface RddPlotProps {
     data: RddPoint[];
     result: RddResult;
     cutoff: number;
     bandwidth: number;
+    sensitivity?: RddSensitivityPoint[]; // drawn as a second panel: effect and CI against bandwidth
+    optimalBandwidth?: number;
 }
 
-const RddPlot: React.FC<RddPlotProps> = ({ data, result, cutoff, bandwidth }) => {
+const TREATMENT_COLOR = 'rgb(34 211 238)';
+const CONTROL_COLOR = 'rgb(236 72 153)';
+
+const RddPlot: React.FC<RddPlotProps> = ({ data, result, cutoff, bandwidth, sensitivity, optimalBandwidth }) => {
     const svgRef = useRef<SVGSVGElement | null>(null);
 
     useEffect(() => {
@@ -17,7 +22,9 @@ const RddPlot: React.FC<RddPlotProps> = ({ data, result, cutoff, bandwidth }) =>
 
         const svg = d3.select(svgRef.current);
         const width = 500;
-        const height = 500;
+        const mainHeight = 500;
+        const panelHeight = sensitivity && sensitivity.length > 0 ? 200 : 0;
+        const height = mainHeight + panelHeight;
         const margin = { top: 20, right: 20, bottom: 30, left: 40 };
 
         svg.attr('width', '100%')
@@ -26,15 +33,15 @@ const RddPlot: React.FC<RddPlotProps> = ({ data, result, cutoff, bandwidth }) =>
            .attr('preserveAspectRatio', 'xMidYMid meet');
 
         const x = d3.scaleLinear().domain([0, 100]).range([margin.left, width - margin.right]);
-        const y = d3.scaleLinear().domain([0, 100]).range([height - margin.bottom, margin.top]);
+        const y = d3.scaleLinear().domain([0, 100]).range([mainHeight - margin.bottom, margin.top]);
 
         svg.selectAll('*').remove();
         svg.append('rect').attr('width', width).attr('height', height).attr('fill', 'rgb(30 41 59)');
 
         // Axes and Grid
-        svg.append('g').attr('transform', `translate(0,${height - margin.bottom})`).call(d3.axisBottom(x)).attr('color', 'rgb(100 116 139)');
+        svg.append('g').attr('transform', `translate(0,${mainHeight - margin.bottom})`).call(d3.axisBottom(x)).attr('color', 'rgb(100 116 139)');
         svg.append('g').attr('transform', `translate(${margin.left},0)`).call(d3.axisLeft(y)).attr('color', 'rgb(100 116 139)');
-        svg.append('g').attr('class', 'grid').attr('transform', `translate(0,${height - margin.bottom})`).call(d3.axisBottom(x).ticks(10).tickSize(-height + margin.top + margin.bottom).tickFormat(() => '')).selectAll('line').attr('stroke', 'rgba(100, 116, 139, 0.2)');
+        svg.append('g').attr('class', 'grid').attr('transform', `translate(0,${mainHeight - margin.bottom})`).call(d3.axisBottom(x).ticks(10).tickSize(-mainHeight + margin.top + margin.bottom).tickFormat(() => '')).selectAll('line').attr('stroke', 'rgba(100, 116, 139, 0.2)');
 
         const chartArea = svg.append('g');
 
@@ -43,23 +50,32 @@ const RddPlot: React.FC<RddPlotProps> = ({ data, result, cutoff, bandwidth }) =>
             .attr('id', 'rdd-clip')
             .append('rect')
             .attr('width', width - margin.left - margin.right)
-            .attr('height', height - margin.top - margin.bottom)
+            .attr('height', mainHeight - margin.top - margin.bottom)
             .attr('x', margin.left)
             .attr('y', margin.top);
 
         chartArea.attr('clip-path', 'url(#rdd-clip)');
 
+        // Bandwidth window
+        chartArea.append('rect')
+            .attr('x', x(Math.max(0, cutoff - bandwidth)))
+            .attr('width', x(Math.min(100, cutoff + bandwidth)) - x(Math.max(0, cutoff - bandwidth)))
+            .attr('y', margin.top)
+            .attr('height', mainHeight - margin.top - margin.bottom)
+            .attr('fill', 'rgba(251, 191, 36, 0.05)');
+
         // Cutoff Line
         chartArea.append('line')
             .attr('x1', x(cutoff))
             .attr('y1', margin.top)
             .attr('x2', x(cutoff))
-            .attr('y2', height - margin.bottom)
+            .attr('y2', mainHeight - margin.bottom)
             .attr('stroke', 'white')
             .attr('stroke-width', 2)
             .attr('stroke-dasharray', '4,4');
 
-        // Points
+        // Points: colour shows treatment actually received, hollow points crossed over from their assigned side
+        const receivedTreatment = (d: RddPoint) => d.treated ?? d.group === 'treatment';
         chartArea.append('g')
             .selectAll('circle')
             .data(data, (d: any) => d.id)
@@ -67,24 +83,76 @@ const RddPlot: React.FC<RddPlotProps> = ({ data, result, cutoff, bandwidth }) =>
             .attr('cx', d => x(d.x))
             .attr('cy', d => y(d.y))
             .attr('r', 3)
-            .attr('fill', d => d.group === 'treatment' ? 'rgb(34 211 238)' : 'rgb(236 72 153)')
+            .attr('fill', d => (receivedTreatment(d) !== (d.group === 'treatment') ? 'none' : receivedTreatment(d) ? TREATMENT_COLOR : CONTROL_COLOR))
+            .attr('stroke', d => (receivedTreatment(d) ? TREATMENT_COLOR : CONTROL_COLOR))
             .attr('opacity', d => Math.abs(d.x - cutoff) < bandwidth ? 0.9 : 0.2);
 
-        // Regression Lines
-        const renderLine = (line: RegressionLine, startX: number, endX: number, color: string) => {
-            const x1 = startX, y1 = line.slope * x1 + line.intercept;
-            const x2 = endX, y2 = line.slope * x2 + line.intercept;
-            chartArea.append('line')
-                .attr('x1', x(x1)).attr('y1', y(y1))
-                .attr('x2', x(x2)).attr('y2', y(y2))
+        // Local polynomial fits, evaluated in (x - cutoff)
+        const renderFit = (coefficients: number[], startX: number, endX: number, color: string) => {
+            if (coefficients.some(c => !Number.isFinite(c))) return;
+            const curve = d3.range(0, 41).map(i => {
+                const xv = startX + (i / 40) * (endX - startX);
+                const u = xv - cutoff;
+                return [xv, coefficients.reduce((sum, c, k) => sum + c * u ** k, 0)] as [number, number];
+            });
+            chartArea.append('path')
+                .datum(curve)
+                .attr('d', d3.line().x(d => x(d[0])).y(d => y(d[1])))
+                .attr('fill', 'none')
                 .attr('stroke', color)
                 .attr('stroke-width', 2.5);
         };
-        
-        renderLine(result.controlLine, Math.max(0, cutoff - bandwidth), cutoff, 'rgb(236 72 153)');
-        renderLine(result.treatmentLine, cutoff, Math.min(100, cutoff + bandwidth), 'rgb(34 211 238)');
 
-    }, [data, result, cutoff, bandwidth]);
+        renderFit(result.treatmentFit, Math.max(0, cutoff - bandwidth), cutoff, TREATMENT_COLOR);
+        renderFit(result.controlFit, cutoff, Math.min(100, cutoff + bandwidth), CONTROL_COLOR);
+
+        // The jump between the two limits at the cutoff
+        const upperLimit = result.treatmentFit[0];
+        const lowerLimit = result.controlFit[0];
+        if (Number.isFinite(upperLimit) && Number.isFinite(lowerLimit)) {
+            chartArea.append('line')
+                .attr('x1', x(cutoff)).attr('x2', x(cutoff))
+                .attr('y1', y(upperLimit)).attr('y2', y(lowerLimit))
+                .attr('stroke', 'rgb(251 191 36)')
+                .attr('stroke-width', 4);
+        }
+
+        // Sensitivity of the estimate to the bandwidth
+        if (sensitivity && sensitivity.length > 0) {
+            const top = mainHeight + 25;
+            const bottom = height - margin.bottom;
+            const finite = sensitivity.filter(s => Number.isFinite(s.effect) && Number.isFinite(s.ciLower) && Number.isFinite(s.ciUpper));
+            const sx = d3.scaleLinear().domain(d3.extent(sensitivity, s => s.bandwidth) as [number, number]).range([margin.left, width - margin.right]);
+            const yExtent = [d3.min(finite, s => s.ciLower) ?? 0, d3.max(finite, s => s.ciUpper) ?? 1];
+            const sy = d3.scaleLinear().domain([Math.min(0, yExtent[0]), Math.max(0, yExtent[1])]).nice().range([bottom, top]);
+            const panel = svg.append('g');
+
+            panel.append('g').attr('transform', `translate(0,${bottom})`).call(d3.axisBottom(sx).ticks(8)).attr('color', 'rgb(100 116 139)');
+            panel.append('g').attr('transform', `translate(${margin.left},0)`).call(d3.axisLeft(sy).ticks(4)).attr('color', 'rgb(100 116 139)');
+            panel.append('text').attr('x', width / 2).attr('y', top - 8).attr('text-anchor', 'middle')
+                .text('Estimated jump (95% CI) by bandwidth').style('fill', 'rgb(203 213 225)').style('font-size', '12px');
+            panel.append('line').attr('x1', margin.left).attr('x2', width - margin.right).attr('y1', sy(0)).attr('y2', sy(0))
+                .attr('stroke', 'rgb(100 116 139)').attr('stroke-dasharray', '3,3');
+
+            panel.append('path').datum(finite)
+                .attr('d', d3.area<RddSensitivityPoint>().x(s => sx(s.bandwidth)).y0(s => sy(s.ciLower)).y1(s => sy(s.ciUpper)))
+                .attr('fill', 'rgba(251, 191, 36, 0.2)');
+            panel.append('path').datum(finite)
+                .attr('d', d3.line<RddSensitivityPoint>().x(s => sx(s.bandwidth)).y(s => sy(s.effect)))
+                .attr('fill', 'none').attr('stroke', 'rgb(251 191 36)').attr('stroke-width', 2);
+
+            const marker = (value: number, color: string, label: string) => {
+                if (!Number.isFinite(value) || value < sx.domain()[0] || value > sx.domain()[1]) return;
+                panel.append('line').attr('x1', sx(value)).attr('x2', sx(value)).attr('y1', top).attr('y2', bottom)
+                    .attr('stroke', color).attr('stroke-dasharray', '4,3');
+                panel.append('text').attr('x', sx(value) + 4).attr('y', top + 10).text(label)
+                    .style('fill', color).style('font-size', '10px');
+            };
+            marker(bandwidth, 'white', 'current');
+            if (optimalBandwidth !== undefined) marker(optimalBandwidth, 'rgb(74 222 128)', 'IK optimal');
+        }
+
+    }, [data, result, cutoff, bandwidth, sensitivity, optimalBandwidth]);
 
     return <svg ref={svgRef}></svg>;
 };
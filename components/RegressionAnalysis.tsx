@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { ResidualPoint, RegressionLine } from '../types';
-import { calculateLinearRegression, calculateRSquared, calculateStandardError } from '../services/statisticsService';
+import { ResidualPoint, RegressionLine, NumericTable, OLSCoefficient } from '../types';
+import { calculateLinearRegression, calculateRSquared, calculateStandardError, fitMultipleRegression, fitRegressionModel, parseNumericTable } from '../services/statisticsService';
 import { getChatResponse } from '../services/geminiService';
 import RegressionScatterPlot from './RegressionScatterPlot';
 import SpringVisualizer from './SpringVisualizer';
@@ -42,6 +42,37 @@ const generateRandomCloud = (count: number): ResidualPoint[] => {
     });
 };
 
+const formatPValue = (p: number) => (p < 0.001 ? '<.001' : p.toFixed(3));
+
+const CoefficientTable: React.FC<{ coefficients: OLSCoefficient[], showVif?: boolean }> = ({ coefficients, showVif = false }) => (
+    <table className="w-full text-xs font-mono text-slate-300">
+        <thead>
+            <tr className="text-slate-400 border-b border-slate-700">
+                <th className="text-left font-normal pb-1">Term</th>
+                <th className="text-right font-normal pb-1">B</th>
+                <th className="text-right font-normal pb-1">SE</th>
+                <th className="text-right font-normal pb-1">t</th>
+                <th className="text-right font-normal pb-1">p</th>
+                <th className="text-right font-normal pb-1">95% CI</th>
+                {showVif && <th className="text-right font-normal pb-1">VIF</th>}
+            </tr>
+        </thead>
+        <tbody>
+            {coefficients.map(c => (
+                <tr key={c.term} className="border-b border-slate-700/50">
+                    <td className="py-1 pr-2">{c.term}</td>
+                    <td className="text-right">{c.estimate.toFixed(3)}</td>
+                    <td className="text-right">{c.se.toFixed(3)}</td>
+                    <td className="text-right">{c.t.toFixed(2)}</td>
+                    <td className={`text-right ${c.p < 0.05 ? 'text-yellow-300 font-bold' : ''}`}>{formatPValue(c.p)}</td>
+                    <td className="text-right pl-2">[{c.lower.toFixed(2)}, {c.upper.toFixed(2)}]</td>
+                    {showVif && <td className={`text-right ${c.vif !== null && c.vif > 5 ? 'text-rose-400' : ''}`}>{c.vif === null ? '' : c.vif.toFixed(2)}</td>}
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
+
 const Slider: React.FC<{ label: string, value: number, min: number, max: number, step: number, onChange: (e: React.ChangeEvent<HTMLInputElement>) => void }> = ({ label, value, min, max, step, onChange }) => (
     <div>
         <label className="flex justify-between text-sm text-slate-400">
@@ -68,7 +99,6 @@ const RegressionAnalysis: React.FC<RegressionAnalysisProps> = ({ onBack, customT
         { role: 'model', text: "Welcome to Regression Analysis! 📉 I'm Dr. Gem. Let's find the line of best fit." }
     ]);
     const [isChatLoading, setIsChatLoading] = useState<boolean>(false);
-    const [hasOutlier, setHasOutlier] = useState<boolean>(false);
 
     // Mode Selection
     const [scenario, setScenario] = useState<'abstract' | 'physics'>('abstract');
@@ -85,6 +115,16 @@ const RegressionAnalysis: React.FC<RegressionAnalysisProps> = ({ onBack, customT
     // Prediction Tool State
     const [predictX, setPredictX] = useState<number>(50);
 
+    // Multiple regression on uploaded data
+    const [uploadText, setUploadText] = useState('');
+    const [uploadMessage, setUploadMessage] = useState<string | null>(null);
+    const [table, setTable] = useState<NumericTable | null>(null);
+    const [response, setResponse] = useState('');
+    const [predictors, setPredictors] = useState<string[]>([]);
+    const [categorical, setCategorical] = useState<string[]>([]);
+    const [interactions, setInteractions] = useState<[string, string][]>([]);
+    const [interactionDraft, setInteractionDraft] = useState<[string, string]>(['', '']);
+
     // Initial Setup based on Module ID
     useEffect(() => {
         if (moduleId === 'residual-rain') {
@@ -170,9 +210,65 @@ const RegressionAnalysis: React.FC<RegressionAnalysisProps> = ({ onBack, customT
         return { points: updated, maxResidual };
     }, [points, effectiveLine]);
 
-    useEffect(() => {
-        setHasOutlier(displayPoints.maxResidual > 35 && points.length > 5);
-    }, [displayPoints.maxResidual, points.length]);
+    // 5. OLS inference and influence diagnostics (always for the least-squares fit)
+    const olsFit = useMemo(
+        () => (points.length >= 3 ? fitMultipleRegression(points.map(p => [p.x]), points.map(p => p.y), ['X']) : null),
+        [points]
+    );
+    const influence = useMemo(() => {
+        const diagnostics = olsFit?.diagnostics ?? [];
+        return {
+            influential: diagnostics.filter(d => d.influential).length,
+            highLeverage: diagnostics.filter(d => d.highLeverage).length,
+            outliers: diagnostics.filter(d => d.outlier).length,
+            maxCooks: diagnostics.reduce((max, d) => Math.max(max, d.cooksDistance), 0)
+        };
+    }, [olsFit]);
+
+    const model = useMemo(() => {
+        if (!table || !response || predictors.length === 0) return null;
+        return fitRegressionModel(table.rows, {
+            response,
+            predictors,
+            categorical: categorical.filter(c => predictors.includes(c)),
+            interactions: interactions.filter(([a, b]) => predictors.includes(a) && predictors.includes(b))
+        });
+    }, [table, response, predictors, categorical, interactions]);
+
+    const handleLoadData = () => {
+        const parsed = parseNumericTable(uploadText);
+        if (parsed.columns.length < 2 || parsed.rows.length < 5) {
+            setUploadMessage('Need a header row, at least 5 complete rows and two or more numeric columns.');
+            return;
+        }
+        setTable(parsed);
+        setResponse(parsed.columns[0]);
+        setPredictors(parsed.columns.slice(1));
+        // Columns with a handful of integer codes are likely groups
+        setCategorical(parsed.columns.slice(1).filter(c => {
+            const levels = new Set(parsed.rows.map(r => r[c]));
+            return levels.size <= 5 && levels.size < parsed.rows.length / 2 && [...levels].every(Number.isInteger) && !(levels.size === 2 && levels.has(0) && levels.has(1));
+        }));
+        setInteractions([]);
+        setInteractionDraft(['', '']);
+        setUploadMessage(`Loaded ${parsed.rows.length} rows and ${parsed.columns.length} columns${parsed.skippedRows > 0 ? ` (${parsed.skippedRows} incomplete rows dropped)` : ''}.`);
+    };
+
+    const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => setUploadText(String(reader.result ?? ''));
+        reader.readAsText(file);
+    };
+
+    const togglePredictor = (column: string) => setPredictors(prev => (prev.includes(column) ? prev.filter(c => c !== column) : [...prev, column]));
+    const toggleCategorical = (column: string) => setCategorical(prev => (prev.includes(column) ? prev.filter(c => c !== column) : [...prev, column]));
+    const addInteraction = () => {
+        const [a, b] = interactionDraft;
+        if (!a || !b || a === b || interactions.some(([x, y]) => (x === a && y === b) || (x === b && y === a))) return;
+        setInteractions(prev => [...prev, [a, b]]);
+    };
 
 
     const handleSendMessage = async (msg: string) => {
@@ -186,7 +282,12 @@ const RegressionAnalysis: React.FC<RegressionAnalysisProps> = ({ onBack, customT
             - R-Squared: ${rSquared.toFixed(3)}
             - Standard Error: ${standardError.toFixed(2)}
             - Manual Mode: ${isManualMode}
-            - Has Outlier: ${hasOutlier}
+            ${olsFit ? `- Least-squares inference: ${olsFit.coefficients.map(c => `${c.term} B=${c.estimate.toFixed(3)} (SE ${c.se.toFixed(3)}, t=${c.t.toFixed(2)}, p ${formatPValue(c.p)}, 95% CI [${c.lower.toFixed(2)}, ${c.upper.toFixed(2)}])`).join('; ')}
+            - Adjusted R²: ${olsFit.adjustedRSquared.toFixed(3)}; F(${olsFit.dfModel}, ${olsFit.dfResidual}) = ${olsFit.fStatistic.toFixed(2)}, p ${formatPValue(olsFit.fPValue)}
+            - Influence: ${influence.influential} points with Cook's D > 4/n (max ${influence.maxCooks.toFixed(3)}), ${influence.highLeverage} high-leverage points, ${influence.outliers} Bonferroni outliers` : ''}
+            ${model ? `- Uploaded data model for ${response}: ${model.coefficients.map(c => `${c.term} B=${c.estimate.toFixed(3)} (SE ${c.se.toFixed(3)}, p ${formatPValue(c.p)}${c.vif !== null ? `, VIF ${c.vif.toFixed(2)}` : ''})`).join('; ')}
+            - R² = ${model.rSquared.toFixed(3)}, adjusted ${model.adjustedRSquared.toFixed(3)}, F(${model.dfModel}, ${model.dfResidual}) = ${model.fStatistic.toFixed(2)}, p ${formatPValue(model.fPValue)}; ${model.diagnostics.filter(d => d.influential).length} influential cases` : ''}
+
             
             Goal: Understand relationship between X and Y.
         `;
@@ -260,6 +361,7 @@ const RegressionAnalysis: React.FC<RegressionAnalysisProps> = ({ onBack, customT
                         yAxisLabel={scenario === 'physics' ? "Spring Length (cm)" : "Dependent Variable (Y)"}
                         pointColor={moduleId === 'prediction-painter' ? 'rgb(192 38 211)' : undefined} // Fuchsia-600 for Painter
                         lineColor={moduleId === 'prediction-painter' ? 'rgb(249 115 22)' : undefined} // Orange-500 for Painter
+                        diagnostics={olsFit?.diagnostics}
                     />
                 </div>
 
@@ -342,6 +444,22 @@ const RegressionAnalysis: React.FC<RegressionAnalysisProps> = ({ onBack, customT
                                 {standardError.toFixed(2)}
                             </span>
                         </div>
+                        {olsFit && !isManualMode && (
+                            <div className="border-t border-slate-700 pt-3 space-y-2">
+                                <CoefficientTable coefficients={olsFit.coefficients} />
+                                <p className="text-xs text-slate-400">
+                                    Adjusted R² = <span className="font-mono text-slate-200">{olsFit.adjustedRSquared.toFixed(3)}</span>,
+                                    F({olsFit.dfModel}, {olsFit.dfResidual}) = <span className="font-mono text-slate-200">{olsFit.fStatistic.toFixed(2)}</span>, p {formatPValue(olsFit.fPValue)}
+                                </p>
+                            </div>
+                        )}
+                        {olsFit && (
+                            <p className="text-xs text-slate-400 border-t border-slate-700 pt-2">
+                                <span className={influence.influential > 0 ? 'text-rose-400' : ''}>{influence.influential} influential</span> (Cook's D &gt; 4/n, max {influence.maxCooks.toFixed(2)}),{' '}
+                                <span className={influence.highLeverage > 0 ? 'text-amber-400' : ''}>{influence.highLeverage} high-leverage</span>,{' '}
+                                {influence.outliers} outlier{influence.outliers === 1 ? '' : 's'} by the Bonferroni test. Hover a point for its diagnostics.
+                            </p>
+                        )}
                         {scenario === 'physics' && (
                             <p className="text-xs text-slate-400 mt-2 border-t border-slate-700 pt-2">
                                 <strong>Physical Interpretation:</strong><br />
@@ -375,6 +493,86 @@ const RegressionAnalysis: React.FC<RegressionAnalysisProps> = ({ onBack, customT
                         </div>
                     </div>
 
+                    {/* Multiple Regression on uploaded data */}
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-3">
+                        <h3 className="text-lg font-semibold text-yellow-400">Multiple Regression</h3>
+                        <textarea value={uploadText} onChange={e => setUploadText(e.target.value)} rows={4} placeholder={'score,hours,group\n78,12,1\n64,5,2'} className="w-full bg-slate-900 text-slate-200 text-xs font-mono rounded p-2" />
+                        <div className="flex gap-2">
+                            <button onClick={handleLoadData} className="flex-1 text-sm bg-yellow-600 hover:bg-yellow-500 text-white py-2 rounded">Load Data</button>
+                            <label className="flex-1 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 py-2 rounded text-center cursor-pointer">
+                                Upload
+                                <input type="file" accept=".csv,.tsv,.txt" onChange={handleFileUpload} className="hidden" />
+                            </label>
+                        </div>
+                        <p className="text-xs text-slate-500">{uploadMessage ?? 'Paste CSV or tab-separated data with a header row; categorical predictors should be numeric codes.'}</p>
+                        {table && (
+                            <div className="space-y-3 border-t border-slate-700 pt-3">
+                                <label className="flex items-center justify-between text-sm text-slate-400">
+                                    <span>Response</span>
+                                    <select value={response} onChange={(e) => { setResponse(e.target.value); setPredictors(prev => prev.filter(c => c !== e.target.value)); }} className="bg-slate-700 text-slate-200 p-1 rounded text-sm">
+                                        {table.columns.map(c => <option key={c} value={c}>{c}</option>)}
+                                    </select>
+                                </label>
+                                <div className="space-y-1">
+                                    {table.columns.filter(c => c !== response).map(c => (
+                                        <div key={c} className="flex items-center justify-between text-sm">
+                                            <label className="flex items-center gap-2 text-slate-300">
+                                                <input type="checkbox" checked={predictors.includes(c)} onChange={() => togglePredictor(c)} className="accent-yellow-500" />
+                                                {c}
+                                            </label>
+                                            <label className="flex items-center gap-1 text-xs text-slate-400">
+                                                <input type="checkbox" checked={categorical.includes(c)} onChange={() => toggleCategorical(c)} disabled={!predictors.includes(c)} />
+                                                categorical
+                                            </label>
+                                        </div>
+                                    ))}
+                                </div>
+                                <div className="flex items-center gap-2 text-sm">
+                                    <select value={interactionDraft[0]} onChange={(e) => setInteractionDraft([e.target.value, interactionDraft[1]])} className="flex-1 bg-slate-700 text-slate-200 p-1 rounded text-xs">
+                                        <option value="">—</option>
+                                        {predictors.map(c => <option key={c} value={c}>{c}</option>)}
+                                    </select>
+                                    <span className="text-slate-400">×</span>
+                                    <select value={interactionDraft[1]} onChange={(e) => setInteractionDraft([interactionDraft[0], e.target.value])} className="flex-1 bg-slate-700 text-slate-200 p-1 rounded text-xs">
+                                        <option value="">—</option>
+                                        {predictors.map(c => <option key={c} value={c}>{c}</option>)}
+                                    </select>
+                                    <button onClick={addInteraction} className="text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 px-2 py-1 rounded">Add</button>
+                                </div>
+                                {interactions.length > 0 && (
+                                    <div className="flex flex-wrap gap-2">
+                                        {interactions.map(([a, b]) => (
+                                            <button key={`${a}:${b}`} onClick={() => setInteractions(prev => prev.filter(([x, y]) => !(x === a && y === b)))} className="text-xs bg-slate-900 text-slate-300 px-2 py-1 rounded hover:text-rose-400">
+                                                {a} × {b} ✕
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                                {model ? (
+                                    <div className="space-y-2">
+                                        <CoefficientTable coefficients={model.coefficients} showVif />
+                                        <p className="text-xs text-slate-400">
+                                            n = {model.n}, R² = <span className="font-mono text-slate-200">{model.rSquared.toFixed(3)}</span>,
+                                            adjusted R² = <span className="font-mono text-slate-200">{model.adjustedRSquared.toFixed(3)}</span>,
+                                            s = <span className="font-mono text-slate-200">{model.residualSE.toFixed(3)}</span>,
+                                            F({model.dfModel}, {model.dfResidual}) = <span className="font-mono text-slate-200">{model.fStatistic.toFixed(2)}</span>, p {formatPValue(model.fPValue)}
+                                        </p>
+                                        {model.diagnostics.some(d => d.influential || d.outlier) && (
+                                            <p className="text-xs text-rose-400">
+                                                Check {table.lineNumbers ? 'lines' : 'rows'} {model.diagnostics.filter(d => d.influential || d.outlier)
+                                                    .sort((a, b) => b.cooksDistance - a.cooksDistance).slice(0, 6)
+                                                    .map(d => `${table.lineNumbers?.[d.index] ?? d.index + 1} (D = ${d.cooksDistance.toFixed(2)}${d.outlier ? ', outlier' : ''})`).join(', ')}
+                                                {table.lineNumbers && ' of the pasted data (the header is line 1).'}
+                                            </p>
+                                        )}
+                                    </div>
+                                ) : (
+                                    predictors.length > 0 && <p className="text-xs text-amber-400">The model cannot be estimated: predictors are perfectly collinear or there are too few rows.</p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+
                     <UnifiedGenAIChat
                         moduleTitle="Regression Analysis"
                         history={chatHistory}
@@ -1,7 +1,7 @@
 
 import React, { useRef, useEffect } from 'react';
 import * as d3 from 'd3';
-import { ResidualPoint, RegressionLine } from '../types';
+import { ResidualPoint, RegressionLine, RegressionDiagnostic } from '../types';
 
 interface RegressionScatterPlotProps {
     data: ResidualPoint[];
@@ -14,12 +14,16 @@ interface RegressionScatterPlotProps {
     yAxisLabel?: string;
     pointColor?: string;
     lineColor?: string;
+    diagnostics?: RegressionDiagnostic[]; // aligned with data; flags influential and high-leverage points
 }
 
+const INFLUENTIAL_COLOR = 'rgb(251 113 133)';
+const LEVERAGE_COLOR = 'rgb(251 191 36)';
+
 const RegressionScatterPlot: React.FC<RegressionScatterPlotProps> = ({
     data, line, onPointUpdate, onAddPoint, showSquares, showMeanLine,
     xAxisLabel = "Independent Variable (X)", yAxisLabel = "Dependent Variable (Y)",
-    pointColor = "rgb(34 211 238)", lineColor = "rgb(250 204 21)"
+    pointColor = "rgb(34 211 238)", lineColor = "rgb(250 204 21)", diagnostics
 }) => {
     const svgRef = useRef<SVGSVGElement | null>(null);
 
@@ -98,6 +102,7 @@ const RegressionScatterPlot: React.FC<RegressionScatterPlotProps> = ({
             chartArea.append('line').attr('class', 'regression-line');
             chartArea.append('text').attr('class', 'equation-text');
             chartArea.append('g').attr('class', 'points-layer');
+            svg.append('g').attr('class', 'influence-legend');
         }
 
         const x = d3.scaleLinear().domain([0, 100]).range([margin.left, width - margin.right]);
@@ -223,6 +228,25 @@ const RegressionScatterPlot: React.FC<RegressionScatterPlotProps> = ({
             .text(`y = ${slopeText}x ${interceptText}`);
 
 
+        // Influence flags from the OLS fit
+        const diagnosticById = new Map<number, RegressionDiagnostic | undefined>(data.map((d, i) => [d.id, diagnostics?.[i]]));
+        const fillFor = (d: ResidualPoint) => (diagnosticById.get(d.id)?.influential ? INFLUENTIAL_COLOR : pointColor);
+        const strokeFor = (d: ResidualPoint) => (diagnosticById.get(d.id)?.highLeverage ? LEVERAGE_COLOR : 'rgb(15 23 42)');
+
+        const legend = svg.select('.influence-legend').attr('transform', `translate(${margin.left + 10},${margin.top + 10})`);
+        legend.selectAll('*').remove();
+        if (diagnostics) {
+            [
+                { label: "Influential (Cook's D > 4/n)", fill: INFLUENTIAL_COLOR, stroke: 'rgb(15 23 42)' },
+                { label: 'High leverage (h > 2p/n)', fill: 'none', stroke: LEVERAGE_COLOR }
+            ].forEach((item, i) => {
+                legend.append('circle').attr('cx', 5).attr('cy', i * 16).attr('r', 5)
+                    .attr('fill', item.fill).attr('stroke', item.stroke).attr('stroke-width', 2);
+                legend.append('text').attr('x', 16).attr('y', i * 16 + 4).text(item.label)
+                    .style('fill', 'rgb(203 213 225)').style('font-size', '11px');
+            });
+        }
+
         // Drag Behavior
         const drag = d3.drag<SVGCircleElement, ResidualPoint>()
             .subject(function (event, d) {
@@ -239,7 +263,7 @@ const RegressionScatterPlot: React.FC<RegressionScatterPlotProps> = ({
                 d3.select(this).attr('cx', x(newX)).attr('cy', y(newY));
                 onPointUpdate(d.id, newX, newY);
             })
-            .on('end', function () { d3.select(this).attr('r', 6).attr('stroke', 'rgb(15 23 42)'); });
+            .on('end', function (_, d) { d3.select(this).attr('r', 6).attr('stroke', strokeFor(d)); });
 
         // Update Points
         chartArea.select('.points-layer')
@@ -248,20 +272,21 @@ const RegressionScatterPlot: React.FC<RegressionScatterPlotProps> = ({
             .join(
                 enter => enter.append('circle')
                     .attr('r', 6)
-                    .attr('fill', pointColor)
-                    .attr('stroke', 'rgb(15 23 42)')
                     .attr('stroke-width', 2)
                     .style('cursor', 'grab'),
-                update => update
-                    .attr('cx', d => x(d.x))
-                    .attr('cy', d => y(d.y)),
+                update => update,
                 exit => exit.remove()
             )
+            .attr('cx', d => x(d.x))
+            .attr('cy', d => y(d.y))
+            .attr('fill', fillFor)
+            .attr('stroke', strokeFor)
             // Attach drag and events on the merged selection
             .call(drag)
             .on('mouseover', function (event, d) {
                 const yHat = line.slope * d.x + line.intercept;
                 const residual = d.y - yHat;
+                const diagnostic = diagnosticById.get(d.id);
 
                 d3.select(this)
                     .transition().duration(200)
@@ -276,6 +301,10 @@ const RegressionScatterPlot: React.FC<RegressionScatterPlotProps> = ({
                             <span class="text-slate-400">Y:</span> <span class="font-mono text-cyan-300 text-right">${d.y.toFixed(1)}</span>
                             <span class="text-slate-400">Pred Y:</span> <span class="font-mono text-yellow-300 text-right">${yHat.toFixed(1)}</span>
                             <span class="text-slate-400">Error:</span> <span class="font-mono ${residual < 0 ? 'text-red-400' : 'text-green-400'} text-right">${residual.toFixed(1)}</span>
+                            ${diagnostic ? `
+                            <span class="text-slate-400">Leverage:</span> <span class="font-mono ${diagnostic.highLeverage ? 'text-amber-300' : 'text-slate-300'} text-right">${diagnostic.leverage.toFixed(3)}</span>
+                            <span class="text-slate-400">Stud. resid:</span> <span class="font-mono ${diagnostic.outlier ? 'text-rose-300' : 'text-slate-300'} text-right">${diagnostic.studentizedResidual.toFixed(2)}</span>
+                            <span class="text-slate-400">Cook's D:</span> <span class="font-mono ${diagnostic.influential ? 'text-rose-300' : 'text-slate-300'} text-right">${diagnostic.cooksDistance.toFixed(3)}</span>` : ''}
                         </div>
                     `);
             })
@@ -284,11 +313,11 @@ const RegressionScatterPlot: React.FC<RegressionScatterPlotProps> = ({
                     .style('top', (event.pageY - 10) + 'px')
                     .style('left', (event.pageX + 10) + 'px');
             })
-            .on('mouseout', function () {
+            .on('mouseout', function (_, d) {
                 d3.select(this)
                     .transition().duration(200)
                     .attr('r', 6)
-                    .attr('fill', pointColor);
+                    .attr('fill', fillFor(d));
                 tooltip.style('visibility', 'hidden');
             });
 
@@ -297,7 +326,7 @@ const RegressionScatterPlot: React.FC<RegressionScatterPlotProps> = ({
             tooltip.remove();
         }
 
-    }, [data, line, onPointUpdate, onAddPoint, showSquares, showMeanLine, xAxisLabel, yAxisLabel]);
+    }, [data, line, onPointUpdate, onAddPoint, showSquares, showMeanLine, xAxisLabel, yAxisLabel, pointColor, lineColor, diagnostics]);
 
     return <svg ref={svgRef}></svg>;
 };
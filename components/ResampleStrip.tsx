@@ -0,0 +1,59 @@
+import React, { useRef, useEffect } from 'react';
+import * as d3 from 'd3';
+
+export interface StripRow {
+    label: string;
+    values: number[];
+    color: string;
+    counts?: number[]; // times each value was drawn into the current resample; 0 dims the point
+}
+
+interface ResampleStripProps {
+    rows: StripRow[];
+    domain: [number, number];
+}
+
+// One dot row per group; drawn counts stack extra dots above a point so repeats in a resample are visible
+const ResampleStrip: React.FC<ResampleStripProps> = ({ rows, domain }) => {
+    const svgRef = useRef<SVGSVGElement | null>(null);
+
+    useEffect(() => {
+        if (!svgRef.current) return;
+        const svg = d3.select(svgRef.current);
+        const width = 500;
+        const rowHeight = 70;
+        const height = rows.length * rowHeight + 30;
+        const margin = { left: 110, right: 20 };
+
+        svg.attr('viewBox', `0 0 ${width} ${height}`);
+        svg.selectAll('*').remove();
+        svg.append('rect').attr('width', width).attr('height', height).attr('fill', 'rgb(30 41 59)');
+
+        const x = d3.scaleLinear().domain(domain).range([margin.left, width - margin.right]);
+        svg.append('g').attr('transform', `translate(0,${height - 25})`).call(d3.axisBottom(x).ticks(8)).attr('color', 'rgb(100 116 139)');
+
+        rows.forEach((row, r) => {
+            const baseline = (r + 1) * rowHeight - 10;
+            const g = svg.append('g');
+            g.append('text').attr('x', 8).attr('y', baseline).attr('dy', '0.35em')
+                .text(row.label).attr('fill', row.color).style('font-size', '12px');
+            g.append('line').attr('x1', margin.left).attr('x2', width - margin.right).attr('y1', baseline + 8).attr('y2', baseline + 8)
+                .attr('stroke', 'rgba(100, 116, 139, 0.3)');
+
+            const points = row.values.map((value, i) => ({ value, count: row.counts ? row.counts[i] : 1 }));
+            g.selectAll('circle.base').data(points).join('circle').attr('class', 'base')
+                .attr('cx', d => x(d.value)).attr('cy', baseline).attr('r', 5)
+                .attr('fill', row.color).attr('opacity', d => (d.count > 0 ? 0.9 : 0.2))
+                .attr('stroke', 'rgb(15 23 42)').attr('stroke-width', 1);
+
+            const repeats = points.flatMap(d => d3.range(1, d.count).map(level => ({ value: d.value, level })));
+            g.selectAll('circle.repeat').data(repeats).join('circle').attr('class', 'repeat')
+                .attr('cx', d => x(d.value)).attr('cy', d => baseline - d.level * 9).attr('r', 4)
+                .attr('fill', 'white').attr('opacity', 0.85);
+        });
+    }, [rows, domain]);
+
+    return <svg ref={svgRef}></svg>;
+};
+
+export default ResampleStrip;
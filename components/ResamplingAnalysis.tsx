@@ -0,0 +1,487 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ConfidenceInterval, BootstrapIntervalMethod, BootstrapInterval, BootstrapResult, PermutationTestResult } from '../types';
+import { calculateMean, bootstrap, permutationTestTwoGroups, independentTTest, oneSampleTTest } from '../services/statisticsService';
+import { normalRandom } from '../services/distributionService';
+import { getChatResponse } from '../services/geminiService';
+import UnifiedGenAIChat from './UnifiedGenAIChat';
+import ConfidenceIntervalChart from './ConfidenceIntervalChart';
+import DistributionChart from './DistributionChart';
+import ResampleStrip, { StripRow } from './ResampleStrip';
+
+interface ResamplingAnalysisProps {
+    onBack: () => void;
+    customTitle?: string;
+    customContext?: string;
+    moduleId?: string;
+}
+
+type Mode = 'bootstrap' | 'permutation';
+type PopulationKey = 'normal' | 'skewed';
+type StatisticKey = 'mean' | 'median' | 'sd';
+
+const sampleSD = (values: number[]) => {
+    const m = calculateMean(values);
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+};
+
+const sampleMedian = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+// Right-skewed population: 20 + exponential with mean 30, so mean 50, median 20 + 30 ln 2, SD 30
+const POPULATIONS: Record<PopulationKey, { label: string, draw: () => number, parameters: Record<StatisticKey, number> }> = {
+    normal: { label: 'Normal (μ = 50, σ = 15)', draw: () => normalRandom(50, 15), parameters: { mean: 50, median: 50, sd: 15 } },
+    skewed: { label: 'Right-skewed (exponential)', draw: () => 20 - 30 * Math.log(1 - Math.random()), parameters: { mean: 50, median: 20 + 30 * Math.LN2, sd: 30 } }
+};
+
+// Only the mean has a textbook standard error; the others get a nested bootstrap for the studentized interval
+const STATISTICS: Record<StatisticKey, { label: string, fn: (values: number[]) => number, se?: (values: number[]) => number }> = {
+    mean: { label: 'Mean', fn: calculateMean, se: values => sampleSD(values) / Math.sqrt(values.length) },
+    median: { label: 'Median', fn: sampleMedian },
+    sd: { label: 'Standard Deviation', fn: sampleSD }
+};
+
+const METHOD_LABELS: Record<BootstrapIntervalMethod, string> = { percentile: 'Percentile', bca: 'BCa', studentized: 'Studentized (bootstrap-t)' };
+
+const FULL_REPLICATES = 2000;
+const STUDY_REPLICATES = 1000;
+const FULL_PERMUTATIONS = 4999;
+const ANIMATION_LIMIT = 300;
+const GROUP_SD = 15;
+
+const Slider: React.FC<{ label: string, value: number, min: number, max: number, step: number, onChange: (e: React.ChangeEvent<HTMLInputElement>) => void, unit?: string }> = ({ label, value, min, max, step, onChange, unit }) => (
+    <div>
+        <label className="flex justify-between text-sm text-slate-400">
+            <span>{label}</span>
+            <span className="font-mono">{value}{unit}</span>
+        </label>
+        <input
+            type="range" min={min} max={max} step={step} value={value}
+            onChange={onChange}
+            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer"
+        />
+    </div>
+);
+
+const formatPValue = (p: number) => (p < 0.001 ? '< .001' : p.toFixed(3));
+
+const paddedExtent = (values: number[], fallback: [number, number]): [number, number] => {
+    if (values.length < 2) return fallback;
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const pad = Math.max((max - min) * 0.15, 0.5);
+    return [min - pad, max + pad];
+};
+
+const drawGroups = (size: number, effect: number) => ({
+    control: Array.from({ length: size }, () => normalRandom(50, GROUP_SD)),
+    treatment: Array.from({ length: size }, () => normalRandom(50 + effect, GROUP_SD))
+});
+
+const ResamplingAnalysis: React.FC<ResamplingAnalysisProps> = ({ onBack, customTitle, customContext, moduleId }) => {
+    const [mode, setMode] = useState<Mode>(moduleId === 'permutation-shuffler' ? 'permutation' : 'bootstrap');
+
+    // Bootstrap state
+    const [population, setPopulation] = useState<PopulationKey>('skewed');
+    const [statistic, setStatistic] = useState<StatisticKey>('mean');
+    const [sampleSize, setSampleSize] = useState(20);
+    const [method, setMethod] = useState<BootstrapIntervalMethod>('bca');
+    const [sample, setSample] = useState<number[]>(() => Array.from({ length: 20 }, POPULATIONS.skewed.draw));
+    const [replicates, setReplicates] = useState<number[]>([]);
+    const [resampleCounts, setResampleCounts] = useState<number[] | null>(null);
+    const [result, setResult] = useState<BootstrapResult | null>(null);
+    const [studies, setStudies] = useState<ConfidenceInterval[]>([]);
+
+    // Permutation state
+    const [groupSize, setGroupSize] = useState(15);
+    const [effect, setEffect] = useState(8);
+    const [groups, setGroups] = useState(() => drawGroups(15, 8));
+    const [shuffled, setShuffled] = useState<{ control: number[], treatment: number[] } | null>(null);
+    const [nullStats, setNullStats] = useState<number[]>([]);
+    const [permutation, setPermutation] = useState<PermutationTestResult | null>(null);
+
+    const [isAnimating, setIsAnimating] = useState(false);
+    const [chatHistory, setChatHistory] = useState<{ role: 'user' | 'model'; text: string }[]>([
+        { role: 'model', text: "Welcome. This is Dr. Gem. 🧬 No formulas today: we will learn about uncertainty by resampling the data we already have. Press 'Animate' and watch the resamples pile up!" }
+    ]);
+    const [isChatLoading, setIsChatLoading] = useState(false);
+
+    const stat = STATISTICS[statistic];
+    const parameter = POPULATIONS[population].parameters[statistic];
+    const estimate = useMemo(() => stat.fn(sample), [stat, sample]);
+    const observedDifference = calculateMean(groups.treatment) - calculateMean(groups.control);
+
+    const stopAnimation = () => {
+        setIsAnimating(false);
+        setResampleCounts(null);
+        setShuffled(null);
+    };
+
+    // Animation restarts from scratch after a full run, so each step stays visible
+    const startAnimation = () => {
+        if (mode === 'bootstrap') {
+            setResult(null);
+            if (replicates.length >= ANIMATION_LIMIT) setReplicates([]);
+        } else {
+            setPermutation(null);
+            if (nullStats.length >= ANIMATION_LIMIT) setNullStats([]);
+        }
+        setIsAnimating(true);
+    };
+
+    const drawNewSample = (size: number = sampleSize, key: PopulationKey = population) => {
+        stopAnimation();
+        setSample(Array.from({ length: size }, POPULATIONS[key].draw));
+        setReplicates([]);
+        setResult(null);
+    };
+
+    const drawNewGroups = (size: number = groupSize, shift: number = effect) => {
+        stopAnimation();
+        setGroups(drawGroups(size, shift));
+        setNullStats([]);
+        setPermutation(null);
+    };
+
+    // One resample (or one shuffle) per tick, so students can follow each step
+    useEffect(() => {
+        if (!isAnimating) return;
+        const timer = setInterval(() => {
+            if (mode === 'bootstrap') {
+                const counts = sample.map(() => 0);
+                const resample = sample.map(() => {
+                    const index = Math.floor(Math.random() * sample.length);
+                    counts[index]++;
+                    return sample[index];
+                });
+                setResampleCounts(counts);
+                setReplicates(prev => [...prev, stat.fn(resample)]);
+            } else {
+                const pooled = [...groups.treatment, ...groups.control];
+                for (let i = pooled.length - 1; i > 0; i--) {
+                    const j = Math.floor(Math.random() * (i + 1));
+                    [pooled[i], pooled[j]] = [pooled[j], pooled[i]];
+                }
+                const next = { treatment: pooled.slice(0, groups.treatment.length), control: pooled.slice(groups.treatment.length) };
+                setShuffled(next);
+                setNullStats(prev => [...prev, calculateMean(next.treatment) - calculateMean(next.control)]);
+            }
+        }, 150);
+        return () => clearInterval(timer);
+    }, [isAnimating, mode, sample, stat, groups]);
+
+    useEffect(() => {
+        const count = mode === 'bootstrap' ? replicates.length : nullStats.length;
+        if (isAnimating && count >= ANIMATION_LIMIT) stopAnimation();
+    }, [isAnimating, mode, replicates.length, nullStats.length]);
+
+    const runFullBootstrap = () => {
+        stopAnimation();
+        const full = bootstrap(sample, stat.fn, { replicates: FULL_REPLICATES, standardError: stat.se });
+        setResult(full);
+        setReplicates(full.replicates);
+    };
+
+    const runFullPermutation = () => {
+        stopAnimation();
+        const full = permutationTestTwoGroups(groups.treatment, groups.control, undefined, FULL_PERMUTATIONS);
+        setPermutation(full);
+        setNullStats(full.nullDistribution);
+    };
+
+    // Repeated studies: fresh sample from the population, bootstrap interval, did it capture the truth?
+    const runStudies = (count: number) => {
+        const populationDef = POPULATIONS[population];
+        const newStudies: ConfidenceInterval[] = [];
+        for (let i = 0; i < count; i++) {
+            const studySample = Array.from({ length: sampleSize }, populationDef.draw);
+            // Only the interval being checked, so the nested bootstrap runs just for studentized coverage
+            const study = bootstrap(studySample, stat.fn, { replicates: STUDY_REPLICATES, standardError: stat.se, innerReplicates: 20, methods: [method] });
+            const { lower, upper } = study.intervals[method]!;
+            newStudies.push({ id: Date.now() + i, sampleMean: study.estimate, lowerBound: lower, upperBound: upper, captured: lower <= parameter && upper >= parameter });
+        }
+        setStudies(prev => [...prev, ...newStudies]);
+    };
+
+    const coverage = studies.length > 0 ? (studies.filter(s => s.captured).length / studies.length) * 100 : 0;
+    const welch = useMemo(() => independentTTest(groups.treatment, groups.control), [groups]);
+    const tInterval = useMemo(() => {
+        if (statistic !== 'mean' || sample.length < 2) return null;
+        const t = oneSampleTTest(sample);
+        return { lower: t.ciLower, upper: t.ciUpper };
+    }, [statistic, sample]);
+
+    const bootstrapDomain = useMemo(() => paddedExtent(replicates, [estimate - 10, estimate + 10]), [replicates, estimate]);
+    const permutationDomain = useMemo((): [number, number] => {
+        const reach = Math.max(Math.abs(observedDifference) * 1.3, 3.5 * GROUP_SD * Math.sqrt(2 / groupSize));
+        return [-reach, reach];
+    }, [observedDifference, groupSize]);
+
+    const bootstrapMarkers = useMemo(() => {
+        const markers = [{ value: estimate, color: 'white', label: 'estimate' }];
+        if (result) {
+            const interval = result.intervals[method];
+            if (interval) markers.push({ value: interval.lower, color: '#facc15', label: 'lower' }, { value: interval.upper, color: '#facc15', label: 'upper' });
+        }
+        return markers;
+    }, [estimate, result, method]);
+
+    const permutationMarkers = useMemo(() => [
+        { value: observedDifference, color: '#f472b6', label: 'observed' },
+        { value: -observedDifference, color: 'rgba(244, 114, 182, 0.5)' }
+    ], [observedDifference]);
+
+    const extremeSoFar = nullStats.filter(v => Math.abs(v) >= Math.abs(observedDifference)).length;
+
+    const sampleRows = useMemo((): StripRow[] => [
+        { label: `Sample (n = ${sample.length})`, values: sample, color: '#38bdf8', counts: resampleCounts ?? undefined }
+    ], [sample, resampleCounts]);
+    const sampleDomain = useMemo(() => paddedExtent(sample, [0, 100]), [sample]);
+
+    const groupRows = useMemo((): StripRow[] => {
+        const shown = shuffled ?? groups;
+        return [
+            { label: shuffled ? 'Treatment (shuffled)' : 'Treatment', values: shown.treatment, color: '#f472b6' },
+            { label: shuffled ? 'Control (shuffled)' : 'Control', values: shown.control, color: '#94a3b8' }
+        ];
+    }, [groups, shuffled]);
+    const groupDomain = useMemo(() => paddedExtent([...groups.treatment, ...groups.control], [0, 100]), [groups]);
+
+    const handleSendMessage = async (msg: string) => {
+        setChatHistory(prev => [...prev, { text: msg, role: 'user' as const }]);
+        setIsChatLoading(true);
+
+        const intervalLines = result
+            ? (Object.values(result.intervals) as BootstrapInterval[]).map(i => `${METHOD_LABELS[i.method]}: [${i.lower.toFixed(2)}, ${i.upper.toFixed(2)}]`).join('; ')
+            : 'not run yet';
+        const context = `
+            You are Dr. Gem, explaining resampling (the bootstrap and permutation tests).
+            Current Mode: ${mode === 'bootstrap' ? 'Bootstrap confidence intervals' : 'Permutation test'}
+            Bootstrap:
+            - Population: ${POPULATIONS[population].label}; statistic: ${stat.label}; n = ${sample.length}
+            - Sample estimate: ${estimate.toFixed(2)} (true population value ${parameter.toFixed(2)})
+            - Resamples so far: ${replicates.length}${result ? `; bootstrap SE ${result.standardError.toFixed(2)}, bias ${result.bias.toFixed(2)}, z0 ${result.biasCorrection.toFixed(3)}, a ${result.acceleration.toFixed(3)}` : ''}
+            - 95% intervals: ${intervalLines}
+            - Coverage check (${METHOD_LABELS[method]}): ${studies.length} studies, ${coverage.toFixed(1)}% captured the true value
+            Permutation Test:
+            - Treatment - Control difference: ${observedDifference.toFixed(2)} (true effect ${effect}, ${groupSize} per group)
+            - Shuffles so far: ${nullStats.length}, as extreme as observed: ${extremeSoFar}
+            - Permutation p: ${permutation ? formatPValue(permutation.pValue) : 'not run yet'}; Welch t-test p: ${formatPValue(welch.pValue)}
+
+            Educational Goal:
+            - Explain that the bootstrap treats the sample as a stand-in population and resamples it with replacement.
+            - Explain why percentile intervals can under-cover for skewed data and small n, and how BCa and studentized intervals correct for bias and skew.
+            - Explain that shuffling labels shows what differences look like when the treatment does nothing, and the p-value is the share of shuffles at least as extreme as the real one.
+        `;
+
+        try {
+            const response = await getChatResponse(msg, context);
+            setChatHistory(prev => [...prev, { text: response, role: 'model' as const }]);
+        } catch {
+            setChatHistory(prev => [...prev, { text: "Connection error.", role: 'model' as const }]);
+        } finally {
+            setIsChatLoading(false);
+        }
+    };
+
+    return (
+        <div className="w-full max-w-7xl mx-auto">
+            <header className="mb-8">
+                <button onClick={onBack} className="text-indigo-400 hover:text-indigo-300 mb-4 inline-block">&larr; Back to Portal</button>
+                <div className="text-center">
+                    <h1 className="text-4xl font-bold text-indigo-400">{customTitle || "Resampling Lab"}</h1>
+                    <p className="text-slate-400 mt-2">Build sampling distributions from the data itself: resample to get intervals, shuffle to get p-values.</p>
+                </div>
+            </header>
+
+            {customContext && (
+                <div className="mb-6 bg-indigo-500/10 border border-indigo-500/30 p-4 rounded-lg text-center max-w-3xl mx-auto">
+                    <p className="text-indigo-200 text-sm font-medium">Mission: {customContext}</p>
+                </div>
+            )}
+
+            <div className="flex justify-center gap-2 mb-6">
+                {(['bootstrap', 'permutation'] as Mode[]).map(m => (
+                    <button
+                        key={m}
+                        onClick={() => { stopAnimation(); setMode(m); }}
+                        className={`px-4 py-2 rounded-lg text-sm font-semibold ${mode === m ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                    >
+                        {m === 'bootstrap' ? 'Bootstrap Interval' : 'Permutation Test'}
+                    </button>
+                ))}
+            </div>
+
+            <main className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+                {mode === 'bootstrap' ? (
+                    <div className="lg:col-span-3 flex flex-col space-y-6">
+                        <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
+                            <h3 className="text-sm font-semibold text-slate-300 mb-2">The sample {resampleCounts && <span className="text-slate-500 font-normal">(white dots: drawn again in this resample)</span>}</h3>
+                            <ResampleStrip rows={sampleRows} domain={sampleDomain} />
+                        </div>
+                        <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
+                            <h3 className="text-sm font-semibold text-slate-300 mb-2">
+                                Bootstrap distribution of the {stat.label.toLowerCase()} ({replicates.length} resamples)
+                            </h3>
+                            <DistributionChart
+                                distributions={result ? [{ mean: result.estimate, stdDev: result.standardError, color: 'rgb(148 163 184)' }] : []}
+                                histogram={{ values: replicates, color: 'rgb(56 189 248)' }}
+                                markers={bootstrapMarkers}
+                                domain={bootstrapDomain}
+                            />
+                            {result && <p className="text-xs text-slate-500 mt-2">Grey curve: the normal shape a standard-error interval assumes. Yellow lines: {METHOD_LABELS[method]} interval.</p>}
+                        </div>
+                        <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
+                            <div className="flex justify-between items-center mb-2">
+                                <h3 className="text-sm font-semibold text-slate-300">Coverage check: {METHOD_LABELS[method]} intervals from repeated studies</h3>
+                                <span className="font-mono text-sm text-slate-300">{studies.length > 0 ? `${coverage.toFixed(1)}% of ${studies.length}` : ''}</span>
+                            </div>
+                            <ConfidenceIntervalChart intervals={studies} populationMean={parameter} />
+                            <div className="grid grid-cols-2 gap-3 mt-3">
+                                <button onClick={() => runStudies(10)} className="bg-slate-700 hover:bg-slate-600 p-2 rounded-lg text-sm">Run 10 Studies</button>
+                                <button onClick={() => setStudies([])} className="bg-slate-700 hover:bg-slate-600 p-2 rounded-lg text-sm">Clear Studies</button>
+                            </div>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="lg:col-span-3 flex flex-col space-y-6">
+                        <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
+                            <h3 className="text-sm font-semibold text-slate-300 mb-2">{shuffled ? 'Labels shuffled: any difference now is pure chance' : 'The experiment'}</h3>
+                            <ResampleStrip rows={groupRows} domain={groupDomain} />
+                        </div>
+                        <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
+                            <h3 className="text-sm font-semibold text-slate-300 mb-2">Differences in means under shuffling ({nullStats.length} shuffles)</h3>
+                            <DistributionChart
+                                distributions={[]}
+                                histogram={{ values: nullStats, color: 'rgb(148 163 184)' }}
+                                markers={permutationMarkers}
+                                domain={permutationDomain}
+                            />
+                            <p className="text-xs text-slate-500 mt-2">Pink line: the real difference (faded: its mirror image, for a two-sided test).</p>
+                        </div>
+                    </div>
+                )}
+
+                <div className="lg:col-span-2 flex flex-col space-y-8">
+                    {mode === 'bootstrap' ? (
+                        <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-5">
+                            <h3 className="text-lg font-semibold text-indigo-400 border-b border-indigo-400/20 pb-2">Bootstrap Controls</h3>
+                            <div className="grid grid-cols-2 gap-3 text-sm">
+                                <label className="text-slate-400">Population
+                                    <select value={population} onChange={e => { const key = e.target.value as PopulationKey; setPopulation(key); setStudies([]); drawNewSample(sampleSize, key); }} className="w-full mt-1 bg-slate-900 text-slate-200 rounded p-1">
+                                        {(Object.keys(POPULATIONS) as PopulationKey[]).map(k => <option key={k} value={k}>{POPULATIONS[k].label}</option>)}
+                                    </select>
+                                </label>
+                                <label className="text-slate-400">Statistic
+                                    <select value={statistic} onChange={e => { stopAnimation(); setStatistic(e.target.value as StatisticKey); setReplicates([]); setResult(null); setStudies([]); }} className="w-full mt-1 bg-slate-900 text-slate-200 rounded p-1">
+                                        {(Object.keys(STATISTICS) as StatisticKey[]).map(k => <option key={k} value={k}>{STATISTICS[k].label}</option>)}
+                                    </select>
+                                </label>
+                            </div>
+                            <Slider label="Sample Size (n)" value={sampleSize} min={8} max={80} step={1} onChange={(e) => { setSampleSize(+e.target.value); setStudies([]); drawNewSample(+e.target.value); }} />
+                            <div>
+                                <span className="text-sm text-slate-400">Interval method</span>
+                                <div className="grid grid-cols-3 gap-2 mt-1">
+                                    {(Object.keys(METHOD_LABELS) as BootstrapIntervalMethod[]).map(m => (
+                                        <button key={m} onClick={() => { setMethod(m); setStudies([]); }}
+                                            className={`p-1 rounded text-xs ${method === m ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
+                                            {m === 'studentized' ? 'Studentized' : METHOD_LABELS[m]}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-2 gap-3">
+                                <button onClick={() => (isAnimating ? stopAnimation() : startAnimation())} className="bg-slate-700 hover:bg-slate-600 p-2 rounded-lg">
+                                    {isAnimating ? 'Pause' : 'Animate Resamples'}
+                                </button>
+                                <button onClick={runFullBootstrap} className="bg-slate-700 hover:bg-slate-600 p-2 rounded-lg">Run {FULL_REPLICATES}</button>
+                            </div>
+                            <button onClick={() => drawNewSample()} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200">
+                                Draw New Sample
+                            </button>
+                        </div>
+                    ) : (
+                        <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-5">
+                            <h3 className="text-lg font-semibold text-indigo-400 border-b border-indigo-400/20 pb-2">Experiment Controls</h3>
+                            <Slider label="Students per Group" value={groupSize} min={5} max={40} step={1} onChange={(e) => { setGroupSize(+e.target.value); drawNewGroups(+e.target.value); }} />
+                            <Slider label="True Treatment Effect" value={effect} min={0} max={20} step={1} onChange={(e) => { setEffect(+e.target.value); drawNewGroups(groupSize, +e.target.value); }} unit=" pts" />
+                            <div className="grid grid-cols-2 gap-3">
+                                <button onClick={() => (isAnimating ? stopAnimation() : startAnimation())} className="bg-slate-700 hover:bg-slate-600 p-2 rounded-lg">
+                                    {isAnimating ? 'Pause' : 'Animate Shuffles'}
+                                </button>
+                                <button onClick={runFullPermutation} className="bg-slate-700 hover:bg-slate-600 p-2 rounded-lg">Run {FULL_PERMUTATIONS}</button>
+                            </div>
+                            <button onClick={() => drawNewGroups()} className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-200">
+                                Run New Experiment
+                            </button>
+                        </div>
+                    )}
+
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
+                        <h3 className="text-lg font-semibold text-indigo-400 mb-3">Results</h3>
+                        {mode === 'bootstrap' ? (
+                            <div className="space-y-3 text-sm">
+                                <div className="grid grid-cols-2 gap-y-1 font-mono">
+                                    <span className="text-slate-400">Sample {stat.label.toLowerCase()}</span><span className="text-right text-slate-200">{estimate.toFixed(2)}</span>
+                                    <span className="text-slate-400">Population value</span><span className="text-right text-slate-200">{parameter.toFixed(2)}</span>
+                                    {result && <>
+                                        <span className="text-slate-400">Bootstrap SE</span><span className="text-right text-slate-200">{result.standardError.toFixed(2)}</span>
+                                        <span className="text-slate-400">Bias</span><span className="text-right text-slate-200">{result.bias.toFixed(2)}</span>
+                                        <span className="text-slate-400">z₀ / a (BCa)</span><span className="text-right text-slate-200">{result.biasCorrection.toFixed(3)} / {result.acceleration.toFixed(3)}</span>
+                                    </>}
+                                </div>
+                                {result ? (
+                                    <table className="w-full font-mono text-xs">
+                                        <thead>
+                                            <tr className="text-slate-500 border-b border-slate-700"><th className="text-left py-1">95% interval</th><th className="text-right">Lower</th><th className="text-right">Upper</th></tr>
+                                        </thead>
+                                        <tbody>
+                                            {(Object.keys(METHOD_LABELS) as BootstrapIntervalMethod[]).map(m => (
+                                                <tr key={m} className={m === method ? 'text-yellow-300' : 'text-slate-300'}>
+                                                    <td className="py-1">{METHOD_LABELS[m]}</td>
+                                                    <td className="text-right">{result.intervals[m]?.lower.toFixed(2) ?? '-'}</td>
+                                                    <td className="text-right">{result.intervals[m]?.upper.toFixed(2) ?? '-'}</td>
+                                                </tr>
+                                            ))}
+                                            {tInterval && (
+                                                <tr className="text-slate-500">
+                                                    <td className="py-1">Classical t</td>
+                                                    <td className="text-right">{tInterval.lower.toFixed(2)}</td>
+                                                    <td className="text-right">{tInterval.upper.toFixed(2)}</td>
+                                                </tr>
+                                            )}
+                                        </tbody>
+                                    </table>
+                                ) : (
+                                    <p className="text-slate-500 text-xs">Run {FULL_REPLICATES} resamples to compute the intervals.</p>
+                                )}
+                            </div>
+                        ) : (
+                            <div className="grid grid-cols-2 gap-y-1 font-mono text-sm">
+                                <span className="text-slate-400">Observed difference</span><span className="text-right text-slate-200">{observedDifference.toFixed(2)}</span>
+                                <span className="text-slate-400">As extreme so far</span><span className="text-right text-slate-200">{extremeSoFar} / {nullStats.length}</span>
+                                <span className="text-slate-400">Permutation p</span><span className="text-right text-pink-300">{permutation ? formatPValue(permutation.pValue) : '—'}</span>
+                                <span className="text-slate-400">Welch t-test p</span><span className="text-right text-slate-200">{formatPValue(welch.pValue)}</span>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="h-[500px]">
+                        <UnifiedGenAIChat
+                            moduleTitle={customTitle || "Resampling Lab"}
+                            history={chatHistory}
+                            onSendMessage={handleSendMessage}
+                            isLoading={isChatLoading}
+                            variant="embedded"
+                            className="h-full"
+                        />
+                    </div>
+                </div>
+            </main>
+        </div>
+    );
+};
+
+export default ResamplingAnalysis;
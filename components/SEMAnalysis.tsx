@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { SEMModel, FitIndices, SEMPath } from '../types';
-import { calculateModelFit } from '../services/statisticsService';
+import { SEMModel, SEMResult, SEMPath } from '../types';
+import { fitSEMModel, generateSEMData, calculateCovarianceMatrix } from '../services/statisticsService';
 import { getChatResponse } from '../services/geminiService';
 import PathDiagram from './PathDiagram';
 import UnifiedGenAIChat, { Message } from './UnifiedGenAIChat';
@@ -37,6 +37,9 @@ const initialModel: SEMModel = {
     ]
 };
 
+const OBSERVED_IDS = ['m1', 'm2', 'm3', 'sh1', 'sh2', 'sh3', 'gra'];
+const SAMPLE_SIZE = 300;
+
 const FitDisplay: React.FC<{ label: string; value: string | number; isGood?: boolean; isBad?: boolean }> = ({ label, value, isGood, isBad }) => (
     <div className="flex justify-between items-center text-sm">
         <span className="text-slate-300">{label}:</span>
@@ -48,7 +51,8 @@ const FitDisplay: React.FC<{ label: string; value: string | number; isGood?: boo
 
 const SEMAnalysis: React.FC<SEMAnalysisProps> = ({ onBack }) => {
     const [userModel, setUserModel] = useState<SEMModel>(initialModel);
-    const [fitIndices, setFitIndices] = useState<FitIndices | null>(null);
+    const [data, setData] = useState(() => generateSEMData(SAMPLE_SIZE));
+    const [semResult, setSemResult] = useState<SEMResult | null>(null);
     const [lastChangedPath, setLastChangedPath] = useState<SEMPath | null>(null);
 
     // Chat state
@@ -81,10 +85,21 @@ const SEMAnalysis: React.FC<SEMAnalysisProps> = ({ onBack }) => {
         });
     }, []);
 
+    const observedCov = useMemo(() => calculateCovarianceMatrix(data, OBSERVED_IDS), [data]);
+
     useEffect(() => {
-        const newFit = calculateModelFit(userModel);
-        setFitIndices(newFit);
-    }, [userModel]);
+        setSemResult(fitSEMModel(userModel, observedCov, OBSERVED_IDS, SAMPLE_SIZE));
+    }, [userModel, observedCov]);
+
+    // A non-identified or non-converged model only has its start values, so nothing is reported as a fit
+    const fitIsUsable = semResult !== null && semResult.identified && semResult.converged;
+    const fitIndices = fitIsUsable ? semResult.fit : null;
+    const structuralEstimates = useMemo(() => fitIsUsable && semResult ? semResult.estimates.filter(e => e.type === 'regression' || e.type === 'covariance') : [], [semResult, fitIsUsable]);
+    const topModifications = useMemo(() => fitIsUsable && semResult ? semResult.modificationIndices.slice(0, 4) : [], [semResult, fitIsUsable]);
+    const fitProblem = semResult === null || fitIsUsable ? null
+        : !semResult.identified
+            ? 'This model is not identified: more than one set of parameter values fits equally well, so it cannot be estimated. Remove a path (for example, keep either the regression or the covariance between two latent variables, not both).'
+            : `The estimation did not converge after ${semResult.iterations} iterations, so these values are not a fitted solution. Try removing a path.`;
 
     const handleSendMessage = useCallback(async (msg: string) => {
         setIsChatLoading(true);
@@ -92,10 +107,15 @@ const SEMAnalysis: React.FC<SEMAnalysisProps> = ({ onBack }) => {
 
         const context = `
             We are performing Structural Equation Modeling (SEM).
+            ${fitProblem ? `The current model could not be fitted: ${fitProblem}` : ''}
             Model Fit Indices:
             Chi-Square: ${fitIndices?.chiSquare.toFixed(2)} (p=${fitIndices?.pValue.toFixed(3)})
-            CFI: ${fitIndices?.cfi.toFixed(3)}
-            RMSEA: ${fitIndices?.rmsea.toFixed(3)}
+            df: ${fitIndices?.df}
+            CFI: ${fitIndices?.cfi.toFixed(3)}, TLI: ${fitIndices?.tli.toFixed(3)}
+            RMSEA: ${fitIndices?.rmsea.toFixed(3)} (90% CI ${fitIndices?.rmseaLower.toFixed(3)}-${fitIndices?.rmseaUpper.toFixed(3)})
+            SRMR: ${fitIndices?.srmr.toFixed(3)}
+            Structural estimates: ${structuralEstimates.map(e => `${variableLabels[e.from]}->${variableLabels[e.to]} (${e.type}) = ${e.estimate.toFixed(3)}, SE ${e.standardError?.toFixed(3)}, p ${e.pValue?.toFixed(3)}`).join('; ') || 'None'}
+            Largest modification indices: ${topModifications.map(mi => `${mi.type} ${variableLabels[mi.from]}-${variableLabels[mi.to]}: MI ${mi.mi.toFixed(2)}`).join('; ')}
             
             Last changed path: ${lastChangedPath ? `${lastChangedPath.type} from ${variableLabels[lastChangedPath.from]} to ${variableLabels[lastChangedPath.to]}` : 'None'}
             
@@ -112,7 +132,7 @@ const SEMAnalysis: React.FC<SEMAnalysisProps> = ({ onBack }) => {
         } finally {
             setIsChatLoading(false);
         }
-    }, [fitIndices, lastChangedPath, variableLabels]);
+    }, [fitIndices, fitProblem, structuralEstimates, topModifications, lastChangedPath, variableLabels]);
 
     return (
         <div className="w-full max-w-6xl mx-auto">
@@ -126,17 +146,65 @@ const SEMAnalysis: React.FC<SEMAnalysisProps> = ({ onBack }) => {
 
             <main className="grid grid-cols-1 lg:grid-cols-5 gap-8">
                 <div className="lg:col-span-3 bg-slate-800 rounded-lg shadow-2xl p-4">
-                    <PathDiagram model={userModel} onPathToggle={handlePathToggle} />
+                    <PathDiagram model={userModel} onPathToggle={handlePathToggle} estimates={fitIsUsable ? semResult?.estimates : undefined} modificationIndices={fitIsUsable ? semResult?.modificationIndices : undefined} />
                 </div>
                 <div className="lg:col-span-2 flex flex-col space-y-8">
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
                         <h3 className="text-lg font-semibold text-orange-400 mb-3">Model Fit Indices</h3>
+                        {fitProblem && <p className="text-sm text-amber-300 bg-amber-500/10 border border-amber-500/40 rounded p-3 mb-3">{fitProblem}</p>}
                         <div className="space-y-2">
-                            <FitDisplay label="Chi-Square (χ²)" value={fitIndices?.chiSquare.toFixed(2) || 'N/A'} />
+                            <FitDisplay label="Chi-Square (χ²)" value={fitIndices ? `${fitIndices.chiSquare.toFixed(2)} (df = ${fitIndices.df})` : 'N/A'} />
                             <FitDisplay label="p-value" value={fitIndices?.pValue.toFixed(3) || 'N/A'} isGood={fitIndices && fitIndices.pValue > 0.05} isBad={fitIndices && fitIndices.pValue <= 0.05} />
                             <FitDisplay label="CFI" value={fitIndices?.cfi.toFixed(3) || 'N/A'} isGood={fitIndices && fitIndices.cfi >= 0.95} isBad={fitIndices && fitIndices.cfi < 0.90} />
-                            <FitDisplay label="RMSEA" value={fitIndices?.rmsea.toFixed(3) || 'N/A'} isGood={fitIndices && fitIndices.rmsea <= 0.06} isBad={fitIndices && fitIndices.rmsea > 0.10} />
+                            <FitDisplay label="TLI" value={fitIndices?.tli.toFixed(3) || 'N/A'} isGood={fitIndices && fitIndices.tli >= 0.95} isBad={fitIndices && fitIndices.tli < 0.90} />
+                            <FitDisplay label="RMSEA [90% CI]" value={fitIndices ? `${fitIndices.rmsea.toFixed(3)} [${fitIndices.rmseaLower.toFixed(3)}, ${fitIndices.rmseaUpper.toFixed(3)}]` : 'N/A'} isGood={fitIndices && fitIndices.rmsea <= 0.06} isBad={fitIndices && fitIndices.rmsea > 0.10} />
+                            <FitDisplay label="SRMR" value={fitIndices?.srmr.toFixed(3) || 'N/A'} isGood={fitIndices && fitIndices.srmr <= 0.08} isBad={fitIndices && fitIndices.srmr > 0.10} />
                         </div>
+                        <button onClick={() => setData(generateSEMData(SAMPLE_SIZE))} className="mt-4 w-full text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 py-2 rounded">
+                            Draw a New Sample (n = {SAMPLE_SIZE})
+                        </button>
+                    </div>
+
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
+                        <h3 className="text-lg font-semibold text-orange-400 mb-3">Structural Estimates</h3>
+                        {fitProblem ? (
+                            <p className="text-sm text-slate-400">No estimates for a model that could not be fitted.</p>
+                        ) : structuralEstimates.length === 0 ? (
+                            <p className="text-sm text-slate-400">Click a dashed path to add it to the model.</p>
+                        ) : (
+                            <table className="w-full text-sm font-mono">
+                                <thead>
+                                    <tr className="text-slate-400 text-xs">
+                                        <th className="text-left font-normal pb-1">Path</th>
+                                        <th className="text-right font-normal pb-1">Est.</th>
+                                        <th className="text-right font-normal pb-1">SE</th>
+                                        <th className="text-right font-normal pb-1">p</th>
+                                        <th className="text-right font-normal pb-1">Std.</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="text-slate-300">
+                                    {structuralEstimates.map(e => (
+                                        <tr key={e.pathId}>
+                                            <td className="py-1">{variableLabels[e.from]} {e.type === 'covariance' ? '↔' : '→'} {variableLabels[e.to]}</td>
+                                            <td className="text-right">{e.estimate.toFixed(3)}</td>
+                                            <td className="text-right">{e.standardError?.toFixed(3) ?? '-'}</td>
+                                            <td className="text-right">{e.pValue === null ? '-' : e.pValue < 0.001 ? '<.001' : e.pValue.toFixed(3)}</td>
+                                            <td className="text-right">{e.standardized.toFixed(2)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                        <h4 className="text-sm font-semibold text-slate-300 mt-5 mb-2">Largest Modification Indices</h4>
+                        <ul className="space-y-1 text-sm font-mono">
+                            {topModifications.map(mi => (
+                                <li key={`${mi.type}-${mi.from}-${mi.to}`} className={`flex justify-between ${mi.mi > 3.84 ? 'text-amber-300' : 'text-slate-400'}`}>
+                                    <span>{mi.type === 'loading' ? `${variableLabels[mi.from]} =~ ${variableLabels[mi.to]}` : `${variableLabels[mi.from]} ${mi.type === 'covariance' ? '↔' : '→'} ${variableLabels[mi.to]}`}</span>
+                                    <span>MI {mi.mi.toFixed(2)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                        <p className="text-xs text-slate-500 mt-2">MI estimates how much χ² would drop if the parameter were freed (values above 3.84 are significant at α = .05).</p>
                     </div>
 
                     <div className="h-[500px]">
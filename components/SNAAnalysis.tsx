@@ -1,6 +1,6 @@
-import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { Interaction } from '../types';
-import { generateSNAData, processSNAData } from '../services/statisticsService';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Interaction, SNAMetric } from '../types';
+import { generateSNAData, processSNAData, calculateSNASnapshots } from '../services/statisticsService';
 import { getChatResponse } from '../services/geminiService';
 import SNAGraph from './SNAGraph';
 import UnifiedGenAIChat, { Message } from './UnifiedGenAIChat';
@@ -11,12 +11,39 @@ interface SNAAnalysisProps {
 
 const NUM_STUDENTS = 15;
 const NUM_INTERACTIONS = 50;
+const NUM_SNAPSHOTS = 5;
+
+type SizeMetric = Exclude<SNAMetric, 'community'>;
+
+const METRIC_LABELS: Record<SNAMetric, string> = {
+    degree: 'Degree (total ties)',
+    inDegree: 'In-degree',
+    outDegree: 'Out-degree',
+    inStrength: 'In-strength (weighted)',
+    outStrength: 'Out-strength (weighted)',
+    betweenness: 'Betweenness',
+    closeness: 'Closeness (harmonic)',
+    eigenvector: 'Eigenvector',
+    pageRank: 'PageRank',
+    clustering: 'Local clustering',
+    community: 'Community (Louvain)'
+};
+
+const SIZE_METRICS = (Object.keys(METRIC_LABELS) as SNAMetric[]).filter((m): m is SizeMetric => m !== 'community');
+
+const formatMetric = (metric: SNAMetric, value: number) =>
+    metric === 'community' || Number.isInteger(value) ? value.toString() : value.toFixed(3);
 
 const SNAAnalysis: React.FC<SNAAnalysisProps> = ({ onBack }) => {
     const [allInteractions, setAllInteractions] = useState<Interaction[]>([]);
     const [time, setTime] = useState(0);
     const [selectedNodeId, setSelectedNodeId] = useState<number | null>(null);
     const [isAnimating, setIsAnimating] = useState(false);
+    const [stepDelay, setStepDelay] = useState(150); // ms between replayed interactions
+    const [sizeBy, setSizeBy] = useState<SizeMetric>('pageRank');
+    const [colorBy, setColorBy] = useState<SNAMetric>('community');
+    const [cumulative, setCumulative] = useState(true);
+    const [windowSize, setWindowSize] = useState(15);
 
     // Chat state
     const [chatHistory, setChatHistory] = useState<Message[]>([
@@ -24,61 +51,71 @@ const SNAAnalysis: React.FC<SNAAnalysisProps> = ({ onBack }) => {
     ]);
     const [isChatLoading, setIsChatLoading] = useState(false);
 
-    const animationRef = useRef<number | null>(null);
-
     const regenerateData = useCallback(() => {
         const data = generateSNAData(NUM_STUDENTS, NUM_INTERACTIONS);
         setAllInteractions(data);
         setTime(0);
         setIsAnimating(false);
+        setSelectedNodeId(null);
     }, []);
 
     useEffect(() => {
         regenerateData();
     }, [regenerateData]);
 
-    const { visibleNodes, visibleLinks } = useMemo(() => {
-        const visibleInteractions = allInteractions.slice(0, time + 1);
-        const { nodes, links } = processSNAData(visibleInteractions);
-        return { visibleNodes: nodes, visibleLinks: links };
-    }, [allInteractions, time]);
+    // Either everything so far, or a sliding window of the most recent interactions
+    const network = useMemo(() => {
+        const start = cumulative ? 0 : Math.max(0, time + 1 - windowSize);
+        return processSNAData(allInteractions.slice(start, time + 1));
+    }, [allInteractions, time, cumulative, windowSize]);
 
+    const snapshots = useMemo(() => calculateSNASnapshots(allInteractions, NUM_SNAPSHOTS, cumulative), [allInteractions, cumulative]);
 
-    const animate = useCallback(() => {
-        setTime(t => {
-            if (t >= allInteractions.length - 1) {
-                setIsAnimating(false);
-                return t;
-            }
-            return t + 1;
-        });
-        animationRef.current = requestAnimationFrame(animate);
-    }, [allInteractions.length]);
+    const topNodes = useMemo(() => [...network.nodes].sort((a, b) => b[sizeBy] - a[sizeBy]).slice(0, 5), [network, sizeBy]);
+    const selectedNode = network.nodes.find(n => n.id === selectedNodeId) ?? null;
 
     useEffect(() => {
-        if (isAnimating) {
-            animationRef.current = requestAnimationFrame(animate);
-        } else {
-            if (animationRef.current) cancelAnimationFrame(animationRef.current);
-        }
-        return () => {
-            if (animationRef.current) cancelAnimationFrame(animationRef.current);
-        };
-    }, [isAnimating, animate]);
+        if (!isAnimating) return;
+        const timer = setInterval(() => {
+            setTime(t => {
+                if (t >= allInteractions.length - 1) {
+                    setIsAnimating(false);
+                    return t;
+                }
+                return t + 1;
+            });
+        }, stepDelay);
+        return () => clearInterval(timer);
+    }, [isAnimating, stepDelay, allInteractions.length]);
+
+    const togglePlay = () => {
+        // Replaying from the end starts the network over
+        if (!isAnimating && time >= allInteractions.length - 1) setTime(0);
+        setIsAnimating(!isAnimating);
+    };
 
     const handleSendMessage = useCallback(async (msg: string) => {
         setIsChatLoading(true);
         setChatHistory(prev => [...prev, { text: msg, role: 'user' }]);
 
+        const { metrics } = network;
+        const leaders = topNodes.map(n => `Student ${n.id} (${METRIC_LABELS[sizeBy]} ${formatMetric(sizeBy, n[sizeBy])})`).join(', ');
         const context = `
-            We are performing Social Network Analysis (SNA).
-            Current Interactions Visible: ${time + 1}/${allInteractions.length}
-            Number of Active Nodes: ${visibleNodes.length}
-            Number of Active Links: ${visibleLinks.length}
-            
+            We are performing Social Network Analysis (SNA) on a directed, weighted network of student interactions.
+            Current Interactions Visible: ${time + 1}/${allInteractions.length} (${cumulative ? 'cumulative' : `sliding window of the last ${windowSize}`})
+            Number of Active Nodes: ${metrics.nodeCount}
+            Number of Distinct Ties (arcs): ${metrics.arcCount}
+            Density: ${metrics.density.toFixed(3)}, Reciprocity: ${metrics.reciprocity.toFixed(3)}
+            Transitivity: ${metrics.transitivity.toFixed(3)}, Average Clustering: ${metrics.averageClustering.toFixed(3)}
+            Louvain Communities: ${metrics.communityCount} (modularity Q = ${metrics.modularity.toFixed(3)})
+            Node size shows ${METRIC_LABELS[sizeBy]}; colour shows ${METRIC_LABELS[colorBy]}.
+            Most central by ${METRIC_LABELS[sizeBy]}: ${leaders || 'none yet'}
+            ${selectedNode ? `Selected: Student ${selectedNode.id}, in-degree ${selectedNode.inDegree}, out-degree ${selectedNode.outDegree}, betweenness ${selectedNode.betweenness.toFixed(3)}, PageRank ${selectedNode.pageRank.toFixed(3)}, community ${selectedNode.community}` : ''}
+            Density over ${NUM_SNAPSHOTS} time slices: ${snapshots.map(s => s.metrics.density.toFixed(2)).join(' -> ')}
+
             User Question: ${msg}
-            
-            Explain the structure of the network, identifying central actors and any isolated sub-groups.
+
+            Explain the structure of the network, identifying central actors (and how the centrality measures disagree), communities and isolated sub-groups, and how the network changed over time.
         `;
 
         try {
@@ -89,7 +126,11 @@ const SNAAnalysis: React.FC<SNAAnalysisProps> = ({ onBack }) => {
         } finally {
             setIsChatLoading(false);
         }
-    }, [time, allInteractions, visibleNodes, visibleLinks]);
+    }, [time, allInteractions, network, topNodes, sizeBy, colorBy, cumulative, windowSize, selectedNode, snapshots]);
+
+    const { metrics } = network;
+    // Slice ends are exclusive except for the last slice
+    const lastStepOf = (k: number) => k === snapshots.length - 1 ? Math.floor(snapshots[k].end) : Math.ceil(snapshots[k].end) - 1;
 
     return (
         <div className="w-full max-w-6xl mx-auto">
@@ -101,8 +142,52 @@ const SNAAnalysis: React.FC<SNAAnalysisProps> = ({ onBack }) => {
                 </div>
             </header>
             <main className="grid grid-cols-1 lg:grid-cols-5 gap-8">
-                <div className="lg:col-span-3 bg-slate-800 rounded-lg shadow-2xl p-4">
-                    <SNAGraph nodes={visibleNodes} links={visibleLinks} selectedNodeId={selectedNodeId} onNodeClick={setSelectedNodeId} />
+                <div className="lg:col-span-3 space-y-8">
+                    <div className="bg-slate-800 rounded-lg shadow-2xl p-4">
+                        <SNAGraph nodes={network.nodes} links={network.links} selectedNodeId={selectedNodeId} onNodeClick={setSelectedNodeId} sizeBy={sizeBy} colorBy={colorBy} />
+                        <p className="text-xs text-slate-400 text-center mt-2">
+                            Arrows point from initiator to recipient. Size: {METRIC_LABELS[sizeBy]}. Colour: {colorBy === 'community' ? 'one colour per community' : `${METRIC_LABELS[colorBy]} (dark = low, yellow = high)`}.
+                        </p>
+                    </div>
+
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
+                        <h3 className="text-lg font-semibold text-sky-400 mb-1">Network Over Time</h3>
+                        <p className="text-xs text-slate-400 mb-4">
+                            {cumulative ? 'Each row is the network accumulated up to the end of the slice.' : 'Each row contains only the interactions within that slice.'} Click a row to jump to it.
+                        </p>
+                        <table className="w-full text-sm font-mono">
+                            <thead>
+                                <tr className="text-slate-400 text-left">
+                                    <th className="py-1">Steps</th>
+                                    <th>Nodes</th>
+                                    <th>Ties</th>
+                                    <th>Density</th>
+                                    <th>Recip.</th>
+                                    <th>Trans.</th>
+                                    <th>Q</th>
+                                    <th>Comm.</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {snapshots.map((s, k) => {
+                                    const isCurrent = time > (k === 0 ? -1 : lastStepOf(k - 1)) && time <= lastStepOf(k);
+                                    return (
+                                        <tr key={k} onClick={() => { setIsAnimating(false); setTime(lastStepOf(k)); }}
+                                            className={`cursor-pointer border-t border-slate-700 hover:bg-slate-700/50 ${isCurrent ? 'text-amber-300' : 'text-slate-200'}`}>
+                                            <td className="py-1">{Math.ceil(s.start) + 1}–{lastStepOf(k) + 1}</td>
+                                            <td>{s.metrics.nodeCount}</td>
+                                            <td>{s.metrics.arcCount}</td>
+                                            <td>{s.metrics.density.toFixed(3)}</td>
+                                            <td>{s.metrics.reciprocity.toFixed(3)}</td>
+                                            <td>{s.metrics.transitivity.toFixed(3)}</td>
+                                            <td>{s.metrics.modularity.toFixed(3)}</td>
+                                            <td>{s.metrics.communityCount}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
                 </div>
                 <div className="lg:col-span-2 flex flex-col space-y-8">
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-4">
@@ -114,10 +199,88 @@ const SNAAnalysis: React.FC<SNAAnalysisProps> = ({ onBack }) => {
                             </label>
                             <input type="range" min={0} max={allInteractions.length > 0 ? allInteractions.length - 1 : 0} value={time} onChange={(e) => setTime(+e.target.value)} className="w-full h-2 bg-slate-700 rounded-lg" />
                         </div>
+                        <div>
+                            <label className="flex justify-between text-sm text-slate-400">
+                                <span>Replay Speed</span>
+                                <span className="font-mono">{stepDelay} ms / step</span>
+                            </label>
+                            <input type="range" min={30} max={600} step={10} value={630 - stepDelay} onChange={(e) => setStepDelay(630 - +e.target.value)} className="w-full h-2 bg-slate-700 rounded-lg" />
+                        </div>
                         <div className="flex space-x-2">
-                            <button onClick={() => setIsAnimating(!isAnimating)} className="flex-1 bg-sky-600 hover:bg-sky-700 p-2 rounded">{isAnimating ? 'Pause' : 'Play'}</button>
+                            <button onClick={togglePlay} className="flex-1 bg-sky-600 hover:bg-sky-700 p-2 rounded">{isAnimating ? 'Pause' : 'Play'}</button>
                             <button onClick={regenerateData} className="flex-1 bg-slate-700 hover:bg-slate-600 p-2 rounded">Regenerate Data</button>
                         </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <label className="text-sm text-slate-400">
+                                Size nodes by
+                                <select value={sizeBy} onChange={(e) => setSizeBy(e.target.value as SizeMetric)} className="w-full mt-1 bg-slate-700 text-slate-200 p-2 rounded">
+                                    {SIZE_METRICS.map(m => <option key={m} value={m}>{METRIC_LABELS[m]}</option>)}
+                                </select>
+                            </label>
+                            <label className="text-sm text-slate-400">
+                                Colour nodes by
+                                <select value={colorBy} onChange={(e) => setColorBy(e.target.value as SNAMetric)} className="w-full mt-1 bg-slate-700 text-slate-200 p-2 rounded">
+                                    {(Object.keys(METRIC_LABELS) as SNAMetric[]).map(m => <option key={m} value={m}>{METRIC_LABELS[m]}</option>)}
+                                </select>
+                            </label>
+                        </div>
+                        <div className="flex items-center justify-between text-sm text-slate-400">
+                            <label className="flex items-center space-x-2">
+                                <input type="checkbox" checked={cumulative} onChange={(e) => setCumulative(e.target.checked)} />
+                                <span>Cumulative network</span>
+                            </label>
+                            {!cumulative && (
+                                <label className="flex items-center space-x-2">
+                                    <span>Window</span>
+                                    <input type="number" min={2} max={NUM_INTERACTIONS} value={windowSize} onChange={(e) => setWindowSize(Math.max(2, +e.target.value))} className="w-16 bg-slate-700 text-slate-200 p-1 rounded font-mono" />
+                                </label>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
+                        <h3 className="text-lg font-semibold text-sky-400 mb-4">Network Metrics</h3>
+                        <div className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm font-mono">
+                            <span className="text-slate-400">Nodes / ties</span><span className="text-slate-200">{metrics.nodeCount} / {metrics.arcCount}</span>
+                            <span className="text-slate-400">Density</span><span className="text-slate-200">{metrics.density.toFixed(3)}</span>
+                            <span className="text-slate-400">Reciprocity</span><span className="text-slate-200">{metrics.reciprocity.toFixed(3)}</span>
+                            <span className="text-slate-400">Transitivity</span><span className="text-slate-200">{metrics.transitivity.toFixed(3)}</span>
+                            <span className="text-slate-400">Avg. clustering</span><span className="text-slate-200">{metrics.averageClustering.toFixed(3)}</span>
+                            <span className="text-slate-400">Modularity Q</span><span className="text-slate-200">{metrics.modularity.toFixed(3)}</span>
+                            <span className="text-slate-400">Communities</span><span className="text-slate-200">{metrics.communityCount}</span>
+                        </div>
+                    </div>
+
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
+                        {selectedNode ? (
+                            <>
+                                <h3 className="text-lg font-semibold text-pink-400 mb-4">Student {selectedNode.id}</h3>
+                                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm font-mono">
+                                    {(Object.keys(METRIC_LABELS) as SNAMetric[]).map(m => (
+                                        <React.Fragment key={m}>
+                                            <span className="text-slate-400">{METRIC_LABELS[m]}</span>
+                                            <span className="text-slate-200">{formatMetric(m, selectedNode[m])}</span>
+                                        </React.Fragment>
+                                    ))}
+                                </div>
+                            </>
+                        ) : (
+                            <>
+                                <h3 className="text-lg font-semibold text-sky-400 mb-4">Most Central: {METRIC_LABELS[sizeBy]}</h3>
+                                <table className="w-full text-sm font-mono">
+                                    <tbody>
+                                        {topNodes.map((n, rank) => (
+                                            <tr key={n.id} onClick={() => setSelectedNodeId(n.id)} className="cursor-pointer border-t border-slate-700 hover:bg-slate-700/50">
+                                                <td className="py-1 text-slate-400">#{rank + 1}</td>
+                                                <td className="text-slate-200">Student {n.id}</td>
+                                                <td className="text-right text-amber-300">{formatMetric(sizeBy, n[sizeBy])}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                <p className="text-xs text-slate-400 mt-2">Click a student (here or in the graph) for all of their measures.</p>
+                            </>
+                        )}
                     </div>
 
                     <div className="h-[500px]">
@@ -137,4 +300,3 @@ const SNAAnalysis: React.FC<SNAAnalysisProps> = ({ onBack }) => {
 };
 
 export default SNAAnalysis;
-
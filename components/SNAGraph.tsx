@@ -1,7 +1,6 @@
-
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useMemo } from 'react';
 import * as d3 from 'd3';
-import { SNANode, SNALink } from '../types';
+import { SNANode, SNALink, SNAMetric } from '../types';
 
 // FIX: Define a type that combines SNANode with D3's SimulationNodeDatum to satisfy D3's requirements.
 type SimulationNode = SNANode & d3.SimulationNodeDatum;
@@ -11,23 +10,51 @@ interface SNAGraphProps {
     links: SNALink[];
     selectedNodeId: number | null;
     onNodeClick: (nodeId: number | null) => void;
+    sizeBy?: Exclude<SNAMetric, 'community'>;
+    colorBy?: SNAMetric | null; // null keeps the single default colour
 }
 
-const SNAGraph: React.FC<SNAGraphProps> = ({ nodes, links, selectedNodeId, onNodeClick }) => {
+const DEFAULT_NODE_COLOR = 'rgb(34 211 238)';
+
+const SNAGraph: React.FC<SNAGraphProps> = ({ nodes, links, selectedNodeId, onNodeClick, sizeBy = 'degree', colorBy = null }) => {
     const svgRef = useRef<SVGSVGElement | null>(null);
     // FIX: Expected 1 arguments, but got 0. Initialize useRef with null.
     // FIX: Use the new SimulationNode type for the simulation's node generic type.
     const simulationRef = useRef<d3.Simulation<SimulationNode, SNALink> | null>(null);
 
+    const radiusOf = useMemo(() => {
+        const scale = d3.scaleSqrt().domain([0, d3.max(nodes, d => d[sizeBy]) || 1]).range([5, 18]);
+        return (d: SNANode) => scale(d[sizeBy]);
+    }, [nodes, sizeBy]);
+    const radiusRef = useRef(radiusOf);
+    radiusRef.current = radiusOf;
+
+    const colorOf = useMemo(() => {
+        if (!colorBy) return () => DEFAULT_NODE_COLOR;
+        if (colorBy === 'community') return (d: SNANode) => d3.schemeTableau10[d.community % 10];
+        const [min, max] = d3.extent(nodes, d => d[colorBy]) as [number, number];
+        const scale = d3.scaleSequential(d3.interpolatePlasma).domain(min === max ? [min - 1, max] : [min, max]);
+        return (d: SNANode) => scale(d[colorBy]);
+    }, [nodes, colorBy]);
+
     useEffect(() => {
         if (!svgRef.current) return;
 
         const width = 500;
         const height = 500;
         const svg = d3.select(svgRef.current).attr('viewBox', `0 0 ${width} ${height}`);
-        
+
         svg.on('click', () => onNodeClick(null));
 
+        svg.append('defs').append('marker')
+            .attr('id', 'sna-arrow')
+            .attr('viewBox', '0 -4 8 8')
+            .attr('refX', 8)
+            .attr('markerWidth', 6)
+            .attr('markerHeight', 6)
+            .attr('orient', 'auto')
+            .append('path').attr('d', 'M0,-4L8,0L0,4').attr('fill', 'rgba(148, 163, 184, 0.8)');
+
         const g = svg.append('g');
         const linkGroup = g.append('g').attr('class', 'links');
         const nodeGroup = g.append('g').attr('class', 'nodes');
@@ -38,10 +65,17 @@ const SNAGraph: React.FC<SNAGraphProps> = ({ nodes, links, selectedNodeId, onNod
             .force('link', d3.forceLink<SimulationNode, SNALink>().id((d:any) => d.id).distance(60))
             .force('charge', d3.forceManyBody().strength(-150))
             .force('center', d3.forceCenter(width / 2, height / 2));
-        
+
+        // Links stop at the target's edge so the arrowhead (direction of the interaction) stays visible
         const ticked = () => {
             linkGroup.selectAll<SVGPathElement, SNALink>('path')
-                .attr('d', (d: any) => `M${d.source.x},${d.source.y} L${d.target.x},${d.target.y}`);
+                .attr('d', (d: any) => {
+                    const dx = d.target.x - d.source.x;
+                    const dy = d.target.y - d.source.y;
+                    const length = Math.sqrt(dx * dx + dy * dy) || 1;
+                    const inset = radiusRef.current(d.target) + 2;
+                    return `M${d.source.x},${d.source.y} L${d.target.x - dx / length * inset},${d.target.y - dy / length * inset}`;
+                });
             // FIX: The node data type is now SimulationNode.
             nodeGroup.selectAll<SVGGElement, SimulationNode>('g')
                 .attr('transform', (d: any) => `translate(${d.x},${d.y})`);
@@ -58,32 +92,41 @@ const SNAGraph: React.FC<SNAGraphProps> = ({ nodes, links, selectedNodeId, onNod
         const svg = d3.select(svgRef.current);
         const linkGroup = svg.select('.links');
         const nodeGroup = svg.select('.nodes');
-        
-        // FIX: Cast nodes to SimulationNode[] for the simulation, as D3 will add the required properties.
-        simulation.nodes(nodes as SimulationNode[]);
+
+        // Carry positions over from the previous frame so the network grows in place during a replay
+        const previous = new Map<number, SimulationNode>(simulation.nodes().map(d => [d.id, d]));
+        const simulationNodes: SimulationNode[] = nodes.map(d => {
+            const old = previous.get(d.id);
+            return old ? { ...d, x: old.x, y: old.y, vx: old.vx, vy: old.vy } : { ...d };
+        });
+        // The link force replaces ids with node objects, so it gets its own copies
+        const simulationLinks = links.map(l => ({ ...l }));
+
+        simulation.nodes(simulationNodes);
         // FIX: The link force also uses the extended node type.
         const linkForce = simulation.force('link') as d3.ForceLink<SimulationNode, SNALink>;
         if (linkForce) {
-            linkForce.links(links);
+            linkForce.links(simulationLinks);
         }
-        
+
         const link = linkGroup
             .selectAll<SVGPathElement, SNALink>('path')
-            .data(links, d => `${d.source}-${d.target}-${d.time}`);
-        
+            .data(simulationLinks, d => `${(d.source as any).id ?? d.source}-${(d.target as any).id ?? d.target}-${d.time}`);
+
         link.enter().append('path')
             .attr('stroke', 'rgba(100, 116, 139, 0.5)')
             .attr('stroke-width', 1.5)
+            .attr('marker-end', 'url(#sna-arrow)')
             .attr('opacity', 0)
             .transition().duration(500)
             .attr('opacity', 1);
 
         link.exit().remove();
-        
+
         // FIX: The node data type is now SimulationNode, and we cast the incoming data.
         const node = nodeGroup
             .selectAll<SVGGElement, SimulationNode>('g')
-            .data(nodes as SimulationNode[], (d: any) => d.id);
+            .data(simulationNodes, (d: any) => d.id);
 
         const nodeEnter = node.enter().append('g')
             .style('cursor', 'pointer')
@@ -97,26 +140,26 @@ const SNAGraph: React.FC<SNAGraphProps> = ({ nodes, links, selectedNodeId, onNod
                 .on("end", (event) => { if (!event.active) simulation.alphaTarget(0); event.subject.fx = null; event.subject.fy = null; })
             );
 
-        nodeEnter.append('circle').attr('fill', 'rgb(34 211 238)').attr('r', 0)
+        nodeEnter.append('circle').attr('fill', d => colorOf(d)).attr('r', 0)
           .transition().duration(500)
-            .attr('r', d => 5 + Math.sqrt(d.degree) * 2);
+            .attr('r', d => radiusOf(d));
 
         nodeEnter.append('text').text(d => d.id)
             .attr('text-anchor', 'middle').attr('dy', 4)
             .style('font-size', '10px').style('fill', 'white');
-        
+
         node.select('circle')
             .transition().duration(200)
-            .attr('r', d => 5 + Math.sqrt(d.degree) * 2);
+            .attr('r', d => radiusOf(d));
 
         node.exit().select('circle').transition().duration(500).attr('r', 0).remove();
         node.exit().select('text').remove();
         node.exit().transition().duration(500).remove();
-        
+
         simulation.alpha(0.3).restart();
 
-    }, [nodes, links, onNodeClick]);
-    
+    }, [nodes, links, onNodeClick, radiusOf, colorOf]);
+
     useEffect(() => {
         if (!svgRef.current) return;
         const svg = d3.select(svgRef.current);
@@ -125,13 +168,13 @@ const SNAGraph: React.FC<SNAGraphProps> = ({ nodes, links, selectedNodeId, onNod
             const linkSet = new Set(links.map(l => `${l.source.toString()}-${l.target.toString()}`));
             return linkSet.has(`${a}-${b}`) || linkSet.has(`${b}-${a}`);
         }
-        
+
         // FIX: The node data type is now SimulationNode.
         const allNodes = svg.selectAll<SVGGElement, SimulationNode>('.nodes g');
         const allLinks = svg.selectAll<SVGPathElement, SNALink>('.links path');
 
         if (selectedNodeId === null) {
-            allNodes.select('circle').attr('fill', 'rgb(34 211 238)');
+            allNodes.select('circle').attr('fill', d => colorOf(d));
             allLinks.attr('stroke', 'rgba(100, 116, 139, 0.5)');
         } else {
             allNodes.select('circle').attr('fill', d => {
@@ -144,7 +187,7 @@ const SNAGraph: React.FC<SNAGraphProps> = ({ nodes, links, selectedNodeId, onNod
             );
         }
 
-    }, [selectedNodeId, links]);
+    }, [selectedNodeId, links, nodes, colorOf]);
 
 
     return <svg ref={svgRef}></svg>;
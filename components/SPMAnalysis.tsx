@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { StudentSequence, FrequentPattern, StudentAction } from '../types';
-import { generateSequenceData, findFrequentPatterns } from '../services/statisticsService';
+import { StudentSequence, SequentialPattern, StudentAction, PatternFilter } from '../types';
+import { generateSequenceData, mineSequentialPatterns, contrastSequentialPatterns } from '../services/statisticsService';
 import { getChatResponse } from '../services/geminiService';
 import UnifiedGenAIChat, { Message } from './UnifiedGenAIChat';
 
@@ -17,6 +17,19 @@ const actionMap: Record<StudentAction, { emoji: string; name: string }> = {
     E: { emoji: '❌', name: 'Fail/Error' },
 };
 
+const ANY_GAP = 6; // slider position meaning "no gap limit"
+const MAX_CONTRAST_ROWS = 100;
+
+const formatPValue = (p: number) => (p < 0.001 ? '< .001' : p.toFixed(3));
+
+const PatternIcons: React.FC<{ pattern: StudentAction[] }> = ({ pattern }) => (
+    <div className="flex items-center space-x-1">
+        {pattern.map((action, j) => (
+            <span key={j} title={actionMap[action].name} className="text-xl">{actionMap[action].emoji}</span>
+        ))}
+    </div>
+);
+
 const Slider: React.FC<{ label: string, value: number, min: number, max: number, step: number, onChange: (e: React.ChangeEvent<HTMLInputElement>) => void, format?: (v: number) => string }> = ({ label, value, min, max, step, onChange, format }) => (
     <div>
         <label className="flex justify-between text-sm text-slate-400">
@@ -27,7 +40,7 @@ const Slider: React.FC<{ label: string, value: number, min: number, max: number,
     </div>
 );
 
-const PatternList: React.FC<{ title: string; patterns: FrequentPattern[] }> = ({ title, patterns }) => (
+const PatternList: React.FC<{ title: string; patterns: SequentialPattern[] }> = ({ title, patterns }) => (
     <div className="bg-slate-900 p-4 rounded-lg h-96 overflow-y-auto">
         <h4 className="text-lg font-semibold text-center text-slate-300 mb-4">{title}</h4>
         {patterns.length === 0 ? (
@@ -37,9 +50,8 @@ const PatternList: React.FC<{ title: string; patterns: FrequentPattern[] }> = ({
                 {patterns.map((p, i) => (
                     <li key={i} className="bg-slate-800 p-3 rounded-md flex items-center justify-between">
                         <div className="flex items-center space-x-2">
-                            {p.pattern.map((action, j) => (
-                                <span key={j} title={actionMap[action].name} className="text-2xl">{actionMap[action].emoji}</span>
-                            ))}
+                            <PatternIcons pattern={p.pattern} />
+                            {!p.contiguous && <span title="Only frequent when other actions may come in between" className="text-xs bg-amber-500/20 text-amber-300 px-1.5 py-0.5 rounded">gapped</span>}
                         </div>
                         <div className="text-right">
                             <span className="font-mono text-cyan-400">{(p.support * 100).toFixed(1)}%</span>
@@ -55,7 +67,10 @@ const PatternList: React.FC<{ title: string; patterns: FrequentPattern[] }> = ({
 const SPMAnalysis: React.FC<SPMAnalysisProps> = ({ onBack }) => {
     const [sequences, setSequences] = useState<StudentSequence[]>(() => generateSequenceData(100));
     const [support, setSupport] = useState(0.2);
-    const [patternLength, setPatternLength] = useState(3);
+    const [maxGapSetting, setMaxGapSetting] = useState(1);
+    const [minLength, setMinLength] = useState(2);
+    const [maxLength, setMaxLength] = useState(4);
+    const [filter, setFilter] = useState<PatternFilter>('closed');
 
     // Chat state
     const [chatHistory, setChatHistory] = useState<Message[]>([
@@ -65,13 +80,21 @@ const SPMAnalysis: React.FC<SPMAnalysisProps> = ({ onBack }) => {
 
     const regenerateData = useCallback(() => setSequences(generateSequenceData(100)), []);
 
-    const { patternsA, patternsB } = useMemo(() => {
+    const maxGap = maxGapSetting >= ANY_GAP ? Infinity : maxGapSetting;
+
+    const { patternsA, patternsB, contrasts } = useMemo(() => {
         const sequencesA = sequences.filter(s => s.group === 'Group A');
         const sequencesB = sequences.filter(s => s.group === 'Group B');
-        const patternsA = findFrequentPatterns(sequencesA, support, patternLength);
-        const patternsB = findFrequentPatterns(sequencesB, support, patternLength);
-        return { patternsA, patternsB };
-    }, [sequences, support, patternLength]);
+        const options = { minSupport: support, maxGap, minLength, maxLength, filter };
+        return {
+            patternsA: mineSequentialPatterns(sequencesA, options),
+            patternsB: mineSequentialPatterns(sequencesB, options),
+            contrasts: contrastSequentialPatterns(sequencesA, sequencesB, options)
+        };
+    }, [sequences, support, maxGap, minLength, maxLength, filter]);
+
+    const gappedCount = patternsA.filter(p => !p.contiguous).length + patternsB.filter(p => !p.contiguous).length;
+    const significant = contrasts.filter(c => c.adjustedPValue < 0.05);
 
     const handleSendMessage = useCallback(async (msg: string) => {
         setIsChatLoading(true);
@@ -79,14 +102,19 @@ const SPMAnalysis: React.FC<SPMAnalysisProps> = ({ onBack }) => {
 
         const context = `
             We are performing Sequential Pattern Mining (SPM).
+            Algorithm: PrefixSpan, showing ${filter} patterns
             Minimum Support: ${(support * 100).toFixed(0)}%
-            Pattern Length: ${patternLength}
-            Found Patterns Group A: ${patternsA.length}
-            Found Patterns Group B: ${patternsB.length}
-            
+            Max Gap: ${Number.isFinite(maxGap) ? `${maxGap} intervening actions` : 'unlimited'}
+            Pattern Length: ${minLength} to ${maxLength}
+            Found Patterns Group A: ${patternsA.length} (top: ${patternsA.slice(0, 3).map(p => p.pattern.join('→')).join(', ')})
+            Found Patterns Group B: ${patternsB.length} (top: ${patternsB.slice(0, 3).map(p => p.pattern.join('→')).join(', ')})
+            Patterns that are only frequent once gaps are allowed: ${gappedCount}
+            Significant differences (Fisher's exact test, Holm-adjusted p < .05): ${significant.slice(0, 5).map(c => `${c.pattern.join('→')} A ${(c.supportA * 100).toFixed(0)}% vs B ${(c.supportB * 100).toFixed(0)}%`).join('; ') || 'none'}
+            (Action key: V=Video, Q=Quiz, P=Pass, E=Fail, F=Forum, A=Assignment)
+
             User Question: ${msg}
-            
-            Compare the sequential patterns between the two groups and explain what they suggest about learning habits.
+
+            Compare the sequential patterns between the two groups and explain what they suggest about learning habits, including why gapped patterns can reveal strategies that contiguous matching misses.
         `;
 
         try {
@@ -97,7 +125,7 @@ const SPMAnalysis: React.FC<SPMAnalysisProps> = ({ onBack }) => {
         } finally {
             setIsChatLoading(false);
         }
-    }, [support, patternLength, patternsA.length, patternsB.length]);
+    }, [support, maxGap, minLength, maxLength, filter, patternsA, patternsB, gappedCount, significant]);
 
     return (
         <div className="w-full max-w-6xl mx-auto">
@@ -105,19 +133,67 @@ const SPMAnalysis: React.FC<SPMAnalysisProps> = ({ onBack }) => {
                 <button onClick={onBack} className="text-red-400 hover:text-red-300 mb-4 inline-block">&larr; Back to Portal</button>
                 <div className="text-center">
                     <h1 className="text-4xl font-bold text-red-400">Sequential Pattern Mining</h1>
-                    <p className="text-slate-400 mt-2">Find frequent subsequences of actions, comparing between groups.</p>
+                    <p className="text-slate-400 mt-2">Mine frequent action sequences with PrefixSpan, allowing gaps, and test which ones differ between groups.</p>
                 </div>
             </header>
             <main className="grid grid-cols-1 lg:grid-cols-5 gap-8">
-                <div className="lg:col-span-3 grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <PatternList title="Group A (High-Achievers)" patterns={patternsA} />
-                    <PatternList title="Group B (Low-Achievers)" patterns={patternsB} />
+                <div className="lg:col-span-3 space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <PatternList title="Group A (High-Achievers)" patterns={patternsA} />
+                        <PatternList title="Group B (Low-Achievers)" patterns={patternsB} />
+                    </div>
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
+                        <h3 className="text-lg font-semibold text-red-400 mb-1">Group Contrast</h3>
+                        <p className="text-xs text-slate-400 mb-4">
+                            Every pattern frequent in either group, tested with Fisher's exact test for a difference in support (Holm-adjusted across {contrasts.length} patterns). Highlighted rows are significant at .05.{contrasts.length > MAX_CONTRAST_ROWS && ` Showing the ${MAX_CONTRAST_ROWS} smallest p-values.`}
+                        </p>
+                        <div className="max-h-80 overflow-y-auto">
+                            <table className="w-full text-sm font-mono">
+                                <thead className="sticky top-0 bg-slate-800">
+                                    <tr className="text-slate-400 text-left">
+                                        <th className="py-1">Pattern</th>
+                                        <th>A</th>
+                                        <th>B</th>
+                                        <th>Diff.</th>
+                                        <th>OR</th>
+                                        <th>p</th>
+                                        <th>p (Holm)</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {contrasts.slice(0, MAX_CONTRAST_ROWS).map((c, i) => (
+                                        <tr key={i} className={`border-t border-slate-700 ${c.adjustedPValue < 0.05 ? (c.difference > 0 ? 'text-cyan-300' : 'text-pink-300') : 'text-slate-300'}`}>
+                                            <td className="py-1"><PatternIcons pattern={c.pattern} /></td>
+                                            <td>{(c.supportA * 100).toFixed(0)}%</td>
+                                            <td>{(c.supportB * 100).toFixed(0)}%</td>
+                                            <td>{c.difference > 0 ? '+' : ''}{(c.difference * 100).toFixed(0)}</td>
+                                            <td>{c.oddsRatio.toFixed(2)}</td>
+                                            <td>{formatPValue(c.pValue)}</td>
+                                            <td>{formatPValue(c.adjustedPValue)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
                 </div>
                 <div className="lg:col-span-2 flex flex-col space-y-8">
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-4">
                         <h3 className="text-lg font-semibold text-red-400 mb-2">Analysis Controls</h3>
                         <Slider label="Min Support Threshold" value={support} min={0.05} max={0.5} step={0.01} onChange={e => setSupport(+e.target.value)} format={v => `${(v * 100).toFixed(0)}%`} />
-                        <Slider label="Pattern Length" value={patternLength} min={2} max={5} step={1} onChange={e => setPatternLength(+e.target.value)} />
+                        <Slider label="Max Gap (actions in between)" value={maxGapSetting} min={0} max={ANY_GAP} step={1} onChange={e => setMaxGapSetting(+e.target.value)} format={v => (v >= ANY_GAP ? 'any' : v === 0 ? '0 (contiguous)' : `${v}`)} />
+                        <Slider label="Min Pattern Length" value={minLength} min={1} max={5} step={1} onChange={e => { setMinLength(+e.target.value); setMaxLength(m => Math.max(m, +e.target.value)); }} />
+                        <Slider label="Max Pattern Length" value={maxLength} min={1} max={6} step={1} onChange={e => { setMaxLength(+e.target.value); setMinLength(m => Math.min(m, +e.target.value)); }} />
+                        <div>
+                            <label className="text-sm text-slate-400">Show</label>
+                            <div className="flex mt-1 space-x-2">
+                                {(['all', 'closed', 'maximal'] as PatternFilter[]).map(f => (
+                                    <button key={f} onClick={() => setFilter(f)} className={`flex-1 py-1 rounded text-sm capitalize ${filter === f ? 'bg-red-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>{f}</button>
+                                ))}
+                            </div>
+                            <p className="text-xs text-slate-500 mt-1">Closed: no longer pattern has the same support. Maximal: no longer pattern is frequent.</p>
+                        </div>
+                        <p className="text-xs text-slate-400">{gappedCount} pattern{gappedCount === 1 ? '' : 's'} marked <span className="text-amber-300">gapped</span> would be missed by contiguous matching.</p>
                         <button onClick={regenerateData} className="w-full mt-4 bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg">Regenerate Data</button>
                     </div>
 
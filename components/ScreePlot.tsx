@@ -0,0 +1,78 @@
+import React, { useRef, useEffect } from 'react';
+import * as d3 from 'd3';
+
+interface ScreePlotProps {
+    eigenvalues: number[];
+    parallelEigenvalues: number[];
+    numFactors: number;
+}
+
+const ScreePlot: React.FC<ScreePlotProps> = ({ eigenvalues, parallelEigenvalues, numFactors }) => {
+    const svgRef = useRef<SVGSVGElement | null>(null);
+
+    useEffect(() => {
+        if (!svgRef.current || eigenvalues.length === 0) return;
+
+        const svg = d3.select(svgRef.current);
+        const width = 500;
+        const height = 300;
+        const margin = { top: 20, right: 20, bottom: 40, left: 50 };
+
+        svg.attr('width', '100%')
+           .attr('height', '100%')
+           .attr('viewBox', `0 0 ${width} ${height}`)
+           .attr('preserveAspectRatio', 'xMidYMid meet');
+
+        svg.selectAll('*').remove();
+
+        const components = eigenvalues.map((_, i) => i + 1);
+        const x = d3.scalePoint<number>().domain(components).range([margin.left, width - margin.right]).padding(0.5);
+        const yMax = Math.max(d3.max(eigenvalues) ?? 1, d3.max(parallelEigenvalues) ?? 1);
+        const y = d3.scaleLinear().domain([0, yMax * 1.1]).nice().range([height - margin.bottom, margin.top]);
+
+        svg.append('rect').attr('width', width).attr('height', height).attr('fill', 'rgb(30 41 59)');
+
+        svg.append('g').attr('transform', `translate(0,${height - margin.bottom})`).call(d3.axisBottom(x)).attr('color', 'rgb(100 116 139)');
+        svg.append('g').attr('transform', `translate(${margin.left},0)`).call(d3.axisLeft(y).ticks(5)).attr('color', 'rgb(100 116 139)');
+
+        svg.append('text').attr('text-anchor', 'middle').attr('x', width / 2).attr('y', height - 5)
+            .text('Factor Number').style('fill', 'white').style('font-size', '12px');
+        svg.append('text').attr('text-anchor', 'middle').attr('transform', 'rotate(-90)').attr('y', 15).attr('x', -height / 2)
+            .text('Eigenvalue').style('fill', 'white').style('font-size', '12px');
+
+        // Kaiser criterion reference line
+        svg.append('line').attr('x1', margin.left).attr('x2', width - margin.right).attr('y1', y(1)).attr('y2', y(1))
+            .attr('stroke', 'rgb(100 116 139)').attr('stroke-dasharray', '2,2');
+
+        const line = d3.line<number>().x((_, i) => x(i + 1) as number).y(d => y(d));
+
+        // Parallel analysis: eigenvalues expected from random data of the same size
+        svg.append('path').datum(parallelEigenvalues).attr('d', line).attr('fill', 'none')
+            .attr('stroke', 'rgb(248 113 113)').attr('stroke-width', 2).attr('stroke-dasharray', '6,4');
+
+        svg.append('path').datum(eigenvalues).attr('d', line).attr('fill', 'none')
+            .attr('stroke', 'rgb(34 211 238)').attr('stroke-width', 2);
+
+        svg.append('g').selectAll('circle').data(eigenvalues).join('circle')
+            .attr('cx', (_, i) => x(i + 1) as number)
+            .attr('cy', d => y(d))
+            .attr('r', (_, i) => (i < numFactors ? 6 : 4))
+            .attr('fill', (_, i) => (i < numFactors ? 'rgb(167 139 250)' : 'rgb(34 211 238)'));
+
+        const legend = svg.append('g').attr('transform', `translate(${width - margin.right - 150}, ${margin.top})`);
+        [
+            { label: 'Observed', color: 'rgb(34 211 238)', dash: '' },
+            { label: 'Parallel (95th pct.)', color: 'rgb(248 113 113)', dash: '6,4' }
+        ].forEach((item, i) => {
+            legend.append('line').attr('x1', 0).attr('x2', 20).attr('y1', i * 18).attr('y2', i * 18)
+                .attr('stroke', item.color).attr('stroke-width', 2).attr('stroke-dasharray', item.dash);
+            legend.append('text').attr('x', 26).attr('y', i * 18 + 4).text(item.label)
+                .style('fill', 'rgb(203 213 225)').style('font-size', '11px');
+        });
+
+    }, [eigenvalues, parallelEigenvalues, numFactors]);
+
+    return <svg ref={svgRef}></svg>;
+};
+
+export default ScreePlot;
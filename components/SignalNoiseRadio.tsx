@@ -1,12 +1,16 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import * as d3 from 'd3';
 import { getChatResponse } from '../services/geminiService';
+import { studentTQuantile, studentTCDF, normalRandom } from '../services/distributionService';
+import { oneSampleTTest } from '../services/statisticsService';
 import UnifiedGenAIChat from './UnifiedGenAIChat';
 
 interface SignalNoiseRadioProps {
     onBack: () => void;
 }
 
+const SAMPLE_SIZE = 31; // df = 30
+
 const SignalNoiseRadio: React.FC<SignalNoiseRadioProps> = ({ onBack }) => {
     // Parameters
     const [signal, setSignal] = useState(20); // Mean Difference (Numerator)
@@ -22,8 +26,16 @@ const SignalNoiseRadio: React.FC<SignalNoiseRadioProps> = ({ onBack }) => {
 
     // Derived Statistics
     const tValue = signal / (noise || 0.1); // Avoid div by zero
-    // Simple critical value check (approx t_crit for df=30 is ~2.04)
-    const isSignificant = Math.abs(tValue) > 2.0;
+    // Critical value check for a two-tailed test with df=30
+    const isSignificant = Math.abs(tValue) > studentTQuantile(0.975, SAMPLE_SIZE - 1);
+    const pValue = 2 * studentTCDF(Math.abs(tValue), SAMPLE_SIZE - 1, false);
+
+    // A real reading: 31 difference scores whose mean is the signal and whose standard error is the noise
+    const [readingCount, setReadingCount] = useState(0);
+    const reading = useMemo(() => {
+        const differences = Array.from({ length: SAMPLE_SIZE }, () => normalRandom(signal, noise * Math.sqrt(SAMPLE_SIZE)));
+        return oneSampleTTest(differences, 0);
+    }, [signal, noise, readingCount]);
 
     useEffect(() => {
         if (!svgRef.current) return;
@@ -96,7 +108,8 @@ const SignalNoiseRadio: React.FC<SignalNoiseRadioProps> = ({ onBack }) => {
             - Signal (Mean Difference): ${signal}
             - Noise (Standard Error): ${noise}
             - t-value: ${tValue.toFixed(2)}
-            - Significant? ${isSignificant ? "YES (Clear Audio)" : "NO (Too much static)"}
+            - Significant? ${isSignificant ? "YES (Clear Audio)" : "NO (Too much static)"} (two-tailed p = ${pValue.toFixed(4)}, df = ${SAMPLE_SIZE - 1})
+            - Latest sample reading (n = ${SAMPLE_SIZE} difference scores): mean = ${reading.estimate.toFixed(2)}, SE = ${reading.standardError.toFixed(2)}, t(${reading.df}) = ${reading.t.toFixed(2)}, p = ${reading.pValue.toFixed(4)}, 95% CI [${reading.ciLower.toFixed(2)}, ${reading.ciUpper.toFixed(2)}], Cohen's d = ${reading.cohensD.toFixed(2)}
             
             Educational Goal:
             - t = Signal / Noise.
@@ -162,8 +175,40 @@ const SignalNoiseRadio: React.FC<SignalNoiseRadioProps> = ({ onBack }) => {
                         <div className="text-slate-400 font-mono text-sm">
                             FORMULA: <span className="text-cyan-400">Signal</span> / <span className="text-rose-400">Noise</span> = <span className="text-white font-bold">t</span>
                         </div>
-                        <div className={`text-4xl font-black font-mono ${isSignificant ? 'text-green-400 animate-pulse' : 'text-slate-600'}`}>
-                            t = {tValue.toFixed(2)}
+                        <div className="text-right">
+                            <div className={`text-4xl font-black font-mono ${isSignificant ? 'text-green-400 animate-pulse' : 'text-slate-600'}`}>
+                                t = {tValue.toFixed(2)}
+                            </div>
+                            <div className="text-xs font-mono text-slate-500">df = {SAMPLE_SIZE - 1}, p = {pValue < 0.001 ? '<.001' : pValue.toFixed(3)}</div>
+                        </div>
+                    </div>
+
+                    {/* A sampled reading */}
+                    <div className="bg-slate-800 p-4 rounded-xl border border-slate-700">
+                        <div className="flex items-center justify-between mb-3">
+                            <div>
+                                <h3 className="text-cyan-400 font-bold uppercase tracking-wider text-sm">Take a Reading</h3>
+                                <p className="text-xs text-slate-500">{SAMPLE_SIZE} difference scores drawn with this signal and noise, tested with a one-sample t-test.</p>
+                            </div>
+                            <button onClick={() => setReadingCount(c => c + 1)} className="text-sm bg-cyan-600 hover:bg-cyan-500 text-white px-3 py-2 rounded">New Reading</button>
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center font-mono">
+                            <div className="bg-slate-900 rounded p-2">
+                                <div className="text-xs text-slate-500">Signal (mean)</div>
+                                <div className="text-cyan-400">{reading.estimate.toFixed(2)}</div>
+                            </div>
+                            <div className="bg-slate-900 rounded p-2">
+                                <div className="text-xs text-slate-500">Noise (SE)</div>
+                                <div className="text-rose-400">{reading.standardError.toFixed(2)}</div>
+                            </div>
+                            <div className="bg-slate-900 rounded p-2">
+                                <div className="text-xs text-slate-500">t({reading.df}), p</div>
+                                <div className={reading.pValue < 0.05 ? 'text-green-400' : 'text-slate-300'}>{reading.t.toFixed(2)}, {reading.pValue < 0.001 ? '<.001' : reading.pValue.toFixed(3)}</div>
+                            </div>
+                            <div className="bg-slate-900 rounded p-2">
+                                <div className="text-xs text-slate-500">95% CI, d</div>
+                                <div className="text-slate-300 text-sm">[{reading.ciLower.toFixed(1)}, {reading.ciUpper.toFixed(1)}], {reading.cohensD.toFixed(2)}</div>
+                            </div>
                         </div>
                     </div>
                 </div>
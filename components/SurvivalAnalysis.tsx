@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { SurvivalDataPoint, SurvivalCurvePoint } from '../types';
-import { generateSurvivalData, calculateKaplanMeier } from '../services/statisticsService';
+import { SurvivalDataPoint } from '../types';
+import { generateSurvivalData, calculateKaplanMeier, calculateLogRankTest, fitCoxModel } from '../services/statisticsService';
 import { getChatResponse } from '../services/geminiService';
 import SurvivalCurveChart from './SurvivalCurveChart';
 import UnifiedGenAIChat, { Message } from './UnifiedGenAIChat';
@@ -27,8 +27,17 @@ const Slider: React.FC<{ label: string, value: number, min: number, max: number,
     </div>
 );
 
+const SAMPLE_SIZE = 400;
+const COX_COVARIATES = ['mentored', 'priorGpa'];
+const COVARIATE_LABELS: Record<string, string> = { mentored: 'Mentored (A vs B)', priorGpa: 'Prior GPA', GLOBAL: 'Global' };
+
+const formatPValue = (p: number) => (p < 0.001 ? '<.001' : p.toFixed(3));
+const formatWeeks = (t: number | null) => (t === null ? 'NA' : t.toFixed(1));
+
 const SurvivalAnalysis: React.FC<SurvivalAnalysisProps> = ({ onBack }) => {
     const [interventionEffect, setInterventionEffect] = useState(0.5);
+    const [fadingEffect, setFadingEffect] = useState(false);
+    const [showBands, setShowBands] = useState(true);
     const [survivalData, setSurvivalData] = useState<SurvivalDataPoint[]>([]);
 
     // Chat state
@@ -38,43 +47,40 @@ const SurvivalAnalysis: React.FC<SurvivalAnalysisProps> = ({ onBack }) => {
     const [isChatLoading, setIsChatLoading] = useState(false);
 
     const regenerateData = useCallback(() => {
-        const data = generateSurvivalData(200, interventionEffect);
+        const data = generateSurvivalData(SAMPLE_SIZE, interventionEffect, fadingEffect);
         setSurvivalData(data);
-    }, [interventionEffect]);
+    }, [interventionEffect, fadingEffect]);
 
     useEffect(() => {
         regenerateData();
     }, [regenerateData]);
 
-    const { curveA, curveB, medianSurvivalA, medianSurvivalB } = useMemo(() => {
-        const dataA = survivalData.filter(d => d.group === 'Group A');
-        const dataB = survivalData.filter(d => d.group === 'Group B');
-        const curveA = calculateKaplanMeier(dataA);
-        const curveB = calculateKaplanMeier(dataB);
-
-        const findMedianSurvival = (curve: SurvivalCurvePoint[]) => {
-            const point = curve.find(p => p.survivalProbability <= 0.5);
-            return point ? point.time.toFixed(1) : '>20';
-        };
-
+    const { kmA, kmB, logRank, cox } = useMemo(() => {
+        if (survivalData.length === 0) return { kmA: null, kmB: null, logRank: null, cox: null };
         return {
-            curveA,
-            curveB,
-            medianSurvivalA: findMedianSurvival(curveA),
-            medianSurvivalB: findMedianSurvival(curveB),
+            kmA: calculateKaplanMeier(survivalData.filter(d => d.group === 'Group A')),
+            kmB: calculateKaplanMeier(survivalData.filter(d => d.group === 'Group B')),
+            logRank: calculateLogRankTest(survivalData),
+            cox: fitCoxModel(survivalData, COX_COVARIATES)
         };
     }, [survivalData]);
 
+    const describeMedian = (km: typeof kmA) =>
+        km ? (km.median === null ? 'not reached' : `${formatWeeks(km.median)} weeks (95% CI ${formatWeeks(km.medianLower)}-${formatWeeks(km.medianUpper)})`) : 'N/A';
+
 
     const handleSendMessage = useCallback(async (msg: string) => {
         setIsChatLoading(true);
         setChatHistory(prev => [...prev, { text: msg, role: 'user' }]);
 
         const context = `
-            We are performing Survival Analysis (Kaplan-Meier Estimator).
-            Group A (Mentored) Median Survival Time: ${medianSurvivalA} weeks.
-            Group B (Control) Median Survival Time: ${medianSurvivalB} weeks.
-            Intervention Effect Setting: ${(interventionEffect * 100).toFixed(0)}% risk reduction.
+            We are performing Survival Analysis (Kaplan-Meier with Greenwood CIs, log-rank test, Cox regression).
+            Group A (Mentored) Median Survival Time: ${describeMedian(kmA)}.
+            Group B (Control) Median Survival Time: ${describeMedian(kmB)}.
+            Log-rank test: χ²(1) = ${logRank?.chiSquare.toFixed(2)}, p = ${logRank ? formatPValue(logRank.pValue) : 'N/A'}.
+            Cox model hazard ratios: ${cox?.coefficients.map(c => `${COVARIATE_LABELS[c.name]} HR=${c.hazardRatio.toFixed(2)} (95% CI ${c.hrLower.toFixed(2)}-${c.hrUpper.toFixed(2)}, p=${formatPValue(c.pValue)})`).join('; ')}
+            Schoenfeld residual (proportional hazards) tests: ${cox?.proportionalHazardsTests.map(t => `${COVARIATE_LABELS[t.name]} χ²=${t.chiSquare.toFixed(2)}, p=${formatPValue(t.pValue)}`).join('; ')}
+            Intervention Effect Setting: ${(interventionEffect * 100).toFixed(0)}% risk reduction${fadingEffect ? ', fading after week 8' : ', constant over time'}.
             
             User Question: ${msg}
             
@@ -89,7 +95,7 @@ const SurvivalAnalysis: React.FC<SurvivalAnalysisProps> = ({ onBack }) => {
         } finally {
             setIsChatLoading(false);
         }
-    }, [medianSurvivalA, medianSurvivalB, interventionEffect]);
+    }, [kmA, kmB, logRank, cox, interventionEffect, fadingEffect]);
 
     return (
         <div className="w-full max-w-6xl mx-auto">
@@ -103,10 +109,68 @@ const SurvivalAnalysis: React.FC<SurvivalAnalysisProps> = ({ onBack }) => {
 
             <main className="grid grid-cols-1 lg:grid-cols-5 gap-8">
                 <div className="lg:col-span-3 bg-slate-800 rounded-lg shadow-2xl p-4">
-                    <SurvivalCurveChart curves={[
-                        { name: 'Group A (Mentored)', data: curveA, color: 'rgb(34 211 238)' },
-                        { name: 'Group B (Control)', data: curveB, color: 'rgb(236 72 153)' }
-                    ]} />
+                    {kmA && kmB && (
+                        <SurvivalCurveChart showConfidenceBands={showBands} curves={[
+                            { name: 'Group A (Mentored)', data: kmA.curve, color: 'rgb(34 211 238)' },
+                            { name: 'Group B (Control)', data: kmB.curve, color: 'rgb(236 72 153)' }
+                        ]} />
+                    )}
+                    {cox && (
+                        <div className="mt-6 space-y-6">
+                            <div>
+                                <h3 className="text-lg font-semibold text-teal-400 mb-2">Cox Proportional Hazards Model</h3>
+                                <table className="w-full text-sm font-mono">
+                                    <thead>
+                                        <tr className="text-slate-400 text-xs">
+                                            <th className="text-left font-normal pb-1">Covariate</th>
+                                            <th className="text-right font-normal pb-1">β</th>
+                                            <th className="text-right font-normal pb-1">SE</th>
+                                            <th className="text-right font-normal pb-1">HR [95% CI]</th>
+                                            <th className="text-right font-normal pb-1">p</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="text-slate-300">
+                                        {cox.coefficients.map(c => (
+                                            <tr key={c.name}>
+                                                <td className="py-1">{COVARIATE_LABELS[c.name]}</td>
+                                                <td className="text-right">{c.coefficient.toFixed(3)}</td>
+                                                <td className="text-right">{c.standardError.toFixed(3)}</td>
+                                                <td className="text-right">{c.hazardRatio.toFixed(2)} [{c.hrLower.toFixed(2)}, {c.hrUpper.toFixed(2)}]</td>
+                                                <td className={`text-right ${c.pValue < 0.05 ? 'text-green-400' : ''}`}>{formatPValue(c.pValue)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                <p className="text-xs text-slate-500 mt-1">Likelihood ratio test: χ²({cox.likelihoodRatioTest.df}) = {cox.likelihoodRatioTest.chiSquare.toFixed(2)}, p {formatPValue(cox.likelihoodRatioTest.pValue)} · {cox.events} dropouts. HR below 1 means lower dropout risk.</p>
+                            </div>
+                            <div>
+                                <h3 className="text-lg font-semibold text-teal-400 mb-2">Proportional Hazards Check (Schoenfeld Residuals)</h3>
+                                <table className="w-full text-sm font-mono">
+                                    <thead>
+                                        <tr className="text-slate-400 text-xs">
+                                            <th className="text-left font-normal pb-1">Covariate</th>
+                                            <th className="text-right font-normal pb-1">ρ</th>
+                                            <th className="text-right font-normal pb-1">χ²</th>
+                                            <th className="text-right font-normal pb-1">df</th>
+                                            <th className="text-right font-normal pb-1">p</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="text-slate-300">
+                                        {cox.proportionalHazardsTests.map(t => (
+                                            <tr key={t.name}>
+                                                <td className="py-1">{COVARIATE_LABELS[t.name]}</td>
+                                                <td className="text-right">{Number.isNaN(t.rho) ? '' : t.rho.toFixed(3)}</td>
+                                                <td className="text-right">{t.chiSquare.toFixed(2)}</td>
+                                                <td className="text-right">{t.df}</td>
+                                                <td className={`text-right ${t.pValue < 0.05 ? 'text-red-400' : ''}`}>{formatPValue(t.pValue)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                                <p className="text-xs text-slate-500 mt-1">A significant test means the hazard ratio changes over time, so the proportional hazards assumption is violated.</p>
+                            </div>
+                        </div>
+                    )}
                 </div>
                 <div className="lg:col-span-2 flex flex-col space-y-8">
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
@@ -118,20 +182,43 @@ const SurvivalAnalysis: React.FC<SurvivalAnalysisProps> = ({ onBack }) => {
                             onChange={(e) => setInterventionEffect(+e.target.value)}
                             format={v => `${(v * 100).toFixed(0)}% reduction in dropout risk`}
                         />
+                        <label className="flex items-center gap-2 text-sm text-slate-400 mt-4">
+                            <input type="checkbox" checked={fadingEffect} onChange={e => setFadingEffect(e.target.checked)} />
+                            Mentoring effect wears off after week 8
+                        </label>
+                        <label className="flex items-center gap-2 text-sm text-slate-400 mt-2">
+                            <input type="checkbox" checked={showBands} onChange={e => setShowBands(e.target.checked)} />
+                            Show 95% confidence bands
+                        </label>
                         <button onClick={regenerateData} className="w-full mt-6 bg-teal-600 hover:bg-teal-700 text-white font-bold py-2 px-4 rounded-lg">
                             Regenerate Data
                         </button>
                     </div>
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
                         <h3 className="text-lg font-semibold text-teal-400 mb-3">Analysis Results</h3>
-                        <div className="flex justify-between items-center text-sm">
-                            <span className="text-slate-300">Median Survival (Group A):</span>
-                            <span className="font-mono bg-slate-900 px-2 py-1 rounded">{medianSurvivalA} weeks</span>
-                        </div>
-                        <div className="flex justify-between items-center mt-2 text-sm">
-                            <span className="text-slate-300">Median Survival (Group B):</span>
-                            <span className="font-mono bg-slate-900 px-2 py-1 rounded">{medianSurvivalB} weeks</span>
-                        </div>
+                        {[{ label: 'Group A', km: kmA }, { label: 'Group B', km: kmB }].map(({ label, km }) => (
+                            <div key={label} className="flex justify-between items-center text-sm mt-2">
+                                <span className="text-slate-300">Median Survival ({label}):</span>
+                                <span className="font-mono bg-slate-900 px-2 py-1 rounded">
+                                    {km ? (km.median === null ? 'not reached' : `${formatWeeks(km.median)} [${formatWeeks(km.medianLower)}, ${formatWeeks(km.medianUpper)}]`) : 'N/A'}
+                                </span>
+                            </div>
+                        ))}
+                        {logRank && (
+                            <>
+                                <div className="flex justify-between items-center text-sm mt-2">
+                                    <span className="text-slate-300">Log-rank χ²(1):</span>
+                                    <span className="font-mono bg-slate-900 px-2 py-1 rounded">{logRank.chiSquare.toFixed(2)}</span>
+                                </div>
+                                <div className="flex justify-between items-center text-sm mt-2">
+                                    <span className="text-slate-300">p-value:</span>
+                                    <span className={`font-mono bg-slate-900 px-2 py-1 rounded ${logRank.pValue < 0.05 ? 'text-green-400' : ''}`}>{formatPValue(logRank.pValue)}</span>
+                                </div>
+                                <p className="text-xs text-slate-500 mt-2">
+                                    Dropouts observed / expected: A {logRank.observed['Group A']} / {logRank.expected['Group A'].toFixed(1)}, B {logRank.observed['Group B']} / {logRank.expected['Group B'].toFixed(1)}. Medians in weeks with 95% CIs; "not reached" means more than half the group was still enrolled.
+                                </p>
+                            </>
+                        )}
                     </div>
 
                     <div className="h-[500px]">
@@ -8,9 +8,10 @@ interface SurvivalCurveChartProps {
         data: SurvivalCurvePoint[];
         color: string;
     }[];
+    showConfidenceBands?: boolean;
 }
 
-const SurvivalCurveChart: React.FC<SurvivalCurveChartProps> = ({ curves }) => {
+const SurvivalCurveChart: React.FC<SurvivalCurveChartProps> = ({ curves, showConfidenceBands = true }) => {
     const svgRef = useRef<SVGSVGElement | null>(null);
 
     useEffect(() => {
@@ -83,6 +84,22 @@ const SurvivalCurveChart: React.FC<SurvivalCurveChartProps> = ({ curves }) => {
             .y(d => y(d.survivalProbability))
             .curve(d3.curveStepAfter);
 
+        // Greenwood confidence bands
+        if (showConfidenceBands) {
+            const bandGenerator = d3.area<SurvivalCurvePoint>()
+                .x(d => x(d.time))
+                .y0(d => y(d.lower))
+                .y1(d => y(d.upper))
+                .curve(d3.curveStepAfter);
+            curves.forEach(curve => {
+                svg.append('path')
+                    .datum(curve.data)
+                    .attr('fill', curve.color)
+                    .attr('opacity', 0.15)
+                    .attr('d', bandGenerator);
+            });
+        }
+
         // Draw curves
         curves.forEach(curve => {
             svg.append('path')
@@ -91,6 +108,17 @@ const SurvivalCurveChart: React.FC<SurvivalCurveChartProps> = ({ curves }) => {
                 .attr('stroke', curve.color)
                 .attr('stroke-width', 2.5)
                 .attr('d', lineGenerator);
+
+            // Censoring marks
+            svg.append('g').selectAll('line')
+                .data(curve.data.filter(d => d.censored > 0))
+                .join('line')
+                .attr('x1', d => x(d.time))
+                .attr('x2', d => x(d.time))
+                .attr('y1', d => y(d.survivalProbability) - 4)
+                .attr('y2', d => y(d.survivalProbability) + 4)
+                .attr('stroke', curve.color)
+                .attr('stroke-width', 1.5);
         });
         
         // Legend
@@ -114,7 +142,7 @@ const SurvivalCurveChart: React.FC<SurvivalCurveChartProps> = ({ curves }) => {
                 .style('font-size', '12px');
         });
 
-    }, [curves]);
+    }, [curves, showConfidenceBands]);
 
     return <svg ref={svgRef}></svg>;
 };
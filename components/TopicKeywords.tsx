@@ -22,15 +22,23 @@ const TopicKeywords: React.FC<TopicKeywordsProps> = ({ topics, selectedTopicId,
                         onKeyDown={(e) => e.key === 'Enter' && onTopicSelect(topic.id)}
                         aria-pressed={selectedTopicId === topic.id}
                     >
-                        <h4 className="font-bold text-slate-200 mb-2 truncate">
-                            {topic.name ? topic.name : `Topic ${topic.id + 1}`}
-                        </h4>
+                        <div className="flex justify-between items-baseline mb-2 gap-2">
+                            <h4 className="font-bold text-slate-200 truncate">
+                                {topic.name ? topic.name : `Topic ${topic.id + 1}`}
+                            </h4>
+                            {topic.prevalence !== undefined && (
+                                <span className="text-xs font-mono text-slate-400 whitespace-nowrap">
+                                    {(topic.prevalence * 100).toFixed(0)}% · coh {topic.coherence?.toFixed(1)}
+                                </span>
+                            )}
+                        </div>
                         <div className="flex flex-wrap gap-2">
                             {topic.keywords.map(kw => (
                                 <span 
                                     key={kw.text} 
                                     className="bg-slate-800 text-orange-300 text-xs font-medium px-2.5 py-1 rounded-full"
-                                    style={{ opacity: 0.6 + kw.weight * 0.4 }}
+                                    style={{ opacity: 0.6 + (kw.weight / topic.keywords[0].weight) * 0.4 }}
+                                    title={`p(word | topic) = ${kw.weight.toFixed(3)}`}
                                 >
                                     {kw.text}
                                 </span>
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { LDAResult, Topic } from '../types';
-import { calculateLda } from '../services/statisticsService';
+import { calculateLda, splitCorpus, SAMPLE_FORUM_POSTS } from '../services/statisticsService';
 import { getTopicModelingExplanation, getChatResponse } from '../services/geminiService';
 import TopicKeywords from './TopicKeywords';
 import DocumentViewer from './DocumentViewer';
@@ -26,8 +26,14 @@ const Slider: React.FC<{ label: string, value: number, min: number, max: number,
 
 
 const TopicModelingAnalysis: React.FC<TopicModelingAnalysisProps> = ({ onBack }) => {
-    const [numTopics, setNumTopics] = useState(3);
+    const [numTopics, setNumTopics] = useState(4);
+    const [alpha, setAlpha] = useState(0.1);
+    const [beta, setBeta] = useState(0.01);
+    const [iterations, setIterations] = useState(500);
+    const [corpus, setCorpus] = useState<string[]>(SAMPLE_FORUM_POSTS);
+    const [corpusText, setCorpusText] = useState(SAMPLE_FORUM_POSTS.join('\n'));
     const [ldaResult, setLdaResult] = useState<LDAResult | null>(null);
+    const [fitCount, setFitCount] = useState(0);
     const [selectedTopicId, setSelectedTopicId] = useState<number | null>(null);
 
     // Chat state
@@ -37,10 +43,20 @@ const TopicModelingAnalysis: React.FC<TopicModelingAnalysisProps> = ({ onBack })
     const [isChatLoading, setIsChatLoading] = useState(false);
 
     useEffect(() => {
-        const result = calculateLda(numTopics);
+        if (corpus.length < 2) return;
+        const result = calculateLda(corpus, numTopics, { alpha, beta, iterations });
         setLdaResult(result);
+        setFitCount(c => c + 1);
         setSelectedTopicId(0); // Select the first topic by default
-    }, [numTopics]);
+    }, [corpus, numTopics, alpha, beta, iterations]);
+
+    const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => setCorpusText(String(reader.result ?? ''));
+        reader.readAsText(file);
+    };
 
     useEffect(() => {
         if (!ldaResult) return;
@@ -73,7 +89,7 @@ const TopicModelingAnalysis: React.FC<TopicModelingAnalysisProps> = ({ onBack })
         const handler = setTimeout(fetchTopicLabels, 1000); // Small delay
         return () => clearTimeout(handler);
 
-    }, [ldaResult?.topics.length]); // Re-run only when the number of topics changes
+    }, [fitCount]); // Re-run only when a new model has been fitted
 
     const handleSendMessage = useCallback(async (msg: string) => {
         setIsChatLoading(true);
@@ -83,8 +99,11 @@ const TopicModelingAnalysis: React.FC<TopicModelingAnalysisProps> = ({ onBack })
         const keywords = activeTopic?.keywords.map(k => k.text).join(', ');
 
         const context = `
-            We are performing Topic Modeling (Latent Dirichlet Allocation).
-            Number of Topics: ${numTopics}
+            We are performing Topic Modeling (Latent Dirichlet Allocation) with collapsed Gibbs sampling.
+            Corpus: ${corpus.length} documents, ${ldaResult?.tokenCount} tokens, vocabulary of ${ldaResult?.vocabularySize} words
+            Number of Topics: ${numTopics}, alpha: ${alpha}, beta: ${beta}, iterations: ${iterations}
+            Perplexity: ${ldaResult?.perplexity.toFixed(1)}, Mean UMass Coherence: ${ldaResult?.coherence.toFixed(2)}
+            All Topics: ${ldaResult?.topics.map(t => `${t.name || `Topic ${t.id + 1}`} (${((t.prevalence ?? 0) * 100).toFixed(0)}% of tokens, coherence ${t.coherence?.toFixed(1)}): ${t.keywords.map(k => k.text).join(', ')}`).join('; ')}
             Currently Selected Topic: ${activeTopic?.name || 'Unknown'}
             Keywords for Selected Topic: ${keywords}
             
@@ -101,7 +120,7 @@ const TopicModelingAnalysis: React.FC<TopicModelingAnalysisProps> = ({ onBack })
         } finally {
             setIsChatLoading(false);
         }
-    }, [numTopics, ldaResult, selectedTopicId]);
+    }, [numTopics, alpha, beta, iterations, corpus, ldaResult, selectedTopicId]);
 
     return (
         <div className="w-full max-w-7xl mx-auto">
@@ -109,7 +128,7 @@ const TopicModelingAnalysis: React.FC<TopicModelingAnalysisProps> = ({ onBack })
                 <button onClick={onBack} className="text-orange-400 hover:text-orange-300 mb-4 inline-block">&larr; Back to Portal</button>
                 <div className="text-center">
                     <h1 className="text-4xl font-bold text-orange-400">Topic Modeling (LDA)</h1>
-                    <p className="text-slate-400 mt-2">Discover hidden themes in text data by adjusting the number of topics.</p>
+                    <p className="text-slate-400 mt-2">Discover hidden themes in your own text data by adjusting the number of topics and the Dirichlet priors.</p>
                 </div>
             </header>
 
@@ -117,7 +136,29 @@ const TopicModelingAnalysis: React.FC<TopicModelingAnalysisProps> = ({ onBack })
                 <div className="lg:col-span-2 flex flex-col space-y-8 self-start">
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-4">
                         <h3 className="text-lg font-semibold text-orange-400 mb-2">Controls</h3>
-                        <Slider label="Number of Topics (K)" value={numTopics} min={2} max={5} step={1} onChange={(e) => setNumTopics(+e.target.value)} />
+                        <Slider label="Number of Topics (K)" value={numTopics} min={2} max={10} step={1} onChange={(e) => setNumTopics(+e.target.value)} />
+                        <Slider label="α (document-topic prior)" value={alpha} min={0.01} max={2} step={0.01} onChange={(e) => setAlpha(+e.target.value)} />
+                        <Slider label="β (topic-word prior)" value={beta} min={0.001} max={0.5} step={0.001} onChange={(e) => setBeta(+e.target.value)} />
+                        <Slider label="Gibbs Iterations" value={iterations} min={100} max={2000} step={100} onChange={(e) => setIterations(+e.target.value)} />
+                        {ldaResult && (
+                            <div className="grid grid-cols-2 gap-2 text-sm pt-2">
+                                <div className="bg-slate-900 rounded p-2"><div className="text-slate-400 text-xs">Perplexity</div><div className="font-mono text-slate-200">{ldaResult.perplexity.toFixed(1)}</div></div>
+                                <div className="bg-slate-900 rounded p-2"><div className="text-slate-400 text-xs">Mean Coherence (UMass)</div><div className="font-mono text-slate-200">{ldaResult.coherence.toFixed(2)}</div></div>
+                                <div className="bg-slate-900 rounded p-2"><div className="text-slate-400 text-xs">Documents</div><div className="font-mono text-slate-200">{ldaResult.documents.length}</div></div>
+                                <div className="bg-slate-900 rounded p-2"><div className="text-slate-400 text-xs">Vocabulary / Tokens</div><div className="font-mono text-slate-200">{ldaResult.vocabularySize} / {ldaResult.tokenCount}</div></div>
+                            </div>
+                        )}
+                        <p className="text-xs text-slate-500">Lower perplexity means the model predicts the words better; coherence closer to 0 means a topic's top words tend to appear in the same documents.</p>
+                    </div>
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-3">
+                        <h3 className="text-lg font-semibold text-orange-400 mb-2">Corpus</h3>
+                        <textarea value={corpusText} onChange={e => setCorpusText(e.target.value)} rows={6} className="w-full bg-slate-900 text-slate-300 text-xs rounded p-2" />
+                        <p className="text-xs text-slate-500">One document per line, or separate longer documents with a blank line. Stopwords are removed and words in fewer than two documents are ignored.</p>
+                        <input type="file" accept=".txt,.csv" onChange={handleFileUpload} className="block w-full text-xs text-slate-400 file:mr-2 file:py-1 file:px-2 file:rounded file:border-0 file:bg-slate-700 file:text-slate-200" />
+                        <div className="flex gap-2">
+                            <button onClick={() => setCorpus(splitCorpus(corpusText))} className="flex-1 text-sm bg-orange-600 hover:bg-orange-500 text-white py-2 rounded">Fit Topics</button>
+                            <button onClick={() => { setCorpusText(SAMPLE_FORUM_POSTS.join('\n')); setCorpus(SAMPLE_FORUM_POSTS); }} className="flex-1 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 py-2 rounded">Sample Forum Posts</button>
+                        </div>
                     </div>
                     {ldaResult && (
                         <TopicKeywords
@@ -6,6 +6,8 @@ interface TransitionGraphProps {
     title: string;
     result: LagAnalysisResult;
     actions: StudentAction[];
+    alpha?: number;
+    holmCorrection?: boolean; // test each edge against Holm-adjusted p-values
 }
 
 const actionMap: Record<StudentAction, { emoji: string; name: string }> = {
@@ -20,25 +22,26 @@ const actionMap: Record<StudentAction, { emoji: string; name: string }> = {
 // FIX: Define a type that combines the local node data with D3's simulation data for type safety.
 type SimulationNode = { id: StudentAction } & d3.SimulationNodeDatum;
 
-const TransitionGraph: React.FC<TransitionGraphProps> = ({ title, result, actions }) => {
+const TransitionGraph: React.FC<TransitionGraphProps> = ({ title, result, actions, alpha = 0.05, holmCorrection = false }) => {
     const svgRef = useRef<SVGSVGElement | null>(null);
     const containerRef = useRef<HTMLDivElement | null>(null);
 
     const { nodes, links } = useMemo(() => {
         const nodes = actions.map(id => ({ id }));
-        const links: { source: string; target: string; z: number }[] = [];
-        const significanceThreshold = 1.96; // Z-score for p < 0.05
+        const links: { source: string; target: string; z: number; q: number; probability: number; p: number }[] = [];
+        const pValues = holmCorrection ? result.adjustedPValues : result.pValues;
 
+        // Only transitions whose adjusted residual is significant; never-observed transitions can be significantly negative
         for (const from of actions) {
             for (const to of actions) {
-                const z = result.zScores[from]?.[to] || 0;
-                if (Math.abs(z) > significanceThreshold) {
-                    links.push({ source: from, target: to, z });
+                const p = pValues[from]?.[to] ?? 1;
+                if (p < alpha) {
+                    links.push({ source: from, target: to, z: result.zScores[from][to], q: result.yulesQ[from][to], probability: result.transitionProbabilities[from][to], p });
                 }
             }
         }
         return { nodes, links };
-    }, [result, actions]);
+    }, [result, actions, alpha, holmCorrection]);
 
     useEffect(() => {
         if (!svgRef.current || !containerRef.current) return;
@@ -72,8 +75,11 @@ const TransitionGraph: React.FC<TransitionGraphProps> = ({ title, result, action
             .join('path')
             .attr('stroke-width', d => Math.min(Math.abs(d.z) / 2, 5))
             .attr('stroke', d => d.z > 0 ? 'rgb(59 130 246)' : 'rgb(239 68 68)')
+            .attr('fill', 'none')
             .attr('marker-end', d => d.z > 0 ? 'url(#arrow-positive)' : 'url(#arrow-negative)');
 
+        link.append('title').text((d: any) => `${d.source.id} → ${d.target.id}\nz = ${d.z.toFixed(2)}, Yule's Q = ${d.q.toFixed(2)}\nP(${d.target.id} | ${d.source.id}) = ${d.probability.toFixed(2)}`);
+
         const node = svg.append('g').selectAll('g')
             .data(nodes)
             .join('g')
@@ -88,9 +94,12 @@ const TransitionGraph: React.FC<TransitionGraphProps> = ({ title, result, action
 
         simulation.on('tick', () => {
             link.attr('d', (d: any) => {
-                const dx = d.target.x - d.source.x, dy = d.target.y - d.source.y;
-                const dr = d.source.id === d.target.id ? 50 : 0; // self-loop
-                return `M${d.source.x},${d.source.y}A${dr},${dr} 0 0,1 ${d.target.x},${d.target.y}`;
+                // An arc between identical points is not drawn, so a self-loop is a curve out of the node and back
+                if (d.source.id === d.target.id) {
+                    const { x, y } = d.source;
+                    return `M${x},${y}C${x - 70},${y - 90} ${x + 70},${y - 90} ${x},${y}`;
+                }
+                return `M${d.source.x},${d.source.y}L${d.target.x},${d.target.y}`;
             });
             // FIX: Use the SimulationNode type, which includes x and y properties, to resolve the type error.
             node.attr('transform', (d: SimulationNode) => `translate(${d.x},${d.y})`);
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { StudentFeatures, PredictionResult } from '../types';
-import { calculateXaiPrediction } from '../services/statisticsService';
+import { PredictionResult } from '../types';
+import { generateStudentOutcomeData, trainBoostedTrees, explainPrediction, explainModelGlobally, parseNumericTable, shuffle, STUDENT_FEATURE_NAMES } from '../services/statisticsService';
 import { getChatResponse } from '../services/geminiService';
 import PredictionGauge from './PredictionGauge';
 import ContributionBars from './ContributionBars';
@@ -10,19 +10,25 @@ interface XAIAnalysisProps {
     onBack: () => void;
 }
 
-const initialFeatures: StudentFeatures = {
-    assignmentCompletion: 75,
-    quizScores: 80,
-    forumParticipation: 60,
-    absences: 20,
-    procrastination: 30,
+const SAMPLE_SIZE = 600;
+const OUTCOME = 'passed';
+const BACKGROUND_SIZE = 50; // reference students the SHAP values are measured against
+const SUMMARY_SIZE = 200; // students used for the global explanations
+
+const formatFeature = (feature: string) => {
+    const spaced = feature.replace(/([A-Z])/g, ' $1').replace(/[_-]+/g, ' ').trim();
+    return spaced.charAt(0).toUpperCase() + spaced.slice(1);
 };
 
+const sampleRows = <T,>(rows: T[], size: number): T[] => shuffle(rows).slice(0, size);
+
 const FeatureSlider: React.FC<{
     label: string;
     value: number;
+    min: number;
+    max: number;
     onChange: (value: number) => void;
-}> = ({ label, value, onChange }) => (
+}> = ({ label, value, min, max, onChange }) => (
     <div>
         <label className="flex justify-between text-sm text-slate-400">
             <span>{label}</span>
@@ -30,11 +36,11 @@ const FeatureSlider: React.FC<{
         </label>
         <input
             type="range"
-            min={0}
-            max={100}
-            step={1}
+            min={min}
+            max={max}
+            step={max - min > 20 ? 1 : (max - min) / 100}
             value={value}
-            onChange={(e) => onChange(parseInt(e.target.value, 10))}
+            onChange={(e) => onChange(parseFloat(e.target.value))}
             className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer"
         />
     </div>
@@ -42,23 +48,68 @@ const FeatureSlider: React.FC<{
 
 
 const XAIAnalysis: React.FC<XAIAnalysisProps> = ({ onBack }) => {
-    const [features, setFeatures] = useState<StudentFeatures>(initialFeatures);
+    const [dataset, setDataset] = useState(() => ({
+        rows: generateStudentOutcomeData(SAMPLE_SIZE),
+        featureNames: STUDENT_FEATURE_NAMES as string[],
+        outcome: OUTCOME
+    }));
+    const [features, setFeatures] = useState<Record<string, number>>({});
     const [predictionResult, setPredictionResult] = useState<PredictionResult | null>(null);
 
+    // Uploaded data
+    const [uploadText, setUploadText] = useState('');
+    const [uploadMessage, setUploadMessage] = useState<string | null>(null);
+
     // Chat state
     const [chatHistory, setChatHistory] = useState<Message[]>([
         { text: "Hello! I'm Dr. Gem. I can explain why the AI predicts this student's success probability. Try changing the student's profile to see how the factors change!", role: 'model' }
     ]);
     const [isChatLoading, setIsChatLoading] = useState(false);
 
-    const handleFeatureChange = useCallback((feature: keyof StudentFeatures, value: number) => {
+    const handleFeatureChange = useCallback((feature: string, value: number) => {
         setFeatures(prev => ({ ...prev, [feature]: value }));
     }, []);
 
+    const { model, performance } = useMemo(() => trainBoostedTrees(dataset.rows, dataset.featureNames, dataset.outcome), [dataset]);
+    const background = useMemo(() => sampleRows(dataset.rows, BACKGROUND_SIZE), [dataset]);
+    const globalSummary = useMemo(() => explainModelGlobally(model, sampleRows(dataset.rows, SUMMARY_SIZE), background), [model, dataset, background]);
+
+    const featureRanges = useMemo(() => Object.fromEntries(dataset.featureNames.map(f => {
+        const values = dataset.rows.map(r => r[f]).sort((a, b) => a - b);
+        return [f, { min: values[0], max: values[values.length - 1], median: values[Math.floor(values.length / 2)] }];
+    })), [dataset]);
+
+    // Start each new dataset from the median student
     useEffect(() => {
-        const result = calculateXaiPrediction(features);
-        setPredictionResult(result);
-    }, [features]);
+        setFeatures(Object.fromEntries(dataset.featureNames.map(f => [f, featureRanges[f].median])));
+    }, [dataset, featureRanges]);
+
+    useEffect(() => {
+        if (!dataset.featureNames.every(f => features[f] !== undefined)) return;
+        setPredictionResult(explainPrediction(model, features, background));
+    }, [features, model, background, dataset]);
+
+    const handleLoadData = () => {
+        const table = parseNumericTable(uploadText);
+        const outcome = table.columns[table.columns.length - 1];
+        const featureNames = table.columns.slice(0, -1);
+        const labels = new Set(table.rows.map(r => r[outcome]));
+        if (featureNames.length < 1 || table.rows.length < 50) {
+            setUploadMessage('Paste a header row and at least 50 numeric rows, with the 0/1 outcome in the last column.');
+            return;
+        }
+        if (labels.size !== 2 || !labels.has(0) || !labels.has(1)) {
+            setUploadMessage(`The last column (${outcome}) must be coded 0/1.`);
+            return;
+        }
+        setDataset({ rows: table.rows, featureNames, outcome });
+        setUploadMessage(`Trained on ${table.rows.length} students with ${featureNames.length} features predicting "${outcome}"${table.skippedRows > 0 ? ` (${table.skippedRows} incomplete rows dropped)` : ''}.`);
+    };
+
+    const handleUseSampleData = () => {
+        setDataset({ rows: generateStudentOutcomeData(SAMPLE_SIZE), featureNames: STUDENT_FEATURE_NAMES as string[], outcome: OUTCOME });
+        setUploadMessage(null);
+    };
 
     const { positiveContributions, negativeContributions } = useMemo(() => {
         if (!predictionResult) return { positiveContributions: [], negativeContributions: [] };
@@ -72,19 +123,20 @@ const XAIAnalysis: React.FC<XAIAnalysisProps> = ({ onBack }) => {
         setIsChatLoading(true);
         setChatHistory(prev => [...prev, { text: msg, role: 'user' }]);
 
-        const topPositive = positiveContributions.slice(0, 2).map(c => c.feature).join(', ');
-        const topNegative = negativeContributions.slice(0, 2).map(c => c.feature).join(', ');
+        const topPositive = positiveContributions.slice(0, 2).map(c => `${formatFeature(c.feature)} (+${c.value.toFixed(2)})`).join(', ');
+        const topNegative = negativeContributions.slice(0, 2).map(c => `${formatFeature(c.feature)} (${c.value.toFixed(2)})`).join(', ');
 
         const context = `
-            We are performing Explainable AI (XAI) analysis on a student success prediction model (SHAP-like values).
-            Current Predicted Probability: ${(predictionResult?.prediction || 0).toFixed(0)}%
-            Top Positive Factors: ${topPositive}
-            Top Negative Factors: ${topNegative}
+            We are performing Explainable AI (XAI) analysis on a gradient-boosted tree model (${model.trees.length} trees) that predicts "${dataset.outcome}".
+            Held-out performance: accuracy ${(performance.testAccuracy * 100).toFixed(1)}%, AUC ${performance.testAuc.toFixed(3)}
+            Explanations are exact interventional TreeSHAP values on the log-odds scale, measured against ${background.length} background students.
+            Current Predicted Probability: ${(predictionResult?.prediction || 0).toFixed(0)}% (average student: ${(predictionResult?.baseValue || 0).toFixed(0)}%)
+            Top Positive Factors: ${topPositive || 'None'}
+            Top Negative Factors: ${topNegative || 'None'}
+            Global Feature Importance (mean |SHAP|): ${globalSummary.importance.map(i => `${formatFeature(i.feature)} ${i.value.toFixed(2)}`).join(', ')}
             
             Student Profile:
-            - Assignment Completion: ${features.assignmentCompletion}
-            - Quiz Scores: ${features.quizScores}
-            - Absences: ${features.absences}
+            ${dataset.featureNames.map(f => `- ${formatFeature(f)}: ${features[f]}`).join('\n            ')}
             
             User Question: ${msg}
             
@@ -99,7 +151,7 @@ const XAIAnalysis: React.FC<XAIAnalysisProps> = ({ onBack }) => {
         } finally {
             setIsChatLoading(false);
         }
-    }, [predictionResult, features, positiveContributions, negativeContributions]);
+    }, [predictionResult, features, positiveContributions, negativeContributions, model, performance, background, globalSummary, dataset]);
 
     return (
         <div className="w-full max-w-6xl mx-auto">
@@ -114,11 +166,27 @@ const XAIAnalysis: React.FC<XAIAnalysisProps> = ({ onBack }) => {
             <main className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                 <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-4">
                     <h3 className="text-lg font-semibold text-blue-400 mb-2">Student Profile</h3>
-                    <FeatureSlider label="Assignment Completion" value={features.assignmentCompletion} onChange={v => handleFeatureChange('assignmentCompletion', v)} />
-                    <FeatureSlider label="Quiz Scores" value={features.quizScores} onChange={v => handleFeatureChange('quizScores', v)} />
-                    <FeatureSlider label="Forum Participation" value={features.forumParticipation} onChange={v => handleFeatureChange('forumParticipation', v)} />
-                    <FeatureSlider label="Absences" value={features.absences} onChange={v => handleFeatureChange('absences', v)} />
-                    <FeatureSlider label="Procrastination" value={features.procrastination} onChange={v => handleFeatureChange('procrastination', v)} />
+                    {dataset.featureNames.map(f => features[f] !== undefined && (
+                        <FeatureSlider key={f} label={formatFeature(f)} value={features[f]} min={featureRanges[f].min} max={featureRanges[f].max} onChange={v => handleFeatureChange(f, v)} />
+                    ))}
+                    <div className="pt-4 border-t border-slate-700">
+                        <h3 className="text-lg font-semibold text-blue-400 mb-2">Model</h3>
+                        <div className="grid grid-cols-2 gap-2 text-sm">
+                            <div className="bg-slate-900 rounded p-2"><div className="text-slate-400 text-xs">Boosted Trees</div><div className="font-mono text-slate-200">{model.trees.length} × depth 3</div></div>
+                            <div className="bg-slate-900 rounded p-2"><div className="text-slate-400 text-xs">Train / Test Students</div><div className="font-mono text-slate-200">{performance.trainSize} / {performance.testSize}</div></div>
+                            <div className="bg-slate-900 rounded p-2"><div className="text-slate-400 text-xs">Test Accuracy</div><div className="font-mono text-slate-200">{(performance.testAccuracy * 100).toFixed(1)}% <span className="text-slate-500">(train {(performance.trainAccuracy * 100).toFixed(1)}%)</span></div></div>
+                            <div className="bg-slate-900 rounded p-2"><div className="text-slate-400 text-xs">Test AUC</div><div className="font-mono text-slate-200">{performance.testAuc.toFixed(3)}</div></div>
+                        </div>
+                    </div>
+                    <div className="pt-4 border-t border-slate-700">
+                        <h3 className="text-lg font-semibold text-blue-400 mb-2">Your Data</h3>
+                        <textarea value={uploadText} onChange={e => setUploadText(e.target.value)} rows={4} placeholder={'attendance,homework,passed\n92,80,1\n55,40,0'} className="w-full bg-slate-900 text-slate-200 text-xs font-mono rounded p-2" />
+                        <div className="flex gap-2 mt-2">
+                            <button onClick={handleLoadData} className="flex-1 text-sm bg-blue-600 hover:bg-blue-500 text-white py-2 rounded">Train on My Data</button>
+                            <button onClick={handleUseSampleData} className="flex-1 text-sm bg-slate-700 hover:bg-slate-600 text-slate-200 py-2 rounded">Simulated Class</button>
+                        </div>
+                        <p className="text-xs text-slate-500 mt-1">{uploadMessage ?? 'Paste CSV with numeric features and a 0/1 outcome in the last column.'}</p>
+                    </div>
                 </div>
                 <div className="flex flex-col space-y-8">
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg flex flex-col items-center">
@@ -126,11 +194,8 @@ const XAIAnalysis: React.FC<XAIAnalysisProps> = ({ onBack }) => {
                         {predictionResult && <PredictionGauge prediction={predictionResult.prediction} baseValue={predictionResult.baseValue} />}
                     </div>
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
-                        <h3 className="text-lg font-semibold text-blue-400 mb-4 text-center">Prediction Factors</h3>
-                        <div className="grid grid-cols-2 gap-6">
-                            <ContributionBars title="Positive Factors (+)" contributions={positiveContributions} color="rgb(34 197 94)" />
-                            <ContributionBars title="Negative Factors (-)" contributions={negativeContributions} color="rgb(239 68 68)" />
-                        </div>
+                        <h3 className="text-lg font-semibold text-blue-400 mb-4 text-center">Prediction Factors (SHAP)</h3>
+                        {predictionResult && <ContributionBars prediction={predictionResult} globalSummary={globalSummary} formatFeature={formatFeature} />}
                     </div>
 
                     <div className="h-[500px]">
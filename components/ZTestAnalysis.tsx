@@ -1,7 +1,8 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { DistributionParams } from '../types';
-import { calculateZTest, calculateMean2ForPValue } from '../services/statisticsService';
+import { DistributionParams, TTestResult } from '../types';
+import { calculateZTest, calculateMean2ForPValue, independentTTest, pairedTTest } from '../services/statisticsService';
+import { normalRandom } from '../services/distributionService';
 import { getPValueExplanation } from '../services/geminiService';
 import { logEvent } from '../services/loggingService';
 import DistributionChart from './DistributionChart';
@@ -34,6 +35,11 @@ const Slider: React.FC<{ label: string, value: number, min: number, max: number,
     </div>
 );
 
+type SampleDesign = 'welch' | 'student' | 'paired';
+
+const PAIRED_CORRELATION = 0.7; // the same students measured twice
+
+const formatPValue = (p: number) => (p < 0.001 && p !== 0 ? p.toExponential(2) : p.toFixed(4));
 
 const ZTestAnalysis: React.FC<ZTestAnalysisProps> = ({ onBack, customTitle, customContext }) => {
     const [dist1, setDist1] = useState<DistributionParams>({ mean: 45, stdDev: 10, size: 100 });
@@ -46,6 +52,27 @@ const ZTestAnalysis: React.FC<ZTestAnalysisProps> = ({ onBack, customTitle, cust
     const [isChatLoading, setIsChatLoading] = useState(false);
     const [logPValue, setLogPValue] = useState(0); // For the log-scale slider, from 0 to 4 (p=1 to 0.0001)
 
+    // Raw samples drawn from the two populations, tested with a t-test
+    const [design, setDesign] = useState<SampleDesign>('welch');
+    const [sampleDraw, setSampleDraw] = useState(0);
+
+    const samples = useMemo(() => {
+        const x: number[] = [];
+        const y: number[] = [];
+        for (let i = 0; i < dist1.size; i++) {
+            const z1 = normalRandom(0, 1);
+            const z2 = design === 'paired' ? PAIRED_CORRELATION * z1 + Math.sqrt(1 - PAIRED_CORRELATION ** 2) * normalRandom(0, 1) : normalRandom(0, 1);
+            x.push(dist1.mean + dist1.stdDev * z1);
+            if (i < dist2.size) y.push(dist2.mean + dist2.stdDev * z2);
+        }
+        return { x, y };
+    }, [dist1, dist2, design, sampleDraw]);
+
+    const tTest: TTestResult = useMemo(() => (
+        design === 'paired' ? pairedTTest(samples.x, samples.y)
+            : independentTTest(samples.x, samples.y, design === 'student')
+    ), [samples, design]);
+
     const distributionsForChart = useMemo(() => [
         { mean: dist1.mean, stdDev: dist1.stdDev, color: 'rgb(34 211 238)' },
         { mean: dist2.mean, stdDev: dist2.stdDev, color: 'rgb(236 72 153)' },
@@ -72,6 +99,9 @@ const ZTestAnalysis: React.FC<ZTestAnalysisProps> = ({ onBack, customTitle, cust
             Group 1 (Control): Mean=${dist1.mean}, StdDev=${dist1.stdDev}, Size=${dist1.size}
             Group 2 (Experimental): Mean=${dist2.mean}, StdDev=${dist2.stdDev}, Size=${dist2.size}
             Result: Z-Score=${testResult.zScore.toFixed(3)}, p-value=${testResult.pValue.toExponential(4)}
+            Samples drawn from these populations (${design === 'paired' ? `paired, r = ${PAIRED_CORRELATION}` : design === 'student' ? 'independent, pooled variances' : 'independent, Welch'}):
+            Sample means ${tTest.means.map(m => m.toFixed(2)).join(' vs ')}, SDs ${tTest.sds.map(sd => sd.toFixed(2)).join(' vs ')}
+            t(${tTest.df.toFixed(1)}) = ${tTest.t.toFixed(3)}, p = ${formatPValue(tTest.pValue)}, difference (Group 1 - Group 2) = ${tTest.estimate.toFixed(2)}, 95% CI [${tTest.ciLower.toFixed(2)}, ${tTest.ciUpper.toFixed(2)}], Cohen's d = ${tTest.cohensD.toFixed(2)}, Hedges' g = ${tTest.hedgesG.toFixed(2)}
             User Context: ${customContext || 'General Z-Test Analysis'}
         `;
 
@@ -139,6 +169,7 @@ const ZTestAnalysis: React.FC<ZTestAnalysisProps> = ({ onBack, customTitle, cust
                                 <Slider label="Standard Deviation" value={dist2.stdDev} min={2} max={20} step={0.5} onChange={(e) => setDist2(d => ({ ...d, stdDev: +e.target.value }))} onMouseUp={() => logEvent('slider_change', 'ZTestAnalysis', { control: 'Group 2 StdDev', value: dist2.stdDev })} />
                             </div>
                         </div>
+                        <Slider label="Sample Size per Group" value={dist1.size} min={5} max={200} step={1} onChange={(e) => { const size = +e.target.value; setDist1(d => ({ ...d, size })); setDist2(d => ({ ...d, size })); }} onMouseUp={() => logEvent('slider_change', 'ZTestAnalysis', { control: 'Sample Size', value: dist1.size })} />
                     </div>
                     <div className="bg-slate-800 p-6 rounded-lg shadow-lg">
                         <h3 className="text-lg font-semibold text-cyan-400 mb-3">Test Results</h3>
@@ -173,6 +204,32 @@ const ZTestAnalysis: React.FC<ZTestAnalysisProps> = ({ onBack, customTitle, cust
                         </div>
                     </div>
 
+                    <div className="bg-slate-800 p-6 rounded-lg shadow-lg space-y-3">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-lg font-semibold text-cyan-400">t-Test on Samples</h3>
+                            <button onClick={() => { setSampleDraw(c => c + 1); logEvent('button_click', 'ZTestAnalysis', { action: 'draw_samples' }); }} className="text-sm bg-cyan-600 hover:bg-cyan-500 text-white px-3 py-1 rounded">Draw Samples</button>
+                        </div>
+                        <div className="flex bg-slate-700 rounded-lg p-1">
+                            {(['welch', 'student', 'paired'] as SampleDesign[]).map(d => (
+                                <button key={d} onClick={() => setDesign(d)} className={`flex-1 px-2 py-1 rounded-md text-xs transition-colors ${design === d ? 'bg-cyan-600 text-white' : 'text-slate-300 hover:text-white'}`}>
+                                    {d === 'welch' ? 'Welch' : d === 'student' ? 'Student' : 'Paired'}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="grid grid-cols-2 gap-y-1 text-sm text-slate-400">
+                            <span>Sample means (1 / 2)</span><span className="font-mono text-right text-slate-200">{tTest.means.map(m => m.toFixed(1)).join(' / ')}</span>
+                            <span>Sample SDs (1 / 2)</span><span className="font-mono text-right text-slate-200">{tTest.sds.map(sd => sd.toFixed(1)).join(' / ')}</span>
+                            <span>t({design === 'welch' ? tTest.df.toFixed(1) : tTest.df})</span><span className="font-mono text-right text-slate-200">{tTest.t.toFixed(3)}</span>
+                            <span>p-value</span><span className={`font-mono text-right ${tTest.pValue < 0.05 ? 'text-cyan-300 font-bold' : 'text-slate-200'}`}>{formatPValue(tTest.pValue)}</span>
+                            <span>Difference, 95% CI</span><span className="font-mono text-right text-slate-200">{tTest.estimate.toFixed(2)} [{tTest.ciLower.toFixed(2)}, {tTest.ciUpper.toFixed(2)}]</span>
+                            <span>{design === 'paired' ? 'Cohen\'s d_z' : 'Cohen\'s d'} / Hedges' g</span><span className="font-mono text-right text-slate-200">{tTest.cohensD.toFixed(2)} / {tTest.hedgesG.toFixed(2)}</span>
+                        </div>
+                        <p className="text-xs text-slate-500">
+                            The z-test above uses the true population SDs. A t-test only sees the sample, so it estimates the SDs
+                            {design === 'paired' ? ` and, for paired scores (r = ${PAIRED_CORRELATION}), tests the within-student differences.` : design === 'welch' ? ' separately and adjusts the df (Welch).' : ' and pools them into one (Student).'}
+                        </p>
+                    </div>
+
                     {/* Chat - constrained height with internal scroll */}
                     {/* Chat - fixed height to prevent clipping */}
                     <div className="h-[300px] rounded-lg">
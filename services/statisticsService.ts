@@ -1,6 +1,7 @@
 
 
-import { Point, RegressionLine, DistributionParams, HiddenState, Observation, HMMSequenceItem, GroupPoint, ContingencyTableData, ChiSquareResult, LogisticPoint, LogisticCurveParams, DecisionTreePoint, DecisionTreeNode, KMeansPoint, Centroid, PCA3DPoint, PCAResult, ValueTimePoint, LPAPoint, Profile, StudentSequence, StudentAction, FrequentPattern, TransitionMatrix, LagAnalysisResult, SurveyItem, FactorAnalysisResult, FactorLoading, Interaction, SNANode, SNALink, BKTParams, SurvivalDataPoint, SurvivalCurvePoint, SEMModel, FitIndices, PSMDataPoint, StudentFeatures, PredictionResult, FeatureContribution, MultimodalData, Bookmark, IRTParams, LDAResult, LdaDocument, Topic, Keyword, Participant, QualitativeTheme, RddPoint, RddResult, ResidualPoint } from '../types';
+import { Point, RegressionLine, DistributionParams, HMMSequenceItem, HMMParams, HMMPosterior, BaumWelchResult, GroupPoint, RandomEffectsStructure, FixedEffectEstimate, GroupEffectEstimate, MixedModelResult, ContingencyTableData, ChiSquareResult, AssociationEffectSize, LogisticPoint, LogisticCurveParams, LogisticCoefficient, LogisticRegressionResult, ConfusionMatrix, RocPoint, CalibrationBin, CalibrationResult, DecisionTreePoint, DecisionTreeNode, SplitCriterion, DecisionTreeOptions, PruningPathPoint, PruningResult, FeatureImportance, RandomForestModel, KMeansPoint, Centroid, ClusteringOptions, ClusteringResult, ClusterValidityRow, ClusterValidityResult, PCA3DPoint, PCAResult, ValueTimePoint, LPAPoint, Profile, LPACovarianceStructure, LPAFitResult, LPABootstrapTest, StudentSequence, StudentAction, FrequentPattern, SequentialPatternOptions, SequentialPattern, PatternContrast, TransitionMatrix, LagAnalysisResult, SurveyItem, FactorAnalysisResult, FactorLoading, FactorExtraction, FactorRotation, Interaction, SNANode, SNALink, SNANetworkMetrics, SNANetwork, SNASnapshot, BKTParams, BKTFitMethod, BKTFitResult, KTSkill, KTResponse, KTModelMetrics, PFACoefficient, KnowledgeTracingComparison, SurvivalDataPoint, SurvivalCurvePoint, KaplanMeierResult, LogRankResult, CoxCoefficient, SchoenfeldTest, CoxModelResult, SEMModel, SEMResult, SEMParameterEstimate, ModificationIndex, PSMDataPoint, PSMMatchingOptions, CovariateBalance, TreatmentEffectEstimate, StudentFeatures, PredictionResult, BoostedTreeNode, BoostedTreeModel, ModelPerformance, GlobalShapSummary, ShapDependencePoint, MultimodalData, Bookmark, IRTParams, IRTModelType, IRTItemEstimate, IRTPersonEstimate, IRTEstimationResult, LDAResult, LdaOptions, LdaDocument, Topic, Participant, QualitativeTheme, RddPoint, RddResult, RddKernel, RddOptions, RddFuzzyResult, RddSensitivityPoint, RddDensityTest, ResidualPoint, TTestKind, TestAlternative, TTestResult, NonparametricOptions, RankTestResult, BootstrapIntervalMethod, BootstrapOptions, BootstrapInterval, BootstrapResult, PermutationTestResult, DunnComparison, KruskalWallisResult, RankCorrelationResult, RegressionModelSpec, DesignMatrix, OLSCoefficient, RegressionDiagnostic, MultipleRegressionResult, NumericTable, AnovaResult, AnovaTableRow, PostHocComparison } from '../types';
+import { logGamma, normalCDF, normalQuantile, normalRandom, studentTCDF, studentTQuantile, fCDF, chiSquareCDF, noncentralChiSquareCDF, betaPDF, studentizedRangeCDF, studentizedRangeQuantile } from './distributionService';
 
 export const calculateCorrelation = (data: Point[]): number => {
   if (data.length < 2) return 0;
@@ -27,11 +28,8 @@ export const calculateCorrelation = (data: Point[]): number => {
 export const generateCorrelatedData = (count: number, targetCorrelation: number, spread: number = 15): Point[] => {
     const data: Point[] = [];
     for (let i = 0; i < count; i++) {
-        // Box-Muller transform for standard normal distribution
-        const u1 = Math.random();
-        const u2 = Math.random();
-        const z1 = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
-        const z2 = Math.sqrt(-2.0 * Math.log(u1)) * Math.sin(2.0 * Math.PI * u2);
+        const z1 = normalRandom(0, 1);
+        const z2 = normalRandom(0, 1);
 
         // Construct correlated variables
         // x_std is N(0,1)
@@ -107,14 +105,140 @@ export const calculateStandardError = (data: Point[], line: RegressionLine): num
     return Math.sqrt(ssRes / (data.length - 2));
 };
 
+// Multiple Regression Logic
+// OLS design from table rows: categorical predictors as 0/1 dummies against their lowest level, interactions as column products
+export const buildDesignMatrix = (rows: Record<string, number>[], spec: RegressionModelSpec): DesignMatrix => {
+    const categorical = new Set(spec.categorical ?? []);
+    const blocks = new Map<string, { names: string[], values: (row: Record<string, number>) => number[] }>();
+    spec.predictors.forEach(name => {
+        if (categorical.has(name)) {
+            const levels = [...new Set(rows.map(r => r[name]))].sort((a, b) => a - b).slice(1);
+            blocks.set(name, { names: levels.map(level => `${name}[${level}]`), values: row => levels.map(level => (row[name] === level ? 1 : 0)) });
+        } else {
+            blocks.set(name, { names: [name], values: row => [row[name]] });
+        }
+    });
+    const terms = spec.predictors.map(name => blocks.get(name)!);
+    (spec.interactions ?? []).forEach(([a, b]) => {
+        const first = blocks.get(a);
+        const second = blocks.get(b);
+        if (!first || !second || a === b) return;
+        terms.push({
+            names: first.names.flatMap(na => second.names.map(nb => `${na}:${nb}`)),
+            values: row => {
+                const vb = second.values(row);
+                return first.values(row).flatMap(va => vb.map(v => va * v));
+            }
+        });
+    });
+    return {
+        columns: terms.flatMap(term => term.names),
+        X: rows.map(row => terms.flatMap(term => term.values(row))),
+        y: rows.map(row => row[spec.response])
+    };
+};
+
+// OLS with t inference, the overall F-test, VIFs and case diagnostics (hat values, studentized residuals, Cook's D); null when rank-deficient
+export const fitMultipleRegression = (X: number[][], y: number[], predictorNames: string[]): MultipleRegressionResult | null => {
+    const n = y.length;
+    const design = X.map(row => [1, ...row]);
+    const p = predictorNames.length + 1;
+    const dfResidual = n - p;
+    if (dfResidual < 1) return null;
+
+    const XtX = Array.from({ length: p }, (_, j) => Array.from({ length: p }, (_, k) => design.reduce((sum, row) => sum + row[j] * row[k], 0)));
+    const XtXInverse = invertMatrix(XtX);
+    if (!XtXInverse) return null;
+    const Xty = Array.from({ length: p }, (_, j) => design.reduce((sum, row, i) => sum + row[j] * y[i], 0));
+    const beta = XtXInverse.map(row => row.reduce((sum, v, k) => sum + v * Xty[k], 0));
+
+    const fitted = design.map(row => row.reduce((sum, x, j) => sum + x * beta[j], 0));
+    const residuals = y.map((yi, i) => yi - fitted[i]);
+    const meanY = y.reduce((a, b) => a + b, 0) / n;
+    const ssResidual = residuals.reduce((sum, e) => sum + e * e, 0);
+    const ssTotal = y.reduce((sum, yi) => sum + (yi - meanY) ** 2, 0);
+    const sigma2 = ssResidual / dfResidual;
+    const dfModel = p - 1;
+    const rSquared = ssTotal > 0 ? 1 - ssResidual / ssTotal : 0;
+    const fStatistic = dfModel > 0 && sigma2 > 0 ? ((ssTotal - ssResidual) / dfModel) / sigma2 : 0;
+
+    // VIF_j is the j-th diagonal element of the inverse correlation matrix of the predictors
+    let vifs: number[] = new Array(dfModel).fill(1);
+    if (dfModel > 1) {
+        const means = predictorNames.map((_, j) => X.reduce((sum, row) => sum + row[j], 0) / n);
+        const centered = X.map(row => row.map((v, j) => v - means[j]));
+        const scales = predictorNames.map((_, j) => Math.sqrt(centered.reduce((sum, row) => sum + row[j] ** 2, 0)));
+        const correlation = predictorNames.map((_, j) => predictorNames.map((_, k) =>
+            centered.reduce((sum, row) => sum + row[j] * row[k], 0) / (scales[j] * scales[k])));
+        const inverse = invertMatrix(correlation);
+        vifs = inverse ? inverse.map((row, j) => row[j]) : vifs.map(() => Infinity);
+    }
+
+    const covariance = XtXInverse.map(row => row.map(v => v * sigma2));
+    const tCritical = studentTQuantile(0.975, dfResidual);
+    const coefficients: OLSCoefficient[] = beta.map((estimate, j) => {
+        const se = Math.sqrt(Math.max(covariance[j][j], 0));
+        const t = se > 0 ? estimate / se : 0;
+        return {
+            term: j === 0 ? '(Intercept)' : predictorNames[j - 1],
+            estimate,
+            se,
+            t,
+            p: se > 0 ? 2 * studentTCDF(Math.abs(t), dfResidual, false) : 1,
+            lower: estimate - tCritical * se,
+            upper: estimate + tCritical * se,
+            vif: j === 0 ? null : vifs[j - 1]
+        };
+    });
+
+    const diagnostics: RegressionDiagnostic[] = design.map((row, i) => {
+        const leverage = row.reduce((sum, xj, j) => sum + xj * XtXInverse[j].reduce((inner, v, k) => inner + v * row[k], 0), 0);
+        const residual = residuals[i];
+        const room = 1 - leverage;
+        const standardizedResidual = room > 1e-10 && sigma2 > 0 ? residual / Math.sqrt(sigma2 * room) : 0;
+        // Leave-one-out variance: ((n - p) s^2 - e_i^2 / (1 - h_i)) / (n - p - 1)
+        const looVariance = dfResidual > 1 && room > 1e-10 ? (ssResidual - residual * residual / room) / (dfResidual - 1) : 0;
+        const studentizedResidual = looVariance > 0 ? residual / Math.sqrt(looVariance * room) : 0;
+        const cooksDistance = room > 1e-10 ? (standardizedResidual ** 2 * leverage) / (p * room) : 0;
+        const bonferroniP = dfResidual > 1 ? Math.min(1, n * 2 * studentTCDF(Math.abs(studentizedResidual), dfResidual - 1, false)) : 1;
+        return {
+            index: i,
+            fitted: fitted[i],
+            residual,
+            leverage,
+            standardizedResidual,
+            studentizedResidual,
+            cooksDistance,
+            highLeverage: leverage > (2 * p) / n,
+            outlier: bonferroniP < 0.05,
+            influential: cooksDistance > 4 / n
+        };
+    });
+
+    return {
+        coefficients,
+        covariance,
+        n,
+        dfModel,
+        dfResidual,
+        rSquared,
+        adjustedRSquared: 1 - (1 - rSquared) * (n - 1) / dfResidual,
+        residualSE: Math.sqrt(sigma2),
+        fStatistic,
+        fPValue: dfModel > 0 ? fCDF(fStatistic, dfModel, dfResidual, false) : 1,
+        diagnostics
+    };
+};
+
+export const fitRegressionModel = (rows: Record<string, number>[], spec: RegressionModelSpec): MultipleRegressionResult | null => {
+    const design = buildDesignMatrix(rows, spec);
+    return fitMultipleRegression(design.X, design.y, design.columns);
+};
+
 export const generateSampleData = (mean: number, stdDev: number, count: number): number[] => {
     const data: number[] = [];
     for (let i = 0; i < count; i++) {
-        // Box-Muller transform
-        const u1 = Math.random();
-        const u2 = Math.random();
-        const z = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
-        data.push(mean + z * stdDev);
+        data.push(normalRandom(mean, stdDev));
     }
     return data;
 };
@@ -130,19 +254,8 @@ export const calculateConfidenceInterval = (data: number[], confidenceLevel: num
     const stdDev = Math.sqrt(variance);
     const stdError = stdDev / Math.sqrt(n);
     
-    // Z-score approximation for simplicity (strictly should be t-score for small n)
-    let zScore = 1.96; // Default 95%
-    if (confidenceLevel === 80) zScore = 1.282;
-    if (confidenceLevel === 85) zScore = 1.440;
-    if (confidenceLevel === 90) zScore = 1.645;
-    if (confidenceLevel === 95) zScore = 1.960;
-    if (confidenceLevel === 99) zScore = 2.576;
-    // Interpolate roughly for slider values
-    if (confidenceLevel > 80 && confidenceLevel < 99) {
-        // Simple linear-ish mapping for the slider demo
-        // Not statistically exact for all integers, but sufficient for the visual
-         zScore = 1.28 + (confidenceLevel - 80) * (2.576 - 1.28) / 19;
-    }
+    // Z-score interval (strictly should be t-score for small n)
+    const zScore = normalQuantile(0.5 + confidenceLevel / 200);
 
     return {
         sampleMean: mean,
@@ -161,13 +274,565 @@ export const calculateZTest = (dist1: DistributionParams, dist2: DistributionPar
     
     const zScore = meanDiff / standardError;
     
-    // Two-tailed p-value approximation
-    // Using a simple approximation for the error function or normal cdf
-    const pValue = 2 * (1 - normalCDF(Math.abs(zScore)));
+    // Two-tailed p-value
+    const pValue = 2 * normalCDF(Math.abs(zScore), 0, 1, false);
     
     return { zScore, pValue };
 };
 
+// t-Test Logic
+const summarizeSample = (data: number[]) => {
+    const mean = calculateMean(data);
+    return { n: data.length, mean, sd: Math.sqrt(calculateVariance(data)) };
+};
+
+// Shared tail and interval arithmetic; J = 1 - 3 / (4 df - 1) is Hedges' small-sample correction
+const completeTTest = (
+    kind: TTestKind, estimate: number, standardError: number, df: number, cohensD: number, correctionDf: number,
+    samples: { n: number, mean: number, sd: number }[], alternative: TestAlternative, confidenceLevel: number
+): TTestResult => {
+    const t = standardError > 0 ? estimate / standardError : 0;
+    const pValue = standardError === 0 ? 1
+        : alternative === 'two-sided' ? Math.min(1, 2 * studentTCDF(Math.abs(t), df, false))
+        : alternative === 'greater' ? studentTCDF(t, df, false)
+        : studentTCDF(t, df);
+    const margin = (q: number) => studentTQuantile(q, df) * standardError;
+    const ciLower = alternative === 'less' ? -Infinity : estimate - margin(alternative === 'two-sided' ? (1 + confidenceLevel) / 2 : confidenceLevel);
+    const ciUpper = alternative === 'greater' ? Infinity : estimate + margin(alternative === 'two-sided' ? (1 + confidenceLevel) / 2 : confidenceLevel);
+    return {
+        kind,
+        alternative,
+        t,
+        df,
+        pValue,
+        estimate,
+        standardError,
+        ciLower,
+        ciUpper,
+        confidenceLevel,
+        cohensD,
+        hedgesG: cohensD * (1 - 3 / (4 * correctionDf - 1)),
+        n: samples.map(s => s.n),
+        means: samples.map(s => s.mean),
+        sds: samples.map(s => s.sd)
+    };
+};
+
+// One-sample t-test of H0: mean = mu0; d = (mean - mu0) / sd
+export const oneSampleTTest = (data: number[], mu0: number = 0, alternative: TestAlternative = 'two-sided', confidenceLevel: number = 0.95): TTestResult => {
+    const s = summarizeSample(data);
+    const se = s.sd / Math.sqrt(s.n);
+    return completeTTest('oneSample', s.mean - mu0, se, s.n - 1, s.sd > 0 ? (s.mean - mu0) / s.sd : 0, s.n - 1, [s], alternative, confidenceLevel);
+};
+
+// Student (pooled) or Welch (Satterthwaite df) t-test of mean(x) - mean(y); Welch's d uses the root mean of the two variances
+export const independentTTest = (x: number[], y: number[], equalVariances: boolean = false, alternative: TestAlternative = 'two-sided', confidenceLevel: number = 0.95): TTestResult => {
+    const a = summarizeSample(x);
+    const b = summarizeSample(y);
+    const estimate = a.mean - b.mean;
+    const pooledDf = a.n + b.n - 2;
+    const va = a.sd * a.sd;
+    const vb = b.sd * b.sd;
+    if (equalVariances) {
+        const pooledVariance = ((a.n - 1) * va + (b.n - 1) * vb) / pooledDf;
+        const se = Math.sqrt(pooledVariance * (1 / a.n + 1 / b.n));
+        return completeTTest('student', estimate, se, pooledDf, pooledVariance > 0 ? estimate / Math.sqrt(pooledVariance) : 0, pooledDf, [a, b], alternative, confidenceLevel);
+    }
+    const wa = va / a.n;
+    const wb = vb / b.n;
+    const se = Math.sqrt(wa + wb);
+    const df = wa + wb > 0 ? (wa + wb) ** 2 / (wa * wa / (a.n - 1) + wb * wb / (b.n - 1)) : pooledDf;
+    const averageSD = Math.sqrt((va + vb) / 2);
+    return completeTTest('welch', estimate, se, df, averageSD > 0 ? estimate / averageSD : 0, pooledDf, [a, b], alternative, confidenceLevel);
+};
+
+// Paired t-test on the differences x - y; d is d_z = mean difference / SD of the differences
+export const pairedTTest = (x: number[], y: number[], alternative: TestAlternative = 'two-sided', confidenceLevel: number = 0.95): TTestResult => {
+    const n = Math.min(x.length, y.length);
+    const differences = Array.from({ length: n }, (_, i) => x[i] - y[i]);
+    const d = summarizeSample(differences);
+    const se = d.sd / Math.sqrt(n);
+    return completeTTest('paired', d.mean, se, n - 1, d.sd > 0 ? d.mean / d.sd : 0, n - 1, [summarizeSample(x.slice(0, n)), summarizeSample(y.slice(0, n))], alternative, confidenceLevel);
+};
+
+// Nonparametric Tests Logic
+// Average (mid)ranks, 1-based, and the size of every group of tied values
+const rankWithTies = (values: number[]): { ranks: number[], tieSizes: number[] } => {
+    const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+    const ranks = new Array<number>(values.length).fill(0);
+    const tieSizes: number[] = [];
+    let i = 0;
+    while (i < order.length) {
+        let j = i;
+        while (j + 1 < order.length && values[order[j + 1]] === values[order[i]]) j++;
+        for (let k = i; k <= j; k++) ranks[order[k]] = (i + j) / 2 + 1;
+        tieSizes.push(j - i + 1);
+        i = j + 1;
+    }
+    return { ranks, tieSizes };
+};
+
+const tieCorrectionSum = (tieSizes: number[]) => tieSizes.reduce((sum, t) => sum + t ** 3 - t, 0);
+
+// Tail areas of a discrete null distribution given as probabilities indexed by (doubled) statistic
+const exactTailP = (distribution: ArrayLike<number>, observed: number, alternative: TestAlternative): number => {
+    let lower = 0;
+    let upper = 0;
+    for (let s = 0; s < distribution.length; s++) {
+        if (s <= observed) lower += distribution[s];
+        if (s >= observed) upper += distribution[s];
+    }
+    if (alternative === 'less') return Math.min(1, lower);
+    if (alternative === 'greater') return Math.min(1, upper);
+    return Math.min(1, 2 * Math.min(lower, upper));
+};
+
+const normalTailP = (z: number, alternative: TestAlternative): number =>
+    alternative === 'less' ? normalCDF(z, 0, 1) : alternative === 'greater' ? normalCDF(z, 0, 1, false) : Math.min(1, 2 * normalCDF(Math.abs(z), 0, 1, false));
+
+// z with a continuity correction of 0.5 towards the mean, in the direction of the alternative
+const continuityZ = (statistic: number, mean: number, sd: number, alternative: TestAlternative): number => {
+    const deviation = statistic - mean;
+    const correction = alternative === 'two-sided' ? Math.sign(deviation) * 0.5 : alternative === 'greater' ? 0.5 : -0.5;
+    return sd > 0 ? (deviation - correction) / sd : 0;
+};
+
+// Permutation distribution of the sum of `size` of the given ranks; midranks are doubled so sums index an array
+const rankSumDistribution = (ranks: number[], size: number): Float64Array => {
+    const doubled = ranks.map(r => Math.round(2 * r));
+    const maxSum = doubled.reduce((a, b) => a + b, 0);
+    const counts = Array.from({ length: size + 1 }, () => new Float64Array(maxSum + 1));
+    counts[0][0] = 1;
+    doubled.forEach((r, used) => {
+        for (let j = Math.min(size, used + 1); j >= 1; j--) {
+            for (let s = maxSum; s >= r; s--) counts[j][s] += counts[j - 1][s - r];
+        }
+    });
+    const total = counts[size].reduce((a, b) => a + b, 0);
+    return counts[size].map(c => c / total);
+};
+
+// Distribution of the sum of positive-signed ranks when every sign is a fair coin (doubled ranks)
+const signedRankDistribution = (ranks: number[]): Float64Array => {
+    const doubled = ranks.map(r => Math.round(2 * r));
+    const maxSum = doubled.reduce((a, b) => a + b, 0);
+    const counts = new Float64Array(maxSum + 1);
+    counts[0] = 1;
+    doubled.forEach(r => {
+        for (let s = maxSum; s >= r; s--) counts[s] += counts[s - r];
+    });
+    const total = Math.pow(2, ranks.length);
+    return counts.map(c => c / total);
+};
+
+// Mann-Whitney U (W = U for x, as in R), exact or tie-corrected normal p-value; rank-biserial r = 2U / mn - 1
+export const mannWhitneyUTest = (x: number[], y: number[], options: NonparametricOptions = {}): RankTestResult => {
+    const { alternative = 'two-sided', method = 'auto' } = options;
+    const m = x.length;
+    const n = y.length;
+    const N = m + n;
+    const { ranks, tieSizes } = rankWithTies([...x, ...y]);
+    const rankSum = ranks.slice(0, m).reduce((a, b) => a + b, 0);
+    const U = rankSum - (m * (m + 1)) / 2;
+    const ties = tieSizes.some(t => t > 1);
+    const effectSize = m > 0 && n > 0 ? (2 * U) / (m * n) - 1 : 0;
+    const base = { statisticName: 'W', statistic: U, df: null, effectSize, effectSizeName: 'rank-biserial r', ties };
+
+    if (method === 'exact' || (method === 'auto' && m < 50 && n < 50 && !ties)) {
+        const pValue = exactTailP(rankSumDistribution(ranks, m), Math.round(2 * rankSum), alternative);
+        return { ...base, pValue, method: 'exact', z: null };
+    }
+    const sd = Math.sqrt(((m * n) / 12) * ((N + 1) - tieCorrectionSum(tieSizes) / (N * (N - 1))));
+    const z = continuityZ(U, (m * n) / 2, sd, alternative);
+    return { ...base, pValue: sd > 0 ? normalTailP(z, alternative) : 1, method: 'normal', z };
+};
+
+// Wilcoxon signed-rank test on x - y or x - mu, zeros dropped; V = sum of positive ranks, r = 2V / S - 1
+export const wilcoxonSignedRankTest = (x: number[], y: number[] | null = null, options: NonparametricOptions = {}): RankTestResult => {
+    const { alternative = 'two-sided', method = 'auto', mu = 0 } = options;
+    const differences = (y ? x.slice(0, Math.min(x.length, y.length)).map((v, i) => v - y[i]) : x.map(v => v - mu)).filter(d => d !== 0);
+    const n = differences.length;
+    const zeros = (y ? Math.min(x.length, y.length) : x.length) - n;
+    const { ranks, tieSizes } = rankWithTies(differences.map(Math.abs));
+    const V = ranks.reduce((sum, r, i) => sum + (differences[i] > 0 ? r : 0), 0);
+    const ties = zeros > 0 || tieSizes.some(t => t > 1);
+    const totalRank = (n * (n + 1)) / 2;
+    const base = { statisticName: 'V', statistic: V, df: null, effectSize: n > 0 ? (2 * V) / totalRank - 1 : 0, effectSizeName: 'matched rank-biserial r', ties };
+
+    if (n > 0 && (method === 'exact' || (method === 'auto' && n < 50 && !ties))) {
+        const pValue = exactTailP(signedRankDistribution(ranks), Math.round(2 * V), alternative);
+        return { ...base, pValue, method: 'exact', z: null };
+    }
+    const sd = Math.sqrt((n * (n + 1) * (2 * n + 1)) / 24 - tieCorrectionSum(tieSizes) / 48);
+    const z = continuityZ(V, totalRank / 2, sd, alternative);
+    return { ...base, pValue: sd > 0 ? normalTailP(z, alternative) : 1, method: 'normal', z };
+};
+
+// Holm step-down adjustment, returned in the input order
+const holmAdjust = (pValues: number[]): number[] => {
+    const order = pValues.map((_, i) => i).sort((a, b) => pValues[a] - pValues[b]);
+    const adjusted = new Array<number>(pValues.length);
+    let running = 0;
+    order.forEach((index, rank) => {
+        running = Math.max(running, Math.min(1, (pValues.length - rank) * pValues[index]));
+        adjusted[index] = running;
+    });
+    return adjusted;
+};
+
+const multinomialCount = (sizes: number[]): number => {
+    let count = 1;
+    let placed = 0;
+    sizes.forEach(size => {
+        for (let i = 1; i <= size; i++) count = (count * (placed + i)) / i;
+        placed += size;
+    });
+    return count;
+};
+
+const EXACT_ENUMERATION_LIMIT = 200000;
+
+// Kruskal-Wallis H with tie correction and epsilon-squared, plus Dunn's pairwise z-tests with Holm-adjusted p-values
+export const kruskalWallisTest = (groups: number[][], options: NonparametricOptions = {}, alpha: number = 0.05): KruskalWallisResult => {
+    const { method = 'auto' } = options;
+    const k = groups.length;
+    const sizes = groups.map(g => g.length);
+    const N = sizes.reduce((a, b) => a + b, 0);
+    const { ranks, tieSizes } = rankWithTies(groups.flat());
+    const ties = tieSizes.some(t => t > 1);
+    const tieFactor = 1 - tieCorrectionSum(tieSizes) / (N ** 3 - N);
+    const groupOf = sizes.flatMap((size, g) => new Array<number>(size).fill(g));
+    const rankSums = new Array<number>(k).fill(0);
+    ranks.forEach((r, i) => { rankSums[groupOf[i]] += r; });
+    const statisticOf = (sums: number[]) => ((12 / (N * (N + 1))) * sums.reduce((acc, R, g) => acc + (R * R) / sizes[g], 0) - 3 * (N + 1)) / tieFactor;
+    const H = tieFactor > 0 ? statisticOf(rankSums) : 0;
+    const meanRanks = rankSums.map((R, g) => R / sizes[g]);
+
+    let pValue: number;
+    let pMethod: 'exact' | 'chiSquare' = 'chiSquare';
+    const assignments = multinomialCount(sizes);
+    if (tieFactor > 0 && (method === 'exact' || (method === 'auto' && !ties)) && assignments <= EXACT_ENUMERATION_LIMIT) {
+        // The statistic is increasing in sum(R_g^2 / n_g), so compare that directly
+        const observed = rankSums.reduce((acc, R, g) => acc + (R * R) / sizes[g], 0) - 1e-9;
+        const remaining = [...sizes];
+        const sums = new Array<number>(k).fill(0);
+        let atLeast = 0;
+        const assign = (index: number) => {
+            if (index === N) {
+                if (sums.reduce((acc, R, g) => acc + (R * R) / sizes[g], 0) >= observed) atLeast++;
+                return;
+            }
+            for (let g = 0; g < k; g++) {
+                if (remaining[g] === 0) continue;
+                remaining[g]--;
+                sums[g] += ranks[index];
+                assign(index + 1);
+                sums[g] -= ranks[index];
+                remaining[g]++;
+            }
+        };
+        assign(0);
+        pValue = atLeast / assignments;
+        pMethod = 'exact';
+    } else {
+        pValue = chiSquareCDF(H, k - 1, false);
+    }
+
+    const dunnScale = (N * (N + 1)) / 12 - tieCorrectionSum(tieSizes) / (12 * (N - 1));
+    const pairs: { groupA: number, groupB: number, meanRankDifference: number, z: number, pValue: number }[] = [];
+    for (let a = 0; a < k; a++) {
+        for (let b = a + 1; b < k; b++) {
+            const difference = meanRanks[a] - meanRanks[b];
+            const z = difference / Math.sqrt(dunnScale * (1 / sizes[a] + 1 / sizes[b]));
+            pairs.push({ groupA: a, groupB: b, meanRankDifference: difference, z, pValue: 2 * normalCDF(Math.abs(z), 0, 1, false) });
+        }
+    }
+    const adjusted = holmAdjust(pairs.map(pair => pair.pValue));
+    const dunn: DunnComparison[] = pairs.map((pair, i) => ({ ...pair, adjustedPValue: adjusted[i], significant: adjusted[i] < alpha }));
+
+    return {
+        statisticName: 'H',
+        statistic: H,
+        pValue,
+        method: pMethod,
+        z: null,
+        df: k - 1,
+        effectSize: N > 1 ? H / (N - 1) : 0,
+        effectSizeName: 'epsilon-squared',
+        ties,
+        meanRanks,
+        dunn
+    };
+};
+
+// Friedman test with rows as blocks and columns as conditions; Kendall's W = chi-square / (b(k - 1))
+export const friedmanTest = (data: number[][], options: NonparametricOptions = {}): RankTestResult => {
+    const { method = 'auto' } = options;
+    const b = data.length;
+    const k = data[0]?.length ?? 0;
+    const rowRanks = data.map(row => rankWithTies(row));
+    const ties = rowRanks.some(r => r.tieSizes.some(t => t > 1));
+    const tieTotal = rowRanks.reduce((sum, r) => sum + tieCorrectionSum(r.tieSizes), 0);
+    const denominator = b * k * (k + 1) - tieTotal / (k - 1);
+    const statisticOf = (sums: number[]) => (12 * sums.reduce((acc, R) => acc + (R - (b * (k + 1)) / 2) ** 2, 0)) / denominator;
+    const rankSums = Array.from({ length: k }, (_, j) => rowRanks.reduce((sum, r) => sum + r.ranks[j], 0));
+    const chiSquare = denominator > 0 ? statisticOf(rankSums) : 0;
+
+    const permutations = (values: number[]): number[][] => values.length <= 1 ? [values]
+        : values.flatMap((v, i) => permutations([...values.slice(0, i), ...values.slice(i + 1)]).map(rest => [v, ...rest]));
+    let factorial = 1;
+    for (let i = 2; i <= k; i++) factorial *= i;
+
+    let pValue: number;
+    let pMethod: 'exact' | 'chiSquare' = 'chiSquare';
+    if (denominator > 0 && (method === 'exact' || (method === 'auto' && !ties)) && Math.pow(factorial, b) <= EXACT_ENUMERATION_LIMIT) {
+        let states = new Map<string, { sums: number[], weight: number }>([['', { sums: new Array<number>(k).fill(0), weight: 1 }]]);
+        rowRanks.forEach(({ ranks }) => {
+            const orders = permutations(ranks);
+            const next = new Map<string, { sums: number[], weight: number }>();
+            states.forEach(state => {
+                orders.forEach(order => {
+                    const sums = state.sums.map((s, j) => s + order[j]);
+                    const key = sums.join(',');
+                    const entry = next.get(key);
+                    if (entry) entry.weight += state.weight / orders.length;
+                    else next.set(key, { sums, weight: state.weight / orders.length });
+                });
+            });
+            states = next;
+        });
+        pValue = 0;
+        states.forEach(state => {
+            if (statisticOf(state.sums) >= chiSquare - 1e-9) pValue += state.weight;
+        });
+        pValue = Math.min(1, pValue);
+        pMethod = 'exact';
+    } else {
+        pValue = chiSquareCDF(chiSquare, k - 1, false);
+    }
+
+    return {
+        statisticName: 'χ²',
+        statistic: chiSquare,
+        pValue,
+        method: pMethod,
+        z: null,
+        df: k - 1,
+        effectSize: b > 0 && k > 1 ? chiSquare / (b * (k - 1)) : 0,
+        effectSizeName: "Kendall's W",
+        ties
+    };
+};
+
+// Spearman's rho on midranks; exact p-value for small n, otherwise z = rho * sqrt(n - 1)
+export const spearmanCorrelation = (x: number[], y: number[], options: NonparametricOptions = {}): RankCorrelationResult => {
+    const { alternative = 'two-sided', method = 'auto' } = options;
+    const n = Math.min(x.length, y.length);
+    const rx = rankWithTies(x.slice(0, n));
+    const ry = rankWithTies(y.slice(0, n));
+    const ties = rx.tieSizes.some(t => t > 1) || ry.tieSizes.some(t => t > 1);
+    const meanRank = (n + 1) / 2;
+    const sxx = rx.ranks.reduce((sum, r) => sum + (r - meanRank) ** 2, 0);
+    const syy = ry.ranks.reduce((sum, r) => sum + (r - meanRank) ** 2, 0);
+    const correlationWith = (yr: number[]) => rx.ranks.reduce((sum, r, i) => sum + (r - meanRank) * (yr[i] - meanRank), 0) / Math.sqrt(sxx * syy);
+    const rho = sxx > 0 && syy > 0 ? correlationWith(ry.ranks) : 0;
+    const S = rx.ranks.reduce((sum, r, i) => sum + (r - ry.ranks[i]) ** 2, 0);
+    const base = { method: 'spearman' as const, estimate: rho, statisticName: 'S', statistic: S, n, ties };
+
+    if (sxx > 0 && syy > 0 && n <= (method === 'exact' ? 10 : 9) && (method === 'exact' || (method === 'auto' && !ties))) {
+        let lower = 0;
+        let upper = 0;
+        let total = 0;
+        const permuted = [...ry.ranks];
+        const visit = (index: number) => {
+            if (index === n) {
+                const r = correlationWith(permuted);
+                if (r <= rho + 1e-12) lower++;
+                if (r >= rho - 1e-12) upper++;
+                total++;
+                return;
+            }
+            for (let i = index; i < n; i++) {
+                [permuted[index], permuted[i]] = [permuted[i], permuted[index]];
+                visit(index + 1);
+                [permuted[index], permuted[i]] = [permuted[i], permuted[index]];
+            }
+        };
+        visit(0);
+        const pValue = alternative === 'less' ? lower / total : alternative === 'greater' ? upper / total : Math.min(1, (2 * Math.min(lower, upper)) / total);
+        return { ...base, pValue, pMethod: 'exact', z: null };
+    }
+    const z = rho * Math.sqrt(n - 1);
+    return { ...base, pValue: n > 2 ? normalTailP(z, alternative) : 1, pMethod: 'normal', z };
+};
+
+// Kendall's tau-b; exact p-value without ties (n < 50), otherwise S = C - D against its tie-adjusted variance
+export const kendallCorrelation = (x: number[], y: number[], options: NonparametricOptions = {}): RankCorrelationResult => {
+    const { alternative = 'two-sided', method = 'auto' } = options;
+    const n = Math.min(x.length, y.length);
+    let concordant = 0;
+    let discordant = 0;
+    for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+            const sign = Math.sign(x[i] - x[j]) * Math.sign(y[i] - y[j]);
+            if (sign > 0) concordant++;
+            else if (sign < 0) discordant++;
+        }
+    }
+    const tx = rankWithTies(x.slice(0, n)).tieSizes;
+    const ty = rankWithTies(y.slice(0, n)).tieSizes;
+    const ties = tx.some(t => t > 1) || ty.some(t => t > 1);
+    const pairs = (n * (n - 1)) / 2;
+    const pairsX = tx.reduce((sum, t) => sum + (t * (t - 1)) / 2, 0);
+    const pairsY = ty.reduce((sum, t) => sum + (t * (t - 1)) / 2, 0);
+    const S = concordant - discordant;
+    const tau = pairs > pairsX && pairs > pairsY ? S / Math.sqrt((pairs - pairsX) * (pairs - pairsY)) : 0;
+
+    if (n > 1 && !ties && (method === 'exact' || (method === 'auto' && n < 50))) {
+        // counts[d] = permutations of n with d inversions (discordant pairs)
+        let counts = [1];
+        for (let m = 2; m <= n; m++) {
+            const next = new Array<number>(counts.length + m - 1).fill(0);
+            counts.forEach((c, d) => {
+                for (let extra = 0; extra < m; extra++) next[d + extra] += c;
+            });
+            counts = next;
+        }
+        const total = counts.reduce((a, b) => a + b, 0);
+        // More concordant pairs means fewer inversions, so reverse to index by concordant pairs
+        const distribution = counts.map(c => c / total).reverse();
+        return { method: 'kendall', estimate: tau, statisticName: 'T', statistic: concordant, pValue: exactTailP(distribution, concordant, alternative), pMethod: 'exact', z: null, n, ties };
+    }
+    const sumOver = (sizes: number[], f: (t: number) => number) => sizes.reduce((sum, t) => sum + f(t), 0);
+    const variance = (n * (n - 1) * (2 * n + 5) - sumOver(tx, t => t * (t - 1) * (2 * t + 5)) - sumOver(ty, t => t * (t - 1) * (2 * t + 5))) / 18
+        + (sumOver(tx, t => t * (t - 1) * (t - 2)) * sumOver(ty, t => t * (t - 1) * (t - 2))) / (9 * n * (n - 1) * (n - 2))
+        + (sumOver(tx, t => t * (t - 1)) * sumOver(ty, t => t * (t - 1))) / (2 * n * (n - 1));
+    const z = variance > 0 ? S / Math.sqrt(variance) : 0;
+    return { method: 'kendall', estimate: tau, statisticName: 'z', statistic: z, pValue: variance > 0 ? normalTailP(z, alternative) : 1, pMethod: 'normal', z, n, ties };
+};
+
+// Resampling Logic
+// Linear interpolation between order statistics (R's quantile type 7)
+const sortedQuantile = (sorted: number[], q: number): number => {
+    if (sorted.length === 0) return NaN;
+    const position = Math.min(Math.max(q, 0), 1) * (sorted.length - 1);
+    const below = Math.floor(position);
+    const above = Math.min(below + 1, sorted.length - 1);
+    return sorted[below] + (position - below) * (sorted[above] - sorted[below]);
+};
+
+// One resample with replacement, drawn within strata when given
+export const drawBootstrapSample = <T>(data: T[], strata?: (item: T) => string | number): T[] => {
+    if (!strata) return data.map(() => data[Math.floor(Math.random() * data.length)]);
+    const groups = new Map<string | number, T[]>();
+    data.forEach(item => {
+        const key = strata(item);
+        groups.set(key, [...(groups.get(key) ?? []), item]);
+    });
+    return [...groups.values()].flatMap(group => group.map(() => group[Math.floor(Math.random() * group.length)]));
+};
+
+// Percentile, BCa and studentized bootstrap intervals; the studentized one (nested bootstrap SEs) only when requested
+export const bootstrap = <T>(data: T[], statistic: (sample: T[]) => number, options: BootstrapOptions<T> = {}): BootstrapResult => {
+    const { replicates = 2000, confidenceLevel = 0.95, strata, standardError, innerReplicates = 25, methods = ['percentile', 'bca', 'studentized'] } = options;
+    const estimate = statistic(data);
+    const studentize = methods.includes('studentized');
+    const seOf = (sample: T[]) => {
+        if (standardError) return standardError(sample);
+        const inner = Array.from({ length: innerReplicates }, () => statistic(drawBootstrapSample(sample, strata)));
+        const innerMean = inner.reduce((a, b) => a + b, 0) / inner.length;
+        return Math.sqrt(inner.reduce((sum, v) => sum + (v - innerMean) ** 2, 0) / (inner.length - 1));
+    };
+
+    const values: number[] = [];
+    const tValues: number[] = [];
+    for (let b = 0; b < replicates; b++) {
+        const sample = drawBootstrapSample(data, strata);
+        const value = statistic(sample);
+        values.push(value);
+        if (!studentize) continue;
+        const se = seOf(sample);
+        if (se > 0 && Number.isFinite(se)) tValues.push((value - estimate) / se);
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const mean = values.reduce((a, b) => a + b, 0) / replicates;
+    const bootstrapSE = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (replicates - 1));
+    const alpha = (1 - confidenceLevel) / 2;
+
+    // BCa: bias correction from the share of replicates below the estimate, acceleration from the jackknife
+    const below = values.filter(v => v < estimate).length + values.filter(v => v === estimate).length / 2;
+    const biasCorrection = normalQuantile(Math.min(Math.max(below / replicates, 1 / (replicates + 1)), replicates / (replicates + 1)));
+    const jackknife = data.map((_, i) => statistic(data.filter((__, j) => j !== i)));
+    const jackMean = jackknife.reduce((a, b) => a + b, 0) / jackknife.length;
+    const cubed = jackknife.reduce((sum, v) => sum + (jackMean - v) ** 3, 0);
+    const squared = jackknife.reduce((sum, v) => sum + (jackMean - v) ** 2, 0);
+    const acceleration = squared > 0 ? cubed / (6 * Math.pow(squared, 1.5)) : 0;
+    const adjusted = (p: number) => {
+        const z = biasCorrection + normalQuantile(p);
+        return normalCDF(biasCorrection + z / (1 - acceleration * z), 0, 1);
+    };
+
+    const sortedT = [...tValues].sort((a, b) => a - b);
+    const centralSE = standardError ? standardError(data) : bootstrapSE;
+    const intervals: Partial<Record<BootstrapIntervalMethod, BootstrapInterval>> = {};
+    if (methods.includes('percentile')) {
+        intervals.percentile = { method: 'percentile', lower: sortedQuantile(sorted, alpha), upper: sortedQuantile(sorted, 1 - alpha) };
+    }
+    if (methods.includes('bca')) {
+        intervals.bca = { method: 'bca', lower: sortedQuantile(sorted, adjusted(alpha)), upper: sortedQuantile(sorted, adjusted(1 - alpha)) };
+    }
+    if (studentize) {
+        intervals.studentized = {
+            method: 'studentized',
+            lower: estimate - sortedQuantile(sortedT, 1 - alpha) * centralSE,
+            upper: estimate - sortedQuantile(sortedT, alpha) * centralSE
+        };
+    }
+
+    return { estimate, replicates: values, standardError: bootstrapSE, bias: mean - estimate, biasCorrection, acceleration, confidenceLevel, intervals };
+};
+
+const permutationP = (observed: number, nullDistribution: number[], alternative: TestAlternative): number => {
+    const tolerance = 1e-12 * Math.max(1, Math.abs(observed));
+    const extreme = nullDistribution.filter(v => alternative === 'greater' ? v >= observed - tolerance
+        : alternative === 'less' ? v <= observed + tolerance
+        : Math.abs(v) >= Math.abs(observed) - tolerance).length;
+    return (extreme + 1) / (nullDistribution.length + 1);
+};
+
+export const shuffle = <T>(values: T[]): T[] => {
+    const result = [...values];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+// Two-group permutation test of a statistic centred on 0 under the null (default mean(x) - mean(y))
+export const permutationTestTwoGroups = (
+    x: number[], y: number[],
+    statistic: (a: number[], b: number[]) => number = (a, b) => calculateMean(a) - calculateMean(b),
+    permutations: number = 9999, alternative: TestAlternative = 'two-sided'
+): PermutationTestResult => {
+    const pooled = [...x, ...y];
+    const observed = statistic(x, y);
+    const nullDistribution = Array.from({ length: permutations }, () => {
+        const shuffled = shuffle(pooled);
+        return statistic(shuffled.slice(0, x.length), shuffled.slice(x.length));
+    });
+    return { observed, nullDistribution, pValue: permutationP(observed, nullDistribution, alternative), alternative, permutations };
+};
+
+// Permutation test of zero Pearson correlation: shuffling y breaks any pairing with x
+export const permutationTestCorrelation = (x: number[], y: number[], permutations: number = 9999, alternative: TestAlternative = 'two-sided'): PermutationTestResult => {
+    const n = Math.min(x.length, y.length);
+    const pointsFor = (ys: number[]): Point[] => Array.from({ length: n }, (_, i) => ({ id: i, x: x[i], y: ys[i] }));
+    const observed = calculateCorrelation(pointsFor(y));
+    const nullDistribution = Array.from({ length: permutations }, () => calculateCorrelation(pointsFor(shuffle(y.slice(0, n)))));
+    return { observed, nullDistribution, pValue: permutationP(observed, nullDistribution, alternative), alternative, permutations };
+};
+
 export const calculateMean2ForPValue = (targetPValue: number, dist1: DistributionParams, dist2Params: { stdDev: number, size: number }, currentMean2: number): number => {
     // Inverse logic to find required Mean 2 for a target p-value
     // p = 2 * (1 - CDF(|z|))  =>  CDF(|z|) = 1 - p/2  =>  |z| = invCDF(1 - p/2)
@@ -178,9 +843,9 @@ export const calculateMean2ForPValue = (targetPValue: number, dist1: Distributio
     const se2 = Math.pow(dist2Params.stdDev, 2) / dist2Params.size;
     const standardError = Math.sqrt(se1 + se2);
     
-    // Approximate Inverse Normal CDF (probit) for p-value to Z
+    // Inverse Normal CDF (probit) for p-value to Z
     // We only need the positive Z for the magnitude
-    const zMag = approximateInverseNormalCDF(1 - targetPValue / 2);
+    const zMag = normalQuantile(Math.min(1 - 1e-12, Math.max(0.5, 1 - targetPValue / 2)));
     
     // We move dist2 away from dist1. If dist2 is currently higher, we make it higher.
     if (currentMean2 >= dist1.mean) {
@@ -190,325 +855,1236 @@ export const calculateMean2ForPValue = (targetPValue: number, dist1: Distributio
     }
 };
 
-function normalCDF(x: number): number {
-    var t = 1 / (1 + .2316419 * Math.abs(x));
-    var d = .3989423 * Math.exp(-x * x / 2);
-    var prob = d * t * (.3193815 + t * (-.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
-    if (x > 0) prob = 1 - prob;
-    return prob;
-}
+const calculateVariance = (data: number[]): number => {
+    if (data.length < 2) return 0;
+    const mean = calculateMean(data);
+    return data.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / (data.length - 1);
+};
 
-function approximateInverseNormalCDF(p: number): number {
-    // Beasley-Springer-Moro algorithm approximation
-    // Only needs to be rough for the slider interaction
-    if (p >= 1) return 5; // Cap
-    if (p <= 0) return -5;
-    
-    const a1 = -3.969683028665376e+01;
-    const a2 = 2.209460984245205e+02;
-    const a3 = -2.759285104469687e+02;
-    const a4 = 1.383577518672690e+02;
-    const a5 = -3.066479806614716e+01;
-    const a6 = 2.506628277459239e+00;
-
-    const b1 = -5.447609879822406e+01;
-    const b2 = 1.615858368580409e+02;
-    const b3 = -1.556989798598866e+02;
-    const b4 = 6.680131188771972e+01;
-    const b5 = -1.328068155288572e+01;
-
-    const c1 = -7.784894002430293e-03;
-    const c2 = -3.223964580411365e-01;
-    const c3 = -2.400758277161838e+00;
-    const c4 = -2.549732539343734e+00;
-    const c5 = 4.374664141464968e+00;
-    const c6 = 2.938163982698783e+00;
-
-    const d1 = 7.784695709041462e-03;
-    const d2 = 3.224671290700398e-01;
-    const d3 = 2.445134137142996e+00;
-    const d4 = 3.754408661907416e+00;
-
-    const p_low = 0.02425;
-    const p_high = 1 - p_low;
-
-    let q, r;
-    
-    if (p < p_low) {
-        q = Math.sqrt(-2 * Math.log(p));
-        return (((((c1 * q + c2) * q + c3) * q + c4) * q + c5) * q + c6) /
-               ((((d1 * q + d2) * q + d3) * q + d4) * q + 1);
-    } else if (p <= p_high) {
-        q = p - 0.5;
-        r = q * q;
-        return (((((a1 * r + a2) * r + a3) * r + a4) * r + a5) * r + a6) * q /
-               (((((b1 * r + b2) * r + b3) * r + b4) * r + b5) * r + 1);
-    } else {
-        q = Math.sqrt(-2 * Math.log(1 - p));
-        return -(((((c1 * q + c2) * q + c3) * q + c4) * q + c5) * q + c6) /
-                ((((d1 * q + d2) * q + d3) * q + d4) * q + 1);
-    }
-}
+export const calculateAnova = (groups: number[][], alpha: number = 0.05): AnovaResult => {
+    const k = groups.length;
+    const sizes = groups.map(g => g.length);
+    const N = sizes.reduce((a, b) => a + b, 0);
+    const means = groups.map(g => calculateMean(g));
+    const variances = groups.map(g => calculateVariance(g));
+    const grandMean = groups.reduce((sum, g) => sum + g.reduce((a, b) => a + b, 0), 0) / N;
 
+    const ssBetween = groups.reduce((sum, g, i) => sum + g.length * Math.pow(means[i] - grandMean, 2), 0);
+    const ssWithin = groups.reduce((sum, g, i) => sum + g.reduce((s, val) => s + Math.pow(val - means[i], 2), 0), 0);
+    const ssTotal = ssBetween + ssWithin;
 
-export const calculateAnova = (groups: DistributionParams[]): { fStatistic: number, pValue: number } => {
-    // Simulate raw data for the groups based on params to perform calculation
-    // In a real app, we might have the raw data. Here we generate it.
-    const rawData = groups.map(g => generateSampleData(g.mean, g.stdDev, g.size));
-    
-    const k = groups.length;
-    const N = groups.reduce((sum, g) => sum + g.size, 0);
-    
-    // Grand Mean
-    let grandSum = 0;
-    rawData.forEach(group => group.forEach(val => grandSum += val));
-    const grandMean = grandSum / N;
-    
-    // SS Between
-    let ssBetween = 0;
-    rawData.forEach(group => {
-        const groupMean = calculateMean(group);
-        ssBetween += group.length * Math.pow(groupMean - grandMean, 2);
-    });
-    
-    // SS Within
-    let ssWithin = 0;
-    rawData.forEach(group => {
-        const groupMean = calculateMean(group);
-        group.forEach(val => ssWithin += Math.pow(val - groupMean, 2));
-    });
-    
     const dfBetween = k - 1;
     const dfWithin = N - k;
-    
     const msBetween = ssBetween / dfBetween;
     const msWithin = ssWithin / dfWithin;
-    
-    const fStatistic = msBetween / msWithin;
-    
-    // F-distribution p-value approximation (simplified)
-    // For interactive visualization, precise p-value is less critical than responsiveness
-    // We'll use a simplified lookup logic or library if needed, but for now 
-    // we can use a basic inverse relationship for visual feedback
-    
-    // Very rough approximation for demo purposes
-    const pValue = 1 / (1 + fStatistic); 
 
-    return { fStatistic, pValue: Math.max(0, Math.min(1, pValue * 0.5)) }; // Scaled for effect
+    const fStatistic = msWithin > 0 ? msBetween / msWithin : 0;
+    const pValue = msWithin > 0 ? fCDF(fStatistic, dfBetween, dfWithin, false) : 1;
+
+    const etaSquared = ssTotal > 0 ? ssBetween / ssTotal : 0;
+    const omegaSquared = ssTotal > 0 ? Math.max(0, (ssBetween - dfBetween * msWithin) / (ssTotal + msWithin)) : 0;
+
+    const table: AnovaTableRow[] = [
+        { source: 'Between', ss: ssBetween, df: dfBetween, ms: msBetween, fStatistic, pValue },
+        { source: 'Within', ss: ssWithin, df: dfWithin, ms: msWithin },
+        { source: 'Total', ss: ssTotal, df: N - 1 }
+    ];
+
+    // Tukey HSD (Tukey-Kramer for unequal n) uses the pooled MS within
+    const tukey: PostHocComparison[] = [];
+    const tukeyCritical = dfWithin > 0 && msWithin > 0 ? studentizedRangeQuantile(1 - alpha, k, dfWithin) : NaN;
+    // Games-Howell uses each pair's own variances and Welch degrees of freedom
+    const gamesHowell: PostHocComparison[] = [];
+
+    for (let i = 0; i < k; i++) {
+        for (let j = i + 1; j < k; j++) {
+            const meanDifference = means[i] - means[j];
+
+            // Like Games-Howell below, a pair cannot be tested without error df or any within-group spread
+            const tukeySE = Math.sqrt(msWithin / 2 * (1 / sizes[i] + 1 / sizes[j]));
+            const tukeyTestable = dfWithin > 0 && tukeySE > 0;
+            const tukeyQ = tukeySE > 0 ? Math.abs(meanDifference) / tukeySE : 0;
+            const tukeyP = tukeyTestable ? 1 - studentizedRangeCDF(tukeyQ, k, dfWithin) : NaN;
+            tukey.push({
+                groupA: i,
+                groupB: j,
+                meanDifference,
+                standardError: tukeySE,
+                qStatistic: tukeyQ,
+                df: dfWithin,
+                pValue: tukeyP,
+                lowerBound: tukeyTestable ? meanDifference - tukeyCritical * tukeySE : NaN,
+                upperBound: tukeyTestable ? meanDifference + tukeyCritical * tukeySE : NaN,
+                significant: tukeyTestable && tukeyP < alpha
+            });
+
+            // Each group needs n >= 2 for a variance; without one (or with no spread at all) the Welch df is undefined
+            const vi = variances[i] / sizes[i];
+            const vj = variances[j] / sizes[j];
+            const ghSE = Math.sqrt((vi + vj) / 2);
+            const ghDf = sizes[i] >= 2 && sizes[j] >= 2 ? Math.pow(vi + vj, 2) / (vi * vi / (sizes[i] - 1) + vj * vj / (sizes[j] - 1)) : NaN;
+            const ghTestable = Number.isFinite(ghDf) && ghSE > 0;
+            const ghQ = ghSE > 0 ? Math.abs(meanDifference) / ghSE : 0;
+            const ghP = ghTestable ? 1 - studentizedRangeCDF(ghQ, k, ghDf) : NaN;
+            const ghCritical = ghTestable ? studentizedRangeQuantile(1 - alpha, k, ghDf) : NaN;
+            gamesHowell.push({
+                groupA: i,
+                groupB: j,
+                meanDifference,
+                standardError: ghSE,
+                qStatistic: ghQ,
+                df: ghDf,
+                pValue: ghP,
+                lowerBound: meanDifference - ghCritical * ghSE,
+                upperBound: meanDifference + ghCritical * ghSE,
+                significant: ghTestable && ghP < alpha
+            });
+        }
+    }
+
+    return {
+        fStatistic,
+        pValue,
+        dfBetween,
+        dfWithin,
+        table,
+        etaSquared,
+        omegaSquared,
+        groupMeans: means,
+        groupSizes: sizes,
+        groupVariances: variances,
+        tukey,
+        gamesHowell
+    };
 };
 
 export const pdfBeta = (x: number, alpha: number, beta: number): number => {
     if (x <= 0 || x >= 1) return 0;
-    // Log-gamma function approximation or library is usually needed for Beta PDF normalization (B(alpha, beta))
-    // B(a,b) = Gamma(a)Gamma(b) / Gamma(a+b)
-    
-    // Simple approximation for visual shape:
-    // f(x) proportional to x^(a-1) * (1-x)^(b-1)
-    
-    return Math.pow(x, alpha - 1) * Math.pow(1 - x, beta - 1);
-    // Note: This is unnormalized height, which is fine for relative shape visualization in D3 
-    // if we scale the Y axis dynamically.
+    return betaPDF(x, alpha, beta);
 };
 
-// HMM Logic
-export const generateHMMSequence = (transitionProbs: { sunnyToSunny: number, rainyToRainy: number }, length: number): HMMSequenceItem[] => {
-    const sequence: HMMSequenceItem[] = [];
-    let currentState: HiddenState = Math.random() > 0.5 ? 'Sunny' : 'Rainy';
-
-    for (let i = 0; i < length; i++) {
-        // Observation Probability Matrix (Emission)
-        // Sunny: Walk (0.6), Read (0.1), Clean (0.3)
-        // Rainy: Walk (0.1), Read (0.5), Clean (0.4)
-        const randObs = Math.random();
-        let observation: Observation = 'Walk';
-
-        if (currentState === 'Sunny') {
-            if (randObs < 0.6) observation = 'Walk';
-            else if (randObs < 0.7) observation = 'Read';
-            else observation = 'Clean';
-        } else {
-            if (randObs < 0.1) observation = 'Walk';
-            else if (randObs < 0.6) observation = 'Read';
-            else observation = 'Clean';
-        }
+// Matrix Helpers
+const identityMatrix = (n: number): number[][] => Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
 
-        sequence.push({ state: currentState, observation });
+const transposeMatrix = (m: number[][]): number[][] => m.length === 0 ? [] : m[0].map((_, j) => m.map(row => row[j]));
 
-        // Transition
-        const randTrans = Math.random();
-        if (currentState === 'Sunny') {
-            currentState = randTrans < transitionProbs.sunnyToSunny ? 'Sunny' : 'Rainy';
-        } else {
-            currentState = randTrans < transitionProbs.rainyToRainy ? 'Rainy' : 'Sunny';
+const multiplyMatrices = (a: number[][], b: number[][]): number[][] => {
+    const rows = a.length, inner = b.length, cols = b[0]?.length ?? 0;
+    const result: number[][] = Array.from({ length: rows }, () => Array(cols).fill(0));
+    for (let i = 0; i < rows; i++) {
+        for (let k = 0; k < inner; k++) {
+            const aik = a[i][k];
+            if (aik === 0) continue;
+            for (let j = 0; j < cols; j++) result[i][j] += aik * b[k][j];
         }
     }
-    return sequence;
+    return result;
 };
 
-// Multi-level Modeling Data
-export const generateMultiLevelData = (
-    numGroups: number, 
-    pointsPerGroup: number, 
-    fixedIntercept: number, 
-    fixedSlope: number, 
-    interceptVariance: number, 
-    slopeVariance: number
-): GroupPoint[] => {
-    const data: GroupPoint[] = [];
-    let id = 0;
-
-    for (let g = 0; g < numGroups; g++) {
-        // Random effect for this group
-        const groupInterceptEffect = (Math.random() - 0.5) * 2 * Math.sqrt(interceptVariance);
-        const groupSlopeEffect = (Math.random() - 0.5) * 2 * Math.sqrt(slopeVariance);
-
-        const groupIntercept = fixedIntercept + groupInterceptEffect;
-        const groupSlope = fixedSlope + groupSlopeEffect;
-
-        for (let i = 0; i < pointsPerGroup; i++) {
-            const x = Math.random() * 100;
-            const noise = (Math.random() - 0.5) * 20; // Individual error
-            let y = groupIntercept + groupSlope * x + noise;
-            
-            // Clamp Y
-            y = Math.max(0, Math.min(100, y));
+// Gauss-Jordan elimination with partial pivoting; null when the matrix is singular
+const invertMatrix = (m: number[][]): number[][] | null => {
+    const n = m.length;
+    const aug = m.map((row, i) => [...row, ...identityMatrix(n)[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < n; r++) {
+            if (Math.abs(aug[r][col]) > Math.abs(aug[pivot][col])) pivot = r;
+        }
+        if (Math.abs(aug[pivot][col]) < 1e-12) return null;
+        [aug[col], aug[pivot]] = [aug[pivot], aug[col]];
+        const div = aug[col][col];
+        for (let j = 0; j < 2 * n; j++) aug[col][j] /= div;
+        for (let r = 0; r < n; r++) {
+            if (r === col) continue;
+            const factor = aug[r][col];
+            if (factor === 0) continue;
+            for (let j = 0; j < 2 * n; j++) aug[r][j] -= factor * aug[col][j];
+        }
+    }
+    return aug.map(row => row.slice(n));
+};
 
-            data.push({ id: id++, x, y, groupId: g });
+// Lower-triangular L with m = L L^T; null when m is not positive definite
+const choleskyDecomposition = (m: number[][]): number[][] | null => {
+    const n = m.length;
+    const L: number[][] = Array.from({ length: n }, () => Array(n).fill(0));
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j <= i; j++) {
+            let sum = m[i][j];
+            for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+            if (i === j) {
+                if (sum <= 0) return null;
+                L[i][i] = Math.sqrt(sum);
+            } else {
+                L[i][j] = sum / L[j][j];
+            }
         }
     }
-    return data;
+    return L;
 };
 
-export const calculateChiSquareTest = (observed: ContingencyTableData): ChiSquareResult => {
-    const totalRows = observed.length;
-    const totalCols = observed[0].length;
-    
-    const rowTotals = observed.map(row => row.reduce((a, b) => a + b, 0));
-    const colTotals = Array(totalCols).fill(0).map((_, j) => observed.reduce((sum, row) => sum + row[j], 0));
-    const grandTotal = rowTotals.reduce((a, b) => a + b, 0);
+// log|m| for a symmetric positive definite matrix; NaN otherwise
+const logDeterminantSPD = (m: number[][]): number => {
+    const L = choleskyDecomposition(m);
+    if (!L) return NaN;
+    return 2 * L.reduce((sum, row, i) => sum + Math.log(row[i]), 0);
+};
 
-    const expected = observed.map((row, i) => 
-        row.map((_, j) => (rowTotals[i] * colTotals[j]) / grandTotal)
-    );
+// tr(a b) without forming the product
+const traceOfProduct = (a: number[][], b: number[][]): number => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) for (let j = 0; j < b.length; j++) sum += a[i][j] * b[j][i];
+    return sum;
+};
 
-    let chi2 = 0;
-    for (let i = 0; i < totalRows; i++) {
-        for (let j = 0; j < totalCols; j++) {
-            const o = observed[i][j];
-            const e = expected[i][j];
-            if (e > 0) {
-                chi2 += Math.pow(o - e, 2) / e;
+const matrixTrace = (m: number[][]): number => m.reduce((sum, row, i) => sum + row[i], 0);
+
+// Cyclic Jacobi eigendecomposition of a symmetric matrix, eigenvalues in descending order
+const symmetricEigen = (m: number[][]): { values: number[], vectors: number[][] } => {
+    const n = m.length;
+    const a = m.map(row => [...row]);
+    const v = identityMatrix(n);
+    for (let sweep = 0; sweep < 100; sweep++) {
+        let off = 0;
+        for (let i = 0; i < n; i++) for (let j = i + 1; j < n; j++) off += a[i][j] * a[i][j];
+        if (off < 1e-22) break;
+        for (let p = 0; p < n; p++) {
+            for (let q = p + 1; q < n; q++) {
+                if (Math.abs(a[p][q]) < 1e-300) continue;
+                const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+                const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+                const c = 1 / Math.sqrt(t * t + 1);
+                const s = t * c;
+                for (let k = 0; k < n; k++) {
+                    const akp = a[k][p], akq = a[k][q];
+                    a[k][p] = c * akp - s * akq;
+                    a[k][q] = s * akp + c * akq;
+                }
+                for (let k = 0; k < n; k++) {
+                    const apk = a[p][k], aqk = a[q][k];
+                    a[p][k] = c * apk - s * aqk;
+                    a[q][k] = s * apk + c * aqk;
+                }
+                for (let k = 0; k < n; k++) {
+                    const vkp = v[k][p], vkq = v[k][q];
+                    v[k][p] = c * vkp - s * vkq;
+                    v[k][q] = s * vkp + c * vkq;
+                }
             }
         }
     }
+    const order = a.map((row, i) => i).sort((i, j) => a[j][j] - a[i][i]);
+    return {
+        values: order.map(i => a[i][i]),
+        vectors: order.map(i => v.map(row => row[i]))
+    };
+};
 
-    const degreesOfFreedom = (totalRows - 1) * (totalCols - 1);
-    // Rough approximation for p-value
-    // For df=1, chi2=3.84 is p=0.05. 
-    // This is just a placeholder for a real library call.
-    const pValue = 1 / (1 + chi2 * 0.5); 
-
-    return { chi2, pValue, degreesOfFreedom, expected };
+// Sample covariance matrix (divisor n, the maximum-likelihood estimate)
+export const calculateCovarianceMatrix = (data: Record<string, number>[], ids: string[]): number[][] => {
+    const n = data.length;
+    const means = ids.map(id => data.reduce((sum, d) => sum + d[id], 0) / n);
+    return ids.map((a, i) => ids.map((b, j) => data.reduce((sum, d) => sum + (d[a] - means[i]) * (d[b] - means[j]), 0) / n));
 };
 
+// Data Import
+// Parses pasted CSV/TSV text with a header row; rows with a missing or non-numeric cell are dropped (listwise deletion)
+export const parseNumericTable = (text: string): NumericTable => {
+    const lines = text.split(/\r?\n/).map((line, i) => ({ text: line.trim(), lineNumber: i + 1 })).filter(line => line.text.length > 0);
+    if (lines.length === 0) return { columns: [], rows: [], skippedRows: 0, lineNumbers: [] };
+    const delimiter = lines[0].text.includes('\t') ? '\t' : lines[0].text.includes(';') ? ';' : ',';
+    const splitLine = (line: string) => line.split(delimiter).map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+    const columns = splitLine(lines[0].text);
+    const rows: Record<string, number>[] = [];
+    const lineNumbers: number[] = [];
+    let skippedRows = 0;
+    lines.slice(1).forEach(line => {
+        const cells = splitLine(line.text);
+        const values = columns.map((_, i) => (cells[i] === undefined || cells[i] === '' ? NaN : Number(cells[i])));
+        if (values.some(v => !Number.isFinite(v))) {
+            skippedRows++;
+            return;
+        }
+        rows.push(Object.fromEntries(columns.map((col, i) => [col, values[i]])));
+        lineNumbers.push(line.lineNumber);
+    });
+    return { columns, rows, skippedRows, lineNumbers };
+};
 
-// Logistic Regression (Simple Gradient Descent or approx)
-export const calculateLogisticRegression = (data: LogisticPoint[]): LogisticCurveParams => {
-    // Simplified estimation for visualization
-    // We assume a single predictor x
-    // We want to fit P(y=1) = 1 / (1 + exp(-(b0 + b1*x)))
-    
-    // Heuristic initialization
-    const meanX1 = calculateMean(data.filter(p => p.outcome === 1).map(p => p.x));
-    const meanX0 = calculateMean(data.filter(p => p.outcome === 0).map(p => p.x));
-    
-    // If class 1 has higher X, beta1 is positive.
-    const diff = meanX1 - meanX0;
-    const beta1 = diff * 0.05; // Scaling factor heuristic
-    const beta0 = -beta1 * ((meanX1 + meanX0) / 2); // Decision boundary roughly between means
+// HMM Logic
+// Weather example: Sunny days favour walking, rainy days reading or cleaning
+export const createWeatherHMM = (sunnyToSunny: number, rainyToRainy: number): HMMParams => ({
+    states: ['Sunny', 'Rainy'],
+    symbols: ['Walk', 'Read', 'Clean'],
+    initial: [0.5, 0.5],
+    transition: [
+        [sunnyToSunny, 1 - sunnyToSunny],
+        [1 - rainyToRainy, rainyToRainy]
+    ],
+    emission: [
+        [0.6, 0.1, 0.3],
+        [0.1, 0.5, 0.4]
+    ]
+});
 
-    // In a real app, run a few epochs of Gradient Descent here.
-    return { beta0, beta1 };
+const sampleIndex = (probabilities: number[]): number => {
+    let u = Math.random();
+    for (let i = 0; i < probabilities.length; i++) {
+        u -= probabilities[i];
+        if (u <= 0) return i;
+    }
+    return probabilities.length - 1;
 };
 
-export const predictLogisticProbability = (x: number, params: LogisticCurveParams): number => {
-    const z = params.beta0 + params.beta1 * x;
-    return 1 / (1 + Math.exp(-z));
+export const generateHMMSequence = (params: HMMParams, length: number): HMMSequenceItem[] => {
+    const sequence: HMMSequenceItem[] = [];
+    let state = sampleIndex(params.initial);
+    for (let t = 0; t < length; t++) {
+        sequence.push({ state: params.states[state], observation: params.symbols[sampleIndex(params.emission[state])] });
+        state = sampleIndex(params.transition[state]);
+    }
+    return sequence;
 };
 
-// Decision Tree (Simple recursive partitioning)
-export const calculateDecisionTree = (data: DecisionTreePoint[], maxDepth: number, minSamples: number): DecisionTreeNode => {
+// Scaled forward-backward (Rabiner, 1989): posterior state probabilities and the sequence log-likelihood
+export const hmmForwardBackward = (params: HMMParams, observations: number[]): HMMPosterior => {
+    const N = params.states.length;
+    const T = observations.length;
+    const alpha: number[][] = [];
+    const scales: number[] = [];
+    for (let t = 0; t < T; t++) {
+        const row = Array.from({ length: N }, (_, j) => {
+            const prior = t === 0 ? params.initial[j] : alpha[t - 1].reduce((sum, a, i) => sum + a * params.transition[i][j], 0);
+            return prior * params.emission[j][observations[t]];
+        });
+        const c = row.reduce((a, b) => a + b, 0) || 1e-300;
+        scales.push(c);
+        alpha.push(row.map(v => v / c));
+    }
+    const beta: number[][] = new Array(T);
+    beta[T - 1] = new Array<number>(N).fill(1);
+    for (let t = T - 2; t >= 0; t--) {
+        beta[t] = Array.from({ length: N }, (_, i) =>
+            params.transition[i].reduce((sum, a, j) => sum + a * params.emission[j][observations[t + 1]] * beta[t + 1][j], 0) / scales[t + 1]);
+    }
+    const posteriors = alpha.map((row, t) => {
+        const unnormalized = row.map((a, i) => a * beta[t][i]);
+        const total = unnormalized.reduce((a, b) => a + b, 0) || 1;
+        return unnormalized.map(v => v / total);
+    });
+    return { logLikelihood: scales.reduce((sum, c) => sum + Math.log(c), 0), posteriors, alpha, beta, scales };
+};
+
+// Most likely hidden path, computed in log space
+export const hmmViterbi = (params: HMMParams, observations: number[]): { path: number[], logProbability: number } => {
+    const N = params.states.length;
+    const T = observations.length;
+    if (T === 0) return { path: [], logProbability: 0 };
+    let delta = params.initial.map((p, i) => Math.log(p) + Math.log(params.emission[i][observations[0]]));
+    const backPointers: number[][] = [];
+    for (let t = 1; t < T; t++) {
+        const pointers: number[] = [];
+        delta = Array.from({ length: N }, (_, j) => {
+            let best = -Infinity, arg = 0;
+            for (let i = 0; i < N; i++) {
+                const score = delta[i] + Math.log(params.transition[i][j]);
+                if (score > best) { best = score; arg = i; }
+            }
+            pointers.push(arg);
+            return best + Math.log(params.emission[j][observations[t]]);
+        });
+        backPointers.push(pointers);
+    }
+    let last = delta.indexOf(Math.max(...delta));
+    const logProbability = delta[last];
+    const path = [last];
+    for (let t = T - 2; t >= 0; t--) {
+        last = backPointers[t][last];
+        path.unshift(last);
+    }
+    return { path, logProbability };
+};
+
+const randomStochasticRow = (length: number) => {
+    const row = Array.from({ length }, () => 0.5 + Math.random());
+    const total = row.reduce((a, b) => a + b, 0);
+    return row.map(v => v / total);
+};
+
+// Baum-Welch over one or more sequences from several random starts; a pseudo-count keeps probabilities off zero
+export const fitBaumWelch = (
+    sequences: number[][],
+    states: string[],
+    symbols: string[],
+    options: { maxIterations?: number, tolerance?: number, restarts?: number, pseudoCount?: number } = {}
+): BaumWelchResult => {
+    const { maxIterations = 200, tolerance = 1e-6, restarts = 5, pseudoCount = 1e-3 } = options;
+    const N = states.length, M = symbols.length;
+    const normalize = (row: number[]) => {
+        const total = row.reduce((a, b) => a + b, 0);
+        return row.map(v => v / total);
+    };
+    let best: BaumWelchResult | null = null;
+
+    for (let start = 0; start < restarts; start++) {
+        let params: HMMParams = {
+            states, symbols,
+            initial: randomStochasticRow(N),
+            transition: Array.from({ length: N }, () => randomStochasticRow(N)),
+            emission: Array.from({ length: N }, () => randomStochasticRow(M))
+        };
+        const logLikelihoods: number[] = [];
+        let converged = false;
+        for (let iter = 0; iter < maxIterations; iter++) {
+            const initialCounts = new Array<number>(N).fill(pseudoCount);
+            const transitionCounts = Array.from({ length: N }, () => new Array<number>(N).fill(pseudoCount));
+            const emissionCounts = Array.from({ length: N }, () => new Array<number>(M).fill(pseudoCount));
+            let logLikelihood = 0;
+            sequences.forEach(obs => {
+                if (obs.length === 0) return;
+                const { posteriors, alpha, beta, scales, logLikelihood: ll } = hmmForwardBackward(params, obs);
+                logLikelihood += ll;
+                posteriors[0].forEach((g, i) => { initialCounts[i] += g; });
+                posteriors.forEach((row, t) => row.forEach((g, i) => { emissionCounts[i][obs[t]] += g; }));
+                for (let t = 0; t < obs.length - 1; t++) {
+                    for (let i = 0; i < N; i++) {
+                        for (let j = 0; j < N; j++) {
+                            transitionCounts[i][j] += alpha[t][i] * params.transition[i][j] * params.emission[j][obs[t + 1]] * beta[t + 1][j] / scales[t + 1];
+                        }
+                    }
+                }
+            });
+            logLikelihoods.push(logLikelihood);
+            params = {
+                states, symbols,
+                initial: normalize(initialCounts),
+                transition: transitionCounts.map(normalize),
+                emission: emissionCounts.map(normalize)
+            };
+            if (iter > 0 && Math.abs(logLikelihood - logLikelihoods[iter - 1]) < tolerance * Math.abs(logLikelihood)) {
+                converged = true;
+                break;
+            }
+        }
+        const finalLogLikelihood = sequences.reduce((sum, obs) => sum + (obs.length > 0 ? hmmForwardBackward(params, obs).logLikelihood : 0), 0);
+        const totalObservations = sequences.reduce((sum, obs) => sum + obs.length, 0);
+        const freeParameters = (N - 1) + N * (N - 1) + N * (M - 1);
+        const result: BaumWelchResult = {
+            params,
+            logLikelihood: finalLogLikelihood,
+            logLikelihoods,
+            bic: -2 * finalLogLikelihood + freeParameters * Math.log(totalObservations),
+            iterations: logLikelihoods.length,
+            converged
+        };
+        if (!best || result.logLikelihood > best.logLikelihood) best = result;
+    }
+    return best as BaumWelchResult;
+};
+
+// One learner per line; actions may be separated by spaces/commas/arrows or written as a run of letters ("VQPAE")
+export const parseActionSequences = (text: string): { sequences: StudentAction[][], skippedTokens: number } => {
+    const valid = new Set<string>(['V', 'Q', 'A', 'F', 'P', 'E']);
+    let skippedTokens = 0;
+    const sequences = text.split(/\r?\n/).map(line => {
+        const tokens = line.toUpperCase().split(/[\s,;>\-]+/).filter(Boolean);
+        const letters = tokens.length === 1 && tokens[0].length > 1 ? tokens[0].split('') : tokens;
+        return letters.filter(token => {
+            if (valid.has(token)) return true;
+            skippedTokens++;
+            return false;
+        }) as StudentAction[];
+    }).filter(seq => seq.length > 0);
+    return { sequences, skippedTokens };
+};
+
+// Learned states come in arbitrary order; relabel them to maximize agreement with a reference path
+export const alignHMMStates = (decoded: number[], reference: number[], numStates: number): { mapping: number[], accuracy: number } => {
+    const overlap = Array.from({ length: numStates }, () => new Array<number>(numStates).fill(0));
+    decoded.forEach((s, t) => { overlap[s][reference[t]]++; });
+    const mapping = solveAssignment(overlap.map(row => row.map(v => -v)));
+    const matches = decoded.filter((s, t) => mapping[s] === reference[t]).length;
+    return { mapping, accuracy: decoded.length > 0 ? matches / decoded.length : NaN };
+};
+
+// Multi-level Modeling Data
+// Students nested in classrooms with random intercepts and slopes; optionally unequal classroom sizes
+export const generateMultiLevelData = (
+    numGroups: number, 
+    pointsPerGroup: number, 
+    fixedIntercept: number, 
+    fixedSlope: number, 
+    interceptVariance: number, 
+    slopeVariance: number,
+    residualSD = 8,
+    unequalSizes = true
+): GroupPoint[] => {
+    const data: GroupPoint[] = [];
+    let id = 0;
+
+    for (let g = 0; g < numGroups; g++) {
+        // Random effect for this group
+        const groupIntercept = fixedIntercept + normalRandom(0, Math.sqrt(interceptVariance));
+        const groupSlope = fixedSlope + normalRandom(0, Math.sqrt(slopeVariance));
+        const size = unequalSizes
+            ? Math.max(3, Math.round(pointsPerGroup * (0.2 + 1.8 * g / Math.max(1, numGroups - 1))))
+            : pointsPerGroup;
+
+        for (let i = 0; i < size; i++) {
+            const x = Math.random() * 100;
+            const y = groupIntercept + groupSlope * x + normalRandom(0, residualSD);
+            data.push({ id: id++, x, y, groupId: g });
+        }
+    }
+    return data;
+};
+
+// Nelder-Mead simplex minimizer for small, smooth, derivative-free problems
+const minimizeNelderMead = (f: (x: number[]) => number, start: number[], maxIterations = 2000, tolerance = 1e-10): { x: number[], value: number, converged: boolean } => {
+    const n = start.length;
+    let simplex = [start, ...start.map((_, i) => start.map((v, j) => (i === j ? v + (Math.abs(v) > 1e-3 ? 0.1 * v : 0.1) : v)))]
+        .map(x => ({ x, value: f(x) }));
+    for (let iter = 0; iter < maxIterations; iter++) {
+        simplex.sort((a, b) => a.value - b.value);
+        if (Math.abs(simplex[n].value - simplex[0].value) < tolerance * (Math.abs(simplex[0].value) + tolerance)) {
+            return { ...simplex[0], converged: true };
+        }
+        const centroid = start.map((_, j) => simplex.slice(0, n).reduce((sum, s) => sum + s.x[j], 0) / n);
+        const along = (t: number) => centroid.map((c, j) => c + t * (simplex[n].x[j] - c));
+        const reflected = along(-1);
+        const reflectedValue = f(reflected);
+        if (reflectedValue < simplex[0].value) {
+            const expanded = along(-2);
+            const expandedValue = f(expanded);
+            simplex[n] = expandedValue < reflectedValue ? { x: expanded, value: expandedValue } : { x: reflected, value: reflectedValue };
+        } else if (reflectedValue < simplex[n - 1].value) {
+            simplex[n] = { x: reflected, value: reflectedValue };
+        } else {
+            const contracted = reflectedValue < simplex[n].value ? along(-0.5) : along(0.5);
+            const contractedValue = f(contracted);
+            if (contractedValue < Math.min(reflectedValue, simplex[n].value)) {
+                simplex[n] = { x: contracted, value: contractedValue };
+            } else {
+                simplex = simplex.map((s, i) => {
+                    if (i === 0) return s;
+                    const x = s.x.map((v, j) => simplex[0].x[j] + 0.5 * (v - simplex[0].x[j]));
+                    return { x, value: f(x) };
+                });
+            }
+        }
+    }
+    simplex.sort((a, b) => a.value - b.value);
+    return { ...simplex[0], converged: false };
+};
+
+// REML linear mixed model in the lme4 parameterization (Lambda by Nelder-Mead, per-group Woodbury updates)
+export const fitLinearMixedModel = (data: GroupPoint[], structure: RandomEffectsStructure = 'interceptSlope'): MixedModelResult => {
+    const groupIds = [...new Set(data.map(d => d.groupId))].sort((a, b) => a - b);
+    const q = structure === 'interceptSlope' ? 2 : 1;
+    const p = 2;
+    const N = data.length;
+
+    // Sufficient statistics per group; X = [1, x], Z = first q columns of X
+    const groups = groupIds.map(groupId => {
+        const points = data.filter(d => d.groupId === groupId);
+        const XtX = [[0, 0], [0, 0]], Xty = [0, 0];
+        let yty = 0;
+        points.forEach(({ x, y }) => {
+            const row = [1, x];
+            for (let a = 0; a < 2; a++) {
+                Xty[a] += row[a] * y;
+                for (let b = 0; b < 2; b++) XtX[a][b] += row[a] * row[b];
+            }
+            yty += y * y;
+        });
+        return { groupId, points, XtX, Xty, yty, n: points.length };
+    });
+    const ZtZ = (g: typeof groups[number]) => g.XtX.slice(0, q).map(row => row.slice(0, q));
+    const ZtX = (g: typeof groups[number]) => g.XtX.slice(0, q);
+    const Zty = (g: typeof groups[number]) => g.Xty.slice(0, q);
+
+    const lambdaFrom = (theta: number[]): number[][] =>
+        q === 1 ? [[Math.abs(theta[0])]] : [[Math.abs(theta[0]), 0], [theta[1], Math.abs(theta[2])]];
+
+    // Everything REML needs for a given Lambda
+    const evaluate = (theta: number[]) => {
+        const L = lambdaFrom(theta);
+        const Lt = transposeMatrix(L);
+        const XtViX = [[0, 0], [0, 0]], XtViy = [0, 0];
+        let ytViy = 0, logDetW = 0;
+        const perGroup = groups.map(g => {
+            const M = identityMatrix(q).map((row, a) => row.map((v, b) => v + multiplyMatrices(multiplyMatrices(Lt, ZtZ(g)), L)[a][b]));
+            const Minv = invertMatrix(M)!;
+            logDetW += logDeterminantSPD(M);
+            const LtZtX = multiplyMatrices(Lt, ZtX(g)); // q x p
+            const LtZty = multiplyMatrices(Lt, Zty(g).map(v => [v])).map(r => r[0]); // q
+            const correctionX = multiplyMatrices(multiplyMatrices(transposeMatrix(LtZtX), Minv), LtZtX);
+            const correctionXy = multiplyMatrices(transposeMatrix(LtZtX), Minv.map(row => [row.reduce((s, v, k) => s + v * LtZty[k], 0)])).map(r => r[0]);
+            const correctionY = LtZty.reduce((s, v, a) => s + v * Minv[a].reduce((t, m, b) => t + m * LtZty[b], 0), 0);
+            for (let a = 0; a < p; a++) {
+                XtViy[a] += g.Xty[a] - correctionXy[a];
+                for (let b = 0; b < p; b++) XtViX[a][b] += g.XtX[a][b] - correctionX[a][b];
+            }
+            ytViy += g.yty - correctionY;
+            return { Minv, L };
+        });
+        const XtViXinv = invertMatrix(XtViX);
+        if (!XtViXinv) return null;
+        const beta = XtViXinv.map(row => row.reduce((s, v, k) => s + v * XtViy[k], 0));
+        const rss = ytViy - beta.reduce((s, b, a) => s + b * XtViy[a], 0);
+        const sigma2 = rss / (N - p);
+        const deviance = logDetW + logDeterminantSPD(XtViX) + (N - p) * (1 + Math.log(2 * Math.PI * rss / (N - p)));
+        return { beta, sigma2, deviance, XtViXinv, perGroup, L };
+    };
+
+    const start = q === 1 ? [1] : [1, 0, 0.01];
+    const optimum = minimizeNelderMead(theta => evaluate(theta)?.deviance ?? Infinity, start);
+    const fit = evaluate(optimum.x)!;
+    const { beta, sigma2, L } = fit;
+
+    // Random-effect covariance on the data scale
+    const G = multiplyMatrices(L, transposeMatrix(L)).map(row => row.map(v => v * sigma2));
+    const fixedLine: RegressionLine = { intercept: beta[0], slope: beta[1] };
+
+    // BLUPs: b_j = Lambda M_j^-1 Lambda' Z_j' (y_j - X_j beta)
+    const groupEstimates: GroupEffectEstimate[] = groups.map((g, j) => {
+        const residualZ = Zty(g).map((v, a) => v - ZtX(g)[a].reduce((s, x, b) => s + x * beta[b], 0));
+        const u = fit.perGroup[j].Minv.map(row => row.reduce((s, m, b) => s + m * transposeMatrix(L)[b].reduce((t, l, c) => t + l * residualZ[c], 0), 0));
+        const effects = L.map(row => row.reduce((s, l, a) => s + l * u[a], 0));
+        const randomIntercept = effects[0];
+        const randomSlope = q === 2 ? effects[1] : 0;
+        const blup: RegressionLine = { intercept: beta[0] + randomIntercept, slope: beta[1] + randomSlope };
+        const ols = calculateLinearRegression(g.points);
+        // Share of the gap between the group's own line and the fixed line that pooling removes, at the group's mean x
+        const meanX = g.points.reduce((s, d) => s + d.x, 0) / g.n;
+        const at = (line: RegressionLine) => line.intercept + line.slope * meanX;
+        const gap = at(ols) - at(fixedLine);
+        return {
+            groupId: g.groupId,
+            n: g.n,
+            ols,
+            blup,
+            randomIntercept,
+            randomSlope,
+            shrinkage: Math.abs(gap) > 1e-9 ? 1 - (at(blup) - at(fixedLine)) / gap : 0
+        };
+    });
+
+    // Between-within df: effects that vary across groups are tested against the number of groups
+    const J = groups.length;
+    const dfFor = (term: number) => (term === 0 || q === 2 ? J - 1 : N - J - 1);
+    const fixedEffects: FixedEffectEstimate[] = ['Intercept', 'Slope (x)'].map((term, a) => {
+        const se = Math.sqrt(sigma2 * fit.XtViXinv[a][a]);
+        const df = Math.max(1, dfFor(a));
+        const t = beta[a] / se;
+        const critical = studentTQuantile(0.975, df);
+        return { term, estimate: beta[a], se, df, t, p: 2 * studentTCDF(Math.abs(t), df, false), ciLower: beta[a] - critical * se, ciUpper: beta[a] + critical * se };
+    });
+
+    const interceptVariance = G[0][0];
+    const slopeVariance = q === 2 ? G[1][1] : null;
+    const restrictedLogLikelihood = -fit.deviance / 2;
+    const numCovarianceParameters = q === 2 ? 4 : 2;
+
+    return {
+        structure,
+        fixedEffects,
+        fixedLine,
+        variance: {
+            intercept: interceptVariance,
+            slope: slopeVariance,
+            correlation: q === 2 && interceptVariance > 0 && (slopeVariance ?? 0) > 0 ? G[0][1] / Math.sqrt(interceptVariance * (slopeVariance as number)) : null,
+            residual: sigma2
+        },
+        icc: interceptVariance / (interceptVariance + sigma2),
+        groups: groupEstimates,
+        restrictedLogLikelihood,
+        aic: -2 * restrictedLogLikelihood + 2 * numCovarianceParameters,
+        nObservations: N,
+        nGroups: J,
+        converged: optimum.converged
+    };
+};
+
+const FISHER_TABLE_LIMIT = 1000000;
+
+// Fisher's exact test for an r x c table by enumeration (two-sided as in R); null past FISHER_TABLE_LIMIT tables
+const fisherExactTest = (observed: ContingencyTableData, rowTotals: number[], colTotals: number[], grandTotal: number): number | null => {
+    const logFactorial = (k: number) => logGamma(k + 1);
+    const sumLogFactorials = (values: number[]) => values.reduce((sum, v) => sum + logFactorial(v), 0);
+    const constant = sumLogFactorials(rowTotals) + sumLogFactorials(colTotals) - logFactorial(grandTotal);
+    const threshold = constant - sumLogFactorials(observed.flat()) + 1e-7;
+    const rows = rowTotals.length;
+    const cols = colTotals.length;
+    let pValue = 0;
+    let tables = 0;
+
+    // Fill one row at a time; the last row is whatever the column totals leave over
+    const fillRow = (row: number, remaining: number[], logCells: number): boolean => {
+        if (row === rows - 1) {
+            if (++tables > FISHER_TABLE_LIMIT) return false;
+            const logP = constant - logCells - sumLogFactorials(remaining);
+            if (logP <= threshold) pValue += Math.exp(logP);
+            return true;
+        }
+        const fillCell = (col: number, left: number, capacity: number[], logSum: number): boolean => {
+            if (col === cols - 1) {
+                if (left > capacity[col]) return true;
+                const next = [...capacity];
+                next[col] -= left;
+                return fillRow(row + 1, next, logSum + logFactorial(left));
+            }
+            const later = capacity.slice(col + 1).reduce((a, b) => a + b, 0);
+            for (let v = Math.max(0, left - later); v <= Math.min(left, capacity[col]); v++) {
+                const next = [...capacity];
+                next[col] -= v;
+                if (!fillCell(col + 1, left - v, next, logSum + logFactorial(v))) return false;
+            }
+            return true;
+        };
+        return fillCell(0, rowTotals[row], remaining, logCells);
+    };
+
+    return fillRow(0, [...colTotals], 0) ? Math.min(1, pValue) : null;
+};
+
+// Chi-square test with Yates, G², Fisher's exact test, Cramér's V and phi with CIs, and adjusted residuals
+export const calculateChiSquareTest = (observed: ContingencyTableData): ChiSquareResult => {
+    const totalRows = observed.length;
+    const totalCols = observed[0].length;
     
+    const rowTotals = observed.map(row => row.reduce((a, b) => a + b, 0));
+    const colTotals = Array(totalCols).fill(0).map((_, j) => observed.reduce((sum, row) => sum + row[j], 0));
+    const grandTotal = rowTotals.reduce((a, b) => a + b, 0);
+
+    const expected = observed.map((row, i) => 
+        row.map((_, j) => (rowTotals[i] * colTotals[j]) / grandTotal)
+    );
+
+    let chi2 = 0;
+    let g2 = 0;
+    for (let i = 0; i < totalRows; i++) {
+        for (let j = 0; j < totalCols; j++) {
+            const o = observed[i][j];
+            const e = expected[i][j];
+            if (e > 0) {
+                chi2 += Math.pow(o - e, 2) / e;
+                if (o > 0) g2 += 2 * o * Math.log(o / e);
+            }
+        }
+    }
+
+    const degreesOfFreedom = (totalRows - 1) * (totalCols - 1);
+    const pValue = chiSquareCDF(chi2, degreesOfFreedom, false);
+    const is2x2 = totalRows === 2 && totalCols === 2;
+
+    // Yates: shrink every |O - E| by 0.5 (or by the smallest |O - E| if that is less, as R does)
+    let yates: ChiSquareResult['yates'] = null;
+    if (is2x2) {
+        const correction = Math.min(0.5, ...observed.flatMap((row, i) => row.map((o, j) => Math.abs(o - expected[i][j]))));
+        const yatesChi2 = observed.reduce((sum, row, i) => sum + row.reduce((s, o, j) =>
+            s + (expected[i][j] > 0 ? Math.pow(Math.abs(o - expected[i][j]) - correction, 2) / expected[i][j] : 0), 0), 0);
+        yates = { chi2: yatesChi2, pValue: chiSquareCDF(yatesChi2, 1, false) };
+    }
+
+    // Effect sizes: V = sqrt(chi2 / (N (k - 1))); the CI converts the 95% interval for the noncentrality
+    const k = Math.min(totalRows, totalCols);
+    const toV = (value: number) => (grandTotal > 0 && k > 1 ? Math.min(1, Math.sqrt(value / (grandTotal * (k - 1)))) : 0);
+    const solveNoncentrality = (target: number): number => {
+        if (degreesOfFreedom <= 0 || noncentralChiSquareCDF(chi2, degreesOfFreedom, 0) < target) return 0;
+        let lo = 0, hi = Math.max(10, chi2 * 2);
+        while (noncentralChiSquareCDF(chi2, degreesOfFreedom, hi) > target) hi *= 2;
+        for (let i = 0; i < 60; i++) {
+            const mid = (lo + hi) / 2;
+            if (noncentralChiSquareCDF(chi2, degreesOfFreedom, mid) > target) lo = mid;
+            else hi = mid;
+        }
+        return (lo + hi) / 2;
+    };
+    const cramersV: AssociationEffectSize = { estimate: toV(chi2), lower: toV(solveNoncentrality(0.975)), upper: toV(solveNoncentrality(0.025)) };
+    let phi: AssociationEffectSize | null = null;
+    if (is2x2) {
+        const denominator = Math.sqrt(rowTotals[0] * rowTotals[1] * colTotals[0] * colTotals[1]);
+        const signed = denominator > 0 ? (observed[0][0] * observed[1][1] - observed[0][1] * observed[1][0]) / denominator : 0;
+        phi = signed >= 0
+            ? { estimate: signed, lower: cramersV.lower, upper: cramersV.upper }
+            : { estimate: signed, lower: -cramersV.upper, upper: -cramersV.lower };
+    }
+
+    const adjustedResiduals = observed.map((row, i) => row.map((o, j) => {
+        const e = expected[i][j];
+        const variance = e * (1 - rowTotals[i] / grandTotal) * (1 - colTotals[j] / grandTotal);
+        return variance > 0 ? (o - e) / Math.sqrt(variance) : 0;
+    }));
+
+    const fisherPValue = grandTotal > 0 ? fisherExactTest(observed, rowTotals, colTotals, grandTotal) : null;
+    const lowExpectedCells = expected.flat().filter(e => e < 5).length;
+    const warning = lowExpectedCells > 0
+        ? `${lowExpectedCells} of ${totalRows * totalCols} cells have expected counts below 5, so the χ² approximation may be poor; ${fisherPValue !== null ? "rely on Fisher's exact test" : 'combine sparse categories'}.`
+        : null;
+
+    return {
+        chi2,
+        pValue,
+        degreesOfFreedom,
+        expected,
+        yates,
+        likelihoodRatio: { g2, pValue: chiSquareCDF(g2, degreesOfFreedom, false) },
+        fisherPValue,
+        cramersV,
+        phi,
+        adjustedResiduals,
+        lowExpectedCells,
+        warning
+    };
+};
+
+
+// Logistic Regression (maximum likelihood by Fisher scoring / IRLS)
+// Logistic regression iterated like R's glm; `ridge` (default 0) only stabilises the Newton step for all-zero columns
+export const fitLogisticRegression = (X: number[][], y: number[], predictorNames: string[] = [], ridge = 0): LogisticRegressionResult => {
+    const n = y.length;
+    const design = X.map(row => [1, ...row]);
+    const p = design[0].length;
+    const eps = 1e-10;
+    const probabilitiesOf = (beta: number[]) => design.map(row => 1 / (1 + Math.exp(-row.reduce((sum, x, j) => sum + x * beta[j], 0))));
+    const devianceOf = (probabilities: number[]) => -2 * probabilities.reduce((sum, pi, i) =>
+        sum + (y[i] === 1 ? Math.log(Math.max(pi, 1e-300)) : Math.log(Math.max(1 - pi, 1e-300))), 0);
+    const informationOf = (probabilities: number[]) => Array.from({ length: p }, (_, j) => Array.from({ length: p }, (_, k) =>
+        design.reduce((sum, row, i) => sum + row[j] * row[k] * probabilities[i] * (1 - probabilities[i]), 0)));
+
+    let beta = new Array<number>(p).fill(0);
+    let probabilities = probabilitiesOf(beta);
+    let deviance = devianceOf(probabilities);
+    let iterations = 0;
+    let converged = false;
+    while (iterations < 25) {
+        iterations++;
+        const inverse = invertMatrix(informationOf(probabilities).map((row, j) => row.map((v, k) => v + (j === k ? ridge : 0))));
+        if (!inverse) break;
+        const score = Array.from({ length: p }, (_, j) => design.reduce((sum, row, i) => sum + row[j] * (y[i] - probabilities[i]), 0));
+        const step = inverse.map(row => row.reduce((sum, v, k) => sum + v * score[k], 0));
+        let scale = 1;
+        let candidate = beta.map((b, j) => b + step[j]);
+        let candidateProbabilities = probabilitiesOf(candidate);
+        let candidateDeviance = devianceOf(candidateProbabilities);
+        while (candidateDeviance > deviance + 1e-12 && scale > 1e-4) {
+            scale /= 2;
+            candidate = beta.map((b, j) => b + scale * step[j]);
+            candidateProbabilities = probabilitiesOf(candidate);
+            candidateDeviance = devianceOf(candidateProbabilities);
+        }
+        const change = Math.abs(candidateDeviance - deviance) / (Math.abs(candidateDeviance) + 0.1);
+        beta = candidate;
+        probabilities = candidateProbabilities;
+        deviance = candidateDeviance;
+        if (change < 1e-8) {
+            converged = true;
+            break;
+        }
+    }
+
+    const covariance = invertMatrix(informationOf(probabilities)) ?? Array.from({ length: p }, () => new Array(p).fill(NaN));
+    const z975 = normalQuantile(0.975);
+    const coefficients: LogisticCoefficient[] = beta.map((estimate, j) => {
+        const se = Math.sqrt(Math.max(covariance[j][j], 0));
+        const z = estimate / se;
+        return {
+            term: j === 0 ? '(Intercept)' : predictorNames[j - 1] ?? `x${j}`,
+            estimate,
+            se,
+            z,
+            p: 2 * normalCDF(Math.abs(z), 0, 1, false),
+            oddsRatio: Math.exp(estimate),
+            orLower: Math.exp(estimate - z975 * se),
+            orUpper: Math.exp(estimate + z975 * se)
+        };
+    });
+
+    const events = y.reduce((a, b) => a + b, 0);
+    const base = events / n;
+    const nullLogLikelihood = events > 0 && events < n ? events * Math.log(base) + (n - events) * Math.log(1 - base) : 0;
+    const logLikelihood = -deviance / 2;
+    const nullDeviance = -2 * nullLogLikelihood;
+    const lrChiSquare = Math.max(0, nullDeviance - deviance);
+    return {
+        coefficients,
+        covariance,
+        fitted: probabilities,
+        n,
+        logLikelihood,
+        nullLogLikelihood,
+        deviance,
+        nullDeviance,
+        aic: deviance + 2 * p,
+        mcFaddenR2: nullLogLikelihood !== 0 ? 1 - logLikelihood / nullLogLikelihood : 0,
+        lrChiSquare,
+        lrDf: p - 1,
+        lrPValue: p > 1 ? chiSquareCDF(lrChiSquare, p - 1, false) : 1,
+        iterations,
+        converged,
+        separation: probabilities.some(pi => pi < eps || pi > 1 - eps)
+    };
+};
+
+// Single-predictor curve for the plot, from the maximum-likelihood fit
+export const calculateLogisticRegression = (data: LogisticPoint[]): LogisticCurveParams => {
+    const outcomes = data.map(p => p.outcome);
+    if (data.length < 2 || outcomes.every(o => o === outcomes[0])) return { beta0: 0, beta1: 0 };
+    const fit = fitLogisticRegression(data.map(p => [p.x]), outcomes, ['x']);
+    return { beta0: fit.coefficients[0].estimate, beta1: fit.coefficients[1].estimate };
+};
+
+export const predictLogisticProbability = (x: number, params: LogisticCurveParams): number => {
+    const z = params.beta0 + params.beta1 * x;
+    return 1 / (1 + Math.exp(-z));
+};
+
+export const calculateConfusionMatrix = (probabilities: number[], labels: number[], threshold: number): ConfusionMatrix => {
+    let truePositive = 0, falsePositive = 0, trueNegative = 0, falseNegative = 0;
+    probabilities.forEach((prob, i) => {
+        const predicted = prob >= threshold ? 1 : 0;
+        if (predicted === 1 && labels[i] === 1) truePositive++;
+        else if (predicted === 1) falsePositive++;
+        else if (labels[i] === 0) trueNegative++;
+        else falseNegative++;
+    });
+    const safe = (a: number, b: number) => (b > 0 ? a / b : 0);
+    return {
+        threshold,
+        truePositive,
+        falsePositive,
+        trueNegative,
+        falseNegative,
+        accuracy: safe(truePositive + trueNegative, labels.length),
+        sensitivity: safe(truePositive, truePositive + falseNegative),
+        specificity: safe(trueNegative, trueNegative + falsePositive),
+        precision: safe(truePositive, truePositive + falsePositive)
+    };
+};
+
+// Empirical ROC curve, one point per distinct predicted probability (highest threshold first)
+export const calculateRocCurve = (probabilities: number[], labels: number[]): { points: RocPoint[], auc: number } => {
+    const positives = labels.filter(l => l === 1).length;
+    const negatives = labels.length - positives;
+    const thresholds = [...new Set(probabilities)].sort((a, b) => b - a);
+    const points: RocPoint[] = [{ threshold: Infinity, fpr: 0, tpr: 0 }];
+    thresholds.forEach(threshold => {
+        const matrix = calculateConfusionMatrix(probabilities, labels, threshold);
+        points.push({ threshold, fpr: negatives > 0 ? matrix.falsePositive / negatives : 0, tpr: positives > 0 ? matrix.truePositive / positives : 0 });
+    });
+    return { points, auc: calculateAuc(probabilities, labels) };
+};
+
+// Calibration by groups of predicted risk with the Hosmer-Lemeshow test on groups - 2 df
+export const calculateCalibrationCurve = (probabilities: number[], labels: number[], groups = 10): CalibrationResult => {
+    const order = probabilities.map((_, i) => i).sort((a, b) => probabilities[a] - probabilities[b]);
+    const numGroups = Math.max(1, Math.min(groups, order.length));
+    const z = normalQuantile(0.975);
+    const bins: CalibrationBin[] = [];
+    let chiSquare = 0;
+    for (let g = 0; g < numGroups; g++) {
+        const members = order.slice(Math.floor(g * order.length / numGroups), Math.floor((g + 1) * order.length / numGroups));
+        if (members.length === 0) continue;
+        const count = members.length;
+        const expected = members.reduce((sum, i) => sum + probabilities[i], 0);
+        const observed = members.reduce((sum, i) => sum + labels[i], 0);
+        const rate = observed / count;
+        // Wilson score interval
+        const centre = (rate + z * z / (2 * count)) / (1 + z * z / count);
+        const half = z * Math.sqrt(rate * (1 - rate) / count + z * z / (4 * count * count)) / (1 + z * z / count);
+        bins.push({ meanPredicted: expected / count, observedRate: rate, count, lower: Math.max(0, centre - half), upper: Math.min(1, centre + half) });
+        const meanP = expected / count;
+        if (meanP > 0 && meanP < 1) chiSquare += (observed - expected) ** 2 / (count * meanP * (1 - meanP));
+    }
+    const df = Math.max(1, bins.length - 2);
+    return { bins, hosmerLemeshow: { chiSquare, df, p: chiSquareCDF(chiSquare, df, false) } };
+};
+
+// Decision Tree (recursive partitioning with Gini or entropy, cost-complexity pruning and random forests)
+const nodeImpurity = (counts: number[], total: number, criterion: SplitCriterion): number => {
+    if (total === 0) return 0;
+    return criterion === 'gini'
+        ? 1 - counts.reduce((sum, c) => sum + (c / total) ** 2, 0)
+        : -counts.reduce((sum, c) => sum + (c > 0 ? (c / total) * Math.log2(c / total) : 0), 0);
+};
+
+const majorityClass = (counts: number[]): number => counts.reduce((best, c, i) => (c > counts[best] ? i : best), 0);
+
+export const calculateDecisionTree = (
+    data: DecisionTreePoint[],
+    maxDepth: number,
+    minSamples: number,
+    options: DecisionTreeOptions = {}
+): DecisionTreeNode => {
+    const { criterion = 'gini', maxFeatures } = options;
+    const numClasses = options.numClasses ?? Math.max(1, ...data.map(p => p.label + 1));
+    const numFeatures = data[0]?.features.length ?? 0;
+
+    const countClasses = (points: DecisionTreePoint[]) => {
+        const counts = new Array(numClasses).fill(0);
+        points.forEach(p => counts[p.label]++);
+        return counts;
+    };
+
+    const candidateFeatures = (): number[] => {
+        const all = Array.from({ length: numFeatures }, (_, i) => i);
+        if (maxFeatures === undefined || maxFeatures >= numFeatures) return all;
+        for (let i = all.length - 1; i > 0; i--) {
+            const j = Math.floor(Math.random() * (i + 1));
+            [all[i], all[j]] = [all[j], all[i]];
+        }
+        return all.slice(0, Math.max(1, maxFeatures));
+    };
+
     const buildTree = (points: DecisionTreePoint[], depth: number): DecisionTreeNode => {
         const numSamples = points.length;
-        const numClass0 = points.filter(p => p.label === 0).length;
-        const numClass1 = points.filter(p => p.label === 1).length;
-        const gini = 1 - Math.pow(numClass0 / numSamples, 2) - Math.pow(numClass1 / numSamples, 2);
+        const classCounts = countClasses(points);
+        const impurity = nodeImpurity(classCounts, numSamples, criterion);
+        const leaf: DecisionTreeNode = { id: `leaf-${Math.random()}`, value: majorityClass(classCounts), samples: numSamples, classCounts, impurity };
 
         // Base cases (Leaf node)
-        if (depth >= maxDepth || numSamples < minSamples || numClass0 === 0 || numClass1 === 0) {
-            return {
-                id: `leaf-${Math.random()}`,
-                value: numClass1 > numClass0 ? 1 : 0,
-                samples: numSamples,
-                gini
-            };
-        }
+        if (depth >= maxDepth || numSamples < minSamples || impurity === 0) return leaf;
 
-        // Find best split
-        let bestGini = Infinity;
+        // Best split: every midpoint between consecutive distinct values, sweeping the sorted points once per feature
+        let bestImpurity = Infinity;
         let bestSplit = { featureIndex: 0, threshold: 0 };
-        let bestLeft: DecisionTreePoint[] = [];
-        let bestRight: DecisionTreePoint[] = [];
-
-        for (let featureIndex = 0; featureIndex < 2; featureIndex++) {
-            // Simple grid search for threshold
-            // Sort unique values
-            const values = Array.from(new Set(points.map(p => p.features[featureIndex]))).sort((a, b) => a - b);
-            
-            for (let i = 0; i < values.length - 1; i += Math.max(1, Math.floor(values.length/10))) {
-                const threshold = (values[i] + values[i+1]) / 2;
-                const left = points.filter(p => p.features[featureIndex] <= threshold);
-                const right = points.filter(p => p.features[featureIndex] > threshold);
-                
-                if (left.length === 0 || right.length === 0) continue;
-
-                const giniLeft = 1 - Math.pow(left.filter(p => p.label === 0).length / left.length, 2) - Math.pow(left.filter(p => p.label === 1).length / left.length, 2);
-                const giniRight = 1 - Math.pow(right.filter(p => p.label === 0).length / right.length, 2) - Math.pow(right.filter(p => p.label === 1).length / right.length, 2);
-                const weightedGini = (left.length * giniLeft + right.length * giniRight) / numSamples;
-
-                if (weightedGini < bestGini) {
-                    bestGini = weightedGini;
-                    bestSplit = { featureIndex, threshold };
-                    bestLeft = left;
-                    bestRight = right;
+        for (const featureIndex of candidateFeatures()) {
+            const sorted = [...points].sort((a, b) => a.features[featureIndex] - b.features[featureIndex]);
+            const leftCounts = new Array(numClasses).fill(0);
+            const rightCounts = [...classCounts];
+            for (let i = 0; i < numSamples - 1; i++) {
+                leftCounts[sorted[i].label]++;
+                rightCounts[sorted[i].label]--;
+                const value = sorted[i].features[featureIndex];
+                const next = sorted[i + 1].features[featureIndex];
+                if (value === next) continue;
+                const nLeft = i + 1, nRight = numSamples - nLeft;
+                const weighted = (nLeft * nodeImpurity(leftCounts, nLeft, criterion) + nRight * nodeImpurity(rightCounts, nRight, criterion)) / numSamples;
+                if (weighted < bestImpurity) {
+                    bestImpurity = weighted;
+                    bestSplit = { featureIndex, threshold: (value + next) / 2 };
                 }
             }
         }
-        
-        if (bestGini >= gini) { // No improvement
-             return {
-                id: `leaf-${Math.random()}`,
-                value: numClass1 > numClass0 ? 1 : 0,
-                samples: numSamples,
-                gini
-            };
-        }
 
+        if (bestImpurity >= impurity - 1e-12) return leaf; // No improvement
+
+        const left = points.filter(p => p.features[bestSplit.featureIndex] <= bestSplit.threshold);
+        const right = points.filter(p => p.features[bestSplit.featureIndex] > bestSplit.threshold);
         return {
+            ...leaf,
             id: `node-${Math.random()}`,
             splitFeatureIndex: bestSplit.featureIndex,
             splitThreshold: bestSplit.threshold,
-            left: buildTree(bestLeft, depth + 1),
-            right: buildTree(bestRight, depth + 1),
-            samples: numSamples,
-            gini
+            left: buildTree(left, depth + 1),
+            right: buildTree(right, depth + 1)
         };
     };
 
     return buildTree(data, 0);
 };
 
+const isLeaf = (node: DecisionTreeNode): boolean => !node.left || !node.right;
+
+export const predictDecisionTree = (node: DecisionTreeNode, features: number[]): number => {
+    let current = node;
+    while (!isLeaf(current)) {
+        current = features[current.splitFeatureIndex!] <= current.splitThreshold! ? current.left! : current.right!;
+    }
+    return current.value ?? 0;
+};
+
+export const countTreeLeaves = (node: DecisionTreeNode): number => (isLeaf(node) ? 1 : countTreeLeaves(node.left!) + countTreeLeaves(node.right!));
+
+// Training misclassifications of a node if it were a leaf
+const leafErrors = (node: DecisionTreeNode): number => (node.samples ?? 0) - Math.max(0, ...(node.classCounts ?? [0]));
+
+// Cost-complexity pruning: collapse splits whose weakest-link value g(t) is at most alpha
+export const pruneDecisionTree = (tree: DecisionTreeNode, alpha: number): DecisionTreeNode => {
+    const total = tree.samples ?? 1;
+    const prune = (node: DecisionTreeNode): { node: DecisionTreeNode, errors: number, leaves: number } => {
+        if (isLeaf(node)) return { node, errors: leafErrors(node), leaves: 1 };
+        const left = prune(node.left!);
+        const right = prune(node.right!);
+        const errors = left.errors + right.errors;
+        const leaves = left.leaves + right.leaves;
+        const g = (leafErrors(node) - errors) / total / (leaves - 1);
+        if (g <= alpha + 1e-12) {
+            const { splitFeatureIndex, splitThreshold, left: _l, right: _r, ...rest } = node;
+            return { node: { ...rest, id: `leaf-${Math.random()}` }, errors: leafErrors(node), leaves: 1 };
+        }
+        return { node: { ...node, left: left.node, right: right.node }, errors, leaves };
+    };
+    return prune(tree).node;
+};
+
+// The alphas at which the optimal subtree changes, from the full tree down to the root
+const costComplexityAlphas = (tree: DecisionTreeNode): number[] => {
+    const total = tree.samples ?? 1;
+    const alphas: number[] = [];
+    let alpha = 0;
+    let current = pruneDecisionTree(tree, 0);
+    alphas.push(0);
+    while (!isLeaf(current)) {
+        let weakest = Infinity;
+        const visit = (node: DecisionTreeNode): { errors: number, leaves: number } => {
+            if (isLeaf(node)) return { errors: leafErrors(node), leaves: 1 };
+            const l = visit(node.left!), r = visit(node.right!);
+            const errors = l.errors + r.errors, leaves = l.leaves + r.leaves;
+            weakest = Math.min(weakest, (leafErrors(node) - errors) / total / (leaves - 1));
+            return { errors, leaves };
+        };
+        visit(current);
+        alpha = Math.max(weakest, alpha);
+        alphas.push(alpha);
+        current = pruneDecisionTree(current, alpha);
+    }
+    return alphas;
+};
+
+const shuffledFolds = (n: number, folds: number): number[] => {
+    const order = Array.from({ length: n }, (_, i) => i);
+    for (let i = n - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+    const fold = new Array(n).fill(0);
+    order.forEach((index, rank) => { fold[index] = rank % folds; });
+    return fold;
+};
+
+// Cost-complexity path with K-fold CV, pruning each fold at the geometric midpoints of the full-data alphas
+export const crossValidatePruning = (
+    data: DecisionTreePoint[],
+    maxDepth: number,
+    minSamples: number,
+    options: DecisionTreeOptions = {},
+    folds = 5
+): PruningResult => {
+    const numClasses = options.numClasses ?? Math.max(1, ...data.map(p => p.label + 1));
+    const treeOptions = { ...options, numClasses, maxFeatures: undefined };
+    const fullTree = calculateDecisionTree(data, maxDepth, minSamples, treeOptions);
+    const alphas = costComplexityAlphas(fullTree);
+    const probes = alphas.map((a, i) => (i + 1 < alphas.length ? Math.sqrt(a * alphas[i + 1]) : a));
+
+    const foldOf = shuffledFolds(data.length, folds);
+    const cvErrors = new Array(alphas.length).fill(0);
+    for (let f = 0; f < folds; f++) {
+        const train = data.filter((_, i) => foldOf[i] !== f);
+        const test = data.filter((_, i) => foldOf[i] === f);
+        const foldTree = calculateDecisionTree(train, maxDepth, minSamples, treeOptions);
+        probes.forEach((beta, k) => {
+            const pruned = pruneDecisionTree(foldTree, beta);
+            cvErrors[k] += test.filter(p => predictDecisionTree(pruned, p.features) !== p.label).length;
+        });
+    }
+
+    const N = data.length;
+    const path = alphas.map((alpha, k) => {
+        const tree = pruneDecisionTree(fullTree, alpha);
+        const cvError = cvErrors[k] / N;
+        return {
+            alpha,
+            leaves: countTreeLeaves(tree),
+            trainError: data.filter(p => predictDecisionTree(tree, p.features) !== p.label).length / N,
+            cvError,
+            cvSE: Math.sqrt(cvError * (1 - cvError) / N)
+        };
+    });
+
+    // Ties go to the larger alpha, i.e. the simpler tree
+    const best = path.reduce((b, p) => (p.cvError <= b.cvError ? p : b), path[0]);
+    const oneSE = path.filter(p => p.cvError <= best.cvError + best.cvSE).reduce((b, p) => (p.alpha > b.alpha ? p : b), best);
+    return { path, bestAlpha: best.alpha, oneSEAlpha: oneSE.alpha, folds };
+};
+
+export const predictRandomForest = (model: RandomForestModel, features: number[]): { label: number, probabilities: number[] } => {
+    const votes = new Array(model.numClasses).fill(0);
+    model.trees.forEach(tree => { votes[predictDecisionTree(tree, features)]++; });
+    const probabilities = votes.map(v => v / Math.max(model.trees.length, 1));
+    return { label: majorityClass(votes), probabilities };
+};
+
+// Random forest with out-of-bag error and permutation importances
+export const trainRandomForest = (
+    data: DecisionTreePoint[],
+    options: { numTrees?: number, maxDepth?: number, minSamples?: number, criterion?: SplitCriterion, maxFeatures?: number, featureNames?: string[] } = {}
+): RandomForestModel => {
+    const numFeatures = data[0]?.features.length ?? 0;
+    const {
+        numTrees = 100,
+        maxDepth = 20,
+        minSamples = 2,
+        criterion = 'gini',
+        maxFeatures = Math.max(1, Math.round(Math.sqrt(numFeatures))),
+        featureNames = Array.from({ length: numFeatures }, (_, i) => `X${i + 1}`)
+    } = options;
+    const numClasses = Math.max(1, ...data.map(p => p.label + 1));
+    const N = data.length;
+
+    const trees: DecisionTreeNode[] = [];
+    const oobVotes = data.map(() => new Array(numClasses).fill(0));
+    const oobErrorCurve: (number | null)[] = [];
+    const impurityDecrease = new Array(numFeatures).fill(0);
+    const permutationDrop = new Array(numFeatures).fill(0);
+    let permutationTrees = 0;
+
+    for (let t = 0; t < numTrees; t++) {
+        const inBag = new Array(N).fill(false);
+        const sample = Array.from({ length: N }, () => {
+            const index = Math.floor(Math.random() * N);
+            inBag[index] = true;
+            return data[index];
+        });
+        const tree = calculateDecisionTree(sample, maxDepth, minSamples, { criterion, maxFeatures, numClasses });
+        trees.push(tree);
+
+        const accumulate = (node: DecisionTreeNode) => {
+            if (isLeaf(node)) return;
+            impurityDecrease[node.splitFeatureIndex!] +=
+                ((node.samples ?? 0) * (node.impurity ?? 0) - (node.left!.samples ?? 0) * (node.left!.impurity ?? 0) - (node.right!.samples ?? 0) * (node.right!.impurity ?? 0)) / N;
+            accumulate(node.left!);
+            accumulate(node.right!);
+        };
+        accumulate(tree);
+
+        const oob = data.map((_, i) => i).filter(i => !inBag[i]);
+        oob.forEach(i => { oobVotes[i][predictDecisionTree(tree, data[i].features)]++; });
+        const voted = oobVotes.map((v, i) => ({ v, i })).filter(({ v }) => v.some(c => c > 0));
+        oobErrorCurve.push(voted.length > 0 ? voted.filter(({ v, i }) => majorityClass(v) !== data[i].label).length / voted.length : null);
+
+        // Permutation importance on this tree's out-of-bag points
+        if (oob.length > 1) {
+            const baseline = oob.filter(i => predictDecisionTree(tree, data[i].features) === data[i].label).length / oob.length;
+            for (let f = 0; f < numFeatures; f++) {
+                const shuffled = shuffle(oob.map(i => data[i].features[f]));
+                const permuted = oob.filter((i, r) => {
+                    const features = [...data[i].features];
+                    features[f] = shuffled[r];
+                    return predictDecisionTree(tree, features) === data[i].label;
+                }).length / oob.length;
+                permutationDrop[f] += baseline - permuted;
+            }
+            permutationTrees++;
+        }
+    }
+
+    const totalDecrease = impurityDecrease.reduce((a, b) => a + b, 0) || 1;
+    return {
+        trees,
+        numClasses,
+        maxFeatures,
+        oobError: oobErrorCurve[oobErrorCurve.length - 1] ?? null,
+        oobErrorCurve,
+        featureImportances: featureNames.map((feature, f) => ({
+            feature,
+            impurityDecrease: impurityDecrease[f] / totalDecrease,
+            permutation: permutationTrees > 0 ? permutationDrop[f] / permutationTrees : 0
+        }))
+    };
+};
+
 // K-Means Helpers
 export const assignToClusters = (points: KMeansPoint[], centroids: Centroid[]): KMeansPoint[] => {
     if (centroids.length === 0) return points;
@@ -553,41 +2129,292 @@ export const calculateKMeansInertia = (points: KMeansPoint[], centroids: Centroi
     return inertia;
 };
 
-// PCA Calculation (Simplified 2D projection from 3D)
-export const calculatePCA = (data: PCA3DPoint[]): PCAResult => {
-    // 1. Center the data
-    const meanX = data.reduce((s, p) => s + p.x, 0) / data.length;
-    const meanY = data.reduce((s, p) => s + p.y, 0) / data.length;
-    const meanZ = data.reduce((s, p) => s + p.z, 0) / data.length;
-    
-    const centered = data.map(p => [p.x - meanX, p.y - meanY, p.z - meanZ]);
+// Multi-dimensional clustering: rows are observations, columns variables
+const squaredDistance = (a: number[], b: number[]): number => a.reduce((sum, v, i) => sum + (v - b[i]) ** 2, 0);
 
-    // 2. Covariance Matrix (3x3) - simplified computation
-    // We can use numeric.js or math.js in a real app, but here we'll just project 
-    // onto arbitrary orthogonal vectors that roughly align with variance for the demo visual
-    // because implementing full Eigenvalue decomposition in vanilla TS without libraries is verbose.
-    
-    // Fake PCA for visualization: 
-    // Assume major variance is x-y plane for the generated ellipsoid
-    const pc1 = [1, 0.2, 0.1]; // roughly x axis
-    const pc2 = [-0.2, 1, 0.1]; // roughly y axis
-    
-    // Normalize
-    const norm = (v: number[]) => Math.sqrt(v.reduce((s, n) => s + n*n, 0));
-    const normalize = (v: number[]) => { const n = norm(v); return v.map(x => x/n); };
-    
-    const v1 = normalize(pc1);
-    const v2 = normalize(pc2);
+const nearestCenter = (row: number[], centers: number[][]): { index: number, distance: number } =>
+    centers.reduce((best, c, index) => {
+        const distance = squaredDistance(row, c);
+        return distance < best.distance ? { index, distance } : best;
+    }, { index: 0, distance: Infinity });
 
-    // Project
-    const projectedData = centered.map((p, i) => ({
-        id: data[i].id,
-        x: p[0] * v1[0] + p[1] * v1[1] + p[2] * v1[2],
-        y: p[0] * v2[0] + p[1] * v2[1] + p[2] * v2[2]
-    }));
-    
-    // Scale to fit 0-100 box for 2D view
-    const projX = projectedData.map(p => p.x);
+// k-means++ (Arthur & Vassilvitskii, 2007): each new seed is drawn with probability proportional to D(x)^2
+export const kMeansPlusPlusSeeds = (data: number[][], k: number): number[] => {
+    const seeds = [Math.floor(Math.random() * data.length)];
+    const distances = data.map(row => squaredDistance(row, data[seeds[0]]));
+    while (seeds.length < Math.min(k, data.length)) {
+        const total = distances.reduce((a, b) => a + b, 0);
+        const next = total > 0 ? sampleIndex(distances.map(d => d / total)) : Math.floor(Math.random() * data.length);
+        seeds.push(next);
+        data.forEach((row, i) => { distances[i] = Math.min(distances[i], squaredDistance(row, data[next])); });
+    }
+    return seeds;
+};
+
+const randomSeeds = (n: number, k: number): number[] => {
+    const chosen = new Set<number>();
+    while (chosen.size < Math.min(k, n)) chosen.add(Math.floor(Math.random() * n));
+    return [...chosen];
+};
+
+const withinClusterSS = (data: number[][], assignments: number[], k: number): number => {
+    const dims = data[0]?.length ?? 0;
+    const sums = Array.from({ length: k }, () => new Array(dims).fill(0));
+    const counts = new Array(k).fill(0);
+    data.forEach((row, i) => { counts[assignments[i]]++; row.forEach((v, d) => { sums[assignments[i]][d] += v; }); });
+    const means = sums.map((s, c) => s.map(v => v / Math.max(counts[c], 1)));
+    return data.reduce((sum, row, i) => sum + squaredDistance(row, means[assignments[i]]), 0);
+};
+
+// Lloyd's algorithm from one set of seeds; an empty cluster is re-seeded at the point farthest from its center
+const lloyd = (data: number[][], seeds: number[], maxIterations: number) => {
+    let centers = seeds.map(i => [...data[i]]);
+    let assignments = new Array(data.length).fill(-1);
+    let iterations = 0;
+    let converged = false;
+    while (iterations < maxIterations) {
+        iterations++;
+        const nearest = data.map(row => nearestCenter(row, centers));
+        const next = nearest.map(n => n.index);
+        const changed = next.some((c, i) => c !== assignments[i]);
+        assignments = next;
+        if (!changed) {
+            converged = true;
+            break;
+        }
+        const dims = data[0].length;
+        const sums = centers.map(() => new Array(dims).fill(0));
+        const counts = new Array(centers.length).fill(0);
+        data.forEach((row, i) => { counts[assignments[i]]++; row.forEach((v, d) => { sums[assignments[i]][d] += v; }); });
+        centers = sums.map((s, c) => {
+            if (counts[c] > 0) return s.map(v => v / counts[c]);
+            const farthest = nearest.reduce((best, n, i) => (n.distance > nearest[best].distance ? i : best), 0);
+            return [...data[farthest]];
+        });
+    }
+    const objective = data.reduce((sum, row, i) => sum + squaredDistance(row, centers[assignments[i]]), 0);
+    return { centers, assignments, objective, iterations, converged, medoidIndices: null as number[] | null };
+};
+
+// PAM swap phase (Kaufman & Rousseeuw): apply the best medoid/non-medoid exchange until none lowers the cost.
+// Each swap is costed in O(n) from every point's nearest and second-nearest medoid distances.
+const pam = (distances: number[][], seeds: number[], maxIterations: number) => {
+    const n = distances.length;
+    const medoids = [...seeds];
+    const nearestTwo = () => distances.map(row => {
+        let first = -1, d1 = Infinity, d2 = Infinity;
+        medoids.forEach((m, slot) => {
+            const d = row[m];
+            if (d < d1) { d2 = d1; d1 = d; first = slot; } else if (d < d2) { d2 = d; }
+        });
+        return { slot: first, d1, d2 };
+    });
+    let nearest = nearestTwo();
+    let iterations = 0;
+    let converged = false;
+    while (iterations < maxIterations) {
+        iterations++;
+        let best = { delta: -1e-12, slot: -1, candidate: -1 };
+        for (let candidate = 0; candidate < n; candidate++) {
+            if (medoids.includes(candidate)) continue;
+            for (let slot = 0; slot < medoids.length; slot++) {
+                let delta = 0;
+                for (let j = 0; j < n; j++) {
+                    const { slot: own, d1, d2 } = nearest[j];
+                    const toCandidate = distances[j][candidate];
+                    delta += Math.min(own === slot ? d2 : d1, toCandidate) - d1;
+                }
+                if (delta < best.delta) best = { delta, slot, candidate };
+            }
+        }
+        if (best.slot === -1) {
+            converged = true;
+            break;
+        }
+        medoids[best.slot] = best.candidate;
+        nearest = nearestTwo();
+    }
+    return {
+        medoids,
+        assignments: nearest.map(p => p.slot),
+        objective: nearest.reduce((sum, p) => sum + p.d1, 0),
+        iterations,
+        converged
+    };
+};
+
+// PAM keeps an n x n distance matrix and costs O(k n^2) per swap pass, so larger data sets are clustered by CLARA
+export const KMEDOIDS_SAMPLE_SIZE = 200;
+
+// k-means or k-medoids (PAM, or CLARA above KMEDOIDS_SAMPLE_SIZE rows), keeping the best of `restarts` runs
+export const runClustering = (data: number[][], k: number, options: ClusteringOptions = {}): ClusteringResult => {
+    const { method = 'kmeans', initialization = 'kmeans++', restarts = 10, maxIterations = 100 } = options;
+    const effectiveK = Math.max(1, Math.min(k, data.length));
+    const sampleSize = method === 'kmedoids' && data.length > KMEDOIDS_SAMPLE_SIZE ? KMEDOIDS_SAMPLE_SIZE : null;
+    const distancesOf = (rows: number[][]) => rows.map(a => rows.map(b => Math.sqrt(squaredDistance(a, b))));
+    const distances = method === 'kmedoids' && sampleSize === null ? distancesOf(data) : null;
+    const seed = (rows: number[][]) => (initialization === 'kmeans++' ? kMeansPlusPlusSeeds(rows, effectiveK) : randomSeeds(rows.length, effectiveK));
+
+    let best: ReturnType<typeof lloyd> | null = null;
+    const restartObjectives: number[] = [];
+    for (let r = 0; r < Math.max(1, restarts); r++) {
+        let run: ReturnType<typeof lloyd>;
+        if (sampleSize !== null) {
+            const sample = randomSeeds(data.length, sampleSize);
+            const sampleRows = sample.map(i => data[i]);
+            const result = pam(distancesOf(sampleRows), seed(sampleRows), maxIterations);
+            const medoids = result.medoids.map(m => sample[m]);
+            const centers = medoids.map(m => [...data[m]]);
+            const nearest = data.map(row => nearestCenter(row, centers));
+            run = {
+                centers,
+                assignments: nearest.map(n => n.index),
+                objective: nearest.reduce((sum, n) => sum + Math.sqrt(n.distance), 0),
+                iterations: result.iterations,
+                converged: result.converged,
+                medoidIndices: medoids
+            };
+        } else if (distances) {
+            const result = pam(distances, seed(data), maxIterations);
+            run = {
+                centers: result.medoids.map(m => [...data[m]]),
+                assignments: result.assignments,
+                objective: result.objective,
+                iterations: result.iterations,
+                converged: result.converged,
+                medoidIndices: result.medoids
+            };
+        } else {
+            run = lloyd(data, seed(data), maxIterations);
+        }
+        restartObjectives.push(run.objective);
+        if (!best || run.objective < best.objective) best = run;
+    }
+
+    const result = best!;
+    return {
+        method,
+        initialization,
+        k: effectiveK,
+        assignments: result.assignments,
+        centers: result.centers,
+        medoidIndices: result.medoidIndices,
+        objective: result.objective,
+        inertia: withinClusterSS(data, result.assignments, effectiveK),
+        clusterSizes: Array.from({ length: effectiveK }, (_, c) => result.assignments.filter(a => a === c).length),
+        iterations: result.iterations,
+        converged: result.converged,
+        restartObjectives,
+        sampleSize
+    };
+};
+
+// Average silhouette width (Rousseeuw, 1987); a point alone in its cluster scores 0
+export const calculateSilhouette = (data: number[][], assignments: number[]): { average: number, values: number[] } => {
+    const k = Math.max(...assignments) + 1;
+    const counts = new Array(k).fill(0);
+    assignments.forEach(a => counts[a]++);
+    const values = data.map((row, i) => {
+        const own = assignments[i];
+        if (counts[own] <= 1) return 0;
+        const totals = new Array(k).fill(0);
+        data.forEach((other, j) => { if (j !== i) totals[assignments[j]] += Math.sqrt(squaredDistance(row, other)); });
+        const a = totals[own] / (counts[own] - 1);
+        const b = Math.min(...totals.map((t, c) => (c === own || counts[c] === 0 ? Infinity : t / counts[c])));
+        if (!Number.isFinite(b)) return 0;
+        return (b - a) / Math.max(a, b);
+    });
+    return { average: values.reduce((a, b) => a + b, 0) / values.length, values };
+};
+
+// Inertia, silhouette and gap statistic for k = 1..kMax (k-medoids on a KMEDOIDS_SAMPLE_SIZE-row subsample)
+export const evaluateClusterCounts = (allData: number[][], kMax: number, options: ClusteringOptions = {}, references = 10): ClusterValidityResult => {
+    const sampleSize = options.method === 'kmedoids' && allData.length > KMEDOIDS_SAMPLE_SIZE ? KMEDOIDS_SAMPLE_SIZE : null;
+    const data = sampleSize === null ? allData : randomSeeds(allData.length, sampleSize).map(i => allData[i]);
+    const maxK = Math.max(1, Math.min(kMax, data.length - 1));
+    const dims = data[0].length;
+    const mins = Array.from({ length: dims }, (_, d) => Math.min(...data.map(r => r[d])));
+    const maxs = Array.from({ length: dims }, (_, d) => Math.max(...data.map(r => r[d])));
+    const referenceSets = Array.from({ length: references }, () =>
+        data.map(() => mins.map((min, d) => min + Math.random() * (maxs[d] - min))));
+    const referenceOptions = { ...options, restarts: Math.min(options.restarts ?? 10, 3) };
+
+    const rows: ClusterValidityRow[] = [];
+    for (let k = 1; k <= maxK; k++) {
+        const fit = runClustering(data, k, options);
+        const logReference = referenceSets.map(ref => Math.log(Math.max(runClustering(ref, k, referenceOptions).inertia, 1e-12)));
+        const meanLog = logReference.reduce((a, b) => a + b, 0) / references;
+        const sd = Math.sqrt(logReference.reduce((sum, v) => sum + (v - meanLog) ** 2, 0) / references);
+        rows.push({
+            k,
+            inertia: fit.inertia,
+            silhouette: k > 1 ? calculateSilhouette(data, fit.assignments).average : null,
+            gap: meanLog - Math.log(Math.max(fit.inertia, 1e-12)),
+            gapSE: sd * Math.sqrt(1 + 1 / references)
+        });
+    }
+
+    // Elbow: the k whose inertia lies farthest below the straight line joining the first and last k
+    const first = rows[0], last = rows[rows.length - 1];
+    const chord = (k: number) => first.inertia + (last.inertia - first.inertia) * (k - first.k) / Math.max(last.k - first.k, 1);
+    const elbowK = rows.reduce((best, r) => (chord(r.k) - r.inertia > chord(best.k) - best.inertia ? r : best), first).k;
+    const withSilhouette = rows.filter(r => r.silhouette !== null);
+    const silhouetteK = withSilhouette.length > 0 ? withSilhouette.reduce((best, r) => (r.silhouette! > best.silhouette! ? r : best)).k : 1;
+    const gapRow = rows.find((r, i) => i === rows.length - 1 || r.gap >= rows[i + 1].gap - rows[i + 1].gapSE);
+
+    return { rows, elbowK, silhouetteK, gapK: gapRow?.k ?? maxK, sampleSize };
+};
+
+// Sample data: three clusters of different spread on two test scores plus a weakly informative third variable
+export const generateClusterData = (count: number): NumericTable => {
+    const clusters = [
+        { mean: [30, 30, 50], sd: [6, 6, 15] },
+        { mean: [70, 65, 60], sd: [8, 8, 15] },
+        { mean: [30, 72, 40], sd: [5, 5, 15] }
+    ];
+    const columns = ['Math', 'Reading', 'Engagement'];
+    const rows = Array.from({ length: count }, (_, i) => {
+        const cluster = clusters[i % clusters.length];
+        return Object.fromEntries(columns.map((col, d) => [col, normalRandom(cluster.mean[d], cluster.sd[d])]));
+    });
+    return { columns, rows, skippedRows: 0 };
+};
+
+// PCA Calculation (Simplified 2D projection from 3D)
+export const calculatePCA = (data: PCA3DPoint[]): PCAResult => {
+    // 1. Center the data
+    const meanX = data.reduce((s, p) => s + p.x, 0) / data.length;
+    const meanY = data.reduce((s, p) => s + p.y, 0) / data.length;
+    const meanZ = data.reduce((s, p) => s + p.z, 0) / data.length;
+    
+    const centered = data.map(p => [p.x - meanX, p.y - meanY, p.z - meanZ]);
+
+    // 2. Covariance Matrix (3x3) - simplified computation
+    // We can use numeric.js or math.js in a real app, but here we'll just project 
+    // onto arbitrary orthogonal vectors that roughly align with variance for the demo visual
+    // because implementing full Eigenvalue decomposition in vanilla TS without libraries is verbose.
+    
+    // Fake PCA for visualization: 
+    // Assume major variance is x-y plane for the generated ellipsoid
+    const pc1 = [1, 0.2, 0.1]; // roughly x axis
+    const pc2 = [-0.2, 1, 0.1]; // roughly y axis
+    
+    // Normalize
+    const norm = (v: number[]) => Math.sqrt(v.reduce((s, n) => s + n*n, 0));
+    const normalize = (v: number[]) => { const n = norm(v); return v.map(x => x/n); };
+    
+    const v1 = normalize(pc1);
+    const v2 = normalize(pc2);
+
+    // Project
+    const projectedData = centered.map((p, i) => ({
+        id: data[i].id,
+        x: p[0] * v1[0] + p[1] * v1[1] + p[2] * v1[2],
+        y: p[0] * v2[0] + p[1] * v2[1] + p[2] * v2[2]
+    }));
+    
+    // Scale to fit 0-100 box for 2D view
+    const projX = projectedData.map(p => p.x);
     const projY = projectedData.map(p => p.y);
     const minX = Math.min(...projX), maxX = Math.max(...projX);
     const minY = Math.min(...projY), maxY = Math.max(...projY);
@@ -629,80 +2456,216 @@ export const calculateMovingAverage = (data: ValueTimePoint[], window: number):
     return maData;
 };
 
-// LPA Logic (Simple GMM-like heuristic)
+// LPA Logic (Gaussian mixture models fitted by EM)
+// Three latent profiles with different orientations, so full covariance structures have something to find
+export const generateLPAData = (count: number): LPAPoint[] => {
+    const profiles = [
+        { mean: [30, 65], sd: [10, 4], angle: Math.PI / 5 },
+        { mean: [70, 35], sd: [9, 5], angle: -Math.PI / 4 },
+        { mean: [55, 70], sd: [5, 5], angle: 0 }
+    ];
+    return Array.from({ length: count }, (_, i) => {
+        const profile = profiles[i % profiles.length];
+        const u = normalRandom(0, profile.sd[0]);
+        const v = normalRandom(0, profile.sd[1]);
+        const x = profile.mean[0] + u * Math.cos(profile.angle) - v * Math.sin(profile.angle);
+        const y = profile.mean[1] + u * Math.sin(profile.angle) + v * Math.cos(profile.angle);
+        return { id: i, x, y, profileId: null, responsibilities: [] };
+    });
+};
+
+const logBivariateNormal = (x: number, y: number, mean: [number, number], cov: [[number, number], [number, number]]): number => {
+    const det = cov[0][0] * cov[1][1] - cov[0][1] * cov[1][0];
+    const dx = x - mean[0], dy = y - mean[1];
+    const quadratic = (cov[1][1] * dx * dx - 2 * cov[0][1] * dx * dy + cov[0][0] * dy * dy) / det;
+    return -Math.log(2 * Math.PI) - 0.5 * Math.log(det) - 0.5 * quadratic;
+};
+
+const sampleCovariance = (points: Point[]): [[number, number], [number, number]] => {
+    const mx = points.reduce((s, p) => s + p.x, 0) / points.length;
+    const my = points.reduce((s, p) => s + p.y, 0) / points.length;
+    let sxx = 0, syy = 0, sxy = 0;
+    points.forEach(p => { sxx += (p.x - mx) ** 2; syy += (p.y - my) ** 2; sxy += (p.x - mx) * (p.y - my); });
+    const n = points.length;
+    return [[sxx / n, sxy / n], [sxy / n, syy / n]];
+};
+
+// Random start: k distinct data points as means, the pooled covariance for every profile
 export const initializeLPA = (points: LPAPoint[], k: number): Profile[] => {
-    const profiles: Profile[] = [];
-    for (let i = 0; i < k; i++) {
-        profiles.push({
-            id: i,
-            mean: [Math.random() * 100, Math.random() * 100],
-            covariance: [[50, 0], [0, 50]],
-            weight: 1 / k
-        });
-    }
-    return profiles;
+    const covariance = sampleCovariance(points);
+    const chosen = new Set<number>();
+    while (chosen.size < Math.min(k, points.length)) chosen.add(Math.floor(Math.random() * points.length));
+    return [...chosen].map((index, id) => ({
+        id,
+        mean: [points[index].x, points[index].y] as [number, number],
+        covariance: [[covariance[0][0], covariance[0][1]], [covariance[1][0], covariance[1][1]]] as [[number, number], [number, number]],
+        weight: 1 / k
+    }));
+};
+
+// Per-point log of the weighted component densities; shared by the E-step and the log-likelihood
+const componentLogDensities = (points: Point[], profiles: Profile[]): number[][] =>
+    points.map(point => profiles.map(profile => Math.log(Math.max(profile.weight, 1e-300)) + logBivariateNormal(point.x, point.y, profile.mean, profile.covariance)));
+
+const logSumExp = (values: number[]): number => {
+    const max = Math.max(...values);
+    return max + Math.log(values.reduce((sum, v) => sum + Math.exp(v - max), 0));
 };
 
 export const expectationStep = (points: LPAPoint[], profiles: Profile[]): LPAPoint[] => {
-    // Calculate responsibilities (E-step)
-    return points.map(point => {
-        const likelihoods = profiles.map(profile => {
-            // Multivariate normal PDF approximation
-            const dx = point.x - profile.mean[0];
-            const dy = point.y - profile.mean[1];
-            // Assuming diagonal covariance for simplicity in this demo or we invert full matrix
-            // Let's use simple Euclidean distance based likelihood for stability in demo
-            const distSq = dx*dx + dy*dy;
-            return profile.weight * Math.exp(-distSq / 200); // 200 is arbitrary variance factor
-        });
-        
-        const sumLikelihood = likelihoods.reduce((a, b) => a + b, 0) || 1;
-        const responsibilities = likelihoods.map(l => l / sumLikelihood);
-        
-        // Assign hard cluster for color
-        const maxResp = Math.max(...responsibilities);
-        const profileId = responsibilities.indexOf(maxResp);
-        
+    const logDensities = componentLogDensities(points, profiles);
+    return points.map((point, i) => {
+        const total = logSumExp(logDensities[i]);
+        const responsibilities = logDensities[i].map(l => Math.exp(l - total));
+        const profileId = responsibilities.indexOf(Math.max(...responsibilities));
         return { ...point, responsibilities, profileId };
     });
 };
 
-export const maximizationStep = (points: LPAPoint[], k: number): Profile[] => {
-    // Update parameters (M-step)
-    const newProfiles: Profile[] = [];
+export const calculateMixtureLogLikelihood = (points: Point[], profiles: Profile[]): number =>
+    componentLogDensities(points, profiles).reduce((sum, row) => sum + logSumExp(row), 0);
+
+// M-step under the EEI, VVI, EEE or VVV covariance structure, with a small variance floor
+export const maximizationStep = (points: LPAPoint[], k: number, structure: LPACovarianceStructure = 'VVV'): Profile[] => {
     const N = points.length;
-    
-    for (let j = 0; j < k; j++) {
+    const overall = sampleCovariance(points);
+    const floor = 1e-3 * Math.max(overall[0][0], overall[1][1], 1e-9);
+
+    const stats = Array.from({ length: k }, (_, j) => {
         const Nj = points.reduce((sum, p) => sum + p.responsibilities[j], 0);
-        if (Nj === 0) {
-             newProfiles.push({ id: j, mean: [50, 50], covariance: [[50,0],[0,50]], weight: 0 });
-             continue;
-        }
-        
-        const newMeanX = points.reduce((sum, p) => sum + p.responsibilities[j] * p.x, 0) / Nj;
-        const newMeanY = points.reduce((sum, p) => sum + p.responsibilities[j] * p.y, 0) / Nj;
-        
-        // Simplified Covariance update (diagonal)
-        let varX = 0, varY = 0;
+        const mean: [number, number] = Nj > 0
+            ? [points.reduce((sum, p) => sum + p.responsibilities[j] * p.x, 0) / Nj, points.reduce((sum, p) => sum + p.responsibilities[j] * p.y, 0) / Nj]
+            : [points[Math.floor(Math.random() * N)].x, points[Math.floor(Math.random() * N)].y];
+        let sxx = 0, syy = 0, sxy = 0;
         points.forEach(p => {
-            varX += p.responsibilities[j] * Math.pow(p.x - newMeanX, 2);
-            varY += p.responsibilities[j] * Math.pow(p.y - newMeanY, 2);
-        });
-        varX /= Nj;
-        varY /= Nj;
-        
-        // Clamp variance
-        varX = Math.max(10, varX);
-        varY = Math.max(10, varY);
-
-        newProfiles.push({
-            id: j,
-            mean: [newMeanX, newMeanY],
-            covariance: [[varX, 0], [0, varY]],
-            weight: Nj / N
+            const r = p.responsibilities[j];
+            sxx += r * (p.x - mean[0]) ** 2;
+            syy += r * (p.y - mean[1]) ** 2;
+            sxy += r * (p.x - mean[0]) * (p.y - mean[1]);
         });
+        return { Nj, mean, scatter: [sxx, sxy, syy] };
+    });
+
+    const pooled = stats.reduce((acc, s) => acc.map((v, i) => v + s.scatter[i] / N), [0, 0, 0]);
+    const equal = structure === 'EEI' || structure === 'EEE';
+    const diagonal = structure === 'EEI' || structure === 'VVI';
+
+    return stats.map((s, id) => {
+        const [sxx, sxy, syy] = equal ? pooled : s.scatter.map(v => v / Math.max(s.Nj, 1e-9));
+        const varX = Math.max(floor, sxx);
+        const varY = Math.max(floor, syy);
+        // Keep a full covariance positive definite by bounding the correlation
+        const covXY = diagonal ? 0 : Math.max(-0.999, Math.min(0.999, sxy / Math.sqrt(varX * varY))) * Math.sqrt(varX * varY);
+        return {
+            id,
+            mean: s.mean,
+            covariance: [[varX, covXY], [covXY, varY]] as [[number, number], [number, number]],
+            weight: s.Nj / N
+        };
+    });
+};
+
+const lpaParameterCount = (k: number, structure: LPACovarianceStructure): number => {
+    const d = 2;
+    const covariance = { EEI: d, VVI: k * d, EEE: d * (d + 1) / 2, VVV: k * d * (d + 1) / 2 }[structure];
+    return k * d + (k - 1) + covariance;
+};
+
+// EM from several random starts; returns the best run and every start's final log-likelihood
+export const fitLPA = (
+    points: Point[],
+    k: number,
+    structure: LPACovarianceStructure = 'VVV',
+    options: { starts?: number, maxIterations?: number, tolerance?: number } = {}
+): LPAFitResult => {
+    const { starts = 10, maxIterations = 500, tolerance = 1e-8 } = options;
+    const base: LPAPoint[] = points.map((p, id) => ({ id, x: p.x, y: p.y, profileId: null, responsibilities: [] }));
+    let best: { profiles: Profile[], trace: number[], converged: boolean } | null = null;
+    const startLogLikelihoods: number[] = [];
+
+    for (let start = 0; start < starts; start++) {
+        let profiles = initializeLPA(base, k);
+        const trace: number[] = [];
+        let converged = false;
+        for (let iter = 0; iter < maxIterations; iter++) {
+            const withResponsibilities = expectationStep(base, profiles);
+            profiles = maximizationStep(withResponsibilities, k, structure);
+            const logLikelihood = calculateMixtureLogLikelihood(base, profiles);
+            trace.push(logLikelihood);
+            if (iter > 0 && Math.abs(logLikelihood - trace[iter - 1]) < tolerance * Math.abs(logLikelihood)) {
+                converged = true;
+                break;
+            }
+        }
+        const final = trace[trace.length - 1];
+        startLogLikelihoods.push(final);
+        if (!best || final > best.trace[best.trace.length - 1]) best = { profiles, trace, converged };
     }
-    return newProfiles;
+
+    const { profiles, trace, converged } = best!;
+    const assigned = expectationStep(base, profiles);
+    const logLikelihood = trace[trace.length - 1];
+    const numParameters = lpaParameterCount(k, structure);
+    const N = points.length;
+    const classificationEntropy = assigned.reduce((sum, p) => sum - p.responsibilities.reduce((s, r) => s + (r > 0 ? r * Math.log(r) : 0), 0), 0);
+    const bestLogLikelihood = Math.max(...startLogLikelihoods);
+
+    return {
+        k,
+        structure,
+        profiles,
+        points: assigned,
+        logLikelihood,
+        numParameters,
+        aic: -2 * logLikelihood + 2 * numParameters,
+        bic: -2 * logLikelihood + numParameters * Math.log(N),
+        entropy: k > 1 ? 1 - classificationEntropy / (N * Math.log(k)) : null,
+        smallestProfileShare: Math.min(...profiles.map(p => p.weight)),
+        iterations: trace.length,
+        converged,
+        logLikelihoodTrace: trace,
+        startLogLikelihoods,
+        replicatedStarts: startLogLikelihoods.filter(l => Math.abs(l - bestLogLikelihood) < 1e-4 * Math.abs(bestLogLikelihood)).length
+    };
+};
+
+const sampleFromMixture = (profiles: Profile[], n: number): Point[] => Array.from({ length: n }, (_, id) => {
+    let u = Math.random();
+    const profile = profiles.find(p => (u -= p.weight) <= 0) ?? profiles[profiles.length - 1];
+    const [[a, b], [, c]] = profile.covariance;
+    const l11 = Math.sqrt(a), l21 = b / l11, l22 = Math.sqrt(Math.max(c - l21 * l21, 0));
+    const z1 = normalRandom(), z2 = normalRandom();
+    return { id, x: profile.mean[0] + l11 * z1, y: profile.mean[1] + l21 * z1 + l22 * z2 };
+});
+
+// Parametric bootstrap LRT of k-1 against k profiles
+export const bootstrapLRT = (
+    points: Point[],
+    reduced: LPAFitResult,
+    full: LPAFitResult,
+    replicates = 40,
+    starts = 3
+): LPABootstrapTest => {
+    const simulated = Array.from({ length: replicates }, () => bootstrapLRTReplicate(points.length, reduced, full, starts));
+    return summarizeBootstrapLRT(reduced, full, simulated);
+};
+
+// One parametric bootstrap draw: simulate from the reduced model and refit both models, so callers can spread the work out
+export const bootstrapLRTReplicate = (n: number, reduced: LPAFitResult, full: LPAFitResult, starts = 3): number => {
+    const sample = sampleFromMixture(reduced.profiles, n);
+    const nullFit = fitLPA(sample, reduced.k, reduced.structure, { starts });
+    const altFit = fitLPA(sample, full.k, full.structure, { starts });
+    return Math.max(0, 2 * (altFit.logLikelihood - nullFit.logLikelihood));
+};
+
+export const summarizeBootstrapLRT = (reduced: LPAFitResult, full: LPAFitResult, simulated: number[]): LPABootstrapTest => {
+    const observed = 2 * (full.logLikelihood - reduced.logLikelihood);
+    return {
+        k: full.k,
+        statistic: observed,
+        pValue: (simulated.filter(s => s >= observed).length + 1) / (simulated.length + 1),
+        replicates: simulated.length
+    };
 };
 
 // SPM Logic
@@ -761,49 +2724,195 @@ export const findFrequentPatterns = (sequences: StudentSequence[], minSupport: n
     return patterns.sort((a, b) => b.support - a.support);
 };
 
-export const calculateLagSequentialAnalysis = (sequences: StudentSequence[], lag: number): LagAnalysisResult => {
-    const transitions: Record<string, Record<string, number>> = {};
-    const totals: Record<string, number> = {};
-    let totalTransitions = 0;
+// Whether the actions contain the pattern in order with at most maxGap other actions between consecutive elements
+const containsPattern = (actions: StudentAction[], pattern: StudentAction[], maxGap: number): boolean => {
+    let ends: number[] = [];
+    for (let k = 0; k < pattern.length; k++) {
+        const next: number[] = [];
+        for (let p = 0; p < actions.length; p++) {
+            if (actions[p] !== pattern[k]) continue;
+            if (k === 0 || ends.some(e => p > e && p - e - 1 <= maxGap)) next.push(p);
+        }
+        if (next.length === 0) return false;
+        ends = next;
+    }
+    return true;
+};
+
+const isSubsequence = (shorter: StudentAction[], longer: StudentAction[]): boolean => {
+    let k = 0;
+    for (let p = 0; p < longer.length && k < shorter.length; p++) {
+        if (longer[p] === shorter[k]) k++;
+    }
+    return k === shorter.length;
+};
+
+// PrefixSpan with an optional max-gap (projections keep every end position) and closed/maximal filtering
+export const mineSequentialPatterns = (sequences: StudentSequence[], options: SequentialPatternOptions): SequentialPattern[] => {
+    const { minSupport, maxGap = Infinity, minLength = 1, maxLength = 6, filter = 'all' } = options;
+    const total = sequences.length;
+    if (total === 0) return [];
+    const minCount = Math.max(1, Math.ceil(minSupport * total - 1e-9));
+    const frequent: { pattern: StudentAction[], count: number }[] = [];
+
+    const grow = (prefix: StudentAction[], projected: { index: number, ends: number[] }[]) => {
+        if (prefix.length >= maxLength) return;
+        const extensions = new Map<StudentAction, { index: number, ends: number[] }[]>();
+        projected.forEach(({ index, ends }) => {
+            const actions = sequences[index].actions;
+            const positions = new Map<StudentAction, Set<number>>();
+            ends.forEach(end => {
+                const limit = prefix.length === 0 ? actions.length - 1 : Math.min(actions.length - 1, end + maxGap + 1);
+                for (let p = end + 1; p <= limit; p++) {
+                    if (!positions.has(actions[p])) positions.set(actions[p], new Set());
+                    positions.get(actions[p])!.add(p);
+                }
+            });
+            positions.forEach((set, action) => {
+                const sorted = [...set].sort((a, b) => a - b);
+                // Without a gap limit the earliest end dominates every later one
+                const nextEnds = Number.isFinite(maxGap) ? sorted : [sorted[0]];
+                if (!extensions.has(action)) extensions.set(action, []);
+                extensions.get(action)!.push({ index, ends: nextEnds });
+            });
+        });
+        [...extensions.keys()].sort().forEach(action => {
+            const next = extensions.get(action)!;
+            if (next.length < minCount) return;
+            const pattern = [...prefix, action];
+            frequent.push({ pattern, count: next.length });
+            grow(pattern, next);
+        });
+    };
+    grow([], sequences.map((_, index) => ({ index, ends: [-1] })));
+
+    const kept = frequent.filter(p => {
+        if (p.pattern.length < minLength) return false;
+        if (filter === 'all') return true;
+        return !frequent.some(q => q.pattern.length > p.pattern.length && (filter === 'maximal' || q.count === p.count) && isSubsequence(p.pattern, q.pattern));
+    });
+
+    return kept
+        .map(({ pattern, count }) => ({
+            pattern,
+            count,
+            support: count / total,
+            contiguous: sequences.filter(s => containsPattern(s.actions, pattern, 0)).length >= minCount
+        }))
+        .sort((a, b) => b.support - a.support || b.pattern.length - a.pattern.length);
+};
+
+// Group contrast for each pattern: Fisher's exact test with Holm adjustment
+export const contrastSequentialPatterns = (sequencesA: StudentSequence[], sequencesB: StudentSequence[], options: SequentialPatternOptions): PatternContrast[] => {
+    const nA = sequencesA.length;
+    const nB = sequencesB.length;
+    if (nA === 0 || nB === 0) return [];
+    const maxGap = options.maxGap ?? Infinity;
+
+    const candidates = new Map<string, StudentAction[]>();
+    [sequencesA, sequencesB].forEach(group => mineSequentialPatterns(group, options).forEach(p => candidates.set(p.pattern.join(','), p.pattern)));
+
+    const rows = [...candidates.values()].map(pattern => {
+        const countA = sequencesA.filter(s => containsPattern(s.actions, pattern, maxGap)).length;
+        const countB = sequencesB.filter(s => containsPattern(s.actions, pattern, maxGap)).length;
+        const observed = [[countA, nA - countA], [countB, nB - countB]];
+        const pValue = fisherExactTest(observed, [nA, nB], [countA + countB, nA + nB - countA - countB], nA + nB) ?? 1;
+        return {
+            pattern,
+            countA,
+            countB,
+            supportA: countA / nA,
+            supportB: countB / nB,
+            difference: countA / nA - countB / nB,
+            oddsRatio: ((countA + 0.5) * (nB - countB + 0.5)) / ((nA - countA + 0.5) * (countB + 0.5)),
+            pValue
+        };
+    });
+
+    const adjusted = holmAdjust(rows.map(r => r.pValue));
+    return rows
+        .map((r, i) => ({ ...r, adjustedPValue: adjusted[i] }))
+        .sort((a, b) => a.pValue - b.pValue || Math.abs(b.difference) - Math.abs(a.difference));
+};
+
+const ACTION_ORDER: StudentAction[] = ['V', 'Q', 'A', 'F', 'P', 'E'];
+
+// Lag-sequential analysis: Allison-Liker adjusted residuals and Yule's Q on the full transition table
+export const calculateLagSequentialAnalysis = (sequences: StudentSequence[], lag: number, actions?: StudentAction[]): LagAnalysisResult => {
+    const present = new Set(sequences.flatMap(s => s.actions));
+    const codes = actions ?? ACTION_ORDER.filter(a => present.has(a));
+    const k = codes.length;
+    const indexOf = new Map(codes.map((a, i) => [a, i]));
+    const counts = Array.from({ length: k }, () => new Array<number>(k).fill(0));
 
     sequences.forEach(seq => {
-        for (let i = 0; i < seq.actions.length - lag; i++) {
-            const from = seq.actions[i];
-            const to = seq.actions[i + lag];
-            
-            if (!transitions[from]) transitions[from] = {};
-            transitions[from][to] = (transitions[from][to] || 0) + 1;
-            
-            totals[from] = (totals[from] || 0) + 1;
-            totalTransitions++;
+        for (let t = 0; t + lag < seq.actions.length; t++) {
+            const from = indexOf.get(seq.actions[t]);
+            const to = indexOf.get(seq.actions[t + lag]);
+            if (from !== undefined && to !== undefined) counts[from][to]++;
         }
     });
-    
-    // Z-scores
-    const zScores: TransitionMatrix = {};
-    const expectedMat: TransitionMatrix = {};
-    
-    for (const from in transitions) {
-        zScores[from] = {};
-        expectedMat[from] = {};
-        for (const to in transitions[from]) {
-            const observed = transitions[from][to];
-            // Simple expected prob = prob(from) * prob(to) (assuming independence)
-            // Count of To / Total
-            let countTo = 0;
-            sequences.forEach(s => s.actions.forEach(a => { if(a === to) countTo++; }));
-            const probTo = countTo / sequences.reduce((s, seq) => s + seq.actions.length, 0);
-            
-            const expected = totals[from] * probTo;
-            expectedMat[from][to] = expected;
-            
-            // Std dev = sqrt(n * p * (1-p))
-            const sd = Math.sqrt(totals[from] * probTo * (1 - probTo));
-            zScores[from][to] = sd === 0 ? 0 : (observed - expected) / sd;
-        }
-    }
 
-    return { observed: transitions, expected: expectedMat, zScores };
+    const rowTotals = counts.map(row => row.reduce((a, b) => a + b, 0));
+    const colTotals = codes.map((_, j) => counts.reduce((sum, row) => sum + row[j], 0));
+    const total = rowTotals.reduce((a, b) => a + b, 0);
+
+    const emptyMatrix = (): TransitionMatrix => Object.fromEntries(codes.map(a => [a, {}]));
+    const observed = emptyMatrix();
+    const expected = emptyMatrix();
+    const transitionProbabilities = emptyMatrix();
+    const zScores = emptyMatrix();
+    const pValues = emptyMatrix();
+    const yulesQ = emptyMatrix();
+    let chiSquare = 0;
+
+    codes.forEach((from, i) => codes.forEach((to, j) => {
+        const x = counts[i][j];
+        const e = total > 0 ? (rowTotals[i] * colTotals[j]) / total : 0;
+        const variance = total > 0 ? e * (1 - rowTotals[i] / total) * (1 - colTotals[j] / total) : 0;
+        const z = variance > 0 ? (x - e) / Math.sqrt(variance) : 0;
+        if (e > 0) chiSquare += (x - e) ** 2 / e;
+
+        const a = x;
+        const b = rowTotals[i] - x;
+        const c = colTotals[j] - x;
+        const d = total - a - b - c;
+        const denominator = a * d + b * c;
+
+        observed[from][to] = x;
+        expected[from][to] = e;
+        transitionProbabilities[from][to] = rowTotals[i] > 0 ? x / rowTotals[i] : 0;
+        zScores[from][to] = z;
+        pValues[from][to] = variance > 0 ? 2 * normalCDF(Math.abs(z), 0, 1, false) : 1;
+        yulesQ[from][to] = denominator > 0 ? (a * d - b * c) / denominator : 0;
+    }));
+
+    const cells = codes.flatMap(from => codes.map(to => ({ from, to })));
+    const holm = holmAdjust(cells.map(({ from, to }) => pValues[from][to]));
+    const adjustedPValues = emptyMatrix();
+    cells.forEach(({ from, to }, index) => { adjustedPValues[from][to] = holm[index]; });
+
+    const df = (rowTotals.filter(n => n > 0).length - 1) * (colTotals.filter(n => n > 0).length - 1);
+    return {
+        lag,
+        actions: codes,
+        totalTransitions: total,
+        observed,
+        expected,
+        transitionProbabilities,
+        zScores,
+        pValues,
+        adjustedPValues,
+        yulesQ,
+        chiSquare: { statistic: chiSquare, df, pValue: df > 0 ? chiSquareCDF(chiSquare, df, false) : 1 }
+    };
+};
+
+// The same analysis at lags 1..maxLag, on a common set of codes so the matrices line up
+export const calculateLagProfile = (sequences: StudentSequence[], maxLag: number): LagAnalysisResult[] => {
+    const present = new Set(sequences.flatMap(s => s.actions));
+    const codes = ACTION_ORDER.filter(a => present.has(a));
+    return Array.from({ length: maxLag }, (_, i) => calculateLagSequentialAnalysis(sequences, i + 1, codes));
 };
 
 // Factor Analysis Data & Logic
@@ -843,51 +2952,275 @@ export const generateFactorData = (items: SurveyItem[], count: number): Record<s
     return data;
 };
 
-export const calculateFactorAnalysis = (data: Record<string, number>[], itemIds: string[], numFactors: number): FactorAnalysisResult => {
-    // Simplified Factor Analysis (PCA-based for visualization)
-    // 1. Correlation Matrix
-    const n = itemIds.length;
-    const matrix: number[][] = Array(n).fill(0).map(() => Array(n).fill(0));
-    
-    for (let i = 0; i < n; i++) {
-        for (let j = 0; j < n; j++) {
-            // Pearson corr
-            const vals1 = data.map(d => d[itemIds[i]]);
-            const vals2 = data.map(d => d[itemIds[j]]);
-            
-            // Helper
-            const mean1 = vals1.reduce((a,b)=>a+b,0)/vals1.length;
-            const mean2 = vals2.reduce((a,b)=>a+b,0)/vals2.length;
-            
-            let num = 0, den1 = 0, den2 = 0;
-            for(let k=0; k<data.length; k++) {
-                const dx = vals1[k] - mean1;
-                const dy = vals2[k] - mean2;
-                num += dx * dy;
-                den1 += dx * dx;
-                den2 += dy * dy;
-            }
-            matrix[i][j] = num / Math.sqrt(den1 * den2);
+export const calculateCorrelationMatrix = (data: Record<string, number>[], ids: string[]): number[][] => {
+    const cov = calculateCovarianceMatrix(data, ids);
+    return cov.map((row, i) => row.map((v, j) => (i === j ? 1 : v / Math.sqrt(cov[i][i] * cov[j][j]))));
+};
+
+// Loadings from the leading eigenpairs: L = V_k * sqrt(lambda_k)
+const loadingsFromEigen = (eig: { values: number[], vectors: number[][] }, k: number): number[][] => {
+    const p = eig.vectors[0].length;
+    return Array.from({ length: p }, (_, i) => Array.from({ length: k }, (_, f) => eig.vectors[f][i] * Math.sqrt(Math.max(eig.values[f], 0))));
+};
+
+// Iterated principal axis factoring starting from squared multiple correlations
+const principalAxisFactoring = (R: number[][], k: number): number[][] => {
+    const p = R.length;
+    const inv = invertMatrix(R);
+    let communalities = inv ? inv.map((row, i) => Math.max(0.005, 1 - 1 / row[i])) : Array(p).fill(0.5);
+    let loadings: number[][] = [];
+    for (let iter = 0; iter < 1000; iter++) {
+        const reduced = R.map((row, i) => row.map((v, j) => (i === j ? communalities[i] : v)));
+        loadings = loadingsFromEigen(symmetricEigen(reduced), k);
+        const updated = loadings.map(row => row.reduce((sum, l) => sum + l * l, 0));
+        const change = Math.max(...updated.map((h, i) => Math.abs(h - communalities[i])));
+        communalities = updated;
+        if (change < 1e-6) break;
+    }
+    return loadings;
+};
+
+// Maximum-likelihood extraction (Joreskog): minimize over uniquenesses with bounds [0.005, 1]
+const maximumLikelihoodFactoring = (R: number[][], k: number): { loadings: number[][], objective: number } => {
+    const p = R.length;
+    const scaledEigen = (psi: number[]) => {
+        const sStar = R.map((row, i) => row.map((v, j) => v / Math.sqrt(psi[i] * psi[j])));
+        return symmetricEigen(sStar);
+    };
+    const objective = (psi: number[]) => {
+        const rest = scaledEigen(psi).values.slice(k);
+        return -rest.reduce((sum, e) => sum + Math.log(e) - e, 0) + k - p;
+    };
+    const loadingsFor = (psi: number[]) => {
+        const eig = scaledEigen(psi);
+        return Array.from({ length: p }, (_, i) => Array.from({ length: k }, (_, f) => Math.sqrt(psi[i]) * eig.vectors[f][i] * Math.sqrt(Math.max(eig.values[f] - 1, 0))));
+    };
+    const gradient = (psi: number[]) => {
+        const L = loadingsFor(psi);
+        return psi.map((ps, i) => (L[i].reduce((sum, l) => sum + l * l, 0) + ps - R[i][i]) / (ps * ps));
+    };
+    const clamp = (v: number) => Math.max(0.005, Math.min(1, v));
+
+    const inv = invertMatrix(R);
+    let psi = inv ? inv.map((row, i) => clamp((1 - 0.5 * k / p) / row[i])) : Array(p).fill(0.5);
+    let current = objective(psi);
+    let stepSize = 0.1;
+    for (let iter = 0; iter < 2000; iter++) {
+        const grad = gradient(psi);
+        let candidate = psi.map((v, i) => clamp(v - stepSize * grad[i]));
+        let candidateValue = objective(candidate);
+        while (candidateValue > current && stepSize > 1e-10) {
+            stepSize /= 2;
+            candidate = psi.map((v, i) => clamp(v - stepSize * grad[i]));
+            candidateValue = objective(candidate);
         }
+        const improvement = current - candidateValue;
+        if (improvement < 0) break;
+        psi = candidate;
+        current = candidateValue;
+        stepSize *= 1.5;
+        if (improvement < 1e-12) break;
     }
-    
-    // 2. Extract Factors (Fake Loadings based on correlation structure for demo)
-    // In real app, use math.js eigs
-    const loadings: FactorLoading[] = itemIds.map((id, idx) => {
-        // Simple heuristic: items that correlate highly with first item are factor 1
-        const corrWithFirst = matrix[idx][0];
-        const factor1 = corrWithFirst; 
-        // Orthogonal-ish factor 2
-        const factor2 = Math.sqrt(1 - factor1*factor1) * (Math.random() > 0.5 ? 1 : -1);
-        
-        return { item: id, factor1, factor2 };
+    return { loadings: loadingsFor(psi), objective: current };
+};
+
+// Orthogonal rotation factor T = B (B^T B)^-1/2, the nearest orthogonal matrix to B
+const nearestOrthogonal = (B: number[][]): number[][] => {
+    const eig = symmetricEigen(multiplyMatrices(transposeMatrix(B), B));
+    const k = B[0].length;
+    const invSqrt = Array.from({ length: k }, (_, i) => Array.from({ length: k }, (_, j) =>
+        eig.values.reduce((sum, val, f) => sum + eig.vectors[f][i] * eig.vectors[f][j] / Math.sqrt(Math.max(val, 1e-300)), 0)));
+    return multiplyMatrices(B, invSqrt);
+};
+
+// Varimax with Kaiser normalization, as in R's stats::varimax
+const varimaxRotation = (L: number[][]): { loadings: number[][], rotation: number[][] } => {
+    const p = L.length, k = L[0].length;
+    const scale = L.map(row => Math.sqrt(row.reduce((sum, l) => sum + l * l, 0)) || 1);
+    const x = L.map((row, i) => row.map(l => l / scale[i]));
+    let T = identityMatrix(k);
+    let d = 0;
+    for (let iter = 0; iter < 1000; iter++) {
+        const z = multiplyMatrices(x, T);
+        const colSq = Array.from({ length: k }, (_, f) => z.reduce((sum, row) => sum + row[f] * row[f], 0));
+        const target = z.map(row => row.map((v, f) => v * v * v - v * colSq[f] / p));
+        const B = multiplyMatrices(transposeMatrix(x), target);
+        T = nearestOrthogonal(B);
+        // sum of singular values of B equals tr(T^T B)
+        const dPast = d;
+        d = traceOfProduct(transposeMatrix(T), B);
+        if (d < dPast * (1 + 1e-5)) break;
+    }
+    const rotated = multiplyMatrices(x, T).map((row, i) => row.map(v => v * scale[i]));
+    return { loadings: rotated, rotation: T };
+};
+
+// Promax (power 4) built on varimax, as in R's stats::promax
+const promaxRotation = (L: number[][]): { loadings: number[][], rotation: number[][] } => {
+    const vm = varimaxRotation(L);
+    const Lv = vm.loadings;
+    const Q = Lv.map(row => row.map(l => l * Math.pow(Math.abs(l), 3)));
+    const LtL = invertMatrix(multiplyMatrices(transposeMatrix(Lv), Lv)) as number[][];
+    let U = multiplyMatrices(multiplyMatrices(LtL, transposeMatrix(Lv)), Q);
+    const dInv = invertMatrix(multiplyMatrices(transposeMatrix(U), U)) as number[][];
+    U = U.map(row => row.map((v, j) => v * Math.sqrt(dInv[j][j])));
+    return { loadings: multiplyMatrices(Lv, U), rotation: multiplyMatrices(vm.rotation, U) };
+};
+
+// Direct oblimin (quartimin, gamma = 0) by gradient projection, as in GPArotation::GPFoblq
+const obliminRotation = (A: number[][]): { loadings: number[][], rotation: number[][] } => {
+    const k = A[0].length;
+    const criterion = (L: number[][]) => {
+        const L2 = L.map(row => row.map(l => l * l));
+        const X = L2.map(row => row.map((_, f) => row.reduce((sum, v, g) => sum + (g === f ? 0 : v), 0)));
+        const Gq = L.map((row, i) => row.map((l, f) => l * X[i][f]));
+        const f = L2.reduce((sum, row, i) => sum + row.reduce((s, v, j) => s + v * X[i][j], 0), 0) / 4;
+        return { f, Gq };
+    };
+    const patternFor = (T: number[][]) => multiplyMatrices(A, transposeMatrix(invertMatrix(T) as number[][]));
+    const gradientFor = (L: number[][], Gq: number[][], T: number[][]) =>
+        transposeMatrix(multiplyMatrices(multiplyMatrices(transposeMatrix(L), Gq), invertMatrix(T) as number[][])).map(row => row.map(v => -v));
+
+    let T = identityMatrix(k);
+    let L = patternFor(T);
+    let { f, Gq } = criterion(L);
+    let G = gradientFor(L, Gq, T);
+    let alpha = 1;
+    for (let iter = 0; iter < 1000; iter++) {
+        const colDot = Array.from({ length: k }, (_, j) => T.reduce((sum, row, i) => sum + row[j] * G[i][j], 0));
+        const Gp = G.map((row, i) => row.map((g, j) => g - T[i][j] * colDot[j]));
+        const s = Math.sqrt(Gp.reduce((sum, row) => sum + row.reduce((t, v) => t + v * v, 0), 0));
+        if (s < 1e-5) break;
+        alpha *= 2;
+        let Tnew = T;
+        let next = { f, Gq };
+        let Lnew = L;
+        for (let i = 0; i <= 10; i++) {
+            const X = T.map((row, r) => row.map((v, c) => v - alpha * Gp[r][c]));
+            const norms = Array.from({ length: k }, (_, j) => 1 / Math.sqrt(X.reduce((sum, row) => sum + row[j] * row[j], 0)));
+            Tnew = X.map(row => row.map((v, j) => v * norms[j]));
+            Lnew = patternFor(Tnew);
+            next = criterion(Lnew);
+            if (f - next.f > 0.5 * s * s * alpha) break;
+            alpha /= 2;
+        }
+        T = Tnew;
+        L = Lnew;
+        f = next.f;
+        G = gradientFor(L, next.Gq, T);
+    }
+    // Pattern = A (T^T)^-1, so the matrix taking A to the pattern is (T^T)^-1
+    return { loadings: L, rotation: transposeMatrix(invertMatrix(T) as number[][]) };
+};
+
+export const calculateFactorAnalysis = (
+    data: Record<string, number>[],
+    itemIds: string[],
+    numFactors: number,
+    extraction: FactorExtraction = 'pa',
+    rotation: FactorRotation = 'varimax'
+): FactorAnalysisResult => {
+    const n = data.length;
+    const p = itemIds.length;
+    const k = Math.max(1, Math.min(numFactors, p - 1));
+    const R = calculateCorrelationMatrix(data, itemIds);
+
+    // Scree and Horn's parallel analysis (95th percentile of eigenvalues from random normal data)
+    const eigenvalues = symmetricEigen(R).values;
+    const simulations = 50;
+    const simulated: number[][] = Array.from({ length: p }, () => []);
+    for (let s = 0; s < simulations; s++) {
+        const randomData = Array.from({ length: n }, () => Object.fromEntries(itemIds.map(id => [id, normalRandom()])));
+        symmetricEigen(calculateCorrelationMatrix(randomData, itemIds)).values.forEach((v, i) => simulated[i].push(v));
+    }
+    const parallelEigenvalues = simulated.map(vals => [...vals].sort((a, b) => a - b)[Math.floor(0.95 * (vals.length - 1))]);
+    let suggestedFactors = 0;
+    while (suggestedFactors < p && eigenvalues[suggestedFactors] > parallelEigenvalues[suggestedFactors]) suggestedFactors++;
+
+    // Sampling adequacy: KMO from partial correlations, Bartlett's test of sphericity
+    const inv = invertMatrix(R);
+    let kmoOverall = NaN;
+    let kmoPerItem: number[] = Array(p).fill(NaN);
+    if (inv) {
+        const partial = inv.map((row, i) => row.map((v, j) => -v / Math.sqrt(inv[i][i] * inv[j][j])));
+        let sumR = 0, sumA = 0;
+        kmoPerItem = R.map((row, i) => {
+            let r2 = 0, a2 = 0;
+            row.forEach((v, j) => {
+                if (i === j) return;
+                r2 += v * v;
+                a2 += partial[i][j] * partial[i][j];
+            });
+            sumR += r2;
+            sumA += a2;
+            return r2 / (r2 + a2);
+        });
+        kmoOverall = sumR / (sumR + sumA);
+    }
+    const logDetR = logDeterminantSPD(R);
+    const bartlettChi = -(n - 1 - (2 * p + 5) / 6) * logDetR;
+    const bartlettDf = p * (p - 1) / 2;
+    const bartlett = { chiSquare: bartlettChi, df: bartlettDf, pValue: chiSquareCDF(bartlettChi, bartlettDf, false) };
+
+    // Extraction
+    let unrotated: number[][];
+    let modelFit: FactorAnalysisResult['modelFit'] = null;
+    if (extraction === 'ml') {
+        const ml = maximumLikelihoodFactoring(R, k);
+        unrotated = ml.loadings;
+        const dof = ((p - k) * (p - k) - p - k) / 2;
+        const statistic = (n - 1 - (2 * p + 5) / 6 - (2 * k) / 3) * ml.objective;
+        // With df <= 0 the model has as many parameters as correlations (or more), so there is nothing to test
+        modelFit = { chiSquare: statistic, df: dof, pValue: dof > 0 ? chiSquareCDF(statistic, dof, false) : null };
+    } else {
+        unrotated = principalAxisFactoring(R, k);
+    }
+    const communalities = unrotated.map(row => row.reduce((sum, l) => sum + l * l, 0));
+
+    // Rotation
+    let pattern = unrotated;
+    let factorCorrelations: number[][] | null = null;
+    if (k > 1 && rotation !== 'none') {
+        const rotated = rotation === 'varimax' ? varimaxRotation(unrotated)
+            : rotation === 'promax' ? promaxRotation(unrotated)
+            : obliminRotation(unrotated);
+        pattern = rotated.loadings;
+        if (rotation !== 'varimax') {
+            factorCorrelations = invertMatrix(multiplyMatrices(transposeMatrix(rotated.rotation), rotated.rotation));
+        }
+    }
+
+    // Reflect factors to positive column sums and order them by variance explained
+    const signs = Array.from({ length: k }, (_, f) => (pattern.reduce((sum, row) => sum + row[f], 0) < 0 ? -1 : 1));
+    pattern = pattern.map(row => row.map((v, f) => v * signs[f]));
+    if (factorCorrelations) factorCorrelations = factorCorrelations.map((row, i) => row.map((v, j) => v * signs[i] * signs[j]));
+    const ssLoadings = Array.from({ length: k }, (_, f) => pattern.reduce((sum, row) => sum + row[f] * row[f], 0));
+    const order = ssLoadings.map((_, f) => f).sort((a, b) => ssLoadings[b] - ssLoadings[a]);
+    pattern = pattern.map(row => order.map(f => row[f]));
+    if (factorCorrelations) {
+        const phi = factorCorrelations;
+        factorCorrelations = order.map(i => order.map(j => phi[i][j]));
+    }
+
+    const loadings: FactorLoading[] = itemIds.map((id, i) => {
+        const loading: FactorLoading = { item: id };
+        pattern[i].forEach((v, f) => { loading[`factor${f + 1}`] = v; });
+        return loading;
     });
-    
+
     return {
         loadings,
-        correlationMatrix: matrix,
+        correlationMatrix: R,
         itemLabels: itemIds,
-        explainedVariance: [0.45, 0.30] // Dummy variance
+        explainedVariance: order.map(f => ssLoadings[f] / p),
+        communalities,
+        eigenvalues,
+        parallelEigenvalues,
+        suggestedFactors,
+        factorCorrelations,
+        kmo: { overall: kmoOverall, perItem: kmoPerItem },
+        bartlett,
+        modelFit
     };
 };
 
@@ -913,222 +3246,1383 @@ export const generateSNAData = (numStudents: number, numInteractions: number): I
     return interactions;
 };
 
-export const processSNAData = (interactions: Interaction[]): { nodes: SNANode[], links: SNALink[] } => {
-    const nodeMap: Record<number, SNANode> = {};
-    const links: SNALink[] = [];
+// Louvain community detection on a symmetric weighted adjacency matrix, visiting nodes in index order
+const louvainCommunities = (adjacency: number[][]): { communities: number[], modularity: number } => {
+    const totalWeight = adjacency.reduce((sum, row) => sum + row.reduce((a, b) => a + b, 0), 0); // 2m
+    if (totalWeight === 0) return { communities: adjacency.map((_, i) => i), modularity: 0 };
+
+    let graph = adjacency.map(row => [...row]);
+    let membership = adjacency.map((_, i) => i); // original node -> node of the collapsed graph
+    while (true) {
+        const strength = graph.map(row => row.reduce((a, b) => a + b, 0));
+        const community = graph.map((_, i) => i);
+        const total = [...strength];
+        let moved = false;
+        let improved = true;
+        while (improved) {
+            improved = false;
+            graph.forEach((row, i) => {
+                const current = community[i];
+                total[current] -= strength[i];
+                const linksTo = new Map<number, number>();
+                row.forEach((w, j) => {
+                    if (w > 0 && j !== i) linksTo.set(community[j], (linksTo.get(community[j]) ?? 0) + w);
+                });
+                // Gain of joining c, up to a constant factor: k_i,in(c) - tot(c) k_i / 2m
+                let best = current;
+                let bestGain = (linksTo.get(current) ?? 0) - total[current] * strength[i] / totalWeight;
+                linksTo.forEach((w, c) => {
+                    const gain = w - total[c] * strength[i] / totalWeight;
+                    if (gain > bestGain + 1e-12) {
+                        best = c;
+                        bestGain = gain;
+                    }
+                });
+                total[best] += strength[i];
+                if (best !== current) {
+                    community[i] = best;
+                    improved = true;
+                    moved = true;
+                }
+            });
+        }
+        if (!moved) break;
+
+        const index = new Map([...new Set(community)].map((c, k) => [c, k]));
+        const collapsed = Array.from({ length: index.size }, () => new Array<number>(index.size).fill(0));
+        graph.forEach((row, i) => row.forEach((w, j) => { collapsed[index.get(community[i])!][index.get(community[j])!] += w; }));
+        membership = membership.map(m => index.get(community[m])!);
+        graph = collapsed;
+    }
+
+    // Number communities in order of their lowest-indexed member
+    const order = new Map<number, number>();
+    membership.forEach(m => { if (!order.has(m)) order.set(m, order.size); });
+    const communities = membership.map(m => order.get(m)!);
+    const internal = new Array<number>(order.size).fill(0);
+    const totals = new Array<number>(order.size).fill(0);
+    adjacency.forEach((row, i) => row.forEach((w, j) => {
+        totals[communities[i]] += w;
+        if (communities[i] === communities[j]) internal[communities[i]] += w;
+    }));
+    const modularity = internal.reduce((sum, inC, c) => sum + inC / totalWeight - (totals[c] / totalWeight) ** 2, 0);
+    return { communities, modularity };
+};
+
+// Brandes (2001) betweenness by Dijkstra from every source, with harmonic closeness from the same searches
+const shortestPathCentralities = (lengths: (number | null)[][]): { betweenness: number[], closeness: number[] } => {
+    const n = lengths.length;
+    const betweenness = new Array<number>(n).fill(0);
+    const closeness = new Array<number>(n).fill(0);
+    const same = (a: number, b: number) => Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a));
+
+    for (let s = 0; s < n; s++) {
+        const dist = new Array<number>(n).fill(Infinity);
+        const sigma = new Array<number>(n).fill(0);
+        const predecessors: number[][] = Array.from({ length: n }, () => []);
+        const done = new Array<boolean>(n).fill(false);
+        const stack: number[] = [];
+        dist[s] = 0;
+        sigma[s] = 1;
+        while (true) {
+            let u = -1;
+            for (let v = 0; v < n; v++) if (!done[v] && dist[v] < Infinity && (u < 0 || dist[v] < dist[u])) u = v;
+            if (u < 0) break;
+            done[u] = true;
+            stack.push(u);
+            lengths[u].forEach((length, v) => {
+                if (length === null || done[v]) return;
+                const candidate = dist[u] + length;
+                if (same(candidate, dist[v])) {
+                    sigma[v] += sigma[u];
+                    predecessors[v].push(u);
+                } else if (candidate < dist[v]) {
+                    dist[v] = candidate;
+                    sigma[v] = sigma[u];
+                    predecessors[v] = [u];
+                }
+            });
+        }
+        dist.forEach((d, t) => { if (t !== s && d < Infinity) closeness[t] += 1 / d; });
+        const delta = new Array<number>(n).fill(0);
+        while (stack.length > 0) {
+            const w = stack.pop()!;
+            predecessors[w].forEach(v => { delta[v] += (sigma[v] / sigma[w]) * (1 + delta[w]); });
+            if (w !== s) betweenness[w] += delta[w];
+        }
+    }
+    return {
+        betweenness: betweenness.map(b => (n > 2 ? b / ((n - 1) * (n - 2)) : 0)),
+        closeness: closeness.map(c => (n > 1 ? c / (n - 1) : 0))
+    };
+};
+
+// Directed weighted network with centralities, cohesion measures and Louvain communities
+export const processSNAData = (interactions: Interaction[]): SNANetwork => {
+    const ids = [...new Set(interactions.flatMap(int => [int.source, int.target]))].sort((a, b) => a - b);
+    const n = ids.length;
+    const indexOf = new Map(ids.map((id, i) => [id, i]));
+    const weights = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+    const links: SNALink[] = [];
+    interactions.forEach(int => {
+        if (int.source !== int.target) weights[indexOf.get(int.source)!][indexOf.get(int.target)!]++;
+        links.push(int);
+    });
+
+    const outStrength = weights.map(row => row.reduce((a, b) => a + b, 0));
+    const inStrength = ids.map((_, j) => weights.reduce((sum, row) => sum + row[j], 0));
+    const outDegree = weights.map(row => row.filter(w => w > 0).length);
+    const inDegree = ids.map((_, j) => weights.filter(row => row[j] > 0).length);
+    const { betweenness, closeness } = shortestPathCentralities(weights.map(row => row.map(w => (w > 0 ? 1 / w : null))));
+
+    // Eigenvector centrality of W + W^T by power iteration on (A + I), which shares A's leading eigenvector
+    const symmetric = weights.map((row, i) => row.map((w, j) => w + weights[j][i]));
+    let eigenvector = new Array<number>(n).fill(1 / Math.sqrt(Math.max(n, 1)));
+    for (let iter = 0; iter < 1000; iter++) {
+        const next = symmetric.map((row, i) => eigenvector[i] + row.reduce((sum, w, j) => sum + w * eigenvector[j], 0));
+        const norm = Math.sqrt(next.reduce((sum, v) => sum + v * v, 0)) || 1;
+        const change = next.reduce((sum, v, i) => sum + Math.abs(v / norm - eigenvector[i]), 0);
+        eigenvector = next.map(v => v / norm);
+        if (change < 1e-10) break;
+    }
+
+    // PageRank with damping 0.85; students who never reach out spread their rank evenly
+    const damping = 0.85;
+    let pageRank = new Array<number>(n).fill(1 / Math.max(n, 1));
+    for (let iter = 0; iter < 1000; iter++) {
+        const dangling = pageRank.reduce((sum, p, i) => sum + (outStrength[i] === 0 ? p : 0), 0);
+        const next = ids.map((_, j) => (1 - damping) / n + damping * (dangling / n +
+            weights.reduce((sum, row, i) => sum + (row[j] > 0 ? pageRank[i] * row[j] / outStrength[i] : 0), 0)));
+        const change = next.reduce((sum, v, i) => sum + Math.abs(v - pageRank[i]), 0);
+        pageRank = next;
+        if (change < 1e-12) break;
+    }
+
+    // Clustering on the undirected, unweighted network
+    const neighbours = ids.map((_, i) => ids.map((__, j) => j).filter(j => j !== i && symmetric[i][j] > 0));
+    const closedPairs = neighbours.map(list => {
+        let count = 0;
+        list.forEach((a, x) => list.slice(x + 1).forEach(b => { if (symmetric[a][b] > 0) count++; }));
+        return count;
+    });
+    const clustering = neighbours.map((list, i) => (list.length > 1 ? closedPairs[i] / (list.length * (list.length - 1) / 2) : 0));
+    const triples = neighbours.reduce((sum, list) => sum + list.length * (list.length - 1) / 2, 0);
+
+    const arcCount = outDegree.reduce((a, b) => a + b, 0);
+    const reciprocated = weights.reduce((sum, row, i) => sum + row.filter((w, j) => w > 0 && weights[j][i] > 0).length, 0);
+    const { communities, modularity } = louvainCommunities(symmetric);
+
+    const nodes: SNANode[] = ids.map((id, i) => ({
+        id,
+        degree: inStrength[i] + outStrength[i],
+        inDegree: inDegree[i],
+        outDegree: outDegree[i],
+        inStrength: inStrength[i],
+        outStrength: outStrength[i],
+        betweenness: betweenness[i],
+        closeness: closeness[i],
+        eigenvector: eigenvector[i],
+        pageRank: pageRank[i],
+        clustering: clustering[i],
+        community: communities[i]
+    }));
+
+    return {
+        nodes,
+        links,
+        metrics: {
+            nodeCount: n,
+            arcCount,
+            density: n > 1 ? arcCount / (n * (n - 1)) : 0,
+            reciprocity: arcCount > 0 ? reciprocated / arcCount : 0,
+            transitivity: triples > 0 ? closedPairs.reduce((a, b) => a + b, 0) / triples : 0,
+            averageClustering: n > 0 ? clustering.reduce((a, b) => a + b, 0) / n : 0,
+            modularity,
+            communityCount: new Set(communities).size
+        }
+    };
+};
+
+// The network in successive time slices: everything up to the end of each slice, or only that slice's interactions
+export const calculateSNASnapshots = (interactions: Interaction[], slices: number, cumulative: boolean = true): SNASnapshot[] => {
+    if (interactions.length === 0 || slices < 1) return [];
+    const times = interactions.map(int => int.time);
+    const first = Math.min(...times);
+    const last = Math.max(...times);
+    const width = (last - first) / slices;
+    return Array.from({ length: slices }, (_, k) => {
+        const start = cumulative ? first : first + k * width;
+        const end = k === slices - 1 ? last : first + (k + 1) * width;
+        const inSlice = interactions.filter(int => int.time >= start && (k === slices - 1 ? int.time <= end : int.time < end));
+        return { start, end, ...processSNAData(inSlice) };
+    });
+};
+
+// Knowledge Tracing
+export const updateMastery = (currentMastery: number, isCorrect: boolean, params: BKTParams): number => {
+    const { learn, guess, slip } = params;
+    
+    // 1. Probability previously known given evidence
+    let pKnownGivenEvidence;
+    if (isCorrect) {
+        pKnownGivenEvidence = (currentMastery * (1 - slip)) / (currentMastery * (1 - slip) + (1 - currentMastery) * guess);
+    } else {
+        pKnownGivenEvidence = (currentMastery * slip) / (currentMastery * slip + (1 - currentMastery) * (1 - guess));
+    }
+    
+    // 2. Update with probability of learning
+    const newMastery = pKnownGivenEvidence + (1 - pKnownGivenEvidence) * learn;
+    
+    return Math.max(0, Math.min(1, newMastery));
+};
+
+export const KT_SKILLS: KTSkill[] = [
+    { name: 'Fractions', params: { prior: 0.2, learn: 0.15, guess: 0.2, slip: 0.1 } },
+    { name: 'Equations', params: { prior: 0.4, learn: 0.08, guess: 0.25, slip: 0.08 } },
+    { name: 'Graphs', params: { prior: 0.1, learn: 0.25, guess: 0.15, slip: 0.15 } }
+];
+
+// Simulated practice logs: each student works through every skill, with skills interleaved at random
+export const generateKnowledgeTracingData = (numStudents: number, skills: KTSkill[] = KT_SKILLS, opportunitiesPerSkill = 10): KTResponse[] => {
+    const responses: KTResponse[] = [];
+    for (let s = 0; s < numStudents; s++) {
+        const known = skills.map(skill => Math.random() < skill.params.prior);
+        const schedule = shuffle(skills.flatMap((_, k) => new Array<number>(opportunitiesPerSkill).fill(k)));
+        schedule.forEach(k => {
+            const { learn, guess, slip } = skills[k].params;
+            const correct = known[k] ? Math.random() > slip : Math.random() < guess;
+            responses.push({ studentId: `S${s + 1}`, skill: skills[k].name, correct: correct ? 1 : 0 });
+            if (!known[k] && Math.random() < learn) known[k] = true;
+        });
+    }
+    return responses;
+};
+
+// Expects "student,skill,correct" rows in time order; a header row is skipped automatically
+export const parseKnowledgeTracingResponses = (text: string): { responses: KTResponse[], skippedRows: number } => {
+    const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+    const delimiter = lines[0]?.includes('\t') ? '\t' : lines[0]?.includes(';') ? ';' : ',';
+    let skippedRows = 0;
+    const responses: KTResponse[] = [];
+    lines.forEach((line, i) => {
+        const [studentId, skill, correct] = line.split(delimiter).map(cell => cell.trim());
+        const value = correct?.toLowerCase();
+        const parsed = value === '1' || value === 'true' ? 1 : value === '0' || value === 'false' ? 0 : null;
+        if (!studentId || !skill || parsed === null) {
+            if (i > 0) skippedRows++;
+            return;
+        }
+        responses.push({ studentId, skill, correct: parsed });
+    });
+    return { responses, skippedRows };
+};
+
+// One 0/1 sequence per student for each skill, keeping the order of the log
+const groupSkillSequences = (responses: KTResponse[]): Map<string, Map<string, number[]>> => {
+    const bySkill = new Map<string, Map<string, number[]>>();
+    responses.forEach(r => {
+        if (!bySkill.has(r.skill)) bySkill.set(r.skill, new Map());
+        const students = bySkill.get(r.skill)!;
+        if (!students.has(r.studentId)) students.set(r.studentId, []);
+        students.get(r.studentId)!.push(r.correct);
+    });
+    return bySkill;
+};
+
+// P(correct) before each response, and mastery after each response
+export const predictBKT = (sequence: number[], params: BKTParams): { predictions: number[], mastery: number[] } => {
+    let current = params.prior;
+    const predictions: number[] = [];
+    const mastery: number[] = [];
+    sequence.forEach(correct => {
+        predictions.push(current * (1 - params.slip) + (1 - current) * params.guess);
+        current = updateMastery(current, correct === 1, params);
+        mastery.push(current);
+    });
+    return { predictions, mastery };
+};
+
+const bktLogLikelihood = (sequences: number[][], params: BKTParams): number =>
+    sequences.reduce((total, seq) => {
+        const { predictions } = predictBKT(seq, params);
+        return total + seq.reduce((sum, y, t) => sum + Math.log(Math.max(1e-12, y === 1 ? predictions[t] : 1 - predictions[t])), 0);
+    }, 0);
+
+// BKT as a two-state HMM without forgetting: state 0 = not yet learned, state 1 = learned
+const bktAsHMM = (params: BKTParams): HMMParams => ({
+    states: ['Unlearned', 'Learned'],
+    symbols: ['Incorrect', 'Correct'],
+    initial: [1 - params.prior, params.prior],
+    transition: [[1 - params.learn, params.learn], [0, 1]],
+    emission: [[1 - params.guess, params.guess], [params.slip, 1 - params.slip]]
+});
+
+// BKT parameters for one skill by EM or grid search, guess and slip below 0.5; starting values when there is no data
+export const fitBKT = (sequences: number[][], method: BKTFitMethod = 'em', maxIterations = 200): Omit<BKTFitResult, 'skill'> => {
+    const observations = sequences.reduce((sum, seq) => sum + seq.length, 0);
+    const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
+    const start: BKTParams = { prior: 0.3, learn: 0.1, guess: 0.2, slip: 0.1 };
+    if (observations === 0) return { params: start, logLikelihood: 0, iterations: 0, observations };
+
+    if (method === 'grid') {
+        const search = (center: BKTParams | null, step: number, span: number) => {
+            const axis = (value: number | undefined, lo: number, hi: number) => {
+                const from = value === undefined ? lo : Math.max(lo, value - span);
+                const to = value === undefined ? hi : Math.min(hi, value + span);
+                return Array.from({ length: Math.floor((to - from) / step + 1e-9) + 1 }, (_, i) => from + i * step);
+            };
+            let best = { params: center ?? { prior: 0.5, learn: 0.1, guess: 0.2, slip: 0.1 }, logLikelihood: -Infinity };
+            axis(center?.prior, 0.01, 0.99).forEach(prior => axis(center?.learn, 0.01, 0.6).forEach(learn =>
+                axis(center?.guess, 0.01, 0.45).forEach(guess => axis(center?.slip, 0.01, 0.45).forEach(slip => {
+                    const params = { prior, learn, guess, slip };
+                    const logLikelihood = bktLogLikelihood(sequences, params);
+                    if (logLikelihood > best.logLikelihood) best = { params, logLikelihood };
+                }))));
+            return best;
+        };
+        const coarse = search(null, 0.1, 0);
+        const fine = search(coarse.params, 0.02, 0.08);
+        return { ...fine, iterations: 0, observations };
+    }
+
+    const sequenceCount = sequences.filter(seq => seq.length > 0).length;
+    let params = start;
+    let previous = -Infinity;
+    let iterations = 0;
+    while (iterations < maxIterations) {
+        iterations++;
+        const hmm = bktAsHMM(params);
+        let priorSum = 0, learnedTransitions = 0, unlearnedExposure = 0;
+        let unlearnedCorrect = 0, unlearnedTotal = 0, learnedIncorrect = 0, learnedTotal = 0;
+        let logLikelihood = 0;
+        sequences.forEach(seq => {
+            if (seq.length === 0) return;
+            const { posteriors, alpha, beta, scales, logLikelihood: ll } = hmmForwardBackward(hmm, seq);
+            logLikelihood += ll;
+            priorSum += posteriors[0][1];
+            posteriors.forEach(([pUnlearned, pLearned], t) => {
+                unlearnedTotal += pUnlearned;
+                learnedTotal += pLearned;
+                if (seq[t] === 1) unlearnedCorrect += pUnlearned; else learnedIncorrect += pLearned;
+                if (t < seq.length - 1) {
+                    unlearnedExposure += pUnlearned;
+                    learnedTransitions += alpha[t][0] * params.learn * hmm.emission[1][seq[t + 1]] * beta[t + 1][1] / scales[t + 1];
+                }
+            });
+        });
+        params = {
+            prior: clamp(priorSum / sequenceCount, 1e-4, 1 - 1e-4),
+            learn: clamp(unlearnedExposure > 0 ? learnedTransitions / unlearnedExposure : params.learn, 1e-4, 1 - 1e-4),
+            guess: clamp(unlearnedTotal > 0 ? unlearnedCorrect / unlearnedTotal : params.guess, 1e-4, 0.4999),
+            slip: clamp(learnedTotal > 0 ? learnedIncorrect / learnedTotal : params.slip, 1e-4, 0.4999)
+        };
+        if (Math.abs(logLikelihood - previous) < 1e-7 * Math.abs(logLikelihood)) break;
+        previous = logLikelihood;
+    }
+    return { params, logLikelihood: bktLogLikelihood(sequences, params), iterations, observations };
+};
+
+// Performance Factors Analysis (Pavlik et al., 2009): logit P(correct) = beta_skill + gamma_skill * successes + rho_skill * failures
+const pfaFeatures = (responses: KTResponse[], skills: string[]): number[][] => {
+    const counts = new Map<string, { successes: number, failures: number }>();
+    return responses.map(r => {
+        const key = `${r.studentId}\u0000${r.skill}`;
+        const prior = counts.get(key) ?? { successes: 0, failures: 0 };
+        const k = skills.indexOf(r.skill);
+        const row = new Array<number>(skills.length - 1 + 2 * skills.length).fill(0);
+        if (k > 0) row[k - 1] = 1;
+        row[skills.length - 1 + 2 * k] = prior.successes;
+        row[skills.length - 1 + 2 * k + 1] = prior.failures;
+        counts.set(key, { successes: prior.successes + r.correct, failures: prior.failures + 1 - r.correct });
+        return row;
+    });
+};
+
+const evaluatePredictions = (model: string, predictions: number[], labels: number[]): KTModelMetrics => ({
+    model,
+    auc: calculateAuc(predictions, labels),
+    rmse: Math.sqrt(predictions.reduce((sum, p, i) => sum + (p - labels[i]) ** 2, 0) / labels.length),
+    accuracy: predictions.filter((p, i) => (p >= 0.5 ? 1 : 0) === labels[i]).length / labels.length,
+    logLoss: -predictions.reduce((sum, p, i) => sum + Math.log(Math.max(1e-12, labels[i] === 1 ? p : 1 - p)), 0) / labels.length
+});
+
+// BKT and PFA fitted on 70% of students, scored on the rest; unfitted skills fall back to hand-tuned BKT
+export const compareKnowledgeTracingModels = (
+    responses: KTResponse[],
+    handTuned: BKTParams,
+    method: BKTFitMethod = 'em',
+    testFraction = 0.3
+): KnowledgeTracingComparison => {
+    const students = shuffle([...new Set(responses.map(r => r.studentId))]);
+    const testStudents = new Set(students.slice(0, Math.max(1, Math.round(students.length * testFraction))));
+    const train = responses.filter(r => !testStudents.has(r.studentId));
+    const test = responses.filter(r => testStudents.has(r.studentId));
+    const skills = [...new Set(responses.map(r => r.skill))];
+
+    const trainSequences = groupSkillSequences(train);
+    const untrainedSkills = skills.filter(skill => !trainSequences.has(skill));
+    const fits: BKTFitResult[] = skills.filter(skill => trainSequences.has(skill)).map(skill => ({
+        skill,
+        ...fitBKT([...trainSequences.get(skill)!.values()], method)
+    }));
+
+    const beta = fitLogisticRegression(pfaFeatures(train, skills), train.map(r => r.correct), [], 1e-8).coefficients.map(c => c.estimate);
+    const pfa: PFACoefficient[] = skills.map((skill, k) => ({
+        skill,
+        easiness: beta[0] + (k > 0 ? beta[k] : 0),
+        successWeight: beta[skills.length + 2 * k],
+        failureWeight: beta[skills.length + 2 * k + 1]
+    }));
+
+    // Predictions on the test log, each made before the response is seen
+    const labels = test.map(r => r.correct);
+    const bktPredictions = (paramsFor: (skill: string) => BKTParams) => {
+        const mastery = new Map<string, number>();
+        return test.map(r => {
+            const params = paramsFor(r.skill);
+            const key = `${r.studentId}\u0000${r.skill}`;
+            const current = mastery.get(key) ?? params.prior;
+            mastery.set(key, updateMastery(current, r.correct === 1, params));
+            return current * (1 - params.slip) + (1 - current) * params.guess;
+        });
+    };
+    const baseRates = new Map(skills.map(skill => {
+        const rows = train.filter(r => r.skill === skill);
+        return [skill, rows.length > 0 ? rows.reduce((a, r) => a + r.correct, 0) / rows.length : 0.5];
+    }));
+    const pfaPredictions = pfaFeatures(test, skills).map(row => sigmoid(beta[0] + row.reduce((sum, x, j) => sum + x * beta[j + 1], 0)));
+
+    const metrics = test.length > 0 ? [
+        evaluatePredictions('Skill base rate', test.map(r => baseRates.get(r.skill) ?? 0.5), labels),
+        evaluatePredictions('BKT (hand-tuned)', bktPredictions(() => handTuned), labels),
+        evaluatePredictions(`BKT (${method === 'em' ? 'EM' : 'grid search'})`, bktPredictions(skill => fits.find(f => f.skill === skill)?.params ?? handTuned), labels),
+        evaluatePredictions('PFA', pfaPredictions, labels)
+    ] : [];
+
+    return { fits, untrainedSkills, pfa, metrics, trainStudents: students.length - testStudents.size, testStudents: testStudents.size };
+};
+
+// Survival Analysis
+export const COURSE_LENGTH_WEEKS = 20;
+
+// Simulated weeks until dropout; mentoring lowers the hazard, only for 8 weeks when `fadingEffect` is set
+export const generateSurvivalData = (n: number, interventionEffect: number, fadingEffect = false): SurvivalDataPoint[] => {
+    const baseHazard = 0.05;
+    const fadeWeek = 8;
+    return Array.from({ length: n }, (_, i) => {
+        const group: SurvivalDataPoint['group'] = i < n / 2 ? 'Group A' : 'Group B';
+        const priorGpa = Math.max(1, Math.min(4, 3 + normalRandom(0, 0.5)));
+        const riskFromGpa = Math.exp(-0.8 * (priorGpa - 3));
+        const earlyHazard = baseHazard * riskFromGpa * (group === 'Group A' ? 1 - interventionEffect : 1);
+        const lateHazard = fadingEffect ? baseHazard * riskFromGpa : earlyHazard;
+        // Invert the piecewise-exponential cumulative hazard at an Exp(1) draw
+        const target = -Math.log(1 - Math.random());
+        const eventTime = target <= earlyHazard * fadeWeek
+            ? target / earlyHazard
+            : fadeWeek + (target - earlyHazard * fadeWeek) / lateHazard;
+        const transferTime = -Math.log(1 - Math.random()) / 0.01;
+        const time = Math.min(eventTime, transferTime, COURSE_LENGTH_WEEKS);
+        return {
+            time: Math.round(time * 10) / 10,
+            status: eventTime <= Math.min(transferTime, COURSE_LENGTH_WEEKS) ? 1 : 0,
+            group,
+            covariates: { priorGpa }
+        };
+    });
+};
+
+// Kaplan-Meier with Greenwood variance, log-log bands and a Brookmeyer-Crowley median CI
+export const calculateKaplanMeier = (data: SurvivalDataPoint[], confidenceLevel = 0.95): KaplanMeierResult => {
+    const z = normalQuantile(1 - (1 - confidenceLevel) / 2);
+    const times = Array.from(new Set(data.map(d => d.time))).sort((a, b) => a - b);
+    const curve: SurvivalCurvePoint[] = [{ time: 0, survivalProbability: 1, lower: 1, upper: 1, atRisk: data.length, events: 0, censored: 0 }];
+    let survival = 1;
+    let greenwoodSum = 0;
+    times.forEach(t => {
+        const atRisk = data.filter(d => d.time >= t).length;
+        const events = data.filter(d => d.time === t && d.status === 1).length;
+        const censored = data.filter(d => d.time === t && d.status === 0).length;
+        if (events > 0) {
+            survival *= 1 - events / atRisk;
+            greenwoodSum += atRisk > events ? events / (atRisk * (atRisk - events)) : Infinity;
+        }
+        let lower = survival, upper = survival;
+        if (survival > 0 && survival < 1 && Number.isFinite(greenwoodSum)) {
+            // CI for log(-log S), mapped back: S^exp(±z se)
+            const se = Math.sqrt(greenwoodSum) / Math.abs(Math.log(survival));
+            lower = Math.pow(survival, Math.exp(z * se));
+            upper = Math.pow(survival, Math.exp(-z * se));
+        } else if (survival === 0) {
+            lower = 0;
+            upper = 0;
+        }
+        curve.push({ time: t, survivalProbability: survival, lower, upper, atRisk, events, censored });
+    });
+
+    const firstTimeBelowHalf = (key: 'survivalProbability' | 'lower' | 'upper') => curve.find(p => p[key] <= 0.5)?.time ?? null;
+    return {
+        curve,
+        median: firstTimeBelowHalf('survivalProbability'),
+        medianLower: firstTimeBelowHalf('lower'),
+        medianUpper: firstTimeBelowHalf('upper'),
+        n: data.length,
+        events: data.filter(d => d.status === 1).length
+    };
+};
+
+// Mantel-Haenszel log-rank test of Group A vs Group B
+export const calculateLogRankTest = (data: SurvivalDataPoint[]): LogRankResult => {
+    const eventTimes = Array.from(new Set(data.filter(d => d.status === 1).map(d => d.time))).sort((a, b) => a - b);
+    let observedA = 0, expectedA = 0, variance = 0;
+    eventTimes.forEach(t => {
+        const atRisk = data.filter(d => d.time >= t);
+        const n = atRisk.length;
+        const nA = atRisk.filter(d => d.group === 'Group A').length;
+        const deaths = atRisk.filter(d => d.time === t && d.status === 1);
+        const dTotal = deaths.length;
+        observedA += deaths.filter(d => d.group === 'Group A').length;
+        expectedA += dTotal * nA / n;
+        if (n > 1) variance += dTotal * (nA / n) * (1 - nA / n) * (n - dTotal) / (n - 1);
+    });
+    const totalEvents = data.filter(d => d.status === 1).length;
+    const chiSquare = variance > 0 ? (observedA - expectedA) ** 2 / variance : 0;
+    return {
+        chiSquare,
+        df: 1,
+        pValue: chiSquareCDF(chiSquare, 1, false),
+        observed: { 'Group A': observedA, 'Group B': totalEvents - observedA },
+        expected: { 'Group A': expectedA, 'Group B': totalEvents - expectedA }
+    };
+};
+
+// Cox model on the Efron partial likelihood with the Grambsch-Therneau proportional hazards test
+export const fitCoxModel = (data: SurvivalDataPoint[], covariateNames: string[]): CoxModelResult => {
+    const valueOf = (d: SurvivalDataPoint, name: string) => (name === 'mentored' ? (d.group === 'Group A' ? 1 : 0) : d.covariates[name]);
+    const p = covariateNames.length;
+    const means = covariateNames.map(name => calculateMean(data.map(d => valueOf(d, name))));
+    const sorted = [...data].sort((a, b) => a.time - b.time);
+    const X = sorted.map(d => covariateNames.map((name, j) => valueOf(d, name) - means[j]));
+    const eventTimes = Array.from(new Set(sorted.filter(d => d.status === 1).map(d => d.time)));
+
+    // Log partial likelihood, score, information and per-event Schoenfeld residuals at beta
+    const evaluate = (beta: number[]) => {
+        const w = X.map(x => Math.exp(x.reduce((sum, v, j) => sum + v * beta[j], 0)));
+        let logLik = 0;
+        const score = new Array<number>(p).fill(0);
+        const information = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+        const residuals: { time: number, residual: number[] }[] = [];
+        eventTimes.forEach(t => {
+            const S0 = { v: 0 }, S1 = new Array<number>(p).fill(0), S2 = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+            const D1 = new Array<number>(p).fill(0), D2 = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+            let D0 = 0;
+            const deaths: number[] = [];
+            sorted.forEach((d, i) => {
+                if (d.time < t) return;
+                S0.v += w[i];
+                for (let j = 0; j < p; j++) {
+                    S1[j] += w[i] * X[i][j];
+                    for (let k = 0; k < p; k++) S2[j][k] += w[i] * X[i][j] * X[i][k];
+                }
+                if (d.time === t && d.status === 1) {
+                    deaths.push(i);
+                    D0 += w[i];
+                    for (let j = 0; j < p; j++) {
+                        D1[j] += w[i] * X[i][j];
+                        for (let k = 0; k < p; k++) D2[j][k] += w[i] * X[i][j] * X[i][k];
+                    }
+                }
+            });
+            const m = deaths.length;
+            const meanX = new Array<number>(p).fill(0);
+            deaths.forEach(i => {
+                logLik += X[i].reduce((sum, v, j) => sum + v * beta[j], 0);
+                for (let j = 0; j < p; j++) score[j] += X[i][j];
+            });
+            for (let l = 0; l < m; l++) {
+                const f = l / m;
+                const s0 = S0.v - f * D0;
+                const s1 = S1.map((v, j) => v - f * D1[j]);
+                logLik -= Math.log(s0);
+                for (let j = 0; j < p; j++) {
+                    score[j] -= s1[j] / s0;
+                    meanX[j] += s1[j] / s0 / m;
+                    for (let k = 0; k < p; k++) information[j][k] += (S2[j][k] - f * D2[j][k]) / s0 - s1[j] * s1[k] / (s0 * s0);
+                }
+            }
+            deaths.forEach(i => residuals.push({ time: t, residual: X[i].map((v, j) => v - meanX[j]) }));
+        });
+        return { logLik, score, information, residuals };
+    };
+
+    let beta = new Array<number>(p).fill(0);
+    let current = evaluate(beta);
+    const nullLogLik = current.logLik;
+    let iterations = 0;
+    for (; iterations < 50; iterations++) {
+        const inverse = invertMatrix(current.information);
+        if (!inverse) break;
+        const step = inverse.map(row => row.reduce((sum, v, k) => sum + v * current.score[k], 0));
+        let scale = 1;
+        let candidate = evaluate(beta.map((b, j) => b + step[j]));
+        while (candidate.logLik < current.logLik && scale > 1e-4) {
+            scale /= 2;
+            candidate = evaluate(beta.map((b, j) => b + scale * step[j]));
+        }
+        beta = beta.map((b, j) => b + scale * step[j]);
+        const change = Math.abs(candidate.logLik - current.logLik);
+        current = candidate;
+        if (change < 1e-9) break;
+    }
+
+    const variance = invertMatrix(current.information) ?? current.information.map(row => row.map(() => NaN));
+    const z = normalQuantile(0.975);
+    const coefficients: CoxCoefficient[] = covariateNames.map((name, j) => {
+        const se = Math.sqrt(variance[j][j]);
+        const zValue = beta[j] / se;
+        return {
+            name,
+            coefficient: beta[j],
+            standardError: se,
+            zValue,
+            pValue: 2 * normalCDF(Math.abs(zValue), 0, 1, false),
+            hazardRatio: Math.exp(beta[j]),
+            hrLower: Math.exp(beta[j] - z * se),
+            hrUpper: Math.exp(beta[j] + z * se)
+        };
+    });
+
+    // Grambsch-Therneau: regress scaled Schoenfeld residuals on g(t) = 1 - KM(t-)
+    const km = calculateKaplanMeier(data).curve;
+    const transform = (t: number) => 1 - ([...km].reverse().find(point => point.time < t)?.survivalProbability ?? 1);
+    const nEvents = current.residuals.length;
+    const g = current.residuals.map(r => transform(r.time));
+    const gMean = calculateMean(g);
+    const gc = g.map(v => v - gMean);
+    const sumG2 = gc.reduce((sum, v) => sum + v * v, 0);
+    const scaled = current.residuals.map(r => variance.map(row => nEvents * row.reduce((sum, v, k) => sum + v * r.residual[k], 0)));
+    const proportionalHazardsTests: SchoenfeldTest[] = covariateNames.map((name, j) => {
+        const column = scaled.map(r => r[j]);
+        const weighted = gc.reduce((sum, v, k) => sum + v * column[k], 0);
+        const chiSquare = weighted * weighted / (variance[j][j] * nEvents * sumG2);
+        const colMean = calculateMean(column);
+        const rho = weighted / Math.sqrt(sumG2 * column.reduce((sum, v) => sum + (v - colMean) ** 2, 0));
+        return { name, rho, chiSquare, df: 1, pValue: chiSquareCDF(chiSquare, 1, false) };
+    });
+    const u = new Array<number>(p).fill(0).map((_, j) => current.residuals.reduce((sum, r, k) => sum + gc[k] * r.residual[j], 0));
+    const globalChiSquare = nEvents * u.reduce((sum, uj, j) => sum + uj * variance[j].reduce((s, v, k) => s + v * u[k], 0), 0) / sumG2;
+    proportionalHazardsTests.push({ name: 'GLOBAL', rho: NaN, chiSquare: globalChiSquare, df: p, pValue: chiSquareCDF(globalChiSquare, p, false) });
+
+    const likelihoodRatio = 2 * (current.logLik - nullLogLik);
+    return {
+        coefficients,
+        logLikelihood: current.logLik,
+        likelihoodRatioTest: { chiSquare: likelihoodRatio, df: p, pValue: chiSquareCDF(likelihoodRatio, p, false) },
+        proportionalHazardsTests,
+        schoenfeldResiduals: current.residuals.map((r, k) => ({ time: r.time, values: scaled[k].map((v, j) => v + beta[j]) })),
+        events: nEvents,
+        iterations
+    };
+};
+
+// SEM Logic
+// Population model behind the simulated survey: Motivation -> Study Habits -> Grades, plus a direct Motivation -> Grades path
+export const generateSEMData = (n: number): Record<string, number>[] => {
+    const data: Record<string, number>[] = [];
+    const indicator = (latent: number, loading: number) => loading * latent + normalRandom(0, Math.sqrt(1 - loading * loading));
+    for (let i = 0; i < n; i++) {
+        const mot = normalRandom();
+        const sh = 0.5 * mot + normalRandom(0, Math.sqrt(0.75));
+        const gra = 0.3 * mot + 0.45 * sh + normalRandom(0, 0.7);
+        data.push({
+            m1: indicator(mot, 0.8), m2: indicator(mot, 0.7), m3: indicator(mot, 0.75),
+            sh1: indicator(sh, 0.8), sh2: indicator(sh, 0.75), sh3: indicator(sh, 0.7),
+            gra
+        });
+    }
+    return data;
+};
+
+interface SEMFreeParameter {
+    matrix: 'A' | 'S'; // RAM asymmetric (paths) or symmetric (variances/covariances) matrix
+    row: number;
+    col: number;
+    pathId: string | null;
+    from: string;
+    to: string;
+    type: 'loading' | 'regression' | 'covariance' | 'variance';
+}
+
+// Model-implied covariance in RAM form: Sigma = F (I - A)^-1 S (I - A)^-T F^T
+const buildSEMImplied = (params: SEMFreeParameter[], values: number[], fixedA: number[][], m: number, observed: number[]) => {
+    const A = fixedA.map(row => [...row]);
+    const S: number[][] = Array.from({ length: m }, () => Array(m).fill(0));
+    params.forEach((p, i) => {
+        if (p.matrix === 'A') A[p.row][p.col] = values[i];
+        else { S[p.row][p.col] = values[i]; S[p.col][p.row] = values[i]; }
+    });
+    const IminusA = identityMatrix(m).map((row, i) => row.map((v, j) => v - A[i][j]));
+    const B = invertMatrix(IminusA);
+    if (!B) return null;
+    const full = multiplyMatrices(multiplyMatrices(B, S), transposeMatrix(B));
+    const sigma = observed.map(i => observed.map(j => full[i][j]));
+    return { B, full, sigma };
+};
+
+// Derivative of the observed implied covariance with respect to one parameter
+const semSigmaDerivative = (p: SEMFreeParameter, B: number[][], full: number[][], observed: number[]): number[][] => {
+    return observed.map(i => observed.map(j => {
+        if (p.matrix === 'A') {
+            // d(B S B^T) = B E B S B^T + transpose, with B S B^T = full
+            return B[i][p.row] * full[p.col][j] + B[j][p.row] * full[p.col][i];
+        }
+        const base = B[i][p.row] * B[j][p.col];
+        return p.row === p.col ? base : base + B[i][p.col] * B[j][p.row];
+    }));
+};
+
+// F_ML = log|Sigma| + tr(S Sigma^-1) - log|S| - p
+const semDiscrepancy = (sigma: number[][], observedCov: number[][], logDetObserved: number): number => {
+    const logDet = logDeterminantSPD(sigma);
+    const inv = invertMatrix(sigma);
+    if (isNaN(logDet) || !inv) return Infinity;
+    return logDet + matrixTrace(multiplyMatrices(observedCov, inv)) - logDetObserved - sigma.length;
+};
+
+// Gradient of F_ML and its expected Hessian (Fisher information up to a factor N/2)
+const semScoreAndInformation = (derivatives: number[][][], sigma: number[][], observedCov: number[][]) => {
+    const W = invertMatrix(sigma) as number[][];
+    const residual = sigma.map((row, i) => row.map((v, j) => v - observedCov[i][j]));
+    const WRW = multiplyMatrices(multiplyMatrices(W, residual), W);
+    const WD = derivatives.map(d => multiplyMatrices(W, d));
+    const gradient = derivatives.map(d => traceOfProduct(WRW, d));
+    const information = WD.map(a => WD.map(b => traceOfProduct(a, b)));
+    return { gradient, information };
+};
+
+export const fitSEMModel = (model: SEMModel, observedCov: number[][], observedIds: string[], sampleSize: number): SEMResult => {
+    const variableIds = model.variables.map(v => v.id);
+    const m = variableIds.length;
+    const index = (id: string) => variableIds.indexOf(id);
+    const observed = observedIds.map(index);
+    const p = observedIds.length;
+    const observedVariance = (id: string) => observedCov[observedIds.indexOf(id)]?.[observedIds.indexOf(id)] ?? 1;
+
+    // Identify each latent variable by fixing its first loading to 1 (marker variable)
+    const fixedA: number[][] = Array.from({ length: m }, () => Array(m).fill(0));
+    const markers: Record<string, string> = {};
+    const params: SEMFreeParameter[] = [];
+    const startValues: number[] = [];
+    const specified = model.paths.filter(path => path.specified);
+
+    specified.filter(path => path.type === 'loading').forEach(path => {
+        if (!markers[path.from]) {
+            markers[path.from] = path.to;
+            fixedA[index(path.to)][index(path.from)] = 1;
+        } else {
+            params.push({ matrix: 'A', row: index(path.to), col: index(path.from), pathId: path.id, from: path.from, to: path.to, type: 'loading' });
+            startValues.push(1);
+        }
+    });
+    specified.filter(path => path.type === 'regression').forEach(path => {
+        params.push({ matrix: 'A', row: index(path.to), col: index(path.from), pathId: path.id, from: path.from, to: path.to, type: 'regression' });
+        startValues.push(0);
+    });
+    specified.filter(path => path.type === 'covariance').forEach(path => {
+        params.push({ matrix: 'S', row: index(path.from), col: index(path.to), pathId: path.id, from: path.from, to: path.to, type: 'covariance' });
+        startValues.push(0);
+    });
+    // Every variable gets a (residual or disturbance) variance
+    model.variables.forEach(v => {
+        params.push({ matrix: 'S', row: index(v.id), col: index(v.id), pathId: null, from: v.id, to: v.id, type: 'variance' });
+        const scale = v.type === 'latent' ? observedVariance(markers[v.id]) : observedVariance(v.id);
+        startValues.push(0.5 * scale);
+    });
+
+    const logDetObserved = logDeterminantSPD(observedCov);
+    const objective = (values: number[]) => {
+        const implied = buildSEMImplied(params, values, fixedA, m, observed);
+        return implied ? semDiscrepancy(implied.sigma, observedCov, logDetObserved) : Infinity;
+    };
+
+    // Fisher scoring with step halving
+    let values = [...startValues];
+    let current = objective(values);
+    let converged = false;
+    let iterations = 0;
+    for (; iterations < 500; iterations++) {
+        const implied = buildSEMImplied(params, values, fixedA, m, observed);
+        if (!implied) break;
+        const derivatives = params.map(prm => semSigmaDerivative(prm, implied.B, implied.full, observed));
+        const { gradient, information } = semScoreAndInformation(derivatives, implied.sigma, observedCov);
+        const infoInverse = invertMatrix(information);
+        if (!infoInverse) break;
+        const step = infoInverse.map(row => -row.reduce((sum, v, j) => sum + v * gradient[j], 0));
+
+        let scale = 1;
+        let candidate = values.map((v, i) => v + step[i]);
+        let candidateValue = objective(candidate);
+        while (candidateValue > current && scale > 1e-6) {
+            scale /= 2;
+            candidate = values.map((v, i) => v + scale * step[i]);
+            candidateValue = objective(candidate);
+        }
+        if (candidateValue > current) break;
+
+        const change = Math.max(...step.map(s => Math.abs(s * scale)));
+        values = candidate;
+        const improvement = current - candidateValue;
+        current = candidateValue;
+        if (change < 1e-8 || improvement < 1e-12) {
+            converged = true;
+            iterations++;
+            break;
+        }
+    }
+
+    const implied = buildSEMImplied(params, values, fixedA, m, observed) as NonNullable<ReturnType<typeof buildSEMImplied>>;
+    const derivatives = params.map(prm => semSigmaDerivative(prm, implied.B, implied.full, observed));
+    const { information } = semScoreAndInformation(derivatives, implied.sigma, observedCov);
+    const infoInverse = invertMatrix(information);
+
+    // Test statistic and fit indices (normal-theory ML, T = N * F_ML)
+    const N = sampleSize;
+    const chiSquare = Math.max(0, N * current);
+    const df = p * (p + 1) / 2 - params.length;
+    const pValue = df > 0 ? chiSquareCDF(chiSquare, df, false) : 1;
+
+    // Independence (baseline) model: only the observed variances
+    const baselineChiSquare = N * (observedCov.reduce((sum, row, i) => sum + Math.log(row[i]), 0) - logDetObserved);
+    const baselineDf = p * (p - 1) / 2;
+    const excess = Math.max(chiSquare - df, 0);
+    const baselineExcess = Math.max(baselineChiSquare - baselineDf, excess);
+    const cfi = baselineExcess > 0 ? 1 - excess / baselineExcess : 1;
+    const tli = df > 0 ? ((baselineChiSquare / baselineDf) - (chiSquare / df)) / ((baselineChiSquare / baselineDf) - 1) : 1;
+    const rmsea = df > 0 ? Math.sqrt(excess / (df * N)) : 0;
+
+    // 90% CI for RMSEA by inverting the noncentral chi-square in its noncentrality
+    const solveNoncentrality = (target: number): number => {
+        if (df <= 0 || noncentralChiSquareCDF(chiSquare, df, 0) < target) return 0;
+        let lo = 0, hi = Math.max(10, chiSquare * 2);
+        while (noncentralChiSquareCDF(chiSquare, df, hi) > target) hi *= 2;
+        for (let i = 0; i < 60; i++) {
+            const mid = (lo + hi) / 2;
+            if (noncentralChiSquareCDF(chiSquare, df, mid) > target) lo = mid;
+            else hi = mid;
+        }
+        return (lo + hi) / 2;
+    };
+    const rmseaLower = df > 0 ? Math.sqrt(solveNoncentrality(0.95) / (df * N)) : 0;
+    const rmseaUpper = df > 0 ? Math.sqrt(solveNoncentrality(0.05) / (df * N)) : 0;
+
+    // SRMR: root mean square of standardized residual covariances
+    let srmrSum = 0;
+    for (let i = 0; i < p; i++) {
+        for (let j = 0; j <= i; j++) {
+            const r = (observedCov[i][j] - implied.sigma[i][j]) / Math.sqrt(observedCov[i][i] * observedCov[j][j]);
+            srmrSum += r * r;
+        }
+    }
+    const srmr = Math.sqrt(srmrSum / (p * (p + 1) / 2));
+
+    // Parameter estimates with standard errors from the inverse information, ACOV = (2 / N) * I^-1
+    const sd = implied.full.map((row, i) => Math.sqrt(Math.max(row[i], 0)));
+    const standardize = (prm: { matrix: 'A' | 'S', row: number, col: number }, value: number) => {
+        if (prm.matrix === 'A') return value * sd[prm.col] / sd[prm.row];
+        if (prm.row === prm.col) return implied.full[prm.row][prm.row] > 0 ? value / implied.full[prm.row][prm.row] : 0;
+        return value / (sd[prm.row] * sd[prm.col]);
+    };
+    const estimates: SEMParameterEstimate[] = [];
+    Object.entries(markers).forEach(([latent, indicator]) => {
+        const path = specified.find(pth => pth.type === 'loading' && pth.from === latent && pth.to === indicator);
+        estimates.push({
+            pathId: path ? path.id : `${latent}-${indicator}`, from: latent, to: indicator, type: 'loading',
+            estimate: 1, standardError: null, zValue: null, pValue: null,
+            standardized: standardize({ matrix: 'A', row: index(indicator), col: index(latent) }, 1)
+        });
+    });
+    params.forEach((prm, i) => {
+        const variance = infoInverse ? 2 / N * infoInverse[i][i] : NaN;
+        const standardError = variance > 0 ? Math.sqrt(variance) : null;
+        const zValue = standardError ? values[i] / standardError : null;
+        estimates.push({
+            pathId: prm.pathId ?? `var-${prm.from}`,
+            from: prm.from,
+            to: prm.to,
+            type: prm.type,
+            estimate: values[i],
+            standardError,
+            zValue,
+            pValue: zValue !== null ? 2 * normalCDF(Math.abs(zValue), 0, 1, false) : null,
+            standardized: standardize(prm, values[i])
+        });
+    });
+
+    // Modification indices: score tests for parameters currently fixed at zero
+    const candidates: (SEMFreeParameter & { type: 'loading' | 'regression' | 'covariance' })[] = [];
+    const connected = (a: string, b: string) => specified.some(pth => (pth.from === a && pth.to === b) || (pth.from === b && pth.to === a));
+    model.paths.filter(path => !path.specified && path.type !== 'loading' && !connected(path.from, path.to)).forEach(path => {
+        candidates.push(path.type === 'regression'
+            ? { matrix: 'A', row: index(path.to), col: index(path.from), pathId: path.id, from: path.from, to: path.to, type: 'regression' }
+            : { matrix: 'S', row: index(path.from), col: index(path.to), pathId: path.id, from: path.from, to: path.to, type: 'covariance' });
+    });
+    const indicators = new Set(specified.filter(pth => pth.type === 'loading').map(pth => pth.to));
+    Object.keys(markers).forEach(latent => {
+        indicators.forEach(ind => {
+            if (!connected(latent, ind)) {
+                candidates.push({ matrix: 'A', row: index(ind), col: index(latent), pathId: null, from: latent, to: ind, type: 'loading' });
+            }
+        });
+    });
+    for (let i = 0; i < p; i++) {
+        for (let j = i + 1; j < p; j++) {
+            const a = observedIds[i], b = observedIds[j];
+            if (!connected(a, b)) {
+                candidates.push({ matrix: 'S', row: index(a), col: index(b), pathId: null, from: a, to: b, type: 'covariance' });
+            }
+        }
+    }
+
+    const modificationIndices: ModificationIndex[] = [];
+    if (infoInverse) {
+        const W = invertMatrix(implied.sigma) as number[][];
+        const residual = implied.sigma.map((row, i) => row.map((v, j) => v - observedCov[i][j]));
+        const WRW = multiplyMatrices(multiplyMatrices(W, residual), W);
+        const WD = derivatives.map(d => multiplyMatrices(W, d));
+        candidates.forEach(c => {
+            const dc = semSigmaDerivative(c, implied.B, implied.full, observed);
+            const WDc = multiplyMatrices(W, dc);
+            const g = traceOfProduct(WRW, dc);
+            const hcc = traceOfProduct(WDc, WDc);
+            const hc = WD.map(wd => traceOfProduct(WDc, wd));
+            const projected = hc.reduce((sum, hi, i) => sum + hi * infoInverse[i].reduce((s, v, j) => s + v * hc[j], 0), 0);
+            const denominator = hcc - projected;
+            if (denominator < 1e-10) return; // not identified if freed
+            modificationIndices.push({
+                pathId: c.pathId, from: c.from, to: c.to, type: c.type,
+                mi: N / 2 * g * g / denominator,
+                epc: -g / denominator
+            });
+        });
+        modificationIndices.sort((a, b) => b.mi - a.mi);
+    }
+
+    return {
+        fit: { chiSquare, df, pValue, cfi: Math.max(0, Math.min(1, cfi)), tli, rmsea, rmseaLower, rmseaUpper, srmr },
+        estimates,
+        modificationIndices,
+        converged,
+        identified: infoInverse !== null,
+        iterations
+    };
+};
+
+// PSM Logic
+export const PSM_COVARIATES = ['priorScore', 'motivation', 'parentEducation', 'attendance'];
 
-    interactions.forEach(int => {
-        if (!nodeMap[int.source]) nodeMap[int.source] = { id: int.source, degree: 0 };
-        if (!nodeMap[int.target]) nodeMap[int.target] = { id: int.target, degree: 0 };
-        
-        nodeMap[int.source].degree++;
-        nodeMap[int.target].degree++;
-        
-        links.push(int);
+// Simulated tutoring program: students with higher prior scores, motivation, parental education and attendance are more likely to enrol
+export const generatePSMData = (n: number, selectionBias: number, trueEffect = 5): PSMDataPoint[] => {
+    const strength = selectionBias / 20;
+    return Array.from({ length: n }, (_, id) => {
+        const motivation = normalRandom();
+        const priorScore = Math.max(0, Math.min(100, 60 + 8 * motivation + normalRandom(0, 9)));
+        const parentEducation = Math.max(8, Math.min(20, Math.round(14 + normalRandom(0, 2.5))));
+        const attendance = Math.max(40, Math.min(100, 85 + 3 * motivation + normalRandom(0, 7)));
+        const selection = 0.6 * (priorScore - 60) / 12 + 0.5 * motivation + 0.4 * (parentEducation - 14) / 2.5 + 0.3 * (attendance - 85) / 7.6;
+        const treated = Math.random() < 1 / (1 + Math.exp(-(-0.3 + strength * selection)));
+        const outcome = 10 + 0.7 * priorScore + 3 * motivation + 0.8 * (parentEducation - 14) + 0.1 * attendance
+            + (treated ? trueEffect : 0) + normalRandom(0, 6);
+        return {
+            id,
+            group: treated ? 'Treatment' : 'Control',
+            covariates: { priorScore, motivation, parentEducation, attendance },
+            outcome,
+            propensityScore: 0,
+            logit: 0,
+            isMatched: false,
+            matchedWithIds: [],
+            matchWeight: 0
+        };
     });
-    
-    return {
-        nodes: Object.values(nodeMap),
-        links
-    };
 };
 
-// Knowledge Tracing
-export const updateMastery = (currentMastery: number, isCorrect: boolean, params: BKTParams): number => {
-    const { learn, guess, slip } = params;
-    
-    // 1. Probability previously known given evidence
-    let pKnownGivenEvidence;
-    if (isCorrect) {
-        pKnownGivenEvidence = (currentMastery * (1 - slip)) / (currentMastery * (1 - slip) + (1 - currentMastery) * guess);
-    } else {
-        pKnownGivenEvidence = (currentMastery * slip) / (currentMastery * slip + (1 - currentMastery) * (1 - guess));
-    }
-    
-    // 2. Update with probability of learning
-    const newMastery = pKnownGivenEvidence + (1 - pKnownGivenEvidence) * learn;
-    
-    return Math.max(0, Math.min(1, newMastery));
+// Propensity scores from a logistic regression of treatment on the (standardized) covariates
+export const estimatePropensityScores = (data: PSMDataPoint[], covariates: string[]): PSMDataPoint[] => {
+    const columns = covariates.map(c => data.map(d => d.covariates[c]));
+    const means = columns.map(col => calculateMean(col));
+    const sds = columns.map(col => Math.sqrt(calculateVariance(col)) || 1);
+    const X = data.map(d => covariates.map((c, j) => (d.covariates[c] - means[j]) / sds[j]));
+    const y = data.map(d => (d.group === 'Treatment' ? 1 : 0));
+    const beta = fitLogisticRegression(X, y, covariates, 1e-8).coefficients.map(c => c.estimate);
+    return data.map((d, i) => {
+        const logit = X[i].reduce((sum, x, j) => sum + beta[j + 1] * x, beta[0]);
+        return { ...d, logit, propensityScore: 1 / (1 + Math.exp(-logit)), isMatched: false, matchedWithIds: [], matchWeight: 0 };
+    });
 };
 
-// Survival Analysis
-export const generateSurvivalData = (n: number, interventionEffect: number): SurvivalDataPoint[] => {
-    const data: SurvivalDataPoint[] = [];
-    for(let i=0; i<n; i++) {
-        const group = i < n/2 ? 'Group A' : 'Group B';
-        // Baseline hazard
-        let hazard = 0.05; 
-        if (group === 'Group A') hazard *= (1 - interventionEffect); // Reduce hazard for treatment
-        
-        let time = 0;
-        while(Math.random() > hazard && time < 20) {
-            time++;
-        }
-        
-        const status = time < 20 ? 1 : 0; // 1 = Event (Dropout), 0 = Censored
-        data.push({ time, status, group });
+// Hungarian algorithm (shortest augmenting paths) for a rows <= columns cost matrix; returns the column assigned to each row
+const solveAssignment = (cost: number[][]): number[] => {
+    const n = cost.length, m = cost[0].length;
+    const u = new Array<number>(n + 1).fill(0);
+    const v = new Array<number>(m + 1).fill(0);
+    const p = new Array<number>(m + 1).fill(0);
+    const way = new Array<number>(m + 1).fill(0);
+    for (let i = 1; i <= n; i++) {
+        p[0] = i;
+        let j0 = 0;
+        const minv = new Array<number>(m + 1).fill(Infinity);
+        const used = new Array<boolean>(m + 1).fill(false);
+        do {
+            used[j0] = true;
+            const i0 = p[j0];
+            let delta = Infinity, j1 = 0;
+            for (let j = 1; j <= m; j++) {
+                if (used[j]) continue;
+                const cur = cost[i0 - 1][j - 1] - u[i0] - v[j];
+                if (cur < minv[j]) { minv[j] = cur; way[j] = j0; }
+                if (minv[j] < delta) { delta = minv[j]; j1 = j; }
+            }
+            for (let j = 0; j <= m; j++) {
+                if (used[j]) { u[p[j]] += delta; v[j] -= delta; } else minv[j] -= delta;
+            }
+            j0 = j1;
+        } while (p[j0] !== 0);
+        do {
+            const j1 = way[j0];
+            p[j0] = p[j1];
+            j0 = j1;
+        } while (j0);
     }
-    return data;
+    const assignment = new Array<number>(n).fill(-1);
+    for (let j = 1; j <= m; j++) if (p[j] > 0) assignment[p[j] - 1] = j - 1;
+    return assignment;
 };
 
-export const calculateKaplanMeier = (data: SurvivalDataPoint[]): SurvivalCurvePoint[] => {
-    const sorted = data.sort((a, b) => a.time - b.time);
-    const points: SurvivalCurvePoint[] = [{ time: 0, survivalProbability: 1 }];
-    
-    let currentProb = 1;
-    let n = data.length;
-    
-    // Iterate through unique times
-    const times = Array.from(new Set(sorted.map(d => d.time))).filter(t => t > 0);
-    
-    times.forEach(t => {
-        const atRisk = sorted.filter(d => d.time >= t).length;
-        const events = sorted.filter(d => d.time === t && d.status === 1).length;
-        
-        if (atRisk > 0) {
-            currentProb *= (1 - events / atRisk);
+// Greedy or optimal matching on the logit of the propensity score, with ATT weights for controls
+export const performMatching = (data: PSMDataPoint[], options: PSMMatchingOptions): PSMDataPoint[] => {
+    const { method, ratio, replacement, caliper } = options;
+    const treatment = data.filter(d => d.group === 'Treatment');
+    const control = data.filter(d => d.group === 'Control');
+    const maxDistance = caliper === null ? Infinity : caliper * Math.sqrt(calculateVariance(data.map(d => d.logit)));
+    const matches = new Map<number, number[]>(treatment.map(t => [t.id, []]));
+
+    if (method === 'optimal' && !replacement) {
+        // Each treated unit appears `ratio` times as a row; dummy columns absorb rows that cannot be matched
+        const rows = treatment.flatMap(t => Array.from({ length: ratio }, () => t));
+        const penalty = 1e6;
+        const columns = Math.max(control.length, rows.length);
+        const cost = rows.map(t => Array.from({ length: columns }, (_, j) => {
+            if (j >= control.length) return penalty;
+            const distance = Math.abs(t.logit - control[j].logit);
+            return distance <= maxDistance ? distance : penalty;
+        }));
+        solveAssignment(cost).forEach((j, r) => {
+            if (j >= 0 && j < control.length && cost[r][j] < penalty) matches.get(rows[r].id)!.push(control[j].id);
+        });
+    } else {
+        const used = new Set<number>();
+        [...treatment].sort((a, b) => b.logit - a.logit).forEach(t => {
+            const candidates = control
+                .filter(c => (replacement || !used.has(c.id)) && Math.abs(t.logit - c.logit) <= maxDistance)
+                .sort((a, b) => Math.abs(t.logit - a.logit) - Math.abs(t.logit - b.logit))
+                .slice(0, ratio);
+            candidates.forEach(c => used.add(c.id));
+            matches.set(t.id, candidates.map(c => c.id));
+        });
+    }
+
+    // ATT weights: matched treated get 1, each control gets the sum of 1/(number of controls) over the treated it serves
+    const controlWeights = new Map<number, number>();
+    const controlPartners = new Map<number, number[]>();
+    matches.forEach((controls, treatedId) => controls.forEach(c => {
+        controlWeights.set(c, (controlWeights.get(c) ?? 0) + 1 / controls.length);
+        controlPartners.set(c, [...(controlPartners.get(c) ?? []), treatedId]);
+    }));
+    return data.map(d => {
+        if (d.group === 'Treatment') {
+            const partners = matches.get(d.id) ?? [];
+            return { ...d, isMatched: partners.length > 0, matchedWithIds: partners, matchWeight: partners.length > 0 ? 1 : 0 };
         }
-        points.push({ time: t, survivalProbability: currentProb });
+        const partners = controlPartners.get(d.id) ?? [];
+        return { ...d, isMatched: partners.length > 0, matchedWithIds: partners, matchWeight: controlWeights.get(d.id) ?? 0 };
     });
-    
-    // Fill forward
-    if (points[points.length - 1].time < 20) {
-         points.push({ time: 20, survivalProbability: currentProb });
-    }
-    
-    return points;
 };
 
-// SEM Logic
-export const calculateModelFit = (model: SEMModel): FitIndices => {
-    // Very simplified mock calculation based on model structure "correctness"
-    // In reality, this requires matrix algebra (implied covariance matrix vs observed)
-    
-    let score = 100;
-    
-    // Rule: Latent variables must drive observed variables (loadings)
-    const loadings = model.paths.filter(p => p.type === 'loading' && p.specified);
-    if (loadings.length < 6) score -= 50; // Missing measurement model
-    
-    // Rule: Structural paths
-    const structural = model.paths.filter(p => p.type === 'regression' && p.specified);
-    const cov = model.paths.filter(p => p.type === 'covariance' && p.specified);
-    
-    if (structural.length === 0 && cov.length === 0) score -= 20;
-    
-    // Arbitrary "Best Model" is: mot -> sh, sh -> gra, mot -> gra
-    const optimalPaths = ['mot-sh', 'sh-gra', 'mot-gra'];
-    structural.forEach(p => {
-        if (optimalPaths.includes(p.id)) score += 5;
-        else score -= 5; // Penalize "wrong" theories for the game
+// Standardized mean differences use the pooled SD of the unmatched sample so before/after values are comparable
+export const calculateCovariateBalance = (data: PSMDataPoint[], covariates: string[]): CovariateBalance[] => {
+    const variables = [...covariates, 'logit'];
+    const valueOf = (d: PSMDataPoint, v: string) => (v === 'logit' ? d.logit : d.covariates[v]);
+    const weightedStats = (rows: PSMDataPoint[], v: string, weighted: boolean) => {
+        const w = rows.map(d => (weighted ? d.matchWeight : 1));
+        const total = w.reduce((a, b) => a + b, 0);
+        const mean = rows.reduce((sum, d, i) => sum + w[i] * valueOf(d, v), 0) / total;
+        const variance = rows.reduce((sum, d, i) => sum + w[i] * (valueOf(d, v) - mean) ** 2, 0) / total;
+        return { mean, variance };
+    };
+    const treated = data.filter(d => d.group === 'Treatment');
+    const controls = data.filter(d => d.group === 'Control');
+    const matchedTreated = treated.filter(d => d.matchWeight > 0);
+    const matchedControls = controls.filter(d => d.matchWeight > 0);
+    return variables.map(v => {
+        const tBefore = weightedStats(treated, v, false);
+        const cBefore = weightedStats(controls, v, false);
+        const pooledSd = Math.sqrt((tBefore.variance + cBefore.variance) / 2) || 1;
+        const hasMatches = matchedTreated.length > 0 && matchedControls.length > 0;
+        const tAfter = hasMatches ? weightedStats(matchedTreated, v, true) : null;
+        const cAfter = hasMatches ? weightedStats(matchedControls, v, true) : null;
+        return {
+            covariate: v,
+            treatedMeanBefore: tBefore.mean,
+            controlMeanBefore: cBefore.mean,
+            smdBefore: (tBefore.mean - cBefore.mean) / pooledSd,
+            smdAfter: tAfter && cAfter ? (tAfter.mean - cAfter.mean) / pooledSd : null,
+            varianceRatioBefore: tBefore.variance / cBefore.variance,
+            varianceRatioAfter: tAfter && cAfter ? tAfter.variance / cAfter.variance : null
+        };
     });
-    
-    // Map score to indices
-    // Chi-square: lower is better. 
-    const chiSquare = Math.max(0, 100 - score) * 2 + Math.random() * 5;
-    const pValue = chiSquare < 5 ? 0.5 : (chiSquare < 20 ? 0.04 : 0.001);
-    const cfi = Math.min(1, 0.5 + score / 200);
-    const rmsea = Math.max(0, 0.2 - score / 500);
+};
 
-    return { chiSquare, df: 10, pValue, cfi, rmsea };
+// ATT over matched sets with a percentile bootstrap CI
+export const estimateTreatmentEffect = (data: PSMDataPoint[], bootstrapSamples = 1000, confidenceLevel = 0.95): TreatmentEffectEstimate => {
+    const byId = new Map(data.map(d => [d.id, d]));
+    const treated = data.filter(d => d.group === 'Treatment');
+    const controls = data.filter(d => d.group === 'Control');
+    const naiveDifference = calculateMean(treated.map(d => d.outcome)) - calculateMean(controls.map(d => d.outcome));
+    const differences = treated.filter(d => d.isMatched).map(t =>
+        t.outcome - calculateMean(t.matchedWithIds.map(id => (byId.get(id) as PSMDataPoint).outcome)));
+    const unmatchedTreated = treated.length - differences.length;
+    if (differences.length === 0) {
+        return { att: NaN, standardError: NaN, ciLower: NaN, ciUpper: NaN, naiveDifference, matchedTreated: 0, matchedControls: 0, unmatchedTreated };
+    }
+    const att = calculateMean(differences);
+    const replicates = Array.from({ length: bootstrapSamples }, () => {
+        let sum = 0;
+        for (let i = 0; i < differences.length; i++) sum += differences[Math.floor(Math.random() * differences.length)];
+        return sum / differences.length;
+    }).sort((a, b) => a - b);
+    const tail = (1 - confidenceLevel) / 2;
+    return {
+        att,
+        standardError: Math.sqrt(calculateVariance(replicates)),
+        ciLower: replicates[Math.floor(tail * (bootstrapSamples - 1))],
+        ciUpper: replicates[Math.ceil((1 - tail) * (bootstrapSamples - 1))],
+        naiveDifference,
+        matchedTreated: differences.length,
+        matchedControls: controls.filter(d => d.isMatched).length,
+        unmatchedTreated
+    };
 };
 
-// PSM Logic
-export const generatePSMData = (n: number, selectionBias: number): PSMDataPoint[] => {
-    const data: PSMDataPoint[] = [];
-    for(let i=0; i<n; i++) {
-        const priorScore = Math.max(0, Math.min(100, 50 + (Math.random() - 0.5) * 40));
-        
-        // Treatment probability increases with prior score (Selection Bias)
-        const probTreatment = 1 / (1 + Math.exp(-((priorScore - 50) / 20 + selectionBias/10)));
-        
-        const group = Math.random() < probTreatment ? 'Treatment' : 'Control';
-        
-        data.push({ id: i, group, priorScore, isMatched: false, matchedWithId: null });
+// XAI Prediction Logic (gradient-boosted trees + interventional TreeSHAP)
+export const STUDENT_FEATURE_NAMES: (keyof StudentFeatures)[] = ['assignmentCompletion', 'quizScores', 'forumParticipation', 'absences', 'procrastination'];
+
+// Simulated course records: pass/fail depends non-linearly on the features (absences only hurt past a threshold, quizzes matter more with low completion)
+export const generateStudentOutcomeData = (n: number): Record<string, number>[] => {
+    const clamp = (v: number) => Math.round(Math.max(0, Math.min(100, v)));
+    return Array.from({ length: n }, () => {
+        const engagement = normalRandom();
+        const assignmentCompletion = clamp(70 + 15 * engagement + normalRandom(0, 10));
+        const quizScores = clamp(72 + 8 * engagement + normalRandom(0, 12));
+        const forumParticipation = clamp(35 + 12 * engagement + normalRandom(0, 15));
+        const absences = clamp(15 - 6 * engagement + normalRandom(0, 8));
+        const procrastination = clamp(40 - 10 * engagement + normalRandom(0, 15));
+        const logOdds = 0.5
+            + 0.06 * (assignmentCompletion - 70)
+            + 0.05 * (quizScores - 72) * (assignmentCompletion < 60 ? 1.6 : 1)
+            + 0.01 * (forumParticipation - 35)
+            - 0.15 * Math.max(0, absences - 20)
+            - 0.02 * (procrastination - 40);
+        const passed = Math.random() < 1 / (1 + Math.exp(-logOdds)) ? 1 : 0;
+        return { assignmentCompletion, quizScores, forumParticipation, absences, procrastination, passed };
+    });
+};
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+// Area under the ROC curve via the Mann-Whitney statistic (ties count one half)
+const calculateAuc = (scores: number[], labels: number[]): number => {
+    const ranked = scores.map((s, i) => ({ s, y: labels[i] })).sort((a, b) => a.s - b.s);
+    let rankSumPositive = 0;
+    for (let i = 0; i < ranked.length;) {
+        let j = i;
+        while (j + 1 < ranked.length && ranked[j + 1].s === ranked[i].s) j++;
+        const averageRank = (i + j) / 2 + 1;
+        for (let t = i; t <= j; t++) if (ranked[t].y === 1) rankSumPositive += averageRank;
+        i = j + 1;
     }
-    return data;
+    const nPos = labels.filter(y => y === 1).length;
+    const nNeg = labels.length - nPos;
+    return (rankSumPositive - nPos * (nPos + 1) / 2) / (nPos * nNeg);
 };
 
-export const performMatching = (data: PSMDataPoint[]): PSMDataPoint[] => {
-    const treatment = data.filter(d => d.group === 'Treatment');
-    const control = data.filter(d => d.group === 'Control');
-    const newData = [...data];
-    
-    // Nearest Neighbor Matching (Greedy)
-    // Shuffle treatment to avoid order bias
-    treatment.sort(() => Math.random() - 0.5);
-    
-    const usedControlIds = new Set<number>();
-    
-    treatment.forEach(t => {
-        let bestMatch = null;
-        let minDiff = Infinity;
-        
-        control.forEach(c => {
-            if (!usedControlIds.has(c.id)) {
-                const diff = Math.abs(t.priorScore - c.priorScore);
-                if (diff < minDiff && diff < 5) { // Caliper of 5
-                    minDiff = diff;
-                    bestMatch = c;
-                }
+// Grows one regression tree on the logistic-loss gradients (second-order gain, L2 penalty lambda = 1)
+const growBoostedTree = (
+    X: number[][], gradients: number[], hessians: number[], rows: number[],
+    maxDepth: number, minSamplesLeaf: number, learningRate: number
+): BoostedTreeNode[] => {
+    const lambda = 1;
+    const nodes: BoostedTreeNode[] = [];
+    const build = (indices: number[], depth: number): number => {
+        const G = indices.reduce((sum, i) => sum + gradients[i], 0);
+        const H = indices.reduce((sum, i) => sum + hessians[i], 0);
+        const id = nodes.length;
+        nodes.push({ feature: -1, threshold: 0, left: -1, right: -1, value: learningRate * G / (H + lambda) });
+        if (depth >= maxDepth || indices.length < 2 * minSamplesLeaf) return id;
+
+        let best = { gain: 1e-6, feature: -1, threshold: 0 };
+        const parentScore = G * G / (H + lambda);
+        for (let f = 0; f < X[0].length; f++) {
+            const sorted = [...indices].sort((a, b) => X[a][f] - X[b][f]);
+            let GL = 0, HL = 0;
+            for (let s = 0; s < sorted.length - 1; s++) {
+                GL += gradients[sorted[s]];
+                HL += hessians[sorted[s]];
+                const here = X[sorted[s]][f], next = X[sorted[s + 1]][f];
+                if (here === next || s + 1 < minSamplesLeaf || sorted.length - s - 1 < minSamplesLeaf) continue;
+                const GR = G - GL, HR = H - HL;
+                const gain = GL * GL / (HL + lambda) + GR * GR / (HR + lambda) - parentScore;
+                if (gain > best.gain) best = { gain, feature: f, threshold: (here + next) / 2 };
             }
+        }
+        if (best.feature === -1) return id;
+        const leftRows = indices.filter(i => X[i][best.feature] <= best.threshold);
+        const rightRows = indices.filter(i => X[i][best.feature] > best.threshold);
+        nodes[id].feature = best.feature;
+        nodes[id].threshold = best.threshold;
+        nodes[id].left = build(leftRows, depth + 1);
+        nodes[id].right = build(rightRows, depth + 1);
+        return id;
+    };
+    build(rows, 0);
+    return nodes;
+};
+
+const treeOutput = (tree: BoostedTreeNode[], x: number[]): number => {
+    let node = tree[0];
+    while (node.feature !== -1) node = tree[x[node.feature] <= node.threshold ? node.left : node.right];
+    return node.value;
+};
+
+const predictLogOdds = (model: BoostedTreeModel, x: number[]): number =>
+    model.trees.reduce((sum, tree) => sum + treeOutput(tree, x), model.baseScore);
+
+const toFeatureVector = (model: BoostedTreeModel, row: Record<string, number>) => model.featureNames.map(f => row[f]);
+
+// Gradient-boosted trees with logistic loss, scored on a random holdout
+export const trainBoostedTrees = (
+    data: Record<string, number>[],
+    featureNames: string[],
+    outcome: string,
+    options: { numTrees?: number, maxDepth?: number, learningRate?: number, minSamplesLeaf?: number, testFraction?: number } = {}
+): { model: BoostedTreeModel, performance: ModelPerformance } => {
+    const { numTrees = 100, maxDepth = 3, learningRate = 0.1, minSamplesLeaf = 10, testFraction = 0.2 } = options;
+    const X = data.map(row => featureNames.map(f => row[f]));
+    const y = data.map(row => (row[outcome] > 0 ? 1 : 0));
+    const shuffled = shuffle(data.map((_, i) => i));
+    const testSize = Math.floor(data.length * testFraction);
+    const testRows = shuffled.slice(0, testSize);
+    const trainRows = shuffled.slice(testSize);
+
+    const baseRate = Math.min(Math.max(trainRows.reduce((sum, i) => sum + y[i], 0) / trainRows.length, 1e-3), 1 - 1e-3);
+    const model: BoostedTreeModel = { featureNames, trees: [], baseScore: Math.log(baseRate / (1 - baseRate)), learningRate };
+    const margins = data.map(() => model.baseScore);
+    const gradients = new Array<number>(data.length).fill(0);
+    const hessians = new Array<number>(data.length).fill(0);
+
+    for (let t = 0; t < numTrees; t++) {
+        trainRows.forEach(i => {
+            const p = sigmoid(margins[i]);
+            gradients[i] = y[i] - p;
+            hessians[i] = p * (1 - p);
         });
-        
-        if (bestMatch) {
-            usedControlIds.add((bestMatch as PSMDataPoint).id);
-            // Update t
-            const tIndex = newData.findIndex(d => d.id === t.id);
-            if(tIndex !== -1) {
-                newData[tIndex] = { ...newData[tIndex], isMatched: true, matchedWithId: (bestMatch as PSMDataPoint).id };
-            }
-            // Update c
-            const cIndex = newData.findIndex(d => d.id === (bestMatch as PSMDataPoint).id);
-            if(cIndex !== -1) {
-                newData[cIndex] = { ...newData[cIndex], isMatched: true, matchedWithId: t.id };
+        const tree = growBoostedTree(X, gradients, hessians, trainRows, maxDepth, minSamplesLeaf, learningRate);
+        model.trees.push(tree);
+        data.forEach((_, i) => { margins[i] += treeOutput(tree, X[i]); });
+    }
+
+    const accuracy = (rows: number[]) => rows.filter(i => (margins[i] > 0 ? 1 : 0) === y[i]).length / Math.max(rows.length, 1);
+    const testProbabilities = testRows.map(i => sigmoid(margins[i]));
+    const performance: ModelPerformance = {
+        trainAccuracy: accuracy(trainRows),
+        testAccuracy: accuracy(testRows),
+        testAuc: testRows.length > 0 ? calculateAuc(testProbabilities, testRows.map(i => y[i])) : NaN,
+        testLogLoss: testRows.reduce((sum, i, j) => sum - Math.log(Math.max(1e-12, y[i] === 1 ? testProbabilities[j] : 1 - testProbabilities[j])), 0) / Math.max(testRows.length, 1),
+        trainSize: trainRows.length,
+        testSize
+    };
+    return { model, performance };
+};
+
+// Interventional TreeSHAP for one tree against one background row (Lundberg et al., 2020).
+// Only features where x and z take different branches can matter; a leaf reached with a features
+// following x and b following z pays (a-1)! b! / (a+b)! to each x-feature and -a! (b-1)! / (a+b)! to each z-feature.
+const interventionalTreeShap = (tree: BoostedTreeNode[], x: number[], z: number[], phi: number[], factorials: number[]) => {
+    const side = new Int8Array(x.length); // 1 = follows x, -1 = follows background
+    const recurse = (nodeId: number, a: number, b: number) => {
+        const node = tree[nodeId];
+        if (node.feature === -1) {
+            const total = factorials[a + b];
+            for (let f = 0; f < side.length; f++) {
+                if (side[f] === 1) phi[f] += node.value * factorials[a - 1] * factorials[b] / total;
+                else if (side[f] === -1) phi[f] -= node.value * factorials[a] * factorials[b - 1] / total;
             }
+            return;
         }
-    });
-    
-    return newData;
+        const f = node.feature;
+        const xChild = x[f] <= node.threshold ? node.left : node.right;
+        const zChild = z[f] <= node.threshold ? node.left : node.right;
+        if (xChild === zChild) return recurse(xChild, a, b);
+        if (side[f] === 1) return recurse(xChild, a, b);
+        if (side[f] === -1) return recurse(zChild, a, b);
+        side[f] = 1;
+        recurse(xChild, a + 1, b);
+        side[f] = -1;
+        recurse(zChild, a, b + 1);
+        side[f] = 0;
+    };
+    recurse(0, 0, 0);
 };
 
-// XAI Prediction Logic (Linear Model + SHAP-like feature attribution)
-export const calculateXaiPrediction = (features: StudentFeatures): PredictionResult => {
-    const baseValue = 50; // Base probability
-    const contributions: FeatureContribution[] = [];
-    
-    // Model weights (simplified)
-    const weights = {
-        assignmentCompletion: 0.4,
-        quizScores: 0.3,
-        forumParticipation: 0.1,
-        absences: -0.5,
-        procrastination: -0.3
-    };
-    
-    // Feature baselines (average student)
-    const baselines = {
-        assignmentCompletion: 70,
-        quizScores: 75,
-        forumParticipation: 30,
-        absences: 5,
-        procrastination: 40
+const shapValues = (model: BoostedTreeModel, x: number[], background: number[][]): number[] => {
+    const M = model.featureNames.length;
+    const factorials = [1];
+    for (let i = 1; i <= M; i++) factorials.push(factorials[i - 1] * i);
+    const phi = new Array<number>(M).fill(0);
+    background.forEach(z => model.trees.forEach(tree => interventionalTreeShap(tree, x, z, phi, factorials)));
+    return phi.map(v => v / background.length);
+};
+
+// Exact SHAP values on the log-odds scale; they sum to logOdds - baseLogOdds
+export const explainPrediction = (model: BoostedTreeModel, student: Record<string, number>, background: Record<string, number>[]): PredictionResult => {
+    const x = toFeatureVector(model, student);
+    const backgroundX = background.map(row => toFeatureVector(model, row));
+    const logOdds = predictLogOdds(model, x);
+    const baseLogOdds = backgroundX.reduce((sum, z) => sum + predictLogOdds(model, z), 0) / backgroundX.length;
+    const phi = shapValues(model, x, backgroundX);
+    return {
+        prediction: sigmoid(logOdds) * 100,
+        contributions: model.featureNames.map((feature, i) => ({ feature, value: phi[i], featureValue: x[i] })),
+        baseValue: sigmoid(baseLogOdds) * 100,
+        logOdds,
+        baseLogOdds
     };
+};
 
-    let score = baseValue;
-    
-    for (const key in features) {
-        const k = key as keyof StudentFeatures;
-        const diff = features[k] - baselines[k];
-        const contribution = diff * weights[k];
-        score += contribution;
-        contributions.push({ feature: k.replace(/([A-Z])/g, ' $1').trim(), value: contribution });
-    }
-    
-    // Clamp
-    score = Math.max(0, Math.min(100, score));
-    
-    return { prediction: score, contributions, baseValue };
+// Global summary: mean |SHAP| importance and per-feature dependence points over a set of students
+export const explainModelGlobally = (model: BoostedTreeModel, rows: Record<string, number>[], background: Record<string, number>[]): GlobalShapSummary => {
+    const backgroundX = background.map(row => toFeatureVector(model, row));
+    const dependence: Record<string, ShapDependencePoint[]> = Object.fromEntries(model.featureNames.map(f => [f, [] as ShapDependencePoint[]]));
+    const totals = new Array<number>(model.featureNames.length).fill(0);
+    rows.forEach(row => {
+        const x = toFeatureVector(model, row);
+        shapValues(model, x, backgroundX).forEach((v, i) => {
+            totals[i] += Math.abs(v);
+            dependence[model.featureNames[i]].push({ featureValue: x[i], shap: v });
+        });
+    });
+    return {
+        importance: model.featureNames.map((feature, i) => ({ feature, value: totals[i] / Math.max(rows.length, 1) })).sort((a, b) => b.value - a.value),
+        dependence
+    };
 };
 
 // Multimodal Data Gen
@@ -1198,59 +4692,458 @@ export const findBookmarks = (data: MultimodalData): Bookmark[] => {
 };
 
 // IRT Logic
+// 3PL: P(theta) = c + (1 - c) / (1 + exp(-a(theta - b))); 2PL when c is 0, Rasch when a is shared by all items
 export const calculateIrtProbability = (theta: number, params: IRTParams): number => {
-    const { discrimination, difficulty } = params;
-    // 2PL Model: P(theta) = 1 / (1 + exp(-a(theta - b)))
-    return 1 / (1 + Math.exp(-discrimination * (theta - difficulty)));
-};
-
-// LDA Logic (Fake)
-export const calculateLda = (numTopics: number): LDAResult => {
-    const vocab = [
-        'learning', 'student', 'teacher', 'grade', 'exam', 
-        'online', 'video', 'forum', 'post', 'reply',
-        'difficulty', 'concept', 'understand', 'confused', 'help',
-        'assignment', 'deadline', 'submit', 'late', 'score'
-    ];
-    
-    // Generate Topics
-    const topics: Topic[] = [];
-    for(let i=0; i<numTopics; i++) {
-        // Pick 5 random keywords
-        const shuffled = [...vocab].sort(() => 0.5 - Math.random());
-        const keywords: Keyword[] = shuffled.slice(0, 5).map(w => ({ text: w, weight: Math.random() }));
-        topics.push({ id: i, keywords });
+    const { discrimination, difficulty, guessing = 0 } = params;
+    return guessing + (1 - guessing) / (1 + Math.exp(-discrimination * (theta - difficulty)));
+};
+
+// Fisher information of one item at theta (Birnbaum's 3PL formula; reduces to a^2 P Q for the 2PL)
+export const calculateItemInformation = (theta: number, params: IRTParams): number => {
+    const c = params.guessing ?? 0;
+    const p = calculateIrtProbability(theta, params);
+    return params.discrimination ** 2 * ((p - c) / (1 - c)) ** 2 * (1 - p) / p;
+};
+
+export const SAMPLE_IRT_ITEMS: IRTParams[] = [
+    { discrimination: 1.6, difficulty: -1.8, guessing: 0.15 },
+    { discrimination: 1.2, difficulty: -1.2, guessing: 0.2 },
+    { discrimination: 2.0, difficulty: -0.6, guessing: 0.1 },
+    { discrimination: 0.4, difficulty: -0.2, guessing: 0.2 },
+    { discrimination: 1.4, difficulty: 0.0, guessing: 0.25 },
+    { discrimination: 1.8, difficulty: 0.4, guessing: 0.1 },
+    { discrimination: 1.0, difficulty: 0.8, guessing: 0.2 },
+    { discrimination: 2.2, difficulty: 1.2, guessing: 0.05 },
+    { discrimination: 0.7, difficulty: 1.6, guessing: 0.25 },
+    { discrimination: 1.5, difficulty: 2.0, guessing: 0.15 }
+];
+
+// Simulated quiz export: abilities ~ N(0, 1), one row per student, one 0/1 column per item
+export const generateIrtResponses = (numPersons: number, items: IRTParams[] = SAMPLE_IRT_ITEMS): { itemNames: string[], responses: number[][], abilities: number[] } => {
+    const abilities = Array.from({ length: numPersons }, () => normalRandom(0, 1));
+    const responses = abilities.map(theta => items.map(item => (Math.random() < calculateIrtProbability(theta, item) ? 1 : 0)));
+    return { itemNames: items.map((_, i) => `Q${i + 1}`), responses, abilities };
+};
+
+// Fixed quadrature for the N(0, 1) ability distribution
+const IRT_QUADRATURE = (() => {
+    const nodes = Array.from({ length: 41 }, (_, i) => -4 + i * 0.2);
+    const densities = nodes.map(t => Math.exp(-t * t / 2));
+    const total = densities.reduce((a, b) => a + b, 0);
+    return { nodes, weights: densities.map(d => d / total) };
+})();
+
+// Beta(5, 17) prior on the 3PL lower asymptote keeps c estimable when few low-ability students answer an item
+const GUESSING_PRIOR = { alpha: 5, beta: 17 };
+
+// Marginal ML (Bock-Aitkin EM) for Rasch, 2PL and 3PL items, SEs from the M-step information
+export const estimateIrtModel = (responses: number[][], itemNames: string[], model: IRTModelType, maxIterations = 500): IRTEstimationResult => {
+    const { nodes, weights } = IRT_QUADRATURE;
+    const J = itemNames.length;
+    const Q = nodes.length;
+    const N = responses.length;
+    const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
+    const proportions = itemNames.map((_, j) => clamp(responses.reduce((sum, row) => sum + row[j], 0) / N, 0.01, 0.99));
+
+    let items: IRTParams[] = proportions.map(p => ({
+        discrimination: 1,
+        difficulty: clamp(-Math.log(p / (1 - p)) / 1.2, -4, 4),
+        guessing: model === '3pl' ? 0.2 : 0
+    }));
+
+    // Posterior weights of every person over the quadrature nodes
+    const posteriorOverNodes = (current: IRTParams[]) => {
+        const probabilities = current.map(item => nodes.map(t => calculateIrtProbability(t, item)));
+        let logLikelihood = 0;
+        const posteriors = responses.map(row => {
+            const logs = nodes.map((_, q) => Math.log(weights[q]) + row.reduce((sum, x, j) =>
+                sum + Math.log(x === 1 ? probabilities[j][q] : 1 - probabilities[j][q]), 0));
+            const max = Math.max(...logs);
+            const unnormalized = logs.map(l => Math.exp(l - max));
+            const total = unnormalized.reduce((a, b) => a + b, 0);
+            logLikelihood += max + Math.log(total);
+            return unnormalized.map(u => u / total);
+        });
+        return { posteriors, logLikelihood };
+    };
+
+    // Score and expected information of one item's (a, b, c) given expected counts at each node
+    const itemDerivatives = (item: IRTParams, expectedN: number[], expectedR: number[]) => {
+        const c = item.guessing ?? 0;
+        const gradient = [0, 0, 0];
+        const information = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+        nodes.forEach((t, q) => {
+            const s = 1 / (1 + Math.exp(-item.discrimination * (t - item.difficulty)));
+            const p = clamp(c + (1 - c) * s, 1e-10, 1 - 1e-10);
+            const dp = [(1 - c) * s * (1 - s) * (t - item.difficulty), -(1 - c) * s * (1 - s) * item.discrimination, 1 - s];
+            const w = 1 / (p * (1 - p));
+            for (let k = 0; k < 3; k++) {
+                gradient[k] += (expectedR[q] - expectedN[q] * p) * w * dp[k];
+                for (let l = 0; l < 3; l++) information[k][l] += expectedN[q] * w * dp[k] * dp[l];
+            }
+        });
+        if (model === '3pl') {
+            gradient[2] += (GUESSING_PRIOR.alpha - 1) / c - (GUESSING_PRIOR.beta - 1) / (1 - c);
+            information[2][2] += (GUESSING_PRIOR.alpha - 1) / (c * c) + (GUESSING_PRIOR.beta - 1) / ((1 - c) ** 2);
+        }
+        return { gradient, information };
+    };
+
+    let iterations = 0;
+    let converged = false;
+    let expectedCounts: { n: number[], r: number[][] } = { n: [], r: [] };
+    for (; iterations < maxIterations; iterations++) {
+        const { posteriors } = posteriorOverNodes(items);
+        const n = nodes.map((_, q) => posteriors.reduce((sum, post) => sum + post[q], 0));
+        const r = itemNames.map((_, j) => nodes.map((_, q) => posteriors.reduce((sum, post, i) => sum + post[q] * responses[i][j], 0)));
+        expectedCounts = { n, r };
+
+        let maxChange = 0;
+        if (model === 'rasch') {
+            // Difficulties with the shared slope held fixed, then one scoring step for the shared slope
+            items = items.map((item, j) => {
+                let b = item.difficulty;
+                for (let step = 0; step < 5; step++) {
+                    const { gradient, information } = itemDerivatives({ ...item, difficulty: b }, n, r[j]);
+                    b = clamp(b + gradient[1] / information[1][1], -6, 6);
+                }
+                maxChange = Math.max(maxChange, Math.abs(b - item.difficulty));
+                return { ...item, difficulty: b };
+            });
+            const totals = items.reduce((acc, item, j) => {
+                const { gradient, information } = itemDerivatives(item, n, r[j]);
+                return { g: acc.g + gradient[0], h: acc.h + information[0][0] };
+            }, { g: 0, h: 0 });
+            const a = clamp(items[0].discrimination + totals.g / totals.h, 0.05, 6);
+            maxChange = Math.max(maxChange, Math.abs(a - items[0].discrimination));
+            items = items.map(item => ({ ...item, discrimination: a }));
+        } else {
+            const free = model === '3pl' ? 3 : 2;
+            items = items.map((item, j) => {
+                const { gradient, information } = itemDerivatives(item, n, r[j]);
+                const sub = information.slice(0, free).map(row => row.slice(0, free));
+                const inverse = invertMatrix(sub);
+                if (!inverse) return item;
+                const delta = inverse.map(row => row.reduce((sum, v, k) => sum + v * gradient[k], 0));
+                // Damp large steps so early iterations cannot overshoot into flat regions
+                const scale = Math.min(1, 1 / Math.max(...delta.map(Math.abs)));
+                const next: IRTParams = {
+                    discrimination: clamp(item.discrimination + scale * delta[0], 0.05, 6),
+                    difficulty: clamp(item.difficulty + scale * delta[1], -6, 6),
+                    guessing: model === '3pl' ? clamp((item.guessing ?? 0) + scale * delta[2], 0.001, 0.5) : 0
+                };
+                maxChange = Math.max(maxChange, Math.abs(next.discrimination - item.discrimination), Math.abs(next.difficulty - item.difficulty), Math.abs((next.guessing ?? 0) - (item.guessing ?? 0)));
+                return next;
+            });
+        }
+        if (maxChange < 1e-4) {
+            converged = true;
+            break;
+        }
     }
-    
-    // Generate Documents
-    const documents: LdaDocument[] = [];
-    const snippets = [
-        "I am having trouble understanding the concept of regression.",
-        "When is the deadline for the assignment submission?",
-        "The online videos are very helpful for learning.",
-        "I scored low on the exam because I was confused.",
-        "Can the teacher reply to my forum post?",
-        "The difficulty of this course is too high.",
-        "I submitted my assignment late, will I lose grades?",
-        "Students need more help with the exam preparation.",
-        "The learning platform video player is broken.",
-        "I understand the concepts but fail the tests."
-    ];
-    
-    for(let i=0; i<snippets.length; i++) {
-        const dist = topics.map(t => ({ topicId: t.id, weight: Math.random() }));
-        // Normalize
-        const sum = dist.reduce((a,b) => a + b.weight, 0);
-        const normalizedDist = dist.map(d => ({ topicId: d.topicId, weight: d.weight / sum }));
-        
-        documents.push({
-            id: i,
-            content: snippets[i],
-            topicDistribution: normalizedDist
+
+    const { posteriors, logLikelihood } = posteriorOverNodes(items);
+
+    // Approximate standard errors from the M-step information
+    const standardErrors = items.map((item, j) => {
+        const { information } = itemDerivatives(item, expectedCounts.n, expectedCounts.r[j]);
+        const free = model === '3pl' ? 3 : model === '2pl' ? 2 : 1;
+        const indices = model === 'rasch' ? [1] : [0, 1, 2].slice(0, free);
+        const inverse = invertMatrix(indices.map(k => indices.map(l => information[k][l])));
+        const se = (k: number) => {
+            const pos = indices.indexOf(k);
+            return inverse && pos >= 0 ? Math.sqrt(Math.max(0, inverse[pos][pos])) : null;
+        };
+        return { discrimination: se(0), difficulty: se(1), guessing: se(2) };
+    });
+
+    const persons: IRTPersonEstimate[] = posteriors.map((post, i) => {
+        const theta = post.reduce((sum, p, q) => sum + p * nodes[q], 0);
+        const variance = post.reduce((sum, p, q) => sum + p * (nodes[q] - theta) ** 2, 0);
+        return { person: i + 1, rawScore: responses[i].reduce((a, b) => a + b, 0), theta, se: Math.sqrt(variance) };
+    });
+
+    // Item fit: Rasch-style mean squares on the EAP scores, and Orlando-Thissen S-X2 over sum-score groups
+    const itemParamsCount = model === '3pl' ? 3 : model === '2pl' ? 2 : 1;
+    const nodeProbabilities = items.map(item => nodes.map(t => calculateIrtProbability(t, item)));
+    const scoreDistribution = (excluded: number) => nodes.map((_, q) => {
+        let dist = [1];
+        nodeProbabilities.forEach((probs, j) => {
+            if (j === excluded) return;
+            const next = new Array<number>(dist.length + 1).fill(0);
+            dist.forEach((d, k) => {
+                next[k] += d * (1 - probs[q]);
+                next[k + 1] += d * probs[q];
+            });
+            dist = next;
+        });
+        return dist;
+    });
+    const fullDistribution = scoreDistribution(-1);
+    const scores = responses.map(row => row.reduce((a, b) => a + b, 0));
+
+    const itemEstimates: IRTItemEstimate[] = items.map((item, j) => {
+        let outfitSum = 0, squaredResiduals = 0, varianceSum = 0;
+        persons.forEach((person, i) => {
+            const p = calculateIrtProbability(person.theta, item);
+            const residual = responses[i][j] - p;
+            outfitSum += residual * residual / (p * (1 - p));
+            squaredResiduals += residual * residual;
+            varianceSum += p * (1 - p);
+        });
+
+        // Expected proportion correct at each interior sum score (Lord-Wingersky recursion without item j)
+        const restDistribution = scoreDistribution(j);
+        const cells: { n: number, observed: number, expected: number }[] = [];
+        for (let k = 1; k < J; k++) {
+            const n = scores.filter(score => score === k).length;
+            const numerator = nodes.reduce((sum, _, q) => sum + weights[q] * nodeProbabilities[j][q] * restDistribution[q][k - 1], 0);
+            const denominator = nodes.reduce((sum, _, q) => sum + weights[q] * fullDistribution[q][k], 0);
+            cells.push({ n, observed: responses.reduce((sum, row, i) => sum + (scores[i] === k ? row[j] : 0), 0), expected: n * numerator / denominator });
+        }
+        // Merge adjacent score groups until both expected counts reach 1
+        const merged: typeof cells = [];
+        cells.forEach(cell => {
+            const last = merged[merged.length - 1];
+            if (last && (last.expected < 1 || last.n - last.expected < 1)) {
+                last.n += cell.n; last.observed += cell.observed; last.expected += cell.expected;
+            } else merged.push({ ...cell });
+        });
+        const lastCell = merged[merged.length - 1];
+        if (merged.length > 1 && lastCell && (lastCell.expected < 1 || lastCell.n - lastCell.expected < 1)) {
+            const previous = merged[merged.length - 2];
+            previous.n += lastCell.n; previous.observed += lastCell.observed; previous.expected += lastCell.expected;
+            merged.pop();
+        }
+        const usable = merged.filter(cell => cell.n > 0);
+        const chiSquare = usable.reduce((sum, cell) => {
+            const e = cell.expected / cell.n;
+            return sum + cell.n * (cell.observed / cell.n - e) ** 2 / (e * (1 - e));
+        }, 0);
+        const df = Math.max(1, usable.length - itemParamsCount);
+        return {
+            item: itemNames[j],
+            params: item,
+            se: standardErrors[j],
+            proportionCorrect: responses.reduce((sum, row) => sum + row[j], 0) / N,
+            infit: squaredResiduals / varianceSum,
+            outfit: outfitSum / N,
+            fitChiSquare: chiSquare,
+            fitDf: df,
+            fitPValue: 1 - chiSquareCDF(chiSquare, df)
+        };
+    });
+
+    const numParameters = model === 'rasch' ? J + 1 : J * itemParamsCount;
+    const thetaMean = persons.reduce((sum, p) => sum + p.theta, 0) / N;
+    const thetaVariance = persons.reduce((sum, p) => sum + (p.theta - thetaMean) ** 2, 0) / N;
+    const errorVariance = persons.reduce((sum, p) => sum + p.se * p.se, 0) / N;
+
+    return {
+        model,
+        items: itemEstimates,
+        persons,
+        logLikelihood,
+        numParameters,
+        aic: -2 * logLikelihood + 2 * numParameters,
+        bic: -2 * logLikelihood + numParameters * Math.log(N),
+        iterations: iterations + 1,
+        converged,
+        reliability: thetaVariance / (thetaVariance + errorVariance)
+    };
+};
+
+// LDA Logic
+// Sample course forum posts used until the user pastes or uploads their own corpus
+export const SAMPLE_FORUM_POSTS: string[] = [
+    "When is the deadline for the second assignment? I could not find the due date on the course page.",
+    "I submitted my assignment late because the upload kept failing. Will I lose points for the late submission?",
+    "Can we get an extension on the assignment deadline? Three other courses have projects due the same week.",
+    "The submission portal says my assignment file is too large. What format should I submit it in?",
+    "Is the late penalty applied per day or once? My assignment was submitted one day after the deadline.",
+    "Do we submit the group project as one file or does every member submit separately before the deadline?",
+    "I forgot to attach the data file to my submission. Can I resubmit the assignment after the deadline?",
+    "Is the project report deadline midnight or noon? The syllabus and the assignment page show different times.",
+    "I am confused about the concept of regression. Why do we minimize the squared residuals instead of absolute ones?",
+    "Can someone explain the difference between correlation and causation with an example from the lecture?",
+    "I understand the formula for the standard error but not the concept behind it. Why does it shrink with sample size?",
+    "The lecture on confidence intervals confused me. Does a 95 percent interval contain the true mean 95 percent of the time?",
+    "I still do not understand what a p value means. Is it the probability that the null hypothesis is true?",
+    "Could the instructor explain the concept of degrees of freedom again? The textbook explanation confused me.",
+    "Why is the variance divided by n minus one? I understand the calculation but not the reasoning.",
+    "I find the concept of statistical power confusing. How does effect size relate to sample size and power?",
+    "The lecture video will not play in my browser. It stops loading after a few seconds.",
+    "The video player freezes and the audio is out of sync with the slides in the third lecture video.",
+    "I cannot log in to the learning platform from my phone. The app shows an error every time.",
+    "The quiz page crashed while I was answering and my answers were lost. Is there a way to restore them?",
+    "The captions on the lecture video are missing for week four. Could they be uploaded to the platform?",
+    "The platform logged me out during the quiz and now it says my attempt is finished.",
+    "Downloading the lecture slides gives a broken file error. Could the slides be uploaded again?",
+    "The video streaming is very slow on the campus network. Is there an option to download the lecture video?",
+    "What topics will be covered on the final exam? Will the exam include the material from the last week?",
+    "How is the final grade calculated? What percentage of the grade comes from the midterm exam?",
+    "I scored low on the midterm exam. Is there any extra credit to improve my final grade?",
+    "Are we allowed to bring a formula sheet to the exam or is it closed book?",
+    "Will there be a practice exam with solutions so we can prepare for the final?",
+    "My exam grade on the gradebook looks wrong. Who should I contact to check the scoring?",
+    "How long is the final exam and how many questions will it have? I want to plan my study time.",
+    "Could the grading rubric for the exam essay questions be shared before the final?"
+];
+
+export const LDA_STOPWORDS = new Set([
+    'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+    'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'cannot', 'could',
+    'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'every', 'few', 'for', 'from', 'further', 'get', 'gives', 'had', 'has',
+    'have', 'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its',
+    'just', 'kept', 'me', 'more', 'most', 'much', 'my', 'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'one', 'only', 'or',
+    'other', 'our', 'out', 'over', 'own', 'same', 'says', 'she', 'should', 'shows', 'so', 'some', 'someone', 'still', 'such', 'than', 'that',
+    'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'time', 'times', 'to', 'too', 'under',
+    'until', 'up', 'us', 'very', 'was', 'way', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why',
+    'will', 'with', 'would', 'you', 'your', 'yours'
+]);
+
+// Lowercases, splits on anything that is not a letter, and drops stopwords and very short tokens
+export const tokenizeDocument = (text: string, stopwords: Set<string> = LDA_STOPWORDS): string[] =>
+    text.toLowerCase()
+        .split(/[^a-zÀ-ɏ']+/)
+        .map(token => token.replace(/^'+|'+$/g, '').replace(/'s$/, ''))
+        .filter(token => token.length > 2 && !stopwords.has(token));
+
+// Splits pasted text into documents: blank-line separated paragraphs, or one document per line when there are no blank lines
+export const splitCorpus = (text: string): string[] => {
+    const trimmed = text.trim();
+    if (trimmed.length === 0) return [];
+    const blocks = /\n\s*\n/.test(trimmed) ? trimmed.split(/\n\s*\n/) : trimmed.split(/\r?\n/);
+    return blocks.map(block => block.replace(/\s+/g, ' ').trim()).filter(block => block.length > 0);
+};
+
+const sampleDiscrete = (weights: Float64Array, total: number): number => {
+    let u = Math.random() * total;
+    for (let i = 0; i < weights.length; i++) {
+        u -= weights[i];
+        if (u <= 0) return i;
+    }
+    return weights.length - 1;
+};
+
+// Collapsed Gibbs LDA averaging post-burn-in samples; perplexity on training tokens, UMass coherence
+export const calculateLda = (documents: string[], numTopics: number, options: LdaOptions = {}): LDAResult => {
+    const { alpha = 0.1, beta = 0.01, topWords = 8, minDocumentFrequency = 2 } = options;
+    const iterations = Math.max(1, Math.floor(options.iterations ?? 500));
+    const burnIn = Math.min(Math.max(0, options.burnIn ?? Math.floor(iterations / 2)), iterations - 1);
+    const K = numTopics;
+
+    // Vocabulary: keep words that occur in at least minDocumentFrequency documents
+    const tokenized = documents.map(doc => tokenizeDocument(doc));
+    const documentFrequency = new Map<string, number>();
+    tokenized.forEach(tokens => new Set(tokens).forEach(w => documentFrequency.set(w, (documentFrequency.get(w) ?? 0) + 1)));
+    const minFrequency = documents.length >= 10 ? minDocumentFrequency : 1;
+    const vocabulary = [...documentFrequency.keys()].filter(w => (documentFrequency.get(w) as number) >= minFrequency).sort();
+    const wordIndex = new Map(vocabulary.map((w, i) => [w, i]));
+    const V = vocabulary.length;
+    const docs = tokenized.map(tokens => tokens.filter(w => wordIndex.has(w)).map(w => wordIndex.get(w) as number));
+    const D = docs.length;
+    const tokenCount = docs.reduce((sum, d) => sum + d.length, 0);
+
+    // Count tables and random initial assignments
+    const nDK = Array.from({ length: D }, () => new Float64Array(K));
+    const nKW = Array.from({ length: K }, () => new Float64Array(V));
+    const nK = new Float64Array(K);
+    const assignments = docs.map((doc, d) => doc.map(w => {
+        const k = Math.floor(Math.random() * K);
+        nDK[d][k]++;
+        nKW[k][w]++;
+        nK[k]++;
+        return k;
+    }));
+
+    const phiSum = Array.from({ length: K }, () => new Float64Array(V));
+    const thetaSum = Array.from({ length: D }, () => new Float64Array(K));
+    let samples = 0;
+    const weights = new Float64Array(K);
+    const betaSum = V * beta;
+
+    for (let iter = 0; iter < iterations; iter++) {
+        docs.forEach((doc, d) => {
+            doc.forEach((w, i) => {
+                const old = assignments[d][i];
+                nDK[d][old]--;
+                nKW[old][w]--;
+                nK[old]--;
+                let total = 0;
+                for (let k = 0; k < K; k++) {
+                    weights[k] = (nDK[d][k] + alpha) * (nKW[k][w] + beta) / (nK[k] + betaSum);
+                    total += weights[k];
+                }
+                const k = sampleDiscrete(weights, total);
+                assignments[d][i] = k;
+                nDK[d][k]++;
+                nKW[k][w]++;
+                nK[k]++;
+            });
         });
+
+        // Average every 10th post-burn-in sample to smooth out sampler noise
+        if (iter >= burnIn && (iter - burnIn) % 10 === 0) {
+            for (let k = 0; k < K; k++) {
+                for (let w = 0; w < V; w++) phiSum[k][w] += (nKW[k][w] + beta) / (nK[k] + betaSum);
+            }
+            docs.forEach((doc, d) => {
+                for (let k = 0; k < K; k++) thetaSum[d][k] += (nDK[d][k] + alpha) / (doc.length + K * alpha);
+            });
+            samples++;
+        }
     }
 
-    return { topics, documents };
+    const phi = phiSum.map(row => Array.from(row, v => v / samples));
+    const theta = thetaSum.map(row => Array.from(row, v => v / samples));
+
+    // Perplexity = exp(-sum log p(w | d) / N)
+    let logLikelihood = 0;
+    docs.forEach((doc, d) => doc.forEach(w => {
+        let p = 0;
+        for (let k = 0; k < K; k++) p += theta[d][k] * phi[k][w];
+        logLikelihood += Math.log(p);
+    }));
+    const perplexity = tokenCount > 0 ? Math.exp(-logLikelihood / tokenCount) : NaN;
+
+    // UMass coherence: sum over ranked word pairs of log((D(wi, wj) + 1) / D(wj))
+    const docSets = docs.map(doc => new Set(doc));
+    const coDocumentCount = (a: number, b: number) => docSets.reduce((sum, s) => sum + (s.has(a) && s.has(b) ? 1 : 0), 0);
+    const topicCoherence = (top: number[]) => {
+        let score = 0;
+        for (let i = 1; i < top.length; i++) {
+            for (let j = 0; j < i; j++) {
+                score += Math.log((coDocumentCount(top[i], top[j]) + 1) / coDocumentCount(top[j], top[j]));
+            }
+        }
+        return score;
+    };
+
+    const topics: Topic[] = phi.map((row, k) => {
+        const top = row.map((p, w) => ({ p, w })).sort((a, b) => b.p - a.p).slice(0, Math.min(topWords, V));
+        return {
+            id: k,
+            keywords: top.map(({ p, w }) => ({ text: vocabulary[w], weight: p })),
+            prevalence: nK[k] / Math.max(tokenCount, 1),
+            coherence: topicCoherence(top.map(t => t.w))
+        };
+    });
+
+    const ldaDocuments: LdaDocument[] = documents.map((content, d) => ({
+        id: d,
+        content,
+        topicDistribution: theta[d].map((weight, k) => ({ topicId: k, weight }))
+    }));
+
+    return {
+        topics,
+        documents: ldaDocuments,
+        perplexity,
+        coherence: topics.reduce((sum, t) => sum + (t.coherence as number), 0) / K,
+        vocabularySize: V,
+        tokenCount
+    };
 };
 
 // Mixed Methods Logic
@@ -1289,40 +5182,216 @@ export const generateMixedMethodsData = (n: number): { participants: Participant
 };
 
 // RDD Logic
-export const generateRddData = (cutoff: number, effect: number, n: number): RddPoint[] => {
+// Treatment (e.g. a remedial program) is assigned below the cutoff. With compliance < 1 some students cross
+// over, making the design fuzzy; manipulation moves a share of students just above the cutoff to just below it
+export const generateRddData = (cutoff: number, effect: number, n: number, compliance: number = 1, manipulation: number = 0): RddPoint[] => {
     const data: RddPoint[] = [];
     for(let i=0; i<n; i++) {
-        const x = Math.random() * 100;
+        let x = Math.random() * 100;
+        if (x >= cutoff && x < cutoff + 10 && Math.random() < manipulation) {
+            x = cutoff - Math.random() * 3;
+        }
         // Baseline relationship: y = 0.5x + 20
         let y = 0.5 * x + 20 + (Math.random() - 0.5) * 15;
         
         const group = x < cutoff ? 'treatment' : 'control';
+        const treated = group === 'treatment' ? Math.random() < compliance : Math.random() >= compliance;
         
-        // Add effect for treatment group (below cutoff in this example, e.g. remedial program)
-        if (group === 'treatment') {
+        // Add effect for those who actually receive the treatment
+        if (treated) {
             y += effect; 
         }
         
         y = Math.max(0, Math.min(100, y));
-        data.push({ id: i, x, y, group });
+        data.push({ id: i, x, y, group, treated });
     }
     return data;
 };
 
-export const calculateRddEffect = (data: RddPoint[], cutoff: number, bandwidth: number): RddResult => {
-    const treatmentData = data.filter(d => d.x < cutoff && d.x >= cutoff - bandwidth).map(d => ({ x: d.x, y: d.y, id: d.id }));
-    const controlData = data.filter(d => d.x >= cutoff && d.x <= cutoff + bandwidth).map(d => ({ x: d.x, y: d.y, id: d.id }));
-    
-    const treatmentLine = calculateLinearRegression(treatmentData);
-    const controlLine = calculateLinearRegression(controlData);
-    
-    // Predict Y at cutoff
-    const yTreatmentAtCutoff = treatmentLine.slope * cutoff + treatmentLine.intercept;
-    const yControlAtCutoff = controlLine.slope * cutoff + controlLine.intercept;
-    
+const RDD_KERNELS: Record<RddKernel, (u: number) => number> = {
+    triangular: u => Math.max(0, 1 - Math.abs(u)),
+    epanechnikov: u => (Math.abs(u) <= 1 ? 0.75 * (1 - u * u) : 0),
+    uniform: u => (Math.abs(u) <= 1 ? 0.5 : 0)
+};
+
+// Imbens & Kalyanaraman's constant C_K for each kernel
+const IK_CONSTANTS: Record<RddKernel, number> = { triangular: 3.4375, epanechnikov: 3.1999, uniform: 5.3999 };
+
+// Weighted least squares of one or more outcomes on powers of u = x - cutoff. The HC1 sandwich covariance of
+// the intercepts is returned for every pair of outcomes, which the fuzzy design needs for its ratio
+const localPolynomialFit = (us: number[], outcomes: number[][], weights: number[], order: number) => {
+    const kept = weights.map((w, i) => i).filter(i => weights[i] > 0);
+    const p = order + 1;
+    const n = kept.length;
+    if (n <= p) return null;
+    const design = kept.map(i => Array.from({ length: p }, (_, k) => us[i] ** k));
+    const w = kept.map(i => weights[i]);
+    const bread = invertMatrix(Array.from({ length: p }, (_, j) => Array.from({ length: p }, (_, k) =>
+        design.reduce((sum, row, i) => sum + w[i] * row[j] * row[k], 0))));
+    if (!bread) return null;
+
+    const coefficients = outcomes.map(y => {
+        const moments = Array.from({ length: p }, (_, j) => design.reduce((sum, row, i) => sum + w[i] * row[j] * y[kept[i]], 0));
+        return bread.map(row => row.reduce((sum, v, k) => sum + v * moments[k], 0));
+    });
+    const residuals = outcomes.map((y, o) => design.map((row, i) => y[kept[i]] - row.reduce((sum, x, k) => sum + x * coefficients[o][k], 0)));
+    const interceptCovariance = (a: number, b: number) => {
+        let v = 0;
+        design.forEach((row, i) => {
+            const lever = row.reduce((sum, x, k) => sum + bread[0][k] * x, 0);
+            v += w[i] * w[i] * residuals[a][i] * residuals[b][i] * lever * lever;
+        });
+        return v * n / (n - p);
+    };
+    return { coefficients, residuals, interceptCovariance, n };
+};
+
+// Sharp or fuzzy RDD by kernel-weighted local polynomials on each side, HC1 SEs
+export const calculateRddEffect = (data: RddPoint[], cutoff: number, bandwidth: number, options: RddOptions = {}): RddResult => {
+    const { order = 1, kernel = 'triangular', confidenceLevel = 0.95, fuzzy = false } = options;
+    const useFuzzy = fuzzy && data.some(d => d.treated !== undefined);
+    const weightOf = (x: number) => RDD_KERNELS[kernel]((x - cutoff) / bandwidth);
+
+    const fitSide = (below: boolean) => {
+        const points = data.filter(d => (below ? d.x < cutoff : d.x >= cutoff) && weightOf(d.x) > 0);
+        const outcomes = [points.map(d => d.y)];
+        if (useFuzzy) outcomes.push(points.map(d => ((d.treated ?? d.group === 'treatment') ? 1 : 0)));
+        return localPolynomialFit(points.map(d => d.x - cutoff), outcomes, points.map(d => weightOf(d.x)), order);
+    };
+    const treatmentSide = fitSide(true);
+    const controlSide = fitSide(false);
+    const lineOf = (coefficients: number[]): RegressionLine => ({ slope: coefficients[1], intercept: coefficients[0] - coefficients[1] * cutoff });
+
+    if (!treatmentSide || !controlSide) {
+        const empty = new Array(order + 1).fill(NaN);
+        return {
+            effect: NaN, controlLine: lineOf(empty), treatmentLine: lineOf(empty), treatmentFit: empty, controlFit: empty,
+            se: NaN, ciLower: NaN, ciUpper: NaN, pValue: NaN, bandwidth, kernel, order,
+            nTreatment: treatmentSide?.n ?? 0, nControl: controlSide?.n ?? 0, fuzzy: null
+        };
+    }
+
+    const jump = (o: number) => treatmentSide.coefficients[o][0] - controlSide.coefficients[o][0];
+    const jumpCovariance = (a: number, b: number) => treatmentSide.interceptCovariance(a, b) + controlSide.interceptCovariance(a, b);
+
+    let effect = jump(0);
+    let se = Math.sqrt(jumpCovariance(0, 0));
+    let fuzzyResult: RddFuzzyResult | null = null;
+    if (useFuzzy) {
+        const firstStage = jump(1);
+        fuzzyResult = { firstStage, firstStageSE: Math.sqrt(jumpCovariance(1, 1)), reducedForm: effect, reducedFormSE: se };
+        effect = jump(0) / firstStage;
+        se = Math.sqrt(Math.max(0, jumpCovariance(0, 0) - 2 * effect * jumpCovariance(0, 1) + effect * effect * jumpCovariance(1, 1))) / Math.abs(firstStage);
+    }
+
+    const zCritical = normalQuantile(1 - (1 - confidenceLevel) / 2);
     return {
-        effect: yTreatmentAtCutoff - yControlAtCutoff,
-        treatmentLine,
-        controlLine
+        effect,
+        treatmentLine: lineOf(treatmentSide.coefficients[0]),
+        controlLine: lineOf(controlSide.coefficients[0]),
+        treatmentFit: treatmentSide.coefficients[0],
+        controlFit: controlSide.coefficients[0],
+        se,
+        ciLower: effect - zCritical * se,
+        ciUpper: effect + zCritical * se,
+        pValue: 2 * normalCDF(-Math.abs(effect / se), 0, 1),
+        bandwidth,
+        kernel,
+        order,
+        nTreatment: treatmentSide.n,
+        nControl: controlSide.n,
+        fuzzy: fuzzyResult
+    };
+};
+
+// Imbens-Kalyanaraman MSE-optimal bandwidth for local linear RDD; NaN with too few points on a side
+export const calculateIKBandwidth = (data: RddPoint[], cutoff: number, kernel: RddKernel = 'triangular'): number => {
+    const N = data.length;
+    const left = data.filter(d => d.x < cutoff);
+    const right = data.filter(d => d.x >= cutoff);
+    if (left.length < 5 || right.length < 5) return NaN;
+
+    const h1 = 1.84 * Math.sqrt(calculateVariance(data.map(d => d.x))) * Math.pow(N, -1 / 5);
+    const leftPilot = left.filter(d => d.x >= cutoff - h1).map(d => d.y);
+    const rightPilot = right.filter(d => d.x <= cutoff + h1).map(d => d.y);
+    if (leftPilot.length < 2 || rightPilot.length < 2) return NaN;
+    const density = (leftPilot.length + rightPilot.length) / (2 * N * h1);
+    const varianceLeft = calculateVariance(leftPilot);
+    const varianceRight = calculateVariance(rightPilot);
+
+    // Third derivative from a global cubic with a jump at the cutoff
+    const design = data.map(d => {
+        const u = d.x - cutoff;
+        return [1, d.x >= cutoff ? 1 : 0, u, u * u, u * u * u];
+    });
+    const inverse = invertMatrix(Array.from({ length: 5 }, (_, j) => Array.from({ length: 5 }, (_, k) => design.reduce((sum, row) => sum + row[j] * row[k], 0))));
+    if (!inverse) return NaN;
+    const moments = Array.from({ length: 5 }, (_, j) => design.reduce((sum, row, i) => sum + row[j] * data[i].y, 0));
+    const m3 = 6 * inverse[4].reduce((sum, v, k) => sum + v * moments[k], 0);
+
+    // Curvature on each side from a local quadratic within its own pilot bandwidth
+    const curvature = (side: RddPoint[], variance: number) => {
+        const h2 = 3.56 * Math.pow(variance / (density * Math.max(m3 * m3, 1e-12)), 1 / 7) * Math.pow(side.length, -1 / 7);
+        const within = side.filter(d => Math.abs(d.x - cutoff) <= h2);
+        const fit = localPolynomialFit(within.map(d => d.x - cutoff), [within.map(d => d.y)], within.map(() => 1), 2);
+        if (!fit) return null;
+        return { m2: 2 * fit.coefficients[0][2], regularization: 720 * variance / (within.length * Math.pow(h2, 4)) };
+    };
+    const curvatureLeft = curvature(left, varianceLeft);
+    const curvatureRight = curvature(right, varianceRight);
+    if (!curvatureLeft || !curvatureRight) return NaN;
+
+    const denominator = density * ((curvatureRight.m2 - curvatureLeft.m2) ** 2 + curvatureLeft.regularization + curvatureRight.regularization);
+    return IK_CONSTANTS[kernel] * Math.pow((varianceLeft + varianceRight) / denominator, 1 / 5) * Math.pow(N, -1 / 5);
+};
+
+// Effect and CI over a grid of bandwidths, to check the estimate does not hinge on one choice
+export const calculateRddBandwidthSensitivity = (data: RddPoint[], cutoff: number, bandwidths: number[], options: RddOptions = {}): RddSensitivityPoint[] =>
+    bandwidths.map(bandwidth => {
+        const { effect, ciLower, ciUpper } = calculateRddEffect(data, cutoff, bandwidth, options);
+        return { bandwidth, effect, ciLower, ciUpper };
+    });
+
+// McCrary density test for manipulation of the running variable
+export const mcCraryDensityTest = (xs: number[], cutoff: number, bandwidth?: number): RddDensityTest => {
+    const n = xs.length;
+    const binWidth = 2 * Math.sqrt(calculateVariance(xs)) / Math.sqrt(n);
+    const first = Math.floor((Math.min(...xs) - cutoff) / binWidth);
+    const last = Math.floor((Math.max(...xs) - cutoff) / binWidth);
+    const counts = new Map<number, number>();
+    xs.forEach(x => {
+        const k = Math.floor((x - cutoff) / binWidth);
+        counts.set(k, (counts.get(k) ?? 0) + 1);
+    });
+    const bins = Array.from({ length: last - first + 1 }, (_, i) => ({
+        midpoint: cutoff + (first + i + 0.5) * binWidth,
+        density: (counts.get(first + i) ?? 0) / (n * binWidth)
+    }));
+    const below = bins.filter(b => b.midpoint < cutoff);
+    const above = bins.filter(b => b.midpoint > cutoff);
+
+    const ruleOfThumb = (side: typeof bins) => {
+        const fit = localPolynomialFit(side.map(b => b.midpoint - cutoff), [side.map(b => b.density)], side.map(() => 1), 4);
+        if (!fit || side.length <= 5) return NaN;
+        const c = fit.coefficients[0];
+        const residualVariance = fit.residuals[0].reduce((sum, e) => sum + e * e, 0) / (side.length - 5);
+        const roughness = side.reduce((sum, b) => {
+            const u = b.midpoint - cutoff;
+            return sum + (2 * c[2] + 6 * c[3] * u + 12 * c[4] * u * u) ** 2;
+        }, 0);
+        return 3.348 * Math.pow(residualVariance * (side.length * binWidth) / roughness, 1 / 5);
+    };
+    const pilots = [ruleOfThumb(below), ruleOfThumb(above)].filter(h => Number.isFinite(h) && h > 0);
+    const h = bandwidth ?? (pilots.length > 0 ? pilots.reduce((a, b) => a + b, 0) / pilots.length : 10 * binWidth);
+
+    const limitAtCutoff = (side: typeof bins) => {
+        const fit = localPolynomialFit(side.map(b => b.midpoint - cutoff), [side.map(b => b.density)], side.map(b => RDD_KERNELS.triangular((b.midpoint - cutoff) / h)), 1);
+        return fit ? Math.max(fit.coefficients[0][0], 1e-12) : NaN;
     };
-};
\ No newline at end of file
+    const densityBelow = limitAtCutoff(below);
+    const densityAbove = limitAtCutoff(above);
+    const theta = Math.log(densityAbove) - Math.log(densityBelow);
+    const se = Math.sqrt((24 / 5) * (1 / densityAbove + 1 / densityBelow) / (n * h));
+    const z = theta / se;
+    return { theta, se, z, pValue: 2 * normalCDF(-Math.abs(z), 0, 1), bandwidth: h, binWidth, densityBelow, densityAbove, bins };
+};
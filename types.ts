@@ -13,26 +13,260 @@ export interface RegressionLine {
   intercept: number;
 }
 
+// Types for Multi-level Modeling
+export type RandomEffectsStructure = 'intercept' | 'interceptSlope';
+
+export interface FixedEffectEstimate {
+    term: string;
+    estimate: number;
+    se: number;
+    df: number;
+    t: number;
+    p: number;
+    ciLower: number;
+    ciUpper: number;
+}
+
+export interface GroupEffectEstimate {
+    groupId: number;
+    n: number;
+    ols: RegressionLine; // no pooling: the group's own regression
+    blup: RegressionLine; // partial pooling: fixed effects plus predicted random effects
+    randomIntercept: number;
+    randomSlope: number;
+    shrinkage: number; // 0 = keeps its own line, 1 = pulled all the way to the fixed line
+}
+
+export interface MixedModelResult {
+    structure: RandomEffectsStructure;
+    fixedEffects: FixedEffectEstimate[];
+    fixedLine: RegressionLine;
+    variance: {
+        intercept: number;
+        slope: number | null;
+        correlation: number | null;
+        residual: number;
+    };
+    icc: number; // intercept variance share (at x = 0 when slopes vary)
+    groups: GroupEffectEstimate[];
+    restrictedLogLikelihood: number;
+    aic: number; // REML-based; compares random-effect structures with the same fixed effects
+    nObservations: number;
+    nGroups: number;
+    converged: boolean;
+}
+
 export interface ResidualPoint extends Point {
   yHat: number; // Predicted y-value on the regression line
   residual: number;
 }
 
+// Types for Multiple Regression
+export interface RegressionModelSpec {
+    response: string;
+    predictors: string[]; // main effects, in order
+    categorical?: string[]; // predictors dummy-coded against their first (lowest) level
+    interactions?: [string, string][]; // products of two predictors' columns
+}
+
+export interface DesignMatrix {
+    columns: string[]; // term names, intercept excluded
+    X: number[][];
+    y: number[];
+}
+
+export interface OLSCoefficient {
+    term: string;
+    estimate: number;
+    se: number;
+    t: number;
+    p: number;
+    lower: number; // 95% confidence interval
+    upper: number;
+    vif: number | null; // null for the intercept
+}
+
+export interface RegressionDiagnostic {
+    index: number;
+    fitted: number;
+    residual: number;
+    leverage: number; // hat value h_ii
+    standardizedResidual: number; // internally studentized
+    studentizedResidual: number; // externally studentized (leave-one-out sigma)
+    cooksDistance: number;
+    highLeverage: boolean; // h_ii > 2p/n
+    outlier: boolean; // Bonferroni outlier test p < .05
+    influential: boolean; // Cook's distance > 4/n
+}
+
+export interface MultipleRegressionResult {
+    coefficients: OLSCoefficient[]; // intercept first
+    covariance: number[][];
+    n: number;
+    dfModel: number;
+    dfResidual: number;
+    rSquared: number;
+    adjustedRSquared: number;
+    residualSE: number;
+    fStatistic: number;
+    fPValue: number;
+    diagnostics: RegressionDiagnostic[];
+}
+
 export interface DistributionParams {
     mean: number;
     stdDev: number;
     size: number;
 }
 
+// Types for t-Tests
+export type TTestKind = 'oneSample' | 'student' | 'welch' | 'paired';
+export type TestAlternative = 'two-sided' | 'less' | 'greater';
+
+export interface TTestResult {
+    kind: TTestKind;
+    alternative: TestAlternative;
+    t: number;
+    df: number; // Welch-Satterthwaite df for 'welch'
+    pValue: number;
+    estimate: number; // mean - mu0, mean(x) - mean(y), or mean(x - y)
+    standardError: number;
+    ciLower: number; // -Infinity / Infinity for one-sided intervals
+    ciUpper: number;
+    confidenceLevel: number;
+    cohensD: number;
+    hedgesG: number; // small-sample corrected d
+    n: number[];
+    means: number[];
+    sds: number[];
+}
+
+// Types for Nonparametric Tests
+export interface NonparametricOptions {
+    alternative?: TestAlternative;
+    method?: 'auto' | 'exact' | 'asymptotic'; // auto: exact for small samples without ties
+    mu?: number; // one-sample Wilcoxon location
+}
+
+export interface RankTestResult {
+    statisticName: string; // 'W' (= U for the first sample), 'V', 'H' or 'χ²'
+    statistic: number;
+    pValue: number;
+    method: 'exact' | 'normal' | 'chiSquare';
+    z: number | null; // normal approximation, with continuity and tie corrections
+    df: number | null;
+    effectSize: number;
+    effectSizeName: string;
+    ties: boolean;
+}
+
+export interface DunnComparison {
+    groupA: number;
+    groupB: number;
+    meanRankDifference: number; // mean rank A - mean rank B
+    z: number;
+    pValue: number;
+    adjustedPValue: number; // Holm
+    significant: boolean;
+}
+
+export interface KruskalWallisResult extends RankTestResult {
+    meanRanks: number[];
+    dunn: DunnComparison[];
+}
+
+export interface RankCorrelationResult {
+    method: 'spearman' | 'kendall';
+    estimate: number; // rho, or tau-b
+    statisticName: string; // 'S' (sum of squared rank differences) or 'T' (concordant pairs)
+    statistic: number;
+    pValue: number;
+    pMethod: 'exact' | 'normal';
+    z: number | null;
+    n: number;
+    ties: boolean;
+}
+
+// Types for Data Import
+export interface NumericTable {
+    columns: string[];
+    rows: Record<string, number>[];
+    skippedRows: number; // rows dropped for missing or non-numeric cells
+    lineNumbers?: number[]; // for parsed text, the 1-based line each kept row came from (the header is line 1)
+}
+
+// Types for ANOVA
+export interface AnovaTableRow {
+    source: 'Between' | 'Within' | 'Total';
+    ss: number;
+    df: number;
+    ms?: number;
+    fStatistic?: number;
+    pValue?: number;
+}
+
+export interface PostHocComparison {
+    groupA: number; // index of the first group
+    groupB: number; // index of the second group
+    meanDifference: number; // mean A - mean B
+    standardError: number;
+    qStatistic: number; // studentized range statistic
+    df: number;
+    pValue: number;
+    lowerBound: number;
+    upperBound: number;
+    significant: boolean;
+}
+
+export interface AnovaResult {
+    fStatistic: number;
+    pValue: number;
+    dfBetween: number;
+    dfWithin: number;
+    table: AnovaTableRow[];
+    etaSquared: number;
+    omegaSquared: number;
+    groupMeans: number[];
+    groupSizes: number[];
+    groupVariances: number[];
+    tukey: PostHocComparison[];
+    gamesHowell: PostHocComparison[];
+}
+
 // Types for Hidden Markov Model (HMM)
-export type HiddenState = 'Sunny' | 'Rainy';
-export type Observation = 'Walk' | 'Read' | 'Clean';
+export type HiddenState = string;
+export type Observation = string;
 
 export interface HMMSequenceItem {
   state: HiddenState;
   observation: Observation;
 }
 
+export interface HMMParams {
+    states: HiddenState[];
+    symbols: Observation[];
+    initial: number[]; // P(first state)
+    transition: number[][]; // [from][to]
+    emission: number[][]; // [state][symbol]
+}
+
+export interface HMMPosterior {
+    logLikelihood: number;
+    posteriors: number[][]; // [t][state] = P(state at t | all observations)
+    alpha: number[][]; // scaled forward variables
+    beta: number[][]; // scaled backward variables
+    scales: number[];
+}
+
+export interface BaumWelchResult {
+    params: HMMParams;
+    logLikelihood: number;
+    logLikelihoods: number[]; // per EM iteration of the best start
+    bic: number;
+    iterations: number;
+    converged: boolean;
+}
+
 // Types for Confidence Intervals
 export interface ConfidenceInterval {
     id: number;
@@ -42,14 +276,65 @@ export interface ConfidenceInterval {
     captured: boolean;
 }
 
+// Types for Resampling
+export type BootstrapIntervalMethod = 'percentile' | 'bca' | 'studentized';
+
+export interface BootstrapOptions<T> {
+    replicates?: number;
+    confidenceLevel?: number;
+    strata?: (item: T) => string | number; // resample within each stratum (e.g. group) separately
+    standardError?: (sample: T[]) => number; // for the studentized interval; nested bootstrap when omitted
+    innerReplicates?: number; // nested bootstrap size for each replicate's standard error
+    methods?: BootstrapIntervalMethod[]; // intervals to compute (default all); the nested bootstrap only runs for 'studentized'
+}
+
+export interface BootstrapInterval {
+    method: BootstrapIntervalMethod;
+    lower: number;
+    upper: number;
+}
+
+export interface BootstrapResult {
+    estimate: number;
+    replicates: number[];
+    standardError: number;
+    bias: number; // mean of replicates - estimate
+    biasCorrection: number; // z0 for BCa
+    acceleration: number; // jackknife a for BCa
+    confidenceLevel: number;
+    intervals: Partial<Record<BootstrapIntervalMethod, BootstrapInterval>>; // the requested methods only
+}
+
+export interface PermutationTestResult {
+    observed: number;
+    nullDistribution: number[];
+    pValue: number; // (extreme + 1) / (permutations + 1)
+    alternative: TestAlternative;
+    permutations: number;
+}
+
 // Types for Chi-Square Test
 export type ContingencyTableData = number[][];
 
+export interface AssociationEffectSize {
+    estimate: number;
+    lower: number; // 95% CI
+    upper: number;
+}
+
 export interface ChiSquareResult {
     chi2: number;
     pValue: number;
     degreesOfFreedom: number;
     expected: number[][];
+    yates: { chi2: number, pValue: number } | null; // continuity-corrected, 2x2 tables only
+    likelihoodRatio: { g2: number, pValue: number };
+    fisherPValue: number | null; // null when the table has too many arrangements to enumerate
+    cramersV: AssociationEffectSize;
+    phi: AssociationEffectSize | null; // signed, 2x2 tables only
+    adjustedResiduals: number[][]; // Haberman's adjusted standardized residuals, ~N(0, 1) under independence
+    lowExpectedCells: number; // cells with expected count below 5
+    warning: string | null;
 }
 
 // Types for Logistic Regression
@@ -57,6 +342,7 @@ export interface LogisticPoint {
     id: number;
     x: number; // e.g., study hours
     outcome: 0 | 1; // e.g., 0 for Fail, 1 for Pass
+    covariates?: Record<string, number>; // further predictors, keyed by name
 }
 
 export interface LogisticCurveParams {
@@ -64,24 +350,124 @@ export interface LogisticCurveParams {
     beta1: number; // Coefficient for x
 }
 
+export interface LogisticCoefficient {
+    term: string;
+    estimate: number;
+    se: number;
+    z: number; // Wald statistic
+    p: number;
+    oddsRatio: number;
+    orLower: number; // 95% Wald interval for the odds ratio
+    orUpper: number;
+}
+
+export interface LogisticRegressionResult {
+    coefficients: LogisticCoefficient[]; // intercept first
+    covariance: number[][];
+    fitted: number[]; // predicted probabilities
+    n: number;
+    logLikelihood: number;
+    nullLogLikelihood: number;
+    deviance: number;
+    nullDeviance: number;
+    aic: number;
+    mcFaddenR2: number;
+    lrChiSquare: number; // null deviance - residual deviance
+    lrDf: number;
+    lrPValue: number;
+    iterations: number; // Fisher scoring iterations
+    converged: boolean;
+    separation: boolean; // fitted probabilities of 0 or 1: estimates and SEs are unreliable
+}
+
+export interface ConfusionMatrix {
+    threshold: number;
+    truePositive: number;
+    falsePositive: number;
+    trueNegative: number;
+    falseNegative: number;
+    accuracy: number;
+    sensitivity: number;
+    specificity: number;
+    precision: number;
+}
+
+export interface RocPoint {
+    threshold: number;
+    fpr: number;
+    tpr: number;
+}
+
+export interface CalibrationBin {
+    meanPredicted: number;
+    observedRate: number;
+    count: number;
+    lower: number; // 95% Wilson interval for the observed rate
+    upper: number;
+}
+
+export interface CalibrationResult {
+    bins: CalibrationBin[];
+    hosmerLemeshow: { chiSquare: number, df: number, p: number };
+}
+
 // Types for Decision Tree
 export interface DecisionTreePoint {
     id: number;
     features: number[]; // [x, y]
-    label: number; // 0 or 1
+    label: number; // class index 0..C-1
 }
 
+export type SplitCriterion = 'gini' | 'entropy';
+
 export interface DecisionTreeNode {
     id: string;
-    // For split nodes
+    // For split nodes (leaves have no children)
     splitFeatureIndex?: number;
     splitThreshold?: number;
     left?: DecisionTreeNode;
     right?: DecisionTreeNode;
-    // For leaf nodes
-    value?: number; // Predicted class label
+    // For every node
+    value?: number; // Majority class label
     samples?: number;
-    gini?: number;
+    classCounts?: number[];
+    impurity?: number; // Gini or entropy, depending on the criterion the tree was grown with
+}
+
+export interface DecisionTreeOptions {
+    criterion?: SplitCriterion;
+    maxFeatures?: number; // features tried at each split, drawn at random; all when omitted
+    numClasses?: number;
+}
+
+export interface PruningPathPoint {
+    alpha: number; // complexity penalty per leaf, in units of training misclassification rate
+    leaves: number;
+    trainError: number;
+    cvError: number;
+    cvSE: number;
+}
+
+export interface PruningResult {
+    path: PruningPathPoint[];
+    bestAlpha: number; // lowest cross-validated error
+    oneSEAlpha: number; // largest alpha within one SE of the best
+    folds: number;
+}
+
+export interface FeatureImportance {
+    feature: string;
+    impurityDecrease: number; // mean decrease in impurity, normalised to sum to 1
+    permutation: number; // drop in out-of-bag accuracy when the feature is shuffled
+}
+
+export interface RandomForestModel {
+    trees: DecisionTreeNode[];
+    numClasses: number;
+    maxFeatures: number;
+    oobError: number | null;
+    oobErrorCurve: (number | null)[]; // OOB error using the first t trees
+    featureImportances: FeatureImportance[];
 }
 
 // Types for K-Means
@@ -90,6 +476,48 @@ export interface KMeansPoint extends Point {
 }
 export interface Centroid extends Point {}
 
+export type KMeansInitialization = 'random' | 'kmeans++';
+export type ClusteringMethod = 'kmeans' | 'kmedoids';
+
+export interface ClusteringOptions {
+    method?: ClusteringMethod;
+    initialization?: KMeansInitialization;
+    restarts?: number;
+    maxIterations?: number;
+}
+
+export interface ClusteringResult {
+    method: ClusteringMethod;
+    initialization: KMeansInitialization;
+    k: number;
+    assignments: number[]; // cluster index per row
+    centers: number[][]; // centroids (k-means) or medoid rows (k-medoids)
+    medoidIndices: number[] | null;
+    objective: number; // within-cluster sum of squares (k-means) or sum of distances to medoids (k-medoids)
+    inertia: number; // within-cluster sum of squares around the cluster means, for both methods
+    clusterSizes: number[];
+    iterations: number;
+    converged: boolean;
+    restartObjectives: number[]; // final objective of every restart
+    sampleSize: number | null; // rows per CLARA sample when k-medoids was run on samples, null when PAM saw every row
+}
+
+export interface ClusterValidityRow {
+    k: number;
+    inertia: number;
+    silhouette: number | null; // average silhouette width; undefined for k = 1
+    gap: number;
+    gapSE: number; // s_k from the reference distribution
+}
+
+export interface ClusterValidityResult {
+    rows: ClusterValidityRow[];
+    elbowK: number; // largest distance below the chord of the inertia curve
+    silhouetteK: number;
+    gapK: number; // smallest k with Gap(k) >= Gap(k+1) - s(k+1) (Tibshirani et al., 2001)
+    sampleSize: number | null; // rows in the random subsample the curves were computed on, null when all rows were used
+}
+
 // Types for Latent Profile Analysis (LPA)
 export interface LPAPoint extends Point {
     profileId: number | null;
@@ -103,6 +531,34 @@ export interface Profile {
     weight: number; // The mixing proportion
 }
 
+// mclust naming: E = equal across profiles, V = varying; I = diagonal, E/V in the last place = full
+export type LPACovarianceStructure = 'EEI' | 'VVI' | 'EEE' | 'VVV';
+
+export interface LPAFitResult {
+    k: number;
+    structure: LPACovarianceStructure;
+    profiles: Profile[];
+    points: LPAPoint[]; // with posterior responsibilities
+    logLikelihood: number;
+    numParameters: number;
+    aic: number;
+    bic: number;
+    entropy: number | null; // relative entropy in [0, 1]; null for a single profile
+    smallestProfileShare: number;
+    iterations: number;
+    converged: boolean;
+    logLikelihoodTrace: number[]; // best start, one value per EM iteration
+    startLogLikelihoods: number[]; // final log-likelihood of every random start
+    replicatedStarts: number; // starts that reached the best log-likelihood
+}
+
+export interface LPABootstrapTest {
+    k: number; // tests k - 1 against k profiles
+    statistic: number; // -2 log likelihood ratio
+    pValue: number;
+    replicates: number;
+}
+
 // Types for PCA
 export interface PCA3DPoint {
     id: number;
@@ -139,14 +595,49 @@ export interface FrequentPattern {
     support: number;
 }
 
+export type PatternFilter = 'all' | 'closed' | 'maximal';
+
+export interface SequentialPatternOptions {
+    minSupport: number; // proportion of sequences
+    maxGap?: number; // most actions allowed between consecutive pattern elements; 0 = contiguous, Infinity = any
+    minLength?: number;
+    maxLength?: number;
+    filter?: PatternFilter;
+}
+
+export interface SequentialPattern extends FrequentPattern {
+    count: number; // number of sequences containing the pattern
+    contiguous: boolean; // also frequent as an unbroken run of actions
+}
+
+export interface PatternContrast {
+    pattern: StudentAction[];
+    countA: number;
+    countB: number;
+    supportA: number;
+    supportB: number;
+    difference: number; // supportA - supportB
+    oddsRatio: number; // Haldane-corrected
+    pValue: number; // Fisher's exact test on the 2 x 2 table of groups by containment
+    adjustedPValue: number; // Holm
+}
+
 export interface TransitionMatrix {
     [from: string]: { [to: string]: number };
 }
 
 export interface LagAnalysisResult {
+    lag: number;
+    actions: StudentAction[]; // every row and column of the matrices, zero cells included
+    totalTransitions: number;
     observed: TransitionMatrix;
     expected: TransitionMatrix;
-    zScores: TransitionMatrix;
+    transitionProbabilities: TransitionMatrix; // P(to at t + lag | from at t)
+    zScores: TransitionMatrix; // Allison-Liker adjusted residuals
+    pValues: TransitionMatrix; // two-sided
+    adjustedPValues: TransitionMatrix; // Holm across all cells
+    yulesQ: TransitionMatrix;
+    chiSquare: { statistic: number; df: number; pValue: number };
 }
 
 // Types for Factor Analysis
@@ -160,11 +651,22 @@ export interface FactorLoading {
     [factor: string]: number | string; // e.g., factor1: 0.8, factor2: 0.1 ...
 }
 
+export type FactorExtraction = 'pa' | 'ml'; // principal axis or maximum likelihood
+export type FactorRotation = 'none' | 'varimax' | 'promax' | 'oblimin';
+
 export interface FactorAnalysisResult {
-    loadings: FactorLoading[];
+    loadings: FactorLoading[]; // pattern loadings after rotation
     correlationMatrix: number[][];
     itemLabels: string[];
     explainedVariance: number[]; // per factor
+    communalities: number[]; // per item
+    eigenvalues: number[]; // of the correlation matrix, for the scree plot
+    parallelEigenvalues: number[]; // 95th percentile from random data (parallel analysis)
+    suggestedFactors: number;
+    factorCorrelations: number[][] | null; // oblique rotations only
+    kmo: { overall: number; perItem: number[] };
+    bartlett: { chiSquare: number; df: number; pValue: number };
+    modelFit: { chiSquare: number; df: number; pValue: number | null } | null; // ML extraction only; pValue is null when df <= 0
 }
 
 // Types for Social Network Analysis (SNA)
@@ -176,17 +678,52 @@ export interface Interaction {
 
 export interface SNANode {
     id: number;
-    degree: number;
+    degree: number; // interactions sent plus received
+    inDegree: number; // distinct students who contacted this one
+    outDegree: number; // distinct students this one contacted
+    inStrength: number; // interactions received
+    outStrength: number; // interactions sent
+    betweenness: number; // normalized, shortest paths with length 1 / tie strength
+    closeness: number; // harmonic, over incoming paths
+    eigenvector: number; // of the symmetrized weighted network, unit length
+    pageRank: number;
+    clustering: number; // local clustering coefficient of the undirected network
+    community: number; // Louvain community index
 }
 
+export type SNAMetric = 'degree' | 'inDegree' | 'outDegree' | 'inStrength' | 'outStrength' | 'betweenness' | 'closeness' | 'eigenvector' | 'pageRank' | 'clustering' | 'community';
+
 export interface SNALink {
     source: number;
     target: number;
     time: number;
 }
 
+export interface SNANetworkMetrics {
+    nodeCount: number;
+    arcCount: number; // distinct directed ties
+    density: number; // arcs / (n (n - 1))
+    reciprocity: number; // share of arcs whose reverse also exists
+    transitivity: number; // global clustering: 3 x triangles / connected triples
+    averageClustering: number;
+    modularity: number; // of the Louvain partition
+    communityCount: number;
+}
+
+export interface SNANetwork {
+    nodes: SNANode[];
+    links: SNALink[];
+    metrics: SNANetworkMetrics;
+}
+
+export interface SNASnapshot extends SNANetwork {
+    start: number; // time window covered
+    end: number;
+}
+
 // Types for Knowledge Tracing
 export interface BKTParams {
+    prior: number;  // p(L0) - probability the skill is already known
     learn: number;  // p(L) - probability of learning
     guess: number;  // p(G) - probability of guessing
     slip: number;   // p(S) - probability of slipping
@@ -196,16 +733,113 @@ export interface MasteryState {
     history: number[]; // History of mastery probabilities
 }
 
+export interface KTSkill {
+    name: string;
+    params: BKTParams; // generating parameters for simulated data
+}
+
+export interface KTResponse {
+    studentId: string;
+    skill: string;
+    correct: 0 | 1;
+}
+
+export type BKTFitMethod = 'em' | 'grid';
+
+export interface BKTFitResult {
+    skill: string;
+    params: BKTParams;
+    logLikelihood: number;
+    iterations: number; // EM iterations (0 for grid search)
+    observations: number;
+}
+
+export interface PFACoefficient {
+    skill: string;
+    easiness: number; // beta: log-odds of a first attempt
+    successWeight: number; // gamma: change in log-odds per prior success
+    failureWeight: number; // rho: change in log-odds per prior failure
+}
+
+export interface KTModelMetrics {
+    model: string;
+    auc: number;
+    rmse: number;
+    accuracy: number;
+    logLoss: number;
+}
+
+export interface KnowledgeTracingComparison {
+    fits: BKTFitResult[];
+    untrainedSkills: string[]; // attempted only by held-out students, so not fitted
+    pfa: PFACoefficient[];
+    metrics: KTModelMetrics[]; // on held-out students
+    trainStudents: number;
+    testStudents: number;
+}
+
 // Types for Survival Analysis
 export interface SurvivalDataPoint {
     time: number; // Time to event or censoring
     status: 0 | 1; // 1 = event occurred (e.g., dropout), 0 = censored (e.g., completed course)
     group: 'Group A' | 'Group B';
+    covariates: Record<string, number>; // extra predictors for Cox regression
 }
 
 export interface SurvivalCurvePoint {
     time: number;
     survivalProbability: number;
+    lower: number; // confidence band (Greenwood, log-log scale)
+    upper: number;
+    atRisk: number;
+    events: number;
+    censored: number;
+}
+
+export interface KaplanMeierResult {
+    curve: SurvivalCurvePoint[];
+    median: number | null; // null when survival never drops to 50%
+    medianLower: number | null;
+    medianUpper: number | null;
+    n: number;
+    events: number;
+}
+
+export interface LogRankResult {
+    chiSquare: number;
+    df: number;
+    pValue: number;
+    observed: Record<string, number>;
+    expected: Record<string, number>;
+}
+
+export interface CoxCoefficient {
+    name: string;
+    coefficient: number;
+    standardError: number;
+    zValue: number;
+    pValue: number;
+    hazardRatio: number;
+    hrLower: number;
+    hrUpper: number;
+}
+
+export interface SchoenfeldTest {
+    name: string; // covariate, or 'GLOBAL'
+    rho: number; // correlation of scaled residuals with transformed time
+    chiSquare: number;
+    df: number;
+    pValue: number;
+}
+
+export interface CoxModelResult {
+    coefficients: CoxCoefficient[];
+    logLikelihood: number;
+    likelihoodRatioTest: { chiSquare: number; df: number; pValue: number };
+    proportionalHazardsTests: SchoenfeldTest[];
+    schoenfeldResiduals: { time: number; values: number[] }[]; // scaled residuals + beta, i.e. beta(t) estimates
+    events: number;
+    iterations: number;
 }
 
 // Types for Structural Equation Modeling (SEM)
@@ -236,16 +870,82 @@ export interface FitIndices {
     df: number;
     pValue: number;
     cfi: number;
+    tli: number;
     rmsea: number;
+    rmseaLower: number; // 90% confidence interval
+    rmseaUpper: number;
+    srmr: number;
+}
+
+export interface SEMParameterEstimate {
+    pathId: string; // id of the SEMPath, or 'var-<id>' for variances
+    from: string;
+    to: string;
+    type: 'loading' | 'regression' | 'covariance' | 'variance';
+    estimate: number;
+    standardError: number | null; // null for parameters fixed for identification
+    zValue: number | null;
+    pValue: number | null;
+    standardized: number;
+}
+
+export interface ModificationIndex {
+    pathId: string | null; // matching SEMPath id when the path exists in the model
+    from: string;
+    to: string;
+    type: 'loading' | 'regression' | 'covariance';
+    mi: number; // expected drop in chi-square if the parameter is freed
+    epc: number; // expected parameter change
+}
+
+export interface SEMResult {
+    fit: FitIndices;
+    estimates: SEMParameterEstimate[];
+    modificationIndices: ModificationIndex[];
+    converged: boolean;
+    identified: boolean; // false when the information matrix is singular, so the estimates are not unique
+    iterations: number;
 }
 
 // Types for Propensity Score Matching (PSM)
 export interface PSMDataPoint {
     id: number;
     group: 'Treatment' | 'Control';
-    priorScore: number;
+    covariates: Record<string, number>;
+    outcome: number;
+    propensityScore: number;
+    logit: number; // log-odds of the propensity score, the matching scale
     isMatched: boolean;
-    matchedWithId: number | null;
+    matchedWithIds: number[]; // controls of a treated unit, or treated units a control serves
+    matchWeight: number; // ATT weight; 0 when unmatched
+}
+
+export interface PSMMatchingOptions {
+    method: 'greedy' | 'optimal';
+    ratio: number; // k controls per treated unit
+    replacement: boolean;
+    caliper: number | null; // in SDs of the propensity logit
+}
+
+export interface CovariateBalance {
+    covariate: string;
+    treatedMeanBefore: number;
+    controlMeanBefore: number;
+    smdBefore: number; // standardized mean difference
+    smdAfter: number | null;
+    varianceRatioBefore: number;
+    varianceRatioAfter: number | null;
+}
+
+export interface TreatmentEffectEstimate {
+    att: number; // average treatment effect on the treated
+    standardError: number; // bootstrap
+    ciLower: number;
+    ciUpper: number;
+    naiveDifference: number; // unadjusted treated - control mean
+    matchedTreated: number;
+    matchedControls: number;
+    unmatchedTreated: number;
 }
 
 // Types for XAI for Prediction
@@ -260,12 +960,49 @@ export interface StudentFeatures {
 export interface FeatureContribution {
     feature: string;
     value: number; // The contribution value, can be positive or negative
+    featureValue?: number; // The student's value of the feature
 }
 
 export interface PredictionResult {
     prediction: number; // Final prediction score (0-100)
-    contributions: FeatureContribution[];
-    baseValue: number;
+    contributions: FeatureContribution[]; // SHAP values on the log-odds scale
+    baseValue: number; // Probability (0-100) at the background's mean log-odds
+    logOdds: number;
+    baseLogOdds: number;
+}
+
+export interface BoostedTreeNode {
+    feature: number; // -1 for a leaf
+    threshold: number; // go left when x[feature] <= threshold
+    left: number;
+    right: number;
+    value: number; // leaf output on the log-odds scale (learning rate applied)
+}
+
+export interface BoostedTreeModel {
+    featureNames: string[];
+    trees: BoostedTreeNode[][];
+    baseScore: number; // initial log-odds
+    learningRate: number;
+}
+
+export interface ModelPerformance {
+    trainAccuracy: number;
+    testAccuracy: number;
+    testAuc: number;
+    testLogLoss: number;
+    trainSize: number;
+    testSize: number;
+}
+
+export interface ShapDependencePoint {
+    featureValue: number;
+    shap: number;
+}
+
+export interface GlobalShapSummary {
+    importance: FeatureContribution[]; // mean |SHAP| per feature, descending
+    dependence: Record<string, ShapDependencePoint[]>;
 }
 
 // Types for Multimodal Analysis
@@ -305,6 +1042,41 @@ export interface Bookmark {
 export interface IRTParams {
     discrimination: number; // 'a' parameter
     difficulty: number;     // 'b' parameter
+    guessing?: number;      // 'c' parameter (3PL lower asymptote), 0 when omitted
+}
+
+export type IRTModelType = 'rasch' | '2pl' | '3pl';
+
+export interface IRTItemEstimate {
+    item: string;
+    params: IRTParams;
+    se: { discrimination: number | null, difficulty: number | null, guessing: number | null }; // null when not estimated
+    proportionCorrect: number;
+    infit: number; // information-weighted mean square
+    outfit: number; // unweighted mean square
+    fitChiSquare: number; // Orlando-Thissen S-X2 over sum-score groups
+    fitDf: number;
+    fitPValue: number;
+}
+
+export interface IRTPersonEstimate {
+    person: number;
+    rawScore: number;
+    theta: number; // EAP ability
+    se: number; // posterior standard deviation
+}
+
+export interface IRTEstimationResult {
+    model: IRTModelType;
+    items: IRTItemEstimate[];
+    persons: IRTPersonEstimate[];
+    logLikelihood: number; // marginal
+    numParameters: number;
+    aic: number;
+    bic: number;
+    iterations: number;
+    converged: boolean;
+    reliability: number; // marginal reliability of the EAP scores
 }
 
 // Types for Topic Modeling (LDA)
@@ -315,8 +1087,10 @@ export interface Keyword {
 
 export interface Topic {
     id: number;
-    keywords: Keyword[];
+    keywords: Keyword[]; // top words, weight = p(word | topic)
     name?: string; // Optional name from Gemini
+    prevalence?: number; // share of corpus tokens assigned to the topic
+    coherence?: number; // UMass coherence of the top words (closer to 0 is better)
 }
 
 export interface DocumentTopic {
@@ -330,9 +1104,22 @@ export interface LdaDocument {
     topicDistribution: DocumentTopic[];
 }
 
+export interface LdaOptions {
+    alpha?: number; // document-topic Dirichlet prior
+    beta?: number; // topic-word Dirichlet prior
+    iterations?: number; // Gibbs sweeps
+    burnIn?: number;
+    topWords?: number;
+    minDocumentFrequency?: number; // drop words that appear in fewer documents
+}
+
 export interface LDAResult {
     topics: Topic[];
     documents: LdaDocument[];
+    perplexity: number;
+    coherence: number; // mean UMass coherence across topics
+    vocabularySize: number;
+    tokenCount: number;
 }
 
 // Types for Mixed Methods Analysis
@@ -353,10 +1140,58 @@ export interface RddPoint {
     x: number; // Pre-test score
     y: number; // Post-test score
     group: 'control' | 'treatment';
+    treated?: boolean; // treatment actually received; differs from group for crossovers in a fuzzy design
+}
+
+export type RddKernel = 'triangular' | 'epanechnikov' | 'uniform';
+
+export interface RddOptions {
+    order?: 1 | 2; // local linear or local quadratic
+    kernel?: RddKernel;
+    confidenceLevel?: number;
+    fuzzy?: boolean; // scale the outcome jump by the jump in treatment take-up (needs RddPoint.treated)
+}
+
+export interface RddFuzzyResult {
+    firstStage: number; // jump in the share treated
+    firstStageSE: number;
+    reducedForm: number; // jump in the outcome
+    reducedFormSE: number;
 }
 
 export interface RddResult {
-    effect: number;
-    controlLine: RegressionLine;
+    effect: number; // treatment-side limit minus control-side limit at the cutoff (Wald ratio when fuzzy)
+    controlLine: RegressionLine; // linear part of each side's local fit
     treatmentLine: RegressionLine;
+    treatmentFit: number[]; // local polynomial coefficients in (x - cutoff), ascending powers
+    controlFit: number[];
+    se: number; // heteroskedasticity-robust (HC1)
+    ciLower: number;
+    ciUpper: number;
+    pValue: number;
+    bandwidth: number;
+    kernel: RddKernel;
+    order: 1 | 2;
+    nTreatment: number; // observations with positive kernel weight
+    nControl: number;
+    fuzzy: RddFuzzyResult | null;
+}
+
+export interface RddSensitivityPoint {
+    bandwidth: number;
+    effect: number;
+    ciLower: number;
+    ciUpper: number;
+}
+
+export interface RddDensityTest {
+    theta: number; // log density just above the cutoff minus just below
+    se: number;
+    z: number;
+    pValue: number;
+    bandwidth: number;
+    binWidth: number;
+    densityBelow: number;
+    densityAbove: number;
+    bins: { midpoint: number, density: number }[];
 }
\ No newline at end of file